@@ -2,6 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { TicketPlus, TicketCheck } from "lucide-react";
 import { useTicket, TicketLeg } from "@/stores/useTicket";
+import { legSport } from "@/lib/ticketLegs";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "react-i18next";
 import { useDemoMode } from "@/hooks/useDemoMode";
@@ -19,7 +20,7 @@ export function AddToTicketButton({ leg, size = "icon", variant = "ghost" }: Add
   const { t } = useTranslation('common');
   const { isDemo } = useDemoMode();
   const navigate = useNavigate();
-  const isAdded = hasLeg(leg.fixtureId, leg.market);
+  const isAdded = hasLeg(leg.fixtureId, leg.market, legSport(leg));
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -0,0 +1,177 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDistanceToNow } from "date-fns";
+import { Gauge } from "lucide-react";
+
+export type QuotaPriority = "critical" | "high" | "normal" | "low";
+
+export interface QuotaAccountSummary {
+  account: string;
+  used: number;
+  budget: number | null;
+  used_pct: number | null;
+  projected: number;
+  deferred: number;
+  rpm_limit: number | null;
+  calls_this_minute: number;
+  deferring: QuotaPriority[];
+}
+
+export interface QuotaJobSummary {
+  job: string;
+  account: string;
+  priority: QuotaPriority | null;
+  calls: number;
+  deferred: number;
+  budget: number | null;
+  last_call_at: string | null;
+  last_deferred_at: string | null;
+}
+
+export interface ApiQuotaSummary {
+  day: string;
+  accounts: QuotaAccountSummary[];
+  jobs: QuotaJobSummary[];
+}
+
+const PRIORITY_VARIANT: Record<QuotaPriority, "destructive" | "default" | "secondary" | "outline"> = {
+  critical: "destructive",
+  high: "default",
+  normal: "secondary",
+  low: "outline",
+};
+
+const usageColor = (pct: number | null) => {
+  if (pct == null) return "";
+  if (pct >= 85) return "text-red-500";
+  if (pct >= 70) return "text-yellow-500";
+  return "text-green-500";
+};
+
+const ago = (iso: string | null) => (iso ? formatDistanceToNow(new Date(iso), { addSuffix: true }) : "—");
+
+function AccountCard({ account }: { account: QuotaAccountSummary }) {
+  const overProjected = account.budget != null && account.projected > account.budget;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm font-medium">{account.account}</CardTitle>
+        <Gauge className="w-4 h-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className={`text-3xl font-bold ${usageColor(account.used_pct)}`}>
+          {account.used.toLocaleString()}
+          <span className="text-base font-normal text-muted-foreground">
+            {account.budget != null ? ` / ${account.budget.toLocaleString()}` : " calls (no cap)"}
+          </span>
+        </div>
+        {account.used_pct != null && <Progress value={Math.min(100, account.used_pct)} />}
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <p className="text-muted-foreground">Projected</p>
+            <p className={overProjected ? "font-medium text-red-500" : "font-medium"}>
+              {account.projected.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">This minute</p>
+            <p className="font-medium">
+              {account.calls_this_minute}
+              {account.rpm_limit != null && ` / ${account.rpm_limit}`}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Deferred</p>
+            <p className="font-medium">{account.deferred}</p>
+          </div>
+        </div>
+        {account.deferring.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            <span className="text-muted-foreground">Deferring:</span>
+            {account.deferring.map((p) => (
+              <Badge key={p} variant={PRIORITY_VARIANT[p]} className="text-xs">
+                {p}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ApiQuotaPanel({ quota }: { quota?: ApiQuotaSummary }) {
+  if (!quota) {
+    return <p className="text-sm text-muted-foreground">Quota data unavailable</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        {quota.accounts.map((account) => (
+          <AccountCard key={account.account} account={account} />
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            Usage by Job
+            <Badge variant="outline">{quota.day} UTC</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {quota.jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No metered calls today</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Deferred</TableHead>
+                  <TableHead>Last call</TableHead>
+                  <TableHead>Last deferred</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quota.jobs.map((job) => (
+                  <TableRow key={`${job.account}:${job.job}`}>
+                    <TableCell className="font-medium">
+                      {job.job}
+                      <span className="ml-2 text-xs text-muted-foreground">{job.account}</span>
+                    </TableCell>
+                    <TableCell>
+                      {job.priority ? (
+                        <Badge variant={PRIORITY_VARIANT[job.priority]} className="text-xs">
+                          {job.priority}
+                        </Badge>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.calls.toLocaleString()}
+                      {job.budget != null && (
+                        <span className="text-muted-foreground"> / {job.budget.toLocaleString()}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${job.deferred > 0 ? "text-yellow-600" : ""}`}>
+                      {job.deferred}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{ago(job.last_call_at)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{ago(job.last_deferred_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
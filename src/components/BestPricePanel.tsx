@@ -0,0 +1,79 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Loader2, Route } from "lucide-react";
+import { bestPriceSummary, type PricedLeg } from "@/lib/bestPrice";
+import { ODDS_MAX, ODDS_MIN } from "@/stores/useTicket";
+import { cn } from "@/lib/utils";
+
+interface BestPricePanelProps {
+  legs: PricedLeg[];
+  stake: number;
+  onReroute: () => void;
+  isRerouting?: boolean;
+  className?: string;
+}
+
+const formatPct = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+
+export function BestPricePanel({ legs, stake, onReroute, isRerouting, className }: BestPricePanelProps) {
+  const { t } = useTranslation("common");
+
+  // Nothing to compare until a refresh has brought back bookmaker boards
+  if (!legs.some((leg) => (leg.prices?.length ?? 0) > 1)) return null;
+
+  const summary = bestPriceSummary(legs, { min: ODDS_MIN, max: ODDS_MAX });
+
+  return (
+    <div className={cn("rounded-xl border border-border/40 bg-card/60 p-3.5 space-y-2.5", className)}>
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-foreground">
+          <Route className="h-3.5 w-3.5 text-primary" />
+          {t("best_price_title")}
+        </span>
+        <span className="text-[10px] text-muted-foreground">
+          {t("best_price_reroutable", { count: summary.reroutable, total: legs.length })}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <div className="text-muted-foreground">{t("best_price_odds")}</div>
+          <div className="text-base font-bold tabular-nums">{summary.bestOdds.toFixed(2)}</div>
+          <div className="text-[10px] text-muted-foreground tabular-nums">
+            {t("best_price_returns", {
+              amount: (stake * summary.bestOdds).toFixed(2),
+              uplift: formatPct(summary.upliftVsCurrent),
+            })}
+          </div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">{t("best_price_single_book")}</div>
+          {summary.singleBook ? (
+            <>
+              <div className="text-base font-bold tabular-nums">{summary.singleBook.odds.toFixed(2)}</div>
+              <div className="text-[10px] text-muted-foreground truncate" title={summary.singleBook.bookmaker}>
+                {summary.singleBook.bookmaker} ·{" "}
+                <span className={cn("tabular-nums", summary.upliftVsSingle! > 0 && "text-green-600")}>
+                  {formatPct(summary.upliftVsSingle!)}
+                </span>{" "}
+                {t("best_price_routed")}
+              </div>
+            </>
+          ) : (
+            <div className="text-[11px] text-muted-foreground">{t("best_price_no_single_book")}</div>
+          )}
+        </div>
+      </div>
+
+      <Button
+        variant="outline"
+        onClick={onReroute}
+        disabled={isRerouting || summary.reroutable === 0}
+        className="w-full h-9 gap-1.5 text-xs"
+      >
+        {isRerouting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Route className="h-3.5 w-3.5" />}
+        {t("best_price_reroute")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { BookCheck, Loader2, Trash2, Flame, Snowflake, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useBankroll, useBetJournal, useDeleteBet, useSetBankroll } from "@/hooks/useBetJournal";
+import { useTicket } from "@/stores/useTicket";
+import {
+  bankrollSeries,
+  journalStreaks,
+  roiBreakdown,
+  summarizeJournal,
+  MIXED_KEY,
+  type JournalStatus,
+  type RoiDimension,
+} from "@/lib/betJournal";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<JournalStatus, string> = {
+  PENDING: "bg-muted text-muted-foreground border-border/50",
+  WON: "bg-green-500/15 text-green-600 border-green-500/30",
+  LOST: "bg-destructive/15 text-destructive border-destructive/30",
+  VOID: "bg-amber-500/15 text-amber-600 border-amber-500/30",
+};
+
+const DIMENSIONS: { value: RoiDimension; label: string }[] = [
+  { value: "market", label: "bet_journal_dim_market" },
+  { value: "league", label: "bet_journal_dim_league" },
+  { value: "mode", label: "bet_journal_dim_mode" },
+];
+
+const pct = (n: number) => `${n > 0 ? "+" : ""}${(n * 100).toFixed(1)}%`;
+
+export function BetJournalSection() {
+  const { t } = useTranslation("common");
+  const { data: bets = [], isLoading } = useBetJournal();
+  const { data: bankroll } = useBankroll();
+  const setBankroll = useSetBankroll();
+  const deleteBet = useDeleteBet();
+  const setKellyBankroll = useTicket((s) => s.setBankroll);
+  const [bankrollInput, setBankrollInput] = useState("");
+  const [editingBankroll, setEditingBankroll] = useState(false);
+
+  const summary = useMemo(() => summarizeJournal(bets), [bets]);
+  const streaks = useMemo(() => journalStreaks(bets), [bets]);
+  const series = useMemo(
+    () =>
+      bankrollSeries(
+        bankroll?.starting_bankroll ?? 0,
+        bankroll?.started_at ?? bets[bets.length - 1]?.placed_at ?? new Date().toISOString(),
+        bets
+      ).map((p) => ({ ...p, label: format(new Date(p.time), "MMM d") })),
+    [bankroll, bets]
+  );
+  const currentBankroll = bankroll ? bankroll.starting_bankroll + summary.profit : null;
+
+  const leagueIds = useMemo(
+    () => [
+      ...new Set(
+        bets
+          .flatMap((b) => b.legs.filter((l) => (l.sport ?? "football") === "football").map((l) => l.league_id))
+          .filter((id): id is number => id != null)
+      ),
+    ],
+    [bets]
+  );
+  const { data: leagueNames } = useQuery({
+    queryKey: ["league-names", leagueIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("leagues").select("id, name").in("id", leagueIds);
+      if (error) throw error;
+      return new Map((data ?? []).map((l) => [String(l.id), l.name]));
+    },
+    enabled: leagueIds.length > 0,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const rowLabel = (dimension: RoiDimension, key: string) => {
+    if (key === MIXED_KEY) return dimension === "league" ? t("bet_journal_multi_league") : t("bet_journal_mixed");
+    const [sport, rest] = key.includes(":") ? key.split(":", 2) : [null, key];
+    if (dimension === "league") {
+      return sport
+        ? t("bet_journal_sport_league", { sport, id: rest })
+        : leagueNames?.get(key) ?? t("bet_journal_league", { id: key });
+    }
+    return (sport ? `${sport} ${rest}` : key).replace(/_/g, " ");
+  };
+
+  const handleSaveBankroll = async () => {
+    const value = Number(bankrollInput);
+    if (!(value > 0)) return;
+    try {
+      await setBankroll.mutateAsync(value);
+      setEditingBankroll(false);
+      toast.success(t("bet_journal_bankroll_saved"));
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : t("bet_journal_bankroll_save_failed"));
+    }
+  };
+
+  const handleDelete = async (betId: string) => {
+    try {
+      await deleteBet.mutateAsync(betId);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : t("bet_journal_delete_failed"));
+    }
+  };
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay: 0.15 }}
+      className="rounded-2xl border border-border/60 bg-card/80 backdrop-blur-sm overflow-hidden"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border/40 bg-muted/30">
+        <div className="flex items-center gap-3">
+          <div className="h-8 w-8 rounded-full bg-primary/15 flex items-center justify-center">
+            <BookCheck className="h-4 w-4 text-primary" />
+          </div>
+          <h2 className="font-semibold text-base">{t("bet_journal_title")}</h2>
+        </div>
+        {summary.pending > 0 && (
+          <Badge variant="outline" className="text-[10px] px-2">
+            {t("bet_journal_pending", { count: summary.pending, stake: summary.pending_stake.toFixed(2) })}
+          </Badge>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Bankroll */}
+        <div className="rounded-xl bg-muted/40 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground uppercase tracking-wider font-medium flex items-center gap-1.5">
+              <Wallet className="h-3.5 w-3.5" />
+              {t("bet_journal_bankroll")}
+            </span>
+            {bankroll && !editingBankroll ? (
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sm tabular-nums">
+                  {(currentBankroll ?? 0).toFixed(2)}
+                  <span className="text-muted-foreground font-normal"> {t("bet_journal_bankroll_start", { amount: bankroll.starting_bankroll.toFixed(2) })}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => {
+                    setKellyBankroll(currentBankroll);
+                    toast.success(t("bet_journal_kelly_applied"));
+                  }}
+                >
+                  {t("bet_journal_use_for_kelly")}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => {
+                    setBankrollInput(String(bankroll.starting_bankroll));
+                    setEditingBankroll(true);
+                  }}
+                >
+                  {t("bet_journal_edit")}
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  value={bankrollInput}
+                  onChange={(e) => setBankrollInput(e.target.value)}
+                  placeholder={t("bet_journal_starting_bankroll")}
+                  min={0}
+                  className="h-8 w-36 text-xs tabular-nums"
+                />
+                <Button size="sm" className="h-8 text-xs" onClick={handleSaveBankroll} disabled={setBankroll.isPending}>
+                  {setBankroll.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : t("save")}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : bets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {t("bet_journal_empty")}
+          </p>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {[
+                { label: t("bet_journal_settled"), value: `${summary.settled} / ${summary.bets}` },
+                { label: t("bet_journal_profit"), value: summary.profit.toFixed(2), tone: summary.profit },
+                { label: t("bet_journal_roi"), value: pct(summary.roi), tone: summary.roi },
+                { label: t("bet_journal_hit_rate"), value: `${(summary.hit_rate * 100).toFixed(0)}%` },
+              ].map((s) => (
+                <div key={s.label} className="rounded-xl bg-muted/40 p-3">
+                  <div className="text-[10px] text-muted-foreground uppercase tracking-wider">{s.label}</div>
+                  <div
+                    className={cn(
+                      "text-base font-bold tabular-nums",
+                      s.tone != null && (s.tone > 0 ? "text-green-600" : s.tone < 0 ? "text-destructive" : "")
+                    )}
+                  >
+                    {s.value}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Streaks */}
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="outline" className="gap-1">
+                <Flame className="h-3 w-3 text-green-600" />
+                {t("bet_journal_longest_win", { count: streaks.longest_win })}
+              </Badge>
+              <Badge variant="outline" className="gap-1">
+                <Snowflake className="h-3 w-3 text-destructive" />
+                {t("bet_journal_longest_loss", { count: streaks.longest_loss })}
+              </Badge>
+              {streaks.current !== 0 && (
+                <Badge variant="outline">
+                  {streaks.current > 0
+                    ? t("bet_journal_current_won", { count: streaks.current })
+                    : t("bet_journal_current_lost", { count: Math.abs(streaks.current) })}
+                </Badge>
+              )}
+            </div>
+
+            {/* Bankroll over time */}
+            {series.length > 1 && (
+              <div className="h-[200px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={series} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="bankrollGradient" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border/40" />
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} domain={["auto", "auto"]} />
+                    <Tooltip
+                      formatter={(value: number) => [value.toFixed(2), bankroll ? t("bet_journal_bankroll") : t("bet_journal_profit")]}
+                      contentStyle={{ fontSize: 12 }}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="bankroll"
+                      stroke="hsl(var(--primary))"
+                      fill="url(#bankrollGradient)"
+                      strokeWidth={2}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {/* ROI breakdown */}
+            <Tabs defaultValue="market">
+              <TabsList className="h-8">
+                {DIMENSIONS.map((d) => (
+                  <TabsTrigger key={d.value} value={d.value} className="text-xs h-6">
+                    {t(d.label)}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {DIMENSIONS.map((d) => (
+                <TabsContent key={d.value} value={d.value} className="mt-2">
+                  <div className="rounded-xl border border-border/40 divide-y divide-border/40 text-xs">
+                    {roiBreakdown(bets, d.value).map((row) => (
+                      <div key={row.key} className="flex items-center justify-between px-3 py-2">
+                        <span className="capitalize">{rowLabel(d.value, row.key)}</span>
+                        <span className="flex items-center gap-3 tabular-nums text-muted-foreground">
+                          <span>{row.won}/{row.bets}</span>
+                          <span>{row.profit.toFixed(2)}</span>
+                          <span className={cn("font-semibold w-14 text-right", row.roi > 0 ? "text-green-600" : row.roi < 0 ? "text-destructive" : "")}>
+                            {pct(row.roi)}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                    {summary.settled === 0 && (
+                      <div className="px-3 py-2 text-muted-foreground">{t("bet_journal_no_settled")}</div>
+                    )}
+                  </div>
+                </TabsContent>
+              ))}
+            </Tabs>
+
+            {/* Recent bets */}
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground uppercase tracking-wider font-medium">{t("bet_journal_recent")}</div>
+              {bets.slice(0, 10).map((bet) => (
+                <div key={bet.id} className="rounded-xl bg-muted/40 p-3 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {format(new Date(bet.placed_at), "MMM d, HH:mm")} · {t("bet_journal_legs", { count: bet.legs.length })}
+                      {bet.bookmaker && <span className="text-muted-foreground"> · {bet.bookmaker}</span>}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={cn("text-[10px] px-1.5", STATUS_STYLES[bet.status])}>
+                        {bet.status}
+                      </Badge>
+                      {bet.status === "PENDING" && (
+                        <button
+                          onClick={() => handleDelete(bet.id)}
+                          className="h-6 w-6 flex items-center justify-center rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                          aria-label={t("bet_journal_delete")}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-1 flex items-center justify-between text-muted-foreground tabular-nums">
+                    <span>
+                      {bet.stake.toFixed(2)} @ {bet.odds_taken.toFixed(2)}
+                      {bet.quoted_odds != null && bet.quoted_odds !== bet.odds_taken &&
+                        ` ${t("bet_journal_quoted", { odds: bet.quoted_odds.toFixed(2) })}`}
+                    </span>
+                    {bet.profit != null && (
+                      <span className={cn("font-semibold", bet.profit > 0 ? "text-green-600" : bet.profit < 0 ? "text-destructive" : "")}>
+                        {bet.profit > 0 ? "+" : ""}{bet.profit.toFixed(2)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </motion.section>
+  );
+}
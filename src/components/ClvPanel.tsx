@@ -0,0 +1,126 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TrendingUp } from "lucide-react";
+
+export interface ClvAggregate {
+  key: string;
+  n: number;
+  avg_clv_pct: number;
+  avg_fair_clv_pct: number | null;
+  beat_close_pct: number;
+  name?: string | null;
+}
+
+export interface ClvSummary {
+  window_days: number;
+  total: number;
+  overall: ClvAggregate | null;
+  by_market: ClvAggregate[];
+  by_line: ClvAggregate[];
+  by_league: ClvAggregate[];
+  by_rules_version: ClvAggregate[];
+  by_source: ClvAggregate[];
+}
+
+const formatPct = (v: number | null) => (v == null ? "—" : `${v > 0 ? "+" : ""}${(v * 100).toFixed(2)}%`);
+const clvColor = (v: number | null) =>
+  v == null ? "text-muted-foreground" : v > 0 ? "text-green-600" : v < 0 ? "text-red-600" : "";
+
+const SECTIONS: { field: keyof Omit<ClvSummary, "window_days" | "total" | "overall">; title: string; label: string }[] = [
+  { field: "by_market", title: "By Market", label: "Market" },
+  { field: "by_line", title: "By Line", label: "Line" },
+  { field: "by_league", title: "By League", label: "League" },
+  { field: "by_rules_version", title: "By Rules Version", label: "Version" },
+  { field: "by_source", title: "By Source", label: "Source" },
+];
+
+function ClvTable({ rows, label }: { rows: ClvAggregate[]; label: string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No snapshots yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Picks</TableHead>
+          <TableHead className="text-right">Avg CLV</TableHead>
+          <TableHead className="text-right">Fair CLV</TableHead>
+          <TableHead className="text-right">Beat Close</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.name ?? row.key}</TableCell>
+            <TableCell className="text-right">{row.n}</TableCell>
+            <TableCell className={`text-right ${clvColor(row.avg_clv_pct)}`}>{formatPct(row.avg_clv_pct)}</TableCell>
+            <TableCell className={`text-right ${clvColor(row.avg_fair_clv_pct)}`}>{formatPct(row.avg_fair_clv_pct)}</TableCell>
+            <TableCell className="text-right">{(row.beat_close_pct * 100).toFixed(1)}%</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function ClvPanel({ clv }: { clv?: ClvSummary }) {
+  if (!clv) {
+    return <p className="text-sm text-muted-foreground">CLV data unavailable</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Closing Line Value
+            <Badge variant="outline">last {clv.window_days}d</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Snapshots</p>
+              <p className="text-2xl font-bold">{clv.total}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Avg CLV</p>
+              <p className={`text-2xl font-bold ${clvColor(clv.overall?.avg_clv_pct ?? null)}`}>
+                {formatPct(clv.overall?.avg_clv_pct ?? null)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Fair CLV</p>
+              <p className={`text-2xl font-bold ${clvColor(clv.overall?.avg_fair_clv_pct ?? null)}`}>
+                {formatPct(clv.overall?.avg_fair_clv_pct ?? null)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Beat Close</p>
+              <p className="text-2xl font-bold">
+                {clv.overall ? `${(clv.overall.beat_close_pct * 100).toFixed(1)}%` : "—"}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {SECTIONS.map(({ field, title, label }) => (
+          <Card key={field}>
+            <CardHeader>
+              <CardTitle className="text-base">{title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ClvTable rows={clv[field]} label={label} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
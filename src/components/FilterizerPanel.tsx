@@ -3,7 +3,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
-import { Filter, X, Globe, MapPin, Calendar, Target, Hash, SlidersHorizontal, Cpu, Sparkles, RotateCcw } from "lucide-react";
+import { Filter, X, Globe, MapPin, Calendar, Target, Hash, SlidersHorizontal, Cpu, Sparkles, RotateCcw, ArrowDownWideNarrow, Activity, Radio } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { formatMarketLabel } from "@/lib/i18nFormatters";
 import { InfoTooltip } from "@/components/shared/InfoTooltip";
@@ -24,6 +24,9 @@ export interface FilterCriteria {
   includeModelOnly?: boolean;
   allLeagues?: boolean;
   dayRange?: "all" | "today" | "tomorrow";
+  sortBy?: "odds" | "probability" | "edge";
+  lineMovement?: "any" | "toward" | "against";
+  live?: boolean;
 }
 
 const MARKET_OPTIONS = [
@@ -38,6 +41,18 @@ const DAY_RANGES = [
   { id: "tomorrow" as const, label: "day_range_tomorrow", icon: "🌙" },
 ];
 
+const SORT_OPTIONS = [
+  { id: "odds" as const, label: "sort_odds" },
+  { id: "probability" as const, label: "sort_probability" },
+  { id: "edge" as const, label: "sort_edge" },
+];
+
+const MOVEMENT_OPTIONS = [
+  { id: "any" as const, label: "movement_any" },
+  { id: "toward" as const, label: "movement_toward" },
+  { id: "against" as const, label: "movement_against" },
+];
+
 const sectionVariants = {
   hidden: { opacity: 0, y: 12 },
   visible: (i: number) => ({
@@ -54,6 +69,9 @@ export function FilterizerPanel({ onApplyFilters, onClearFilters, isActive }: Fi
   const [includeModelOnly, setIncludeModelOnly] = useState<boolean>(true);
   const [allLeaguesMode, setAllLeaguesMode] = useState<boolean>(false);
   const [dayRange, setDayRange] = useState<"all" | "today" | "tomorrow">("all");
+  const [sortBy, setSortBy] = useState<"odds" | "probability" | "edge">("odds");
+  const [lineMovement, setLineMovement] = useState<"any" | "toward" | "against">("any");
+  const [live, setLive] = useState<boolean>(false);
 
   const currentMarketOption = MARKET_OPTIONS.find((m) => m.id === selectedMarket);
 
@@ -73,6 +91,9 @@ export function FilterizerPanel({ onApplyFilters, onClearFilters, isActive }: Fi
       includeModelOnly,
       allLeagues: allLeaguesMode,
       dayRange,
+      sortBy,
+      lineMovement,
+      live,
     });
   };
 
@@ -83,6 +104,9 @@ export function FilterizerPanel({ onApplyFilters, onClearFilters, isActive }: Fi
     setIncludeModelOnly(true);
     setAllLeaguesMode(false);
     setDayRange("all");
+    setSortBy("odds");
+    setLineMovement("any");
+    setLive(false);
     onClearFilters();
   };
 
@@ -294,8 +318,91 @@ export function FilterizerPanel({ onApplyFilters, onClearFilters, isActive }: Fi
           </button>
         </motion.div>
 
+        <div className="h-px bg-border/50" />
+
+        {/* Section 7: Ranking */}
+        <motion.div custom={6} variants={sectionVariants} initial="hidden" animate="visible" className="py-4">
+          <SectionLabel icon={<ArrowDownWideNarrow className="h-3.5 w-3.5" />} text={t("filterizer:rank_by")} />
+          <div className="grid grid-cols-3 gap-2 mt-3">
+            {SORT_OPTIONS.map((option) => (
+              <ToggleChip
+                key={option.id}
+                active={sortBy === option.id}
+                onClick={() => setSortBy(option.id)}
+                icon={null}
+                label={t(`filterizer:${option.label}`)}
+                compact
+              />
+            ))}
+          </div>
+          <p className="text-[11px] text-muted-foreground mt-2">
+            {t("filterizer:rank_by_caption")}
+          </p>
+        </motion.div>
+
+        <div className="h-px bg-border/50" />
+
+        {/* Section 8: Line movement since open */}
+        <motion.div custom={7} variants={sectionVariants} initial="hidden" animate="visible" className="py-4">
+          <SectionLabel icon={<Activity className="h-3.5 w-3.5" />} text={t("filterizer:line_movement")} />
+          <div className="grid grid-cols-3 gap-2 mt-3">
+            {MOVEMENT_OPTIONS.map((option) => (
+              <ToggleChip
+                key={option.id}
+                active={lineMovement === option.id}
+                onClick={() => setLineMovement(option.id)}
+                icon={null}
+                label={t(`filterizer:${option.label}`)}
+                compact
+              />
+            ))}
+          </div>
+          <p className="text-[11px] text-muted-foreground mt-2">
+            {t("filterizer:line_movement_caption")}
+          </p>
+        </motion.div>
+
+        <div className="h-px bg-border/50" />
+
+        {/* Section 9: In-play */}
+        <motion.div custom={8} variants={sectionVariants} initial="hidden" animate="visible" className="py-4">
+          <button
+            onClick={() => setLive(!live)}
+            className={cn(
+              "w-full flex items-center gap-3 p-3.5 rounded-xl border transition-all duration-200 active:scale-[0.98]",
+              live
+                ? "bg-destructive/10 border-destructive/30"
+                : "bg-muted/20 border-border/50"
+            )}
+          >
+            <div className={cn(
+              "flex items-center justify-center w-9 h-9 rounded-lg shrink-0",
+              live ? "bg-destructive/20" : "bg-muted/40"
+            )}>
+              <Radio className={cn("h-4 w-4", live ? "text-destructive" : "text-muted-foreground")} />
+            </div>
+            <div className="flex-1 text-left">
+              <p className={cn("text-sm font-medium", live ? "text-foreground" : "text-muted-foreground")}>
+                {t("filterizer:live_in_play")}
+              </p>
+              <p className="text-[11px] text-muted-foreground mt-0.5">
+                {t("filterizer:live_in_play_caption")}
+              </p>
+            </div>
+            <div className={cn(
+              "w-11 h-6 rounded-full relative transition-colors duration-200 shrink-0",
+              live ? "bg-destructive" : "bg-muted"
+            )}>
+              <div className={cn(
+                "absolute top-1 w-4 h-4 rounded-full bg-background shadow-sm transition-transform duration-200",
+                live ? "translate-x-6" : "translate-x-1"
+              )} />
+            </div>
+          </button>
+        </motion.div>
+
         {/* ── Actions ── */}
-        <motion.div custom={6} variants={sectionVariants} initial="hidden" animate="visible" className="pt-2 pb-1 grid grid-cols-[1fr_auto] gap-3">
+        <motion.div custom={9} variants={sectionVariants} initial="hidden" animate="visible" className="pt-2 pb-1 grid grid-cols-[1fr_auto] gap-3">
           <Button
             onClick={handleApply}
             className="h-12 rounded-xl text-sm font-semibold gap-2 shadow-[0_4px_20px_hsl(var(--primary)/0.25)] active:scale-[0.97] transition-transform"
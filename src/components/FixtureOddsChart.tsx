@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { format } from "date-fns";
+import { BarChart3, Flame, TrendingDown, TrendingUp } from "lucide-react";
+import { useOddsHistory } from "@/hooks/useOddsHistory";
+import { buildOddsChartRows, historyPicks, type OddsChartPick } from "@/lib/oddsHistory";
+
+interface FixtureOddsChartProps {
+  fixtureId: number;
+}
+
+const BOOK_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(217 91% 60%)",
+  "hsl(38 92% 50%)",
+  "hsl(280 65% 60%)",
+  "hsl(0 72% 51%)",
+];
+
+const pickValue = (p: OddsChartPick) => `${p.market}|${p.side}|${p.line}`;
+const pickLabel = (p: OddsChartPick) =>
+  `${p.market.charAt(0).toUpperCase()}${p.market.slice(1)} ${p.side} ${p.line}`;
+
+export function FixtureOddsChart({ fixtureId }: FixtureOddsChartProps) {
+  const { data, isLoading } = useOddsHistory(fixtureId);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const picks = useMemo(() => historyPicks(data?.points ?? []), [data]);
+  // Default to the goals 2.5 over when quoted, else the first selection
+  const activeValue =
+    selected ??
+    (picks.find((p) => p.market === "goals" && p.line === 2.5 && p.side === "over")
+      ? "goals|over|2.5"
+      : picks[0] ? pickValue(picks[0]) : null);
+  const active = picks.find((p) => pickValue(p) === activeValue) ?? null;
+
+  const { books, rows } = useMemo(
+    () => (active ? buildOddsChartRows(data?.points ?? [], active) : { books: [], rows: [] }),
+    [data, active]
+  );
+
+  const movement = active
+    ? data?.movements.find((m) => m.market === active.market && m.side === active.side && m.line === active.line)
+    : undefined;
+  const steam = active
+    ? (data?.steam ?? []).filter((s) => s.market === active.market && s.side === active.side && s.line === active.line)
+    : [];
+
+  if (isLoading) {
+    return <Skeleton className="h-[260px] w-full rounded-lg" />;
+  }
+
+  return (
+    <Card className="p-4 min-w-0">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h4 className="font-semibold truncate flex items-center gap-2">
+          <BarChart3 className="h-4 w-4 text-primary shrink-0" />
+          Odds Movement
+        </h4>
+        {picks.length > 0 && activeValue && (
+          <Select value={activeValue} onValueChange={setSelected}>
+            <SelectTrigger className="h-8 w-[150px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {picks.map((p) => (
+                <SelectItem key={pickValue(p)} value={pickValue(p)} className="text-xs">
+                  {pickLabel(p)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="h-[180px] flex flex-col items-center justify-center text-muted-foreground text-sm bg-muted/20 rounded-lg border border-border/30">
+          <BarChart3 className="h-8 w-8 mb-2 opacity-40" />
+          <p>No odds history yet</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+            {movement && (
+              <Badge
+                variant="outline"
+                className={
+                  movement.direction === "toward"
+                    ? "bg-green-500/10 text-green-600 border-green-500/20"
+                    : movement.direction === "against"
+                      ? "bg-red-500/10 text-red-600 border-red-500/20"
+                      : ""
+                }
+              >
+                {movement.move_pct < 0 ? <TrendingDown className="h-3 w-3 mr-1" /> : <TrendingUp className="h-3 w-3 mr-1" />}
+                {movement.open_odds.toFixed(2)} → {movement.current_odds.toFixed(2)} ({(movement.move_pct * 100).toFixed(1)}%)
+              </Badge>
+            )}
+            {steam.length > 0 && (
+              <Badge variant="outline" className="bg-orange-500/10 text-orange-600 border-orange-500/20">
+                <Flame className="h-3 w-3 mr-1" />
+                Steam × {steam.length}
+              </Badge>
+            )}
+          </div>
+
+          <div className="h-[180px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" strokeOpacity={0.5} vertical={false} />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(v) => format(new Date(v), "MMM d HH:mm")}
+                />
+                <YAxis
+                  domain={["auto", "auto"]}
+                  tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(v) => Number(v).toFixed(2)}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                    fontSize: "12px",
+                  }}
+                  labelFormatter={(v) => format(new Date(v as number), "MMM d, HH:mm")}
+                  formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                />
+                {books.map((book, i) => (
+                  <Line
+                    key={book}
+                    type="stepAfter"
+                    dataKey={book}
+                    stroke={BOOK_COLORS[i % BOOK_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+                {steam.map((s) => (
+                  <ReferenceLine
+                    key={s.started_at}
+                    x={new Date(s.detected_at).getTime()}
+                    stroke="hsl(25 95% 53%)"
+                    strokeDasharray="4 4"
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[10px] text-muted-foreground">
+            {books.map((book, i) => (
+              <span key={book} className="flex items-center gap-1">
+                <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: BOOK_COLORS[i % BOOK_COLORS.length] }} />
+                {book}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
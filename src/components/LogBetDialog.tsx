@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BookCheck, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useLogBet, type LogBetLeg, type LogBetParams } from "@/hooks/useBetJournal";
+import { useRegisterOverlay } from "@/hooks/useRegisterOverlay";
+
+interface LogBetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  legs: LogBetLeg[];
+  quotedOdds: number;
+  defaultStake?: number;
+  defaultBookmaker?: string;
+  source: LogBetParams["source"];
+  mode?: string | null;
+  generatedTicketId?: string | null;
+}
+
+/** Record a ticket in the bet journal with the stake, bookmaker and odds actually taken */
+export function LogBetDialog({
+  open,
+  onOpenChange,
+  legs,
+  quotedOdds,
+  defaultStake = 10,
+  defaultBookmaker = "",
+  source,
+  mode = null,
+  generatedTicketId = null,
+}: LogBetDialogProps) {
+  const { t } = useTranslation("common");
+  const [stake, setStake] = useState("");
+  const [bookmaker, setBookmaker] = useState("");
+  const [oddsTaken, setOddsTaken] = useState("");
+  useRegisterOverlay("log-bet-dialog", open, () => onOpenChange(false));
+
+  const logBet = useLogBet();
+
+  useEffect(() => {
+    if (open) {
+      setStake(String(defaultStake));
+      setBookmaker(defaultBookmaker);
+      setOddsTaken(quotedOdds.toFixed(2));
+    }
+  }, [open, defaultStake, defaultBookmaker, quotedOdds]);
+
+  const stakeNum = Number(stake) || 0;
+  const oddsNum = Number(oddsTaken) || 0;
+  const isValid = stakeNum > 0 && oddsNum > 1 && legs.length > 0;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    try {
+      await logBet.mutateAsync({
+        stake: stakeNum,
+        bookmaker: bookmaker.trim() || null,
+        odds_taken: oddsNum,
+        quoted_odds: quotedOdds > 1 ? Math.round(quotedOdds * 100) / 100 : null,
+        source,
+        mode,
+        generated_ticket_id: generatedTicketId,
+        legs,
+      });
+      toast.success(t("log_bet_success"));
+      onOpenChange(false);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : t("log_bet_failed"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookCheck className="h-4 w-4 text-primary" />
+            {t("log_bet_mark_as_placed")}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {t("log_bet_summary", { count: legs.length, odds: quotedOdds.toFixed(2) })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="log-bet-stake">{t("stake")}</Label>
+              <Input
+                id="log-bet-stake"
+                type="number"
+                value={stake}
+                onChange={(e) => setStake(e.target.value)}
+                min={0}
+                step={1}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="log-bet-odds">{t("log_bet_odds_taken")}</Label>
+              <Input
+                id="log-bet-odds"
+                type="number"
+                value={oddsTaken}
+                onChange={(e) => setOddsTaken(e.target.value)}
+                min={1.01}
+                step={0.01}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="log-bet-bookmaker">{t("log_bet_bookmaker")}</Label>
+            <Input
+              id="log-bet-bookmaker"
+              value={bookmaker}
+              onChange={(e) => setBookmaker(e.target.value)}
+              placeholder={t("log_bet_bookmaker_placeholder")}
+              maxLength={60}
+            />
+          </div>
+          {stakeNum > 0 && oddsNum > 1 && (
+            <p className="text-xs text-muted-foreground">
+              {t("log_bet_returns", { amount: (stakeNum * oddsNum).toFixed(2) })}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || logBet.isPending}>
+            {logBet.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("log_bet_save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
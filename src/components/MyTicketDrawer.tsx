@@ -5,7 +5,7 @@ import {
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Trash2, RefreshCw, Copy, Ticket, X, ChevronRight, Zap, Clock } from "lucide-react";
+import { Trash2, RefreshCw, Copy, Ticket, X, ChevronRight, Zap, Clock, BookCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
@@ -14,6 +14,11 @@ import { useRegisterOverlay } from "@/hooks/useRegisterOverlay";
 import { formatDateWithLocale } from "@/lib/i18nFormatters";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
+import { TicketEVPanel } from "./TicketEVPanel";
+import { BestPricePanel } from "./BestPricePanel";
+import { LogBetDialog } from "./LogBetDialog";
+import type { LogBetLeg } from "@/hooks/useBetJournal";
+import { legSport, SPORT_LABELS } from "@/lib/ticketLegs";
 
 interface MyTicketDrawerProps {
   open: boolean;
@@ -26,7 +31,9 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
   const { t, i18n } = useTranslation("common");
   useRegisterOverlay("my-ticket-drawer", open, () => onOpenChange(false));
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRerouting, setIsRerouting] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
+  const [logBetOpen, setLogBetOpen] = useState(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -35,6 +42,26 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
   }, []);
 
   const totalOdds = legs.reduce((acc, leg) => acc * leg.odds, 1);
+
+  // The journal settles football over/under legs (score-ticket-legs) and every
+  // hockey / basketball leg (hockey-sync-results, basketball-sync-results).
+  // A ticket with any other leg is not journaled: logging only part of it
+  // against the full ticket odds would settle it wrongly.
+  const unsettleableLegs = legs.filter(
+    (leg) => legSport(leg) === "football" && leg.side !== "over" && leg.side !== "under"
+  );
+  const journalLegs = legs.map((leg): LogBetLeg => ({
+    sport: legSport(leg),
+    fixtureId: leg.fixtureId,
+    leagueId: leg.leagueId,
+    homeTeam: leg.homeTeam,
+    awayTeam: leg.awayTeam,
+    kickoff: leg.kickoffUtc,
+    market: leg.market,
+    side: leg.side,
+    line: Number(leg.line),
+    odds: leg.odds,
+  }));
   const potentialReturn = stake * totalOdds;
 
   const handleRefreshOdds = async () => {
@@ -49,11 +76,21 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
     }
   };
 
+  const handleReroute = async () => {
+    setIsRerouting(true);
+    try {
+      await refreshOdds({ reroute: true });
+      toast({ title: t("ticket_rerouted"), description: t("ticket_rerouted_description") });
+    } finally {
+      setIsRerouting(false);
+    }
+  };
+
   const handleCopy = () => {
     const ticketText = legs
       .map(
         (leg, i) =>
-          `${i + 1}. ${leg.homeTeam} vs ${leg.awayTeam}\n   ${leg.market.toUpperCase()} ${leg.side} ${leg.line} @ ${leg.odds.toFixed(2)} (${leg.bookmaker})\n   Kickoff: ${formatDateWithLocale(new Date(leg.kickoffUtc), "MMM d, HH:mm", i18n.language)}`
+          `${i + 1}. ${legSport(leg) === "football" ? "" : `[${SPORT_LABELS[legSport(leg)]}] `}${leg.homeTeam} vs ${leg.awayTeam}\n   ${leg.market.replace(/_/g, " ").toUpperCase()} ${leg.side} ${leg.line} @ ${leg.odds.toFixed(2)} (${leg.bookmaker})\n   Kickoff: ${formatDateWithLocale(new Date(leg.kickoffUtc), "MMM d, HH:mm", i18n.language)}`
       )
       .join("\n\n");
     const summary = `\n\nTotal Odds: ${totalOdds.toFixed(2)}\nStake: ${stake}\nPotential Return: ${potentialReturn.toFixed(2)}`;
@@ -190,8 +227,13 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
                       {/* Market row */}
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-1.5">
+                          {legSport(leg) !== "football" && (
+                            <span className="text-[10px] font-semibold text-muted-foreground bg-muted/40 px-1.5 py-0.5 rounded-md border border-border/30">
+                              {SPORT_LABELS[legSport(leg)]}
+                            </span>
+                          )}
                           <span className="text-[11px] font-semibold text-primary-foreground bg-primary px-2 py-0.5 rounded-md uppercase">
-                            {leg.market}
+                            {leg.market.replace(/_/g, " ")}
                           </span>
                           <span className="text-[11px] font-medium text-foreground bg-muted/40 px-2 py-0.5 rounded-md border border-border/30">
                             {leg.side} {leg.line}
@@ -208,6 +250,25 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
                           <p className="text-[10px] text-muted-foreground">{leg.bookmaker}</p>
                         </div>
                       </div>
+
+                      {/* Price board: every bookmaker's price for this leg */}
+                      {leg.prices && leg.prices.length > 1 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {leg.prices.map((p) => (
+                            <span
+                              key={p.bookmaker}
+                              className={cn(
+                                "text-[10px] tabular-nums px-1.5 py-0.5 rounded-md border",
+                                p.bookmaker === leg.bookmaker
+                                  ? "bg-primary/15 border-primary/40 text-primary"
+                                  : "bg-muted/20 border-border/30 text-muted-foreground"
+                              )}
+                            >
+                              {p.bookmaker} {p.odds.toFixed(2)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </motion.div>
                 ))}
@@ -248,6 +309,25 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
               </div>
             </div>
 
+            {/* EV + Kelly stake */}
+            <TicketEVPanel
+              legs={legs.map((leg) => ({
+                sport: legSport(leg),
+                fixtureId: leg.fixtureId,
+                leagueId: leg.leagueId,
+                kickoff: leg.kickoffUtc,
+                market: leg.market,
+                side: leg.side,
+                line: leg.line,
+                odds: leg.odds,
+                modelProb: leg.modelProb,
+              }))}
+              stake={stake}
+              onApplyStake={setStake}
+            />
+
+            <BestPricePanel legs={legs} stake={stake} onReroute={handleReroute} isRerouting={isRerouting} />
+
             {/* Summary */}
             <div className="rounded-xl bg-gradient-to-br from-primary/10 via-primary/5 to-transparent border border-primary/20 p-3.5">
               <div className="flex items-center justify-between text-xs text-muted-foreground mb-1.5">
@@ -260,6 +340,25 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
               </div>
             </div>
 
+            {userId && (
+              <div className="space-y-1">
+                <Button
+                  variant="outline"
+                  onClick={() => setLogBetOpen(true)}
+                  disabled={unsettleableLegs.length > 0}
+                  className="w-full h-10 gap-1.5 text-xs"
+                >
+                  <BookCheck className="h-3.5 w-3.5" />
+                  {t("log_bet_mark_as_placed")}
+                </Button>
+                {unsettleableLegs.length > 0 && (
+                  <p className="text-[10px] text-muted-foreground leading-relaxed">
+                    {t("log_bet_unsettleable_legs", { count: unsettleableLegs.length })}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Note */}
             <p className="text-[10px] text-muted-foreground leading-relaxed">
               <strong className="text-foreground/60">{t("note")}</strong> {t("odds_range_note")}
@@ -267,6 +366,16 @@ export function MyTicketDrawer({ open, onOpenChange }: MyTicketDrawerProps) {
           </div>
         )}
       </SheetContent>
+
+      <LogBetDialog
+        open={logBetOpen}
+        onOpenChange={setLogBetOpen}
+        legs={journalLegs}
+        quotedOdds={totalOdds}
+        defaultStake={stake}
+        defaultBookmaker={new Set(legs.map((l) => l.bookmaker)).size === 1 ? legs[0]?.bookmaker : ""}
+        source="my_ticket"
+      />
     </Sheet>
   );
 }
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { ArrowRight, Play } from "lucide-react";
+
+export type PipelineNodeStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+export interface PipelineGraphNode {
+  id: string;
+  fn: string;
+  depends_on: string[];
+  level: number;
+}
+
+export interface PipelineNodeAttempt {
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  http_status: number | null;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface PipelineNodeState {
+  status: PipelineNodeStatus;
+  attempts: PipelineNodeAttempt[];
+  next_attempt_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  dead_lettered: boolean;
+}
+
+export interface PipelineRun {
+  id: string;
+  pipeline: string;
+  status: "running" | "succeeded" | "failed";
+  trigger: string;
+  graph: PipelineGraphNode[];
+  nodes: Record<string, PipelineNodeState>;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface PipelineDeadLetter {
+  id: number;
+  job_name: string;
+  run_started: string;
+  run_finished: string | null;
+  error_message: string | null;
+  details: { pipeline?: string; pipeline_run_id?: string; node?: string; attempts?: PipelineNodeAttempt[] } | null;
+}
+
+export interface PipelinesSummary {
+  runs: PipelineRun[];
+  dead_letters: PipelineDeadLetter[];
+}
+
+const PIPELINES = ["prematch", "settlement"];
+
+const STATUS_VARIANT: Record<string, "destructive" | "default" | "secondary" | "outline"> = {
+  succeeded: "default",
+  running: "secondary",
+  pending: "outline",
+  skipped: "outline",
+  failed: "destructive",
+};
+
+const NODE_BORDER: Record<PipelineNodeStatus, string> = {
+  pending: "border-muted",
+  running: "border-blue-500",
+  succeeded: "border-green-500",
+  failed: "border-red-500",
+  skipped: "border-dashed border-muted-foreground",
+};
+
+const formatDuration = (ms: number) => (ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${(ms / 60_000).toFixed(1)}m`);
+
+const ago = (iso: string | null) => (iso ? formatDistanceToNow(new Date(iso), { addSuffix: true }) : "—");
+
+function runDuration(run: PipelineRun): number {
+  return (run.finished_at ? Date.parse(run.finished_at) : Date.now()) - Date.parse(run.started_at);
+}
+
+/** Nodes grouped into columns by dependency depth */
+function RunGraph({ run }: { run: PipelineRun }) {
+  const levels = Math.max(0, ...run.graph.map((n) => n.level)) + 1;
+  const columns = Array.from({ length: levels }, (_, level) => run.graph.filter((n) => n.level === level));
+
+  return (
+    <div className="flex items-center gap-3 overflow-x-auto pb-2">
+      {columns.map((column, level) => (
+        <div key={level} className="flex items-center gap-3">
+          {level > 0 && <ArrowRight className="w-4 h-4 shrink-0 text-muted-foreground" />}
+          <div className="flex flex-col gap-2">
+            {column.map((node) => {
+              const state = run.nodes[node.id];
+              const spent = state?.attempts.reduce((sum, a) => sum + a.duration_ms, 0) ?? 0;
+              return (
+                <div key={node.id} className={`min-w-40 rounded-md border-2 p-2 text-xs ${NODE_BORDER[state?.status ?? "pending"]}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{node.id}</span>
+                    <Badge variant={STATUS_VARIANT[state?.status ?? "pending"]} className="text-[10px]">
+                      {state?.status ?? "pending"}
+                    </Badge>
+                  </div>
+                  <p className="text-muted-foreground">{node.fn}</p>
+                  <p className="text-muted-foreground">
+                    {state?.attempts.length ?? 0} attempt(s){spent > 0 && ` · ${formatDuration(spent)}`}
+                  </p>
+                  {state?.status === "pending" && state.next_attempt_at && (
+                    <p className="text-yellow-600">retry {ago(state.next_attempt_at)}</p>
+                  )}
+                  {state?.dead_lettered && <p className="text-red-500">dead-lettered</p>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Each node's attempts on a shared time axis starting at the run's start */
+function RunTimeline({ run }: { run: PipelineRun }) {
+  const start = Date.parse(run.started_at);
+  const total = Math.max(runDuration(run), 1);
+  const pct = (ms: number) => `${Math.min(100, Math.max(0, (ms / total) * 100))}%`;
+
+  return (
+    <div className="space-y-2">
+      {run.graph.map((node) => {
+        const state = run.nodes[node.id];
+        const lastError = state?.attempts.filter((a) => !a.ok).pop()?.error;
+        return (
+          <div key={node.id} className="grid grid-cols-[8rem_1fr] items-center gap-3 text-xs">
+            <span className="truncate font-medium" title={lastError ?? undefined}>
+              {node.id}
+            </span>
+            <div className="relative h-4 rounded bg-muted">
+              {state?.attempts.map((a, i) => (
+                <div
+                  key={i}
+                  className={`absolute h-4 rounded ${a.ok ? "bg-green-500" : "bg-red-500"}`}
+                  style={{
+                    left: pct(Date.parse(a.started_at) - start),
+                    width: `max(2px, ${pct(a.duration_ms)})`,
+                  }}
+                  title={`${formatDuration(a.duration_ms)}${a.error ? ` — ${a.error}` : ""}`}
+                />
+              ))}
+              {state?.status === "running" && state.started_at && (
+                <div
+                  className="absolute h-4 animate-pulse rounded bg-blue-500"
+                  style={{
+                    left: pct(Date.parse(state.started_at) - start),
+                    width: `max(2px, ${pct(Date.now() - Date.parse(state.started_at))})`,
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-right text-xs text-muted-foreground">{formatDuration(total)}</p>
+    </div>
+  );
+}
+
+export function PipelineRunsPanel({ pipelines, onRefresh }: { pipelines?: PipelinesSummary; onRefresh?: () => void }) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [starting, setStarting] = useState<string | null>(null);
+
+  const handleStart = async (pipeline: string) => {
+    setStarting(pipeline);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        toast.error("No session");
+        return;
+      }
+
+      const response = await supabase.functions.invoke("pipeline-orchestrator", {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: { action: "start", pipeline },
+      });
+
+      if (response.error) {
+        toast.error(`Could not start ${pipeline}: ${response.error.message}`);
+        return;
+      }
+      toast.success(`Started ${pipeline} pipeline`);
+      if (response.data?.started) setSelectedId(response.data.started);
+      onRefresh?.();
+    } catch (err) {
+      toast.error(`Pipeline error: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  if (!pipelines) {
+    return <p className="text-sm text-muted-foreground">Pipeline data unavailable</p>;
+  }
+
+  const selected = pipelines.runs.find((r) => r.id === selectedId) ?? pipelines.runs[0];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-base">Pipeline Runs</CardTitle>
+          <div className="flex gap-2">
+            {PIPELINES.map((pipeline) => (
+              <Button
+                key={pipeline}
+                size="sm"
+                variant="outline"
+                disabled={starting !== null}
+                onClick={() => handleStart(pipeline)}
+              >
+                <Play className="w-3 h-3 mr-1" />
+                {starting === pipeline ? "Starting..." : `Run ${pipeline}`}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {pipelines.runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pipeline runs yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pipeline</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pipelines.runs.map((run) => (
+                  <TableRow
+                    key={run.id}
+                    className={`cursor-pointer ${run.id === selected?.id ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedId(run.id)}
+                  >
+                    <TableCell className="font-medium">{run.pipeline}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANT[run.status]} className="text-xs">
+                        {run.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{run.trigger}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{ago(run.started_at)}</TableCell>
+                    <TableCell className="text-right">{formatDuration(runDuration(run))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              {selected.pipeline}
+              <Badge variant={STATUS_VARIANT[selected.status]}>{selected.status}</Badge>
+              <span className="text-sm font-normal text-muted-foreground">{ago(selected.started_at)}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <RunGraph run={selected} />
+            <RunTimeline run={selected} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Dead Letters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {pipelines.dead_letters.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No dead-lettered jobs</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Pipeline</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pipelines.dead_letters.map((dl) => (
+                  <TableRow key={dl.id}>
+                    <TableCell className="font-medium">
+                      {dl.job_name}
+                      {dl.details?.node && <span className="ml-2 text-xs text-muted-foreground">{dl.details.node}</span>}
+                    </TableCell>
+                    <TableCell>{dl.details?.pipeline ?? "—"}</TableCell>
+                    <TableCell className="text-right">{dl.details?.attempts?.length ?? "—"}</TableCell>
+                    <TableCell className="max-w-md truncate text-sm text-red-500" title={dl.error_message ?? undefined}>
+                      {dl.error_message ?? "—"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{ago(dl.run_finished)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Loader2, AlertTriangle, TrendingUp, Plus } from "lucide-react";
 import { useEffect, useState } from "react";
 import { InjuriesDisplay } from "./InjuriesDisplay";
+import { FixtureOddsChart } from "./FixtureOddsChart";
 
 interface TeamStats {
   goals: number;
@@ -39,6 +40,7 @@ interface InjuredPlayer {
 }
 
 interface Analysis {
+  fixture_id?: number;
   home: TeamStats & { 
     team_id: number;
     sample_size: number;
@@ -326,6 +328,11 @@ export function RightRail({ analysis, loading, suggested_markets = [], onAddToTi
             />
           )}
 
+          {/* Odds Movement */}
+          {analysis.fixture_id && analysis.odds_available && (
+            <FixtureOddsChart fixtureId={analysis.fixture_id} />
+          )}
+
           {/* Combined Stats */}
           <Card className="p-4 border-primary/30 min-w-0">
             <h4 className="font-semibold mb-3 text-primary truncate">Combined Stats</h4>
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { GitCompare, Rocket, Plus, Layers } from "lucide-react";
+import { format } from "date-fns";
+
+type RulePick = { side: "over" | "under"; line: number } | null;
+type RuleRange = [number, number] | "gte";
+
+interface RulesVersion {
+  version: string;
+  rules: Record<string, { range: RuleRange; pick: RulePick }[]>;
+  league_overrides: Record<string, Record<string, unknown>>;
+  based_on: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  promoted_at: string | null;
+}
+
+interface RuleDiffEntry {
+  scope: string;
+  market: string;
+  change: "added" | "removed" | "changed";
+  range: RuleRange;
+  before?: RulePick;
+  after?: RulePick;
+}
+
+async function invokeRegistry<T>(body: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not authenticated");
+
+  const response = await supabase.functions.invoke("rules-registry", {
+    headers: { Authorization: `Bearer ${session.access_token}` },
+    body,
+  });
+
+  if (response.error) throw response.error;
+  if (response.data?.error) {
+    const details = Array.isArray(response.data.details) ? `: ${response.data.details.join("; ")}` : "";
+    throw new Error(`${response.data.error}${details}`);
+  }
+  return response.data as T;
+}
+
+const formatRange = (range: RuleRange) => (range === "gte" ? "≥ max" : `[${range[0]}, ${range[1]}]`);
+const formatPick = (pick: RulePick | undefined) =>
+  pick === undefined ? "—" : pick === null ? "none" : `${pick.side} ${pick.line}`;
+
+export function RulesMatrixPanel() {
+  const queryClient = useQueryClient();
+  const [diffFrom, setDiffFrom] = useState<string>("");
+  const [diffTo, setDiffTo] = useState<string>("");
+  const [newVersion, setNewVersion] = useState("");
+  const [newBasedOn, setNewBasedOn] = useState<string>("");
+  const [newNotes, setNewNotes] = useState("");
+  const [newRulesJson, setNewRulesJson] = useState("");
+  const [newOverridesJson, setNewOverridesJson] = useState("{}");
+
+  const { data: versions, isLoading } = useQuery({
+    queryKey: ["rules-matrix-versions"],
+    queryFn: async () => {
+      const data = await invokeRegistry<{ versions: RulesVersion[] }>({ action: "list" });
+      return data.versions;
+    },
+  });
+
+  const active = versions?.find((v) => v.is_active);
+
+  // Default the diff to "active → newest other version"
+  useEffect(() => {
+    if (!versions?.length || diffFrom || diffTo) return;
+    const other = versions.find((v) => !v.is_active);
+    setDiffFrom(active?.version ?? versions[0].version);
+    setDiffTo(other?.version ?? versions[0].version);
+  }, [versions, active, diffFrom, diffTo]);
+
+  const { data: diff, isFetching: diffLoading } = useQuery({
+    queryKey: ["rules-matrix-diff", diffFrom, diffTo],
+    queryFn: async () => {
+      const data = await invokeRegistry<{ changes: RuleDiffEntry[] }>({ action: "diff", from: diffFrom, to: diffTo });
+      return data.changes;
+    },
+    enabled: !!diffFrom && !!diffTo && diffFrom !== diffTo,
+  });
+
+  const promote = useMutation({
+    mutationFn: (version: string) =>
+      invokeRegistry<{ previous: string | null; active: string; changed: boolean }>({ action: "promote", version }),
+    onSuccess: (data) => {
+      toast.success(data.changed ? `Promoted ${data.active} (was ${data.previous ?? "none"})` : `${data.active} is already active`);
+      queryClient.invalidateQueries({ queryKey: ["rules-matrix-versions"] });
+    },
+    onError: (error) => {
+      toast.error(`Promote failed: ${error.message}`);
+    },
+  });
+
+  const create = useMutation({
+    mutationFn: async () => {
+      let rules: unknown;
+      let leagueOverrides: unknown;
+      try {
+        rules = newRulesJson.trim() ? JSON.parse(newRulesJson) : undefined;
+        leagueOverrides = newOverridesJson.trim() ? JSON.parse(newOverridesJson) : undefined;
+      } catch {
+        throw new Error("Rules and overrides must be valid JSON");
+      }
+      return invokeRegistry<{ version: string }>({
+        action: "create",
+        version: newVersion.trim(),
+        based_on: newBasedOn || undefined,
+        rules,
+        league_overrides: leagueOverrides,
+        notes: newNotes.trim() || undefined,
+      });
+    },
+    onSuccess: (data) => {
+      toast.success(`Created ${data.version} (inactive)`);
+      setNewVersion("");
+      setNewNotes("");
+      queryClient.invalidateQueries({ queryKey: ["rules-matrix-versions"] });
+    },
+    onError: (error) => {
+      toast.error(`Create failed: ${error.message}`);
+    },
+  });
+
+  const loadBase = (version: string) => {
+    setNewBasedOn(version);
+    const base = versions?.find((v) => v.version === version);
+    if (base) {
+      setNewRulesJson(JSON.stringify(base.rules, null, 2));
+      setNewOverridesJson(JSON.stringify(base.league_overrides ?? {}, null, 2));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Layers className="w-6 h-6 text-primary" />
+        <h2 className="text-2xl font-bold">Rules Matrix</h2>
+        {active && (
+          <Badge variant="outline" className="ml-2">
+            Active: {active.version}
+          </Badge>
+        )}
+      </div>
+
+      {/* Versions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Versions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Based on</TableHead>
+                <TableHead>League overrides</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Promoted</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(versions ?? []).map((v) => (
+                <TableRow key={v.version}>
+                  <TableCell className="font-mono">
+                    {v.version}
+                    {v.is_active && <Badge className="ml-2 bg-green-500">Active</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-muted-foreground">{v.based_on ?? "—"}</TableCell>
+                  <TableCell>{Object.keys(v.league_overrides ?? {}).length}</TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground">{v.notes ?? ""}</TableCell>
+                  <TableCell className="text-xs">{format(new Date(v.created_at), "yyyy-MM-dd HH:mm")}</TableCell>
+                  <TableCell className="text-xs">
+                    {v.promoted_at ? format(new Date(v.promoted_at), "yyyy-MM-dd HH:mm") : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={v.is_active || promote.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Promote ${v.version} to active? New selections and tickets will use it within ~5 minutes.`)) {
+                          promote.mutate(v.version);
+                        }
+                      }}
+                    >
+                      <Rocket className="w-3 h-3 mr-1" />
+                      Promote
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Diff */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <GitCompare className="w-4 h-4" />
+            Diff
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Select value={diffFrom} onValueChange={setDiffFrom}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {(versions ?? []).map((v) => (
+                  <SelectItem key={v.version} value={v.version}>{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">→</span>
+            <Select value={diffTo} onValueChange={setDiffTo}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {(versions ?? []).map((v) => (
+                  <SelectItem key={v.version} value={v.version}>{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {diffFrom === diffTo ? (
+            <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+          ) : diffLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !diff?.length ? (
+            <p className="text-sm text-muted-foreground">No differences.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Market</TableHead>
+                  <TableHead>Range</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>{diffFrom}</TableHead>
+                  <TableHead>{diffTo}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.map((d, i) => (
+                  <TableRow key={`${d.scope}-${d.market}-${i}`}>
+                    <TableCell className="font-mono text-xs">{d.scope}</TableCell>
+                    <TableCell>{d.market}</TableCell>
+                    <TableCell className="font-mono text-xs">{formatRange(d.range)}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={d.change === "removed" ? "destructive" : "outline"}
+                        className={d.change === "added" ? "text-green-600" : undefined}
+                      >
+                        {d.change}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{formatPick(d.before)}</TableCell>
+                    <TableCell className="font-mono text-xs">{formatPick(d.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New version */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            New Version
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-3">
+            <Input placeholder="Version (e.g. matrix-v4)" value={newVersion} onChange={(e) => setNewVersion(e.target.value)} />
+            <Select value={newBasedOn} onValueChange={loadBase}>
+              <SelectTrigger>
+                <SelectValue placeholder="Based on…" />
+              </SelectTrigger>
+              <SelectContent>
+                {(versions ?? []).map((v) => (
+                  <SelectItem key={v.version} value={v.version}>{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Notes" value={newNotes} onChange={(e) => setNewNotes(e.target.value)} />
+          </div>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Rules (market → [{"{ range, pick }"}])</p>
+              <Textarea
+                className="font-mono text-xs h-64"
+                value={newRulesJson}
+                onChange={(e) => setNewRulesJson(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">League overrides (league_id → market → rules)</p>
+              <Textarea
+                className="font-mono text-xs h-64"
+                value={newOverridesJson}
+                onChange={(e) => setNewOverridesJson(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={() => create.mutate()} disabled={!newVersion.trim() || create.isPending}>
+            Create (inactive)
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 import { useState, useRef, useEffect } from "react";
 import { useTranslation } from "react-i18next";
-import { useSafeZoneChat } from "@/hooks/useSafeZoneChat";
+import { useSafeZoneChat, type ChatInterpretation } from "@/hooks/useSafeZoneChat";
 import { useAccess } from "@/hooks/useAccess";
-import { SafeZoneBotPickCard } from "./SafeZoneBotPickCard";
+import { SafeZoneBotAddAllButton, SafeZoneBotPickCard } from "./SafeZoneBotPickCard";
+import { SafeZoneBotInterpretation } from "./SafeZoneBotInterpretation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
-import { Send, X, Loader2, Lock, ShieldCheck, Zap, Target, TrendingUp, Clock, Sparkles } from "lucide-react";
+import { Send, X, Loader2, Lock, ShieldCheck, Zap, Target, TrendingUp, Clock, Sparkles, RotateCcw } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useRegisterOverlay } from "@/hooks/useRegisterOverlay";
@@ -31,7 +32,7 @@ export function SafeZoneBotChat({ open, onClose }: Props) {
   const { hasAccess, isWhitelisted, loading: accessLoading } = useAccess();
   useRegisterOverlay("safezone-bot-chat", open, onClose);
   const hasPaidAccess = hasAccess || isWhitelisted;
-  const { messages, loading, sendMessage } = useSafeZoneChat();
+  const { messages, loading, sendMessage, clearMessages } = useSafeZoneChat();
   const [input, setInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
@@ -55,6 +56,11 @@ export function SafeZoneBotChat({ open, onClose }: Props) {
     sendMessage(chip.query, chip.filters);
   };
 
+  const handleRefine = (interpretation: ChatInterpretation) => {
+    if (loading) return;
+    sendMessage(t("safe_zone_bot_refined"), undefined, interpretation);
+  };
+
   const chatContent = (
     <div className="flex flex-col h-full bg-background">
       {/* Header */}
@@ -73,14 +79,28 @@ export function SafeZoneBotChat({ open, onClose }: Props) {
             </span>
           </div>
         </div>
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={onClose}
-          className="h-8 w-8 rounded-xl hover:bg-muted/50 active:scale-95 transition-all"
-        >
-          <X className="w-4 h-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          {messages.length > 0 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={clearMessages}
+              disabled={loading}
+              title={t("safe_zone_bot_new_chat")}
+              className="h-8 w-8 rounded-xl hover:bg-muted/50 active:scale-95 transition-all"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-8 w-8 rounded-xl hover:bg-muted/50 active:scale-95 transition-all"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
       {/* Paywall */}
@@ -173,6 +193,13 @@ export function SafeZoneBotChat({ open, onClose }: Props) {
                             {msg.text}
                           </p>
                         )}
+                        {msg.interpretation && (
+                          <SafeZoneBotInterpretation
+                            interpretation={msg.interpretation}
+                            disabled={loading}
+                            onChange={handleRefine}
+                          />
+                        )}
                         {msg.meta?.paywall && (
                           <Button
                             size="sm"
@@ -185,9 +212,10 @@ export function SafeZoneBotChat({ open, onClose }: Props) {
                         )}
                         {msg.picks && msg.picks.length > 0 && (
                           <div className="mt-2.5 space-y-2">
-                            {msg.picks.map((pick) => (
-                              <SafeZoneBotPickCard key={pick.id} pick={pick} />
+                            {msg.picks.map((pick, index) => (
+                              <SafeZoneBotPickCard key={pick.id} pick={pick} index={index} />
                             ))}
+                            {msg.picks.length > 1 && <SafeZoneBotAddAllButton picks={msg.picks} />}
                           </div>
                         )}
                       </>
@@ -0,0 +1,126 @@
+import { useTranslation } from "react-i18next";
+import type { ChatInterpretation } from "@/hooks/useSafeZoneChat";
+import { X } from "lucide-react";
+
+interface Props {
+  interpretation: ChatInterpretation;
+  disabled?: boolean;
+  onChange: (next: ChatInterpretation) => void;
+}
+
+interface Chip {
+  key: string;
+  label: string;
+  excluded?: boolean;
+  // Fixed chips (window, limit) can only be changed by asking again
+  remove?: (i: ChatInterpretation) => ChatInterpretation;
+}
+
+const without = <T,>(list: T[], item: T) => list.filter((x) => x !== item);
+
+function buildChips(i: ChatInterpretation, t: (key: string, opts?: Record<string, unknown>) => string): Chip[] {
+  const marketLabel = (m: string) =>
+    m === "corners" ? t("safe_zone_bot_corners") : m === "goals" ? t("safe_zone_bot_goals") : m;
+  const chips: Chip[] = [{ key: "limit", label: t("safe_zone_bot_limit", { count: i.limit }) }];
+
+  for (const m of i.markets) {
+    chips.push({ key: `m:${m}`, label: marketLabel(m), remove: (x) => ({ ...x, markets: without(x.markets, m) }) });
+  }
+  for (const m of i.exclude_markets) {
+    chips.push({ key: `xm:${m}`, label: marketLabel(m), excluded: true, remove: (x) => ({ ...x, exclude_markets: without(x.exclude_markets, m) }) });
+  }
+  if (i.side || i.line != null) {
+    chips.push({
+      key: "side",
+      label: [i.side ? t(`safe_zone_bot_${i.side}`) : null, i.line].filter((v) => v != null).join(" "),
+      remove: (x) => ({ ...x, side: null, line: null }),
+    });
+  }
+  if (i.line_min != null || i.line_max != null) {
+    chips.push({
+      key: "line_range",
+      label: `${t("safe_zone_bot_line")} ${i.line_min ?? "…"}–${i.line_max ?? "…"}`,
+      remove: (x) => ({ ...x, line_min: null, line_max: null }),
+    });
+  }
+  if (i.odds_min != null || i.odds_max != null) {
+    chips.push({
+      key: "odds",
+      label: `${t("safe_zone_bot_odds")} ${i.odds_min ?? "…"}–${i.odds_max ?? "…"}`,
+      remove: (x) => ({ ...x, odds_min: null, odds_max: null }),
+    });
+  }
+  if (i.min_confidence != null) {
+    chips.push({
+      key: "confidence",
+      label: `${t("safe_zone_bot_confidence")} ≥ ${i.min_confidence}%`,
+      remove: (x) => ({ ...x, min_confidence: null }),
+    });
+  }
+  chips.push({ key: "window", label: i.window.label });
+
+  for (const l of i.leagues) {
+    chips.push({ key: `l:${l.id}`, label: l.name, remove: (x) => ({ ...x, leagues: x.leagues.filter((y) => y.id !== l.id) }) });
+  }
+  for (const l of i.exclude_leagues) {
+    chips.push({ key: `xl:${l.id}`, label: l.name, excluded: true, remove: (x) => ({ ...x, exclude_leagues: x.exclude_leagues.filter((y) => y.id !== l.id) }) });
+  }
+  for (const c of i.countries) {
+    chips.push({ key: `c:${c}`, label: c, remove: (x) => ({ ...x, countries: without(x.countries, c) }) });
+  }
+  for (const c of i.exclude_countries) {
+    chips.push({ key: `xc:${c}`, label: c, excluded: true, remove: (x) => ({ ...x, exclude_countries: without(x.exclude_countries, c) }) });
+  }
+  for (const team of i.teams) {
+    chips.push({ key: `t:${team}`, label: team, remove: (x) => ({ ...x, teams: without(x.teams, team) }) });
+  }
+  for (const team of i.exclude_teams) {
+    chips.push({ key: `xt:${team}`, label: team, excluded: true, remove: (x) => ({ ...x, exclude_teams: without(x.exclude_teams, team) }) });
+  }
+  return chips;
+}
+
+/** Echoes what the bot understood; removing a chip re-runs the search without it */
+export function SafeZoneBotInterpretation({ interpretation, disabled, onChange }: Props) {
+  const { t } = useTranslation("common");
+  const chips = buildChips(interpretation, t);
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[10px] uppercase tracking-wider text-muted-foreground mr-0.5">
+          {t("safe_zone_bot_understood")}
+        </span>
+        {chips.map((chip) => (
+          <span
+            key={chip.key}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-lg text-[10px] font-medium border ${
+              chip.excluded
+                ? "bg-destructive/10 text-destructive border-destructive/20 line-through decoration-destructive/60"
+                : "bg-primary/10 text-primary border-primary/20"
+            }`}
+          >
+            {chip.label}
+            {chip.remove && (
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange({ ...chip.remove!(interpretation), unparsed: [] })}
+                className="rounded hover:bg-foreground/10 disabled:opacity-50"
+                aria-label={t("safe_zone_bot_remove_filter")}
+              >
+                <X className="w-2.5 h-2.5" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      {interpretation.unparsed.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">
+          {t("safe_zone_bot_ignored")}{" "}
+          <span className="italic">{interpretation.unparsed.join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
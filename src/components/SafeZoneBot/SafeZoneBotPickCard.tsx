@@ -1,13 +1,48 @@
 import { format } from "date-fns";
 import { useTranslation } from "react-i18next";
 import type { SafeZonePick } from "@/hooks/useSafeZoneChat";
-import { Shield, TrendingUp, Clock, BarChart3, Target } from "lucide-react";
+import { useTicket } from "@/stores/useTicket";
+import { safeZonePickToLeg } from "@/lib/safeZonePicks";
+import { useToast } from "@/hooks/use-toast";
+import { AddToTicketButton } from "@/components/AddToTicketButton";
+import { Button } from "@/components/ui/button";
+import { Shield, TrendingUp, Clock, BarChart3, Target, TicketPlus } from "lucide-react";
 
 interface Props {
   pick: SafeZonePick;
+  // Position in the answer, so follow-ups like "swap the second pick" are easy to aim
+  index?: number;
 }
 
-export function SafeZoneBotPickCard({ pick }: Props) {
+/** Adds every pick of an answer to My Ticket; picks outside the ticket odds band are skipped by addLeg */
+export function SafeZoneBotAddAllButton({ picks }: { picks: SafeZonePick[] }) {
+  const { t } = useTranslation("common");
+  const { toast } = useToast();
+
+  const handleAddAll = () => {
+    const before = useTicket.getState().legs.length;
+    for (const pick of picks) useTicket.getState().addLeg(safeZonePickToLeg(pick));
+    const added = useTicket.getState().legs.length - before;
+    toast({
+      title: t("added_to_ticket"),
+      description: t("safe_zone_bot_added_all", { added, total: picks.length }),
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={handleAddAll}
+      className="w-full rounded-xl text-xs active:scale-95 transition-transform"
+    >
+      <TicketPlus className="w-3.5 h-3.5 mr-1.5" />
+      {t("safe_zone_bot_add_all", { count: picks.length })}
+    </Button>
+  );
+}
+
+export function SafeZoneBotPickCard({ pick, index }: Props) {
   const { t } = useTranslation("common");
   const kickoff = new Date(pick.utc_kickoff);
   const confidencePct = Math.round(pick.confidence_score * 100);
@@ -33,6 +68,7 @@ export function SafeZoneBotPickCard({ pick }: Props) {
       {/* Top bar: League + Time */}
       <div className="flex items-center justify-between px-3 py-1.5 bg-muted/30 border-b border-border/40">
         <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground truncate max-w-[55%]">
+          {index != null && <span className="text-primary mr-1.5">#{index + 1}</span>}
           {pick.league_name}
         </span>
         <span className="inline-flex items-center gap-1 text-[10px] text-muted-foreground">
@@ -61,6 +97,9 @@ export function SafeZoneBotPickCard({ pick }: Props) {
           {pick.bookmaker && (
             <span className="text-[10px] text-muted-foreground italic">{pick.bookmaker}</span>
           )}
+          <div className="ml-auto">
+            <AddToTicketButton leg={safeZonePickToLeg(pick)} />
+          </div>
         </div>
 
         {/* Stats grid */}
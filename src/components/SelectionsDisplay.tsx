@@ -2,12 +2,12 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { formatDateWithLocale } from "@/lib/i18nFormatters";
-import { TrendingUp, Users, Trophy, Bug } from "lucide-react";
+import { TrendingUp, TrendingDown, Users, Trophy, Bug } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import { AddToTicketButton } from "./AddToTicketButton";
-import { TicketLeg } from "@/stores/useTicket";
+import { FootballTicketLeg } from "@/stores/useTicket";
 import { useTranslation } from "react-i18next";
 import { StaleBadge } from "./shared/StaleBadge";
 
@@ -39,6 +39,22 @@ interface Selection {
   home_team_logo?: string;
   away_team_logo?: string;
   computed_at?: string;
+  // Consensus odds move since open (filterizer-query)
+  line_movement?: {
+    open_odds: number;
+    current_odds: number;
+    move_pct: number;
+    direction: "toward" | "against" | "flat";
+    books: number;
+  } | null;
+  // Match state for the live in-play view (filterizer-query live=true)
+  live_state?: {
+    status: string;
+    elapsed: number;
+    score: string;
+    current: number; // market count so far
+    prematch_prob: number | null;
+  } | null;
 }
 
 interface SelectionsDisplayProps {
@@ -47,7 +63,7 @@ interface SelectionsDisplayProps {
 }
 
 export function SelectionsDisplay({ selections, onSelectionClick }: SelectionsDisplayProps) {
-  const { i18n } = useTranslation();
+  const { t, i18n } = useTranslation(["filterizer"]);
   const [showDebug, setShowDebug] = useState(false);
   
   if (!selections || selections.length === 0) {
@@ -130,7 +146,7 @@ export function SelectionsDisplay({ selections, onSelectionClick }: SelectionsDi
                   )}
                   {selection.is_live && (
                     <Badge variant="destructive" className="animate-pulse">
-                      LIVE
+                      LIVE{selection.live_state && ` ${selection.live_state.status === "HT" ? "HT" : `${selection.live_state.elapsed}'`} · ${selection.live_state.score}`}
                     </Badge>
                   )}
                 </div>
@@ -163,10 +179,11 @@ export function SelectionsDisplay({ selections, onSelectionClick }: SelectionsDi
                       homeTeam: selection.home_team || 'Home',
                       awayTeam: selection.away_team || 'Away',
                       kickoffUtc: selection.utc_kickoff,
-                      market: selection.market as TicketLeg['market'],
+                      market: selection.market as FootballTicketLeg['market'],
                       side: selection.side as 'over' | 'under',
                       line: selection.line,
                       odds: selection.odds || 0, // 0 for model-only
+                      modelProb: selection.model_prob ?? undefined,
                       bookmaker: selection.bookmaker,
                       rulesVersion: 'v2_combined_matrix_v1',
                       combinedAvg: selection.combined_snapshot?.[selection.market as keyof typeof selection.combined_snapshot],
@@ -206,6 +223,35 @@ export function SelectionsDisplay({ selections, onSelectionClick }: SelectionsDi
                   </div>
                 )}
 
+                {selection.line_movement && selection.line_movement.direction !== "flat" && (
+                  <div
+                    className={`flex items-center gap-1 text-xs ${
+                      selection.line_movement.direction === "toward" ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {selection.line_movement.direction === "toward" ? (
+                      <TrendingDown className="h-3 w-3" />
+                    ) : (
+                      <TrendingUp className="h-3 w-3" />
+                    )}
+                    <span className="tabular-nums">
+                      {selection.line_movement.open_odds.toFixed(2)} → {selection.line_movement.current_odds.toFixed(2)} since open
+                    </span>
+                  </div>
+                )}
+
+                {selection.live_state && selection.model_prob != null && (
+                  <div className="text-xs text-muted-foreground tabular-nums text-right">
+                    {t("filterizer:live_so_far", {
+                      current: selection.live_state.current,
+                      prob: (selection.model_prob * 100).toFixed(0),
+                    })}
+                    {selection.live_state.prematch_prob != null && (
+                      <> {t("filterizer:live_prematch", { prob: (selection.live_state.prematch_prob * 100).toFixed(0) })}</>
+                    )}
+                  </div>
+                )}
+
                 {selection.sample_size && (
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Users className="h-3 w-3" />
@@ -3,7 +3,7 @@ import { useTranslation } from "react-i18next";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useRegisterOverlay } from "@/hooks/useRegisterOverlay";
 import { Button } from "@/components/ui/button";
-import { Loader2, Sparkles, ShieldCheck, AlertTriangle, Zap, ChevronDown } from "lucide-react";
+import { Loader2, Sparkles, ShieldCheck, AlertTriangle, Zap, ChevronDown, Radio } from "lucide-react";
 import { InfoTooltip } from "@/components/shared/InfoTooltip";
 import { Badge } from "@/components/ui/badge";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -48,6 +48,7 @@ export function TicketCreatorDialog({ open, onOpenChange, onGenerate }: TicketCr
   useRegisterOverlay("ticket-creator-dialog", open, () => onOpenChange(false));
   const [legs, setLegs] = useState<1 | 2 | 3>(1);
   const [dayRange, setDayRange] = useState<"today" | "tomorrow" | "next_2_days">("next_2_days");
+  const [includeInPlay, setIncludeInPlay] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
@@ -66,7 +67,7 @@ export function TicketCreatorDialog({ open, onOpenChange, onGenerate }: TicketCr
         includeMarkets: ["goals", "corners"],
         minLegs: legs,
         maxLegs: legs,
-        useLiveOdds: false,
+        useLiveOdds: includeInPlay,
         dayRange,
         ticketMode: "max_win_rate",
       });
@@ -205,6 +206,26 @@ export function TicketCreatorDialog({ open, onOpenChange, onGenerate }: TicketCr
             </div>
           </div>
 
+          {/* In-play matches */}
+          <button
+            onClick={() => setIncludeInPlay(!includeInPlay)}
+            className={`
+              w-full flex items-center gap-2.5 p-2.5 rounded-xl border text-left transition-all active:scale-[0.98]
+              ${includeInPlay ? "bg-destructive/10 border-destructive/30" : "bg-muted/30 border-border/60"}
+            `}
+          >
+            <Radio className={`h-4 w-4 flex-shrink-0 ${includeInPlay ? "text-destructive" : "text-muted-foreground"}`} />
+            <span className="flex-1">
+              <span className="block text-xs sm:text-sm font-medium text-foreground">{t('ticket:include_in_play')}</span>
+              <span className="block text-[10px] sm:text-[11px] text-muted-foreground leading-snug">
+                {t('ticket:include_in_play_description')}
+              </span>
+            </span>
+            <span className={`text-[10px] font-semibold uppercase ${includeInPlay ? "text-destructive" : "text-muted-foreground"}`}>
+              {includeInPlay ? t('ticket:toggle_on') : t('ticket:toggle_off')}
+            </span>
+          </button>
+
           {/* Markets Display */}
           <div>
             <p className="text-xs sm:text-sm font-medium mb-2 text-foreground">{t('ticket:markets_label')}</p>
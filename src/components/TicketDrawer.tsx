@@ -1,11 +1,13 @@
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Copy, TrendingUp, Target, AlertCircle, Sparkles, Loader2, Shuffle, Lock, Unlock } from "lucide-react";
+import { Copy, TrendingUp, Target, AlertCircle, Sparkles, Loader2, Shuffle, Lock, Unlock, BookCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { AddToTicketButton } from "./AddToTicketButton";
-import { TicketLeg as MyTicketLeg } from "@/stores/useTicket";
+import { FootballTicketLeg as MyTicketLeg, useTicket } from "@/stores/useTicket";
 import { GeminiAnalysis } from "./GeminiAnalysis";
+import { TicketEVPanel } from "./TicketEVPanel";
+import { LogBetDialog } from "./LogBetDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
@@ -14,6 +16,7 @@ import { useRegisterOverlay } from "@/hooks/useRegisterOverlay";
 interface TicketLeg {
   fixture_id: number;
   league?: string;
+  league_id?: number;
   kickoff?: string;
   home_team: string;
   away_team: string;
@@ -30,10 +33,13 @@ interface TicketLeg {
 }
 
 interface TicketData {
+  ticket_id?: string | null;
   mode: string;
   legs: TicketLeg[];
   total_odds: number;
   estimated_win_prob?: number | null;
+  model_win_prob?: number | null;
+  correlation_adjusted_win_prob?: number | null;
   notes?: string;
   generated_at?: string;
   used_live?: boolean;
@@ -45,6 +51,14 @@ interface TicketData {
   day_range?: "today" | "tomorrow" | "next_2_days";
 }
 
+// Side and line from the pick label (e.g., "Over 2.5" -> side: "over", line: 2.5)
+function parsePick(leg: TicketLeg): { side: "over" | "under"; line: number } {
+  const pickLower = leg.pick.toLowerCase();
+  const side = pickLower.includes('under') ? 'under' : 'over';
+  const lineMatch = leg.pick.match(/(\d+\.?\d*)/);
+  return { side, line: lineMatch ? parseFloat(lineMatch[1]) : (leg.line || 2.5) };
+}
+
 interface TicketDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -56,12 +70,19 @@ interface TicketDrawerProps {
 
 export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, canShuffle = false }: TicketDrawerProps) {
   const { toast } = useToast();
-  const { i18n } = useTranslation();
+  const { t, i18n } = useTranslation("common");
   useRegisterOverlay("ticket-drawer", open, () => onOpenChange(false));
+  const { stake, bankroll, kellyFraction } = useTicket();
   const [analyzing, setAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<any>(null);
+  const [correlation, setCorrelation] = useState<{
+    naive_win_prob_pct: number;
+    correlation_adjusted_win_prob_pct: number;
+    correlated_pairs: { matches: number[]; reason: string; rho: number; blocked: boolean }[];
+  } | null>(null);
   const [lockedLegIds, setLockedLegIds] = useState<Set<string>>(new Set());
   const [shuffling, setShuffling] = useState(false);
+  const [logBetOpen, setLogBetOpen] = useState(false);
 
   const copyTicket = () => {
     if (!ticket) return;
@@ -76,8 +97,11 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
     const winProbText = ticket.estimated_win_prob 
       ? `\nEst. Win Probability: ${ticket.estimated_win_prob.toFixed(1)}%` 
       : "";
+    const adjustedText = ticket.correlation_adjusted_win_prob != null
+      ? `\nModel (correlation-adjusted): ${ticket.correlation_adjusted_win_prob.toFixed(1)}%`
+      : "";
 
-    const fullText = `TICKET AI ${ticket.mode.toUpperCase()} TICKET\n\n${text}\n\nTotal Odds: ${ticket.total_odds.toFixed(2)}${winProbText}`;
+    const fullText = `TICKET AI ${ticket.mode.toUpperCase()} TICKET\n\n${text}\n\nTotal Odds: ${ticket.total_odds.toFixed(2)}${winProbText}${adjustedText}`;
 
     navigator.clipboard.writeText(fullText);
     toast({
@@ -133,12 +157,16 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
 
     setAnalyzing(true);
     setAnalysis(null);
+    setCorrelation(null);
 
     try {
       const { data, error } = await supabase.functions.invoke('analyze-ticket', {
         body: { 
           ticket,
-          language: i18n.language 
+          language: i18n.language,
+          stake,
+          bankroll,
+          kellyFraction,
         }
       });
 
@@ -146,6 +174,7 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
 
       if (data?.analysis) {
         setAnalysis(data.analysis);
+        setCorrelation(data.correlation ?? null);
         toast({
           title: "Analysis complete!",
           description: "Gemini has analyzed your ticket",
@@ -248,9 +277,34 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
                     ? `${ticket.estimated_win_prob.toFixed(1)}%`
                     : "—"}
                 </div>
+                {ticket.correlation_adjusted_win_prob != null && (
+                  <div
+                    className="text-[10px] text-muted-foreground mt-0.5"
+                    title={t("ticket_correlation_model_hint")}
+                  >
+                    {t("ticket_correlation_model", {
+                      model: ticket.model_win_prob?.toFixed(1) ?? "—",
+                      adjusted: ticket.correlation_adjusted_win_prob.toFixed(1),
+                    })}
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* EV + Kelly stake (same calculator as analyze-ticket) */}
+            <TicketEVPanel
+              legs={ticket.legs.map((leg) => ({
+                fixtureId: leg.fixture_id,
+                leagueId: leg.league_id,
+                kickoff: leg.kickoff,
+                market: leg.market,
+                ...parsePick(leg),
+                odds: leg.odds,
+                modelProb: leg.model_prob,
+              }))}
+              stake={stake}
+            />
+
             {/* Legs */}
             <div className="space-y-3">
               <div className="flex items-center justify-between mb-2">
@@ -362,7 +416,7 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
                         leg={{
                           id: legId,
                           fixtureId: leg.fixture_id,
-                          leagueId: 0, // Not available in generated ticket
+                          leagueId: leg.league_id ?? 0,
                           countryCode: undefined,
                           homeTeam: leg.home_team,
                           awayTeam: leg.away_team,
@@ -371,6 +425,7 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
                           side: side as 'over' | 'under',
                           line: line,
                           odds: leg.odds,
+                          modelProb: leg.model_prob,
                           bookmaker: leg.bookmaker,
                           rulesVersion: 'v2_combined_matrix_v1',
                           combinedAvg: undefined,
@@ -412,6 +467,11 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
                     Shuffle
                   </Button>
                 )}
+
+                <Button onClick={() => setLogBetOpen(true)} className="gap-2" variant="outline">
+                  <BookCheck className="h-4 w-4" />
+                  {t("log_bet_mark_as_placed")}
+                </Button>
               </div>
               
               <div className="grid grid-cols-2 gap-2">
@@ -466,6 +526,33 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
               </div>
             </div>
 
+            {/* Correlated legs flagged by analyze-ticket */}
+            {correlation && correlation.correlated_pairs.length > 0 && (
+              <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs space-y-1">
+                <div className="flex items-center gap-1.5 font-medium text-amber-600">
+                  <AlertCircle className="h-3.5 w-3.5" />
+                  {t("ticket_correlation_title")}
+                </div>
+                {correlation.correlated_pairs.map((p) => (
+                  <div key={p.matches.join("-")} className="text-muted-foreground">
+                    {t("ticket_correlation_pair", {
+                      first: p.matches[0],
+                      second: p.matches[1],
+                      reason: t(p.reason === "league_day" ? "ticket_correlation_same_league_day" : "ticket_correlation_same_fixture"),
+                      rho: p.rho.toFixed(2),
+                    })}
+                    {p.blocked && <span className="text-destructive"> · {t("ticket_correlation_not_combinable")}</span>}
+                  </div>
+                ))}
+                <div className="text-muted-foreground">
+                  {t("ticket_correlation_win_prob", {
+                    naive: correlation.naive_win_prob_pct.toFixed(1),
+                    adjusted: correlation.correlation_adjusted_win_prob_pct.toFixed(1),
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Gemini Analysis */}
             {analysis && (
               <GeminiAnalysis 
@@ -483,6 +570,28 @@ export function TicketDrawer({ open, onOpenChange, ticket, loading, onShuffle, c
           </div>
         )}
       </SheetContent>
+
+      {ticket && (
+        <LogBetDialog
+          open={logBetOpen}
+          onOpenChange={setLogBetOpen}
+          legs={ticket.legs.map((leg) => ({
+            fixtureId: leg.fixture_id,
+            leagueId: leg.league_id,
+            homeTeam: leg.home_team,
+            awayTeam: leg.away_team,
+            kickoff: leg.kickoff,
+            market: leg.market,
+            ...parsePick(leg),
+            odds: leg.odds,
+          }))}
+          quotedOdds={ticket.total_odds}
+          defaultStake={stake}
+          source="ticket_creator"
+          mode={ticket.mode}
+          generatedTicketId={ticket.ticket_id}
+        />
+      )}
     </Sheet>
   );
 }
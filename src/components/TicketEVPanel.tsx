@@ -0,0 +1,132 @@
+import { useTranslation } from "react-i18next";
+import { Input } from "@/components/ui/input";
+import { Loader2, Scale } from "lucide-react";
+import { useTicket } from "@/stores/useTicket";
+import { useTicketEV, type TicketEVLeg } from "@/hooks/useTicketEV";
+import { cn } from "@/lib/utils";
+
+interface TicketEVPanelProps {
+  legs: TicketEVLeg[];
+  stake: number;
+  /** Called with the suggested stake; hides the apply button when omitted */
+  onApplyStake?: (stake: number) => void;
+  className?: string;
+}
+
+const KELLY_OPTIONS = [
+  { value: 0.25, label: "¼" },
+  { value: 0.5, label: "½" },
+  { value: 1, label: null },
+];
+
+const PROB_SOURCE_KEY: Record<string, string> = {
+  model: "ticket_ev_source_model",
+  mixed: "ticket_ev_source_mixed",
+  implied: "ticket_ev_source_implied",
+};
+
+export function TicketEVPanel({ legs, stake, onApplyStake, className }: TicketEVPanelProps) {
+  const { t } = useTranslation("common");
+  const { bankroll, setBankroll, kellyFraction, setKellyFraction } = useTicket();
+  const { data: ev, isLoading, isError } = useTicketEV(legs, stake, bankroll, kellyFraction);
+
+  return (
+    <div className={cn("rounded-xl border border-border/40 bg-card/60 p-3.5 space-y-2.5", className)}>
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-foreground">
+          <Scale className="h-3.5 w-3.5 text-primary" />
+          {t("ticket_ev_title")}
+        </span>
+        {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+      </div>
+
+      {isError && !ev && (
+        <p className="text-[11px] text-muted-foreground">{t("ticket_ev_unavailable")}</p>
+      )}
+
+      {ev && (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div>
+            <div className="text-muted-foreground">{t("ticket_ev_per_unit")}</div>
+            <div className={cn("text-base font-bold tabular-nums", ev.has_edge ? "text-green-600" : "text-destructive")}>
+              {ev.ev_per_unit > 0 ? "+" : ""}{(ev.ev_per_unit * 100).toFixed(1)}%
+            </div>
+            <div className="text-[10px] text-muted-foreground tabular-nums">
+              {t("ticket_ev_profit_on_stake", {
+                profit: `${ev.expected_profit >= 0 ? "+" : ""}${ev.expected_profit.toFixed(2)}`,
+                stake: ev.stake,
+              })}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">{t("ticket_ev_win_prob")}</div>
+            <div className="text-base font-bold tabular-nums">{(ev.win_prob * 100).toFixed(1)}%</div>
+            <div
+              className="text-[10px] text-muted-foreground"
+              title={t("ticket_ev_win_prob_hint")}
+            >
+              {t(PROB_SOURCE_KEY[ev.prob_source])} · {t("ticket_ev_independent", { prob: (ev.naive_win_prob * 100).toFixed(1) })}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bankroll + Kelly fraction */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground shrink-0">{t("ticket_ev_bankroll")}</span>
+        <Input
+          type="number"
+          value={bankroll ?? ""}
+          placeholder="—"
+          onChange={(e) => setBankroll(e.target.value === "" ? null : parseFloat(e.target.value) || null)}
+          min={0}
+          step={50}
+          className="flex-1 h-8 text-xs bg-background rounded-lg border-border/50 tabular-nums"
+        />
+        <div className="flex gap-1">
+          {KELLY_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setKellyFraction(opt.value)}
+              className={cn(
+                "h-8 px-2 rounded-lg text-[11px] font-semibold border transition-all active:scale-[0.95]",
+                kellyFraction === opt.value
+                  ? "bg-primary/15 border-primary/40 text-primary"
+                  : "bg-muted/20 border-border/40 text-muted-foreground hover:text-foreground"
+              )}
+              title={t("ticket_ev_kelly_option", { fraction: opt.label ?? t("ticket_ev_kelly_full") })}
+            >
+              {opt.label ?? t("ticket_ev_kelly_full")}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {ev && (
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">
+            {t("ticket_ev_kelly_stake")}{" "}
+            <span className="tabular-nums">{t("ticket_ev_bankroll_share", { share: (ev.kelly_share * 100).toFixed(2) })}</span>
+          </span>
+          {ev.suggested_stake == null ? (
+            <span className="text-muted-foreground">{t("ticket_ev_set_bankroll")}</span>
+          ) : ev.suggested_stake > 0 ? (
+            <span className="flex items-center gap-2">
+              <span className="font-bold text-primary tabular-nums">{ev.suggested_stake.toFixed(2)}</span>
+              {onApplyStake && ev.suggested_stake !== stake && (
+                <button
+                  onClick={() => onApplyStake(ev.suggested_stake as number)}
+                  className="text-[11px] font-medium text-primary underline-offset-2 hover:underline"
+                >
+                  {t("ticket_ev_use_stake")}
+                </button>
+              )}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">{t("ticket_ev_no_bet")}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
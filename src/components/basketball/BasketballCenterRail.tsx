@@ -1,9 +1,16 @@
+import { useState } from "react";
 import { format, isToday, isTomorrow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Calendar, ChevronRight, Activity } from "lucide-react";
+import { Calendar, ChevronRight, Activity, Coins } from "lucide-react";
 import { useBasketballFixtures, groupGamesByDate, type BasketballGame } from "@/hooks/useBasketballFixtures";
+import {
+  formatBasketballEdge,
+  useBasketballLeagueProjections,
+  type BasketballEdge,
+} from "@/hooks/useBasketballProjection";
 import { cn } from "@/lib/utils";
 
 interface BasketballCenterRailProps {
@@ -35,8 +42,12 @@ export function BasketballCenterRail({
   selectedGameId,
 }: BasketballCenterRailProps) {
   const { data: games = [], isLoading } = useBasketballFixtures({ leagueKey: selectedCompetition });
+  const { data: projections } = useBasketballLeagueProjections(selectedCompetition);
+  const [valueOnly, setValueOnly] = useState(false);
   const grouped = groupGamesByDate(games);
-  const displayGames = selectedDate === "today" ? grouped.today : grouped.tomorrow;
+  const dayGames = selectedDate === "today" ? grouped.today : grouped.tomorrow;
+  const bestEdge = (game: BasketballGame) => projections?.get(game.id)?.best_edge ?? null;
+  const displayGames = valueOnly ? dayGames.filter((g) => bestEdge(g) !== null) : dayGames;
 
   const today = new Date();
   const tomorrow = new Date(today);
@@ -65,6 +76,16 @@ export function BasketballCenterRail({
             Tomorrow · {format(tomorrow, "MMM d")}
           </Button>
         </div>
+        <Button
+          variant={valueOnly ? "default" : "outline"}
+          size="sm"
+          onClick={() => setValueOnly((v) => !v)}
+          className="text-xs gap-1"
+          title="Only games where a synced price beats the pace model"
+        >
+          <Coins className="h-3.5 w-3.5" />
+          Value
+        </Button>
         {grouped.today.length + grouped.tomorrow.length > 0 && (
           <span className="ml-auto text-xs text-muted-foreground">
             {grouped.today.length + grouped.tomorrow.length} games in 48h
@@ -93,9 +114,10 @@ export function BasketballCenterRail({
         {selectedCompetition && !isLoading && displayGames.length === 0 && (
           <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
             <Calendar className="h-12 w-12 mb-4 opacity-50" />
-            <p className="font-medium">No games scheduled</p>
+            <p className="font-medium">{valueOnly ? "No value games" : "No games scheduled"}</p>
             <p className="text-sm">
               No {LEAGUE_LABELS[selectedCompetition] || selectedCompetition} games{" "}
+              {valueOnly && "with a model edge "}
               {selectedDate === "today" ? "today" : "tomorrow"}
             </p>
           </div>
@@ -107,6 +129,7 @@ export function BasketballCenterRail({
             game={game}
             onAnalyze={() => onAnalyze(game)}
             isSelected={selectedGameId === game.id}
+            bestEdge={bestEdge(game)}
           />
         ))}
       </div>
@@ -118,9 +141,10 @@ interface GameCardProps {
   game: BasketballGame;
   onAnalyze: () => void;
   isSelected?: boolean;
+  bestEdge?: BasketballEdge | null;
 }
 
-function GameCard({ game, onAnalyze, isSelected }: GameCardProps) {
+function GameCard({ game, onAnalyze, isSelected, bestEdge }: GameCardProps) {
   const gameDate = new Date(game.date);
   const timeStr = format(gameDate, "HH:mm");
 
@@ -139,6 +163,14 @@ function GameCard({ game, onAnalyze, isSelected }: GameCardProps) {
               {LEAGUE_LABELS[game.league_key] || game.league_key}
             </span>
             <span className="text-xs text-muted-foreground">{timeStr}</span>
+            {bestEdge && (
+              <Badge
+                variant="outline"
+                className="text-[10px] px-1.5 py-0 text-green-600 border-green-500/40 capitalize"
+              >
+                {formatBasketballEdge(bestEdge)} @{bestEdge.odds.toFixed(2)} +{Math.round(bestEdge.edge * 100)}%
+              </Badge>
+            )}
           </div>
           <div className="space-y-0.5">
             <p className="font-medium text-sm truncate">{game.home_team_name}</p>
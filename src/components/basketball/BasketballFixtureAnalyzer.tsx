@@ -5,6 +5,16 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { TrendingUp, TrendingDown, Minus, Target, Flame, Snowflake, Activity } from "lucide-react";
 import { useBasketballFixtureAnalysis, type FixtureAnalysis } from "@/hooks/useBasketballFixtureAnalysis";
+import {
+  formatBasketballEdge,
+  useBasketballProjection,
+  type BasketballEdge,
+  type BasketballMarketQuote,
+  type BasketballProjectedGame,
+} from "@/hooks/useBasketballProjection";
+import { AddToTicketButton } from "@/components/AddToTicketButton";
+import type { BasketballTicketLeg } from "@/stores/useTicket";
+import { isBasketballMarket, ticketLegId } from "@/lib/ticketLegs";
 import { cn } from "@/lib/utils";
 
 interface BasketballFixtureAnalyzerProps {
@@ -26,6 +36,7 @@ const LEAGUE_LABELS: Record<string, string> = {
 
 export function BasketballFixtureAnalyzer({ gameId }: BasketballFixtureAnalyzerProps) {
   const { data: analysis, isLoading, error } = useBasketballFixtureAnalysis(gameId);
+  const { data: projection } = useBasketballProjection(gameId, analysis?.league_key ?? null);
 
   if (!gameId) {
     return (
@@ -92,6 +103,9 @@ export function BasketballFixtureAnalyzer({ gameId }: BasketballFixtureAnalyzerP
         </CardContent>
       </Card>
 
+      {/* Pace Model */}
+      {projection && <PaceModelCard projection={projection} kickoff={analysis.date} />}
+
       {/* Team Stats Comparison */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         <TeamStatsCard team={analysis.home_team} isHome />
@@ -123,6 +137,138 @@ function MatchupBadge({ assessment }: { assessment: "HIGH" | "MEDIUM" | "LOW" })
   );
 }
 
+const MARKET_LABELS: Record<BasketballMarketQuote["market"], string> = {
+  total: "Total",
+  home_total: "Home Total",
+  away_total: "Away Total",
+  spread: "Home Spread",
+  moneyline: "Home Win",
+  h1_total: "1st Half",
+  q1_total: "Q1",
+  q2_total: "Q2",
+  q3_total: "Q3",
+  q4_total: "Q4",
+};
+
+function restLabel(days: number | null, b2b: boolean) {
+  if (b2b) return "B2B";
+  return days == null ? "Rest ?" : `${days}d rest`;
+}
+
+const LEG_SIDES = new Set(["over", "under", "home", "away"]);
+
+/** Ticket leg for a value edge; half / quarter totals cannot be settled from the final score */
+function toTicketLeg(p: BasketballProjectedGame, e: BasketballEdge, kickoff: string): BasketballTicketLeg | null {
+  const side = e.selection as BasketballTicketLeg["side"];
+  if (!isBasketballMarket(e.market) || !LEG_SIDES.has(side)) return null;
+
+  return {
+    id: ticketLegId({ sport: "basketball", fixtureId: p.game_id, market: e.market, side, line: e.line }),
+    sport: "basketball",
+    fixtureId: p.game_id,
+    homeTeam: p.home_team,
+    awayTeam: p.away_team,
+    kickoffUtc: kickoff,
+    market: e.market,
+    side,
+    line: e.line,
+    odds: e.odds,
+    bookmaker: e.bookmaker,
+    rulesVersion: "basketball_pace",
+    modelProb: e.model_prob,
+    isLive: false,
+    source: "basketball_pace",
+  };
+}
+
+function PaceModelCard({ projection: p, kickoff }: { projection: BasketballProjectedGame; kickoff: string }) {
+  const formatLine = (m: BasketballMarketQuote) =>
+    m.market === "moneyline" ? "-" : m.market === "spread" && m.line > 0 ? `+${m.line}` : `${m.line}`;
+  const probLabel = (m: BasketballMarketQuote) =>
+    m.market === "spread" ? "Cover" : m.market === "moneyline" ? "Win" : "Over";
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span>Pace Model</span>
+          <span className="flex gap-1">
+            <Badge variant="outline" className={cn("text-xs", p.home_b2b && "text-red-500 border-red-500/30")}>
+              H: {restLabel(p.home_rest_days, p.home_b2b)}
+            </Badge>
+            <Badge variant="outline" className={cn("text-xs", p.away_b2b && "text-red-500 border-red-500/30")}>
+              A: {restLabel(p.away_rest_days, p.away_b2b)}
+            </Badge>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <p className="text-xs text-muted-foreground">Pace</p>
+            <p className="font-semibold">{p.pace}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Projected</p>
+            <p className="font-semibold font-mono">
+              {p.home_points.toFixed(1)}-{p.away_points.toFixed(1)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Home Win</p>
+            <p className="font-semibold">{Math.round(p.home_win_prob * 100)}%</p>
+          </div>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Market</TableHead>
+              <TableHead className="text-xs text-right">Line</TableHead>
+              <TableHead className="text-xs text-right">Model</TableHead>
+              <TableHead className="text-xs text-right">Prob</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {p.markets.map((m) => (
+              <TableRow key={m.market}>
+                <TableCell className="text-xs py-1.5">{MARKET_LABELS[m.market]}</TableCell>
+                <TableCell className="text-xs py-1.5 text-right font-mono">{formatLine(m)}</TableCell>
+                <TableCell className="text-xs py-1.5 text-right font-mono">{m.projection.toFixed(1)}</TableCell>
+                <TableCell className="text-xs py-1.5 text-right">
+                  {probLabel(m)} {Math.round(m.prob * 100)}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {p.edges.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Value vs books</p>
+            {p.edges.slice(0, 5).map((e) => {
+              const leg = toTicketLeg(p, e, kickoff);
+              return (
+                <div key={`${e.market}-${e.selection}-${e.line}`} className="flex items-center justify-between text-xs">
+                  <span className="capitalize">{formatBasketballEdge(e)}</span>
+                  <span className="flex items-center gap-1 font-mono">
+                    @{e.odds.toFixed(2)} <span className="text-muted-foreground">{e.bookmaker}</span>{" "}
+                    <span className="text-green-500">+{Math.round(e.edge * 100)}%</span>
+                    {leg && <AddToTicketButton leg={leg} />}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {!p.venue_splits && (
+          <p className="text-xs text-muted-foreground">
+            Not enough home/away games yet — season ratings with a home-court edge.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface TeamStatsCardProps {
   team: FixtureAnalysis["home_team"];
   isHome: boolean;
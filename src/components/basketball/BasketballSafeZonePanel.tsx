@@ -20,6 +20,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { formatBasketballEdge, type BasketballProjectedGame } from "@/hooks/useBasketballProjection";
 import {
   Select,
   SelectContent,
@@ -32,23 +33,7 @@ interface BasketballSafeZonePanelProps {
   selectedCompetition: string | null;
 }
 
-interface GameResult {
-  game_id: number;
-  league_key: string;
-  league_name: string;
-  date: string;
-  time: string;
-  home_team: string;
-  away_team: string;
-  home_ppg: number;
-  away_ppg: number;
-  home_papg: number;
-  away_papg: number;
-  mu_points: number;
-  book_line: number | null;
-  safe_zone_prob: number;
-  data_quality: "high" | "medium" | "low";
-}
+type GameResult = BasketballProjectedGame;
 
 const LEAGUE_OPTIONS = [
   { key: "nba", name: "NBA", emoji: "🏀" },
@@ -255,6 +240,8 @@ export function BasketballSafeZonePanel({ selectedCompetition }: BasketballSafeZ
                   <TableHead className="text-right w-16">Prob</TableHead>
                   <TableHead className="text-right w-20">xPoints</TableHead>
                   <TableHead className="text-right w-20">Line</TableHead>
+                  <TableHead className="text-right w-16">Pace</TableHead>
+                  <TableHead className="text-right w-24">Edge</TableHead>
                   <TableHead className="text-center w-20">PPG</TableHead>
                 </TableRow>
               </TableHeader>
@@ -273,6 +260,11 @@ export function BasketballSafeZonePanel({ selectedCompetition }: BasketballSafeZ
                         <div className="text-xs text-muted-foreground">
                           vs {game.away_team}
                         </div>
+                        {(game.home_b2b || game.away_b2b) && (
+                          <Badge variant="outline" className="w-fit text-[10px] px-1 py-0 text-red-500 border-red-500/30">
+                            B2B: {[game.home_b2b && "home", game.away_b2b && "away"].filter(Boolean).join(" + ")}
+                          </Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell className="text-center text-xs text-muted-foreground">
@@ -291,6 +283,56 @@ export function BasketballSafeZonePanel({ selectedCompetition }: BasketballSafeZ
                     </TableCell>
                     <TableCell className="text-right tabular-nums text-muted-foreground">
                       {game.book_line || "-"}
+                      {game.book_line_source === "league_avg" && (
+                        <span className="block text-[10px]">league avg</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger>
+                            <span className="text-xs tabular-nums">{game.pace}</span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <div className="text-xs space-y-0.5">
+                              <p>Projected {game.home_points} - {game.away_points} (home margin {game.spread > 0 ? "+" : ""}{game.spread})</p>
+                              <p>Home win {formatProbability(game.home_win_prob)}</p>
+                              {game.markets
+                                .filter((m) => m.market === "h1_total" || m.market === "q1_total")
+                                .map((m) => (
+                                  <p key={m.market}>
+                                    {m.market === "h1_total" ? "1st half" : "Q1"} o{m.line}: {formatProbability(m.prob)}
+                                  </p>
+                                ))}
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {game.best_edge ? (
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger>
+                              <Badge variant="outline" className="tabular-nums text-green-600 border-green-500/40">
+                                +{Math.round(game.best_edge.edge * 100)}%
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <div className="text-xs space-y-0.5">
+                                {game.edges.slice(0, 4).map((e) => (
+                                  <p key={`${e.market}-${e.selection}-${e.line}`}>
+                                    {formatBasketballEdge(e)} @ {e.odds.toFixed(2)} ({e.bookmaker}) · model{" "}
+                                    {formatProbability(e.model_prob)} · +{Math.round(e.edge * 100)}%
+                                  </p>
+                                ))}
+                              </div>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">-</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-center">
                       <TooltipProvider>
@@ -336,7 +378,7 @@ export function BasketballSafeZonePanel({ selectedCompetition }: BasketballSafeZ
 
         {/* Disclaimer */}
         <div className="text-xs text-muted-foreground/60 text-center">
-          Probabilities are estimates based on season averages. Not financial advice.
+          Probabilities come from a pace and efficiency model with rest adjustments. Not financial advice.
         </div>
       </CardContent>
     </Card>
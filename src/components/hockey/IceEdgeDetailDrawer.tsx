@@ -1,8 +1,11 @@
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Shield, Flame, Zap, Clock, TrendingUp, Target, AlertTriangle } from "lucide-react";
-import type { IceEdgeGame } from "@/hooks/useHockeyIceEdge";
+import { Shield, Flame, Zap, Clock, TrendingUp, Target, AlertTriangle, Layers, ShieldCheck } from "lucide-react";
+import type { IceEdgeFactor, IceEdgeGame, IceEdgeGoalie, RecommendedMarket } from "@/hooks/useHockeyIceEdge";
+import { AddToTicketButton } from "@/components/AddToTicketButton";
+import type { HockeyTicketLeg } from "@/stores/useTicket";
+import { isHockeyMarket, ticketLegId } from "@/lib/ticketLegs";
 import { format } from "date-fns";
 
 interface IceEdgeDetailDrawerProps {
@@ -20,6 +23,45 @@ function tierBadge(tier: string) {
   return map[tier] || map.low;
 }
 
+const LEG_SIDES = new Set<HockeyTicketLeg["side"]>(["over", "under", "home", "away", "draw"]);
+
+/** A recommended market as a My Ticket leg, or null when it has no price */
+function toTicketLeg(game: IceEdgeGame, m: RecommendedMarket, homeName: string, awayName: string): HockeyTicketLeg | null {
+  const side = m.side as HockeyTicketLeg["side"];
+  if (!isHockeyMarket(m.market) || !LEG_SIDES.has(side) || m.odds == null || !m.bookmaker) return null;
+  const line = m.line ?? 0;
+
+  return {
+    id: ticketLegId({ sport: "hockey", fixtureId: game.game_id, market: m.market, side, line }),
+    sport: "hockey",
+    fixtureId: game.game_id,
+    leagueId: game.league_id,
+    homeTeam: homeName,
+    awayTeam: awayName,
+    kickoffUtc: game.puck_drop,
+    market: m.market,
+    side,
+    line,
+    odds: m.odds,
+    bookmaker: m.bookmaker,
+    rulesVersion: game.model_version ?? "iceedge",
+    modelProb: m.model_prob,
+    isLive: false,
+    source: "iceedge",
+  };
+}
+
+const FACTOR_LABELS: Record<IceEdgeFactor["factor"], string> = {
+  base: "Season base",
+  recent_form: "Recent form",
+  venue: "Home / road splits",
+  h2h: "Head to head",
+  special_teams: "Special teams",
+  shots: "Shot volume",
+  home_goalie: "Home goalie",
+  away_goalie: "Away goalie",
+};
+
 export function IceEdgeDetailDrawer({ game, open, onClose }: IceEdgeDetailDrawerProps) {
   if (!game) return null;
 
@@ -71,6 +113,29 @@ export function IceEdgeDetailDrawer({ game, open, onClose }: IceEdgeDetailDrawer
 
         <Separator className="my-3" />
 
+        {/* Factor breakdown */}
+        {game.factor_breakdown.length > 0 && (
+          <>
+            <FactorBreakdown factors={game.factor_breakdown} />
+            <Separator className="my-3" />
+          </>
+        )}
+
+        {/* Starting goalies */}
+        {game.goalies && (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+                <ShieldCheck className="h-3.5 w-3.5" />
+                Starting Goalies
+              </h3>
+              <GoalieRow team={homeName} goalie={game.goalies.home} />
+              <GoalieRow team={awayName} goalie={game.goalies.away} />
+            </div>
+            <Separator className="my-3" />
+          </>
+        )}
+
         {/* Metrics grid */}
         <div className="grid grid-cols-2 gap-3 py-2">
           <MetricBlock
@@ -109,18 +174,29 @@ export function IceEdgeDetailDrawer({ game, open, onClose }: IceEdgeDetailDrawer
                 Recommended Markets
               </h3>
               <div className="space-y-1.5">
-                {game.recommended_markets.map((m, i) => (
-                  <div key={i} className="flex items-center justify-between bg-secondary/40 rounded-lg px-3 py-2">
-                    <div>
-                      <div className="text-sm font-medium text-foreground">
-                        {m.market.replace(/_/g, " ")} — {m.side}
-                        {m.line !== undefined && <span className="text-muted-foreground ml-1">({m.line})</span>}
+                {game.recommended_markets.map((m, i) => {
+                  const leg = toTicketLeg(game, m, homeName, awayName);
+                  return (
+                    <div key={i} className="flex items-center justify-between bg-secondary/40 rounded-lg px-3 py-2">
+                      <div>
+                        <div className="text-sm font-medium text-foreground">
+                          {m.market.replace(/_/g, " ")} — {m.side}
+                          {m.line !== undefined && <span className="text-muted-foreground ml-1">({m.line})</span>}
+                          {m.odds != null && <span className="font-mono text-[hsl(200,70%,75%)] ml-1.5">@{m.odds.toFixed(2)}</span>}
+                        </div>
+                        <div className="text-[10px] text-muted-foreground">
+                          {m.reason}
+                          {m.bookmaker && ` · ${m.bookmaker}`}
+                        </div>
                       </div>
-                      <div className="text-[10px] text-muted-foreground">{m.reason}</div>
+                      {leg ? (
+                        <AddToTicketButton leg={leg} />
+                      ) : (
+                        <TrendingUp className="h-4 w-4 text-[hsl(200,60%,60%)]" />
+                      )}
                     </div>
-                    <TrendingUp className="h-4 w-4 text-[hsl(200,60%,60%)]" />
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </>
@@ -141,6 +217,75 @@ export function IceEdgeDetailDrawer({ game, open, onClose }: IceEdgeDetailDrawer
   );
 }
 
+/** Goals each factor added to or removed from the projected total */
+function FactorBreakdown({ factors }: { factors: IceEdgeFactor[] }) {
+  const base = factors.find((f) => f.factor === "base");
+  const adjustments = factors.filter((f) => f.factor !== "base");
+  const maxDelta = Math.max(0.1, ...adjustments.map((f) => Math.abs(f.delta)));
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+        <Layers className="h-3.5 w-3.5" />
+        Projection Breakdown
+      </h3>
+      {base && (
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">{FACTOR_LABELS.base}</span>
+          <span className="font-mono text-foreground">{base.delta.toFixed(2)}</span>
+        </div>
+      )}
+      {adjustments.map((f) => {
+        const width = `${(Math.abs(f.delta) / maxDelta) * 50}%`;
+        return (
+          <div key={f.factor} className={f.applied ? "" : "opacity-50"} title={f.detail}>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">{FACTOR_LABELS[f.factor]}</span>
+              <span className={`font-mono ${f.delta > 0 ? "text-emerald-400" : f.delta < 0 ? "text-red-400" : "text-muted-foreground"}`}>
+                {f.applied ? `${f.delta > 0 ? "+" : ""}${f.delta.toFixed(2)}` : "n/a"}
+              </span>
+            </div>
+            <div className="relative h-1.5 bg-secondary/40 rounded-full mt-1">
+              <div className="absolute left-1/2 top-0 h-full w-px bg-border" />
+              {f.delta !== 0 && (
+                <div
+                  className={`absolute top-0 h-full rounded-full ${f.delta > 0 ? "left-1/2 bg-emerald-500/70" : "right-1/2 bg-red-500/70"}`}
+                  style={{ width }}
+                />
+              )}
+            </div>
+            <div className="text-[10px] text-muted-foreground mt-0.5">{f.detail}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function GoalieRow({ team, goalie }: { team: string; goalie: IceEdgeGoalie | null }) {
+  const savePct = goalie && goalie.shots_against > 0 ? (goalie.saves / goalie.shots_against).toFixed(3) : null;
+
+  return (
+    <div className="flex items-center justify-between bg-secondary/40 rounded-lg px-3 py-2">
+      <div>
+        <div className="text-sm font-medium text-foreground">{goalie?.player_name ?? "Unknown"}</div>
+        <div className="text-[10px] text-muted-foreground">
+          {team}
+          {savePct && ` · SV% ${savePct} (${goalie!.shots_against} shots)`}
+        </div>
+      </div>
+      {goalie && (
+        <Badge
+          variant="outline"
+          className={goalie.status === "confirmed" ? tierBadge("high") : tierBadge("medium")}
+        >
+          {goalie.status}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
 function MetricBlock({ icon, label, value, description }: {
   icon: React.ReactNode;
   label: string;
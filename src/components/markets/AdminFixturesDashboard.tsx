@@ -29,11 +29,20 @@ import {
   useFixturesNext,
   useLeagueFixtureCounts,
   useCreateMarketFromFixture,
+  useCreateMultiMarketFromFixture,
   MARKET_TEMPLATES,
   type Fixture,
   type League,
 } from "@/hooks/useAdminFixtures";
 import { useAutoFillOdds } from "@/hooks/useAutoFillOdds";
+import {
+  MULTI_MARKET_TEMPLATES,
+  MULTI_RESOLUTION_RULES,
+  buildOutcomes,
+  type MultiResolutionRule,
+  type OutcomeDraft,
+} from "@/lib/marketOutcomes";
+import { DEFAULT_LIQUIDITY, MAX_LIQUIDITY, MIN_LIQUIDITY, PRICING_MODES, type PricingMode } from "@/lib/marketPricing";
 
 type TimeWindow = "24" | "48";
 
@@ -384,13 +393,22 @@ function MarketBuilderDialog({
   const [closeMinutes, setCloseMinutes] = useState(5);
   const [createdMarkets, setCreatedMarkets] = useState<string[]>([]);
   const [manuallyEdited, setManuallyEdited] = useState(false);
+  // Multi-outcome templates: editable outcome set and pricing
+  const [outcomes, setOutcomes] = useState<OutcomeDraft[]>([]);
+  const [pricingMode, setPricingMode] = useState<PricingMode>("fixed");
+  const [liquidity, setLiquidity] = useState(DEFAULT_LIQUIDITY);
 
   const createMarket = useCreateMarketFromFixture();
+  const createMultiMarket = useCreateMultiMarketFromFixture();
+
+  const multiRule = (MULTI_RESOLUTION_RULES as readonly string[]).includes(selectedRule ?? "")
+    ? (selectedRule as MultiResolutionRule)
+    : null;
 
   // Auto-fill odds when template is selected
   const { data: autoOdds, isLoading: oddsLoading } = useAutoFillOdds(
     fixture.id,
-    selectedRule
+    multiRule ? null : selectedRule
   );
 
   // Apply auto-filled odds when they change (and user hasn't manually edited)
@@ -406,6 +424,14 @@ function MarketBuilderDialog({
     setManuallyEdited(false);
   }, [selectedRule]);
 
+  // Default outcome set for a multi-outcome template
+  useEffect(() => {
+    setOutcomes(multiRule ? buildOutcomes(multiRule, fixture.teams_home.name, fixture.teams_away.name) : []);
+  }, [multiRule, fixture.teams_home.name, fixture.teams_away.name]);
+
+  const updateOutcome = (index: number, patch: Partial<OutcomeDraft>) =>
+    setOutcomes((prev) => prev.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+
   const kickoff = fixture.timestamp
     ? new Date(fixture.timestamp * 1000)
     : new Date(fixture.date);
@@ -417,13 +443,22 @@ function MarketBuilderDialog({
     }
 
     try {
-      const result = await createMarket.mutateAsync({
-        fixture_id: fixture.id,
-        resolution_rule: selectedRule,
-        odds_yes: oddsYes,
-        odds_no: oddsNo,
-        close_minutes_before_kickoff: closeMinutes,
-      });
+      const result = multiRule
+        ? await createMultiMarket.mutateAsync({
+            fixture_id: fixture.id,
+            resolution_rule: multiRule,
+            outcomes,
+            pricing_mode: pricingMode,
+            liquidity_b: liquidity,
+            close_minutes_before_kickoff: closeMinutes,
+          })
+        : await createMarket.mutateAsync({
+            fixture_id: fixture.id,
+            resolution_rule: selectedRule,
+            odds_yes: oddsYes,
+            odds_no: oddsNo,
+            close_minutes_before_kickoff: closeMinutes,
+          });
 
       toast.success(`Market created: ${result.title}`);
       setCreatedMarkets((prev) => [...prev, selectedRule]);
@@ -435,7 +470,7 @@ function MarketBuilderDialog({
 
   return (
     <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Trophy className="h-5 w-5 text-amber-500" />
@@ -478,9 +513,96 @@ function MarketBuilderDialog({
               );
             })}
           </div>
+          <Label className="text-xs text-muted-foreground">Multi-outcome</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {MULTI_MARKET_TEMPLATES.map((template) => {
+              const alreadyCreated = createdMarkets.includes(template.rule);
+              return (
+                <button
+                  key={template.rule}
+                  className={`p-2 rounded-md border text-sm text-left transition-colors ${
+                    selectedRule === template.rule
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : alreadyCreated
+                      ? "bg-green-500/10 border-green-500/30 text-green-600"
+                      : "hover:bg-muted border-border"
+                  }`}
+                  onClick={() => !alreadyCreated && setSelectedRule(template.rule)}
+                  disabled={alreadyCreated}
+                >
+                  {alreadyCreated ? "✓ " : ""}
+                  {template.label}
+                </button>
+              );
+            })}
+          </div>
         </div>
 
-        {/* Odds Inputs */}
+        {multiRule ? (
+          <>
+            {/* Outcome Odds */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Outcomes</Label>
+                <Badge variant="outline" className="text-xs text-muted-foreground">
+                  ⚙️ Model default
+                </Badge>
+              </div>
+              <div className="space-y-1.5">
+                {outcomes.map((o, i) => (
+                  <div key={o.outcome} className="grid grid-cols-[1fr_5.5rem] gap-2">
+                    <Input
+                      value={o.label}
+                      onChange={(e) => updateOutcome(i, { label: e.target.value })}
+                      className="h-8 text-sm"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="1.01"
+                      value={o.odds}
+                      onChange={(e) => updateOutcome(i, { odds: parseFloat(e.target.value) || 1.01 })}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Pricing */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Pricing</Label>
+                <Select value={pricingMode} onValueChange={(v) => setPricingMode(v as PricingMode)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRICING_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {mode === "fixed" ? "Fixed odds" : mode === "lmsr" ? "LMSR" : "Parimutuel"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {pricingMode !== "fixed" && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Liquidity (b)</Label>
+                  <Input
+                    type="number"
+                    min={MIN_LIQUIDITY}
+                    max={MAX_LIQUIDITY}
+                    value={liquidity}
+                    onChange={(e) => setLiquidity(parseInt(e.target.value) || DEFAULT_LIQUIDITY)}
+                    className="h-9"
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+        /* Odds Inputs */
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label className="text-sm font-medium">Odds</Label>
@@ -534,6 +656,7 @@ function MarketBuilderDialog({
             </div>
           </div>
         </div>
+        )}
 
         {/* Close Minutes */}
         <div className="space-y-1">
@@ -556,9 +679,9 @@ function MarketBuilderDialog({
           <Button
             className="flex-1"
             onClick={handleCreate}
-            disabled={!selectedRule || createMarket.isPending}
+            disabled={!selectedRule || createMarket.isPending || createMultiMarket.isPending}
           >
-            {createMarket.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {(createMarket.isPending || createMultiMarket.isPending) && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
             Create Market
           </Button>
         </div>
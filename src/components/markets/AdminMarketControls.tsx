@@ -15,12 +15,24 @@ import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
 import { Market, useMarkets, useCreateMarket, useResolveMarket } from "@/hooks/useMarkets";
+import {
+  DEFAULT_LIQUIDITY,
+  MAX_LIQUIDITY,
+  MIN_LIQUIDITY,
+  currentExposure,
+  maxMakerLoss,
+  openingPriceYes,
+} from "@/lib/marketPricing";
+import { sortOutcomes } from "@/lib/marketOutcomes";
 import { AdminFixturesDashboard } from "./AdminFixturesDashboard";
+import { MarketGeneratorPanel } from "./MarketGeneratorPanel";
+import { ResolutionReviewPanel } from "./ResolutionReviewPanel";
 
 const createMarketSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
@@ -31,8 +43,16 @@ const createMarketSchema = z.object({
   initial_odds_no: z.number().min(1.01).max(100).default(2.0),
   fixture_id: z.number().optional(),
   resolution_rule: z.string().optional(),
+  pricing_mode: z.enum(["fixed", "lmsr", "parimutuel"]).default("fixed"),
+  liquidity_b: z.number().min(MIN_LIQUIDITY).max(MAX_LIQUIDITY).default(DEFAULT_LIQUIDITY),
 });
 
+const PRICING_MODE_LABELS = {
+  fixed: "Fixed odds",
+  lmsr: "Market maker (LMSR)",
+  parimutuel: "Parimutuel pool",
+} as const;
+
 type CreateMarketFormData = z.infer<typeof createMarketSchema>;
 
 export function AdminMarketControls() {
@@ -52,9 +72,22 @@ export function AdminMarketControls() {
       category: "football",
       initial_odds_yes: 2.0,
       initial_odds_no: 2.0,
+      pricing_mode: "fixed",
+      liquidity_b: DEFAULT_LIQUIDITY,
     },
   });
 
+  const [pricingMode, liquidity, oddsYes, oddsNo] = form.watch([
+    "pricing_mode",
+    "liquidity_b",
+    "initial_odds_yes",
+    "initial_odds_no",
+  ]);
+  const exposure =
+    oddsYes >= 1.01 && oddsNo >= 1.01
+      ? maxMakerLoss(pricingMode, liquidity, openingPriceYes(oddsYes, oddsNo))
+      : null;
+
   const handleCreateMarket = async (data: CreateMarketFormData) => {
     try {
       await createMarket.mutateAsync({
@@ -65,6 +98,8 @@ export function AdminMarketControls() {
         initial_odds_yes: data.initial_odds_yes,
         initial_odds_no: data.initial_odds_no,
         fixture_id: data.fixture_id,
+        pricing_mode: data.pricing_mode,
+        liquidity_b: data.pricing_mode === "fixed" ? undefined : data.liquidity_b,
       });
       toast.success("Market created successfully");
       setCreateDialogOpen(false);
@@ -74,14 +109,14 @@ export function AdminMarketControls() {
     }
   };
 
-  const handleResolve = async (marketId: string, outcome: "yes" | "no" | null) => {
+  const handleResolve = async (marketId: string, outcome: string | null) => {
     const actionLabel = outcome === null ? "void" : outcome;
     try {
       await resolveMarket.mutateAsync({
         market_id: marketId,
-        winning_outcome: outcome as "yes" | "no" | "void",
+        winning_outcome: outcome ?? "void",
       });
-      toast.success(`Market resolved: ${actionLabel.toUpperCase()}`);
+      toast.success(`Resolution proposed: ${actionLabel.toUpperCase()}`);
     } catch (error: any) {
       toast.error(error.message || "Failed to resolve market");
     }
@@ -94,6 +129,12 @@ export function AdminMarketControls() {
       {/* Fixtures Dashboard - Primary way to create markets */}
       <AdminFixturesDashboard />
 
+      {/* Scheduled generation for whole leagues */}
+      <MarketGeneratorPanel />
+
+      {/* Proposed results, disputes and reversals */}
+      <ResolutionReviewPanel />
+
       {/* Manual Controls */}
       <Card className="border-amber-500/30 bg-amber-500/5">
         <CardHeader className="pb-3">
@@ -232,6 +273,67 @@ export function AdminMarketControls() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="pricing_mode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pricing</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(PRICING_MODE_LABELS).map(([mode, label]) => (
+                            <SelectItem key={mode} value={mode}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {pricingMode === "fixed"
+                          ? "Odds stay where you set them."
+                          : "Odds above set the opening price; bets move it from there."}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {pricingMode !== "fixed" && (
+                  <FormField
+                    control={form.control}
+                    name="liquidity_b"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{pricingMode === "lmsr" ? "Liquidity (b)" : "Seed pool (coins)"}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="10"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          {pricingMode === "lmsr"
+                            ? "Higher b means prices move less per coin staked."
+                            : "House money split across YES/NO at the opening price."}
+                          {exposure !== null && (
+                            <span className="block font-medium text-amber-600">
+                              Max house exposure: {Math.ceil(exposure).toLocaleString()} coins
+                            </span>
+                          )}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={form.control}
                   name="fixture_id"
@@ -290,9 +392,13 @@ function MarketAdminRow({
   isResolving,
 }: {
   market: Market;
-  onResolve: (marketId: string, outcome: "yes" | "no" | null) => void;
+  onResolve: (marketId: string, outcome: string | null) => void;
   isResolving: boolean;
 }) {
+  const isMulti = market.market_type === "multi";
+  const outcomes = sortOutcomes(market.market_outcomes);
+  const [winner, setWinner] = useState("");
+
   return (
     <div className="flex items-center justify-between p-2 rounded-md bg-card/50 border text-sm">
       <div className="flex-1 min-w-0">
@@ -302,16 +408,48 @@ function MarketAdminRow({
             {market.status}
           </Badge>
           <span>Closes: {format(new Date(market.closes_at), "MMM d, HH:mm")}</span>
+          {isMulti ? (
+            <span>{outcomes.length} outcomes · {market.pricing_mode}</span>
+          ) : (
+            market.pricing_mode !== "fixed" && <MarketExposure market={market} />
+          )}
         </div>
       </div>
       <div className="flex items-center gap-1">
+        {isMulti ? (
+          <>
+            <Select value={winner} onValueChange={setWinner} disabled={isResolving || market.status === "resolved"}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue placeholder="Winner" />
+              </SelectTrigger>
+              <SelectContent>
+                {outcomes.map((o) => (
+                  <SelectItem key={o.outcome} value={o.outcome}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 px-2 text-green-600 hover:text-green-700 hover:bg-green-500/10"
+              onClick={() => onResolve(market.id, winner)}
+              disabled={isResolving || market.status === "resolved" || !winner}
+              title="Propose the selected outcome"
+            >
+              <Check className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <>
         <Button
           size="sm"
           variant="ghost"
           className="h-8 px-2 text-green-600 hover:text-green-700 hover:bg-green-500/10"
           onClick={() => onResolve(market.id, "yes")}
           disabled={isResolving || market.status === "resolved"}
-          title="Resolve YES"
+          title="Propose YES"
         >
           <Check className="h-4 w-4" />
         </Button>
@@ -321,17 +459,19 @@ function MarketAdminRow({
           className="h-8 px-2 text-red-600 hover:text-red-700 hover:bg-red-500/10"
           onClick={() => onResolve(market.id, "no")}
           disabled={isResolving || market.status === "resolved"}
-          title="Resolve NO"
+          title="Propose NO"
         >
           <X className="h-4 w-4" />
         </Button>
+          </>
+        )}
         <Button
           size="sm"
           variant="ghost"
           className="h-8 px-2 text-muted-foreground hover:bg-muted"
           onClick={() => onResolve(market.id, null)}
           disabled={isResolving || market.status === "resolved"}
-          title="Void / Refund"
+          title="Propose void / refund"
         >
           <RotateCcw className="h-4 w-4" />
         </Button>
@@ -339,3 +479,21 @@ function MarketAdminRow({
     </div>
   );
 }
+
+/** Market-maker mode with the house's loss on the worse outcome right now vs its cap */
+function MarketExposure({ market }: { market: Market }) {
+  const now = currentExposure(market);
+  const cap = maxMakerLoss(market.pricing_mode, market.liquidity_b, market.initial_price_yes);
+  const worst = Math.max(now.yes, now.no);
+
+  return (
+    <span title="House loss if the worse outcome wins (now / max)">
+      {market.pricing_mode === "lmsr" ? `LMSR b=${market.liquidity_b}` : `Pool seed ${market.liquidity_b}`}
+      {" · "}
+      <span className={worst > 0 ? "text-amber-600" : "text-green-600"}>
+        exposure {Math.round(worst).toLocaleString()}
+        {cap !== null && ` / ${Math.ceil(cap).toLocaleString()}`}
+      </span>
+    </span>
+  );
+}
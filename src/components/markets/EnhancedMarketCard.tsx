@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { MarketWithMetadata } from "@/hooks/useMarketsFiltered";
 import { cn } from "@/lib/utils";
 import { useTranslation } from "react-i18next";
+import { marketPool, outcomeLabel, sortOutcomes } from "@/lib/marketOutcomes";
 
 interface EnhancedMarketCardProps {
   market: MarketWithMetadata;
@@ -23,7 +24,13 @@ export function EnhancedMarketCard({
   const { t } = useTranslation("markets");
   const navigate = useNavigate();
 
-  const totalStaked = market.total_staked_yes + market.total_staked_no;
+  const totalStaked = marketPool(market);
+  const isMulti = market.market_type === "multi";
+  // Multi-outcome cards preview the three shortest prices; betting happens on the detail page
+  const outcomes = sortOutcomes(market.market_outcomes);
+  const previewOutcomes = [...outcomes].sort((a, b) => a.odds - b.odds).slice(0, 3);
+  const inverseSum = outcomes.reduce((sum, o) => sum + 1 / o.odds, 0);
+  const handleBet = () => (isMulti ? navigate(`/markets/${market.id}`) : onBet(market));
   const yesPercent =
     totalStaked > 0
       ? Math.round((market.total_staked_yes / totalStaked) * 100)
@@ -47,6 +54,7 @@ export function EnhancedMarketCard({
 
   const getMarketTypeLabel = () => {
     const rule = market.resolution_rule || "";
+    if (isMulti) return t(`resolution_rules.${rule}`, { defaultValue: market.category || "Other" });
     if (rule.includes("btts")) return "BTTS";
     if (rule.includes("over") && rule.includes("goals")) {
       const match = rule.match(/over_(\d+\.?\d?)_goals/);
@@ -135,6 +143,30 @@ export function EnhancedMarketCard({
         )}
 
         {/* Odds Display */}
+        {isMulti ? (
+          <div className={cn("grid gap-2 mb-3", previewOutcomes.length >= 3 ? "grid-cols-3" : "grid-cols-2")}>
+            {previewOutcomes.map((o) => (
+              <button
+                key={o.outcome}
+                className={cn(
+                  "rounded-xl p-2.5 text-center transition-all duration-200 border",
+                  "bg-primary/5 border-primary/15",
+                  !isResolved && !isClosed && "hover:bg-primary/10 active:scale-[0.97]"
+                )}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!isResolved && !isClosed) handleBet();
+                }}
+              >
+                <div className="text-[10px] text-muted-foreground font-medium mb-0.5 truncate">{o.label}</div>
+                <div className="text-lg font-bold text-primary tabular-nums">{Number(o.odds).toFixed(2)}</div>
+                <div className="text-[10px] text-muted-foreground tabular-nums">
+                  {inverseSum > 0 ? Math.round((1 / o.odds / inverseSum) * 100) : 0}%
+                </div>
+              </button>
+            ))}
+          </div>
+        ) : (
         <div className="grid grid-cols-2 gap-2 mb-3">
           <button
             className={cn(
@@ -167,6 +199,7 @@ export function EnhancedMarketCard({
             <div className="text-[10px] text-red-400/70 tabular-nums">{noPercent}%</div>
           </button>
         </div>
+        )}
 
         {/* Bottom Row */}
         <div className="flex items-center justify-between">
@@ -182,7 +215,7 @@ export function EnhancedMarketCard({
               className="h-8 text-xs px-4 rounded-xl gap-1.5 shadow-[0_2px_10px_hsl(var(--primary)/0.2)] active:scale-[0.96]"
               onClick={(e) => {
                 e.stopPropagation();
-                onBet(market);
+                handleBet();
               }}
             >
               <TrendingUp className="h-3 w-3" />
@@ -190,7 +223,13 @@ export function EnhancedMarketCard({
             </Button>
           )}
 
-          {isResolved && market.winning_outcome && (
+          {isResolved && market.winning_outcome && isMulti && (
+            <span className="text-xs font-semibold px-2.5 py-1 rounded-lg bg-green-500/15 text-green-400">
+              {outcomeLabel(outcomes, market.winning_outcome)} {t("card.won")}
+            </span>
+          )}
+
+          {isResolved && market.winning_outcome && !isMulti && (
             <span
               className={cn(
                 "text-xs font-semibold px-2.5 py-1 rounded-lg capitalize",
@@ -2,12 +2,15 @@ import { Trophy, TrendingUp, Coins } from "lucide-react";
 import { LeaderboardEntry } from "@/hooks/useMarkets";
 import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
+import type { DivisionZone } from "@/lib/marketSeasons";
 
 interface LeaderboardPanelProps {
   entries: LeaderboardEntry[];
+  /** Promotion / relegation marker for division standings */
+  zoneFor?: (entry: LeaderboardEntry) => DivisionZone;
 }
 
-export function LeaderboardPanel({ entries }: LeaderboardPanelProps) {
+export function LeaderboardPanel({ entries, zoneFor }: LeaderboardPanelProps) {
   const { t } = useTranslation("markets");
 
   const getRankDisplay = (rank: number) => {
@@ -30,6 +33,7 @@ export function LeaderboardPanel({ entries }: LeaderboardPanelProps) {
     <div className="space-y-2">
       {entries.map((entry) => {
         const rank = getRankDisplay(entry.rank);
+        const zone = zoneFor?.(entry) ?? null;
         return (
           <div
             key={entry.user_id}
@@ -46,7 +50,19 @@ export function LeaderboardPanel({ entries }: LeaderboardPanelProps) {
 
               {/* Name & Stats */}
               <div className="flex-1 min-w-0">
-                <p className="font-semibold text-sm truncate">{entry.display_name}</p>
+                <p className="font-semibold text-sm truncate">
+                  {entry.display_name}
+                  {zone && (
+                    <span
+                      className={cn(
+                        "ml-2 text-[10px] font-semibold uppercase",
+                        zone === "promotion" ? "text-green-500" : "text-red-500"
+                      )}
+                    >
+                      {zone === "promotion" ? "▲" : "▼"} {t(`leaderboard.${zone}_zone`)}
+                    </span>
+                  )}
+                </p>
                 <div className="flex items-center gap-3 text-[11px] text-muted-foreground mt-0.5">
                   <span className="flex items-center gap-1">
                     <Trophy className="h-3 w-3" />
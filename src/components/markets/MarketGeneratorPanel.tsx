@@ -0,0 +1,443 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Pencil, Play, Plus, Trash2, Wand2, X } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+import { MARKET_TEMPLATES } from "@/hooks/useAdminFixtures";
+import {
+  useDeleteMarketGeneratorConfig,
+  useGeneratorLeagues,
+  useMarketGeneratorConfigs,
+  useRunMarketGenerator,
+  useSaveMarketGeneratorConfig,
+  type GeneratorPriceSource,
+  type MarketGeneratorConfig,
+  type MarketGeneratorConfigInput,
+} from "@/hooks/useMarketGenerator";
+import { DEFAULT_LIQUIDITY, MAX_LIQUIDITY, MIN_LIQUIDITY, PRICING_MODES, type PricingMode } from "@/lib/marketPricing";
+
+const EMPTY_CONFIG: MarketGeneratorConfigInput = {
+  name: "",
+  enabled: true,
+  league_ids: [],
+  horizon_hours: 48,
+  resolution_rules: ["over_2.5_goals", "btts"],
+  price_source: "model",
+  pricing_mode: "fixed",
+  liquidity_b: DEFAULT_LIQUIDITY,
+  close_minutes_before_kickoff: 5,
+};
+
+const PRICE_SOURCE_LABELS: Record<GeneratorPriceSource, string> = {
+  model: "Stat model",
+  best_prices: "Best prices (1X2), model fallback",
+};
+
+export function MarketGeneratorPanel() {
+  const [editing, setEditing] = useState<{ id?: string; config: MarketGeneratorConfigInput } | null>(null);
+
+  const { data: configs, isLoading } = useMarketGeneratorConfigs();
+  const { data: leagues } = useGeneratorLeagues();
+  const saveConfig = useSaveMarketGeneratorConfig();
+  const deleteConfig = useDeleteMarketGeneratorConfig();
+  const runGenerator = useRunMarketGenerator();
+
+  const leagueName = (id: number) => leagues?.find((l) => l.id === id)?.name ?? `#${id}`;
+
+  const handleToggle = async (config: MarketGeneratorConfig, enabled: boolean) => {
+    try {
+      await saveConfig.mutateAsync({ id: config.id, config: { ...toInput(config), enabled } });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update config");
+    }
+  };
+
+  const handleRun = async (config: MarketGeneratorConfig) => {
+    try {
+      const result = await runGenerator.mutateAsync(config.id);
+      toast.success(`${config.name}: ${result.created} created, ${result.duplicates} already existed`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Generator run failed");
+    }
+  };
+
+  const handleDelete = async (config: MarketGeneratorConfig) => {
+    if (!confirm(`Delete generator "${config.name}"? Markets it created are kept.`)) return;
+    try {
+      await deleteConfig.mutateAsync(config.id);
+      toast.success("Generator deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete config");
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-violet-500/30 bg-violet-500/5">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-violet-600 text-base">
+            <Wand2 className="h-4 w-4" />
+            Market Generator
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs ml-auto"
+              onClick={() => setEditing({ config: EMPTY_CONFIG })}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              New
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Runs hourly: creates the selected markets for every upcoming fixture in the chosen leagues.
+            Existing fixture + rule markets are skipped.
+          </p>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !configs || configs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No generators configured</p>
+          ) : (
+            configs.map((config) => (
+              <div key={config.id} className="p-3 rounded-md border bg-background space-y-2">
+                <div className="flex items-center gap-2">
+                  <Switch checked={config.enabled} onCheckedChange={(v) => handleToggle(config, v)} />
+                  <span className="font-medium text-sm flex-1 truncate">{config.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => handleRun(config)}
+                    disabled={runGenerator.isPending}
+                    title="Run now"
+                  >
+                    {runGenerator.isPending && runGenerator.variables === config.id ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Play className="h-3.5 w-3.5" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setEditing({ id: config.id, config: toInput(config) })}
+                    title="Edit"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive"
+                    onClick={() => handleDelete(config)}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {config.league_ids.map((id) => (
+                    <Badge key={id} variant="secondary" className="text-xs">
+                      {leagueName(id)}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Next {config.horizon_hours}h · {config.resolution_rules.length} market(s) per fixture ·{" "}
+                  {PRICE_SOURCE_LABELS[config.price_source]} · {config.pricing_mode}
+                </div>
+                {config.last_run_at && (
+                  <div className="text-xs text-muted-foreground">
+                    Last run {formatDistanceToNow(new Date(config.last_run_at), { addSuffix: true })}
+                    {config.last_run_summary && (
+                      <>
+                        {": "}
+                        {config.last_run_summary.created} created, {config.last_run_summary.duplicates} existing,{" "}
+                        {config.last_run_summary.unpriced} unpriced
+                        {config.last_run_summary.failed > 0 && (
+                          <span className="text-destructive">, {config.last_run_summary.failed} failed</span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <GeneratorConfigDialog
+          initial={editing.config}
+          isNew={!editing.id}
+          isSaving={saveConfig.isPending}
+          onClose={() => setEditing(null)}
+          onSave={async (config) => {
+            try {
+              await saveConfig.mutateAsync({ id: editing.id, config });
+              toast.success("Generator saved");
+              setEditing(null);
+            } catch (error) {
+              toast.error(error instanceof Error ? error.message : "Failed to save config");
+            }
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function toInput(config: MarketGeneratorConfig): MarketGeneratorConfigInput {
+  return {
+    name: config.name,
+    enabled: config.enabled,
+    league_ids: config.league_ids,
+    horizon_hours: config.horizon_hours,
+    resolution_rules: config.resolution_rules,
+    price_source: config.price_source,
+    pricing_mode: config.pricing_mode,
+    liquidity_b: config.liquidity_b ?? DEFAULT_LIQUIDITY,
+    close_minutes_before_kickoff: config.close_minutes_before_kickoff,
+  };
+}
+
+// Create / edit dialog
+function GeneratorConfigDialog({
+  initial,
+  isNew,
+  isSaving,
+  onClose,
+  onSave,
+}: {
+  initial: MarketGeneratorConfigInput;
+  isNew: boolean;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (config: MarketGeneratorConfigInput) => void;
+}) {
+  const [config, setConfig] = useState(initial);
+  const [leagueSearch, setLeagueSearch] = useState("");
+  const { data: leagues, isLoading: leaguesLoading } = useGeneratorLeagues();
+
+  const update = (patch: Partial<MarketGeneratorConfigInput>) => setConfig((prev) => ({ ...prev, ...patch }));
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((x) => x !== item) : [...list, item]);
+
+  const filteredLeagues = (leagues ?? []).filter((l) =>
+    l.name.toLowerCase().includes(leagueSearch.trim().toLowerCase())
+  );
+
+  const handleSave = () => {
+    if (!config.name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (config.league_ids.length === 0) {
+      toast.error("Select at least one league");
+      return;
+    }
+    if (config.resolution_rules.length === 0) {
+      toast.error("Select at least one market");
+      return;
+    }
+    onSave({ ...config, name: config.name.trim() });
+  };
+
+  return (
+    <Dialog open onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-violet-500" />
+            {isNew ? "New Generator" : "Edit Generator"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Name</Label>
+          <Input
+            value={config.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Top 5 leagues - goals"
+            className="h-9"
+          />
+        </div>
+
+        {/* Leagues */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">
+            Leagues {config.league_ids.length > 0 && `(${config.league_ids.length})`}
+          </Label>
+          <Input
+            placeholder="Search leagues with fixtures this week..."
+            value={leagueSearch}
+            onChange={(e) => setLeagueSearch(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <ScrollArea className="h-40 rounded-md border">
+            {leaguesLoading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="p-1 space-y-0.5">
+                {filteredLeagues.map((league) => {
+                  const selected = config.league_ids.includes(league.id);
+                  return (
+                    <button
+                      key={league.id}
+                      className={`w-full flex items-center gap-2 p-1.5 rounded text-left text-sm transition-colors ${
+                        selected ? "bg-primary/10 text-primary" : "hover:bg-muted"
+                      }`}
+                      onClick={() => update({ league_ids: toggle(config.league_ids, league.id) })}
+                    >
+                      {league.logo && <img src={league.logo} alt="" className="h-4 w-4 object-contain" />}
+                      <span className="flex-1 truncate">{league.name}</span>
+                      {selected && "✓"}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        {/* Markets */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Markets per fixture</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {MARKET_TEMPLATES.map((template) => {
+              const selected = config.resolution_rules.includes(template.rule);
+              return (
+                <button
+                  key={template.rule}
+                  className={`p-2 rounded-md border text-sm text-left transition-colors ${
+                    selected ? "bg-primary text-primary-foreground border-primary" : "hover:bg-muted border-border"
+                  }`}
+                  onClick={() => update({ resolution_rules: toggle(config.resolution_rules, template.rule) })}
+                >
+                  {template.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Horizon (hours)</Label>
+            <Input
+              type="number"
+              min="1"
+              max="168"
+              value={config.horizon_hours}
+              onChange={(e) => update({ horizon_hours: Math.min(168, Math.max(1, parseInt(e.target.value) || 48)) })}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Close min. before kickoff</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.close_minutes_before_kickoff}
+              onChange={(e) => update({ close_minutes_before_kickoff: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="h-9"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Opening prices</Label>
+          <Select value={config.price_source} onValueChange={(v) => update({ price_source: v as GeneratorPriceSource })}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PRICE_SOURCE_LABELS) as GeneratorPriceSource[]).map((source) => (
+                <SelectItem key={source} value={source}>
+                  {PRICE_SOURCE_LABELS[source]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Pricing */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Pricing</Label>
+            <Select value={config.pricing_mode} onValueChange={(v) => update({ pricing_mode: v as PricingMode })}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRICING_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {mode === "fixed" ? "Fixed odds" : mode === "lmsr" ? "LMSR" : "Parimutuel"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {config.pricing_mode !== "fixed" && (
+            <div className="space-y-1">
+              <Label className="text-xs">Liquidity (b)</Label>
+              <Input
+                type="number"
+                min={MIN_LIQUIDITY}
+                max={MAX_LIQUIDITY}
+                value={config.liquidity_b ?? DEFAULT_LIQUIDITY}
+                onChange={(e) => update({ liquidity_b: parseInt(e.target.value) || DEFAULT_LIQUIDITY })}
+                className="h-9"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch checked={config.enabled} onCheckedChange={(v) => update({ enabled: v })} />
+          <Label className="text-sm">Enabled (hourly)</Label>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2 pt-2">
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
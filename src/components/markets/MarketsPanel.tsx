@@ -2,14 +2,14 @@ import { useState, useMemo } from "react";
 import { useTranslation } from "react-i18next";
 import { motion } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
-import { Coins, TrendingUp, TrendingDown, Clock, Trophy, Target, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { Coins, TrendingUp, TrendingDown, Clock, Trophy, Target, CheckCircle, XCircle, AlertCircle, Banknote } from "lucide-react";
 import { Market, useMyCoins, useMyPositions, useLeaderboard } from "@/hooks/useMarkets";
 import { useMarketsFiltered, useMarketLeagues, groupMarketsByLeague, MarketWithMetadata } from "@/hooks/useMarketsFiltered";
 import { useIsAdmin } from "@/hooks/useIsAdmin";
 import { EnhancedMarketCard, LeagueSection } from "./EnhancedMarketCard";
 import { MarketsFilterBar, QuickLeagueChips } from "./MarketsFilterBar";
 import { PlaceBetDialog } from "./PlaceBetDialog";
-import { LeaderboardPanel } from "./LeaderboardPanel";
+import { SeasonLeaderboards } from "./SeasonLeaderboards";
 import { AdminMarketControls } from "./AdminMarketControls";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
@@ -46,6 +46,7 @@ export function MarketsPanel() {
   const wonPositions = positions?.filter((p) => p.status === "won") || [];
   const lostPositions = positions?.filter((p) => p.status === "lost") || [];
   const refundedPositions = positions?.filter((p) => p.status === "refunded") || [];
+  const cashedOutPositions = positions?.filter((p) => p.status === "cashed_out") || [];
 
   const userPositionMarketIds = useMemo(
     () => new Set(positions?.map((p) => p.market_id) || []),
@@ -295,6 +296,9 @@ export function MarketsPanel() {
           {refundedPositions.length > 0 && (
             <PositionSection title={t("positions.refunded")} icon={<Coins className="h-4 w-4 text-muted-foreground" />} positions={refundedPositions} />
           )}
+          {cashedOutPositions.length > 0 && (
+            <PositionSection title={t("positions.cashed_out")} icon={<Banknote className="h-4 w-4 text-sky-500" />} positions={cashedOutPositions} />
+          )}
           {!positions?.length && (
             <div className="text-center py-12 text-muted-foreground">
               <Clock className="h-10 w-10 mx-auto mb-3 opacity-30" />
@@ -311,7 +315,7 @@ export function MarketsPanel() {
           animate={{ opacity: 1 }}
           transition={{ duration: 0.2 }}
         >
-          <LeaderboardPanel entries={leaderboard || []} />
+          <SeasonLeaderboards globalEntries={leaderboard || []} />
         </motion.div>
       )}
 
@@ -349,7 +353,9 @@ function PositionCard({ position }: { position: any }) {
               "inline-flex items-center px-2 py-0.5 rounded-lg text-[11px] font-bold uppercase",
               position.outcome === "yes"
                 ? "bg-green-500/15 text-green-500 border border-green-500/20"
-                : "bg-red-500/15 text-red-500 border border-red-500/20"
+                : position.outcome === "no"
+                ? "bg-red-500/15 text-red-500 border border-red-500/20"
+                : "bg-sky-500/15 text-sky-500 border border-sky-500/20"
             )}
           >
             {position.outcome}
@@ -367,10 +373,11 @@ function PositionCard({ position }: { position: any }) {
               position.status === "won" && "text-green-500",
               position.status === "lost" && "text-red-500",
               position.status === "pending" && "text-yellow-500",
-              position.status === "refunded" && "text-muted-foreground"
+              position.status === "refunded" && "text-muted-foreground",
+              position.status === "cashed_out" && "text-sky-500"
             )}
           >
-            {position.status === "won"
+            {position.status === "won" || position.status === "cashed_out"
               ? `+${position.payout_amount}`
               : position.status === "pending"
               ? `→ ${position.potential_payout}`
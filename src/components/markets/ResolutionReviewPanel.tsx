@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Gavel, Check, X, Undo2, Loader2, Flag } from "lucide-react";
+import { toast } from "sonner";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+import { Market, useMarkets } from "@/hooks/useMarkets";
+import { LiveProposal, useLiveProposals, useReviewResolution } from "@/hooks/useMarketResolution";
+import { evidenceScore, resolutionPhase } from "@/lib/marketResolution";
+import { sortOutcomes } from "@/lib/marketOutcomes";
+
+const VOID = "void";
+
+// Admin: live proposals (settle now / reject) and reversal of settled markets
+export function ResolutionReviewPanel() {
+  const { data: proposals, isLoading } = useLiveProposals();
+  const { data: resolvedMarkets } = useMarkets("resolved");
+  const review = useReviewResolution();
+
+  // Most recently settled first
+  const recentlyResolved = [...(resolvedMarkets || [])]
+    .sort((a, b) => new Date(b.resolved_at ?? 0).getTime() - new Date(a.resolved_at ?? 0).getTime())
+    .slice(0, 10);
+
+  const run = async (params: Parameters<typeof review.mutateAsync>[0], success: string) => {
+    try {
+      await review.mutateAsync(params);
+      toast.success(success);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Resolution action failed");
+    }
+  };
+
+  return (
+    <Card className="border-primary/30 bg-primary/5">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-primary">
+          <Gavel className="h-5 w-5" />
+          Resolution Review
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Proposed results</h4>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : proposals?.length ? (
+            proposals.map((proposal) => (
+              <ProposalRow
+                key={proposal.id}
+                proposal={proposal}
+                busy={review.isPending}
+                onFinalize={() => run({ action: "finalize", proposal_id: proposal.id }, "Market settled")}
+                onReject={(note) => run({ action: "reject", proposal_id: proposal.id, note }, "Proposal rejected")}
+              />
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-2">No proposals awaiting settlement.</p>
+          )}
+        </div>
+
+        {recentlyResolved.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Reverse a settlement</h4>
+            {recentlyResolved.map((market) => (
+              <ReverseRow
+                key={market.id}
+                market={market}
+                busy={review.isPending}
+                onReverse={(outcome, note) =>
+                  run({ action: "reverse", market_id: market.id, winning_outcome: outcome, note }, "Settlement reversed")
+                }
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ProposalRow({
+  proposal,
+  busy,
+  onFinalize,
+  onReject,
+}: {
+  proposal: LiveProposal;
+  busy: boolean;
+  onFinalize: () => void;
+  onReject: (note: string) => void;
+}) {
+  const [note, setNote] = useState("");
+  const phase = resolutionPhase(proposal);
+  const score = evidenceScore(proposal.evidence);
+  const openDisputes = proposal.disputes.filter((d) => d.status === "open");
+
+  return (
+    <div className="p-2 rounded-md bg-card/50 border text-sm space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{proposal.market_title}</p>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline" className="text-xs">
+              {(proposal.proposed_outcome ?? VOID).toUpperCase()}
+            </Badge>
+            <span>{proposal.source}</span>
+            {score && <span>{score}</span>}
+            <span>
+              {phase === "challenge"
+                ? `window closes ${formatDistanceToNow(new Date(proposal.challenge_ends_at), { addSuffix: true })}`
+                : phase}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 px-2 text-green-600 hover:text-green-700 hover:bg-green-500/10"
+            onClick={onFinalize}
+            disabled={busy}
+            title="Settle now (dismisses disputes)"
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 px-2 text-red-600 hover:text-red-700 hover:bg-red-500/10"
+            onClick={() => onReject(note)}
+            disabled={busy}
+            title="Reject (upholds disputes)"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {openDisputes.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {openDisputes.map((d) => (
+            <li key={d.id} className="flex gap-1.5 text-muted-foreground">
+              <Flag className="h-3 w-3 mt-0.5 flex-shrink-0 text-red-500" />
+              {d.reason}
+            </li>
+          ))}
+          <li>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the resolution log (optional)"
+              className="h-8 text-xs"
+            />
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ReverseRow({
+  market,
+  busy,
+  onReverse,
+}: {
+  market: Market;
+  busy: boolean;
+  onReverse: (outcome: string | null, note: string) => void;
+}) {
+  const [outcome, setOutcome] = useState("");
+  const [note, setNote] = useState("");
+  const current = market.winning_outcome ?? VOID;
+  const choices =
+    market.market_type === "multi"
+      ? sortOutcomes(market.market_outcomes).map((o) => ({ value: o.outcome, label: o.label }))
+      : [
+          { value: "yes", label: "YES" },
+          { value: "no", label: "NO" },
+        ];
+
+  return (
+    <div className="flex items-center gap-2 p-2 rounded-md bg-card/50 border text-sm">
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">{market.title}</p>
+        <p className="text-xs text-muted-foreground">Settled: {current.toUpperCase()}</p>
+      </div>
+      <Select value={outcome} onValueChange={setOutcome} disabled={busy}>
+        <SelectTrigger className="h-8 w-28 text-xs">
+          <SelectValue placeholder="New result" />
+        </SelectTrigger>
+        <SelectContent>
+          {[...choices, { value: VOID, label: "Void" }]
+            .filter((c) => c.value !== current)
+            .map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                {c.label}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Reason"
+        className="h-8 w-36 text-xs"
+      />
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-8 px-2 text-amber-600 hover:bg-amber-500/10"
+        onClick={() => onReverse(outcome === VOID ? null : outcome, note)}
+        disabled={busy || !outcome || note.trim().length < 5}
+        title="Reverse and re-settle"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
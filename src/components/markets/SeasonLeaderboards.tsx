@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { Globe, Shield, Users, Copy, LogOut, Plus, Loader2, CalendarClock } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LeaderboardEntry } from "@/hooks/useMarkets";
+import {
+  useCreatePrivateLeague,
+  useCurrentSeason,
+  useDivisionLeaderboard,
+  useDivisions,
+  useJoinPrivateLeague,
+  useLeavePrivateLeague,
+  useMyDivision,
+  useMyLastSeason,
+  useMyPrivateLeagues,
+  usePrivateLeagueLeaderboard,
+} from "@/hooks/useMarketSeasons";
+import { divisionZone, isValidInviteCode, normalizeInviteCode } from "@/lib/marketSeasons";
+import { cn } from "@/lib/utils";
+import { LeaderboardPanel } from "./LeaderboardPanel";
+
+type Scope = "global" | "division" | "friends";
+
+interface SeasonLeaderboardsProps {
+  globalEntries: LeaderboardEntry[];
+}
+
+export function SeasonLeaderboards({ globalEntries }: SeasonLeaderboardsProps) {
+  const { t } = useTranslation("markets");
+  const [scope, setScope] = useState<Scope>("global");
+
+  const { data: season } = useCurrentSeason();
+  const { data: divisions } = useDivisions();
+  const { data: myTier } = useMyDivision(season?.id);
+  const { data: lastSeason } = useMyLastSeason();
+  const { data: divisionEntries } = useDivisionLeaderboard(null, scope === "division");
+
+  const divisionName = (tier: number | null | undefined) => divisions?.find((d) => d.tier === tier)?.name ?? "";
+  const myDivision = divisions?.find((d) => d.tier === myTier);
+
+  const scopes = [
+    { id: "global" as const, icon: Globe, label: t("leaderboard.scope_global") },
+    { id: "division" as const, icon: Shield, label: t("leaderboard.scope_division") },
+    { id: "friends" as const, icon: Users, label: t("leaderboard.scope_friends") },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {/* Season header */}
+      {season && (
+        <div className="rounded-xl border border-border/50 bg-muted/20 p-3 text-xs space-y-0.5">
+          <div className="flex items-center gap-1.5 font-semibold text-sm">
+            <CalendarClock className="h-3.5 w-3.5 text-primary" />
+            {t("leaderboard.season", { name: season.name })}
+            <span className="ml-auto text-xs font-normal text-muted-foreground">
+              {t("leaderboard.season_ends", { time: formatDistanceToNow(new Date(season.ends_at), { addSuffix: true }) })}
+            </span>
+          </div>
+          {myDivision && (
+            <p className="text-muted-foreground">{t("leaderboard.your_division", { name: myDivision.name })}</p>
+          )}
+          {lastSeason?.division_rank != null && (
+            <p className="text-muted-foreground">
+              {t("leaderboard.last_season", {
+                rank: lastSeason.division_rank,
+                division: divisionName(lastSeason.division_tier),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Scope */}
+      <div className="flex gap-2">
+        {scopes.map(({ id, icon: Icon, label }) => (
+          <button
+            key={id}
+            onClick={() => setScope(id)}
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium border transition-all duration-200 active:scale-[0.96]",
+              scope === id
+                ? "bg-primary/15 border-primary/40 text-primary"
+                : "bg-muted/20 border-border/50 text-muted-foreground hover:bg-muted/40"
+            )}
+          >
+            <Icon className="h-3 w-3" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {scope === "global" && <LeaderboardPanel entries={globalEntries} />}
+
+      {scope === "division" && (
+        <LeaderboardPanel
+          entries={divisionEntries || []}
+          zoneFor={(entry) =>
+            myDivision ? divisionZone(entry.rank, divisionEntries?.length ?? 0, myDivision) : null
+          }
+        />
+      )}
+
+      {scope === "friends" && <PrivateLeagues />}
+    </div>
+  );
+}
+
+// Private leagues: create / join, then one leaderboard per league
+function PrivateLeagues() {
+  const { t } = useTranslation("markets");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+
+  const { data: leagues, isLoading } = useMyPrivateLeagues();
+  const createLeague = useCreatePrivateLeague();
+  const joinLeague = useJoinPrivateLeague();
+  const leaveLeague = useLeavePrivateLeague();
+
+  const selected = leagues?.find((l) => l.id === selectedId) ?? leagues?.[0] ?? null;
+  const { data: entries } = usePrivateLeagueLeaderboard(selected?.id ?? null);
+
+  const handleCreate = async () => {
+    try {
+      const result = await createLeague.mutateAsync(name.trim());
+      toast.success(t("leaderboard.league_created", { code: result.invite_code }));
+      setName("");
+      setSelectedId(result.league_id ?? null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create league");
+    }
+  };
+
+  const handleJoin = async () => {
+    try {
+      const result = await joinLeague.mutateAsync(normalizeInviteCode(code));
+      toast.success(t("leaderboard.league_joined", { name: result.name }));
+      setCode("");
+      setSelectedId(result.league_id ?? null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to join league");
+    }
+  };
+
+  const handleLeave = async (leagueId: string) => {
+    try {
+      await leaveLeague.mutateAsync(leagueId);
+      toast.success(t("leaderboard.league_left"));
+      setSelectedId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to leave league");
+    }
+  };
+
+  const handleCopy = async (inviteCode: string) => {
+    await navigator.clipboard.writeText(inviteCode);
+    toast.success(t("leaderboard.code_copied"));
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Create / join */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex gap-1.5">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("leaderboard.league_name_placeholder")}
+            maxLength={40}
+            className="h-9 text-sm"
+          />
+          <Button
+            size="icon"
+            className="h-9 w-9 flex-shrink-0"
+            onClick={handleCreate}
+            disabled={name.trim().length < 3 || createLeague.isPending}
+            title={t("leaderboard.create_league")}
+          >
+            {createLeague.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+        <div className="flex gap-1.5">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={t("leaderboard.invite_code_placeholder")}
+            className="h-9 text-sm uppercase"
+          />
+          <Button
+            variant="outline"
+            className="h-9 flex-shrink-0 text-xs"
+            onClick={handleJoin}
+            disabled={!isValidInviteCode(code) || joinLeague.isPending}
+          >
+            {joinLeague.isPending && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+            {t("leaderboard.join_league")}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : !leagues?.length ? (
+        <div className="text-center py-10 text-muted-foreground">
+          <Users className="h-10 w-10 mx-auto mb-3 opacity-30" />
+          <p className="text-sm">{t("leaderboard.no_leagues")}</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {leagues.map((league) => (
+              <button
+                key={league.id}
+                onClick={() => setSelectedId(league.id)}
+                className={cn(
+                  "flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors",
+                  selected?.id === league.id
+                    ? "bg-primary/15 border-primary/40 text-primary"
+                    : "bg-muted/20 border-border/50 text-muted-foreground hover:bg-muted/40"
+                )}
+              >
+                {league.name}
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>{t("leaderboard.members", { count: selected.member_count })}</span>
+              <button
+                onClick={() => handleCopy(selected.invite_code)}
+                className="flex items-center gap-1 font-mono hover:text-foreground"
+              >
+                <Copy className="h-3 w-3" />
+                {t("leaderboard.invite_code", { code: selected.invite_code })}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 ml-auto text-xs text-muted-foreground"
+                onClick={() => handleLeave(selected.id)}
+                disabled={leaveLeague.isPending}
+              >
+                <LogOut className="h-3 w-3 mr-1" />
+                {t("leaderboard.leave_league")}
+              </Button>
+            </div>
+          )}
+
+          <LeaderboardPanel entries={entries || []} />
+        </>
+      )}
+    </div>
+  );
+}
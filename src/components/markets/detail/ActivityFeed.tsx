@@ -1,16 +1,23 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Coins, TrendingUp, TrendingDown, Activity, Gavel, Plus, Clock } from "lucide-react";
+import { Coins, TrendingUp, TrendingDown, Activity, Gavel, Plus, Clock, Banknote } from "lucide-react";
 import { ActivityEntry } from "@/hooks/useMarketDetail";
+import { MarketOutcome } from "@/hooks/useMarkets";
+import { outcomeLabel } from "@/lib/marketOutcomes";
 import { formatDistanceToNow } from "date-fns";
 import { useTranslation } from "react-i18next";
 
 interface ActivityFeedProps {
   activity: ActivityEntry[];
+  /** Outcome set of a multi-outcome market; bets show their labels instead of YES/NO */
+  outcomes?: MarketOutcome[];
 }
 
-export function ActivityFeed({ activity }: ActivityFeedProps) {
+export function ActivityFeed({ activity, outcomes }: ActivityFeedProps) {
   const { t } = useTranslation("markets");
+  const isMulti = !!outcomes?.length;
+  const sideLabel = (outcome?: string) =>
+    isMulti ? outcomeLabel(outcomes, outcome ?? "") : outcome?.toUpperCase();
 
   if (activity.length === 0) {
     return (
@@ -37,6 +44,9 @@ export function ActivityFeed({ activity }: ActivityFeedProps) {
       case "create":
         return <Plus className="h-3.5 w-3.5" />;
       case "resolve":
+      case "propose_resolution":
+      case "reject_resolution":
+      case "reverse":
         return <Gavel className="h-3.5 w-3.5" />;
       case "close":
         return <Clock className="h-3.5 w-3.5" />;
@@ -55,6 +65,12 @@ export function ActivityFeed({ activity }: ActivityFeedProps) {
         return t("activity.market_closed");
       case "close_expired":
         return t("activity.betting_closed");
+      case "propose_resolution":
+        return t("activity.resolution_proposed");
+      case "reject_resolution":
+        return t("activity.resolution_rejected");
+      case "reverse":
+        return t("activity.resolution_reversed");
       default:
         return action;
     }
@@ -86,9 +102,11 @@ export function ActivityFeed({ activity }: ActivityFeedProps) {
                 <>
                   <div className="flex items-center gap-2.5">
                     <div className={`p-1.5 rounded-lg ${
-                      item.outcome === "yes" ? "bg-emerald-500/15" : "bg-red-500/15"
+                      isMulti ? "bg-sky-500/15" : item.outcome === "yes" ? "bg-emerald-500/15" : "bg-red-500/15"
                     }`}>
-                      {item.outcome === "yes" ? (
+                      {isMulti ? (
+                        <Plus className="h-3.5 w-3.5 text-sky-400" />
+                      ) : item.outcome === "yes" ? (
                         <TrendingUp className="h-3.5 w-3.5 text-emerald-400" />
                       ) : (
                         <TrendingDown className="h-3.5 w-3.5 text-red-400" />
@@ -98,12 +116,14 @@ export function ActivityFeed({ activity }: ActivityFeedProps) {
                       <Badge
                         variant="outline"
                         className={`px-2 py-0.5 text-xs font-bold w-fit ${
-                          item.outcome === "yes"
+                          isMulti
+                            ? "bg-sky-500/10 text-sky-400 border-sky-500/25"
+                            : item.outcome === "yes"
                             ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/25"
                             : "bg-red-500/10 text-red-400 border-red-500/25"
                         }`}
                       >
-                        {item.outcome?.toUpperCase()}
+                        {sideLabel(item.outcome)}
                       </Badge>
                       <span className="text-muted-foreground text-xs hidden sm:inline">
                         @ {item.odds_at_placement?.toFixed(2)}
@@ -122,6 +142,28 @@ export function ActivityFeed({ activity }: ActivityFeedProps) {
                     </span>
                   </div>
                 </>
+              ) : item.type === "cashout" ? (
+                <>
+                  <div className="flex items-center gap-2.5">
+                    <span className="p-1.5 rounded-lg bg-sky-500/15 text-sky-400">
+                      <Banknote className="h-3.5 w-3.5" />
+                    </span>
+                    <span className="text-muted-foreground font-medium">
+                      {t("activity.cashed_out", { outcome: sideLabel(item.outcome) })}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 sm:gap-4">
+                    <div className="flex items-center gap-1.5 text-foreground font-medium">
+                      <Coins className="h-3.5 w-3.5 text-amber-500" />
+                      <span>{item.proceeds?.toLocaleString()}</span>
+                    </div>
+                    <span className="text-[11px] text-muted-foreground min-w-[50px] text-right">
+                      {formatDistanceToNow(new Date(item.created_at), {
+                        addSuffix: false,
+                      })}
+                    </span>
+                  </div>
+                </>
               ) : (
                 <>
                   <div className="flex items-center gap-2.5">
@@ -12,6 +12,8 @@ import { formatDistanceToNow } from "date-fns";
 import { Separator } from "@/components/ui/separator";
 import { normalizeImpliedProbs } from "./PriceDisplay";
 import { supabase } from "@/integrations/supabase/client";
+import { outcomePrices, quoteBet, quoteOutcomeBet } from "@/lib/marketPricing";
+import { outcomeLabel, sortOutcomes } from "@/lib/marketOutcomes";
 import { useTranslation } from "react-i18next";
 
 interface BetPanelProps {
@@ -25,7 +27,9 @@ const MIN_STAKE = 10;
 
 export function BetPanel({ market, userBalance }: BetPanelProps) {
   const { t } = useTranslation("markets");
-  const [outcome, setOutcome] = useState<"yes" | "no">("yes");
+  const isMulti = market.market_type === "multi";
+  const outcomes = sortOutcomes(market.market_outcomes);
+  const [outcome, setOutcome] = useState<string>(isMulti ? outcomes[0]?.outcome ?? "" : "yes");
   const [stake, setStake] = useState("");
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   const navigate = useNavigate();
@@ -50,12 +54,18 @@ export function BetPanel({ market, userBalance }: BetPanelProps) {
   const stakeNum = Number(stake) || 0;
   const fee = Math.max(MIN_FEE, Math.floor(stakeNum * FEE_RATE));
   const netStake = Math.max(0, stakeNum - fee);
-  const odds = outcome === "yes" ? market.odds_yes : market.odds_no;
-  const potentialPayout = Math.floor(netStake * odds);
+  // Market-maker prices depend on the size of the bet; the server re-prices under lock
+  const quote = isMulti
+    ? quoteOutcomeBet(market.pricing_mode, market.liquidity_b, outcomes, outcome, netStake)
+    : quoteBet(market, outcome as "yes" | "no", netStake);
+  const odds = quote.odds;
+  const potentialPayout = quote.payout;
+  const isFixed = market.pricing_mode === "fixed";
   const potentialProfit = potentialPayout - stakeNum;
 
   // Use normalized probabilities (YES + NO = 100) for consistency
   const { yesPct, noPct } = normalizeImpliedProbs(market.odds_yes, market.odds_no);
+  const prices = isMulti ? outcomePrices(market.pricing_mode, market.liquidity_b, outcomes) : {};
 
   const isValid = stakeNum >= MIN_STAKE && stakeNum <= userBalance;
   const insufficientBalance = stakeNum > userBalance;
@@ -154,9 +164,39 @@ export function BetPanel({ market, userBalance }: BetPanelProps) {
         {/* Outcome Selection with normalized implied % */}
         <div className="space-y-3">
           <Label className="text-sm font-medium text-foreground">{t("bet_panel.choose_outcome")}</Label>
+          {isMulti ? (
           <RadioGroup
             value={outcome}
-            onValueChange={(v) => setOutcome(v as "yes" | "no")}
+            onValueChange={setOutcome}
+            className="grid grid-cols-2 gap-2"
+          >
+            {outcomes.map((o) => (
+              <Label
+                key={o.outcome}
+                htmlFor={`outcome-${o.outcome}`}
+                className={`flex flex-col items-center justify-center p-3 rounded-xl border-2 cursor-pointer transition-all duration-200 ${
+                  outcome === o.outcome
+                    ? "border-primary bg-primary/10 shadow-lg shadow-primary/10"
+                    : "border-border/50 hover:border-primary/50 hover:bg-primary/5"
+                }`}
+              >
+                <RadioGroupItem value={o.outcome} id={`outcome-${o.outcome}`} className="sr-only" />
+                <span className={`text-xs font-bold text-center truncate max-w-full ${outcome === o.outcome ? "text-primary" : "text-foreground"}`}>
+                  {o.label}
+                </span>
+                <span className={`text-lg font-bold mt-0.5 ${outcome === o.outcome ? "text-primary" : "text-muted-foreground"}`}>
+                  {Math.round((prices[o.outcome] ?? 0) * 100)}%
+                </span>
+                <span className="text-[10px] text-muted-foreground">
+                  @ {Number(o.odds).toFixed(2)}
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+          ) : (
+          <RadioGroup
+            value={outcome}
+            onValueChange={setOutcome}
             className="grid grid-cols-2 gap-3"
           >
             <Label
@@ -196,6 +236,7 @@ export function BetPanel({ market, userBalance }: BetPanelProps) {
               </span>
             </Label>
           </RadioGroup>
+          )}
         </div>
 
         {/* Stake Input */}
@@ -252,8 +293,15 @@ export function BetPanel({ market, userBalance }: BetPanelProps) {
               <span className="font-medium">{netStake.toLocaleString()} {t("bet_dialog.coins")}</span>
             </div>
             <div className="flex items-center justify-between text-sm">
-              <span className="text-muted-foreground">{t("bet_dialog.odds")}</span>
-              <span className="font-medium">@ {odds.toFixed(2)}</span>
+              <span className="text-muted-foreground">
+                {isFixed ? t("bet_dialog.odds") : t("bet_panel.average_price")}
+              </span>
+              <span className="font-medium">
+                @ {odds.toFixed(2)}
+                {!isFixed && potentialPayout > 0 && (
+                  <span className="text-muted-foreground ml-1">({Math.round((netStake / potentialPayout) * 100)}¢)</span>
+                )}
+              </span>
             </div>
             <Separator className="my-2" />
             <div className="flex items-center justify-between">
@@ -281,7 +329,9 @@ export function BetPanel({ market, userBalance }: BetPanelProps) {
           onClick={handleSubmit}
           disabled={!isValid || placeBet.isPending}
           className={`w-full h-12 font-semibold text-base shadow-lg transition-all duration-200 ${
-            outcome === "yes"
+            isMulti
+              ? "shadow-primary/20"
+              : outcome === "yes"
               ? "bg-emerald-600 hover:bg-emerald-500 shadow-emerald-600/20"
               : "bg-red-600 hover:bg-red-500 shadow-red-600/20"
           }`}
@@ -291,12 +341,12 @@ export function BetPanel({ market, userBalance }: BetPanelProps) {
           ) : (
             <Target className="h-4 w-4 mr-2" />
           )}
-          {t("bet_dialog.place_bet_on", { outcome: outcome.toUpperCase() })}
+          {t("bet_dialog.place_bet_on", { outcome: isMulti ? outcomeLabel(outcomes, outcome) : outcome.toUpperCase() })}
         </Button>
 
-        {/* Fixed odds disclaimer */}
+        {/* Pricing disclaimer */}
         <p className="text-[10px] text-center text-muted-foreground/70 leading-tight">
-          {t("bet_panel.fixed_odds_disclaimer")}
+          {t(`bet_panel.${market.pricing_mode === "fixed" ? "fixed_odds" : market.pricing_mode}_disclaimer`)}
         </p>
       </CardContent>
     </Card>
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { AlertCircle, Banknote, Loader2, Minus } from "lucide-react";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { Position, useCashOut, useCashOutQuote } from "@/hooks/useMarkets";
+
+interface CashOutDialogProps {
+  position: Position;
+}
+
+const FRACTIONS = [0.25, 0.5, 0.75, 1];
+
+export function CashOutDialog({ position }: CashOutDialogProps) {
+  const { t } = useTranslation("markets");
+  const [open, setOpen] = useState(false);
+  const [fraction, setFraction] = useState(1);
+
+  // Quote only while the dialog is open; the sell re-prices under lock
+  const { data: quote, isLoading, error } = useCashOutQuote(open ? position.id : null, fraction);
+  const cashOut = useCashOut();
+
+  const handleConfirm = async () => {
+    try {
+      const result = await cashOut.mutateAsync({ position_id: position.id, fraction });
+      toast.success(t("cash_out.success", { proceeds: result.sale.proceeds }));
+      setOpen(false);
+      setFraction(1);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : "Failed to cash out");
+    }
+  };
+
+  const profit = quote ? quote.proceeds - Math.round(position.stake * (quote.net_stake / position.net_stake)) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="h-6 px-2 text-[11px]">
+          <Banknote className="h-3 w-3 mr-1" />
+          {t("cash_out.button")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {t("cash_out.title", { outcome: position.outcome.toUpperCase() })}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-2">
+            {FRACTIONS.map((f) => (
+              <Button
+                key={f}
+                size="sm"
+                variant={fraction === f ? "secondary" : "outline"}
+                onClick={() => setFraction(f)}
+              >
+                {f === 1 ? t("cash_out.all") : `${f * 100}%`}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2 p-3 rounded-xl bg-muted/30 border border-border/30 text-sm">
+            {isLoading ? (
+              <div className="flex justify-center py-3">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <div className="flex items-center gap-2 text-red-400">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <span>{error instanceof Error ? error.message : "Quote unavailable"}</span>
+              </div>
+            ) : quote ? (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{t("cash_out.claim")}</span>
+                  <span className="font-medium">{quote.claim.toLocaleString()} {t("bet_dialog.coins")}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{t("cash_out.value")}</span>
+                  <span className="font-medium">{quote.value.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{t("bet_dialog.fee", { percent: "2" })}</span>
+                  <span className="font-medium text-red-400 flex items-center gap-1">
+                    <Minus className="h-3 w-3" />
+                    {quote.fee}
+                  </span>
+                </div>
+                <Separator className="my-1" />
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{t("cash_out.you_receive")}</span>
+                  <div className="text-right">
+                    <span className="text-lg font-bold text-emerald-400">{quote.proceeds.toLocaleString()}</span>
+                    <span className={`text-xs ml-1 ${profit >= 0 ? "text-emerald-400/80" : "text-red-400/80"}`}>
+                      ({profit >= 0 ? "+" : ""}{profit.toLocaleString()})
+                    </span>
+                  </div>
+                </div>
+              </>
+            ) : null}
+          </div>
+
+          <p className="text-[10px] text-muted-foreground/70 leading-tight">{t("cash_out.disclaimer")}</p>
+
+          <Button
+            className="w-full"
+            onClick={handleConfirm}
+            disabled={!quote || quote.proceeds <= 0 || cashOut.isPending}
+          >
+            {cashOut.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("cash_out.confirm")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import { MarketWithFixture } from "@/hooks/useMarketDetail";
 import { formatDistanceToNow, format } from "date-fns";
 import { PriceDisplay, normalizeImpliedProbs } from "./PriceDisplay";
 import { useTranslation } from "react-i18next";
+import { outcomeLabel, sortOutcomes } from "@/lib/marketOutcomes";
 
 interface MarketHeaderProps {
   market: MarketWithFixture;
@@ -22,9 +23,17 @@ export function MarketHeader({ market }: MarketHeaderProps) {
     ? formatDistanceToNow(closesAt, { addSuffix: true })
     : format(closesAt, "MMM d, yyyy HH:mm");
 
+  // Market-maker prices move with each bet; show the move since open
+  const isAmm = market.pricing_mode === "lmsr" || market.pricing_mode === "parimutuel";
+
   // Get normalized implied probabilities
   const { yesPct, noPct } = normalizeImpliedProbs(market.odds_yes, market.odds_no);
 
+  // Multi-outcome markets: one tile per outcome, implied % normalized over all of them
+  const isMulti = market.market_type === "multi";
+  const outcomes = sortOutcomes(market.market_outcomes);
+  const inverseSum = outcomes.reduce((sum, o) => sum + 1 / o.odds, 0);
+
   // Get translated resolution rule label
   const getResolutionRuleLabel = (rule: string | null) => {
     if (!rule) return null;
@@ -34,6 +43,14 @@ export function MarketHeader({ market }: MarketHeaderProps) {
   };
 
   const getStatusBadge = () => {
+    if (isResolved && market.winning_outcome && isMulti) {
+      return (
+        <Badge variant="outline" className="bg-emerald-500/20 text-emerald-400 border-emerald-500/40 font-medium">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          {outcomeLabel(outcomes, market.winning_outcome)} {t("card.won")}
+        </Badge>
+      );
+    }
     if (isResolved && market.winning_outcome) {
       const isYesWon = market.winning_outcome === "yes";
       return (
@@ -104,10 +121,45 @@ export function MarketHeader({ market }: MarketHeaderProps) {
           </p>
         )}
 
+        {/* Outcome prices (multi-outcome markets) */}
+        {isMulti ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {outcomes.map((o) => {
+              const isWinner = isResolved && market.winning_outcome === o.outcome;
+              return (
+                <div
+                  key={o.outcome}
+                  className={`rounded-xl border p-3 ${
+                    isWinner ? "border-emerald-500/40 bg-emerald-500/10" : "border-border/40 bg-muted/30"
+                  }`}
+                >
+                  <div className="text-xs text-muted-foreground font-medium truncate">{o.label}</div>
+                  <div className="flex items-baseline justify-between gap-2 mt-1">
+                    <span className="text-lg font-bold text-foreground tabular-nums">{Number(o.odds).toFixed(2)}</span>
+                    <span className="text-xs text-muted-foreground tabular-nums">
+                      {inverseSum > 0 ? Math.round((1 / o.odds / inverseSum) * 100) : 0}%
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+        <>
         {/* Prominent YES/NO Price Display (Polymarket-style) */}
         <div className="grid grid-cols-2 gap-4">
-          <PriceDisplay odds={market.odds_yes} outcome="yes" size="md" />
-          <PriceDisplay odds={market.odds_no} outcome="no" size="md" />
+          <PriceDisplay
+            odds={market.odds_yes}
+            outcome="yes"
+            size="md"
+            openingPrice={isAmm ? market.initial_price_yes : undefined}
+          />
+          <PriceDisplay
+            odds={market.odds_no}
+            outcome="no"
+            size="md"
+            openingPrice={isAmm ? 1 - market.initial_price_yes : undefined}
+          />
         </div>
 
         {/* Implied Probability Bar */}
@@ -131,6 +183,8 @@ export function MarketHeader({ market }: MarketHeaderProps) {
             />
           </div>
         </div>
+        </>
+        )}
 
         {/* Fixture Info */}
         {market.fixture && (
@@ -17,6 +17,9 @@ export function OddsChart({ data, resolvedAt }: OddsChartProps) {
   const [timeRange, setTimeRange] = useState<TimeRange>("ALL");
   
   const hasData = data.length > 0;
+  // Price history moves in steps at each fill; pool share is an hourly series
+  const isPriceHistory = data[0]?.source === "price";
+  const seriesLabel = isPriceHistory ? "YES Price" : "YES Share";
 
   const resolvedTimestamp = resolvedAt
     ? new Date(resolvedAt).getTime()
@@ -55,7 +58,7 @@ export function OddsChart({ data, resolvedAt }: OddsChartProps) {
         <div className="flex items-center justify-between">
           <CardTitle className="text-base flex items-center gap-2 font-semibold">
             <TrendingUp className="h-4 w-4 text-primary" />
-            YES Share of Pool
+            {isPriceHistory ? "YES Price" : "YES Share of Pool"}
           </CardTitle>
           <div className="flex gap-1">
             {timeRanges.map((range) => (
@@ -122,12 +125,12 @@ export function OddsChart({ data, resolvedAt }: OddsChartProps) {
                     padding: "10px 14px",
                     boxShadow: "0 10px 25px -5px rgba(0, 0, 0, 0.3)",
                   }}
-                  formatter={(value: number) => [`${value}%`, "YES Share"]}
+                  formatter={(value: number) => [`${value}%`, seriesLabel]}
                   labelFormatter={(label) => label}
                   labelStyle={{ color: 'hsl(var(--muted-foreground))', marginBottom: '4px' }}
                 />
                 <Area
-                  type="monotone"
+                  type={isPriceHistory ? "stepAfter" : "monotone"}
                   dataKey="yes_percent"
                   stroke="hsl(var(--primary))"
                   strokeWidth={2.5}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { PieChart } from "lucide-react";
+import { MarketAggregates } from "@/hooks/useMarketDetail";
+import { MarketOutcome } from "@/hooks/useMarkets";
+import { sortOutcomes } from "@/lib/marketOutcomes";
+
+interface OutcomeDistributionProps {
+  aggregates: MarketAggregates | null | undefined;
+  outcomes: MarketOutcome[] | undefined;
+  winningOutcome?: string | null;
+}
+
+// Bar colours cycle for markets with many outcomes
+const BAR_COLORS = [
+  "from-emerald-600 to-emerald-400",
+  "from-sky-600 to-sky-400",
+  "from-amber-600 to-amber-400",
+  "from-violet-600 to-violet-400",
+  "from-rose-600 to-rose-400",
+  "from-teal-600 to-teal-400",
+];
+
+export function OutcomeDistribution({ aggregates, outcomes, winningOutcome }: OutcomeDistributionProps) {
+  const [showByStake, setShowByStake] = useState(true);
+
+  const rows = sortOutcomes(outcomes).map((o) => {
+    const entry = aggregates?.by_outcome?.[o.outcome];
+    return { ...o, value: showByStake ? entry?.stake ?? 0 : entry?.positions ?? 0 };
+  });
+  const total = rows.reduce((sum, r) => sum + r.value, 0);
+  const unit = showByStake ? "coins" : "votes";
+
+  return (
+    <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
+      <CardHeader className="pb-3 pt-5 px-5">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            <PieChart className="h-4 w-4 text-primary" />
+            Distribution
+          </CardTitle>
+          <div className="flex items-center gap-2 bg-muted/50 rounded-full px-3 py-1.5">
+            <Label
+              htmlFor="outcome-stake-toggle"
+              className={`text-xs cursor-pointer transition-colors ${!showByStake ? 'text-foreground font-medium' : 'text-muted-foreground'}`}
+            >
+              Votes
+            </Label>
+            <Switch
+              id="outcome-stake-toggle"
+              checked={showByStake}
+              onCheckedChange={setShowByStake}
+              className="data-[state=checked]:bg-primary data-[state=unchecked]:bg-muted-foreground/30"
+            />
+            <Label
+              htmlFor="outcome-stake-toggle"
+              className={`text-xs cursor-pointer transition-colors ${showByStake ? 'text-foreground font-medium' : 'text-muted-foreground'}`}
+            >
+              Stake
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-5 pb-5 space-y-3">
+        {rows.map((row, i) => {
+          // Even split until the first bet, like the YES/NO bars
+          const percent = total > 0 ? (row.value / total) * 100 : 100 / rows.length;
+          const isWinner = winningOutcome === row.outcome;
+          return (
+            <div key={row.outcome} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`text-sm font-semibold truncate ${isWinner ? 'text-emerald-500' : ''}`}>
+                  {row.label}
+                  {isWinner && " ✓"}
+                </span>
+                <div className="text-sm flex-shrink-0">
+                  <span className="font-bold text-foreground">{row.value.toLocaleString()}</span>
+                  <span className="text-muted-foreground ml-1">{unit}</span>
+                  <span className="text-muted-foreground ml-1.5">({percent.toFixed(1)}%)</span>
+                </div>
+              </div>
+              <div className="h-2.5 bg-muted/60 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-gradient-to-r ${BAR_COLORS[i % BAR_COLORS.length]} rounded-full transition-all duration-500 ease-out`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Summary */}
+        <div className="pt-3 border-t border-border/50 flex items-center justify-between text-xs text-muted-foreground">
+          <span>{showByStake ? "Distribution by stake amount" : "Distribution by vote count"}</span>
+          <span className="font-medium">
+            Total: {total.toLocaleString()} {unit}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,16 +5,19 @@ interface PriceDisplayProps {
   outcome: "yes" | "no";
   size?: "sm" | "md" | "lg";
   showOdds?: boolean;
+  /** Opening implied probability (0..1); shows the move since open when set */
+  openingPrice?: number;
 }
 
 /**
  * Displays implied probability as "price" in cents (Polymarket-style)
  * p = 1/odds, displayed as cents (e.g., 56¢ = 56% implied probability)
  */
-export function PriceDisplay({ odds, outcome, size = "md", showOdds = true }: PriceDisplayProps) {
+export function PriceDisplay({ odds, outcome, size = "md", showOdds = true, openingPrice }: PriceDisplayProps) {
   // Calculate implied probability: p = 1/odds
   const impliedProb = 1 / odds;
   const priceInCents = Math.round(impliedProb * 100);
+  const changeInCents = openingPrice === undefined ? null : priceInCents - Math.round(openingPrice * 100);
   
   const isYes = outcome === "yes";
   const Icon = isYes ? TrendingUp : TrendingDown;
@@ -63,6 +66,11 @@ export function PriceDisplay({ odds, outcome, size = "md", showOdds = true }: Pr
           @ {odds.toFixed(2)} odds
         </span>
       )}
+      {changeInCents !== null && changeInCents !== 0 && (
+        <span className={`${classes.odds} mt-0.5 font-medium ${changeInCents > 0 ? "text-emerald-400" : "text-red-400"}`}>
+          {changeInCents > 0 ? "▲" : "▼"} {Math.abs(changeInCents)}¢ since open
+        </span>
+      )}
     </div>
   );
 }
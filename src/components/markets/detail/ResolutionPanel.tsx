@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { Gavel, Flag, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Market } from "@/hooks/useMarkets";
+import {
+  ResolutionLogEntry,
+  useDisputeResolution,
+  useMyDispute,
+  useResolutionLog,
+  useResolutionProposal,
+} from "@/hooks/useMarketResolution";
+import {
+  DISPUTE_REASON_MAX,
+  ResolutionEvidence,
+  canDispute,
+  evidenceScore,
+  evidenceStats,
+  isValidDisputeReason,
+  resolutionPhase,
+} from "@/lib/marketResolution";
+import { outcomeLabel } from "@/lib/marketOutcomes";
+
+interface ResolutionPanelProps {
+  market: Market;
+  /** Whether the viewer holds a position (only they can dispute) */
+  hasPosition: boolean;
+}
+
+const PHASE_STYLES = {
+  challenge: "bg-amber-500/15 text-amber-600 border-amber-500/30",
+  settling: "bg-primary/15 text-primary border-primary/30",
+  review: "bg-red-500/15 text-red-600 border-red-500/30",
+  settled: "bg-green-500/15 text-green-600 border-green-500/30",
+} as const;
+
+export function ResolutionPanel({ market, hasPosition }: ResolutionPanelProps) {
+  const { t } = useTranslation("markets");
+  const [reason, setReason] = useState("");
+
+  const { data: proposal } = useResolutionProposal(market.id);
+  const { data: log } = useResolutionLog(market.id);
+  const { data: myDispute } = useMyDispute(proposal?.id);
+  const dispute = useDisputeResolution();
+
+  if (!proposal && !log?.length) return null;
+
+  const phase = resolutionPhase(proposal);
+  const label = (outcome: string | null) =>
+    outcome === null
+      ? t("resolution.void")
+      : market.market_type === "multi"
+        ? outcomeLabel(market.market_outcomes, outcome)
+        : outcome.toUpperCase();
+
+  const handleDispute = async () => {
+    if (!proposal) return;
+    try {
+      await dispute.mutateAsync({ proposal_id: proposal.id, reason });
+      toast.success(t("resolution.dispute_sent"));
+      setReason("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to dispute resolution");
+    }
+  };
+
+  return (
+    <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
+      <CardHeader className="pb-3 pt-5 px-5">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2 font-semibold">
+            <Gavel className="h-4 w-4 text-primary" />
+            {t("resolution.title")}
+          </CardTitle>
+          {phase && (
+            <Badge variant="outline" className={PHASE_STYLES[phase]}>
+              {t(`resolution.phase_${phase}`)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="px-5 pb-5 space-y-4">
+        {/* Live proposal */}
+        {proposal && (phase === "challenge" || phase === "settling" || phase === "review") && (
+          <div className="rounded-xl border border-border/50 bg-muted/20 p-3 space-y-2 text-sm">
+            <p className="font-medium">{t("resolution.proposed_outcome", { outcome: label(proposal.proposed_outcome) })}</p>
+            <Evidence evidence={proposal.evidence} />
+            {phase === "challenge" && (
+              <p className="text-xs text-muted-foreground">
+                {t("resolution.challenge_ends", {
+                  time: formatDistanceToNow(new Date(proposal.challenge_ends_at), { addSuffix: true }),
+                })}
+              </p>
+            )}
+
+            {myDispute ? (
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                <Flag className="h-3 w-3" />
+                {t("resolution.you_disputed")}
+              </p>
+            ) : (
+              canDispute(proposal, hasPosition, false) && (
+                <div className="space-y-2 pt-1">
+                  <Textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={t("resolution.dispute_placeholder")}
+                    maxLength={DISPUTE_REASON_MAX}
+                    className="min-h-[64px] text-sm"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleDispute}
+                    disabled={!isValidDisputeReason(reason) || dispute.isPending}
+                  >
+                    {dispute.isPending ? (
+                      <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                    ) : (
+                      <Flag className="h-3.5 w-3.5 mr-1.5" />
+                    )}
+                    {t("resolution.dispute_submit")}
+                  </Button>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Public history */}
+        {!!log?.length && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {t("resolution.history")}
+            </h4>
+            <ol className="space-y-2">
+              {log.map((entry) => (
+                <LogRow key={entry.id} entry={entry} label={label} />
+              ))}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LogRow({ entry, label }: { entry: ResolutionLogEntry; label: (outcome: string | null) => string }) {
+  const { t } = useTranslation("markets");
+
+  return (
+    <li className="border-l-2 border-border/60 pl-3 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">
+          {t(`resolution.event_${entry.event}`, {
+            outcome: label(entry.outcome),
+            previous: label(entry.previous_outcome),
+          })}
+        </span>
+        {entry.is_system && <span className="text-xs text-muted-foreground">{t("resolution.by_system")}</span>}
+        <span className="ml-auto text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+        </span>
+      </div>
+      {entry.event === "proposed" && <Evidence evidence={entry.evidence} />}
+      {entry.note && <p className="text-xs text-muted-foreground mt-0.5">“{entry.note}”</p>}
+    </li>
+  );
+}
+
+/** Score and stat lines the outcome was derived from */
+function Evidence({ evidence }: { evidence: ResolutionEvidence }) {
+  const { t } = useTranslation("markets");
+  const score = evidenceScore(evidence);
+  const stats = evidenceStats(evidence).filter((s) => s.stat !== "goals");
+
+  if (!score && !evidence.admin_note) return null;
+
+  return (
+    <div className="text-xs text-muted-foreground space-y-0.5">
+      {score && <p>{t("resolution.score", { score })}</p>}
+      {stats.length > 0 && (
+        <p>
+          {stats.map((s) => `${t(`resolution.stat_${s.stat}`)} ${s.home}–${s.away}`).join(" · ")}
+        </p>
+      )}
+      {evidence.first_goal_team && (
+        <p>{t("resolution.first_goal", { team: t(`resolution.team_${evidence.first_goal_team}`) })}</p>
+      )}
+      {evidence.admin_note && <p>“{evidence.admin_note}”</p>}
+    </div>
+  );
+}
@@ -7,9 +7,11 @@ import { useTranslation } from "react-i18next";
 interface StatsBarProps {
   aggregates: MarketAggregates | null | undefined;
   isLoading?: boolean;
+  /** YES/NO pool cards; off for multi-outcome markets */
+  showSides?: boolean;
 }
 
-export function StatsBar({ aggregates, isLoading }: StatsBarProps) {
+export function StatsBar({ aggregates, isLoading, showSides = true }: StatsBarProps) {
   const { t } = useTranslation("markets");
 
   if (isLoading) {
@@ -35,7 +37,7 @@ export function StatsBar({ aggregates, isLoading }: StatsBarProps) {
   // Normalize so yesPct + noPct = 100
   const normalizedNoPct = 100 - yesPct;
 
-  const stats = [
+  const baseStats = [
     {
       label: t("stats.total_pool"),
       value: totalPool,
@@ -58,6 +60,10 @@ export function StatsBar({ aggregates, isLoading }: StatsBarProps) {
       iconBg: "bg-primary/15",
       iconColor: "text-primary",
     },
+  ];
+
+  const stats = !showSides ? baseStats : [
+    ...baseStats,
     {
       label: t("stats.yes_pool"),
       value: yesStake,
@@ -77,7 +83,7 @@ export function StatsBar({ aggregates, isLoading }: StatsBarProps) {
   ];
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+    <div className={`grid grid-cols-2 ${showSides ? "lg:grid-cols-5" : "lg:grid-cols-3"} gap-3`}>
       {stats.map((stat) => {
         const IconComponent = stat.icon;
         return (
@@ -3,10 +3,12 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Coins, TrendingUp, TrendingDown, CheckCircle, XCircle, Clock, AlertCircle, DollarSign, LogIn } from "lucide-react";
+import { Coins, TrendingUp, TrendingDown, CheckCircle, XCircle, Clock, AlertCircle, DollarSign, LogIn, Banknote } from "lucide-react";
 import { Position, Market } from "@/hooks/useMarkets";
 import { supabase } from "@/integrations/supabase/client";
 import { useTranslation } from "react-i18next";
+import { CashOutDialog } from "./CashOutDialog";
+import { outcomeLabel } from "@/lib/marketOutcomes";
 
 interface YourPositionProps {
   positions: Position[];
@@ -95,9 +97,12 @@ export function YourPosition({ positions, market }: YourPositionProps) {
     .filter((p) => p.status === "pending")
     .reduce((sum, p) => sum + p.potential_payout, 0);
 
+  // Coins already received from cash-outs (full or partial)
+  const totalCashedOut = positions.reduce((sum, p) => sum + (p.cashout_amount || 0), 0);
+
   const totalSettledPayout = positions
     .filter((p) => p.status === "won")
-    .reduce((sum, p) => sum + (p.payout_amount || 0), 0);
+    .reduce((sum, p) => sum + (p.payout_amount || 0), 0) + totalCashedOut;
 
   const avgYesOdds = yesPositions.length > 0
     ? yesPositions.reduce((sum, p) => sum + p.odds_at_placement * p.net_stake, 0) /
@@ -112,7 +117,10 @@ export function YourPosition({ positions, market }: YourPositionProps) {
   // P/L calculation for resolved markets
   const isResolved = market.status === "resolved";
   const realizedPL = isResolved ? totalSettledPayout - totalStaked : 0;
-  const unrealizedPL = !isResolved ? totalPotentialPayout - totalStaked : 0;
+  const unrealizedPL = !isResolved ? totalPotentialPayout + totalCashedOut - totalStaked : 0;
+  // Cash-out is priced for YES/NO markets only
+  const isMulti = market.market_type === "multi";
+  const canCashOut = !isMulti && market.status === "open" && new Date(market.closes_at) > new Date();
 
   const statusStyles: Record<string, { bg: string; text: string; icon: React.ReactNode }> = {
     pending: { 
@@ -135,6 +143,11 @@ export function YourPosition({ positions, market }: YourPositionProps) {
       text: "text-muted-foreground",
       icon: <Coins className="h-3 w-3" />
     },
+    cashed_out: {
+      bg: "bg-sky-500/15",
+      text: "text-sky-400",
+      icon: <Banknote className="h-3 w-3" />
+    },
   };
 
   return (
@@ -228,12 +241,14 @@ export function YourPosition({ positions, market }: YourPositionProps) {
                     <Badge
                       variant="outline"
                       className={`px-2 py-0.5 text-xs font-medium ${
-                        pos.outcome === "yes"
+                        isMulti
+                          ? "bg-sky-500/15 text-sky-400 border-sky-500/30"
+                          : pos.outcome === "yes"
                           ? "bg-emerald-500/15 text-emerald-400 border-emerald-500/30"
                           : "bg-red-500/15 text-red-400 border-red-500/30"
                       }`}
                     >
-                      {pos.outcome.toUpperCase()}
+                      {isMulti ? outcomeLabel(market.market_outcomes, pos.outcome) : pos.outcome.toUpperCase()}
                     </Badge>
                     <span className="text-muted-foreground text-xs">
                       @ {pos.odds_at_placement.toFixed(2)}
@@ -248,9 +263,12 @@ export function YourPosition({ positions, market }: YourPositionProps) {
                           ? `+${pos.payout_amount}`
                           : pos.status === "pending"
                           ? `→ ${pos.potential_payout}`
+                          : pos.status === "cashed_out"
+                          ? `${t("positions.cashed_out")} ${pos.cashout_amount}`
                           : t(`positions.${pos.status}`)}
                       </span>
                     </Badge>
+                    {pos.status === "pending" && canCashOut && <CashOutDialog position={pos} />}
                   </div>
                 </div>
               );
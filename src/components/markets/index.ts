@@ -4,4 +4,5 @@ export { EnhancedMarketCard, LeagueSection } from "./EnhancedMarketCard";
 export { MarketsFilterBar, QuickLeagueChips } from "./MarketsFilterBar";
 export { PlaceBetDialog } from "./PlaceBetDialog";
 export { LeaderboardPanel } from "./LeaderboardPanel";
+export { SeasonLeaderboards } from "./SeasonLeaderboards";
 export { AdminMarketControls } from "./AdminMarketControls";
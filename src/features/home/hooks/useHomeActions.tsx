@@ -88,6 +88,7 @@ export function useHomeActions(state: any) {
 
       setAnalysis({
         ...analysisData,
+        fixture_id: fixture.id,
         home: { ...analysisData.home, name: fixture.teams_home?.name, logo: fixture.teams_home?.logo },
         away: { ...analysisData.away, name: fixture.teams_away?.name, logo: fixture.teams_away?.logo },
         injuries: analysisData.injuries || { home: [], away: [] },
@@ -212,13 +213,17 @@ export function useHomeActions(state: any) {
       }
 
       const ticketData = {
+        ticket_id: data.ticket.ticket_id ?? null,
         mode: params.risk || "ai",
         legs: data.ticket.legs.map((leg: any) => ({
           fixture_id: leg.fixtureId, home_team: leg.homeTeam, away_team: leg.awayTeam,
           pick: leg.selection, market: leg.market, odds: leg.odds, bookmaker: leg.bookmaker,
+          league_id: leg._leagueId, kickoff: leg.start, side: leg.side, line: leg.line, model_prob: leg.modelProb,
         })),
         total_odds: data.ticket.total_odds,
         estimated_win_prob: data.ticket.estimated_win_prob || null,
+        model_win_prob: data.ticket.model_win_prob ?? null,
+        correlation_adjusted_win_prob: data.ticket.correlation_adjusted_win_prob ?? null,
         target_min: params.targetMin, target_max: params.targetMax,
         within_band: data.within_band !== false,
         used_live: data.used_live, fallback_to_prematch: data.fallback_to_prematch,
@@ -352,6 +357,9 @@ export function useHomeActions(state: any) {
           includeModelOnly: filters.includeModelOnly ?? true,
           allLeagues: filters.allLeagues ?? false,
           dayRange: filters.dayRange ?? "all",
+          sortBy: filters.sortBy ?? "odds",
+          lineMovement: filters.lineMovement ?? "any",
+          live: filters.live ?? false,
           limit: 50, offset: 0,
           countryCode: filters.allLeagues ? undefined : (selectedCountry && selectedCountry !== 0 ? actualCountries.find((c: any) => c.id === selectedCountry)?.code : undefined),
           leagueIds: filters.allLeagues ? undefined : (selectedLeague ? [selectedLeague.id] : undefined),
@@ -386,6 +394,9 @@ export function useHomeActions(state: any) {
           includeModelOnly: filterCriteria.includeModelOnly ?? true,
           allLeagues: filterCriteria.allLeagues ?? false,
           dayRange: filterCriteria.dayRange ?? "all",
+          sortBy: filterCriteria.sortBy ?? "odds",
+          lineMovement: filterCriteria.lineMovement ?? "any",
+          live: filterCriteria.live ?? false,
           limit: 50, offset: newOffset,
           countryCode: filterCriteria.allLeagues ? undefined : (selectedCountry && selectedCountry !== 0 ? actualCountries.find((c: any) => c.id === selectedCountry)?.code : undefined),
           leagueIds: filterCriteria.allLeagues ? undefined : (selectedLeague ? [selectedLeague.id] : undefined),
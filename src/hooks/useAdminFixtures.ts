@@ -1,5 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { PricingMode } from "@/lib/marketPricing";
+import type { MultiResolutionRule, OutcomeDraft } from "@/lib/marketOutcomes";
 
 export interface Country {
   id: number;
@@ -174,3 +177,41 @@ export function useCreateMarketFromFixture() {
     },
   });
 }
+
+// Create a multi-outcome market (1X2, correct score, ranges…) from a fixture
+export function useCreateMultiMarketFromFixture() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      fixture_id: number;
+      resolution_rule: MultiResolutionRule;
+      outcomes: OutcomeDraft[];
+      pricing_mode?: PricingMode;
+      liquidity_b?: number;
+      close_minutes_before_kickoff?: number;
+      title_override?: string;
+    }) => {
+      const { data, error } = await supabase.rpc("admin_create_multi_market_for_fixture", {
+        _fixture_id: params.fixture_id,
+        _resolution_rule: params.resolution_rule,
+        _outcomes: params.outcomes as unknown as Json,
+        _pricing_mode: params.pricing_mode ?? "fixed",
+        _liquidity_b: params.pricing_mode && params.pricing_mode !== "fixed" ? params.liquidity_b ?? null : null,
+        _close_minutes_before_kickoff: params.close_minutes_before_kickoff ?? 5,
+        _title_override: params.title_override ?? null,
+      });
+
+      if (error) throw error;
+
+      const result = data as { ok: boolean; error?: string; market_id?: string; title?: string; status?: string };
+      if (!result.ok) {
+        throw new Error(result.error || "Failed to create market");
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["markets"] });
+    },
+  });
+}
@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Markets priced by the pace model (see _shared/basketball_model.ts) */
+export type BasketballProjectionMarket =
+  | "total"
+  | "home_total"
+  | "away_total"
+  | "spread"
+  | "moneyline"
+  | "h1_total"
+  | "q1_total"
+  | "q2_total"
+  | "q3_total"
+  | "q4_total";
+
+export interface BasketballMarketQuote {
+  market: BasketballProjectionMarket;
+  line: number;
+  projection: number;
+  // P(over) for totals, P(home covers) for spread, P(home wins) for moneyline
+  prob: number;
+}
+
+/** A synced best price the model beats (see _shared/basketball_odds.ts) */
+export interface BasketballEdge {
+  market: BasketballProjectionMarket;
+  selection: string;
+  line: number;
+  odds: number;
+  bookmaker: string;
+  model_prob: number;
+  // model_prob × odds − 1
+  edge: number;
+}
+
+/** One game as returned by basketball-safe-zone */
+export interface BasketballProjectedGame {
+  game_id: number;
+  league_key: string;
+  league_name: string;
+  date: string;
+  time: string;
+  home_team: string;
+  away_team: string;
+  home_ppg: number;
+  away_ppg: number;
+  home_papg: number;
+  away_papg: number;
+  mu_points: number;
+  book_line: number | null;
+  safe_zone_prob: number;
+  data_quality: "high" | "medium" | "low";
+  pace: number;
+  home_points: number;
+  away_points: number;
+  spread: number;
+  home_win_prob: number;
+  home_rest_days: number | null;
+  away_rest_days: number | null;
+  home_b2b: boolean;
+  away_b2b: boolean;
+  venue_splits: boolean;
+  markets: BasketballMarketQuote[];
+  book_line_source: "book" | "league_avg";
+  edges: BasketballEdge[];
+  best_edge: BasketballEdge | null;
+}
+
+/** "total over 165.5", "spread home -4.5", "moneyline away" */
+export function formatBasketballEdge(e: Pick<BasketballEdge, "market" | "selection" | "line">): string {
+  const market = e.market.replace(/_/g, " ");
+  if (e.market === "moneyline") return `${market} ${e.selection}`;
+  const line = e.market === "spread" && e.line > 0 ? `+${e.line}` : `${e.line}`;
+  return `${market} ${e.selection} ${line}`;
+}
+
+export function useBasketballProjection(gameId: number | null, leagueKey: string | null) {
+  return useQuery({
+    queryKey: ["basketball-projection", gameId, leagueKey],
+    queryFn: async (): Promise<BasketballProjectedGame | null> => {
+      const { data, error } = await supabase.functions.invoke("basketball-safe-zone", {
+        body: { league_key: leagueKey, game_id: gameId },
+      });
+      if (error) throw error;
+      return (data?.games?.[0] as BasketballProjectedGame | undefined) ?? null;
+    },
+    enabled: !!gameId && !!leagueKey,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
+
+/** Every projected game in a league over the next days, keyed by game id */
+export function useBasketballLeagueProjections(leagueKey: string | null, daysAhead = 2) {
+  return useQuery({
+    queryKey: ["basketball-league-projections", leagueKey, daysAhead],
+    queryFn: async (): Promise<Map<number, BasketballProjectedGame>> => {
+      const { data, error } = await supabase.functions.invoke("basketball-safe-zone", {
+        body: { league_key: leagueKey, days_ahead: daysAhead, limit: 200 },
+      });
+      if (error) throw error;
+      const games = (data?.games ?? []) as BasketballProjectedGame[];
+      return new Map(games.map((g) => [g.game_id, g]));
+    },
+    enabled: !!leagueKey,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
@@ -0,0 +1,161 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { JournalBet } from "@/lib/betJournal";
+import type { TicketSport } from "@/lib/ticketLegs";
+
+export interface UserBankroll {
+  starting_bankroll: number;
+  started_at: string;
+}
+
+export interface LogBetLeg {
+  sport?: TicketSport; // football when omitted
+  fixtureId: number;
+  leagueId?: number | null;
+  homeTeam?: string | null;
+  awayTeam?: string | null;
+  kickoff?: string | null;
+  market: string;
+  side: "over" | "under" | "home" | "away" | "draw"; // team sides are hockey / basketball only
+  line: number;
+  odds?: number | null;
+}
+
+export interface LogBetParams {
+  stake: number;
+  bookmaker?: string | null;
+  odds_taken: number;
+  quoted_odds?: number | null;
+  source: "my_ticket" | "ticket_creator" | "manual";
+  mode?: string | null;
+  generated_ticket_id?: string | null;
+  notes?: string | null;
+  legs: LogBetLeg[];
+}
+
+const JOURNAL_SELECT =
+  "id, generated_ticket_id, source, mode, stake, bookmaker, odds_taken, quoted_odds, notes, status, payout, profit, placed_at, settled_at, " +
+  "legs:bet_journal_legs(id, sport, fixture_id, league_id, home_team, away_team, kickoff_at, market, side, line, odds, result_status, actual_value)";
+
+// Fetch the user's placed bets (newest first)
+export function useBetJournal(limit = 500) {
+  return useQuery({
+    queryKey: ["bet-journal", limit],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("bet_journal")
+        .select(JOURNAL_SELECT)
+        .eq("user_id", user.id)
+        .order("placed_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data ?? []) as unknown as JournalBet[];
+    },
+  });
+}
+
+// Fetch the user's starting bankroll
+export function useBankroll() {
+  return useQuery({
+    queryKey: ["bankroll"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from("user_bankrolls")
+        .select("starting_bankroll, started_at")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as UserBankroll | null;
+    },
+  });
+}
+
+export function useSetBankroll() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (startingBankroll: number) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Sign in to track your bankroll");
+
+      const { error } = await supabase
+        .from("user_bankrolls")
+        .upsert({ user_id: user.id, starting_bankroll: startingBankroll }, { onConflict: "user_id" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bankroll"] });
+    },
+  });
+}
+
+// Mark a ticket as placed: one bet_journal row plus its legs
+export function useLogBet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ legs, ...bet }: LogBetParams) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Sign in to use the bet journal");
+
+      const { data: inserted, error } = await supabase
+        .from("bet_journal")
+        .insert({ ...bet, user_id: user.id })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      const { error: legsError } = await supabase.from("bet_journal_legs").insert(
+        legs.map((l) => ({
+          bet_id: inserted.id,
+          user_id: user.id,
+          sport: l.sport ?? "football",
+          fixture_id: l.fixtureId,
+          league_id: l.leagueId || null,
+          home_team: l.homeTeam ?? null,
+          away_team: l.awayTeam ?? null,
+          kickoff_at: l.kickoff ?? null,
+          market: l.market,
+          side: l.side,
+          line: l.line,
+          odds: l.odds ?? null,
+        }))
+      );
+
+      if (legsError) {
+        // Don't leave a bet without legs behind
+        await supabase.from("bet_journal").delete().eq("id", inserted.id);
+        throw legsError;
+      }
+
+      return inserted.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bet-journal"] });
+    },
+  });
+}
+
+export function useDeleteBet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (betId: string) => {
+      const { error } = await supabase.from("bet_journal").delete().eq("id", betId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bet-journal"] });
+    },
+  });
+}
@@ -18,6 +18,9 @@ export interface IceEdgeGame {
   iceedge_rank: number | null;
   reasoning: string | null;
   recommended_markets: RecommendedMarket[];
+  factor_breakdown: IceEdgeFactor[];
+  goalies: { home: IceEdgeGoalie | null; away: IceEdgeGoalie | null } | null;
+  model_version: string | null;
   // Joined
   home_team?: { id: number; name: string; short_name: string | null; logo: string | null };
   away_team?: { id: number; name: string; short_name: string | null; logo: string | null };
@@ -29,6 +32,26 @@ export interface RecommendedMarket {
   side: string;
   line?: number;
   reason: string;
+  // Best hockey_odds_cache price at compute time; absent when no book quotes it
+  odds?: number;
+  bookmaker?: string;
+  model_prob?: number;
+}
+
+/** One additive contribution to projected_total (see _shared/hockey_model.ts) */
+export interface IceEdgeFactor {
+  factor: "base" | "recent_form" | "venue" | "h2h" | "special_teams" | "shots" | "home_goalie" | "away_goalie";
+  delta: number;
+  applied: boolean;
+  detail: string;
+}
+
+export interface IceEdgeGoalie {
+  player_id: number;
+  player_name: string;
+  status: "confirmed" | "projected";
+  shots_against: number;
+  saves: number;
 }
 
 async function fetchIceEdge(): Promise<IceEdgeGame[]> {
@@ -37,7 +60,8 @@ async function fetchIceEdge(): Promise<IceEdgeGame[]> {
     .select(`
       game_id, league_id, season, home_team_id, away_team_id, puck_drop,
       projected_total, value_score, chaos_score, ot_risk, p1_heat,
-      regulation_lean, confidence_tier, iceedge_rank, reasoning, recommended_markets
+      regulation_lean, confidence_tier, iceedge_rank, reasoning, recommended_markets,
+      factor_breakdown, goalies, model_version
     `)
     .order("iceedge_rank", { ascending: true, nullsFirst: false });
 
@@ -67,6 +91,7 @@ async function fetchIceEdge(): Promise<IceEdgeGame[]> {
   return data.map((d: any) => ({
     ...d,
     recommended_markets: (d.recommended_markets ?? []) as RecommendedMarket[],
+    factor_breakdown: (d.factor_breakdown ?? []) as IceEdgeFactor[],
     home_team: teamMap.get(d.home_team_id),
     away_team: teamMap.get(d.away_team_id),
     home_league: leagueMap.get(d.league_id),
@@ -10,6 +10,8 @@ export interface MarketAggregates {
   no_stake: number;
   total_pool: number;
   unique_traders: number;
+  /** Positions and net stake per outcome key (all market types) */
+  by_outcome?: Record<string, { positions: number; stake: number }>;
 }
 
 export interface MarketWithFixture extends Market {
@@ -24,11 +26,12 @@ export interface MarketWithFixture extends Market {
 
 export interface ActivityEntry {
   id: string;
-  type: "bet" | "system";
+  type: "bet" | "cashout" | "system";
   created_at: string;
   outcome?: string;
   net_stake?: number;
   odds_at_placement?: number;
+  proceeds?: number;
   action?: string;
   details?: Record<string, unknown>;
 }
@@ -39,6 +42,8 @@ export interface ChartDataPoint {
   yes_percent: number;
   cumulative_yes: number;
   cumulative_no: number;
+  /** "price": YES price from market_price_history; "pool": YES share of net stakes */
+  source: "price" | "pool";
 }
 
 // Fetch market with fixture info
@@ -50,7 +55,7 @@ export function useMarketWithFixture(marketId: string | null) {
 
       const { data: market, error } = await supabase
         .from("prediction_markets")
-        .select("*")
+        .select("*, market_outcomes(*)")
         .eq("id", marketId)
         .single();
 
@@ -108,6 +113,12 @@ export function useMarketAggregates(marketId: string | null) {
         const yes_stake = yesPositions.reduce((sum, p) => sum + (p.net_stake || 0), 0);
         const no_stake = noPositions.reduce((sum, p) => sum + (p.net_stake || 0), 0);
         const uniqueUsers = new Set(positionsData.map((p) => p.user_id));
+        const by_outcome: Record<string, { positions: number; stake: number }> = {};
+        for (const p of positionsData) {
+          const entry = (by_outcome[p.outcome] ??= { positions: 0, stake: 0 });
+          entry.positions += 1;
+          entry.stake += p.net_stake || 0;
+        }
 
         return {
           total_positions: positionsData.length,
@@ -115,8 +126,9 @@ export function useMarketAggregates(marketId: string | null) {
           no_positions: noPositions.length,
           yes_stake,
           no_stake,
-          total_pool: yes_stake + no_stake,
+          total_pool: positionsData.reduce((sum, p) => sum + (p.net_stake || 0), 0),
           unique_traders: uniqueUsers.size,
+          by_outcome,
         } as MarketAggregates;
       }
 
@@ -170,6 +182,16 @@ export function useMarketActivity(marketId: string | null, limit = 50) {
 
       if (posError) throw posError;
 
+      // Fetch cash-outs
+      const { data: sales, error: salesError } = await supabase
+        .from("market_position_sales")
+        .select("id, created_at, outcome, net_stake_sold, proceeds")
+        .eq("market_id", marketId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (salesError) throw salesError;
+
       // Fetch audit log events for this market
       const { data: auditLogs } = await supabase
         .from("admin_market_audit_log")
@@ -187,6 +209,15 @@ export function useMarketActivity(marketId: string | null, limit = 50) {
         odds_at_placement: p.odds_at_placement,
       }));
 
+      const cashOutActivities: ActivityEntry[] = (sales || []).map((sale) => ({
+        id: sale.id,
+        type: "cashout" as const,
+        created_at: sale.created_at,
+        outcome: sale.outcome,
+        net_stake: sale.net_stake_sold,
+        proceeds: sale.proceeds,
+      }));
+
       const systemActivities: ActivityEntry[] = (auditLogs || []).map((log) => ({
         id: log.id,
         type: "system" as const,
@@ -196,7 +227,7 @@ export function useMarketActivity(marketId: string | null, limit = 50) {
       }));
 
       // Merge and sort by time
-      const allActivities = [...betActivities, ...systemActivities].sort(
+      const allActivities = [...betActivities, ...cashOutActivities, ...systemActivities].sort(
         (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
       );
 
@@ -207,12 +238,40 @@ export function useMarketActivity(marketId: string | null, limit = 50) {
 }
 
 // Fetch chart data (YES % over time)
+// Uses the recorded price after every fill; markets without price history
+// (created before pricing moved into place_market_bet) fall back to pool share.
 export function useMarketChart(marketId: string | null) {
   return useQuery({
     queryKey: ["market-chart", marketId],
     queryFn: async () => {
       if (!marketId) return [];
 
+      const { data: history, error: historyError } = await supabase
+        .from("market_price_history")
+        .select("created_at, price_yes, outcome, net_stake")
+        .eq("market_id", marketId)
+        .order("created_at", { ascending: true });
+
+      if (historyError) throw historyError;
+
+      if (history && history.length > 0) {
+        let cumulativeYes = 0;
+        let cumulativeNo = 0;
+
+        return history.map((point): ChartDataPoint => {
+          if (point.outcome === "yes") cumulativeYes += point.net_stake || 0;
+          if (point.outcome === "no") cumulativeNo += point.net_stake || 0;
+          return {
+            time: point.created_at,
+            timestamp: new Date(point.created_at).getTime(),
+            yes_percent: Math.round(Number(point.price_yes) * 1000) / 10,
+            cumulative_yes: cumulativeYes,
+            cumulative_no: cumulativeNo,
+            source: "price",
+          };
+        });
+      }
+
       const { data, error } = await supabase
         .from("market_positions")
         .select("created_at, outcome, net_stake")
@@ -258,6 +317,7 @@ export function useMarketChart(marketId: string | null) {
             data.yes + data.no > 0
               ? Math.round((data.yes / (data.yes + data.no)) * 100)
               : 50,
+          source: "pool" as const,
         })
       );
 
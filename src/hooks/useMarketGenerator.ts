@@ -0,0 +1,156 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { PricingMode } from "@/lib/marketPricing";
+import type { League } from "@/hooks/useAdminFixtures";
+
+export type GeneratorPriceSource = "model" | "best_prices";
+
+export interface GeneratorRunSummary {
+  fixtures: number;
+  created: number;
+  duplicates: number;
+  unpriced: number;
+  closed: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface MarketGeneratorConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  league_ids: number[];
+  horizon_hours: number;
+  resolution_rules: string[];
+  price_source: GeneratorPriceSource;
+  pricing_mode: PricingMode;
+  liquidity_b: number | null;
+  close_minutes_before_kickoff: number;
+  last_run_at: string | null;
+  last_run_summary: GeneratorRunSummary | null;
+  created_at: string;
+}
+
+export type MarketGeneratorConfigInput = Pick<
+  MarketGeneratorConfig,
+  | "name"
+  | "enabled"
+  | "league_ids"
+  | "horizon_hours"
+  | "resolution_rules"
+  | "price_source"
+  | "pricing_mode"
+  | "liquidity_b"
+  | "close_minutes_before_kickoff"
+>;
+
+// Admin: all generator configs
+export function useMarketGeneratorConfigs() {
+  return useQuery({
+    queryKey: ["market-generator-configs"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("market_generator_configs")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as MarketGeneratorConfig[];
+    },
+  });
+}
+
+// Leagues with fixtures in the next week, for the league picker
+export function useGeneratorLeagues() {
+  return useQuery({
+    queryKey: ["market-generator-leagues"],
+    queryFn: async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const { data: fixtures, error: fixturesError } = await supabase
+        .from("fixtures")
+        .select("league_id")
+        .gte("timestamp", now)
+        .lte("timestamp", now + 7 * 24 * 3600);
+
+      if (fixturesError) throw fixturesError;
+
+      const ids = [...new Set((fixtures || []).map((f) => f.league_id).filter((id): id is number => id != null))];
+      if (ids.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from("leagues")
+        .select("id, name, logo, country_id, season")
+        .in("id", ids)
+        .order("name");
+
+      if (error) throw error;
+      return data as League[];
+    },
+    staleTime: 1000 * 60 * 15,
+  });
+}
+
+// Admin: create or update a generator config
+export function useSaveMarketGeneratorConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id?: string; config: MarketGeneratorConfigInput }) => {
+      const config = {
+        ...params.config,
+        liquidity_b: params.config.pricing_mode === "fixed" ? null : params.config.liquidity_b,
+      };
+
+      if (params.id) {
+        const { error } = await supabase.from("market_generator_configs").update(config).eq("id", params.id);
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("market_generator_configs").insert({ ...config, created_by: user.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["market-generator-configs"] });
+    },
+  });
+}
+
+// Admin: delete a generator config (markets it created are kept)
+export function useDeleteMarketGeneratorConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("market_generator_configs").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["market-generator-configs"] });
+    },
+  });
+}
+
+// Admin: run one config now instead of waiting for the hourly cron
+export function useRunMarketGenerator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (configId: string) => {
+      const { data, error } = await supabase.functions.invoke("market-generator", {
+        body: { config_id: configId },
+      });
+
+      if (error) throw error;
+      if (!data.ok) throw new Error(data.error || "Generator run failed");
+      return data as { ok: true; created: number; duplicates: number; failed: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["market-generator-configs"] });
+      queryClient.invalidateQueries({ queryKey: ["markets"] });
+    },
+  });
+}
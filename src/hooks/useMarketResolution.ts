@@ -0,0 +1,162 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { ResolutionEvidence, ResolutionProposal } from "@/lib/marketResolution";
+
+export type ResolutionLogEvent = "proposed" | "disputed" | "finalized" | "rejected" | "superseded" | "reversed";
+
+export interface ResolutionLogEntry {
+  id: string;
+  proposal_id: string | null;
+  event: ResolutionLogEvent;
+  outcome: string | null;
+  previous_outcome: string | null;
+  evidence: ResolutionEvidence;
+  details: Record<string, unknown>;
+  note: string | null;
+  is_system: boolean;
+  created_at: string;
+}
+
+export interface LiveProposal extends ResolutionProposal {
+  market_title: string;
+  disputes: { id: string; reason: string; status: string; created_at: string }[];
+}
+
+const PROPOSAL_COLUMNS = "id, market_id, proposed_outcome, source, status, challenge_ends_at, evidence, created_at";
+
+// Latest proposal for a market (null before the first one)
+export function useResolutionProposal(marketId: string | null) {
+  return useQuery({
+    queryKey: ["resolution-proposal", marketId],
+    queryFn: async () => {
+      if (!marketId) return null;
+      const { data, error } = await supabase
+        .from("market_resolution_proposals")
+        .select(PROPOSAL_COLUMNS)
+        .eq("market_id", marketId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as ResolutionProposal | null;
+    },
+    enabled: !!marketId,
+  });
+}
+
+// Public resolution history, oldest first
+export function useResolutionLog(marketId: string | null) {
+  return useQuery({
+    queryKey: ["resolution-log", marketId],
+    queryFn: async () => {
+      if (!marketId) return [];
+      const { data, error } = await supabase
+        .from("market_resolution_log")
+        .select("id, proposal_id, event, outcome, previous_outcome, evidence, details, note, is_system, created_at")
+        .eq("market_id", marketId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as ResolutionLogEntry[];
+    },
+    enabled: !!marketId,
+  });
+}
+
+// Whether the caller already disputed a proposal
+export function useMyDispute(proposalId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["my-dispute", proposalId],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !proposalId) return null;
+
+      const { data, error } = await supabase
+        .from("market_resolution_disputes")
+        .select("id, status, reason, created_at")
+        .eq("proposal_id", proposalId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!proposalId,
+  });
+}
+
+export function useDisputeResolution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { proposal_id: string; reason: string }) => {
+      const { data, error } = await supabase.rpc("dispute_market_resolution", {
+        _proposal_id: params.proposal_id,
+        _reason: params.reason.trim(),
+      });
+      if (error) throw error;
+
+      const result = data as { ok: boolean; error?: string };
+      if (!result.ok) throw new Error(result.error || "Failed to dispute resolution");
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resolution-proposal"] });
+      queryClient.invalidateQueries({ queryKey: ["resolution-log"] });
+      queryClient.invalidateQueries({ queryKey: ["my-dispute"] });
+    },
+  });
+}
+
+// Admin: proposals still open or disputed, with their disputes (admins can read them all)
+export function useLiveProposals() {
+  return useQuery({
+    queryKey: ["resolution-proposals", "live"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("market_resolution_proposals")
+        .select(`${PROPOSAL_COLUMNS}, prediction_markets(title), market_resolution_disputes(id, reason, status, created_at)`)
+        .in("status", ["open", "disputed"])
+        .order("challenge_ends_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(({ prediction_markets, market_resolution_disputes, ...proposal }) => ({
+        ...proposal,
+        market_title: prediction_markets?.title ?? "",
+        disputes: market_resolution_disputes ?? [],
+      })) as LiveProposal[];
+    },
+    refetchInterval: 60_000,
+  });
+}
+
+type ReviewParams =
+  | { action: "finalize"; proposal_id: string }
+  | { action: "reject"; proposal_id: string; note?: string }
+  | { action: "reverse"; market_id: string; winning_outcome: string | null; note: string };
+
+// Admin: settle a proposal now, reject it, or reverse a settled market
+export function useReviewResolution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: ReviewParams) => {
+      const { data, error } = await supabase.functions.invoke("market-resolve", { body: params });
+
+      if (error) throw error;
+      if (!data.ok) throw new Error(data.error || `Failed to ${params.action} resolution`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resolution-proposals"] });
+      queryClient.invalidateQueries({ queryKey: ["resolution-proposal"] });
+      queryClient.invalidateQueries({ queryKey: ["resolution-log"] });
+      queryClient.invalidateQueries({ queryKey: ["markets"] });
+      queryClient.invalidateQueries({ queryKey: ["market"] });
+      queryClient.invalidateQueries({ queryKey: ["my-positions"] });
+      queryClient.invalidateQueries({ queryKey: ["my-coins"] });
+      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+    },
+  });
+}
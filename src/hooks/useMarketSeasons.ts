@@ -0,0 +1,216 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { LeaderboardEntry } from "@/hooks/useMarkets";
+import type { Division } from "@/lib/marketSeasons";
+
+export interface MarketSeason {
+  id: string;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+  status: "active" | "archived";
+}
+
+export interface DivisionLeaderboardEntry extends LeaderboardEntry {
+  tier: number | null;
+}
+
+export interface PrivateLeague {
+  id: string;
+  name: string;
+  invite_code: string;
+  owner_id: string;
+  max_members: number;
+  member_count: number;
+}
+
+export interface SeasonResult {
+  period: string;
+  season_id: string;
+  final_balance: number;
+  rank: number | null;
+  division_tier: number | null;
+  division_rank: number | null;
+}
+
+// Active season (null between rollover steps)
+export function useCurrentSeason() {
+  return useQuery({
+    queryKey: ["market-season"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("market_seasons")
+        .select("id, name, starts_at, ends_at, status")
+        .eq("status", "active")
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as MarketSeason | null;
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useDivisions() {
+  return useQuery({
+    queryKey: ["market-divisions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("market_divisions")
+        .select("tier, name, promote_share, relegate_share")
+        .order("tier");
+
+      if (error) throw error;
+      return data as Division[];
+    },
+    staleTime: 1000 * 60 * 60,
+  });
+}
+
+// Caller's division this season
+export function useMyDivision(seasonId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["my-division", seasonId],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !seasonId) return null;
+
+      const { data, error } = await supabase
+        .from("market_division_members")
+        .select("tier")
+        .eq("season_id", seasonId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.tier ?? null;
+    },
+    enabled: !!seasonId,
+  });
+}
+
+// Standings in a division (null = the caller's)
+export function useDivisionLeaderboard(tier: number | null, enabled = true) {
+  return useQuery({
+    queryKey: ["leaderboard", "division", tier],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_division_leaderboard", tier != null ? { _tier: tier } : {});
+      if (error) throw error;
+      return data as DivisionLeaderboardEntry[];
+    },
+    enabled,
+  });
+}
+
+// Caller's most recent archived season
+export function useMyLastSeason() {
+  return useQuery({
+    queryKey: ["my-last-season"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from("market_leaderboard_snapshots")
+        .select("period, season_id, final_balance, rank, division_tier, division_rank")
+        .eq("user_id", user.id)
+        .not("season_id", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as SeasonResult | null;
+    },
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+// Private leagues the caller belongs to (RLS limits rows to their own)
+export function useMyPrivateLeagues() {
+  return useQuery({
+    queryKey: ["private-leagues"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("market_private_leagues")
+        .select("id, name, invite_code, owner_id, max_members, market_private_league_members(count)")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(({ market_private_league_members, ...league }) => ({
+        ...league,
+        member_count: market_private_league_members?.[0]?.count ?? 0,
+      })) as PrivateLeague[];
+    },
+  });
+}
+
+export function usePrivateLeagueLeaderboard(leagueId: string | null) {
+  return useQuery({
+    queryKey: ["leaderboard", "private", leagueId],
+    queryFn: async () => {
+      if (!leagueId) return [];
+      const { data, error } = await supabase.rpc("get_private_league_leaderboard", { _league_id: leagueId });
+      if (error) throw error;
+      return data as DivisionLeaderboardEntry[];
+    },
+    enabled: !!leagueId,
+  });
+}
+
+type LeagueRpcResult = { ok: boolean; error?: string; league_id?: string; invite_code?: string; name?: string };
+
+export function useCreatePrivateLeague() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase.rpc("create_private_league", { _name: name });
+      if (error) throw error;
+
+      const result = data as LeagueRpcResult;
+      if (!result.ok) throw new Error(result.error || "Failed to create league");
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["private-leagues"] });
+    },
+  });
+}
+
+export function useJoinPrivateLeague() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inviteCode: string) => {
+      const { data, error } = await supabase.rpc("join_private_league", { _invite_code: inviteCode });
+      if (error) throw error;
+
+      const result = data as LeagueRpcResult;
+      if (!result.ok) throw new Error(result.error || "Failed to join league");
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["private-leagues"] });
+    },
+  });
+}
+
+export function useLeavePrivateLeague() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (leagueId: string) => {
+      const { data, error } = await supabase.rpc("leave_private_league", { _league_id: leagueId });
+      if (error) throw error;
+
+      const result = data as LeagueRpcResult;
+      if (!result.ok) throw new Error(result.error || "Failed to leave league");
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["private-leagues"] });
+      queryClient.invalidateQueries({ queryKey: ["leaderboard", "private"] });
+    },
+  });
+}
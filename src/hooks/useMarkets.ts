@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { PricingMode } from "@/lib/marketPricing";
 
 export interface Market {
   id: string;
@@ -18,6 +19,27 @@ export interface Market {
   resolved_at: string | null;
   created_at: string;
   resolution_rule: string | null;
+  pricing_mode: PricingMode;
+  liquidity_b: number | null;
+  initial_price_yes: number;
+  shares_yes: number;
+  shares_no: number;
+  /** Outcome set of multi-outcome markets (market_type = 'multi') */
+  market_outcomes?: MarketOutcome[];
+}
+
+export interface MarketOutcome {
+  id: string;
+  market_id: string;
+  outcome: string;
+  label: string;
+  sort_order: number;
+  range_min: number | null;
+  range_max: number | null;
+  odds: number;
+  initial_price: number;
+  shares: number;
+  total_staked: number;
 }
 
 export interface Position {
@@ -33,6 +55,18 @@ export interface Position {
   payout_amount: number | null;
   settled_at: string | null;
   created_at: string;
+  sold_net_stake: number;
+  cashout_amount: number;
+}
+
+export interface CashOutQuote {
+  position_id: string;
+  fraction: number;
+  claim: number;
+  net_stake: number;
+  value: number;
+  fee: number;
+  proceeds: number;
 }
 
 export interface UserCoins {
@@ -64,7 +98,7 @@ export function useMarkets(status: "open" | "closed" | "resolved" | "all" = "ope
     queryFn: async () => {
       let query = supabase
         .from("prediction_markets")
-        .select("*")
+        .select("*, market_outcomes(*)")
         .order("closes_at", { ascending: true });
 
       if (status !== "all") {
@@ -86,7 +120,7 @@ export function useMarket(marketId: string | null) {
       if (!marketId) return null;
       const { data, error } = await supabase
         .from("prediction_markets")
-        .select("*")
+        .select("*, market_outcomes(*)")
         .eq("id", marketId)
         .single();
       if (error) throw error;
@@ -161,7 +195,7 @@ export function usePlaceBet() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { market_id: string; outcome: "yes" | "no"; stake: number }) => {
+    mutationFn: async (params: { market_id: string; outcome: string; stake: number }) => {
       const { data, error } = await supabase.functions.invoke("market-place-bet", {
         body: params,
       });
@@ -175,6 +209,54 @@ export function usePlaceBet() {
       queryClient.invalidateQueries({ queryKey: ["my-positions"] });
       queryClient.invalidateQueries({ queryKey: ["markets"] });
       queryClient.invalidateQueries({ queryKey: ["market"] });
+      queryClient.invalidateQueries({ queryKey: ["market-detail"] });
+      queryClient.invalidateQueries({ queryKey: ["market-chart"] });
+      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+    },
+  });
+}
+
+// Quote selling part of an open position at the current price
+export function useCashOutQuote(positionId: string | null, fraction: number) {
+  return useQuery({
+    queryKey: ["cashout-quote", positionId, fraction],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke("market-cashout-quote", {
+        body: { position_id: positionId, fraction },
+      });
+
+      if (error) throw error;
+      if (!data.ok) throw new Error(data.error || "Failed to quote cash-out");
+      return data.quote as CashOutQuote;
+    },
+    enabled: !!positionId && fraction > 0,
+    refetchInterval: 15000,
+  });
+}
+
+// Sell all or part of an open position
+export function useCashOut() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { position_id: string; fraction: number }) => {
+      const { data, error } = await supabase.functions.invoke("market-cashout", {
+        body: params,
+      });
+
+      if (error) throw error;
+      if (!data.ok) throw new Error(data.error || "Failed to cash out");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["my-coins"] });
+      queryClient.invalidateQueries({ queryKey: ["my-positions"] });
+      queryClient.invalidateQueries({ queryKey: ["my-market-positions"] });
+      queryClient.invalidateQueries({ queryKey: ["cashout-quote"] });
+      queryClient.invalidateQueries({ queryKey: ["markets"] });
+      queryClient.invalidateQueries({ queryKey: ["market-detail"] });
+      queryClient.invalidateQueries({ queryKey: ["market-chart"] });
+      queryClient.invalidateQueries({ queryKey: ["market-activity"] });
       queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
     },
   });
@@ -194,6 +276,8 @@ export function useCreateMarket() {
       closes_at: string;
       initial_odds_yes?: number;
       initial_odds_no?: number;
+      pricing_mode?: PricingMode;
+      liquidity_b?: number;
     }) => {
       const { data, error } = await supabase.functions.invoke("market-create", {
         body: params,
@@ -209,17 +293,24 @@ export function useCreateMarket() {
   });
 }
 
-// Admin: Resolve market
+// Admin: Propose a resolution (settles after the challenge window; see useMarketResolution)
 export function useResolveMarket() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { market_id: string; winning_outcome: "yes" | "no" | "void" | null }) => {
+    // winning_outcome: "yes" / "no", an outcome key for multi-outcome markets, or "void"
+    // challenge_minutes: 0 settles on the next cron sweep (default window otherwise)
+    mutationFn: async (params: { market_id: string; winning_outcome: string | null; challenge_minutes?: number }) => {
       // Convert "void" to null for the edge function
       const outcome = params.winning_outcome === "void" ? null : params.winning_outcome;
       
       const { data, error } = await supabase.functions.invoke("market-resolve", {
-        body: { market_id: params.market_id, winning_outcome: outcome },
+        body: {
+          action: "propose",
+          market_id: params.market_id,
+          winning_outcome: outcome,
+          challenge_minutes: params.challenge_minutes,
+        },
       });
 
       if (error) throw error;
@@ -229,9 +320,9 @@ export function useResolveMarket() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["markets"] });
       queryClient.invalidateQueries({ queryKey: ["market"] });
-      queryClient.invalidateQueries({ queryKey: ["my-positions"] });
-      queryClient.invalidateQueries({ queryKey: ["my-coins"] });
-      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+      queryClient.invalidateQueries({ queryKey: ["resolution-proposals"] });
+      queryClient.invalidateQueries({ queryKey: ["resolution-proposal"] });
+      queryClient.invalidateQueries({ queryKey: ["resolution-log"] });
     },
   });
 }
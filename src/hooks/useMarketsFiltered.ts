@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Market } from "./useMarkets";
+import { marketPool } from "@/lib/marketOutcomes";
 
 export interface MarketWithMetadata extends Market {
   fixture: {
@@ -134,6 +135,7 @@ export function useMarketsFiltered(filters: MarketsFilters) {
         .from("prediction_markets")
         .select(`
           *,
+          market_outcomes(*),
           fixtures(
             id,
             timestamp,
@@ -212,9 +214,7 @@ export function useMarketsFiltered(filters: MarketsFilters) {
 
       // Sort
       if (filters.sortBy === "pool") {
-        results.sort((a, b) => 
-          (b.total_staked_yes + b.total_staked_no) - (a.total_staked_yes + a.total_staked_no)
-        );
+        results.sort((a, b) => marketPool(b) - marketPool(a));
       } else if (filters.sortBy === "newest") {
         results.sort((a, b) => 
           new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { OddsHistoryPoint, SelectionMovement, SteamMove } from "@/lib/oddsHistory";
+
+/** Odds time series, movement since open and steam moves for one fixture */
+export interface OddsHistory {
+  fixture_id: number;
+  points: OddsHistoryPoint[];
+  movements: SelectionMovement[];
+  steam: SteamMove[];
+}
+
+export function useOddsHistory(fixtureId: number | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ["odds-history", fixtureId],
+    queryFn: async (): Promise<OddsHistory> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      const { data, error } = await supabase.functions.invoke("odds-history", {
+        headers: session ? { Authorization: `Bearer ${session.access_token}` } : {},
+        body: { fixtureId },
+      });
+      if (error) throw error;
+      return data as OddsHistory;
+    },
+    enabled: enabled && !!fixtureId,
+    staleTime: 60_000,
+    retry: false,
+  });
+}
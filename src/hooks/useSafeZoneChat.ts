@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useTranslation } from "react-i18next";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -23,16 +23,49 @@ export interface SafeZonePick {
   explanation: string | null;
 }
 
+/** What safe-zone-chat understood (see _shared/chat_query.ts) */
+export interface ChatInterpretation {
+  limit: number;
+  markets: string[];
+  exclude_markets: string[];
+  side: "over" | "under" | null;
+  line: number | null;
+  line_min: number | null;
+  line_max: number | null;
+  odds_min: number | null;
+  odds_max: number | null;
+  min_confidence: number | null;
+  window: { label: string; from: string; to: string };
+  leagues: { id: number; name: string }[];
+  exclude_leagues: { id: number; name: string }[];
+  countries: string[];
+  exclude_countries: string[];
+  teams: string[];
+  exclude_teams: string[];
+  unparsed: string[];
+}
+
+/** How a follow-up ("swap the second pick", "now only Spain") was applied (see _shared/chat_session.ts) */
+export interface ChatFollowUp {
+  kind: "swap" | "remove" | "more" | "narrow" | "modify";
+  index?: number;
+  applied: boolean;
+}
+
 export interface ChatMessage {
   id: string;
   role: "user" | "bot";
   text?: string;
   picks?: SafeZonePick[];
+  interpretation?: ChatInterpretation;
   meta?: any;
   loading?: boolean;
   error?: boolean;
 }
 
+const SESSION_STORAGE_KEY = "safe_zone_chat_session";
+const HISTORY_LIMIT = 100;
+
 interface ChatFilters {
   market?: "corners" | "goals" | "all";
   league_ids?: number[];
@@ -45,8 +78,47 @@ export function useSafeZoneChat() {
   const { t } = useTranslation("common");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem(SESSION_STORAGE_KEY));
 
-  const sendMessage = useCallback(async (text: string, filters?: ChatFilters) => {
+  const botText = useCallback((picks: SafeZonePick[], followUp: ChatFollowUp | null | undefined) => {
+    if (followUp && !followUp.applied) return t("safe_zone_bot_followup_not_applied");
+    if (followUp?.kind === "swap") return t("safe_zone_bot_followup_swapped", { n: (followUp.index ?? 0) + 1 });
+    if (followUp?.kind === "remove") return t("safe_zone_bot_followup_removed", { n: (followUp.index ?? 0) + 1 });
+    if (picks.length === 0) return t("safe_zone_bot_empty_message");
+    if (picks.length === 1) return t("safe_zone_bot_found_picks_one");
+    return t("safe_zone_bot_found_picks_many", { count: picks.length });
+  }, [t]);
+
+  // Restore the stored conversation once; the server keeps its last result set
+  useEffect(() => {
+    const storedId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!storedId) return;
+    let cancelled = false;
+    (async () => {
+      const { data, error } = await supabase
+        .from("safe_zone_chat_messages")
+        .select("id, role, text, interpretation, picks, follow_up")
+        .eq("session_id", storedId)
+        .order("created_at", { ascending: true })
+        .limit(HISTORY_LIMIT);
+      if (cancelled || error || !data) return;
+      setMessages((prev) => prev.length > 0 ? prev : data.map((row) => {
+        if (row.role === "user") return { id: row.id, role: "user", text: row.text ?? "" };
+        const picks = (row.picks ?? []) as unknown as SafeZonePick[];
+        return {
+          id: row.id,
+          role: "bot",
+          picks,
+          interpretation: (row.interpretation ?? undefined) as unknown as ChatInterpretation | undefined,
+          text: botText(picks, row.follow_up as unknown as ChatFollowUp | null),
+        };
+      }));
+    })();
+    return () => { cancelled = true; };
+  }, [botText]);
+
+  /** An interpretation (edited from a previous answer) replaces parsing of the text */
+  const sendMessage = useCallback(async (text: string, filters?: ChatFilters, interpretation?: ChatInterpretation) => {
     const userMsg: ChatMessage = {
       id: crypto.randomUUID(),
       role: "user",
@@ -68,7 +140,9 @@ export function useSafeZoneChat() {
 
       const { data, error } = await supabase.functions.invoke("safe-zone-chat", {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
-        body: { query: text, filters: filters || {} },
+        body: interpretation
+          ? { interpretation, session_id: sessionId }
+          : { query: text, filters: filters || {}, session_id: sessionId },
       });
 
       if (error) {
@@ -93,15 +167,11 @@ export function useSafeZoneChat() {
         return;
       }
 
-      const count = data.count || 0;
-      let botText: string;
-      if (data.status === "empty") {
-        botText = t("safe_zone_bot_empty_message");
-      } else if (count === 1) {
-        botText = t("safe_zone_bot_found_picks_one");
-      } else {
-        botText = t("safe_zone_bot_found_picks_many", { count });
+      if (data.session_id && data.session_id !== sessionId) {
+        setSessionId(data.session_id);
+        localStorage.setItem(SESSION_STORAGE_KEY, data.session_id);
       }
+      const picks: SafeZonePick[] = data.picks || [];
 
       setMessages((prev) =>
         prev.map((m) =>
@@ -109,8 +179,9 @@ export function useSafeZoneChat() {
             ? {
                 ...m,
                 loading: false,
-                picks: data.picks || [],
-                text: botText,
+                picks,
+                interpretation: data.interpretation,
+                text: botText(picks, data.follow_up),
                 meta: data.meta,
               }
             : m
@@ -127,9 +198,14 @@ export function useSafeZoneChat() {
     } finally {
       setLoading(false);
     }
-  }, [t]);
+  }, [t, botText, sessionId]);
 
-  const clearMessages = useCallback(() => setMessages([]), []);
+  /** Starts a new conversation; the next message opens a new server session */
+  const clearMessages = useCallback(() => {
+    setMessages([]);
+    setSessionId(null);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }, []);
 
   return { messages, loading, sendMessage, clearMessages };
 }
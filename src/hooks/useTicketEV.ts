@@ -0,0 +1,82 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TicketSport } from "@/lib/ticketLegs";
+
+/** Ticket EV + fractional-Kelly stake, as computed by the ticket-ev edge function */
+export interface TicketEV {
+  total_odds: number;
+  win_prob: number;
+  naive_win_prob: number;
+  implied_prob: number;
+  prob_source: "model" | "mixed" | "implied";
+  legs_with_model: number;
+  ev_per_unit: number;
+  stake: number;
+  expected_return: number;
+  expected_profit: number;
+  kelly_full: number;
+  kelly_fraction: number;
+  kelly_share: number;
+  suggested_stake: number | null;
+  has_edge: boolean;
+}
+
+export interface TicketEVLeg {
+  sport?: TicketSport;
+  fixtureId: number;
+  leagueId?: number | null;
+  kickoff?: string | null;
+  market: string;
+  side: string;
+  line?: number | string | null;
+  odds: number;
+  modelProb?: number | null;
+}
+
+export function useTicketEV(
+  legs: TicketEVLeg[],
+  stake: number,
+  bankroll: number | null,
+  kellyFraction: number,
+  enabled = true
+) {
+  const priced = legs.filter((l) => l.odds > 1);
+
+  return useQuery({
+    queryKey: [
+      "ticket-ev",
+      priced.map((l) => `${l.sport ?? "football"}|${l.fixtureId}|${l.market}|${l.side}|${l.line}|${l.odds}|${l.modelProb ?? ""}`),
+      stake,
+      bankroll,
+      kellyFraction,
+    ],
+    queryFn: async (): Promise<TicketEV> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      const { data, error } = await supabase.functions.invoke("ticket-ev", {
+        headers: session ? { Authorization: `Bearer ${session.access_token}` } : {},
+        body: {
+          legs: priced.map((l) => ({
+            sport: l.sport ?? "football",
+            fixtureId: l.fixtureId,
+            leagueId: l.leagueId || null,
+            kickoff: l.kickoff ?? null,
+            market: l.market,
+            side: l.side,
+            line: l.line ?? null,
+            odds: l.odds,
+            modelProb: l.modelProb ?? null,
+          })),
+          stake,
+          bankroll,
+          kellyFraction,
+        },
+      });
+      if (error) throw error;
+      return data as TicketEV;
+    },
+    enabled: enabled && priced.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+    retry: false,
+  });
+}
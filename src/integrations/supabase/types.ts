@@ -94,6 +94,57 @@ export type Database = {
         }
         Relationships: []
       }
+      api_quota_minute: {
+        Row: {
+          account: string
+          calls: number
+          minute: string
+        }
+        Insert: {
+          account: string
+          calls?: number
+          minute: string
+        }
+        Update: {
+          account?: string
+          calls?: number
+          minute?: string
+        }
+        Relationships: []
+      }
+      api_quota_usage: {
+        Row: {
+          account: string
+          calls: number
+          day: string
+          deferred: number
+          job: string
+          last_call_at: string | null
+          last_deferred_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          account: string
+          calls?: number
+          day: string
+          deferred?: number
+          job: string
+          last_call_at?: string | null
+          last_deferred_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account?: string
+          calls?: number
+          day?: string
+          deferred?: number
+          job?: string
+          last_call_at?: string | null
+          last_deferred_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       app_settings: {
         Row: {
           key: string
@@ -286,10 +337,58 @@ export type Database = {
           },
         ]
       }
+      basketball_odds_cache: {
+        Row: {
+          bookmaker: string
+          captured_at: string
+          game_id: number
+          id: number
+          line: number
+          market: string
+          odds: number
+          selection: string
+        }
+        Insert: {
+          bookmaker: string
+          captured_at?: string
+          game_id: number
+          id?: number
+          line?: number
+          market: string
+          odds: number
+          selection: string
+        }
+        Update: {
+          bookmaker?: string
+          captured_at?: string
+          game_id?: number
+          id?: number
+          line?: number
+          market?: string
+          odds?: number
+          selection?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "basketball_odds_cache_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "basketball_games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       basketball_stats_cache: {
         Row: {
           apg_total: number
+          away_drtg: number | null
+          away_gp: number
+          away_ortg: number | null
+          drtg: number | null
           fgp_avg: number
+          home_drtg: number | null
+          home_gp: number
+          home_ortg: number | null
           id: number
           last5_game_ids: number[] | null
           last5_losses: number
@@ -300,6 +399,9 @@ export type Database = {
           last5_tpm_avg: number
           last5_wins: number
           league_key: string
+          ortg: number | null
+          pace: number | null
+          pace_gp: number
           ppg_against: number
           ppg_for: number
           ppg_total: number
@@ -312,7 +414,14 @@ export type Database = {
         }
         Insert: {
           apg_total?: number
+          away_drtg?: number | null
+          away_gp?: number
+          away_ortg?: number | null
+          drtg?: number | null
           fgp_avg?: number
+          home_drtg?: number | null
+          home_gp?: number
+          home_ortg?: number | null
           id?: number
           last5_game_ids?: number[] | null
           last5_losses?: number
@@ -323,6 +432,9 @@ export type Database = {
           last5_tpm_avg?: number
           last5_wins?: number
           league_key: string
+          ortg?: number | null
+          pace?: number | null
+          pace_gp?: number
           ppg_against?: number
           ppg_for?: number
           ppg_total?: number
@@ -335,7 +447,14 @@ export type Database = {
         }
         Update: {
           apg_total?: number
+          away_drtg?: number | null
+          away_gp?: number
+          away_ortg?: number | null
+          drtg?: number | null
           fgp_avg?: number
+          home_drtg?: number | null
+          home_gp?: number
+          home_ortg?: number | null
           id?: number
           last5_game_ids?: number[] | null
           last5_losses?: number
@@ -346,6 +465,9 @@ export type Database = {
           last5_tpm_avg?: number
           last5_wins?: number
           league_key?: string
+          ortg?: number | null
+          pace?: number | null
+          pace_gp?: number
           ppg_against?: number
           ppg_for?: number
           ppg_total?: number
@@ -405,6 +527,211 @@ export type Database = {
         }
         Relationships: []
       }
+      bet_journal: {
+        Row: {
+          bookmaker: string | null
+          created_at: string
+          generated_ticket_id: string | null
+          id: string
+          mode: string | null
+          notes: string | null
+          odds_taken: number
+          payout: number | null
+          placed_at: string
+          profit: number | null
+          quoted_odds: number | null
+          settled_at: string | null
+          source: string
+          stake: number
+          status: string
+          user_id: string
+        }
+        Insert: {
+          bookmaker?: string | null
+          created_at?: string
+          generated_ticket_id?: string | null
+          id?: string
+          mode?: string | null
+          notes?: string | null
+          odds_taken: number
+          payout?: number | null
+          placed_at?: string
+          profit?: number | null
+          quoted_odds?: number | null
+          settled_at?: string | null
+          source?: string
+          stake: number
+          status?: string
+          user_id: string
+        }
+        Update: {
+          bookmaker?: string | null
+          created_at?: string
+          generated_ticket_id?: string | null
+          id?: string
+          mode?: string | null
+          notes?: string | null
+          odds_taken?: number
+          payout?: number | null
+          placed_at?: string
+          profit?: number | null
+          quoted_odds?: number | null
+          settled_at?: string | null
+          source?: string
+          stake?: number
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bet_journal_generated_ticket_id_fkey"
+            columns: ["generated_ticket_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bet_journal_legs: {
+        Row: {
+          actual_value: number | null
+          away_team: string | null
+          bet_id: string
+          fixture_id: number
+          home_team: string | null
+          id: string
+          kickoff_at: string | null
+          league_id: number | null
+          line: number
+          market: string
+          odds: number | null
+          result_status: string
+          settled_at: string | null
+          side: string
+          sport: string
+          user_id: string
+        }
+        Insert: {
+          actual_value?: number | null
+          away_team?: string | null
+          bet_id: string
+          fixture_id: number
+          home_team?: string | null
+          id?: string
+          kickoff_at?: string | null
+          league_id?: number | null
+          line: number
+          market: string
+          odds?: number | null
+          result_status?: string
+          settled_at?: string | null
+          side: string
+          sport?: string
+          user_id: string
+        }
+        Update: {
+          actual_value?: number | null
+          away_team?: string | null
+          bet_id?: string
+          fixture_id?: number
+          home_team?: string | null
+          id?: string
+          kickoff_at?: string | null
+          league_id?: number | null
+          line?: number
+          market?: string
+          odds?: number | null
+          result_status?: string
+          settled_at?: string | null
+          side?: string
+          sport?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bet_journal_legs_bet_id_fkey"
+            columns: ["bet_id"]
+            isOneToOne: false
+            referencedRelation: "bet_journal"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clv_snapshots: {
+        Row: {
+          bookmaker: string | null
+          closing_bookmaker: string | null
+          closing_captured_at: string
+          closing_fair_prob: number | null
+          closing_method: string
+          closing_odds: number
+          clv_pct: number
+          created_at: string
+          fair_clv_pct: number | null
+          fixture_id: number
+          id: string
+          kickoff_at: string
+          league_id: number | null
+          line: number
+          market: string
+          rules_version: string | null
+          side: string
+          source: string
+          source_id: string
+          taken_at: string | null
+          taken_odds: number
+          updated_at: string
+        }
+        Insert: {
+          bookmaker?: string | null
+          closing_bookmaker?: string | null
+          closing_captured_at: string
+          closing_fair_prob?: number | null
+          closing_method: string
+          closing_odds: number
+          clv_pct: number
+          created_at?: string
+          fair_clv_pct?: number | null
+          fixture_id: number
+          id?: string
+          kickoff_at: string
+          league_id?: number | null
+          line: number
+          market: string
+          rules_version?: string | null
+          side: string
+          source: string
+          source_id: string
+          taken_at?: string | null
+          taken_odds: number
+          updated_at?: string
+        }
+        Update: {
+          bookmaker?: string | null
+          closing_bookmaker?: string | null
+          closing_captured_at?: string
+          closing_fair_prob?: number | null
+          closing_method?: string
+          closing_odds?: number
+          clv_pct?: number
+          created_at?: string
+          fair_clv_pct?: number | null
+          fixture_id?: number
+          id?: string
+          kickoff_at?: string
+          league_id?: number | null
+          line?: number
+          market?: string
+          rules_version?: string | null
+          side?: string
+          source?: string
+          source_id?: string
+          taken_at?: string | null
+          taken_odds?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       countries: {
         Row: {
           code: string | null
@@ -647,6 +974,7 @@ export type Database = {
           min_target: number
           ticket_mode: string | null
           ticket_model_prob: number | null
+          ticket_model_prob_adjusted: number | null
           total_odds: number
           used_live: boolean
           user_id: string
@@ -659,6 +987,7 @@ export type Database = {
           min_target: number
           ticket_mode?: string | null
           ticket_model_prob?: number | null
+          ticket_model_prob_adjusted?: number | null
           total_odds: number
           used_live?: boolean
           user_id: string
@@ -671,6 +1000,7 @@ export type Database = {
           min_target?: number
           ticket_mode?: string | null
           ticket_model_prob?: number | null
+          ticket_model_prob_adjusted?: number | null
           total_odds?: number
           used_live?: boolean
           user_id?: string
@@ -761,6 +1091,57 @@ export type Database = {
         }
         Relationships: []
       }
+      hockey_game_team_stats: {
+        Row: {
+          fetched_at: string
+          game_id: number
+          is_home: boolean
+          penalty_minutes: number | null
+          pp_goals: number | null
+          pp_opportunities: number | null
+          saves: number | null
+          shots_on_goal: number | null
+          team_id: number
+        }
+        Insert: {
+          fetched_at?: string
+          game_id: number
+          is_home: boolean
+          penalty_minutes?: number | null
+          pp_goals?: number | null
+          pp_opportunities?: number | null
+          saves?: number | null
+          shots_on_goal?: number | null
+          team_id: number
+        }
+        Update: {
+          fetched_at?: string
+          game_id?: number
+          is_home?: boolean
+          penalty_minutes?: number | null
+          pp_goals?: number | null
+          pp_opportunities?: number | null
+          saves?: number | null
+          shots_on_goal?: number | null
+          team_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hockey_game_team_stats_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hockey_game_team_stats_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hockey_games: {
         Row: {
           away_score: number | null
@@ -831,29 +1212,146 @@ export type Database = {
           },
         ]
       }
-      hockey_h2h_cache: {
+      hockey_goalie_games: {
         Row: {
-          avg_total_goals: number
-          computed_at: string
-          gp: number
-          last_game_ids: number[]
-          ot_pct: number
-          team_hi: number
-          team_lo: number
+          fetched_at: string
+          game_id: number
+          goals_against: number | null
+          player_id: number
+          player_name: string
+          saves: number | null
+          shots_against: number | null
+          started: boolean
+          team_id: number
+          toi_seconds: number | null
         }
         Insert: {
-          avg_total_goals?: number
-          computed_at?: string
-          gp?: number
-          last_game_ids?: number[]
-          ot_pct?: number
-          team_hi: number
-          team_lo: number
+          fetched_at?: string
+          game_id: number
+          goals_against?: number | null
+          player_id: number
+          player_name: string
+          saves?: number | null
+          shots_against?: number | null
+          started?: boolean
+          team_id: number
+          toi_seconds?: number | null
         }
         Update: {
-          avg_total_goals?: number
-          computed_at?: string
-          gp?: number
+          fetched_at?: string
+          game_id?: number
+          goals_against?: number | null
+          player_id?: number
+          player_name?: string
+          saves?: number | null
+          shots_against?: number | null
+          started?: boolean
+          team_id?: number
+          toi_seconds?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hockey_goalie_games_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hockey_goalie_games_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hockey_goalie_stats_cache: {
+        Row: {
+          gp: number
+          last5_save_pct: number | null
+          last_start_at: string | null
+          league_id: number
+          player_id: number
+          player_name: string
+          save_pct: number | null
+          saves: number
+          season: number
+          shots_against: number
+          starts: number
+          team_id: number
+          updated_at: string
+        }
+        Insert: {
+          gp?: number
+          last5_save_pct?: number | null
+          last_start_at?: string | null
+          league_id: number
+          player_id: number
+          player_name: string
+          save_pct?: number | null
+          saves?: number
+          season: number
+          shots_against?: number
+          starts?: number
+          team_id: number
+          updated_at?: string
+        }
+        Update: {
+          gp?: number
+          last5_save_pct?: number | null
+          last_start_at?: string | null
+          league_id?: number
+          player_id?: number
+          player_name?: string
+          save_pct?: number | null
+          saves?: number
+          season?: number
+          shots_against?: number
+          starts?: number
+          team_id?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hockey_goalie_stats_cache_league_id_season_fkey"
+            columns: ["league_id", "season"]
+            isOneToOne: false
+            referencedRelation: "hockey_leagues"
+            referencedColumns: ["id", "season"]
+          },
+          {
+            foreignKeyName: "hockey_goalie_stats_cache_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hockey_h2h_cache: {
+        Row: {
+          avg_total_goals: number
+          computed_at: string
+          gp: number
+          last_game_ids: number[]
+          ot_pct: number
+          team_hi: number
+          team_lo: number
+        }
+        Insert: {
+          avg_total_goals?: number
+          computed_at?: string
+          gp?: number
+          last_game_ids?: number[]
+          ot_pct?: number
+          team_hi: number
+          team_lo: number
+        }
+        Update: {
+          avg_total_goals?: number
+          computed_at?: string
+          gp?: number
           last_game_ids?: number[]
           ot_pct?: number
           team_hi?: number
@@ -882,10 +1380,13 @@ export type Database = {
           chaos_score: number
           computed_at: string
           confidence_tier: string
+          factor_breakdown: Json
           game_id: number
+          goalies: Json | null
           home_team_id: number
           iceedge_rank: number | null
           league_id: number
+          model_version: string | null
           ot_risk: number
           p1_heat: number
           projected_total: number
@@ -901,10 +1402,13 @@ export type Database = {
           chaos_score?: number
           computed_at?: string
           confidence_tier?: string
+          factor_breakdown?: Json
           game_id: number
+          goalies?: Json | null
           home_team_id: number
           iceedge_rank?: number | null
           league_id: number
+          model_version?: string | null
           ot_risk?: number
           p1_heat?: number
           projected_total?: number
@@ -920,10 +1424,13 @@ export type Database = {
           chaos_score?: number
           computed_at?: string
           confidence_tier?: string
+          factor_breakdown?: Json
           game_id?: number
+          goalies?: Json | null
           home_team_id?: number
           iceedge_rank?: number | null
           league_id?: number
+          model_version?: string | null
           ot_risk?: number
           p1_heat?: number
           projected_total?: number
@@ -1036,11 +1543,65 @@ export type Database = {
           },
         ]
       }
+      hockey_starting_goalies: {
+        Row: {
+          created_at: string
+          game_id: number
+          player_id: number
+          player_name: string
+          source: string
+          status: string
+          team_id: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          game_id: number
+          player_id: number
+          player_name: string
+          source?: string
+          status?: string
+          team_id: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          game_id?: number
+          player_id?: number
+          player_name?: string
+          source?: string
+          status?: string
+          team_id?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hockey_starting_goalies_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hockey_starting_goalies_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "hockey_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hockey_team_stats_cache: {
         Row: {
+          away_gapg: number
+          away_gp: number
+          away_gpg: number
           ga_pg: number
           gp: number
           gpg: number
+          home_gapg: number
+          home_gp: number
+          home_gpg: number
           last5_game_ids: number[]
           last5_gapg: number
           last5_gpg: number
@@ -1051,15 +1612,23 @@ export type Database = {
           pk_pct: number
           pp_pct: number
           sa_pg: number
+          save_pct: number | null
           season: number
           sog_pg: number
+          stats_gp: number
           team_id: number
           updated_at: string
         }
         Insert: {
+          away_gapg?: number
+          away_gp?: number
+          away_gpg?: number
           ga_pg?: number
           gp?: number
           gpg?: number
+          home_gapg?: number
+          home_gp?: number
+          home_gpg?: number
           last5_game_ids?: number[]
           last5_gapg?: number
           last5_gpg?: number
@@ -1070,15 +1639,23 @@ export type Database = {
           pk_pct?: number
           pp_pct?: number
           sa_pg?: number
+          save_pct?: number | null
           season: number
           sog_pg?: number
+          stats_gp?: number
           team_id: number
           updated_at?: string
         }
         Update: {
+          away_gapg?: number
+          away_gp?: number
+          away_gpg?: number
           ga_pg?: number
           gp?: number
           gpg?: number
+          home_gapg?: number
+          home_gp?: number
+          home_gpg?: number
           last5_game_ids?: number[]
           last5_gapg?: number
           last5_gpg?: number
@@ -1089,8 +1666,10 @@ export type Database = {
           pk_pct?: number
           pp_pct?: number
           sa_pg?: number
+          save_pct?: number | null
           season?: number
           sog_pg?: number
+          stats_gp?: number
           team_id?: number
           updated_at?: string
         }
@@ -1180,6 +1759,33 @@ export type Database = {
         }
         Relationships: []
       }
+      league_stat_baselines: {
+        Row: {
+          away_avg: number
+          computed_at: string
+          home_avg: number
+          league_id: number
+          matches: number
+          metric: string
+        }
+        Insert: {
+          away_avg: number
+          computed_at?: string
+          home_avg: number
+          league_id: number
+          matches: number
+          metric: string
+        }
+        Update: {
+          away_avg?: number
+          computed_at?: string
+          home_avg?: number
+          league_id?: number
+          matches?: number
+          metric?: string
+        }
+        Relationships: []
+      }
       league_stats_coverage: {
         Row: {
           cards_coverage_pct: number | null
@@ -1290,6 +1896,75 @@ export type Database = {
           },
         ]
       }
+      live_fixture_states: {
+        Row: {
+          cards_away: number | null
+          cards_home: number | null
+          corners_away: number | null
+          corners_home: number | null
+          created_at: string
+          elapsed: number
+          first_goal_team: string | null
+          fixture_id: number
+          fouls_away: number | null
+          fouls_home: number | null
+          goals_away: number
+          goals_home: number
+          league_id: number | null
+          offsides_away: number | null
+          offsides_home: number | null
+          red_cards_away: number
+          red_cards_home: number
+          stats_fetched_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          cards_away?: number | null
+          cards_home?: number | null
+          corners_away?: number | null
+          corners_home?: number | null
+          created_at?: string
+          elapsed?: number
+          first_goal_team?: string | null
+          fixture_id: number
+          fouls_away?: number | null
+          fouls_home?: number | null
+          goals_away?: number
+          goals_home?: number
+          league_id?: number | null
+          offsides_away?: number | null
+          offsides_home?: number | null
+          red_cards_away?: number
+          red_cards_home?: number
+          stats_fetched_at?: string | null
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          cards_away?: number | null
+          cards_home?: number | null
+          corners_away?: number | null
+          corners_home?: number | null
+          created_at?: string
+          elapsed?: number
+          first_goal_team?: string | null
+          fixture_id?: number
+          fouls_away?: number | null
+          fouls_home?: number | null
+          goals_away?: number
+          goals_home?: number
+          league_id?: number | null
+          offsides_away?: number | null
+          offsides_home?: number | null
+          red_cards_away?: number
+          red_cards_home?: number
+          stats_fetched_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       market_coins: {
         Row: {
           balance: number
@@ -1323,74 +1998,330 @@ export type Database = {
         }
         Relationships: []
       }
-      market_leaderboard_snapshots: {
+      market_division_members: {
         Row: {
           created_at: string
-          final_balance: number
-          id: string
-          losses_count: number
-          period: string
-          positions_count: number
-          rank: number | null
-          roi: number | null
-          total_fees_paid: number
-          total_wagered: number
-          total_won: number
+          final_balance: number | null
+          final_rank: number | null
+          movement: string | null
+          season_id: string
+          tier: number
           user_id: string
-          win_rate: number | null
-          wins_count: number
         }
         Insert: {
           created_at?: string
-          final_balance: number
-          id?: string
-          losses_count?: number
-          period: string
-          positions_count?: number
-          rank?: number | null
-          roi?: number | null
-          total_fees_paid?: number
-          total_wagered: number
-          total_won: number
+          final_balance?: number | null
+          final_rank?: number | null
+          movement?: string | null
+          season_id: string
+          tier: number
           user_id: string
-          win_rate?: number | null
-          wins_count?: number
         }
         Update: {
           created_at?: string
-          final_balance?: number
-          id?: string
-          losses_count?: number
-          period?: string
-          positions_count?: number
-          rank?: number | null
-          roi?: number | null
-          total_fees_paid?: number
-          total_wagered?: number
-          total_won?: number
+          final_balance?: number | null
+          final_rank?: number | null
+          movement?: string | null
+          season_id?: string
+          tier?: number
           user_id?: string
-          win_rate?: number | null
-          wins_count?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "market_division_members_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "market_seasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "market_division_members_tier_fkey"
+            columns: ["tier"]
+            isOneToOne: false
+            referencedRelation: "market_divisions"
+            referencedColumns: ["tier"]
+          },
+        ]
       }
-      market_positions: {
+      market_divisions: {
         Row: {
-          created_at: string
-          fee_amount: number
-          id: string
-          market_id: string
-          net_stake: number
-          odds_at_placement: number
-          outcome: string
+          name: string
+          promote_share: number
+          relegate_share: number
+          tier: number
+        }
+        Insert: {
+          name: string
+          promote_share?: number
+          relegate_share?: number
+          tier: number
+        }
+        Update: {
+          name?: string
+          promote_share?: number
+          relegate_share?: number
+          tier?: number
+        }
+        Relationships: []
+      }
+      market_generator_configs: {
+        Row: {
+          close_minutes_before_kickoff: number
+          created_at: string
+          created_by: string
+          enabled: boolean
+          horizon_hours: number
+          id: string
+          last_run_at: string | null
+          last_run_summary: Json | null
+          league_ids: number[]
+          liquidity_b: number | null
+          name: string
+          price_source: string
+          pricing_mode: string
+          resolution_rules: string[]
+          updated_at: string
+        }
+        Insert: {
+          close_minutes_before_kickoff?: number
+          created_at?: string
+          created_by: string
+          enabled?: boolean
+          horizon_hours?: number
+          id?: string
+          last_run_at?: string | null
+          last_run_summary?: Json | null
+          league_ids?: number[]
+          liquidity_b?: number | null
+          name: string
+          price_source?: string
+          pricing_mode?: string
+          resolution_rules?: string[]
+          updated_at?: string
+        }
+        Update: {
+          close_minutes_before_kickoff?: number
+          created_at?: string
+          created_by?: string
+          enabled?: boolean
+          horizon_hours?: number
+          id?: string
+          last_run_at?: string | null
+          last_run_summary?: Json | null
+          league_ids?: number[]
+          liquidity_b?: number | null
+          name?: string
+          price_source?: string
+          pricing_mode?: string
+          resolution_rules?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      market_leaderboard_snapshots: {
+        Row: {
+          created_at: string
+          division_rank: number | null
+          division_tier: number | null
+          final_balance: number
+          id: string
+          losses_count: number
+          period: string
+          positions_count: number
+          rank: number | null
+          roi: number | null
+          season_id: string | null
+          total_fees_paid: number
+          total_wagered: number
+          total_won: number
+          user_id: string
+          win_rate: number | null
+          wins_count: number
+        }
+        Insert: {
+          created_at?: string
+          division_rank?: number | null
+          division_tier?: number | null
+          final_balance: number
+          id?: string
+          losses_count?: number
+          period: string
+          positions_count?: number
+          rank?: number | null
+          roi?: number | null
+          season_id?: string | null
+          total_fees_paid?: number
+          total_wagered: number
+          total_won: number
+          user_id: string
+          win_rate?: number | null
+          wins_count?: number
+        }
+        Update: {
+          created_at?: string
+          division_rank?: number | null
+          division_tier?: number | null
+          final_balance?: number
+          id?: string
+          losses_count?: number
+          period?: string
+          positions_count?: number
+          rank?: number | null
+          roi?: number | null
+          season_id?: string | null
+          total_fees_paid?: number
+          total_wagered?: number
+          total_won?: number
+          user_id?: string
+          win_rate?: number | null
+          wins_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_leaderboard_snapshots_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "market_seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_outcomes: {
+        Row: {
+          created_at: string
+          id: string
+          initial_price: number
+          label: string
+          market_id: string
+          odds: number
+          outcome: string
+          range_max: number | null
+          range_min: number | null
+          shares: number
+          sort_order: number
+          total_staked: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          initial_price: number
+          label: string
+          market_id: string
+          odds: number
+          outcome: string
+          range_max?: number | null
+          range_min?: number | null
+          shares?: number
+          sort_order?: number
+          total_staked?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          initial_price?: number
+          label?: string
+          market_id?: string
+          odds?: number
+          outcome?: string
+          range_max?: number | null
+          range_min?: number | null
+          shares?: number
+          sort_order?: number
+          total_staked?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_outcomes_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "prediction_markets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_position_sales: {
+        Row: {
+          claim_sold: number
+          created_at: string
+          fee_amount: number
+          id: string
+          market_id: string
+          net_stake_sold: number
+          outcome: string
+          position_id: string
+          price_yes_after: number
+          proceeds: number
+          user_id: string
+          value: number
+        }
+        Insert: {
+          claim_sold: number
+          created_at?: string
+          fee_amount: number
+          id?: string
+          market_id: string
+          net_stake_sold: number
+          outcome: string
+          position_id: string
+          price_yes_after: number
+          proceeds: number
+          user_id: string
+          value: number
+        }
+        Update: {
+          claim_sold?: number
+          created_at?: string
+          fee_amount?: number
+          id?: string
+          market_id?: string
+          net_stake_sold?: number
+          outcome?: string
+          position_id?: string
+          price_yes_after?: number
+          proceeds?: number
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_position_sales_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "prediction_markets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "market_position_sales_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "market_positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_positions: {
+        Row: {
+          cashout_amount: number
+          created_at: string
+          fee_amount: number
+          id: string
+          market_id: string
+          net_stake: number
+          odds_at_placement: number
+          outcome: string
           payout_amount: number | null
           potential_payout: number
           settled_at: string | null
+          sold_net_stake: number
           stake: number
           status: string
           user_id: string
         }
         Insert: {
+          cashout_amount?: number
           created_at?: string
           fee_amount?: number
           id?: string
@@ -1401,11 +2332,13 @@ export type Database = {
           payout_amount?: number | null
           potential_payout: number
           settled_at?: string | null
+          sold_net_stake?: number
           stake: number
           status?: string
           user_id: string
         }
         Update: {
+          cashout_amount?: number
           created_at?: string
           fee_amount?: number
           id?: string
@@ -1416,6 +2349,7 @@ export type Database = {
           payout_amount?: number | null
           potential_payout?: number
           settled_at?: string | null
+          sold_net_stake?: number
           stake?: number
           status?: string
           user_id?: string
@@ -1430,6 +2364,288 @@ export type Database = {
           },
         ]
       }
+      market_price_history: {
+        Row: {
+          created_at: string
+          id: string
+          market_id: string
+          net_stake: number | null
+          odds_no: number
+          odds_yes: number
+          outcome: string | null
+          price_yes: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          market_id: string
+          net_stake?: number | null
+          odds_no: number
+          odds_yes: number
+          outcome?: string | null
+          price_yes: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          market_id?: string
+          net_stake?: number | null
+          odds_no?: number
+          odds_yes?: number
+          outcome?: string | null
+          price_yes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_price_history_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "prediction_markets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_private_league_members: {
+        Row: {
+          joined_at: string
+          league_id: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string
+          league_id: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string
+          league_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_private_league_members_league_id_fkey"
+            columns: ["league_id"]
+            isOneToOne: false
+            referencedRelation: "market_private_leagues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_private_leagues: {
+        Row: {
+          created_at: string
+          id: string
+          invite_code: string
+          max_members: number
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invite_code: string
+          max_members?: number
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invite_code?: string
+          max_members?: number
+          name?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
+      market_resolution_disputes: {
+        Row: {
+          created_at: string
+          id: string
+          market_id: string
+          proposal_id: string
+          reason: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          market_id: string
+          proposal_id: string
+          reason: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          market_id?: string
+          proposal_id?: string
+          reason?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_resolution_disputes_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "prediction_markets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "market_resolution_disputes_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "market_resolution_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_resolution_log: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          details: Json
+          event: string
+          evidence: Json
+          id: string
+          is_system: boolean
+          market_id: string
+          note: string | null
+          outcome: string | null
+          previous_outcome: string | null
+          proposal_id: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          event: string
+          evidence?: Json
+          id?: string
+          is_system?: boolean
+          market_id: string
+          note?: string | null
+          outcome?: string | null
+          previous_outcome?: string | null
+          proposal_id?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          event?: string
+          evidence?: Json
+          id?: string
+          is_system?: boolean
+          market_id?: string
+          note?: string | null
+          outcome?: string | null
+          previous_outcome?: string | null
+          proposal_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_resolution_log_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "prediction_markets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "market_resolution_log_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "market_resolution_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_resolution_proposals: {
+        Row: {
+          challenge_ends_at: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          evidence: Json
+          id: string
+          market_id: string
+          proposed_by: string | null
+          proposed_outcome: string | null
+          source: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          challenge_ends_at: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          evidence?: Json
+          id?: string
+          market_id: string
+          proposed_by?: string | null
+          proposed_outcome?: string | null
+          source: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          challenge_ends_at?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          evidence?: Json
+          id?: string
+          market_id?: string
+          proposed_by?: string | null
+          proposed_outcome?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_resolution_proposals_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "prediction_markets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_seasons: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          name: string
+          starts_at: string
+          status: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          ends_at: string
+          id?: string
+          name: string
+          starts_at: string
+          status?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          ends_at?: string
+          id?: string
+          name?: string
+          starts_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
       odds_cache: {
         Row: {
           bookmakers: string[] | null
@@ -1454,6 +2670,87 @@ export type Database = {
         }
         Relationships: []
       }
+      odds_history: {
+        Row: {
+          bookmaker: string
+          captured_at: string
+          created_at: string
+          fixture_id: number
+          id: number
+          line: number
+          market: string
+          odds: number
+          side: string
+        }
+        Insert: {
+          bookmaker: string
+          captured_at: string
+          created_at?: string
+          fixture_id: number
+          id?: number
+          line: number
+          market: string
+          odds: number
+          side: string
+        }
+        Update: {
+          bookmaker?: string
+          captured_at?: string
+          created_at?: string
+          fixture_id?: number
+          id?: number
+          line?: number
+          market?: string
+          odds?: number
+          side?: string
+        }
+        Relationships: []
+      }
+      odds_steam_moves: {
+        Row: {
+          books: string[]
+          created_at: string
+          detected_at: string
+          fixture_id: number
+          from_odds: number
+          id: string
+          line: number
+          market: string
+          move_pct: number
+          side: string
+          started_at: string
+          to_odds: number
+        }
+        Insert: {
+          books: string[]
+          created_at?: string
+          detected_at: string
+          fixture_id: number
+          from_odds: number
+          id?: string
+          line: number
+          market: string
+          move_pct: number
+          side: string
+          started_at: string
+          to_odds: number
+        }
+        Update: {
+          books?: string[]
+          created_at?: string
+          detected_at?: string
+          fixture_id?: number
+          from_odds?: number
+          id?: string
+          line?: number
+          market?: string
+          move_pct?: number
+          side?: string
+          started_at?: string
+          to_odds?: number
+        }
+        Relationships: []
+      }
       optimized_selections: {
         Row: {
           bookmaker: string | null
@@ -1793,6 +3090,42 @@ export type Database = {
         }
         Relationships: []
       }
+      pipeline_runs: {
+        Row: {
+          finished_at: string | null
+          graph: Json
+          id: string
+          nodes: Json
+          pipeline: string
+          started_at: string
+          status: string
+          trigger: string
+          updated_at: string
+        }
+        Insert: {
+          finished_at?: string | null
+          graph?: Json
+          id?: string
+          nodes?: Json
+          pipeline: string
+          started_at?: string
+          status?: string
+          trigger?: string
+          updated_at?: string
+        }
+        Update: {
+          finished_at?: string | null
+          graph?: Json
+          id?: string
+          nodes?: Json
+          pipeline?: string
+          started_at?: string
+          status?: string
+          trigger?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       player_importance: {
         Row: {
           assists: number | null
@@ -1889,11 +3222,16 @@ export type Database = {
           description: string | null
           fixture_id: number | null
           id: string
+          initial_price_yes: number
+          liquidity_b: number | null
           market_type: string
           odds_no: number
           odds_yes: number
+          pricing_mode: string
           resolution_rule: string | null
           resolved_at: string | null
+          shares_no: number
+          shares_yes: number
           status: string
           title: string
           total_staked_no: number
@@ -1909,11 +3247,16 @@ export type Database = {
           description?: string | null
           fixture_id?: number | null
           id?: string
+          initial_price_yes?: number
+          liquidity_b?: number | null
           market_type?: string
           odds_no: number
           odds_yes: number
+          pricing_mode?: string
           resolution_rule?: string | null
           resolved_at?: string | null
+          shares_no?: number
+          shares_yes?: number
           status?: string
           title: string
           total_staked_no?: number
@@ -1929,11 +3272,16 @@ export type Database = {
           description?: string | null
           fixture_id?: number | null
           id?: string
+          initial_price_yes?: number
+          liquidity_b?: number | null
           market_type?: string
           odds_no?: number
           odds_yes?: number
+          pricing_mode?: string
           resolution_rule?: string | null
           resolved_at?: string | null
+          shares_no?: number
+          shares_yes?: number
           status?: string
           title?: string
           total_staked_no?: number
@@ -2019,6 +3367,124 @@ export type Database = {
         }
         Relationships: []
       }
+      rules_matrix_versions: {
+        Row: {
+          based_on: string | null
+          created_at: string
+          created_by: string | null
+          is_active: boolean
+          league_overrides: Json
+          notes: string | null
+          promoted_at: string | null
+          promoted_by: string | null
+          rules: Json
+          version: string
+        }
+        Insert: {
+          based_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          is_active?: boolean
+          league_overrides?: Json
+          notes?: string | null
+          promoted_at?: string | null
+          promoted_by?: string | null
+          rules: Json
+          version: string
+        }
+        Update: {
+          based_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          is_active?: boolean
+          league_overrides?: Json
+          notes?: string | null
+          promoted_at?: string | null
+          promoted_by?: string | null
+          rules?: Json
+          version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rules_matrix_versions_based_on_fkey"
+            columns: ["based_on"]
+            isOneToOne: false
+            referencedRelation: "rules_matrix_versions"
+            referencedColumns: ["version"]
+          },
+        ]
+      }
+      safe_zone_chat_messages: {
+        Row: {
+          created_at: string
+          follow_up: Json | null
+          id: string
+          interpretation: Json | null
+          picks: Json | null
+          role: string
+          session_id: string
+          text: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          follow_up?: Json | null
+          id?: string
+          interpretation?: Json | null
+          picks?: Json | null
+          role: string
+          session_id: string
+          text?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          follow_up?: Json | null
+          id?: string
+          interpretation?: Json | null
+          picks?: Json | null
+          role?: string
+          session_id?: string
+          text?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "safe_zone_chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "safe_zone_chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      safe_zone_chat_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          interpretation: Json | null
+          picks: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interpretation?: Json | null
+          picks?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interpretation?: Json | null
+          picks?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       safe_zone_picks: {
         Row: {
           away_team: string
@@ -2226,6 +3692,39 @@ export type Database = {
         }
         Relationships: []
       }
+      team_stat_rates: {
+        Row: {
+          against_avg: number
+          computed_at: string
+          for_avg: number
+          last_kickoff_at: string | null
+          matches: number
+          metric: string
+          team_id: number
+          venue: string
+        }
+        Insert: {
+          against_avg: number
+          computed_at?: string
+          for_avg: number
+          last_kickoff_at?: string | null
+          matches: number
+          metric: string
+          team_id: number
+          venue: string
+        }
+        Update: {
+          against_avg?: number
+          computed_at?: string
+          for_avg?: number
+          last_kickoff_at?: string | null
+          matches?: number
+          metric?: string
+          team_id?: number
+          venue?: string
+        }
+        Relationships: []
+      }
       team_totals_candidates: {
         Row: {
           computed_at: string
@@ -2292,6 +3791,7 @@ export type Database = {
           odds: number
           picked_at: string
           result_status: string
+          rules_version: string | null
           scored_version: string | null
           selection: string
           selection_key: string
@@ -2315,6 +3815,7 @@ export type Database = {
           odds: number
           picked_at?: string
           result_status?: string
+          rules_version?: string | null
           scored_version?: string | null
           selection: string
           selection_key: string
@@ -2338,6 +3839,7 @@ export type Database = {
           odds?: number
           picked_at?: string
           result_status?: string
+          rules_version?: string | null
           scored_version?: string | null
           selection?: string
           selection_key?: string
@@ -2370,6 +3872,7 @@ export type Database = {
           ticket_id: string
           ticket_mode: string | null
           ticket_model_prob: number | null
+          ticket_model_prob_adjusted: number | null
           ticket_status: string
           total_odds: number
           user_id: string
@@ -2386,6 +3889,7 @@ export type Database = {
           ticket_id: string
           ticket_mode?: string | null
           ticket_model_prob?: number | null
+          ticket_model_prob_adjusted?: number | null
           ticket_status?: string
           total_odds: number
           user_id: string
@@ -2402,6 +3906,7 @@ export type Database = {
           ticket_id?: string
           ticket_mode?: string | null
           ticket_model_prob?: number | null
+          ticket_model_prob_adjusted?: number | null
           ticket_status?: string
           total_odds?: number
           user_id?: string
@@ -2416,6 +3921,27 @@ export type Database = {
           },
         ]
       }
+      user_bankrolls: {
+        Row: {
+          started_at: string
+          starting_bankroll: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          started_at?: string
+          starting_bankroll: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          started_at?: string
+          starting_bankroll?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_entitlements: {
         Row: {
           cancel_at_period_end: boolean | null
@@ -2572,12 +4098,35 @@ export type Database = {
           market: string | null
           model_prob: number | null
           result_win: boolean | null
+          rules_version: string | null
           sample_size: number | null
           selection_id: string | null
           side: string | null
         }
         Relationships: []
       }
+      basketball_best_prices: {
+        Row: {
+          bookmaker: string | null
+          captured_at: string | null
+          game_id: number | null
+          id: number | null
+          line: number | null
+          market: string | null
+          odds: number | null
+          rk: number | null
+          selection: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "basketball_odds_cache_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "basketball_games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       best_outcome_prices: {
         Row: {
           bookmaker: string | null
@@ -2842,6 +4391,18 @@ export type Database = {
         }
         Returns: Json
       }
+      admin_create_multi_market_for_fixture: {
+        Args: {
+          _close_minutes_before_kickoff?: number
+          _fixture_id: number
+          _liquidity_b?: number
+          _outcomes: Json
+          _pricing_mode?: string
+          _resolution_rule: string
+          _title_override?: string
+        }
+        Returns: Json
+      }
       auto_release_stuck_locks: {
         Args: { max_age_minutes?: number }
         Returns: {
@@ -2860,18 +4421,69 @@ export type Database = {
           skipped: number
         }[]
       }
+      cash_out_market_position: {
+        Args: { _fraction?: number; _position_id: string }
+        Returns: Json
+      }
       check_username_available: {
         Args: { p_username: string }
         Returns: boolean
       }
       close_expired_markets: { Args: never; Returns: Json }
+      create_private_league: {
+        Args: { _name: string }
+        Returns: Json
+      }
       create_profile_with_username: {
         Args: { p_username: string }
         Returns: Json
       }
+      dispute_market_resolution: {
+        Args: { _proposal_id: string; _reason: string }
+        Returns: Json
+      }
       ensure_market_coins: { Args: never; Returns: undefined }
       ensure_trial_row: { Args: never; Returns: undefined }
+      finalize_due_market_resolutions: { Args: never; Returns: Json }
+      finalize_market_resolution: {
+        Args: {
+          _admin_user_id?: string
+          _force?: boolean
+          _proposal_id: string
+        }
+        Returns: Json
+      }
+      generate_fixture_market: {
+        Args: {
+          _config_id: string
+          _fixture_id: number
+          _odds_no: number
+          _odds_yes: number
+          _price_source: string
+          _probability: number
+          _resolution_rule: string
+        }
+        Returns: Json
+      }
       get_cron_internal_key: { Args: never; Returns: string }
+      get_division_leaderboard: {
+        Args: { _tier?: number }
+        Returns: {
+          balance: number
+          display_name: string
+          losses_count: number
+          positions_count: number
+          rank: number
+          roi: number
+          tier: number
+          total_fees_paid: number
+          total_wagered: number
+          total_won: number
+          user_id: string
+          win_rate: number
+          wins_count: number
+        }[]
+      }
       get_fixtures_missing_results: {
         Args: {
           batch_limit?: number
@@ -2887,6 +4499,22 @@ export type Database = {
           fixture_timestamp: number
         }[]
       }
+      get_line_movement: {
+        Args: {
+          p_fixture_ids: number[]
+          p_line: number
+          p_market: string
+          p_side: string
+        }
+        Returns: {
+          books: number
+          current_odds: number
+          fixture_id: number
+          open_odds: number
+          opened_at: string
+          updated_at: string
+        }[]
+      }
       get_market_aggregates: { Args: { _market_id: string }; Returns: Json }
       get_market_template_odds: {
         Args: { _fixture_id: number; _resolution_rule: string }
@@ -2916,6 +4544,45 @@ export type Database = {
           league_id: number
         }[]
       }
+      get_private_league_leaderboard: {
+        Args: { _league_id: string }
+        Returns: {
+          balance: number
+          display_name: string
+          losses_count: number
+          positions_count: number
+          rank: number
+          roi: number
+          tier: number
+          total_fees_paid: number
+          total_wagered: number
+          total_won: number
+          user_id: string
+          win_rate: number
+          wins_count: number
+        }[]
+      }
+      get_scorable_journal_legs: {
+        Args: { batch_limit?: number }
+        Returns: {
+          bet_id: string
+          cards_away: number
+          cards_home: number
+          corners_away: number
+          corners_home: number
+          fixture_id: number
+          fouls_away: number
+          fouls_home: number
+          goals_away: number
+          goals_home: number
+          leg_id: string
+          line: number
+          market: string
+          offsides_away: number
+          offsides_home: number
+          side: string
+        }[]
+      }
       get_scorable_pending_legs: {
         Args: { batch_limit?: number }
         Returns: {
@@ -2942,14 +4609,79 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_private_league_member: {
+        Args: { _league_id: string }
+        Returns: boolean
+      }
       is_user_subscriber: { Args: { check_user_id?: string }; Returns: boolean }
       is_user_whitelisted: { Args: never; Returns: boolean }
+      join_private_league: {
+        Args: { _invite_code: string }
+        Returns: Json
+      }
+      leave_private_league: {
+        Args: { _league_id: string }
+        Returns: Json
+      }
+      market_outcome_prices: {
+        Args: {
+          _b: number
+          _market_id: string
+          _pricing_mode: string
+        }
+        Returns: {
+          outcome: string
+          price: number
+        }[]
+      }
       place_market_bet: {
         Args: { _market_id: string; _outcome: string; _stake: number }
         Returns: Json
       }
+      promote_rules_version: {
+        Args: { p_promoted_by?: string; p_version: string }
+        Returns: Json
+      }
+      propose_market_resolution: {
+        Args: {
+          _admin_user_id?: string
+          _challenge_minutes?: number
+          _evidence?: Json
+          _is_system?: boolean
+          _market_id: string
+          _winning_outcome: string
+        }
+        Returns: Json
+      }
       prune_operational_logs: { Args: never; Returns: Json }
+      quote_market_cashout: {
+        Args: { _fraction?: number; _position_id: string }
+        Returns: Json
+      }
+      refresh_team_stat_rates: {
+        Args: { p_last_n?: number; p_lookback_days?: number }
+        Returns: Json
+      }
+      reject_market_resolution: {
+        Args: {
+          _admin_user_id: string
+          _note?: string
+          _proposal_id: string
+        }
+        Returns: Json
+      }
       release_cron_lock: { Args: { p_job_name: string }; Returns: undefined }
+      reserve_api_quota: {
+        Args: {
+          p_account: string
+          p_calls?: number
+          p_daily_ceiling?: number
+          p_job: string
+          p_job_budget?: number
+          p_rpm?: number
+        }
+        Returns: Json
+      }
       resolve_market: {
         Args: {
           _admin_user_id?: string
@@ -2959,6 +4691,19 @@ export type Database = {
         }
         Returns: Json
       }
+      reverse_market_resolution: {
+        Args: {
+          _admin_user_id: string
+          _market_id: string
+          _reason: string
+          _winning_outcome: string
+        }
+        Returns: Json
+      }
+      rollover_market_season: {
+        Args: { _force?: boolean }
+        Returns: Json
+      }
       try_use_feature: {
         Args: { feature_key: string }
         Returns: {
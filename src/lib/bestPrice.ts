@@ -0,0 +1,89 @@
+/**
+ * Best-price routing for ticket legs: pick the best bookmaker per leg from
+ * the price boards returned by get-latest-odds, and compare the routed ticket
+ * with placing every leg at a single bookmaker.
+ */
+
+export interface BookPrice {
+  bookmaker: string;
+  odds: number;
+}
+
+export interface PricedLeg {
+  odds: number;
+  bookmaker: string;
+  prices?: BookPrice[];
+}
+
+export interface OddsBand {
+  min: number;
+  max: number;
+}
+
+export interface BestPriceSummary {
+  currentOdds: number;
+  bestOdds: number;
+  /** Best bookmaker quoting every leg, null when none does */
+  singleBook: BookPrice | null;
+  /** Extra payout of the best-price ticket over the single-book ticket (0.05 = +5%) */
+  upliftVsSingle: number | null;
+  upliftVsCurrent: number;
+  reroutable: number; // legs whose best bookmaker differs from the current one
+}
+
+const NO_BAND: OddsBand = { min: 0, max: Infinity };
+
+/** A leg's board, or its current price when no bookmaker board is available */
+function boardFor(leg: PricedLeg, band: OddsBand): BookPrice[] {
+  const board = (leg.prices ?? []).filter((p) => p.odds >= band.min && p.odds <= band.max);
+  return board.length > 0 ? board : [{ bookmaker: leg.bookmaker, odds: leg.odds }];
+}
+
+/** Highest price inside the band, null when no bookmaker qualifies */
+export function bestBookPrice(prices: BookPrice[] | undefined, band: OddsBand = NO_BAND): BookPrice | null {
+  let best: BookPrice | null = null;
+  for (const p of prices ?? []) {
+    if (p.odds < band.min || p.odds > band.max) continue;
+    if (!best || p.odds > best.odds) best = p;
+  }
+  return best;
+}
+
+export function bestPriceSummary(legs: PricedLeg[], band: OddsBand = NO_BAND): BestPriceSummary {
+  const boards = legs.map((leg) => boardFor(leg, band));
+  const currentOdds = legs.reduce((acc, leg) => acc * leg.odds, 1);
+
+  let bestOdds = 1;
+  let reroutable = 0;
+  boards.forEach((board, i) => {
+    const best = bestBookPrice(board)!;
+    bestOdds *= best.odds;
+    if (best.bookmaker !== legs[i].bookmaker && best.odds > legs[i].odds) reroutable++;
+  });
+
+  // Bookmakers quoting every leg, priced as a whole ticket
+  const singleOdds = new Map<string, number>();
+  boards.forEach((board, i) => {
+    for (const p of board) {
+      if (i === 0) singleOdds.set(p.bookmaker, p.odds);
+      else if (singleOdds.has(p.bookmaker)) singleOdds.set(p.bookmaker, singleOdds.get(p.bookmaker)! * p.odds);
+    }
+    for (const book of [...singleOdds.keys()]) {
+      if (!board.some((p) => p.bookmaker === book)) singleOdds.delete(book);
+    }
+  });
+
+  let singleBook: BookPrice | null = null;
+  for (const [bookmaker, odds] of singleOdds) {
+    if (!singleBook || odds > singleBook.odds) singleBook = { bookmaker, odds };
+  }
+
+  return {
+    currentOdds,
+    bestOdds,
+    singleBook: legs.length > 0 ? singleBook : null,
+    upliftVsSingle: singleBook && legs.length > 0 ? bestOdds / singleBook.odds - 1 : null,
+    upliftVsCurrent: currentOdds > 0 ? bestOdds / currentOdds - 1 : 0,
+    reroutable,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Bet journal statistics: bankroll curve, ROI breakdowns and streaks.
+ * Bets are settled server-side by score-ticket-legs; these helpers only read.
+ */
+
+export type JournalStatus = "PENDING" | "WON" | "LOST" | "VOID";
+
+export interface JournalLeg {
+  id: string;
+  sport?: string; // football when absent
+  fixture_id: number;
+  league_id: number | null;
+  home_team: string | null;
+  away_team: string | null;
+  kickoff_at: string | null;
+  market: string;
+  side: string;
+  line: number;
+  odds: number | null;
+  result_status: string;
+  actual_value: number | null;
+}
+
+export interface JournalBet {
+  id: string;
+  generated_ticket_id: string | null;
+  source: string;
+  mode: string | null;
+  stake: number;
+  bookmaker: string | null;
+  odds_taken: number;
+  quoted_odds: number | null;
+  notes: string | null;
+  status: JournalStatus;
+  payout: number | null;
+  profit: number | null;
+  placed_at: string;
+  settled_at: string | null;
+  legs: JournalLeg[];
+}
+
+export interface JournalSummary {
+  bets: number;
+  settled: number;
+  won: number;
+  lost: number;
+  pending: number;
+  staked: number;
+  profit: number;
+  /** profit / settled stake */
+  roi: number;
+  hit_rate: number;
+  pending_stake: number;
+}
+
+export interface BankrollPoint {
+  time: string;
+  bankroll: number;
+  profit: number;
+}
+
+export interface RoiRow {
+  key: string;
+  bets: number;
+  won: number;
+  staked: number;
+  profit: number;
+  roi: number;
+}
+
+export interface Streaks {
+  longest_win: number;
+  longest_loss: number;
+  /** Positive for a running win streak, negative for losses */
+  current: number;
+}
+
+export type RoiDimension = "market" | "league" | "mode";
+
+/** Bucket for tickets whose legs span several markets / leagues */
+export const MIXED_KEY = "mixed";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isSettled = (b: JournalBet) => b.status !== "PENDING" && b.profit != null;
+
+/** Settled bets in settlement order (placement order as tie-breaker) */
+function settledChronological(bets: JournalBet[]): JournalBet[] {
+  return bets
+    .filter(isSettled)
+    .sort((a, b) =>
+      (a.settled_at ?? a.placed_at).localeCompare(b.settled_at ?? b.placed_at) ||
+      a.placed_at.localeCompare(b.placed_at)
+    );
+}
+
+export function summarizeJournal(bets: JournalBet[]): JournalSummary {
+  const settled = bets.filter(isSettled);
+  const staked = settled.reduce((acc, b) => acc + b.stake, 0);
+  const profit = settled.reduce((acc, b) => acc + (b.profit ?? 0), 0);
+  const won = settled.filter((b) => b.status === "WON").length;
+  const lost = settled.filter((b) => b.status === "LOST").length;
+  const pending = bets.filter((b) => b.status === "PENDING");
+
+  return {
+    bets: bets.length,
+    settled: settled.length,
+    won,
+    lost,
+    pending: pending.length,
+    staked: round2(staked),
+    profit: round2(profit),
+    roi: staked > 0 ? profit / staked : 0,
+    hit_rate: won + lost > 0 ? won / (won + lost) : 0,
+    pending_stake: round2(pending.reduce((acc, b) => acc + b.stake, 0)),
+  };
+}
+
+/** Bankroll after each settled bet, starting from the user's starting bankroll */
+export function bankrollSeries(startingBankroll: number, startedAt: string, bets: JournalBet[]): BankrollPoint[] {
+  const points: BankrollPoint[] = [{ time: startedAt, bankroll: round2(startingBankroll), profit: 0 }];
+  let bankroll = startingBankroll;
+  for (const b of settledChronological(bets)) {
+    bankroll += b.profit ?? 0;
+    points.push({ time: b.settled_at ?? b.placed_at, bankroll: round2(bankroll), profit: b.profit ?? 0 });
+  }
+  return points;
+}
+
+/** Market / league key of a leg; other sports are prefixed as their ids and market names overlap football's */
+function legKey(leg: JournalLeg, dimension: "market" | "league"): string {
+  const key = dimension === "market" ? leg.market : leg.league_id != null ? String(leg.league_id) : "unknown";
+  const sport = leg.sport ?? "football";
+  return sport === "football" || key === "unknown" ? key : `${sport}:${key}`;
+}
+
+function dimensionKey(bet: JournalBet, dimension: RoiDimension): string {
+  if (dimension === "mode") return bet.mode ?? bet.source;
+  const values = new Set(bet.legs.map((l) => legKey(l, dimension)));
+  if (values.size === 0) return "unknown";
+  return values.size === 1 ? [...values][0] : MIXED_KEY;
+}
+
+/**
+ * ROI per market, league or mode over settled bets. An accumulator counts once,
+ * under its single market/league, or under MIXED_KEY when its legs differ.
+ */
+export function roiBreakdown(bets: JournalBet[], dimension: RoiDimension): RoiRow[] {
+  const rows = new Map<string, RoiRow>();
+  for (const b of bets.filter(isSettled)) {
+    const key = dimensionKey(b, dimension);
+    const row = rows.get(key) ?? { key, bets: 0, won: 0, staked: 0, profit: 0, roi: 0 };
+    row.bets++;
+    if (b.status === "WON") row.won++;
+    row.staked += b.stake;
+    row.profit += b.profit ?? 0;
+    rows.set(key, row);
+  }
+  return [...rows.values()]
+    .map((r) => ({ ...r, staked: round2(r.staked), profit: round2(r.profit), roi: r.staked > 0 ? r.profit / r.staked : 0 }))
+    .sort((a, b) => b.staked - a.staked);
+}
+
+/** Win/loss streaks in settlement order; void bets neither extend nor break a streak */
+export function journalStreaks(bets: JournalBet[]): Streaks {
+  let longestWin = 0;
+  let longestLoss = 0;
+  let current = 0;
+  for (const b of settledChronological(bets)) {
+    if (b.status === "WON") current = current > 0 ? current + 1 : 1;
+    else if (b.status === "LOST") current = current < 0 ? current - 1 : -1;
+    else continue;
+    longestWin = Math.max(longestWin, current);
+    longestLoss = Math.max(longestLoss, -current);
+  }
+  return { longest_win: longestWin, longest_loss: longestLoss, current };
+}
@@ -0,0 +1,160 @@
+// =============================================================================
+// Multi-outcome market templates (market_type = 'multi')
+// =============================================================================
+// Outcome sets for the fixture-linked N-way markets. Keys and range buckets
+// must match what market-auto-resolve settles on (keep in sync with
+// supabase/functions/_shared/market_outcomes.ts). Opening odds come from a
+// Poisson model with league-average rates and a 5% margin; the admin edits
+// them before creating the market.
+
+export const MULTI_RESOLUTION_RULES = [
+  "match_result",
+  "correct_score",
+  "first_goal_team",
+  "total_goals_range",
+  "total_corners_range",
+  "total_cards_range",
+] as const;
+
+export type MultiResolutionRule = typeof MULTI_RESOLUTION_RULES[number];
+
+export interface OutcomeDraft {
+  outcome: string;
+  label: string;
+  odds: number;
+  range_min: number | null;
+  range_max: number | null;
+}
+
+export const MULTI_MARKET_TEMPLATES: { label: string; rule: MultiResolutionRule; category: string }[] = [
+  { label: "1X2", rule: "match_result", category: "match" },
+  { label: "Correct Score", rule: "correct_score", category: "goals" },
+  { label: "First Team to Score", rule: "first_goal_team", category: "goals" },
+  { label: "Total Goals", rule: "total_goals_range", category: "goals" },
+  { label: "Total Corners", rule: "total_corners_range", category: "corners" },
+  { label: "Total Cards", rule: "total_cards_range", category: "cards" },
+];
+
+export const MIN_OUTCOMES = 2;
+export const MAX_OUTCOMES = 20;
+
+// League-average rates for the default prices
+const LAMBDA_HOME = 1.45;
+const LAMBDA_AWAY = 1.15;
+const MEAN_CORNERS = 10;
+const MEAN_CARDS = 4.5;
+const MARGIN = 1.05;
+const MAX_SCORE = 3;
+
+// [min, max] inclusive; null max is open-ended
+const RANGE_BUCKETS: Record<"total_goals_range" | "total_corners_range" | "total_cards_range", [number, number | null][]> = {
+  total_goals_range: [[0, 1], [2, 3], [4, null]],
+  total_corners_range: [[0, 7], [8, 10], [11, 13], [14, null]],
+  total_cards_range: [[0, 3], [4, 5], [6, null]],
+};
+
+const RANGE_MEANS = {
+  total_goals_range: LAMBDA_HOME + LAMBDA_AWAY,
+  total_corners_range: MEAN_CORNERS,
+  total_cards_range: MEAN_CARDS,
+};
+
+function poisson(k: number, lambda: number): number {
+  let p = Math.exp(-lambda);
+  for (let i = 1; i <= k; i++) p *= lambda / i;
+  return p;
+}
+
+const poissonCdf = (k: number, lambda: number) => {
+  let total = 0;
+  for (let i = 0; i <= k; i++) total += poisson(i, lambda);
+  return total;
+};
+
+/** Decimal odds with the margin, on the DECIMAL(5,2) grid */
+export const defaultOdds = (probability: number) =>
+  Math.min(999.99, Math.max(1.01, Math.round((1 / (Math.max(probability, 0.001) * MARGIN)) * 100) / 100));
+
+export const rangeLabel = (min: number | null, max: number | null) =>
+  max == null ? `${min ?? 0}+` : min === max ? `${min}` : `${min ?? 0}–${max}`;
+
+/** Default outcome set for a template, labelled with the fixture's team names */
+export function buildOutcomes(rule: MultiResolutionRule, homeTeam: string, awayTeam: string): OutcomeDraft[] {
+  const draft = (outcome: string, label: string, probability: number, range: [number | null, number | null] = [null, null]) => ({
+    outcome,
+    label,
+    odds: defaultOdds(probability),
+    range_min: range[0],
+    range_max: range[1],
+  });
+
+  const score = (h: number, a: number) => poisson(h, LAMBDA_HOME) * poisson(a, LAMBDA_AWAY);
+
+  switch (rule) {
+    case "match_result": {
+      let home = 0;
+      let draw = 0;
+      for (let h = 0; h <= 10; h++) {
+        for (let a = 0; a <= 10; a++) {
+          if (h > a) home += score(h, a);
+          else if (h === a) draw += score(h, a);
+        }
+      }
+      return [
+        draft("home", homeTeam, home),
+        draft("draw", "Draw", draw),
+        draft("away", awayTeam, 1 - home - draw),
+      ];
+    }
+
+    case "correct_score": {
+      const outcomes: OutcomeDraft[] = [];
+      let listed = 0;
+      for (let h = 0; h <= MAX_SCORE; h++) {
+        for (let a = 0; a <= MAX_SCORE; a++) {
+          listed += score(h, a);
+          outcomes.push(draft(`${h}-${a}`, `${h}-${a}`, score(h, a)));
+        }
+      }
+      outcomes.push(draft("other", "Any other score", 1 - listed));
+      return outcomes;
+    }
+
+    case "first_goal_team": {
+      const total = LAMBDA_HOME + LAMBDA_AWAY;
+      const none = Math.exp(-total);
+      return [
+        draft("home", homeTeam, (1 - none) * (LAMBDA_HOME / total)),
+        draft("away", awayTeam, (1 - none) * (LAMBDA_AWAY / total)),
+        draft("none", "No goal", none),
+      ];
+    }
+
+    default: {
+      const mean = RANGE_MEANS[rule];
+      return RANGE_BUCKETS[rule].map(([min, max]) => {
+        const below = min > 0 ? poissonCdf(min - 1, mean) : 0;
+        const upTo = max == null ? 1 : poissonCdf(max, mean);
+        return draft(max == null ? `${min}+` : `${min}-${max}`, rangeLabel(min, max), upTo - below, [min, max]);
+      });
+    }
+  }
+}
+
+/** Outcomes in display order (embedded rows come back unordered) */
+export const sortOutcomes = <T extends { sort_order: number }>(outcomes: T[] | null | undefined): T[] =>
+  [...(outcomes ?? [])].sort((a, b) => a.sort_order - b.sort_order);
+
+/** Net stake on a market of either type */
+export const marketPool = (market: {
+  total_staked_yes: number;
+  total_staked_no: number;
+  market_outcomes?: { total_staked: number }[] | null;
+}) =>
+  market.market_outcomes?.length
+    ? market.market_outcomes.reduce((sum, o) => sum + o.total_staked, 0)
+    : market.total_staked_yes + market.total_staked_no;
+
+/** Display label for an outcome key; falls back to the key itself */
+export const outcomeLabel = (outcomes: { outcome: string; label: string }[] | null | undefined, key: string) =>
+  outcomes?.find((o) => o.outcome === key)?.label ?? key;
@@ -0,0 +1,312 @@
+// =============================================================================
+// Prediction market pricing (mirrors place_market_bet / resolve_market)
+// =============================================================================
+// fixed       - admin-set odds, payout = net stake × odds
+// lmsr        - logarithmic market scoring rule. The maker quotes
+//                 C(q) = b·ln(e^(q_yes/b) + e^(q_no/b)),  p_yes = e^(q_yes/b) / Σ
+//               A net stake buys shares worth 1 coin each if the side wins.
+//               q starts at b·ln(p0) so the opening price is the admin's
+//               price; the maker's worst-case loss is b·ln(1 / min p0).
+// parimutuel  - winners split the pool pro rata. The maker seeds b coins,
+//               split by the opening price, so the first bettor has a price;
+//               the seed is the most the maker can lose.
+//
+// The database is authoritative (prices are computed under the market row
+// lock); this module quotes the same numbers for the bet panel and admin views.
+
+export type PricingMode = "fixed" | "lmsr" | "parimutuel";
+
+export const PRICING_MODES: PricingMode[] = ["fixed", "lmsr", "parimutuel"];
+
+export const MIN_LIQUIDITY = 50;
+export const MAX_LIQUIDITY = 100000;
+export const DEFAULT_LIQUIDITY = 500;
+
+export const CASHOUT_FEE_RATE = 0.02;
+const MIN_FEE = 1;
+
+// Odds columns are DECIMAL(5,2) with odds >= 1.01
+const MIN_ODDS = 1.01;
+const MAX_ODDS = 999.99;
+const MAX_EXP = 700; // keeps exp() inside double range, as in SQL
+
+export interface PricedMarket {
+  pricing_mode: PricingMode;
+  odds_yes: number;
+  odds_no: number;
+  liquidity_b: number | null;
+  initial_price_yes: number;
+  shares_yes: number;
+  shares_no: number;
+  total_staked_yes: number;
+  total_staked_no: number;
+}
+
+export interface Quote {
+  /** Coins paid out if the side wins (estimate for parimutuel) */
+  payout: number;
+  /** Average odds of the bet */
+  odds: number;
+  /** YES price after the bet, 0..1 */
+  priceYesAfter: number;
+}
+
+export const clampOdds = (odds: number) => Math.min(MAX_ODDS, Math.max(MIN_ODDS, odds));
+
+/** Opening YES price from admin odds, normalised to remove the overround */
+export function openingPriceYes(oddsYes: number, oddsNo: number): number {
+  const yes = 1 / oddsYes;
+  const no = 1 / oddsNo;
+  return yes / (yes + no);
+}
+
+/** LMSR quantities including the opening offset */
+function lmsrQuantities(m: PricedMarket, b: number) {
+  return {
+    yes: b * Math.log(m.initial_price_yes) + m.shares_yes,
+    no: b * Math.log(1 - m.initial_price_yes) + m.shares_no,
+  };
+}
+
+function lmsrPriceYes(qYes: number, qNo: number, b: number): number {
+  const x = Math.max(-MAX_EXP, Math.min(MAX_EXP, (qNo - qYes) / b));
+  return 1 / (1 + Math.exp(x));
+}
+
+/**
+ * Shares bought with `cost` coins at side price `p` (closed form of
+ * C(q + x) − C(q) = cost, written to stay finite for large cost / b):
+ *   x = cost − b·ln p + b·ln(1 − (1 − p)·e^(−cost/b))
+ */
+export function lmsrShares(cost: number, price: number, b: number): number {
+  if (cost <= 0) return 0;
+  const decay = Math.exp(-Math.min(MAX_EXP, cost / b));
+  return cost - b * Math.log(price) + b * Math.log(1 - (1 - price) * decay);
+}
+
+/** LMSR cost function C(q) */
+function lmsrCost(qYes: number, qNo: number, b: number): number {
+  const hi = Math.max(qYes, qNo);
+  return hi + b * Math.log(Math.exp((qYes - hi) / b) + Math.exp((qNo - hi) / b));
+}
+
+function parimutuelPools(m: PricedMarket) {
+  const seed = m.liquidity_b ?? 0;
+  return {
+    yes: seed * m.initial_price_yes + m.total_staked_yes,
+    no: seed * (1 - m.initial_price_yes) + m.total_staked_no,
+  };
+}
+
+/** Current YES price (implied probability), 0..1 */
+export function priceYes(m: PricedMarket): number {
+  const b = m.liquidity_b ?? 0;
+  if (m.pricing_mode === "lmsr" && b > 0) {
+    const q = lmsrQuantities(m, b);
+    return lmsrPriceYes(q.yes, q.no, b);
+  }
+  if (m.pricing_mode === "parimutuel") {
+    const pools = parimutuelPools(m);
+    const total = pools.yes + pools.no;
+    if (total > 0) return pools.yes / total;
+  }
+  return openingPriceYes(m.odds_yes, m.odds_no);
+}
+
+/**
+ * Payout and average odds for a net stake on one side. Fixed markets use the
+ * quoted odds; parimutuel payouts are an estimate at the pool after the bet.
+ */
+export function quoteBet(
+  m: PricedMarket,
+  outcome: "yes" | "no",
+  netStake: number
+): Quote {
+  const b = m.liquidity_b ?? 0;
+
+  if (m.pricing_mode === "lmsr" && b > 0) {
+    const q = lmsrQuantities(m, b);
+    const pYes = lmsrPriceYes(q.yes, q.no, b);
+    const shares = lmsrShares(netStake, outcome === "yes" ? pYes : 1 - pYes, b);
+    const after = outcome === "yes" ? lmsrPriceYes(q.yes + shares, q.no, b) : lmsrPriceYes(q.yes, q.no + shares, b);
+    return {
+      payout: Math.floor(shares),
+      odds: netStake > 0 ? Math.min(MAX_ODDS, shares / netStake) : clampOdds(1 / (outcome === "yes" ? pYes : 1 - pYes)),
+      priceYesAfter: after,
+    };
+  }
+
+  if (m.pricing_mode === "parimutuel") {
+    const pools = parimutuelPools(m);
+    if (outcome === "yes") pools.yes += netStake;
+    else pools.no += netStake;
+    const total = pools.yes + pools.no;
+    const side = outcome === "yes" ? pools.yes : pools.no;
+    const odds = side > 0 ? clampOdds(total / side) : MAX_ODDS;
+    return { payout: Math.floor(netStake * odds), odds, priceYesAfter: total > 0 ? pools.yes / total : 0.5 };
+  }
+
+  const odds = outcome === "yes" ? m.odds_yes : m.odds_no;
+  return { payout: Math.floor(netStake * odds), odds, priceYesAfter: openingPriceYes(m.odds_yes, m.odds_no) };
+}
+
+/** Most the maker can lose over the life of the market (null for fixed odds) */
+export function maxMakerLoss(mode: PricingMode, liquidity: number | null, initialPriceYes: number): number | null {
+  if (mode === "fixed" || !liquidity || liquidity <= 0) return null;
+  if (mode === "parimutuel") return liquidity;
+  return liquidity * Math.log(1 / Math.min(initialPriceYes, 1 - initialPriceYes));
+}
+
+/**
+ * Maker's loss right now if each side wins: payouts owed minus net stakes
+ * collected. Negative means the maker is in profit on that outcome.
+ */
+export function currentExposure(
+  m: PricedMarket
+): { yes: number; no: number } {
+  const collected = m.total_staked_yes + m.total_staked_no;
+
+  const b = m.liquidity_b ?? 0;
+  if (m.pricing_mode === "lmsr" && b > 0) {
+    // Net cash taken by the maker is C(q) − C(q0), buys and cash-outs alike
+    const q = lmsrQuantities(m, b);
+    const taken = lmsrCost(q.yes, q.no, b) - lmsrCost(q.yes - m.shares_yes, q.no - m.shares_no, b);
+    return { yes: m.shares_yes - taken, no: m.shares_no - taken };
+  }
+
+  if (m.pricing_mode === "parimutuel") {
+    const pools = parimutuelPools(m);
+    const total = pools.yes + pools.no;
+    const owed = (staked: number, pool: number) => (pool > 0 ? (staked / pool) * total : 0);
+    return {
+      yes: owed(m.total_staked_yes, pools.yes) - collected,
+      no: owed(m.total_staked_no, pools.no) - collected,
+    };
+  }
+
+  return { yes: m.total_staked_yes * m.odds_yes - collected, no: m.total_staked_no * m.odds_no - collected };
+}
+
+export interface CashOutQuote {
+  /** Gross value of the claim at the current price */
+  value: number;
+  fee: number;
+  proceeds: number;
+}
+
+/**
+ * Value of selling `claim` (payout if the side wins) back to the market, as in
+ * quote_market_cashout: fixed odds at the normalised implied probability,
+ * LMSR at the maker's buy-back C(q) − C(q − claim), parimutuel at par for the
+ * net stake leaving the pool. Fee as on placement: 2%, min 1 coin.
+ */
+export function cashOutQuote(
+  m: PricedMarket,
+  outcome: "yes" | "no",
+  claim: number,
+  netStakeSold: number
+): CashOutQuote {
+  let value: number;
+  const b = m.liquidity_b ?? 0;
+
+  if (m.pricing_mode === "parimutuel") {
+    value = netStakeSold;
+  } else if (m.pricing_mode === "lmsr" && b > 0) {
+    const pYes = priceYes(m);
+    const p = outcome === "yes" ? pYes : 1 - pYes;
+    value = -b * Math.log(1 - p * (1 - Math.exp(-Math.min(MAX_EXP, claim / b))));
+  } else {
+    const pYes = openingPriceYes(m.odds_yes, m.odds_no);
+    value = claim * (outcome === "yes" ? pYes : 1 - pYes);
+  }
+
+  const gross = Math.floor(value);
+  const fee = Math.max(MIN_FEE, Math.floor(gross * CASHOUT_FEE_RATE));
+  return { value: gross, fee, proceeds: Math.max(0, gross - fee) };
+}
+
+// =============================================================================
+// Multi-outcome markets (market_type = 'multi')
+// =============================================================================
+// Same three modes over N outcomes, one market_outcomes row each:
+// fixed       - per-outcome admin odds
+// lmsr        - C(q) = b·ln Σ e^(q_i/b), q_i = b·ln(p0_i) + shares_i
+// parimutuel  - pool_i = b·p0_i + staked_i, odds_i = Σ pool / pool_i
+
+export interface PricedOutcome {
+  outcome: string;
+  odds: number;
+  initial_price: number;
+  shares: number;
+  total_staked: number;
+}
+
+export interface OutcomeQuote {
+  payout: number;
+  odds: number;
+  /** Price of the chosen outcome after the bet, 0..1 */
+  priceAfter: number;
+}
+
+function lmsrOutcomePrices(outcomes: PricedOutcome[], b: number, extra?: { outcome: string; shares: number }) {
+  const q = outcomes.map((o) => b * Math.log(o.initial_price) + o.shares + (extra?.outcome === o.outcome ? extra.shares : 0));
+  const hi = Math.max(...q);
+  const weights = q.map((v) => Math.exp(Math.max(-MAX_EXP, (v - hi) / b)));
+  const total = weights.reduce((s, w) => s + w, 0);
+  return Object.fromEntries(outcomes.map((o, i) => [o.outcome, weights[i] / total]));
+}
+
+/** Current price (implied probability) of every outcome; sums to 1 */
+export function outcomePrices(
+  mode: PricingMode,
+  liquidity: number | null,
+  outcomes: PricedOutcome[]
+): Record<string, number> {
+  const b = liquidity ?? 0;
+  if (outcomes.length === 0) return {};
+  if (mode === "lmsr" && b > 0) return lmsrOutcomePrices(outcomes, b);
+
+  const weights =
+    mode === "parimutuel"
+      ? outcomes.map((o) => b * o.initial_price + o.total_staked)
+      : outcomes.map((o) => 1 / o.odds);
+  const total = weights.reduce((s, w) => s + w, 0);
+  return Object.fromEntries(outcomes.map((o, i) => [o.outcome, total > 0 ? weights[i] / total : 1 / outcomes.length]));
+}
+
+/** Payout and average odds for a net stake on one outcome, as priced by place_market_bet */
+export function quoteOutcomeBet(
+  mode: PricingMode,
+  liquidity: number | null,
+  outcomes: PricedOutcome[],
+  outcome: string,
+  netStake: number
+): OutcomeQuote {
+  const b = liquidity ?? 0;
+  const target = outcomes.find((o) => o.outcome === outcome);
+  if (!target) return { payout: 0, odds: MIN_ODDS, priceAfter: 0 };
+
+  if (mode === "lmsr" && b > 0) {
+    const price = lmsrOutcomePrices(outcomes, b)[outcome];
+    const shares = lmsrShares(netStake, price, b);
+    return {
+      payout: Math.floor(shares),
+      odds: netStake > 0 ? Math.min(MAX_ODDS, shares / netStake) : clampOdds(1 / price),
+      priceAfter: lmsrOutcomePrices(outcomes, b, { outcome, shares })[outcome],
+    };
+  }
+
+  if (mode === "parimutuel") {
+    const pools = outcomes.map((o) => b * o.initial_price + o.total_staked + (o.outcome === outcome ? netStake : 0));
+    const total = pools.reduce((s, p) => s + p, 0);
+    const side = pools[outcomes.indexOf(target)];
+    const odds = side > 0 ? clampOdds(total / side) : MAX_ODDS;
+    return { payout: Math.floor(netStake * odds), odds, priceAfter: total > 0 ? side / total : 0 };
+  }
+
+  return {
+    payout: Math.floor(netStake * target.odds),
+    odds: target.odds,
+    priceAfter: outcomePrices(mode, liquidity, outcomes)[outcome],
+  };
+}
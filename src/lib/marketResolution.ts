@@ -0,0 +1,93 @@
+// =============================================================================
+// Market resolution proposals and disputes
+// =============================================================================
+// Mirrors propose_market_resolution / dispute_market_resolution /
+// finalize_due_market_resolutions: a proposal can be disputed by position
+// holders until challenge_ends_at; an undisputed one settles on the next
+// cron sweep after that, a disputed one waits for an admin.
+
+export type ProposalStatus = "open" | "disputed" | "finalized" | "rejected" | "superseded" | "reversed";
+
+export type ResolutionPhase = "challenge" | "settling" | "review" | "settled" | null;
+
+export interface ResolutionProposal {
+  id: string;
+  market_id: string;
+  proposed_outcome: string | null;
+  source: "auto" | "admin";
+  status: ProposalStatus;
+  challenge_ends_at: string;
+  evidence: ResolutionEvidence;
+  created_at: string;
+}
+
+/** fixture_results snapshot plus whatever the proposer added */
+export interface ResolutionEvidence {
+  fixture_id?: number;
+  status?: string;
+  goals_home?: number;
+  goals_away?: number;
+  corners_home?: number | null;
+  corners_away?: number | null;
+  cards_home?: number | null;
+  cards_away?: number | null;
+  first_goal_team?: "home" | "away" | null;
+  resolution_rule?: string;
+  admin_note?: string;
+  reason?: string;
+}
+
+export const DISPUTE_REASON_MIN = 10;
+export const DISPUTE_REASON_MAX = 500;
+
+const LIVE_STATUSES: ProposalStatus[] = ["open", "disputed"];
+
+export const isLiveProposal = (proposal: Pick<ResolutionProposal, "status"> | null | undefined) =>
+  !!proposal && LIVE_STATUSES.includes(proposal.status);
+
+/** Where a market's latest proposal stands */
+export function resolutionPhase(
+  proposal: Pick<ResolutionProposal, "status" | "challenge_ends_at"> | null | undefined,
+  now: Date = new Date()
+): ResolutionPhase {
+  if (!proposal) return null;
+  if (proposal.status === "finalized") return "settled";
+  if (proposal.status === "disputed") return "review";
+  if (proposal.status !== "open") return null;
+  return new Date(proposal.challenge_ends_at) > now ? "challenge" : "settling";
+}
+
+/** Whether a player may still dispute the proposal */
+export function canDispute(
+  proposal: Pick<ResolutionProposal, "status" | "challenge_ends_at"> | null | undefined,
+  hasPosition: boolean,
+  alreadyDisputed: boolean,
+  now: Date = new Date()
+): boolean {
+  if (!proposal || !hasPosition || alreadyDisputed) return false;
+  return isLiveProposal(proposal) && new Date(proposal.challenge_ends_at) > now;
+}
+
+export const isValidDisputeReason = (reason: string) => {
+  const length = reason.trim().length;
+  return length >= DISPUTE_REASON_MIN && length <= DISPUTE_REASON_MAX;
+};
+
+/** Final score in the evidence, e.g. "2–1", or null when there was no fixture result */
+export function evidenceScore(evidence: ResolutionEvidence | null | undefined): string | null {
+  if (evidence?.goals_home == null || evidence.goals_away == null) return null;
+  return `${evidence.goals_home}–${evidence.goals_away}`;
+}
+
+/** Home/away stat lines present in the evidence */
+export function evidenceStats(evidence: ResolutionEvidence | null | undefined) {
+  const stats: { stat: "goals" | "corners" | "cards"; home: number; away: number }[] = [];
+  if (!evidence) return stats;
+
+  for (const stat of ["goals", "corners", "cards"] as const) {
+    const home = evidence[`${stat}_home`];
+    const away = evidence[`${stat}_away`];
+    if (home != null && away != null) stats.push({ stat, home, away });
+  }
+  return stats;
+}
@@ -0,0 +1,39 @@
+// =============================================================================
+// Market coin seasons and divisions
+// =============================================================================
+// Mirrors get_division_leaderboard / rollover_market_season: at season end
+// the top floor(size · promote_share) of a division go up a tier and the
+// bottom floor(size · relegate_share) go down. Promotion wins when a small
+// division's zones overlap. Tier 1 is the top division.
+
+export interface Division {
+  tier: number;
+  name: string;
+  promote_share: number;
+  relegate_share: number;
+}
+
+export type DivisionZone = "promotion" | "relegation" | null;
+export type DivisionMovement = "promoted" | "relegated" | "stayed";
+
+export const INVITE_CODE_LENGTH = 8;
+
+/** Zone for a 1-based rank in a division of `size` players */
+export function divisionZone(rank: number, size: number, division: Pick<Division, "promote_share" | "relegate_share">): DivisionZone {
+  if (rank <= Math.floor(size * division.promote_share)) return "promotion";
+  if (rank > size - Math.floor(size * division.relegate_share)) return "relegation";
+  return null;
+}
+
+/** Tier a player moves to at season end */
+export function nextTier(tier: number, movement: DivisionMovement, bottomTier: number): number {
+  if (movement === "promoted") return Math.max(1, tier - 1);
+  if (movement === "relegated") return Math.min(bottomTier, tier + 1);
+  return tier;
+}
+
+/** Invite codes are stored upper-case without spaces */
+export const normalizeInviteCode = (code: string) => code.replace(/\s+/g, "").toUpperCase();
+
+export const isValidInviteCode = (code: string) =>
+  new RegExp(`^[A-Z0-9]{${INVITE_CODE_LENGTH}}$`).test(normalizeInviteCode(code));
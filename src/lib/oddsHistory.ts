@@ -0,0 +1,108 @@
+/**
+ * Odds history chart helpers: pivot per-bookmaker price changes (as returned
+ * by the odds-history edge function) into one row per capture time.
+ */
+
+export type LineMovementDirection = "toward" | "against" | "flat";
+
+export interface OddsHistoryPoint {
+  market: string;
+  side: string;
+  line: number;
+  bookmaker: string;
+  odds: number;
+  captured_at: string;
+}
+
+export interface LineMovementSummary {
+  open_odds: number;
+  current_odds: number;
+  move_pct: number;
+  direction: LineMovementDirection;
+  books: number;
+  opened_at: string;
+  updated_at: string;
+}
+
+export interface SelectionMovement extends LineMovementSummary {
+  market: string;
+  side: string;
+  line: number;
+}
+
+export interface SteamMove {
+  market: string;
+  side: string;
+  line: number;
+  books: string[];
+  from_odds: number;
+  to_odds: number;
+  move_pct: number;
+  started_at: string;
+  detected_at: string;
+}
+
+export interface OddsChartRow {
+  time: string;
+  timestamp: number;
+  [bookmaker: string]: number | string;
+}
+
+export interface OddsChartPick {
+  market: string;
+  side: string;
+  line: number;
+}
+
+const samePick = (p: OddsChartPick, pick: OddsChartPick) =>
+  p.market === pick.market && p.side === pick.side && Number(p.line) === Number(pick.line);
+
+/**
+ * One row per capture time with every bookmaker's price at that moment
+ * (carried forward until it changes). Keeps the `maxBooks` most active books.
+ */
+export function buildOddsChartRows(
+  points: OddsHistoryPoint[],
+  pick: OddsChartPick,
+  maxBooks = 5
+): { books: string[]; rows: OddsChartRow[] } {
+  const series = points
+    .filter((p) => samePick(p, pick))
+    .sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+
+  const activity = new Map<string, number>();
+  for (const p of series) activity.set(p.bookmaker, (activity.get(p.bookmaker) ?? 0) + 1);
+  const books = [...activity.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, maxBooks)
+    .map(([book]) => book);
+  const kept = new Set(books);
+
+  const current: Record<string, number> = {};
+  const rows: OddsChartRow[] = [];
+  for (const p of series) {
+    if (!kept.has(p.bookmaker)) continue;
+    current[p.bookmaker] = p.odds;
+    const last = rows[rows.length - 1];
+    if (last && last.time === p.captured_at) {
+      last[p.bookmaker] = p.odds;
+    } else {
+      rows.push({ time: p.captured_at, timestamp: new Date(p.captured_at).getTime(), ...current });
+    }
+  }
+
+  return { books, rows };
+}
+
+/** Distinct selections in a history, goals → corners → cards, then by line and side */
+export function historyPicks(points: OddsHistoryPoint[]): OddsChartPick[] {
+  const order = ["goals", "corners", "cards"];
+  const picks = new Map<string, OddsChartPick>();
+  for (const p of points) picks.set(`${p.market}|${p.side}|${p.line}`, { market: p.market, side: p.side, line: Number(p.line) });
+  return [...picks.values()].sort(
+    (a, b) =>
+      order.indexOf(a.market) - order.indexOf(b.market) ||
+      a.line - b.line ||
+      a.side.localeCompare(b.side)
+  );
+}
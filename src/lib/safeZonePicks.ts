@@ -0,0 +1,26 @@
+import type { SafeZonePick } from "@/hooks/useSafeZoneChat";
+import type { FootballTicketLeg } from "@/stores/useTicket";
+import { ticketLegId } from "@/lib/ticketLegs";
+
+/** My Ticket leg for a Safe Zone bot pick */
+export function safeZonePickToLeg(pick: SafeZonePick): FootballTicketLeg {
+  const market = pick.market as FootballTicketLeg["market"];
+  const side = pick.side as FootballTicketLeg["side"];
+  return {
+    id: ticketLegId({ fixtureId: pick.fixture_id, market, side, line: pick.line }),
+    sport: "football",
+    fixtureId: pick.fixture_id,
+    leagueId: pick.league_id,
+    homeTeam: pick.home_team,
+    awayTeam: pick.away_team,
+    kickoffUtc: pick.utc_kickoff,
+    market,
+    side,
+    line: pick.line,
+    odds: pick.odds,
+    bookmaker: pick.bookmaker ?? "",
+    rulesVersion: "v2_combined_matrix_v1",
+    isLive: false,
+    source: "safe_zone",
+  };
+}
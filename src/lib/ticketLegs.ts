@@ -0,0 +1,76 @@
+/**
+ * Sport-aware identity for My Ticket legs. Football legs keep their original
+ * `${fixtureId}-${market}-${side}-${line}` ids so tickets saved before hockey
+ * and basketball legs existed still dedupe and refresh; other sports prefix
+ * the sport because game ids are not unique across providers.
+ */
+
+export type TicketSport = "football" | "hockey" | "basketball";
+
+export type FootballMarket = "goals" | "corners" | "cards" | "offsides" | "fouls" | "1x2";
+
+/** hockey_odds_cache markets (see hockey-sync-odds) */
+export type HockeyMarket =
+  | "total"
+  | "p1_total"
+  | "handicap"
+  | "home_total"
+  | "away_total"
+  | "match_winner"
+  | "reg_winner";
+
+/** basketball_odds_cache markets the journal can settle from the final score (no period scores are stored) */
+export type BasketballMarket = "total" | "spread" | "home_total" | "away_total" | "moneyline";
+
+export const HOCKEY_MARKETS: readonly HockeyMarket[] = [
+  "total",
+  "p1_total",
+  "handicap",
+  "home_total",
+  "away_total",
+  "match_winner",
+  "reg_winner",
+];
+
+export const BASKETBALL_MARKETS: readonly BasketballMarket[] = ["total", "spread", "home_total", "away_total", "moneyline"];
+
+export const SPORT_LABELS: Record<TicketSport, string> = {
+  football: "Football",
+  hockey: "Hockey",
+  basketball: "Basketball",
+};
+
+export interface LegIdentity {
+  sport?: TicketSport;
+  fixtureId: number;
+  market: string;
+  side: string;
+  line: number | string;
+}
+
+/** Legs stored before the sport field existed are football */
+export function legSport(leg: { sport?: TicketSport }): TicketSport {
+  return leg.sport ?? "football";
+}
+
+export function ticketLegId(leg: LegIdentity): string {
+  const base = `${leg.fixtureId}-${leg.market}-${leg.side}-${leg.line}`;
+  const sport = legSport(leg);
+  return sport === "football" ? base : `${sport}:${base}`;
+}
+
+/** One leg per game and market: adding the same market again replaces the leg */
+export function sameLegSlot(
+  a: { sport?: TicketSport; fixtureId: number; market: string },
+  b: { sport?: TicketSport; fixtureId: number; market: string }
+): boolean {
+  return legSport(a) === legSport(b) && a.fixtureId === b.fixtureId && a.market === b.market;
+}
+
+export function isHockeyMarket(market: string): market is HockeyMarket {
+  return (HOCKEY_MARKETS as readonly string[]).includes(market);
+}
+
+export function isBasketballMarket(market: string): market is BasketballMarket {
+  return (BASKETBALL_MARKETS as readonly string[]).includes(market);
+}
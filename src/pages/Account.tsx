@@ -8,6 +8,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAccess } from "@/hooks/useAccess";
 import { useUsername } from "@/hooks/useUsername";
+import { BetJournalSection } from "@/components/BetJournalSection";
 import {
   ArrowLeft, CreditCard, RefreshCw, Sparkles, Check, ChevronDown, ChevronUp,
   XCircle, AtSign, Loader2, X, AlertCircle, User, Crown, Zap, Shield
@@ -228,7 +229,7 @@ const Account = () => {
             Account
           </h1>
           <p className="text-muted-foreground text-sm lg:text-lg">
-            Manage your profile and subscription
+            Manage your profile, subscription and bet journal
           </p>
         </div>
 
@@ -464,6 +465,9 @@ const Account = () => {
               </div>
             </motion.section>
 
+            {/* Bet Journal Section */}
+            {user && <BetJournalSection />}
+
             {/* Plans Section */}
             <AnimatePresence>
               {(showPlans || entitlement) && (
@@ -7,10 +7,14 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Activity, Database, TrendingUp, Zap, Clock, CheckCircle2, XCircle, ShieldAlert, Rocket, Download } from "lucide-react";
+import { Activity, Database, TrendingUp, Zap, Clock, CheckCircle2, XCircle, ShieldAlert, Rocket, Download, Layers, Gauge, Workflow } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { formatDistanceToNow } from "date-fns";
 import { StatsHealthDashboard } from "@/components/StatsHealthDashboard";
+import { RulesMatrixPanel } from "@/components/RulesMatrixPanel";
+import { ClvPanel, type ClvSummary } from "@/components/ClvPanel";
+import { ApiQuotaPanel, type ApiQuotaSummary } from "@/components/ApiQuotaPanel";
+import { PipelineRunsPanel, type PipelinesSummary } from "@/components/PipelineRunsPanel";
 
 type AdminHealthResponse = {
   fixturesCoverage: {
@@ -78,6 +82,9 @@ type AdminHealthResponse = {
     last_five_fixture_ids: number[];
     computed_at: string;
   }[];
+  clv?: ClvSummary;
+  apiQuota?: ApiQuotaSummary;
+  pipelines?: PipelinesSummary;
   timestamp: string;
 };
 
@@ -721,12 +728,44 @@ const AdminHealth = () => {
             <ShieldAlert className="w-4 h-4 mr-2" />
             Stats Health
           </TabsTrigger>
+          <TabsTrigger value="rules">
+            <Layers className="w-4 h-4 mr-2" />
+            Rules Matrix
+          </TabsTrigger>
+          <TabsTrigger value="clv">
+            <TrendingUp className="w-4 h-4 mr-2" />
+            CLV
+          </TabsTrigger>
+          <TabsTrigger value="api-quota">
+            <Gauge className="w-4 h-4 mr-2" />
+            API Quota
+          </TabsTrigger>
+          <TabsTrigger value="pipelines">
+            <Workflow className="w-4 h-4 mr-2" />
+            Pipelines
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="stats-health">
           <StatsHealthDashboard />
         </TabsContent>
 
+        <TabsContent value="rules">
+          <RulesMatrixPanel />
+        </TabsContent>
+
+        <TabsContent value="clv">
+          <ClvPanel clv={data?.clv} />
+        </TabsContent>
+
+        <TabsContent value="api-quota">
+          <ApiQuotaPanel quota={data?.apiQuota} />
+        </TabsContent>
+
+        <TabsContent value="pipelines">
+          <PipelineRunsPanel pipelines={data?.pipelines} onRefresh={() => refetch()} />
+        </TabsContent>
+
         <TabsContent value="overview" className="space-y-6">
       {/* Summary Cards */}
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-5">
@@ -8,10 +8,12 @@ import { useMyCoins } from "@/hooks/useMarkets";
 import { MarketHeader } from "@/components/markets/detail/MarketHeader";
 import { StatsBar } from "@/components/markets/detail/StatsBar";
 import { YesNoDistribution } from "@/components/markets/detail/YesNoDistribution";
+import { OutcomeDistribution } from "@/components/markets/detail/OutcomeDistribution";
 import { BetPanel } from "@/components/markets/detail/BetPanel";
 import { OddsChart } from "@/components/markets/detail/OddsChart";
 import { YourPosition } from "@/components/markets/detail/YourPosition";
 import { ActivityFeed } from "@/components/markets/detail/ActivityFeed";
+import { ResolutionPanel } from "@/components/markets/detail/ResolutionPanel";
 
 const MarketDetail = () => {
   const { id } = useParams<{ id: string }>();
@@ -60,6 +62,7 @@ const MarketDetail = () => {
   }
 
   const isOpen = market.status === "open";
+  const isMulti = market.market_type === "multi";
 
   return (
     <div className="min-h-dvh bg-background pb-20 lg:pb-0">
@@ -83,19 +86,32 @@ const MarketDetail = () => {
             <MarketHeader market={market} />
 
             {/* Stats Bar */}
-            <StatsBar aggregates={aggregates} isLoading={aggregatesLoading} />
+            <StatsBar aggregates={aggregates} isLoading={aggregatesLoading} showSides={!isMulti} />
 
-            {/* YES/NO Distribution */}
-            <YesNoDistribution aggregates={aggregates} />
+            {/* Distribution: YES/NO, or one bar per outcome */}
+            {isMulti ? (
+              <OutcomeDistribution
+                aggregates={aggregates}
+                outcomes={market.market_outcomes}
+                winningOutcome={market.winning_outcome}
+              />
+            ) : (
+              <YesNoDistribution aggregates={aggregates} />
+            )}
+
+            {/* Chart (YES price history; multi-outcome markets have none) */}
+            {!isMulti && (
+              <OddsChart
+                data={chartData || []}
+                resolvedAt={market.resolved_at || undefined}
+              />
+            )}
 
-            {/* Chart */}
-            <OddsChart
-              data={chartData || []}
-              resolvedAt={market.resolved_at || undefined}
-            />
+            {/* Resolution proposal, disputes and settlement history */}
+            <ResolutionPanel market={market} hasPosition={!!myPositions?.length} />
 
             {/* Activity Feed */}
-            <ActivityFeed activity={activity || []} />
+            <ActivityFeed activity={activity || []} outcomes={isMulti ? market.market_outcomes : undefined} />
           </div>
 
           {/* Right Column - Bet Panel & Position */}
@@ -1,28 +1,57 @@
 import { create } from 'zustand';
 import { supabase } from '@/integrations/supabase/client';
-
-export type TicketLeg = {
-  id: string; // `${fixtureId}-${market}-${side}-${line}`
-  fixtureId: number;
+import { bestBookPrice, type BookPrice } from '@/lib/bestPrice';
+import {
+  legSport,
+  sameLegSlot,
+  type BasketballMarket,
+  type FootballMarket,
+  type HockeyMarket,
+  type TicketSport,
+} from '@/lib/ticketLegs';
+
+type TicketLegBase = {
+  id: string; // ticketLegId(): `${fixtureId}-${market}-${side}-${line}`, sport-prefixed outside football
+  fixtureId: number; // fixture id for football, hockey_games / basketball_games id otherwise
   leagueId?: number;
   countryCode?: string;
   homeTeam: string;
   awayTeam: string;
   kickoffUtc: string;
-  market: 'goals' | 'corners' | 'cards' | 'offsides' | 'fouls' | '1x2';
   side: 'over' | 'under' | 'home' | 'away' | 'draw';
   line: number | string;
   odds: number;
   bookmaker: string;
   rulesVersion: string;
   combinedAvg?: number;
+  modelProb?: number; // model win probability when the source provides one
   isLive: boolean;
-  source: 'filterizer' | 'ticket_creator' | 'bet_optimizer' | 'winner';
+  prices?: BookPrice[]; // every bookmaker's price at the last refresh, best first
+  source: 'filterizer' | 'ticket_creator' | 'bet_optimizer' | 'winner' | 'iceedge' | 'safe_zone' | 'basketball_pace';
+};
+
+export type FootballTicketLeg = TicketLegBase & {
+  sport?: 'football'; // absent on legs stored before multi-sport tickets
+  market: FootballMarket;
+};
+
+export type HockeyTicketLeg = TicketLegBase & {
+  sport: 'hockey';
+  market: HockeyMarket;
+};
+
+export type BasketballTicketLeg = TicketLegBase & {
+  sport: 'basketball';
+  market: BasketballMarket;
 };
 
+export type TicketLeg = FootballTicketLeg | HockeyTicketLeg | BasketballTicketLeg;
+
 export type TicketState = {
   legs: TicketLeg[];
   stake: number;
+  bankroll: number | null; // user-set bankroll for Kelly stake suggestions
+  kellyFraction: number;
   createdAt: string;
   lastUpdated: string;
 };
@@ -32,8 +61,10 @@ type TicketActions = {
   removeLeg: (id: string) => void;
   clear: () => void;
   setStake: (stake: number) => void;
-  refreshOdds: () => Promise<void>;
-  hasLeg: (fixtureId: number, market: string) => boolean;
+  setBankroll: (bankroll: number | null) => void;
+  setKellyFraction: (fraction: number) => void;
+  refreshOdds: (options?: { reroute?: boolean }) => Promise<void>;
+  hasLeg: (fixtureId: number, market: string, sport?: TicketSport) => boolean;
   loadFromStorage: () => void;
   loadFromServer: (userId: string) => Promise<void>;
   saveToServer: (userId: string) => Promise<void>;
@@ -41,8 +72,9 @@ type TicketActions = {
 
 const STORAGE_KEY = 'ticket_v1';
 const RULES_VERSION = 'v2_combined_matrix_v1';
-const ODDS_MIN = 1.25;
-const ODDS_MAX = 5.00;
+export const ODDS_MIN = 1.25;
+export const ODDS_MAX = 5.00;
+const DEFAULT_KELLY_FRACTION = 0.25;
 
 const persist = (state: TicketState) => {
   try {
@@ -67,6 +99,8 @@ const loadFromLocalStorage = (): TicketState | null => {
 export const useTicket = create<TicketState & TicketActions>((set, get) => ({
   legs: [],
   stake: 10,
+  bankroll: null,
+  kellyFraction: DEFAULT_KELLY_FRACTION,
   createdAt: new Date().toISOString(),
   lastUpdated: new Date().toISOString(),
 
@@ -76,6 +110,8 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
       set({
         legs: stored.legs,
         stake: stored.stake,
+        bankroll: stored.bankroll ?? null,
+        kellyFraction: stored.kellyFraction ?? DEFAULT_KELLY_FRACTION,
         createdAt: stored.createdAt,
         lastUpdated: stored.lastUpdated,
       });
@@ -101,6 +137,8 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
           set({
             legs: serverTicket.legs,
             stake: serverTicket.stake,
+            bankroll: serverTicket.bankroll ?? null,
+            kellyFraction: serverTicket.kellyFraction ?? DEFAULT_KELLY_FRACTION,
             createdAt: serverTicket.createdAt,
             lastUpdated: serverTicket.lastUpdated,
           });
@@ -117,6 +155,8 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
     const ticketState: TicketState = {
       legs: state.legs,
       stake: state.stake,
+      bankroll: state.bankroll,
+      kellyFraction: state.kellyFraction,
       createdAt: state.createdAt,
       lastUpdated: state.lastUpdated,
     };
@@ -144,9 +184,7 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
     }
 
     set((state) => {
-      const existingIndex = state.legs.findIndex(
-        (l) => l.fixtureId === leg.fixtureId && l.market === leg.market
-      );
+      const existingIndex = state.legs.findIndex((l) => sameLegSlot(l, leg));
 
       let newLegs: TicketLeg[];
 
@@ -190,9 +228,12 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
   },
 
   clear: () => {
+    const { bankroll, kellyFraction } = get();
     const newState = {
       legs: [],
       stake: 10,
+      bankroll, // bankroll settings outlive the ticket
+      kellyFraction,
       createdAt: new Date().toISOString(),
       lastUpdated: new Date().toISOString(),
     };
@@ -212,7 +253,32 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
     });
   },
 
-  refreshOdds: async () => {
+  setBankroll: (bankroll: number | null) => {
+    set((state) => {
+      const newState = {
+        ...state,
+        bankroll: bankroll && bankroll > 0 ? bankroll : null,
+        lastUpdated: new Date().toISOString(),
+      };
+      persist(newState);
+      return newState;
+    });
+  },
+
+  setKellyFraction: (kellyFraction: number) => {
+    set((state) => {
+      const newState = {
+        ...state,
+        kellyFraction: Math.min(1, Math.max(0, kellyFraction)),
+        lastUpdated: new Date().toISOString(),
+      };
+      persist(newState);
+      return newState;
+    });
+  },
+
+  // With `reroute`, each leg moves to the best bookmaker price inside the odds band
+  refreshOdds: async (options) => {
     const state = get();
     if (state.legs.length === 0) return;
 
@@ -220,6 +286,7 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
       const { data, error } = await supabase.functions.invoke('get-latest-odds', {
         body: {
           legs: state.legs.map((leg) => ({
+            sport: legSport(leg),
             fixtureId: leg.fixtureId,
             market: leg.market,
             side: leg.side,
@@ -235,20 +302,30 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
           const updatedLegs = state.legs.map((leg) => {
             const update = data.updates.find(
               (u: any) =>
+                (u.sport ?? 'football') === legSport(leg) &&
                 u.fixtureId === leg.fixtureId &&
                 u.market === leg.market &&
                 u.side === leg.side &&
                 u.line === leg.line
             );
 
-            if (update && update.odds) {
+            if (!update) return leg;
+
+            const prices: BookPrice[] | undefined = update.prices?.length ? update.prices : leg.prices;
+            const best = options?.reroute ? bestBookPrice(prices, { min: ODDS_MIN, max: ODDS_MAX }) : null;
+
+            if (best) {
+              return { ...leg, odds: best.odds, bookmaker: best.bookmaker, prices };
+            }
+            if (update.odds) {
               return {
                 ...leg,
                 odds: update.odds,
                 bookmaker: update.bookmaker || leg.bookmaker,
+                prices,
               };
             }
-            return leg;
+            return { ...leg, prices };
           });
 
           const newState = {
@@ -266,7 +343,7 @@ export const useTicket = create<TicketState & TicketActions>((set, get) => ({
     }
   },
 
-  hasLeg: (fixtureId: number, market: string) => {
-    return get().legs.some((leg) => leg.fixtureId === fixtureId && leg.market === market);
+  hasLeg: (fixtureId: number, market: string, sport: TicketSport = 'football') => {
+    return get().legs.some((leg) => sameLegSlot(leg, { sport, fixtureId, market }));
   },
 }));
@@ -0,0 +1,127 @@
+/**
+ * API Quota Tests
+ *
+ * Verifies the quota policy shared by every api-sports caller:
+ * - Each priority's daily ceiling is its share of the account budget
+ * - The ledger fails fast once deferred, waits out a full minute and
+ *   fails open when the database is unreachable
+ * - QuotaProvider answers refused requests without reaching the API
+ * - Today's usage rolls up per account for admin-health
+ */
+import { describe, it, expect, vi } from "vitest";
+import {
+  ApiQuotaLedger,
+  QuotaProvider,
+  quotaLimits,
+  summarizeApiQuota,
+  type QuotaRpcClient,
+  type QuotaReservation,
+} from "../../supabase/functions/_shared/api_quota.ts";
+import { ReplayProvider } from "../../supabase/functions/_shared/data_provider.ts";
+import { DAILY_CALL_BUDGET, RPM_LIMIT } from "../../supabase/functions/_shared/config.ts";
+
+const allowed: QuotaReservation = { allowed: true, used: 10, job_used: 1, minute_used: 1 };
+
+function rpcClient(answers: (QuotaReservation | Error)[]) {
+  const calls: Record<string, unknown>[] = [];
+  const client: QuotaRpcClient = {
+    rpc: async (_fn, args) => {
+      calls.push(args);
+      const next = answers.shift() ?? allowed;
+      return next instanceof Error ? { data: null, error: { message: next.message } } : { data: next, error: null };
+    },
+  };
+  return { client, calls };
+}
+
+describe("quota policy", () => {
+  it("gives results-refresh the whole budget and backfills the least", () => {
+    expect(quotaLimits("results-refresh", "api-football")).toEqual({
+      daily_ceiling: DAILY_CALL_BUDGET,
+      job_budget: null,
+      rpm: RPM_LIMIT,
+    });
+    const backfill = quotaLimits("stats-turbo-backfill", "api-football");
+    expect(backfill.daily_ceiling).toBe(Math.floor(DAILY_CALL_BUDGET * 0.7));
+    expect(backfill.job_budget).toBe(15000);
+    expect(quotaLimits("hockey-sync-odds", "api-hockey").daily_ceiling).toBeNull();
+  });
+});
+
+describe("ApiQuotaLedger", () => {
+  it("stops calling the database once a daily ceiling refuses", async () => {
+    const refused: QuotaReservation = { allowed: false, reason: "daily", used: 45500, job_used: 900, minute_used: 3 };
+    const { client, calls } = rpcClient([refused]);
+    const ledger = new ApiQuotaLedger(client, "auto-backfill-results");
+
+    expect(await ledger.reserve("football")).toEqual(refused);
+    expect(await ledger.reserve("basketball")).toEqual(refused);
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ p_account: "api-football", p_job: "auto-backfill-results", p_calls: 1 });
+    // Hockey is a separate account
+    expect(await ledger.reserve("hockey")).toBeNull();
+  });
+
+  it("waits for the next minute when the minute is full", async () => {
+    vi.useFakeTimers();
+    try {
+      const { client, calls } = rpcClient([
+        { allowed: false, reason: "rpm", used: 10, job_used: 1, minute_used: 50, retry_after_ms: 2000 },
+      ]);
+      const pending = new ApiQuotaLedger(client, "results-refresh").reserve("football");
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(await pending).toBeNull();
+      expect(calls).toHaveLength(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("fails open when the ledger is unreachable", async () => {
+    const { client } = rpcClient([new Error("connection refused")]);
+    expect(await new ApiQuotaLedger(client, "fetch-odds").reserve("football")).toBeNull();
+  });
+});
+
+describe("QuotaProvider", () => {
+  it("answers refused requests without reaching the API", async () => {
+    const inner = new ReplayProvider([{ api: "football", path: "/status", status: 200, body: { response: {} } }]);
+    const get = vi.spyOn(inner, "get");
+    const { client } = rpcClient([{ allowed: false, reason: "job", used: 100, job_used: 5000, minute_used: 0 }]);
+    const ledger = new ApiQuotaLedger(client, "backfill-odds");
+
+    const res = await new QuotaProvider(inner, () => ledger).get("football", "/status");
+    expect(res).toMatchObject({ ok: false, status: 429, deferred: "job" });
+    expect(get).not.toHaveBeenCalled();
+
+    expect((await new QuotaProvider(inner, () => null).get("football", "/status")).ok).toBe(true);
+  });
+});
+
+describe("summarizeApiQuota", () => {
+  it("rolls today's usage up per account with a projection", () => {
+    const now = new Date("2026-03-12T06:00:00Z");
+    const summary = summarizeApiQuota(
+      [
+        { account: "api-football", job: "results-refresh", calls: 30000, deferred: 0, last_call_at: null, last_deferred_at: null },
+        { account: "api-football", job: "stats-turbo-backfill", calls: 16000, deferred: 4, last_call_at: null, last_deferred_at: null },
+        { account: "api-hockey", job: "hockey-sync-odds", calls: 120, deferred: 0, last_call_at: null, last_deferred_at: null },
+      ],
+      [
+        { account: "api-football", minute: "2026-03-12T06:00:00Z", calls: 12 },
+        { account: "api-football", minute: "2026-03-12T05:59:00Z", calls: 40 },
+      ],
+      now
+    );
+
+    const football = summary.accounts.find((a) => a.account === "api-football")!;
+    expect(football).toMatchObject({ used: 46000, deferred: 4, calls_this_minute: 12, projected: 184000 });
+    expect(football.deferring).toEqual(["low"]);
+    expect(summary.accounts.find((a) => a.account === "api-hockey")).toMatchObject({ used: 120, budget: null });
+    expect(summary.jobs.map((j) => [j.job, j.priority])).toEqual([
+      ["results-refresh", "critical"],
+      ["stats-turbo-backfill", "low"],
+      ["hockey-sync-odds", "normal"],
+    ]);
+  });
+});
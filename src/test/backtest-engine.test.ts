@@ -0,0 +1,132 @@
+/**
+ * Backtest Engine Tests
+ *
+ * Verifies the offline ticket replay in supabase/functions/_shared/backtest.ts:
+ * - Same seed + same samples → identical report
+ * - Bankroll, ROI and max drawdown accounting
+ * - Results split per rules_version
+ * - Leg calibration buckets and CSV output
+ */
+import { describe, it, expect } from "vitest";
+import {
+  runBacktest,
+  computeCalibration,
+  backtestReportToCsv,
+  type BacktestSample,
+  type BacktestModeConfig,
+} from "../../supabase/functions/_shared/backtest.ts";
+
+const SINGLE: BacktestModeConfig = {
+  minLegs: 1,
+  maxLegs: 1,
+  minOdds: 1.25,
+  maxOdds: 5,
+  allowedMarkets: ["goals", "corners"],
+  allowedSides: ["over"],
+  preferredLines: null,
+  avoidLines: null,
+  useLeagueWeights: false,
+  minLeagueWeight: 0,
+};
+
+const makeSample = (overrides: Partial<BacktestSample> = {}): BacktestSample => ({
+  fixtureId: 1,
+  leagueId: 39,
+  market: "goals",
+  side: "over",
+  line: 1.5,
+  odds: 2.0,
+  modelProb: 0.6,
+  kickoffAt: "2026-01-01T15:00:00Z",
+  rulesVersion: "matrix-v3",
+  result: "WIN",
+  source: "selection",
+  ...overrides,
+});
+
+describe("runBacktest", () => {
+  it("is deterministic for a fixed seed", () => {
+    const samples: BacktestSample[] = [];
+    for (let d = 1; d <= 5; d++) {
+      for (let f = 0; f < 6; f++) {
+        samples.push(makeSample({
+          fixtureId: d * 100 + f,
+          odds: 1.3 + f * 0.15,
+          kickoffAt: `2026-01-0${d}T15:00:00Z`,
+          result: (d + f) % 3 === 0 ? "LOSS" : "WIN",
+        }));
+      }
+    }
+    const modes = { balanced: { ...SINGLE, minLegs: 2, maxLegs: 3, minOdds: 2, maxOdds: 6 } };
+    const a = runBacktest(samples, modes, { seed: 7 });
+    const b = runBacktest(samples, modes, { seed: 7 });
+    expect(a).toEqual(b);
+    expect(a.results[0].tickets).toBeGreaterThan(0);
+  });
+
+  it("tracks profit, ROI and max drawdown", () => {
+    const samples = [
+      makeSample({ fixtureId: 1, kickoffAt: "2026-01-01T12:00:00Z", odds: 2.0, result: "WIN" }),
+      makeSample({ fixtureId: 2, kickoffAt: "2026-01-02T12:00:00Z", odds: 2.0, result: "LOSS" }),
+      makeSample({ fixtureId: 3, kickoffAt: "2026-01-03T12:00:00Z", odds: 2.0, result: "LOSS" }),
+      makeSample({ fixtureId: 4, kickoffAt: "2026-01-04T12:00:00Z", odds: 3.0, result: "WIN" }),
+    ];
+    const report = runBacktest(samples, { single: SINGLE }, { seed: 1, stake: 10 });
+    const r = report.results[0];
+    expect(r.tickets).toBe(4);
+    expect(r.won).toBe(2);
+    expect(r.hit_rate).toBe(0.5);
+    expect(r.staked).toBe(40);
+    expect(r.returned).toBe(50);
+    expect(r.roi_pct).toBe(25);
+    // +10 → -10 → peak-to-trough of 20
+    expect(r.max_drawdown).toBe(20);
+  });
+
+  it("settles void legs at odds 1.0 and reports one row per rules version", () => {
+    const samples = [
+      makeSample({ fixtureId: 1, result: "VOID" }),
+      makeSample({ fixtureId: 2, rulesVersion: "matrix-v4", result: "WIN" }),
+    ];
+    const report = runBacktest(samples, { single: SINGLE }, { seed: 1 });
+    expect(report.results.map((r) => r.rules_version)).toEqual(["matrix-v3", "matrix-v4"]);
+    expect(report.results[0].void).toBe(1);
+    expect(report.results[0].profit).toBe(0);
+  });
+
+  it("drops legs outside the mode's markets, sides and avoided lines", () => {
+    const samples = [
+      makeSample({ fixtureId: 1, market: "cards" }),
+      makeSample({ fixtureId: 2, side: "under" }),
+      makeSample({ fixtureId: 3, line: 2.5 }),
+    ];
+    const mode = { ...SINGLE, avoidLines: { goals: [2.5] } };
+    const report = runBacktest(samples, { single: mode }, { seed: 1 });
+    expect(report.results[0].tickets).toBe(0);
+  });
+});
+
+describe("computeCalibration", () => {
+  it("buckets model_prob and computes the Brier score", () => {
+    const legs = [
+      makeSample({ modelProb: 0.62, result: "WIN" }),
+      makeSample({ modelProb: 0.68, result: "LOSS" }),
+      makeSample({ modelProb: 0.91, result: "WIN" }),
+      makeSample({ modelProb: null, result: "WIN" }),
+    ];
+    const { brier, buckets } = computeCalibration(legs, 10);
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0]).toMatchObject({ range: [0.6, 0.7], n: 2, observed: 0.5 });
+    expect(brier).toBeCloseTo((0.38 ** 2 + 0.68 ** 2 + 0.09 ** 2) / 3, 4);
+  });
+});
+
+describe("backtestReportToCsv", () => {
+  it("emits a header plus one row per result", () => {
+    const report = runBacktest([makeSample()], { single: SINGLE }, { seed: 1 });
+    const csv = backtestReportToCsv(report).trim().split("\n");
+    expect(csv[0].startsWith("mode,rules_version,days,tickets")).toBe(true);
+    expect(csv).toHaveLength(2);
+    expect(csv[1].startsWith("single,matrix-v3,1,1,1,0,0,1")).toBe(true);
+  });
+});
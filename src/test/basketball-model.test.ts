@@ -0,0 +1,99 @@
+/**
+ * Basketball Pace Model Tests
+ *
+ * Verifies the possession/pace projection used by basketball-safe-zone:
+ * - Possessions and per-100 ratings from team box scores, with venue splits
+ * - Teams without data fall back to the league baseline
+ * - Back-to-backs lower the tired team's projection
+ * - Market probabilities are consistent with the projection and lines
+ */
+import { describe, it, expect } from "vitest";
+import {
+  aggregatePace,
+  marketQuotes,
+  normalOverProb,
+  possessions,
+  projectGame,
+  restDays,
+  type TeamBoxScore,
+} from "../../supabase/functions/_shared/basketball_model.ts";
+
+const NBA = { avg_total: 225, pace: 99 };
+
+const box = (overrides: Partial<TeamBoxScore> = {}): TeamBoxScore => ({
+  is_home: true,
+  points: 115,
+  points_against: 110,
+  fga: 88,
+  fta: 25,
+  rebounds_off: 10,
+  turnovers: 13,
+  ...overrides,
+});
+
+describe("pace aggregation", () => {
+  it("counts possessions from the box score", () => {
+    expect(possessions(box())).toBe(102);
+    expect(possessions(box({ turnovers: null }))).toBeNull();
+  });
+
+  it("computes ratings overall and by venue, skipping incomplete games", () => {
+    const profile = aggregatePace([
+      box(),
+      box({ is_home: false, points: 102, points_against: 120 }),
+      box({ fga: null }),
+    ]);
+    expect(profile.pace_gp).toBe(2);
+    expect(profile.pace).toBe(102);
+    expect(profile.ortg).toBe(106.4);
+    expect(profile.home_gp).toBe(1);
+    expect(profile.home_ortg).toBe(112.7);
+    expect(profile.away_drtg).toBe(117.6);
+  });
+});
+
+describe("game projection", () => {
+  it("falls back to the league baseline without team data", () => {
+    const p = projectGame(null, null, NBA);
+    expect(p.pace).toBe(99);
+    expect(p.total).toBeCloseTo(225, 0);
+    expect(p.margin).toBeGreaterThan(0);
+    expect(p.venue_splits).toBe(false);
+  });
+
+  it("penalises a team on a back-to-back", () => {
+    const rested = projectGame(null, null, NBA, { home_rest_days: 1, away_rest_days: 2 });
+    const tired = projectGame(null, null, NBA, { home_rest_days: 0, away_rest_days: 2 });
+    expect(tired.home_b2b).toBe(true);
+    expect(tired.home_points).toBeLessThan(rested.home_points);
+    expect(tired.home_win_prob).toBeLessThan(rested.home_win_prob);
+  });
+
+  it("counts calendar days off between games", () => {
+    expect(restDays("2026-01-10T00:30:00Z", "2026-01-11T00:30:00Z")).toBe(0);
+    expect(restDays("2026-01-08T00:30:00Z", "2026-01-11T00:30:00Z")).toBe(2);
+    expect(restDays(null, "2026-01-11T00:30:00Z")).toBeNull();
+  });
+});
+
+describe("market quotes", () => {
+  it("prices totals, spread and periods from the projection", () => {
+    const p = projectGame(null, null, NBA);
+    const quotes = marketQuotes(p, { total: 215.5 });
+    const byMarket = new Map(quotes.map((q) => [q.market, q]));
+
+    expect(byMarket.get("total")!.line).toBe(215.5);
+    expect(byMarket.get("total")!.prob).toBeGreaterThan(0.6);
+    expect(byMarket.get("moneyline")!.prob).toBe(p.home_win_prob);
+    expect(byMarket.get("h1_total")!.projection).toBeCloseTo(p.total * 0.505, 0);
+    for (const q of ["q1_total", "q2_total", "q3_total", "q4_total", "home_total"] as const) {
+      expect(byMarket.get(q)!.prob).toBeGreaterThan(0.4);
+      expect(byMarket.get(q)!.prob).toBeLessThan(0.6);
+    }
+  });
+
+  it("leaves the push out of over on whole lines", () => {
+    expect(normalOverProb(220, 17, 220.5)).toBeLessThan(0.5);
+    expect(normalOverProb(220, 17, 220)).toBe(normalOverProb(220, 17, 220.5));
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Basketball Odds Tests
+ *
+ * Verifies the odds pipeline used by basketball-sync-odds and basketball-safe-zone:
+ * - Provider bet names map to canonical markets; regulation 3-way is ignored
+ * - Selections parse into side + line, spread lines keep their sign
+ * - Implausible prices are dropped
+ * - Main lines and model edges come from the best price per selection
+ */
+import { describe, it, expect } from "vitest";
+import {
+  basketballEdges,
+  bestBasketballPrices,
+  checkSuspiciousBasketballOdds,
+  mainLine,
+  normalizeBasketballMarket,
+  normalizeBasketballSelection,
+  type BasketballOddsRow,
+} from "../../supabase/functions/_shared/basketball_odds.ts";
+import { projectGame, selectionProbability } from "../../supabase/functions/_shared/basketball_model.ts";
+
+const row = (overrides: Partial<BasketballOddsRow>): BasketballOddsRow => ({
+  bookmaker: "bet365",
+  market: "total",
+  selection: "over",
+  line: 160.5,
+  odds: 1.9,
+  ...overrides,
+});
+
+describe("market mapping", () => {
+  it("maps provider bet names to canonical markets", () => {
+    expect(normalizeBasketballMarket("Home/Away")).toBe("moneyline");
+    expect(normalizeBasketballMarket("Over/Under")).toBe("total");
+    expect(normalizeBasketballMarket("Asian Handicap")).toBe("spread");
+    expect(normalizeBasketballMarket("Over/Under 1st Half")).toBe("h1_total");
+    expect(normalizeBasketballMarket("Over/Under 1st Quarter")).toBe("q1_total");
+    expect(normalizeBasketballMarket("Home Total")).toBe("home_total");
+    expect(normalizeBasketballMarket("Asian Handicap 2nd Quarter")).toBeNull();
+    expect(normalizeBasketballMarket("3Way Result")).toBeNull();
+  });
+
+  it("parses selections and signed spread lines", () => {
+    expect(normalizeBasketballSelection("total", "Over 165.5")).toEqual({ selection: "over", line: 165.5 });
+    expect(normalizeBasketballSelection("spread", "Away +4.5")).toEqual({ selection: "away", line: 4.5 });
+    expect(normalizeBasketballSelection("spread", "Home -4.5")).toEqual({ selection: "home", line: -4.5 });
+    expect(normalizeBasketballSelection("moneyline", "Draw")).toBeNull();
+  });
+
+  it("drops implausible prices", () => {
+    expect(checkSuspiciousBasketballOdds("total", 1.9)).toBeNull();
+    expect(checkSuspiciousBasketballOdds("total", 6.5)).not.toBeNull();
+    expect(checkSuspiciousBasketballOdds("moneyline", 9)).toBeNull();
+    expect(checkSuspiciousBasketballOdds("moneyline", 21)).not.toBeNull();
+  });
+});
+
+describe("prices and edges", () => {
+  const rows = [
+    row({ bookmaker: "bet365", odds: 1.87 }),
+    row({ bookmaker: "pinnacle", odds: 1.93 }),
+    row({ selection: "under", odds: 1.9 }),
+    row({ line: 158.5, odds: 1.7 }),
+    row({ line: 158.5, selection: "under", odds: 2.1 }),
+    row({ market: "spread", selection: "home", line: -3.5, odds: 1.95 }),
+    row({ market: "spread", selection: "away", line: 3.5, odds: 1.88 }),
+  ];
+
+  it("keeps the best price per selection and finds the balanced main line", () => {
+    const best = bestBasketballPrices(rows).find((r) => r.market === "total" && r.selection === "over" && r.line === 160.5);
+    expect(best).toMatchObject({ bookmaker: "pinnacle", odds: 1.93 });
+    expect(mainLine(rows, "total")).toBe(160.5);
+    expect(mainLine(rows, "spread")).toBe(-3.5);
+    expect(mainLine(rows, "h1_total")).toBeNull();
+  });
+
+  it("returns edges where the model beats the price, biggest first", () => {
+    const projection = projectGame(null, null, { avg_total: 168, pace: 72 });
+    const edges = basketballEdges(projection, rows);
+    expect(edges.length).toBeGreaterThan(0);
+    expect(edges[0].edge).toBeGreaterThanOrEqual(edges[edges.length - 1].edge);
+    for (const e of edges) {
+      const prob = selectionProbability(projection, e.market, e.selection, e.line)!;
+      expect(e.edge).toBeCloseTo(prob * e.odds - 1, 2);
+    }
+    expect(edges.some((e) => e.market === "total" && e.selection === "over")).toBe(true);
+  });
+});
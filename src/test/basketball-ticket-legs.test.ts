@@ -0,0 +1,83 @@
+/**
+ * Basketball Ticket Leg Tests
+ *
+ * Verifies basketball leg pricing for get-latest-odds and settlement used by
+ * basketball-sync-results:
+ * - Price boards keep each bookmaker's best price for the exact selection
+ * - Totals and moneyline include overtime; spread lines are per selection
+ * - Legs stay unsettled until the game is final with scores; cancelled / abandoned games void them
+ */
+import { describe, it, expect } from "vitest";
+import { isBasketballMarket } from "../lib/ticketLegs";
+import {
+  basketballPriceBoard,
+  scoreBasketballLeg,
+  type BasketballGameResult,
+} from "../../supabase/functions/_shared/basketball_legs.ts";
+
+const game = (overrides: Partial<BasketballGameResult> = {}): BasketballGameResult => ({
+  status_short: "AOT",
+  home_score: 88,
+  away_score: 84,
+  ...overrides,
+});
+
+describe("basketball ticket markets", () => {
+  it("only offers markets settled from the final score", () => {
+    expect(isBasketballMarket("spread")).toBe(true);
+    expect(isBasketballMarket("h1_total")).toBe(false);
+    expect(isBasketballMarket("q1_total")).toBe(false);
+  });
+});
+
+describe("basketball price board", () => {
+  it("keeps the exact selection and per-side line, best first", () => {
+    const board = basketballPriceBoard(
+      [
+        { bookmaker: "A", market: "spread", selection: "away", line: 4.5, odds: 1.88 },
+        { bookmaker: "B", market: "spread", selection: "away", line: 4.5, odds: 1.92 },
+        { bookmaker: "A", market: "spread", selection: "home", line: -4.5, odds: 1.95 },
+        { bookmaker: "C", market: "spread", selection: "away", line: 5.5, odds: 1.8 },
+      ],
+      { market: "spread", side: "away", line: "4.5" }
+    );
+    expect(board).toEqual([
+      { bookmaker: "B", odds: 1.92 },
+      { bookmaker: "A", odds: 1.88 },
+    ]);
+  });
+});
+
+describe("basketball leg settlement", () => {
+  it("settles totals on the final score including overtime", () => {
+    expect(scoreBasketballLeg({ market: "total", side: "over", line: 170.5 }, game())).toEqual({ result_status: "WIN", actual_value: 172 });
+    expect(scoreBasketballLeg({ market: "away_total", side: "under", line: 84 }, game())).toEqual({ result_status: "PUSH", actual_value: 84 });
+  });
+
+  it("settles spreads on the per-selection line", () => {
+    expect(scoreBasketballLeg({ market: "spread", side: "home", line: -4.5 }, game())?.result_status).toBe("LOSS");
+    expect(scoreBasketballLeg({ market: "spread", side: "away", line: 4.5 }, game())?.result_status).toBe("WIN");
+    expect(scoreBasketballLeg({ market: "spread", side: "home", line: -4 }, game())?.result_status).toBe("PUSH");
+  });
+
+  it("settles moneyline and never on a level score", () => {
+    expect(scoreBasketballLeg({ market: "moneyline", side: "home", line: 0 }, game())?.result_status).toBe("WIN");
+    expect(scoreBasketballLeg({ market: "moneyline", side: "away", line: 0 }, game())?.result_status).toBe("LOSS");
+    expect(scoreBasketballLeg({ market: "moneyline", side: "home", line: 0 }, game({ away_score: 88 }))).toBeNull();
+  });
+
+  it("waits for a final status and both scores", () => {
+    expect(scoreBasketballLeg({ market: "total", side: "over", line: 150.5 }, game({ status_short: "Q4" }))).toBeNull();
+    expect(scoreBasketballLeg({ market: "total", side: "over", line: 150.5 }, game({ home_score: null }))).toBeNull();
+    expect(scoreBasketballLeg({ market: "h1_total", side: "over", line: 80.5 }, game())).toBeNull();
+  });
+
+  it("voids every market on a cancelled or abandoned game", () => {
+    expect(scoreBasketballLeg({ market: "spread", side: "home", line: -4.5 }, game({ status_short: "CANC", home_score: null }))).toEqual({
+      result_status: "VOID",
+      actual_value: null,
+    });
+    expect(scoreBasketballLeg({ market: "total", side: "under", line: 160.5 }, game({ status_short: "ABD" }))?.result_status).toBe("VOID");
+    expect(scoreBasketballLeg({ market: "total", side: "under", line: 160.5 }, game({ status_short: "POST" }))).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Best-Price Routing Tests
+ *
+ * Verifies the per-leg bookmaker boards built by get-latest-odds and the
+ * ticket drawer's best-price summary:
+ * - One price per bookmaker, best first
+ * - Routed ticket vs the best single bookmaker covering every leg
+ * - Prices outside the ticket odds band are never routed to
+ */
+import { describe, it, expect } from "vitest";
+import { priceBoard, type TotalsPrice } from "../../supabase/functions/_shared/odds_normalization.ts";
+import { bestBookPrice, bestPriceSummary } from "../lib/bestPrice";
+
+const price = (bookmaker: string, odds: number, line = 2.5, side: "over" | "under" = "over"): TotalsPrice => ({
+  market: "goals",
+  side,
+  line,
+  odds,
+  bookmaker,
+});
+
+describe("priceBoard", () => {
+  it("keeps each bookmaker's best price for the selection, best first", () => {
+    const prices = [
+      price("Bet365", 1.9),
+      price("Unibet", 2.0),
+      price("Bet365", 1.95),
+      price("Pinnacle", 2.4, 3.5),
+      price("Pinnacle", 1.8, 2.5, "under"),
+    ];
+    expect(priceBoard(prices, { market: "goals", side: "over", line: 2.5 })).toEqual([
+      { bookmaker: "Unibet", odds: 2.0 },
+      { bookmaker: "Bet365", odds: 1.95 },
+    ]);
+  });
+});
+
+describe("bestPriceSummary", () => {
+  const legs = [
+    { odds: 1.8, bookmaker: "Bet365", prices: [{ bookmaker: "Unibet", odds: 1.95 }, { bookmaker: "Bet365", odds: 1.8 }] },
+    { odds: 2.1, bookmaker: "Bet365", prices: [{ bookmaker: "Bet365", odds: 2.1 }, { bookmaker: "Unibet", odds: 2.0 }] },
+  ];
+
+  it("compares the routed ticket with the best single bookmaker", () => {
+    const s = bestPriceSummary(legs);
+    expect(s.currentOdds).toBeCloseTo(3.78, 6);
+    expect(s.bestOdds).toBeCloseTo(4.095, 6);
+    expect(s.singleBook?.bookmaker).toBe("Unibet");
+    expect(s.singleBook?.odds).toBeCloseTo(3.9, 6);
+    expect(s.upliftVsSingle).toBeCloseTo(0.05, 6);
+    expect(s.reroutable).toBe(1);
+  });
+
+  it("has no single book when no bookmaker quotes every leg", () => {
+    const s = bestPriceSummary([...legs, { odds: 1.7, bookmaker: "Pinnacle" }]);
+    expect(s.singleBook).toBeNull();
+    expect(s.upliftVsSingle).toBeNull();
+  });
+
+  it("ignores prices outside the odds band", () => {
+    const band = { min: 1.25, max: 5 };
+    expect(bestBookPrice([{ bookmaker: "A", odds: 5.5 }, { bookmaker: "B", odds: 4.8 }], band)).toEqual({ bookmaker: "B", odds: 4.8 });
+    expect(bestBookPrice([{ bookmaker: "A", odds: 1.1 }], band)).toBeNull();
+  });
+});
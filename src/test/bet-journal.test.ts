@@ -0,0 +1,151 @@
+/**
+ * Bet Journal Tests
+ *
+ * Verifies leg settlement shared by score-ticket-legs and the journal stats
+ * shown on the Account page:
+ * - Over/under scoring, ticket status and void/push re-pricing
+ * - Bankroll curve, ROI breakdowns and streaks
+ */
+import { describe, it, expect } from "vitest";
+import {
+  legActualValue,
+  scoreOverUnder,
+  settleJournalBet,
+  tallyLegs,
+  ticketStatusFromTally,
+} from "../../supabase/functions/_shared/leg_scoring.ts";
+import {
+  bankrollSeries,
+  journalStreaks,
+  roiBreakdown,
+  summarizeJournal,
+  MIXED_KEY,
+  type JournalBet,
+  type JournalLeg,
+} from "../lib/betJournal";
+
+const totals = {
+  goals_home: 2,
+  goals_away: 1,
+  corners_home: 6,
+  corners_away: 4,
+  cards_home: null,
+  cards_away: 2,
+  fouls_home: 11,
+  fouls_away: 13,
+};
+
+describe("leg scoring", () => {
+  it("derives match totals and skips markets without stats", () => {
+    expect(legActualValue("goals", totals)).toBe(3);
+    expect(legActualValue("total_corners", totals)).toBe(10);
+    expect(legActualValue("fouls", totals)).toBe(24);
+    expect(legActualValue("cards", totals)).toBeNull();
+    expect(legActualValue("offsides", totals)).toBeNull();
+    expect(legActualValue("team_goals", totals)).toBeNull();
+  });
+
+  it("scores over/under with pushes on whole lines", () => {
+    expect(scoreOverUnder("over", 2.5, 3)).toBe("WIN");
+    expect(scoreOverUnder("Under", 2.5, 3)).toBe("LOSS");
+    expect(scoreOverUnder("over", 3, 3)).toBe("PUSH");
+    expect(scoreOverUnder("yes", 0.5, 3)).toBeNull();
+  });
+
+  it("derives ticket status like score-ticket-legs always has", () => {
+    expect(ticketStatusFromTally(tallyLegs(["WIN", "LOSS", "PENDING"]))).toBe("LOST");
+    expect(ticketStatusFromTally(tallyLegs(["WIN", "PENDING"]))).toBe("PARTIAL");
+    expect(ticketStatusFromTally(tallyLegs(["VOID", "VOID"]))).toBe("VOID");
+    expect(ticketStatusFromTally(tallyLegs(["WIN", "PUSH"]))).toBe("WON");
+    expect(ticketStatusFromTally(tallyLegs(["PENDING"]))).toBe("PENDING");
+  });
+
+  it("settles journal bets and re-prices pushed legs at 1.00", () => {
+    expect(settleJournalBet(10, 4, [{ result_status: "WIN", odds: 2 }, { result_status: "LOSS", odds: 2 }]))
+      .toEqual({ status: "LOST", payout: 0, profit: -10 });
+    expect(settleJournalBet(10, 4, [{ result_status: "WIN", odds: 2 }, { result_status: "PUSH", odds: 2 }]))
+      .toEqual({ status: "WON", payout: 20, profit: 10 });
+    expect(settleJournalBet(10, 4, [{ result_status: "VOID", odds: 2 }, { result_status: "VOID", odds: 2 }]))
+      .toEqual({ status: "VOID", payout: 10, profit: 0 });
+    expect(settleJournalBet(10, 4, [{ result_status: "WIN", odds: 2 }, { result_status: "PENDING", odds: 2 }]).status)
+      .toBe("PENDING");
+  });
+});
+
+const leg = (market: string, league_id: number | null): JournalLeg => ({
+  id: `${market}-${league_id}`,
+  fixture_id: 1,
+  league_id,
+  home_team: null,
+  away_team: null,
+  kickoff_at: null,
+  market,
+  side: "over",
+  line: 2.5,
+  odds: 2,
+  result_status: "WIN",
+  actual_value: null,
+});
+
+const bet = (
+  id: string,
+  status: JournalBet["status"],
+  profit: number | null,
+  settled_at: string | null,
+  legs: JournalLeg[] = [leg("goals", 39)],
+  mode: string | null = "balanced"
+): JournalBet => ({
+  id,
+  generated_ticket_id: null,
+  source: "my_ticket",
+  mode,
+  stake: 10,
+  bookmaker: null,
+  odds_taken: 3,
+  quoted_odds: null,
+  notes: null,
+  status,
+  payout: null,
+  profit,
+  placed_at: "2026-05-01T10:00:00Z",
+  settled_at,
+  legs,
+});
+
+const bets: JournalBet[] = [
+  bet("a", "WON", 20, "2026-05-02T20:00:00Z"),
+  bet("b", "LOST", -10, "2026-05-03T20:00:00Z", [leg("corners", 39)]),
+  bet("c", "LOST", -10, "2026-05-04T20:00:00Z", [leg("goals", 39), leg("corners", 140)], "ai"),
+  bet("d", "VOID", 0, "2026-05-05T20:00:00Z"),
+  bet("e", "LOST", -10, "2026-05-06T20:00:00Z"),
+  bet("f", "PENDING", null, null),
+];
+
+describe("journal stats", () => {
+  it("summarizes settled bets only", () => {
+    const s = summarizeJournal(bets);
+    expect(s.settled).toBe(5);
+    expect(s.pending).toBe(1);
+    expect(s.staked).toBe(50);
+    expect(s.profit).toBe(-10);
+    expect(s.roi).toBeCloseTo(-0.2, 10);
+    expect(s.hit_rate).toBeCloseTo(0.25, 10);
+  });
+
+  it("builds the bankroll curve in settlement order", () => {
+    const series = bankrollSeries(100, "2026-05-01T00:00:00Z", [...bets].reverse());
+    expect(series.map((p) => p.bankroll)).toEqual([100, 120, 110, 100, 100, 90]);
+  });
+
+  it("breaks ROI down by market, league and mode", () => {
+    const byMarket = roiBreakdown(bets, "market");
+    expect(byMarket.find((r) => r.key === "goals")).toMatchObject({ bets: 3, won: 1, profit: 10 });
+    expect(byMarket.find((r) => r.key === MIXED_KEY)).toMatchObject({ bets: 1, profit: -10 });
+    expect(roiBreakdown(bets, "league").map((r) => r.key).sort()).toEqual(["39", MIXED_KEY]);
+    expect(roiBreakdown(bets, "mode").find((r) => r.key === "ai")?.roi).toBeCloseTo(-1, 10);
+  });
+
+  it("finds the longest streaks, ignoring voids", () => {
+    expect(journalStreaks(bets)).toEqual({ longest_win: 1, longest_loss: 3, current: -3 });
+  });
+});
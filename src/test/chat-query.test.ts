@@ -0,0 +1,128 @@
+/**
+ * Safe Zone Chat Query Parser Tests
+ *
+ * Verifies the grammar used by safe-zone-chat to interpret free text:
+ * - Side/line vs odds comparisons ("corners over 9.5 above 1.6")
+ * - Leagues, countries and teams from the vocabulary, with exclusions
+ * - Kickoff windows (today, next N hours, before/after a time)
+ * - Unrecognized words are reported instead of silently dropped
+ * - Chip filters override the text; edited interpretations are re-validated
+ */
+import { describe, it, expect } from "vitest";
+import {
+  applyChatFilters,
+  interpretationLeagueIds,
+  matchesTeams,
+  parseChatQuery,
+  sanitizeInterpretation,
+  type ChatVocabulary,
+} from "../../supabase/functions/_shared/chat_query.ts";
+
+const NOW = new Date("2026-03-12T10:00:00Z"); // Thursday
+
+const vocab: ChatVocabulary = {
+  leagues: [
+    { id: 39, name: "Premier League", country: "England" },
+    { id: 235, name: "Premier League", country: "Russia" },
+    { id: 140, name: "La Liga", country: "Spain" },
+    { id: 141, name: "Segunda División", country: "Spain" },
+    { id: 135, name: "Serie A", country: "Italy" },
+  ],
+  teams: ["Arsenal", "Manchester City", "Real Madrid", "FC Barcelona"],
+};
+
+describe("markets, sides and odds", () => {
+  it("separates the line from an odds comparison", () => {
+    const q = parseChatQuery("top 5 corners over 9.5 above 1.6", vocab, NOW);
+    expect(q.limit).toBe(5);
+    expect(q.markets).toEqual(["corners"]);
+    expect(q).toMatchObject({ side: "over", line: 9.5, odds_min: 1.6, odds_max: null });
+    expect(q.unparsed).toEqual([]);
+  });
+
+  it("reads odds ranges, shorthand lines and line bounds", () => {
+    expect(parseChatQuery("goals u2.5 odds 1.5-1.9", vocab, NOW)).toMatchObject({
+      side: "under",
+      line: 2.5,
+      odds_min: 1.5,
+      odds_max: 1.9,
+    });
+    expect(parseChatQuery("corners line above 9 odds under 2", vocab, NOW)).toMatchObject({
+      line_min: 9,
+      odds_max: 2,
+      side: null,
+    });
+    expect(parseChatQuery("confidence above 70 @1.7", vocab, NOW)).toMatchObject({ min_confidence: 70, odds_min: 1.7 });
+  });
+});
+
+describe("entities", () => {
+  it("resolves leagues, countries and teams, with exclusions", () => {
+    const q = parseChatQuery("la liga and serie a without real madrid, no cards", vocab, NOW);
+    expect(q.leagues.map((l) => l.id)).toEqual([140, 135]);
+    expect(q.exclude_teams).toEqual(["Real Madrid"]);
+    expect(q.exclude_markets).toEqual(["cards"]);
+    expect(q.markets).toEqual([]);
+  });
+
+  it("continues an exclusion across a list and expands countries", () => {
+    const q = parseChatQuery("exclude spain and italy", vocab, NOW);
+    expect(q.exclude_countries).toEqual(["Spain", "Italy"]);
+    expect(interpretationLeagueIds(q, vocab)).toEqual({ include: null, exclude: [140, 141, 135] });
+  });
+
+  it("uses a country to pick between leagues with the same name", () => {
+    expect(parseChatQuery("premier league england", vocab, NOW).leagues).toEqual([{ id: 39, name: "Premier League" }]);
+    expect(parseChatQuery("epl", vocab, NOW).leagues.map((l) => l.id)).toEqual([39, 235]);
+  });
+
+  it("matches teams without their club affix", () => {
+    const q = parseChatQuery("barcelona games", vocab, NOW);
+    expect(q.teams).toEqual(["FC Barcelona"]);
+    expect(matchesTeams({ home_team: "FC Barcelona", away_team: "Girona" }, q)).toBe(true);
+    expect(matchesTeams({ home_team: "Arsenal", away_team: "Girona" }, q)).toBe(false);
+  });
+});
+
+describe("kickoff windows", () => {
+  it("handles today, tomorrow and hour windows", () => {
+    expect(parseChatQuery("today", vocab, NOW).window).toEqual({
+      label: "today",
+      from: "2026-03-12T10:00:00.000Z",
+      to: "2026-03-13T00:00:00.000Z",
+    });
+    expect(parseChatQuery("next 6 hours", vocab, NOW).window.to).toBe("2026-03-12T16:00:00.000Z");
+    expect(parseChatQuery("saturday", vocab, NOW).window.from).toBe("2026-03-14T00:00:00.000Z");
+  });
+
+  it("narrows the day with before/after", () => {
+    const q = parseChatQuery("tomorrow after 18:30", vocab, NOW);
+    expect(q.window.from).toBe("2026-03-13T18:30:00.000Z");
+    expect(q.window.label).toBe("tomorrow after 18:30");
+  });
+});
+
+describe("unparsed words, filters and edits", () => {
+  it("reports what it did not understand", () => {
+    expect(parseChatQuery("corners in narnia please", vocab, NOW).unparsed).toEqual(["narnia"]);
+  });
+
+  it("lets chip filters override the text", () => {
+    const q = applyChatFilters(parseChatQuery("corners today", vocab, NOW), { market: "all", date: "48h" }, vocab, NOW);
+    expect(q.markets).toEqual([]);
+    expect(q.window.label).toBe("48h");
+    expect(applyChatFilters(q, { min_confidence: 0.65 }, vocab, NOW).min_confidence).toBe(65);
+  });
+
+  it("re-validates an interpretation sent back by the client", () => {
+    const q = sanitizeInterpretation(
+      { limit: 500, markets: ["corners", "drop table"], side: "sideways", odds_min: 1.5, window: { label: "x", from: "2020-01-01", to: "2099-01-01" } },
+      NOW
+    );
+    expect(q.limit).toBe(50);
+    expect(q.markets).toEqual(["corners"]);
+    expect(q.side).toBeNull();
+    expect(q.window.from).toBe(NOW.toISOString());
+    expect(q.window.to).toBe("2026-03-19T10:00:00.000Z");
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Safe Zone Chat Follow-up Tests
+ *
+ * Verifies how safe-zone-chat applies a message to the session's last results:
+ * - Follow-up commands are told apart from fresh queries
+ * - Ordinals ("second", "#3", "last") resolve against the result set
+ * - Stated fields replace the last interpretation, the rest carries over
+ * - Narrowing filters the set; swapping and "more" skip picks already shown
+ */
+import { describe, it, expect } from "vitest";
+import {
+  matchesInterpretation,
+  normalizeChatText,
+  parseChatQuery,
+  type ChatPick,
+  type ChatVocabulary,
+} from "../../supabase/functions/_shared/chat_query.ts";
+import {
+  appendPicks,
+  mergeInterpretation,
+  parseFollowUp,
+  resolvePickIndex,
+  swapPick,
+} from "../../supabase/functions/_shared/chat_session.ts";
+
+const NOW = new Date("2026-03-12T10:00:00Z");
+
+const vocab: ChatVocabulary = {
+  leagues: [
+    { id: 39, name: "Premier League", country: "England" },
+    { id: 140, name: "La Liga", country: "Spain" },
+  ],
+  teams: ["Arsenal", "Real Madrid"],
+};
+
+const pick = (overrides: Partial<ChatPick>): ChatPick => ({
+  fixture_id: 1,
+  league_id: 39,
+  home_team: "Arsenal",
+  away_team: "Chelsea",
+  utc_kickoff: "2026-03-12T19:00:00Z",
+  market: "corners",
+  side: "over",
+  line: 9.5,
+  odds: 1.7,
+  confidence_score: 0.72,
+  ...overrides,
+});
+
+const followUp = (text: string) => parseFollowUp(normalizeChatText(text));
+
+describe("follow-up grammar", () => {
+  it("recognizes commands on the last results", () => {
+    expect(followUp("swap the second pick")).toEqual({ kind: "swap", index: 2 });
+    expect(followUp("Replace #3")).toEqual({ kind: "swap", index: 3 });
+    expect(followUp("remove the last one")).toEqual({ kind: "remove", index: -1 });
+    expect(followUp("drop pick 4")).toEqual({ kind: "remove", index: 4 });
+    expect(followUp("show me more")).toEqual({ kind: "more", count: 5 });
+    expect(followUp("3 more")).toEqual({ kind: "more", count: 3 });
+    expect(followUp("Now only Spain")).toEqual({ kind: "narrow", text: "spain" });
+    expect(followUp("of those, odds above 1.6")).toEqual({ kind: "narrow", text: "odds above 1.6" });
+    expect(followUp("same but tomorrow")).toEqual({ kind: "modify", text: "tomorrow" });
+    expect(followUp("what about goals?")).toEqual({ kind: "modify", text: "goals" });
+  });
+
+  it("leaves fresh queries alone", () => {
+    expect(followUp("top 5 corners today")).toBeNull();
+    expect(followUp("skip la liga")).toBeNull();
+  });
+
+  it("resolves ordinals against the result set", () => {
+    expect(resolvePickIndex(2, 5)).toBe(1);
+    expect(resolvePickIndex(-1, 5)).toBe(4);
+    expect(resolvePickIndex(6, 5)).toBeNull();
+    expect(resolvePickIndex(-1, 0)).toBeNull();
+  });
+});
+
+describe("session state", () => {
+  it("keeps unstated fields and resolves include / exclude conflicts", () => {
+    const prev = parseChatQuery("top 5 corners over 9.5 in spain today", vocab, NOW);
+    const merged = mergeInterpretation(prev, parseChatQuery("no corners tomorrow", vocab, NOW), NOW);
+    expect(merged.limit).toBe(5);
+    expect(merged.countries).toEqual(["Spain"]);
+    expect(merged.markets).toEqual([]);
+    expect(merged.exclude_markets).toEqual(["corners"]);
+    expect(merged.window.label).toBe("tomorrow");
+    expect(merged).toMatchObject({ side: "over", line: 9.5 });
+  });
+
+  it("narrows the set in memory", () => {
+    const set = [pick({ fixture_id: 1 }), pick({ fixture_id: 2, league_id: 140 }), pick({ fixture_id: 3, odds: 1.5 })];
+    const prev = parseChatQuery("corners", vocab, NOW);
+    const onlySpain = mergeInterpretation(prev, parseChatQuery("spain", vocab, NOW), NOW);
+    expect(set.filter((p) => matchesInterpretation(p, onlySpain, vocab)).map((p) => p.fixture_id)).toEqual([2]);
+    const pricier = mergeInterpretation(prev, parseChatQuery("above 1.6", vocab, NOW), NOW);
+    expect(set.filter((p) => matchesInterpretation(p, pricier, vocab)).map((p) => p.fixture_id)).toEqual([1, 2]);
+  });
+
+  it("swaps and appends only picks not already shown", () => {
+    const set = [pick({ fixture_id: 1 }), pick({ fixture_id: 2 })];
+    const candidates = [pick({ fixture_id: 2 }), pick({ fixture_id: 3 }), pick({ fixture_id: 4 })];
+    expect(swapPick(set, 0, candidates)?.map((p) => p.fixture_id)).toEqual([3, 2]);
+    expect(swapPick(set, 0, [pick({ fixture_id: 1 })])).toBeNull();
+    expect(appendPicks(set, candidates, 1).map((p) => p.fixture_id)).toEqual([1, 2, 3]);
+  });
+});
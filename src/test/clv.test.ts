@@ -0,0 +1,81 @@
+/**
+ * Closing Line Value Tests
+ *
+ * Verifies the helpers shared by clv-snapshot and admin-health:
+ * - Closing price from the same bookmaker or the cross-book median
+ * - De-vigged fair probability and CLV percentages
+ * - Aggregation by market, line, league and rules version
+ */
+import { describe, it, expect } from "vitest";
+import { aggregateClv, closingLine, computeClv, type ClvRow } from "../../supabase/functions/_shared/clv.ts";
+import type { TotalsPrice } from "../../supabase/functions/_shared/odds_normalization.ts";
+
+const prices: TotalsPrice[] = [
+  { market: "goals", side: "over", line: 2.5, odds: 1.9, bookmaker: "Bet365" },
+  { market: "goals", side: "under", line: 2.5, odds: 1.9, bookmaker: "Bet365" },
+  { market: "goals", side: "over", line: 2.5, odds: 2.0, bookmaker: "Unibet" },
+  { market: "goals", side: "under", line: 2.5, odds: 1.8, bookmaker: "Unibet" },
+  { market: "goals", side: "over", line: 2.5, odds: 1.8, bookmaker: "Pinnacle" },
+  { market: "corners", side: "over", line: 9.5, odds: 1.85, bookmaker: "Bet365" },
+];
+
+describe("closingLine", () => {
+  it("prefers the same bookmaker and de-vigs against its other side", () => {
+    const close = closingLine(prices, { market: "goals", side: "Over", line: 2.5, bookmaker: "bet365" });
+    expect(close).toEqual({ odds: 1.9, bookmaker: "Bet365", method: "same_book", fair_prob: 0.5 });
+  });
+
+  it("falls back to the median across bookmakers", () => {
+    const close = closingLine(prices, { market: "goals", side: "over", line: 2.5, bookmaker: "William Hill" });
+    expect(close?.method).toBe("median");
+    expect(close?.odds).toBe(1.9);
+    expect(close?.bookmaker).toBeNull();
+    // median under = 1.85 → (1/1.9) / (1/1.9 + 1/1.85)
+    expect(close?.fair_prob).toBeCloseTo(0.4933, 4);
+  });
+
+  it("returns no fair probability when only one side is quoted, and null for unknown lines", () => {
+    expect(closingLine(prices, { market: "corners", side: "over", line: 9.5 })?.fair_prob).toBeNull();
+    expect(closingLine(prices, { market: "goals", side: "over", line: 3.5 })).toBeNull();
+  });
+});
+
+describe("computeClv", () => {
+  it("measures price and fair CLV", () => {
+    const close = { odds: 1.9, bookmaker: "Bet365", method: "same_book" as const, fair_prob: 0.5 };
+    expect(computeClv(2.09, close)).toEqual({ clv_pct: 0.1, fair_clv_pct: 0.045 });
+    expect(computeClv(1.9, { ...close, fair_prob: null })).toEqual({ clv_pct: 0, fair_clv_pct: null });
+  });
+});
+
+describe("aggregateClv", () => {
+  const row = (market: string, line: number, clv: number, extra: Partial<ClvRow> = {}): ClvRow => ({
+    market,
+    line,
+    league_id: 39,
+    rules_version: "v2",
+    source: "optimized_selection",
+    clv_pct: clv,
+    fair_clv_pct: null,
+    ...extra,
+  });
+
+  const rows = [
+    row("goals", 2.5, 0.1, { fair_clv_pct: 0.05 }),
+    row("goals", 2.5, -0.02, { fair_clv_pct: -0.01 }),
+    row("goals", 3.5, 0.04, { league_id: null }),
+    row("corners", 9.5, 0, { rules_version: null, source: "ticket_leg" }),
+  ];
+
+  it("groups by market with averages and beat-close share", () => {
+    const [goals, corners] = aggregateClv(rows, "market");
+    expect(goals).toEqual({ key: "goals", n: 3, avg_clv_pct: 0.04, avg_fair_clv_pct: 0.02, beat_close_pct: 0.6667 });
+    expect(corners).toMatchObject({ key: "corners", n: 1, avg_fair_clv_pct: null, beat_close_pct: 0 });
+  });
+
+  it("keys lines by market and labels missing league / rules version", () => {
+    expect(aggregateClv(rows, "line").map((a) => a.key)).toEqual(["goals 2.5", "corners 9.5", "goals 3.5"]);
+    expect(aggregateClv(rows, "league").map((a) => a.key)).toEqual(["39", "unknown"]);
+    expect(aggregateClv(rows, "rules_version").map((a) => a.key)).toEqual(["v2", "none"]);
+  });
+});
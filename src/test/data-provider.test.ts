@@ -0,0 +1,75 @@
+/**
+ * Sports Data Provider Tests
+ *
+ * Verifies the record / replay seam every api-sports request goes through:
+ * - Recordings match on the API and the path with sorted query parameters
+ * - Replay answers recorded requests and 404s the rest
+ * - A recordings loader runs once, on the first request
+ * - What RecordingProvider saves replays identically
+ */
+import { describe, it, expect } from "vitest";
+import {
+  canonicalPath,
+  recordingFilename,
+  RecordingProvider,
+  ReplayProvider,
+  type Recording,
+} from "../../supabase/functions/_shared/data_provider.ts";
+
+const fixture: Recording = {
+  api: "football",
+  path: "/fixtures?league=39&season=2025",
+  status: 200,
+  body: { response: [{ fixture: { id: 1 } }], results: 1, errors: [] },
+};
+
+describe("recording keys", () => {
+  it("sorts query parameters", () => {
+    expect(canonicalPath("/fixtures?season=2025&league=39")).toBe("/fixtures?league=39&season=2025");
+    expect(canonicalPath("/status")).toBe("/status");
+    expect(recordingFilename("hockey", "/games?id=7")).toBe("hockey_games_id-7.json");
+  });
+});
+
+describe("ReplayProvider", () => {
+  it("answers recorded requests regardless of parameter order", async () => {
+    const provider = new ReplayProvider([fixture]);
+    const res = await provider.get<{ fixture: { id: number } }[]>("football", "/fixtures?season=2025&league=39");
+    expect(res.ok).toBe(true);
+    expect(res.body?.response?.[0].fixture.id).toBe(1);
+  });
+
+  it("404s requests without a recording, per API", async () => {
+    const provider = new ReplayProvider([fixture]);
+    expect((await provider.get("hockey", fixture.path)).status).toBe(404);
+    expect((await provider.get("football", "/fixtures?league=40&season=2025")).ok).toBe(false);
+  });
+
+  it("loads recordings lazily, once", async () => {
+    let loads = 0;
+    const provider = new ReplayProvider(async () => {
+      loads++;
+      return [fixture];
+    });
+    expect(loads).toBe(0);
+    await Promise.all([provider.get("football", fixture.path), provider.get("football", fixture.path)]);
+    expect(loads).toBe(1);
+  });
+
+  it("replays what RecordingProvider saved, except rate limits", async () => {
+    const saved: Recording[] = [];
+    const live = new ReplayProvider([
+      fixture,
+      { api: "nba", path: "/games?date=2026-03-12", status: 429, body: null },
+    ]);
+    const recorder = new RecordingProvider(live, async (r) => {
+      saved.push(r);
+    });
+    await recorder.get("football", "/fixtures?season=2025&league=39");
+    await recorder.get("nba", "/games?date=2026-03-12");
+
+    expect(saved.map((r) => r.path)).toEqual(["/fixtures?league=39&season=2025"]);
+    const replayed = await new ReplayProvider(saved).get("football", fixture.path);
+    expect(replayed.body).toEqual(fixture.body);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * IceEdge v2 Model Tests
+ *
+ * Verifies the hockey box-score parsing and the factor-based totals model:
+ * - Provider statistics are matched by label; missing stats stay null
+ * - Special teams / save% aggregates only count games that have the stat
+ * - Without box scores or starters the projection equals the v1 formula
+ * - Goalie factors follow starter quality, discounted for projected starters
+ * - value_score de-vigs the book price, falling back to the line distance
+ */
+import { describe, it, expect } from "vitest";
+import {
+  aggregateSpecialTeams,
+  parseGoalieLines,
+  parseTeamStatistics,
+  savePct,
+  type GameTeamStats,
+} from "../../supabase/functions/_shared/hockey_stats.ts";
+import {
+  confidenceTier,
+  consensusTotalLine,
+  projectTotal,
+  regressedSavePct,
+  totalValue,
+  type HockeyTeamProfile,
+  type StarterProfile,
+} from "../../supabase/functions/_shared/hockey_model.ts";
+
+const home: HockeyTeamProfile = { gp: 20, gpg: 3.0, ga_pg: 2.8, last5_gpg: 3.6, last5_gapg: 3.0 };
+const away: HockeyTeamProfile = { gp: 20, gpg: 2.6, ga_pg: 3.2, last5_gpg: 2.2, last5_gapg: 3.0 };
+
+const withBoxScores = (t: HockeyTeamProfile, extra: Partial<HockeyTeamProfile>): HockeyTeamProfile => ({
+  ...t,
+  stats_gp: 10,
+  pp_pct: 20,
+  pk_pct: 80,
+  sog_pg: 30,
+  sa_pg: 30,
+  save_pct: 0.905,
+  ...extra,
+});
+
+const goalie = (status: StarterProfile["status"], shots: number, saves: number): StarterProfile => ({
+  player_id: 1,
+  player_name: "Starter",
+  status,
+  shots_against: shots,
+  saves,
+});
+
+const box = (teamId: number, sog: number | null, ppg: number | null, ppo: number | null): GameTeamStats => ({
+  team_id: teamId,
+  shots_on_goal: sog,
+  pp_goals: ppg,
+  pp_opportunities: ppo,
+  penalty_minutes: null,
+  saves: null,
+});
+
+describe("box score parsing", () => {
+  it("matches statistics by label and leaves missing ones null", () => {
+    const row = parseTeamStatistics(7, [
+      { type: "Shots on Goal", value: "31" },
+      { type: "Power Play Goals", value: 2 },
+      { type: "Power Plays", value: "5" },
+      { type: "Faceoffs Won", value: "28" },
+    ]);
+    expect(row).toEqual({
+      team_id: 7,
+      shots_on_goal: 31,
+      pp_goals: 2,
+      pp_opportunities: 5,
+      penalty_minutes: null,
+      saves: null,
+    });
+  });
+
+  it("keeps goalies only and derives saves from shots and goals against", () => {
+    const lines = parseGoalieLines(7, [
+      { player: { id: 11, name: "G. One" }, position: "G", shots_against: "30", goals_against: 2, time_on_ice: "60:00" },
+      { player: { id: 12, name: "Skater" }, position: "C", shots_against: 0 },
+    ]);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ player_id: 11, shots_against: 30, saves: 28, toi_seconds: 3600, started: false });
+  });
+
+  it("aggregates PP%, PK% and save% over games that have the stat", () => {
+    const agg = aggregateSpecialTeams([
+      { is_home: true, goals_for: 3, goals_against: 2, own: box(1, 32, 1, 4), opp: box(2, 28, 1, 5) },
+      { is_home: false, goals_for: 1, goals_against: 3, own: box(1, 25, 0, 2), opp: box(2, 30, 2, 3) },
+      { is_home: true, goals_for: 2, goals_against: 2, own: box(1, null, null, null), opp: box(2, null, null, null) },
+    ]);
+    expect(agg.stats_gp).toBe(2);
+    expect(agg.pp_pct).toBe(16.7); // 1 / 6
+    expect(agg.pk_pct).toBe(62.5); // 100 − 3 / 8
+    expect(agg.sog_pg).toBe(28.5);
+    expect(agg.save_pct).toBeCloseTo(1 - 5 / 58, 4);
+  });
+
+  it("has no save% without shot data", () => {
+    expect(savePct([{ shots_against: null, saves: null }])).toBeNull();
+    expect(savePct([{ shots_against: 20, saves: 18 }, { shots_against: 30, saves: 27 }])).toBe(0.9);
+  });
+});
+
+describe("projected total", () => {
+  it("matches the v1 blend when only season, last 5 and H2H are known", () => {
+    const h2h = { gp: 3, avg_total_goals: 6 };
+    const v1 = 0.7 * (0.6 * 5.8 + 0.4 * 5.9) + 0.3 * 6;
+    const projection = projectTotal({ home, away, h2h });
+
+    expect(projection.total).toBeCloseTo(v1, 1);
+    expect(projection.base).toBe(5.8);
+    const skipped = projection.factors.filter((f) => !f.applied).map((f) => f.factor);
+    expect(skipped).toEqual(["venue", "special_teams", "shots", "home_goalie", "away_goalie"]);
+  });
+
+  it("adds goals for a strong power play against a weak penalty kill", () => {
+    const projection = projectTotal({
+      home: withBoxScores(home, { pp_pct: 28 }),
+      away: withBoxScores(away, { pk_pct: 72 }),
+    });
+    const st = projection.factors.find((f) => f.factor === "special_teams")!;
+    // home: 3 × 0.28 × 0.28 / 0.2 = 1.176 vs 0.6 league; away at league rates
+    expect(st.applied).toBe(true);
+    expect(st.delta).toBeCloseTo(0.29, 2);
+  });
+
+  it("ignores box scores below the minimum sample", () => {
+    const projection = projectTotal({
+      home: withBoxScores(home, { stats_gp: 3, pp_pct: 40 }),
+      away: withBoxScores(away, {}),
+    });
+    expect(projection.factors.find((f) => f.factor === "special_teams")!.applied).toBe(false);
+    expect(projection.factors.find((f) => f.factor === "shots")!.applied).toBe(false);
+  });
+
+  it("raises the total for a weak starter and discounts projected starters", () => {
+    const weak = goalie("confirmed", 600, 522); // .870 over 600 shots
+    const confirmed = projectTotal({ home, away, homeGoalie: weak });
+    const projected = projectTotal({ home, away, homeGoalie: { ...weak, status: "projected" } });
+
+    const delta = (p: typeof confirmed) => p.factors.find((f) => f.factor === "home_goalie")!.delta;
+    // regressed (522 + 300 × .905) / 900 ≈ .8818 → 30 shots × .0232 ≈ 0.70 goals
+    expect(delta(confirmed)).toBeCloseTo(0.7, 1);
+    expect(delta(projected)).toBeCloseTo(0.6 * delta(confirmed), 1);
+    expect(confirmed.total).toBeGreaterThan(projected.total);
+  });
+
+  it("regresses a starter without shots all the way to the team", () => {
+    expect(regressedSavePct({ shots_against: 0, saves: 0 }, 0.91)).toBeCloseTo(0.91, 6);
+  });
+});
+
+describe("value score", () => {
+  it("uses the most quoted line and best price per side", () => {
+    const price = consensusTotalLine([
+      { selection: "over", line: 5.5, odds: 1.9 },
+      { selection: "under", line: 5.5, odds: 1.95 },
+      { selection: "over", line: 5.5, odds: 1.93 },
+      { selection: "over", line: 6.5, odds: 2.6 },
+    ]);
+    expect(price).toEqual({ line: 5.5, over: 1.93, under: 1.95 });
+  });
+
+  it("compares Poisson P(over) with the de-vigged book price", () => {
+    const value = totalValue(6.6, { line: 5.5, over: 1.95, under: 1.95 });
+    // P(total ≥ 6 | λ = 6.6) ≈ 0.65 vs 0.50 fair
+    expect(value.side).toBe("over");
+    expect(value.book_prob).toBe(0.5);
+    expect(value.model_prob!).toBeCloseTo(0.645, 2);
+    expect(value.value_score).toBeCloseTo(Math.min((value.model_prob! - 0.5) * 5, 1), 2);
+  });
+
+  it("falls back to line distance without both sides priced", () => {
+    const value = totalValue(6, { line: 5.5, over: 1.9, under: null });
+    expect(value).toEqual({ value_score: 0.909, side: "over", model_prob: null, book_prob: null });
+  });
+});
+
+describe("confidence tier", () => {
+  it("is high only with a full sample and both starters confirmed", () => {
+    const c = goalie("confirmed", 100, 90);
+    expect(confidenceTier(20, c, c)).toBe("high");
+    expect(confidenceTier(20, c, { ...c, status: "projected" })).toBe("medium");
+    expect(confidenceTier(20)).toBe("medium");
+    expect(confidenceTier(3, c, c)).toBe("low");
+  });
+});
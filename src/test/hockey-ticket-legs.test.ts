@@ -0,0 +1,99 @@
+/**
+ * Hockey Ticket Leg Tests
+ *
+ * Verifies multi-sport leg identity on My Ticket and hockey leg settlement
+ * used by hockey-sync-results:
+ * - Football ids are unchanged; other sports are prefixed and never collide
+ * - Price boards keep each bookmaker's best price for the exact selection
+ * - Totals include OT, p1_total reads the first period, reg_winner treats OT as a draw
+ * - Legs stay unsettled until the game is final with scores; cancelled / abandoned games void them
+ */
+import { describe, it, expect } from "vitest";
+import { legSport, sameLegSlot, ticketLegId } from "../lib/ticketLegs";
+import {
+  firstPeriodScore,
+  hockeyPriceBoard,
+  scoreHockeyLeg,
+  type HockeyGameResult,
+} from "../../supabase/functions/_shared/hockey_legs.ts";
+
+const game = (overrides: Partial<HockeyGameResult> = {}): HockeyGameResult => ({
+  status: "AOT",
+  home_score: 3,
+  away_score: 2,
+  went_to_ot: true,
+  period_scores: { first: "1-1", second: "0-1", third: "1-0", overtime: "1-0" },
+  ...overrides,
+});
+
+describe("ticket leg identity", () => {
+  it("keeps football ids and prefixes other sports", () => {
+    const leg = { fixtureId: 42, market: "goals", side: "over", line: 2.5 };
+    expect(ticketLegId(leg)).toBe("42-goals-over-2.5");
+    expect(ticketLegId({ ...leg, sport: "football" })).toBe("42-goals-over-2.5");
+    expect(ticketLegId({ ...leg, sport: "hockey", market: "total", line: 5.5 })).toBe("hockey:42-total-over-5.5");
+    expect(legSport({})).toBe("football");
+  });
+
+  it("dedupes per sport, game and market", () => {
+    expect(sameLegSlot({ fixtureId: 42, market: "total" }, { sport: "hockey", fixtureId: 42, market: "total" })).toBe(false);
+    expect(sameLegSlot({ sport: "hockey", fixtureId: 42, market: "total" }, { sport: "hockey", fixtureId: 42, market: "total" })).toBe(true);
+  });
+});
+
+describe("hockey price board", () => {
+  it("keeps the exact selection and line, best first", () => {
+    const board = hockeyPriceBoard(
+      [
+        { bookmaker: "A", market: "total", selection: "over", line: 5.5, odds: 1.9 },
+        { bookmaker: "B", market: "total", selection: "over", line: 5.5, odds: 1.95 },
+        { bookmaker: "A", market: "total", selection: "over", line: 6.5, odds: 2.4 },
+        { bookmaker: "C", market: "total", selection: "under", line: 5.5, odds: 2.1 },
+        { bookmaker: "D", market: "p1_total", selection: "over", line: 5.5, odds: 9 },
+      ],
+      { market: "total", side: "over", line: "5.5" }
+    );
+    expect(board).toEqual([
+      { bookmaker: "B", odds: 1.95 },
+      { bookmaker: "A", odds: 1.9 },
+    ]);
+  });
+});
+
+describe("hockey leg settlement", () => {
+  it("settles totals on the final score including overtime", () => {
+    expect(scoreHockeyLeg({ market: "total", side: "over", line: 4.5 }, game())).toEqual({ result_status: "WIN", actual_value: 5 });
+    expect(scoreHockeyLeg({ market: "away_total", side: "over", line: 2 }, game())).toEqual({ result_status: "PUSH", actual_value: 2 });
+  });
+
+  it("reads the first period from strings or objects", () => {
+    expect(scoreHockeyLeg({ market: "p1_total", side: "under", line: 1.5 }, game())?.result_status).toBe("LOSS");
+    expect(firstPeriodScore({ first: { home: 2, away: 0 } })).toEqual({ home: 2, away: 0 });
+    expect(scoreHockeyLeg({ market: "p1_total", side: "over", line: 0.5 }, game({ period_scores: null }))).toBeNull();
+  });
+
+  it("treats an overtime game as a regulation draw", () => {
+    expect(scoreHockeyLeg({ market: "match_winner", side: "home", line: 0 }, game())?.result_status).toBe("WIN");
+    expect(scoreHockeyLeg({ market: "reg_winner", side: "home", line: 0 }, game())?.result_status).toBe("LOSS");
+    expect(scoreHockeyLeg({ market: "reg_winner", side: "draw", line: 0 }, game())?.result_status).toBe("WIN");
+  });
+
+  it("applies the handicap line to the final margin", () => {
+    const ft = game({ status: "FT", home_score: 4, away_score: 2, went_to_ot: false });
+    expect(scoreHockeyLeg({ market: "handicap", side: "home", line: -1.5 }, ft)?.result_status).toBe("WIN");
+    expect(scoreHockeyLeg({ market: "handicap", side: "away", line: 1.5 }, ft)?.result_status).toBe("LOSS");
+    expect(scoreHockeyLeg({ market: "handicap", side: "home", line: -2 }, ft)?.result_status).toBe("PUSH");
+  });
+
+  it("waits for a final status and scores", () => {
+    expect(scoreHockeyLeg({ market: "total", side: "over", line: 5.5 }, game({ status: "P3" }))).toBeNull();
+    expect(scoreHockeyLeg({ market: "total", side: "over", line: 5.5 }, game({ home_score: null }))).toBeNull();
+    expect(scoreHockeyLeg({ market: "total", side: "over", line: 5.5 }, game({ status: "PST" }))).toBeNull();
+  });
+
+  it("voids every market on a cancelled or abandoned game", () => {
+    const canc = game({ status: "CANC", home_score: null, away_score: null, period_scores: null });
+    expect(scoreHockeyLeg({ market: "p1_total", side: "over", line: 0.5 }, canc)).toEqual({ result_status: "VOID", actual_value: null });
+    expect(scoreHockeyLeg({ market: "match_winner", side: "home", line: 0 }, game({ status: "ABD" }))?.result_status).toBe("VOID");
+  });
+});
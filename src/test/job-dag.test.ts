@@ -0,0 +1,136 @@
+/**
+ * Job DAG Tests
+ *
+ * Verifies the pipeline orchestrator's scheduling rules:
+ * - The shipped pipelines are valid, and cycles / unknown deps are caught
+ * - A node starts only after all its dependencies succeed
+ * - Failures retry with exponential backoff, then dead-letter and skip
+ *   everything downstream
+ * - Cron functions that answer 200 on failure are read as failures
+ */
+import { describe, it, expect } from "vitest";
+import {
+  PIPELINES,
+  backoffDelay,
+  initialState,
+  jobOutcome,
+  nodeLevels,
+  planTick,
+  recordAttempt,
+  runStatus,
+  validatePipeline,
+  type NodeAttempt,
+  type PipelineDef,
+} from "../../supabase/functions/_shared/job_dag.ts";
+
+const prematch = PIPELINES.prematch;
+const t0 = new Date("2026-03-12T06:00:00Z");
+
+function attempt(ok: boolean, finishedAt: Date = t0, error: string | null = ok ? null : "HTTP 500"): NodeAttempt {
+  return {
+    started_at: finishedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: 0,
+    http_status: ok ? 200 : 500,
+    ok,
+    error,
+  };
+}
+
+const byId = (def: PipelineDef, id: string) => def.nodes.find((n) => n.id === id)!;
+
+describe("pipeline definitions", () => {
+  it("ships valid pipelines with the optimizer after stats and odds", () => {
+    for (const def of Object.values(PIPELINES)) {
+      expect(validatePipeline(def)).toEqual([]);
+    }
+    expect(nodeLevels(prematch)).toEqual({ fixtures: 0, stats: 1, odds: 1, optimizer: 2 });
+  });
+
+  it("rejects cycles and unknown dependencies", () => {
+    const node = (id: string, dependsOn: string[]) => ({ ...byId(prematch, "fixtures"), id, dependsOn });
+    expect(validatePipeline({ name: "x", description: "", nodes: [node("a", ["b"]), node("b", ["a"])] })).toEqual([
+      "dependency cycle",
+    ]);
+    expect(validatePipeline({ name: "x", description: "", nodes: [node("a", ["zzz"])] })).toEqual([
+      '"a" depends on unknown node "zzz"',
+    ]);
+  });
+});
+
+describe("planTick", () => {
+  it("starts the optimizer only once both stats and odds succeeded", () => {
+    const state = initialState(prematch);
+    expect(planTick(prematch, state, t0).start).toEqual(["fixtures"]);
+
+    recordAttempt(byId(prematch, "fixtures"), state.fixtures, attempt(true), false);
+    expect(planTick(prematch, state, t0).start).toEqual(["stats", "odds"]);
+
+    recordAttempt(byId(prematch, "odds"), state.odds, attempt(true), false);
+    state.stats.status = "running";
+    state.stats.started_at = t0.toISOString();
+    expect(planTick(prematch, state, t0).start).toEqual([]);
+
+    recordAttempt(byId(prematch, "stats"), state.stats, attempt(true), false);
+    expect(planTick(prematch, state, t0).start).toEqual(["optimizer"]);
+  });
+
+  it("flags a running node whose tick never recorded an answer", () => {
+    const state = initialState(prematch);
+    state.fixtures.status = "running";
+    state.fixtures.started_at = t0.toISOString();
+    const later = new Date(t0.getTime() + byId(prematch, "fixtures").timeoutMs + 2 * 60_000);
+    expect(planTick(prematch, state, later).stale).toEqual(["fixtures"]);
+  });
+});
+
+describe("retries", () => {
+  it("backs off exponentially, then dead-letters and skips downstream", () => {
+    const stats = byId(prematch, "stats");
+    const state = initialState(prematch);
+    recordAttempt(byId(prematch, "fixtures"), state.fixtures, attempt(true), false);
+
+    expect(recordAttempt(stats, state.stats, attempt(false), true)).toBe(false);
+    expect(state.stats.status).toBe("pending");
+    expect(state.stats.next_attempt_at).toBe(new Date(t0.getTime() + stats.backoffMs).toISOString());
+    // Still backing off
+    expect(planTick(prematch, state, t0).start).toEqual(["odds"]);
+    expect(backoffDelay(stats, 2)).toBe(stats.backoffMs * 2);
+
+    expect(recordAttempt(stats, state.stats, attempt(false), true)).toBe(false);
+    expect(recordAttempt(stats, state.stats, attempt(false), true)).toBe(true);
+    expect(state.stats).toMatchObject({ status: "failed", next_attempt_at: null });
+    expect(state.stats.attempts).toHaveLength(stats.maxAttempts);
+
+    recordAttempt(byId(prematch, "odds"), state.odds, attempt(true), false);
+    expect(planTick(prematch, state, t0).skip).toEqual(["optimizer"]);
+    state.optimizer.status = "skipped";
+    expect(runStatus(state)).toBe("failed");
+  });
+
+  it("does not retry failures a retry cannot fix", () => {
+    const state = initialState(prematch);
+    expect(recordAttempt(byId(prematch, "fixtures"), state.fixtures, attempt(false, t0, "HTTP 401"), false)).toBe(true);
+    expect(state.fixtures.attempts).toHaveLength(1);
+  });
+});
+
+describe("jobOutcome", () => {
+  it("reads 200 responses that report failure as failures", () => {
+    expect(jobOutcome(200, { success: true, processed: 10 })).toEqual({ ok: true, retryable: false, error: null });
+    expect(jobOutcome(200, { status: "skipped", reason: "Job already running" })).toEqual({
+      ok: false,
+      retryable: true,
+      error: "skipped: Job already running",
+    });
+    expect(jobOutcome(200, { ok: true, success: false, backfill: { status: "failed" } }).ok).toBe(false);
+    expect(jobOutcome(200, { skipped: true, reason: "long_window_run_in_progress" }).ok).toBe(false);
+    // A count of skipped items is not a skipped run
+    expect(jobOutcome(200, { scanned: 0, skipped: 0 }).ok).toBe(true);
+  });
+
+  it("retries server errors but not auth failures", () => {
+    expect(jobOutcome(500, { error: "boom" })).toEqual({ ok: false, retryable: true, error: "HTTP 500: boom" });
+    expect(jobOutcome(401, { error: "Unauthorized" }).retryable).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Live In-Play Model Tests
+ *
+ * Verifies the remaining-time adjustment shared by live-fixtures-poll,
+ * filterizer-query (live view) and generate-ticket:
+ * - Live state parsing from the fixtures feed and statistics
+ * - First team to score from the goal events
+ * - Remaining share of the match from status + minute
+ * - Full-time probabilities given the count so far and red cards
+ */
+import { describe, it, expect } from "vitest";
+import {
+  firstGoalTeam,
+  inPlayMarketModel,
+  liveProbability,
+  parseLiveFixture,
+  parseLiveStatistics,
+  remainingFraction,
+  scoreLivePick,
+  type LiveFixtureState,
+} from "../../supabase/functions/_shared/live_model.ts";
+import type { MarketModel } from "../../supabase/functions/_shared/stat_model.ts";
+import { probabilityOf } from "../../supabase/functions/_shared/probability.ts";
+
+const goals: MarketModel = {
+  market: "goals",
+  lambdaHome: 1.5,
+  lambdaAway: 1.1,
+  distribution: { mean: 2.6, size: null },
+  sampleSize: 10,
+  source: "venue_rates",
+};
+
+const state = (overrides: Partial<LiveFixtureState> = {}): LiveFixtureState => ({
+  fixture_id: 1,
+  league_id: 39,
+  status: "2H",
+  elapsed: 60,
+  goals_home: 1,
+  goals_away: 1,
+  red_cards_home: 0,
+  red_cards_away: 0,
+  first_goal_team: null,
+  corners_home: 4,
+  corners_away: 3,
+  cards_home: null,
+  cards_away: null,
+  fouls_home: null,
+  fouls_away: null,
+  offsides_home: null,
+  offsides_away: null,
+  stats_fetched_at: null,
+  updated_at: "2026-06-16T12:00:00.000Z",
+  ...overrides,
+});
+
+describe("live state parsing", () => {
+  it("reads score, minute and red cards from the fixtures feed", () => {
+    const item = {
+      fixture: { id: 77, status: { short: "2H", elapsed: 63 } },
+      teams: { home: { id: 10 }, away: { id: 20 } },
+      goals: { home: 2, away: 0 },
+      events: [
+        { type: "Card", detail: "Yellow Card", team: { id: 10 } },
+        { type: "Card", detail: "Red Card", team: { id: 20 } },
+        { type: "Card", detail: "Second Yellow card", team: { id: 10 } },
+      ],
+    };
+    expect(parseLiveFixture(item, 39, "t")).toEqual({
+      fixture_id: 77, league_id: 39, status: "2H", elapsed: 63,
+      goals_home: 2, goals_away: 0, red_cards_home: 1, red_cards_away: 1, first_goal_team: "home", updated_at: "t",
+    });
+  });
+
+  it("sums yellow and red cards per team and leaves missing teams null", () => {
+    const stats = parseLiveStatistics(
+      [{ team: { id: 10 }, statistics: [
+        { type: "Corner Kicks", value: 5 },
+        { type: "Yellow Cards", value: 2 },
+        { type: "Red Cards", value: null },
+        { type: "Fouls", value: "9" },
+      ] }],
+      10,
+      20
+    );
+    expect(stats).toMatchObject({ corners_home: 5, cards_home: 2, fouls_home: 9, offsides_home: null, corners_away: null });
+  });
+
+  it("takes the first scorer from the earliest goal event", () => {
+    const item = {
+      teams: { home: { id: 10 }, away: { id: 20 } },
+      goals: { home: 1, away: 1 },
+      events: [
+        { type: "Goal", detail: "Normal Goal", team: { id: 10 }, time: { elapsed: 45, extra: 2 } },
+        { type: "Goal", detail: "Missed Penalty", team: { id: 10 }, time: { elapsed: 12 } },
+        { type: "Goal", detail: "Penalty", team: { id: 20 }, time: { elapsed: 45, extra: 1 } },
+      ],
+    };
+    expect(firstGoalTeam(item)).toBe("away");
+    // Own goals are not attributed from the feed
+    expect(firstGoalTeam({ ...item, events: [{ type: "Goal", detail: "Own Goal", team: { id: 20 }, time: { elapsed: 5 } }] })).toBeNull();
+    expect(firstGoalTeam({ ...item, goals: { home: 0, away: 0 } })).toBeNull();
+  });
+});
+
+describe("in-play adjustment", () => {
+  it("shrinks the remaining share of the match with the minute", () => {
+    expect(remainingFraction({ status: "1H", elapsed: 0 })).toBe(1);
+    expect(remainingFraction({ status: "HT", elapsed: 45 })).toBe(0.5);
+    expect(remainingFraction({ status: "2H", elapsed: 90 })).toBeCloseTo(3 / 96, 6);
+  });
+
+  it("prices the full-time total from the count so far plus the remaining goals", () => {
+    const live = inPlayMarketModel(goals, state())!;
+    expect(live.current).toBe(2);
+    expect(live.remaining.mean).toBeCloseTo(2.6 * (33 / 96), 6);
+    // Over 2.5 with two goals in needs one more goal
+    expect(liveProbability(live, "over", 2.5)).toBeCloseTo(1 - Math.exp(-live.remaining.mean), 6);
+    expect(liveProbability(live, "over", 1.5)).toBe(1);
+  });
+
+  it("lowers a side's rate after a red card", () => {
+    const even = inPlayMarketModel(goals, state({ status: "HT", elapsed: 45 }))!;
+    const homeRed = inPlayMarketModel(goals, state({ status: "HT", elapsed: 45, red_cards_home: 1 }))!;
+    expect(homeRed.remaining.mean).toBeCloseTo((1.5 * 0.75 + 1.1 * 1.2) * 0.5, 6);
+    expect(homeRed.remaining.mean).toBeLessThan(even.remaining.mean);
+  });
+
+  it("flags decided selections and skips markets without a live count", () => {
+    const model = { goals, cards: { ...goals, market: "cards" as const, distribution: { mean: 4, size: 12 } } };
+    expect(scoreLivePick(model, state(), { market: "goals", side: "under", line: 1.5 })).toMatchObject({ live_prob: 0, settled: true });
+    expect(scoreLivePick(model, state(), { market: "cards", side: "over", line: 3.5 })).toBeNull();
+    const open = scoreLivePick(model, state({ status: "1H", elapsed: 0, goals_home: 0, goals_away: 0 }), { market: "goals", side: "over", line: 2.5 });
+    expect(open?.live_prob).toBeCloseTo(probabilityOf(goals.distribution, "over", 2.5), 6);
+    expect(open?.settled).toBe(false);
+  });
+});
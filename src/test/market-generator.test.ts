@@ -0,0 +1,95 @@
+/**
+ * Market Generator Pricing Tests
+ *
+ * Verifies the opening prices market-generator seeds for fixture markets:
+ * - Model probabilities for goals lines, BTTS and 1X2
+ * - Best 1X2 prices with the draw as the remainder, model fallback elsewhere
+ * - YES/NO odds carry the margin and stay on the DECIMAL(5,2) grid
+ * - Rules without a price are reported, not seeded
+ */
+import { describe, it, expect } from "vitest";
+import {
+  bestPriceProbability,
+  matchResultProbabilities,
+  modelProbability,
+  seedFixturePrices,
+  seedOdds,
+  SEED_MARGIN,
+} from "../../supabase/functions/_shared/market_generator.ts";
+import type { MarketModel, MatchModel } from "../../supabase/functions/_shared/stat_model.ts";
+import { probabilityOf } from "../../supabase/functions/_shared/probability.ts";
+
+const goals: MarketModel = {
+  market: "goals",
+  lambdaHome: 1.6,
+  lambdaAway: 1.0,
+  distribution: { mean: 2.6, size: null },
+  sampleSize: 10,
+  source: "venue_rates",
+};
+
+const model: MatchModel = { goals };
+
+describe("model prices", () => {
+  it("reads goals lines from the count distribution", () => {
+    expect(modelProbability("over_2.5_goals", model)).toBeCloseTo(probabilityOf(goals.distribution, "over", 2.5), 9);
+    expect(modelProbability("over_2.5_goals", model)! + modelProbability("under_2.5_goals", model)!).toBeCloseTo(1, 9);
+  });
+
+  it("prices BTTS and 1X2 from the team lambdas", () => {
+    expect(modelProbability("btts", model)).toBeCloseTo((1 - Math.exp(-1.6)) * (1 - Math.exp(-1.0)), 9);
+
+    const result = matchResultProbabilities(1.6, 1.0);
+    expect(result.home + result.draw + result.away).toBeCloseTo(1, 6);
+    expect(result.home).toBeGreaterThan(result.away);
+    expect(modelProbability("draw", model)).toBeCloseTo(result.draw, 9);
+  });
+
+  it("returns null for markets the model does not cover", () => {
+    expect(modelProbability("over_8.5_corners", model)).toBeNull();
+    expect(modelProbability("home_win", {})).toBeNull();
+  });
+});
+
+describe("best prices", () => {
+  const prices = [
+    { outcome: "home", odds: 2.0 },
+    { outcome: "away", odds: 4.0 },
+  ];
+
+  it("uses the implied probability and leaves the draw as the remainder", () => {
+    expect(bestPriceProbability("home_win", prices)).toBeCloseTo(0.5, 9);
+    expect(bestPriceProbability("draw", prices)).toBeCloseTo(0.25, 9);
+    // Books summing past 1 leave no usable draw price
+    expect(bestPriceProbability("draw", [{ outcome: "home", odds: 1.5 }, { outcome: "away", odds: 2.5 }])).toBeNull();
+  });
+
+  it("falls back to the model for rules the view does not cover", () => {
+    const { priced } = seedFixturePrices(["home_win", "btts"], "best_prices", model, prices);
+    expect(priced.map((p) => [p.rule, p.source])).toEqual([
+      ["home_win", "best_prices"],
+      ["btts", "model"],
+    ]);
+  });
+});
+
+describe("seeded odds", () => {
+  it("applies the margin to both sides", () => {
+    const { odds_yes, odds_no } = seedOdds(0.5);
+    expect(odds_yes).toBe(Math.round((2 / SEED_MARGIN) * 100) / 100);
+    expect(odds_no).toBe(odds_yes);
+    expect(1 / odds_yes + 1 / odds_no).toBeGreaterThan(1);
+  });
+
+  it("clamps near-certain outcomes so neither side opens at 1.01", () => {
+    const { odds_yes, odds_no } = seedOdds(0.999);
+    expect(odds_yes).toBeGreaterThan(1.01);
+    expect(odds_no).toBeLessThan(50);
+  });
+
+  it("reports rules it cannot price", () => {
+    const { priced, unpriced } = seedFixturePrices(["over_1.5_goals", "over_8.5_corners"], "model", model);
+    expect(priced.map((p) => p.rule)).toEqual(["over_1.5_goals"]);
+    expect(unpriced).toEqual(["over_8.5_corners"]);
+  });
+});
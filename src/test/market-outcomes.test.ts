@@ -0,0 +1,101 @@
+/**
+ * Multi-Outcome Market Tests
+ *
+ * Verifies the N-way markets settled by market-auto-resolve:
+ * - Each rule picks the winning key from the full-time result
+ * - Undecidable results (missing stats, unknown first scorer) stay unsettled
+ * - Template outcome sets cover every result and resolve to one of their keys
+ * - Default odds carry the margin over a probability set that sums to 1
+ */
+import { describe, it, expect } from "vitest";
+import {
+  resolveMultiOutcome,
+  type OutcomeBucket,
+  type SettledFixture,
+} from "../../supabase/functions/_shared/market_outcomes.ts";
+import { MULTI_MARKET_TEMPLATES, buildOutcomes, defaultOdds, rangeLabel } from "../lib/marketOutcomes";
+
+const result = (overrides: Partial<SettledFixture> = {}): SettledFixture => ({
+  goals_home: 2,
+  goals_away: 1,
+  corners_home: 6,
+  corners_away: 4,
+  cards_home: 2,
+  cards_away: 3,
+  first_goal_team: null,
+  ...overrides,
+});
+
+const keys = (...outcomes: string[]): OutcomeBucket[] =>
+  outcomes.map((outcome) => ({ outcome, range_min: null, range_max: null }));
+
+describe("resolveMultiOutcome", () => {
+  it("settles 1X2 and correct score", () => {
+    const oneXTwo = keys("home", "draw", "away");
+    expect(resolveMultiOutcome("match_result", oneXTwo, result())).toBe("home");
+    expect(resolveMultiOutcome("match_result", oneXTwo, result({ goals_home: 1 }))).toBe("draw");
+
+    const scores = keys("2-1", "1-1", "other");
+    expect(resolveMultiOutcome("correct_score", scores, result())).toBe("2-1");
+    expect(resolveMultiOutcome("correct_score", scores, result({ goals_home: 5 }))).toBe("other");
+    // Without a catch-all an unlisted score cannot settle
+    expect(resolveMultiOutcome("correct_score", keys("0-0"), result())).toBeNull();
+  });
+
+  it("needs the first scorer only when both sides scored", () => {
+    const first = keys("home", "away", "none");
+    expect(resolveMultiOutcome("first_goal_team", first, result({ goals_home: 0, goals_away: 0 }))).toBe("none");
+    expect(resolveMultiOutcome("first_goal_team", first, result({ goals_home: 0 }))).toBe("away");
+    expect(resolveMultiOutcome("first_goal_team", first, result())).toBeNull();
+    expect(resolveMultiOutcome("first_goal_team", first, result({ first_goal_team: "away" }))).toBe("away");
+  });
+
+  it("puts range totals in the inclusive bucket", () => {
+    const corners: OutcomeBucket[] = [
+      { outcome: "0-7", range_min: 0, range_max: 7 },
+      { outcome: "8-10", range_min: 8, range_max: 10 },
+      { outcome: "11+", range_min: 11, range_max: null },
+    ];
+    expect(resolveMultiOutcome("total_corners_range", corners, result())).toBe("8-10");
+    expect(resolveMultiOutcome("total_corners_range", corners, result({ corners_home: 11 }))).toBe("11+");
+    expect(resolveMultiOutcome("total_corners_range", corners, result({ corners_away: null }))).toBeNull();
+    expect(resolveMultiOutcome("total_goals_range", corners, result())).toBe("0-7");
+  });
+});
+
+describe("templates", () => {
+  it("cover every result with exactly the keys the resolver returns", () => {
+    for (const { rule } of MULTI_MARKET_TEMPLATES) {
+      const outcomes = buildOutcomes(rule, "Arsenal", "Chelsea");
+      const valid = new Set(outcomes.map((o) => o.outcome));
+      expect(valid.size).toBe(outcomes.length);
+      for (let home = 0; home <= 6; home++) {
+        for (let away = 0; away <= 6; away++) {
+          const settled = result({
+            goals_home: home,
+            goals_away: away,
+            corners_home: home * 2,
+            corners_away: away * 3,
+            cards_home: home,
+            cards_away: away,
+            first_goal_team: home + away > 0 ? "home" : null,
+          });
+          expect(valid.has(resolveMultiOutcome(rule, outcomes, settled) ?? "")).toBe(true);
+        }
+      }
+    }
+  });
+
+  it("price a full book with the margin", () => {
+    for (const { rule } of MULTI_MARKET_TEMPLATES) {
+      const book = buildOutcomes(rule, "Home", "Away").reduce((sum, o) => sum + 1 / o.odds, 0);
+      // Rounding to cents and the odds floor/cap move it a little off 1.05
+      expect(book).toBeGreaterThan(1.02);
+      expect(book).toBeLessThan(1.1);
+    }
+    expect(defaultOdds(0.5)).toBe(1.9);
+    expect(defaultOdds(0)).toBe(952.38);
+    expect(rangeLabel(14, null)).toBe("14+");
+    expect(rangeLabel(8, 10)).toBe("8–10");
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Prediction Market Pricing Tests
+ *
+ * Verifies the quotes mirrored from place_market_bet / resolve_market:
+ * - LMSR opens at the admin price and moves with demand
+ * - Shares bought cost exactly the net stake under the LMSR cost function
+ * - The house never loses more than the liquidity bound
+ * - Parimutuel odds come from the pools including the maker seed
+ * - Cash-out values a claim at the current price, less the 2% fee
+ * - N-way markets price the same way over their outcome set
+ */
+import { describe, it, expect } from "vitest";
+import {
+  cashOutQuote,
+  currentExposure,
+  lmsrShares,
+  maxMakerLoss,
+  openingPriceYes,
+  outcomePrices,
+  priceYes,
+  quoteBet,
+  quoteOutcomeBet,
+  type PricedMarket,
+  type PricedOutcome,
+} from "../lib/marketPricing";
+
+const market = (overrides: Partial<PricedMarket> = {}): PricedMarket => ({
+  pricing_mode: "lmsr",
+  odds_yes: 2,
+  odds_no: 2,
+  liquidity_b: 100,
+  initial_price_yes: 0.5,
+  shares_yes: 0,
+  shares_no: 0,
+  total_staked_yes: 0,
+  total_staked_no: 0,
+  ...overrides,
+});
+
+// Apply a fill the way place_market_bet does
+function fill(m: PricedMarket, outcome: "yes" | "no", netStake: number): PricedMarket {
+  const quote = quoteBet(m, outcome, netStake);
+  const shares = m.pricing_mode === "lmsr" ? lmsrShares(netStake, outcome === "yes" ? priceYes(m) : 1 - priceYes(m), m.liquidity_b!) : 0;
+  return {
+    ...m,
+    shares_yes: m.shares_yes + (outcome === "yes" ? shares : 0),
+    shares_no: m.shares_no + (outcome === "no" ? shares : 0),
+    total_staked_yes: m.total_staked_yes + (outcome === "yes" ? netStake : 0),
+    total_staked_no: m.total_staked_no + (outcome === "no" ? netStake : 0),
+    odds_yes: 1 / quote.priceYesAfter,
+    odds_no: 1 / (1 - quote.priceYesAfter),
+  };
+}
+
+describe("LMSR", () => {
+  it("opens at the admin price without the overround", () => {
+    const p0 = openingPriceYes(1.8, 2.2);
+    expect(p0).toBeCloseTo((1 / 1.8) / (1 / 1.8 + 1 / 2.2), 9);
+    expect(priceYes(market({ initial_price_yes: p0 }))).toBeCloseTo(p0, 9);
+  });
+
+  it("sells shares whose cost under C(q) equals the stake", () => {
+    const b = 100;
+    const cost = (qYes: number, qNo: number) => b * Math.log(Math.exp(qYes / b) + Math.exp(qNo / b));
+    const shares = lmsrShares(49, 0.5, b);
+    expect(cost(shares, 0) - cost(0, 0)).toBeCloseTo(49, 6);
+    // Finite for stakes far above b
+    expect(Number.isFinite(lmsrShares(1e6, 0.3, 50))).toBe(true);
+  });
+
+  it("moves the price toward the side being bought", () => {
+    const m = market();
+    const quote = quoteBet(m, "yes", 98);
+    expect(quote.priceYesAfter).toBeGreaterThan(0.5);
+    expect(quote.payout).toBeGreaterThan(98);
+    // Average odds are worse than the opening 2.00 because the price moves during the fill
+    expect(quote.odds).toBeLessThan(2);
+    expect(priceYes(fill(m, "yes", 98))).toBeCloseTo(quote.priceYesAfter, 9);
+  });
+
+  it("keeps the house loss within b·ln(1 / min p0)", () => {
+    const cap = maxMakerLoss("lmsr", 100, 0.5)!;
+    expect(cap).toBeCloseTo(100 * Math.LN2, 9);
+
+    let m = market();
+    for (const stake of [200, 150, 500, 80]) m = fill(m, "yes", stake);
+    const exposure = currentExposure(m);
+    expect(exposure.yes).toBeGreaterThan(0);
+    expect(exposure.yes).toBeLessThanOrEqual(cap + 1e-6);
+    expect(exposure.no).toBeLessThan(0);
+  });
+});
+
+describe("parimutuel", () => {
+  const pool = market({ pricing_mode: "parimutuel", liquidity_b: 100, initial_price_yes: 0.4 });
+
+  it("prices from the pools including the maker seed", () => {
+    expect(priceYes(pool)).toBeCloseTo(0.4, 9);
+    const quote = quoteBet(pool, "no", 100);
+    // Pools after the bet: yes 40, no 160
+    expect(quote.odds).toBeCloseTo(200 / 160, 9);
+    expect(quote.payout).toBe(125);
+  });
+
+  it("risks at most the seed", () => {
+    expect(maxMakerLoss("parimutuel", 100, 0.4)).toBe(100);
+    const m = fill(fill(pool, "yes", 300), "no", 50);
+    const exposure = currentExposure(m);
+    expect(Math.max(exposure.yes, exposure.no)).toBeLessThanOrEqual(100);
+  });
+});
+
+describe("fixed odds", () => {
+  it("pays the admin odds and has no market-maker bound", () => {
+    const m = market({ pricing_mode: "fixed", liquidity_b: null, odds_yes: 1.5, odds_no: 2.6 });
+    expect(quoteBet(m, "no", 98)).toMatchObject({ payout: 254, odds: 2.6 });
+    expect(maxMakerLoss("fixed", null, 0.5)).toBeNull();
+  });
+});
+
+describe("cash-out", () => {
+  it("buys an LMSR claim back at what it cost when the price has not moved", () => {
+    const m = fill(market(), "yes", 98);
+    const claim = quoteBet(market(), "yes", 98).payout;
+    const quote = cashOutQuote(m, "yes", claim, 98);
+    // Floors on the payout and value cost at most a coin or two
+    expect(quote.value).toBeGreaterThanOrEqual(96);
+    expect(quote.value).toBeLessThanOrEqual(98);
+    expect(quote.fee).toBe(Math.max(1, Math.floor(quote.value * 0.02)));
+    expect(quote.proceeds).toBe(quote.value - quote.fee);
+  });
+
+  it("is worth more after the price moves toward the position", () => {
+    const mine = fill(market(), "yes", 98);
+    const claim = quoteBet(market(), "yes", 98).payout;
+    const later = fill(mine, "yes", 300);
+    expect(cashOutQuote(later, "yes", claim, 98).value).toBeGreaterThan(cashOutQuote(mine, "yes", claim, 98).value);
+  });
+
+  it("values fixed odds at the implied probability and parimutuel at par", () => {
+    const fixed = market({ pricing_mode: "fixed", liquidity_b: null, odds_yes: 2, odds_no: 2 });
+    expect(cashOutQuote(fixed, "yes", 196, 98)).toEqual({ value: 98, fee: 1, proceeds: 97 });
+    const pool = market({ pricing_mode: "parimutuel", total_staked_yes: 500 });
+    expect(cashOutQuote(pool, "yes", 700, 250).value).toBe(250);
+  });
+});
+
+describe("multi-outcome", () => {
+  const outcome = (key: string, initial_price: number, overrides: Partial<PricedOutcome> = {}): PricedOutcome => ({
+    outcome: key,
+    odds: 1 / initial_price,
+    initial_price,
+    shares: 0,
+    total_staked: 0,
+    ...overrides,
+  });
+
+  it("matches the binary LMSR with two outcomes", () => {
+    const pair = [outcome("yes", 0.4), outcome("no", 0.6)];
+    const binary = quoteBet(market({ initial_price_yes: 0.4 }), "yes", 98);
+    const nWay = quoteOutcomeBet("lmsr", 100, pair, "yes", 98);
+    expect(nWay.payout).toBe(binary.payout);
+    expect(nWay.priceAfter).toBeCloseTo(binary.priceYesAfter, 9);
+  });
+
+  it("keeps prices summing to 1 and moves toward the bought outcome", () => {
+    const book = [outcome("home", 0.45), outcome("draw", 0.27), outcome("away", 0.28, { shares: 120 })];
+    const prices = outcomePrices("lmsr", 200, book);
+    expect(Object.values(prices).reduce((s, p) => s + p, 0)).toBeCloseTo(1, 9);
+    expect(prices.away).toBeGreaterThan(0.28);
+    expect(quoteOutcomeBet("lmsr", 200, book, "draw", 100).priceAfter).toBeGreaterThan(prices.draw);
+  });
+
+  it("splits parimutuel pools over every outcome", () => {
+    const book = [outcome("home", 0.5), outcome("draw", 0.25), outcome("away", 0.25, { total_staked: 50 })];
+    // Pools after 100 on draw: 50 / 125 / 75
+    const quote = quoteOutcomeBet("parimutuel", 100, book, "draw", 100);
+    expect(quote.odds).toBeCloseTo(250 / 125, 9);
+    expect(quote.payout).toBe(200);
+    expect(outcomePrices("fixed", null, [outcome("a", 0.5, { odds: 1.9 }), outcome("b", 0.5, { odds: 1.9 })]).a).toBeCloseTo(0.5, 9);
+  });
+});
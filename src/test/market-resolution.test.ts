@@ -0,0 +1,79 @@
+/**
+ * Market Resolution Proposal Tests
+ *
+ * Verifies the proposal lifecycle mirrored from propose_market_resolution /
+ * dispute_market_resolution / finalize_due_market_resolutions:
+ * - Phases follow the proposal status and challenge window
+ * - Only position holders may dispute, once, while the window is open
+ * - Evidence renders the fixture_results snapshot it was built from
+ */
+import { describe, it, expect } from "vitest";
+import {
+  canDispute,
+  evidenceScore,
+  evidenceStats,
+  isValidDisputeReason,
+  resolutionPhase,
+  type ProposalStatus,
+} from "../lib/marketResolution";
+
+const now = new Date("2026-07-28T12:00:00Z");
+const proposal = (status: ProposalStatus, endsInMinutes: number) => ({
+  status,
+  challenge_ends_at: new Date(now.getTime() + endsInMinutes * 60_000).toISOString(),
+});
+
+describe("resolution phase", () => {
+  it("is in the challenge window until challenge_ends_at", () => {
+    expect(resolutionPhase(proposal("open", 30), now)).toBe("challenge");
+    expect(resolutionPhase(proposal("open", -1), now)).toBe("settling");
+  });
+
+  it("waits for review once disputed, even after the window", () => {
+    expect(resolutionPhase(proposal("disputed", 30), now)).toBe("review");
+    expect(resolutionPhase(proposal("disputed", -30), now)).toBe("review");
+  });
+
+  it("has no live phase for rejected or replaced proposals", () => {
+    expect(resolutionPhase(proposal("finalized", -30), now)).toBe("settled");
+    expect(resolutionPhase(proposal("rejected", 30), now)).toBeNull();
+    expect(resolutionPhase(proposal("superseded", 30), now)).toBeNull();
+    expect(resolutionPhase(null, now)).toBeNull();
+  });
+});
+
+describe("disputes", () => {
+  it("are open to position holders during the window", () => {
+    expect(canDispute(proposal("open", 30), true, false, now)).toBe(true);
+    expect(canDispute(proposal("disputed", 30), true, false, now)).toBe(true);
+  });
+
+  it("are refused without a position, twice, or after the window", () => {
+    expect(canDispute(proposal("open", 30), false, false, now)).toBe(false);
+    expect(canDispute(proposal("open", 30), true, true, now)).toBe(false);
+    expect(canDispute(proposal("open", -1), true, false, now)).toBe(false);
+    expect(canDispute(proposal("finalized", 30), true, false, now)).toBe(false);
+  });
+
+  it("need a 10-500 character reason", () => {
+    expect(isValidDisputeReason("   too short  ")).toBe(false);
+    expect(isValidDisputeReason("Score was 2-2, not 2-1")).toBe(true);
+    expect(isValidDisputeReason("x".repeat(501))).toBe(false);
+  });
+});
+
+describe("evidence", () => {
+  it("shows the score and the stat lines that were recorded", () => {
+    const evidence = { goals_home: 2, goals_away: 1, corners_home: 7, corners_away: 3, cards_home: null, cards_away: 2 };
+    expect(evidenceScore(evidence)).toBe("2–1");
+    expect(evidenceStats(evidence)).toEqual([
+      { stat: "goals", home: 2, away: 1 },
+      { stat: "corners", home: 7, away: 3 },
+    ]);
+  });
+
+  it("has no score for markets without a fixture result", () => {
+    expect(evidenceScore({ admin_note: "Called by the league" })).toBeNull();
+    expect(evidenceStats(undefined)).toEqual([]);
+  });
+});
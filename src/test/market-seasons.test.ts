@@ -0,0 +1,56 @@
+/**
+ * Market Season Division Tests
+ *
+ * Verifies the promotion/relegation rules mirrored from
+ * rollover_market_season:
+ * - Zones are floor(size · share) places at each end of the table
+ * - Promotion wins when a small division's zones overlap
+ * - Tiers move by one and stay within the division ladder
+ * - Invite codes are normalised before joining
+ */
+import { describe, it, expect } from "vitest";
+import { divisionZone, isValidInviteCode, nextTier, normalizeInviteCode } from "../lib/marketSeasons";
+
+const pro = { promote_share: 0.2, relegate_share: 0.2 };
+
+describe("division zones", () => {
+  it("promotes and relegates the rounded-down share at each end", () => {
+    const zones = Array.from({ length: 12 }, (_, i) => divisionZone(i + 1, 12, pro));
+    // floor(12 · 0.2) = 2 each way
+    expect(zones.filter((z) => z === "promotion")).toHaveLength(2);
+    expect(zones.filter((z) => z === "relegation")).toHaveLength(2);
+    expect(zones.slice(0, 2)).toEqual(["promotion", "promotion"]);
+    expect(zones.slice(-2)).toEqual(["relegation", "relegation"]);
+  });
+
+  it("moves nobody out of a division too small for a whole place", () => {
+    expect([1, 2, 3, 4].map((rank) => divisionZone(rank, 4, pro))).toEqual([null, null, null, null]);
+  });
+
+  it("prefers promotion when the zones overlap", () => {
+    expect(divisionZone(1, 2, { promote_share: 0.5, relegate_share: 0.9 })).toBe("promotion");
+  });
+
+  it("never promotes from the top tier or relegates from the bottom", () => {
+    expect(divisionZone(1, 20, { promote_share: 0, relegate_share: 0.2 })).toBeNull();
+    expect(divisionZone(20, 20, { promote_share: 0.2, relegate_share: 0 })).toBeNull();
+  });
+});
+
+describe("next tier", () => {
+  it("moves one tier and clamps to the ladder", () => {
+    expect(nextTier(2, "promoted", 3)).toBe(1);
+    expect(nextTier(2, "relegated", 3)).toBe(3);
+    expect(nextTier(1, "promoted", 3)).toBe(1);
+    expect(nextTier(3, "relegated", 3)).toBe(3);
+    expect(nextTier(2, "stayed", 3)).toBe(2);
+  });
+});
+
+describe("invite codes", () => {
+  it("normalises case and whitespace", () => {
+    expect(normalizeInviteCode(" abcd 2345 ")).toBe("ABCD2345");
+    expect(isValidInviteCode("abcd2345")).toBe(true);
+    expect(isValidInviteCode("ABC-2345")).toBe(false);
+  });
+});
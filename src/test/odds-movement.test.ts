@@ -0,0 +1,102 @@
+/**
+ * Odds Movement Tests
+ *
+ * Verifies the odds_history helpers shared by the odds fetchers,
+ * odds-history and filterizer-query, plus the fixture chart pivot:
+ * - Only changed prices are appended to the history
+ * - Consensus movement since open (toward / against us)
+ * - Steam detection across the top bookmakers
+ */
+import { describe, it, expect } from "vitest";
+import {
+  changedPrices,
+  detectSteam,
+  lineMovement,
+  toLineMovement,
+  type OddsHistoryPoint,
+} from "../../supabase/functions/_shared/odds_movement.ts";
+import { buildOddsChartRows, historyPicks } from "../lib/oddsHistory";
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 5, 9, 12, minutes)).toISOString();
+
+const point = (bookmaker: string, odds: number, minutes: number, line = 2.5, side = "over"): OddsHistoryPoint => ({
+  market: "goals",
+  side,
+  line,
+  bookmaker,
+  odds,
+  captured_at: at(minutes),
+});
+
+describe("changedPrices", () => {
+  it("keeps new bookmakers and changed prices only", () => {
+    const last = [point("Bet365", 1.9, 0), point("Bet365", 1.85, 10), point("Unibet", 2.0, 10)];
+    const prices = [
+      { market: "goals" as const, side: "over" as const, line: 2.5, odds: 1.85, bookmaker: "Bet365" },
+      { market: "goals" as const, side: "over" as const, line: 2.5, odds: 1.95, bookmaker: "Unibet" },
+      { market: "goals" as const, side: "over" as const, line: 2.5, odds: 1.9, bookmaker: "Pinnacle" },
+    ];
+    expect(changedPrices(prices, last).map((p) => p.bookmaker)).toEqual(["Unibet", "Pinnacle"]);
+  });
+});
+
+describe("lineMovement", () => {
+  const history = [
+    point("Bet365", 2.0, 0),
+    point("Unibet", 2.1, 0),
+    point("Pinnacle", 2.2, 5),
+    point("Bet365", 1.8, 60),
+    point("Unibet", 1.9, 60),
+    point("Bet365", 2.5, 0, 3.5),
+  ];
+
+  it("compares the median opening and latest prices", () => {
+    const m = lineMovement(history, { market: "goals", side: "over", line: 2.5 });
+    expect(m).toMatchObject({ open_odds: 2.1, current_odds: 1.9, books: 3, direction: "toward" });
+    expect(m?.move_pct).toBeCloseTo(-0.0952, 4);
+    expect(m?.opened_at).toBe(at(0));
+    expect(m?.updated_at).toBe(at(60));
+  });
+
+  it("classifies drifts and ignores moves inside the tolerance", () => {
+    expect(toLineMovement({ open_odds: 1.8, current_odds: 2.0, books: 2, opened_at: at(0), updated_at: at(5) }).direction)
+      .toBe("against");
+    expect(toLineMovement({ open_odds: 2.0, current_odds: 1.98, books: 2, opened_at: at(0), updated_at: at(5) }).direction)
+      .toBe("flat");
+    expect(lineMovement(history, { market: "goals", side: "under", line: 2.5 })).toBeNull();
+  });
+});
+
+describe("detectSteam", () => {
+  it("flags a selection shortened by enough top bookmakers inside the window", () => {
+    const history = [
+      point("Bet365", 2.0, 0),
+      point("Unibet", 2.05, 0),
+      point("Pinnacle", 2.0, 0),
+      point("Bet365", 1.8, 20),
+      point("Unibet", 1.85, 25),
+      point("Pinnacle", 1.85, 28),
+    ];
+    const [move] = detectSteam(history, { windowMinutes: 30 });
+    expect(move).toMatchObject({ market: "goals", side: "over", line: 2.5, from_odds: 2.0, to_odds: 1.85 });
+    expect(move.books).toEqual(["Bet365", "Pinnacle", "Unibet"]);
+    expect(move.detected_at).toBe(at(28));
+  });
+
+  it("ignores slow or isolated moves", () => {
+    const slow = [point("Bet365", 2.0, 0), point("Unibet", 2.0, 0), point("Pinnacle", 2.0, 0),
+      point("Bet365", 1.8, 10), point("Unibet", 1.8, 35), point("Pinnacle", 1.8, 58)];
+    expect(detectSteam(slow, { windowMinutes: 10 })).toEqual([]);
+    expect(detectSteam(slow.slice(0, 4), { windowMinutes: 120 })).toEqual([]);
+  });
+});
+
+describe("odds chart rows", () => {
+  it("carries each bookmaker's price forward between changes", () => {
+    const points = [point("Bet365", 2.0, 0), point("Unibet", 2.1, 0), point("Bet365", 1.9, 30), point("Bet365", 2.4, 0, 3.5)];
+    const { books, rows } = buildOddsChartRows(points, { market: "goals", side: "over", line: 2.5 });
+    expect(books).toEqual(["Bet365", "Unibet"]);
+    expect(rows.map((r) => [r.Bet365, r.Unibet])).toEqual([[2.0, 2.1], [1.9, 2.1]]);
+    expect(historyPicks(points).map((p) => p.line)).toEqual([2.5, 3.5]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Stat Count Model Tests
+ *
+ * Verifies the shared distribution helpers and the five-market model:
+ * - Poisson / negative binomial CDFs and bookmaker push handling
+ * - Attack × defence venue model with league baselines and last-5 fallback
+ * - Price scoring with de-vigged book probabilities
+ */
+import { describe, it, expect } from "vitest";
+import {
+  poissonPMF,
+  poissonCDF,
+  negBinPMF,
+  negBinCDF,
+  overUnderProbability,
+  overUnderLadder,
+  edgeVsOdds,
+} from "../../supabase/functions/_shared/probability.ts";
+import {
+  buildMarketModel,
+  buildMatchModel,
+  marketProbability,
+  scorePrices,
+  DEFAULT_BASELINES,
+  type LastFiveAverages,
+} from "../../supabase/functions/_shared/stat_model.ts";
+import { extractTotalsPrices } from "../../supabase/functions/_shared/odds_normalization.ts";
+
+const last5 = (goals: number, corners: number, sample_size = 5): LastFiveAverages => ({
+  goals,
+  corners,
+  cards: 2,
+  fouls: 12,
+  offsides: 2,
+  sample_size,
+});
+
+describe("count distributions", () => {
+  it("matches known Poisson values", () => {
+    expect(poissonPMF(2.5, 0)).toBeCloseTo(Math.exp(-2.5), 10);
+    expect(poissonCDF(2.5, 2)).toBeCloseTo(0.5438, 4);
+    expect(poissonPMF(0, 0)).toBe(1);
+    expect(poissonPMF(0, 3)).toBe(0);
+  });
+
+  it("negative binomial sums to one, keeps its mean and converges to Poisson", () => {
+    let total = 0;
+    let mean = 0;
+    for (let k = 0; k < 200; k++) {
+      const p = negBinPMF(10, 8, k);
+      total += p;
+      mean += k * p;
+    }
+    expect(total).toBeCloseTo(1, 8);
+    expect(mean).toBeCloseTo(10, 6);
+    expect(negBinCDF(3, 1e7, 4)).toBeCloseTo(poissonCDF(3, 4), 5);
+    // Over-dispersion fattens both tails
+    expect(negBinCDF(10, 8, 4)).toBeGreaterThan(poissonCDF(10, 4));
+  });
+
+  it("handles half and whole lines like a bookmaker", () => {
+    const dist = { mean: 2.6, size: null };
+    const half = overUnderProbability(dist, 2.5);
+    expect(half.push).toBe(0);
+    expect(half.over + half.under).toBeCloseTo(1, 10);
+
+    const whole = overUnderProbability(dist, 3);
+    expect(whole.push).toBeCloseTo(poissonPMF(2.6, 3), 10);
+    expect(whole.under).toBeCloseTo(poissonCDF(2.6, 2), 10);
+    expect(whole.over + whole.under + whole.push).toBeCloseTo(1, 10);
+  });
+
+  it("builds a monotone ladder consistent with single-line probabilities", () => {
+    const dist = { mean: 9.8, size: 30 };
+    const ladder = overUnderLadder(dist, 14.5);
+    expect(ladder.map((l) => l.line)).toEqual(Array.from({ length: 15 }, (_, i) => i + 0.5));
+    for (let i = 1; i < ladder.length; i++) {
+      expect(ladder[i].over).toBeLessThan(ladder[i - 1].over);
+    }
+    expect(ladder[9].over).toBeCloseTo(overUnderProbability(dist, 9.5).over, 10);
+  });
+
+  it("computes EV against decimal odds", () => {
+    expect(edgeVsOdds(0.55, 2)).toBeCloseTo(0.1, 10);
+    expect(edgeVsOdds(0.55, 1)).toBe(0);
+  });
+});
+
+describe("buildMarketModel", () => {
+  it("combines attack and defence venue rates relative to the league", () => {
+    const league = { league_id: 39, rates: { goals: { home: 1.5, away: 1.2, n: 200 } } };
+    const homeRates = { team_id: 1, venue: "home" as const, rates: { goals: { for: 2.1, against: 0.8, n: 10 } } };
+    const awayRates = { team_id: 2, venue: "away" as const, rates: { goals: { for: 1.0, against: 1.9, n: 10 } } };
+
+    const m = buildMarketModel("goals", { homeRates, awayRates, league })!;
+    expect(m.source).toBe("venue_rates");
+    // Shrunk rates: homeFor (2.1·10+1.5·5)/15 = 1.9, awayAgainst (1.9·10+1.5·5)/15 ≈ 1.7667
+    expect(m.lambdaHome).toBeCloseTo((1.9 * 1.76667) / 1.5, 3);
+    expect(m.distribution.size).toBeNull();
+
+    // A strong attack against a leaky defence must beat the league average
+    const avg = buildMarketModel("goals", {
+      homeRates: { ...homeRates, rates: { goals: { for: 1.5, against: 1.2, n: 10 } } },
+      awayRates: { ...awayRates, rates: { goals: { for: 1.2, against: 1.5, n: 10 } } },
+      league,
+    })!;
+    expect(m.distribution.mean).toBeGreaterThan(avg.distribution.mean);
+    expect(avg.distribution.mean).toBeCloseTo(2.7, 6);
+  });
+
+  it("ignores thin league baselines", () => {
+    const thin = { league_id: 5, rates: { corners: { home: 9, away: 9, n: 4 } } };
+    const m = buildMarketModel("corners", { homeLast5: last5(1, 5.4), awayLast5: last5(1, 4.5), league: thin })!;
+    expect(m.lambdaHome).toBeCloseTo(DEFAULT_BASELINES.corners.home, 6);
+  });
+
+  it("falls back to last-5 averages and requires a minimum sample", () => {
+    const m = buildMarketModel("corners", { homeLast5: last5(1.4, 6.4), awayLast5: last5(1.1, 4.5) })!;
+    expect(m.source).toBe("last5");
+    expect(m.distribution.size).toBe(30);
+    expect(buildMarketModel("corners", { homeLast5: last5(1.4, 6.4, 2), awayLast5: last5(1.1, 4.5) })).toBeNull();
+    expect(Object.keys(buildMatchModel({ homeLast5: last5(1.4, 6), awayLast5: last5(1.1, 5) }))).toEqual([
+      "goals",
+      "corners",
+      "cards",
+      "fouls",
+      "offsides",
+    ]);
+  });
+});
+
+describe("scorePrices", () => {
+  it("de-vigs two-sided prices and ranks by edge", () => {
+    const model = buildMatchModel({ homeLast5: last5(2.2, 5), awayLast5: last5(1.6, 5) }, ["goals"]);
+    const prices = extractTotalsPrices({
+      bookmakers: [
+        {
+          name: "Book A",
+          bets: [
+            {
+              id: 5,
+              values: [
+                { value: "Over 2.5", odd: "1.90" },
+                { value: "Under 2.5", odd: "1.90" },
+                { value: "Over 3.5", odd: "3.10" },
+              ],
+            },
+            { id: 45, values: [{ value: "Over 9.5", odd: "1.85" }] },
+          ],
+        },
+      ],
+    });
+    expect(prices).toHaveLength(4);
+
+    const edges = scorePrices(model, prices);
+    // Corners are not modelled here, so only the three goals prices are scored
+    expect(edges).toHaveLength(3);
+    const over25 = edges.find((e) => e.side === "over" && e.line === 2.5)!;
+    expect(over25.book_prob).toBeCloseTo(0.5, 10);
+    expect(over25.model_prob).toBeCloseTo(marketProbability(model.goals!, "over", 2.5), 10);
+    expect(over25.edge).toBeCloseTo(over25.model_prob - 0.5, 10);
+    // One-sided price keeps the raw implied probability
+    expect(edges.find((e) => e.line === 3.5)!.book_prob).toBeCloseTo(1 / 3.1, 10);
+    for (let i = 1; i < edges.length; i++) {
+      expect(edges[i].edge).toBeLessThanOrEqual(edges[i - 1].edge);
+    }
+  });
+});
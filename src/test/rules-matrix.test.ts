@@ -0,0 +1,104 @@
+/**
+ * Rules Matrix Tests
+ *
+ * Verifies the versioned qualification matrix in supabase/functions/_shared/rules.ts:
+ * - Static fallback matches the seeded matrix-v3 behaviour
+ * - Per-league overrides replace only the overridden market
+ * - pickLine resolves through the same active matrix
+ * - Validation and range-level diffs used by the admin registry
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  RULES,
+  pickFromCombined,
+  setActiveRulesMatrix,
+  getActiveRulesVersion,
+  matrixHasPick,
+  validateRuleset,
+  diffRulesMatrices,
+  STATIC_RULES_MATRIX,
+  type RulesMatrix,
+} from "../../supabase/functions/_shared/rules.ts";
+import { pickLine } from "../../supabase/functions/_shared/ticket_rules.ts";
+
+const V4: RulesMatrix = {
+  version: "matrix-v4",
+  rules: {
+    ...RULES,
+    goals: [
+      { range: [2.3, 3.2], pick: { side: "over", line: 1.5 } },
+      { range: [3.3, 4.5], pick: { side: "over", line: 2.5 } },
+    ],
+  },
+  leagueOverrides: {
+    "39": { corners: [{ range: [9, 12], pick: { side: "over", line: 7.5 } }] },
+  },
+};
+
+afterEach(() => setActiveRulesMatrix(null));
+
+describe("pickFromCombined", () => {
+  it("uses the static matrix until a version is loaded", () => {
+    expect(getActiveRulesVersion()).toBe("matrix-v3");
+    expect(pickFromCombined("goals", 3.2)).toEqual({ side: "over", line: 1.5 });
+    expect(pickFromCombined("offsides", 1.5)).toBeNull();
+    expect(pickFromCombined("cards", 9)).toEqual({ side: "over", line: 5.5 });
+  });
+
+  it("resolves through the active matrix and its league overrides", () => {
+    setActiveRulesMatrix(V4);
+    expect(getActiveRulesVersion()).toBe("matrix-v4");
+    expect(pickFromCombined("goals", 4.4)).toEqual({ side: "over", line: 2.5 });
+    expect(pickFromCombined("corners", 9.5, 39)).toEqual({ side: "over", line: 7.5 });
+    // Other leagues and other markets in league 39 fall through to the defaults
+    expect(pickFromCombined("corners", 9.5, 140)).toBeNull();
+    expect(pickFromCombined("goals", 4.4, 39)).toEqual({ side: "over", line: 2.5 });
+  });
+
+  it("can evaluate a non-active matrix explicitly", () => {
+    expect(pickFromCombined("goals", 4.4, null, V4)).toEqual({ side: "over", line: 2.5 });
+    expect(pickFromCombined("goals", 4.4)).toEqual({ side: "over", line: 3.5 });
+  });
+});
+
+describe("pickLine", () => {
+  it("agrees with pickFromCombined", () => {
+    expect(pickLine("goals", 3.5)).toEqual({ label: "Over 2.5", kind: "over", threshold: 2.5 });
+    expect(pickLine("cards", 1.5)).toBeNull();
+    setActiveRulesMatrix(V4);
+    expect(pickLine("corners", 9.5, 39)?.label).toBe("Over 7.5");
+  });
+});
+
+describe("matrixHasPick", () => {
+  it("includes lines that only exist in a league override", () => {
+    expect(matrixHasPick("corners", "over", 7.5)).toBe(false);
+    expect(matrixHasPick("corners", "over", 7.5, V4)).toBe(true);
+    expect(matrixHasPick("corners", "under", 7.5, V4)).toBe(false);
+  });
+});
+
+describe("validateRuleset", () => {
+  it("accepts the static rules and rejects malformed ones", () => {
+    expect(validateRuleset(RULES)).toEqual([]);
+    expect(validateRuleset({ goals: [] }, true)).toEqual([]);
+    expect(validateRuleset({ goals: [] })).toContain("corners: missing");
+    expect(validateRuleset({ goals: [{ range: [3, 2], pick: null }] }, true)).toHaveLength(1);
+    expect(validateRuleset({ goals: [{ range: "gte", pick: { side: "over" } }] }, true)).toHaveLength(1);
+    expect(validateRuleset({ shots: [] }, true)).toEqual(['unknown market "shots"']);
+  });
+});
+
+describe("diffRulesMatrices", () => {
+  it("lists changed, removed and added ranges per scope", () => {
+    const changes = diffRulesMatrices(STATIC_RULES_MATRIX, V4);
+    expect(changes).toEqual([
+      { scope: "default", market: "goals", change: "removed", range: [3.3, 4.2], before: { side: "over", line: 2.5 }, after: undefined },
+      { scope: "default", market: "goals", change: "removed", range: [4.3, 5.2], before: { side: "over", line: 3.5 }, after: undefined },
+      { scope: "default", market: "goals", change: "removed", range: [5.3, 6.3], before: { side: "over", line: 4.5 }, after: undefined },
+      { scope: "default", market: "goals", change: "added", range: [3.3, 4.5], before: undefined, after: { side: "over", line: 2.5 } },
+      { scope: "league:39", market: "corners", change: "added", range: [9, 12], before: undefined, after: { side: "over", line: 7.5 } },
+    ]);
+    expect(diffRulesMatrices(V4, V4)).toEqual([]);
+  });
+});
@@ -5,8 +5,16 @@
  * - One leg per fixture (existing)
  * - Market-type diversity (max 2 legs of same market type)
  * - Same-league soft cap for multi-leg tickets
+ * - Joint probability for same-fixture / same league-day legs
+ *   (supabase/functions/_shared/ticket_correlation.ts) and its use in the search
  */
 import { describe, it, expect } from "vitest";
+import {
+  assessTicketCorrelation,
+  pairCorrelation,
+  type CorrelationLeg,
+} from "../../supabase/functions/_shared/ticket_correlation.ts";
+import { generateOptimizedTicket } from "../../supabase/functions/_shared/ticket_search.ts";
 
 interface TicketLeg {
   fixtureId: number;
@@ -133,3 +141,76 @@ describe("Combined correlation guards", () => {
     expect(filtered.length).toBe(2);
   });
 });
+
+describe("Joint probability of correlated legs", () => {
+  const leg = (over: Partial<CorrelationLeg>): CorrelationLeg => ({
+    fixtureId: 1,
+    leagueId: 39,
+    day: "2026-05-10",
+    market: "goals",
+    side: "over",
+    line: 2.5,
+    prob: 0.6,
+    ...over,
+  });
+
+  it("equals the naive product for independent legs", () => {
+    const res = assessTicketCorrelation([
+      leg({ fixtureId: 1, leagueId: 39 }),
+      leg({ fixtureId: 2, leagueId: 140, prob: 0.7 }),
+    ]);
+    expect(res.pairs).toEqual([]);
+    expect(res.adjusted_prob).toBeCloseTo(0.42, 10);
+    expect(res.factor).toBeCloseTo(1, 10);
+  });
+
+  it("raises the joint probability for goals over + BTTS yes and blocks the pair", () => {
+    const res = assessTicketCorrelation([leg({}), leg({ market: "btts", side: "yes", line: null, prob: 0.55 })]);
+    expect(res.pairs).toHaveLength(1);
+    expect(res.pairs[0].reason).toBe("same_fixture");
+    expect(res.blocked).toBe(true);
+    expect(res.adjusted_prob).toBeGreaterThan(res.naive_prob);
+    expect(res.adjusted_prob).toBeLessThanOrEqual(0.55);
+  });
+
+  it("resolves same-market legs on one fixture exactly", () => {
+    const nested = pairCorrelation(leg({ line: 1.5, prob: 0.8 }), leg({ line: 2.5, prob: 0.55 }))!;
+    expect(nested.joint).toBeCloseTo(0.55, 10);
+    const band = pairCorrelation(leg({ line: 1.5, prob: 0.8 }), leg({ side: "under", line: 3.5, prob: 0.7 }))!;
+    expect(band.joint).toBeCloseTo(0.5, 10);
+    const contradiction = pairCorrelation(leg({}), leg({ side: "under", prob: 0.4 }))!;
+    expect(contradiction.joint).toBe(0);
+    expect(contradiction.blocked).toBe(true);
+  });
+
+  it("applies a weak same league-day effect without blocking", () => {
+    const res = assessTicketCorrelation([leg({ fixtureId: 1 }), leg({ fixtureId: 2, day: "2026-05-10T19:00:00Z" })]);
+    expect(res.pairs.map((p) => p.reason)).toEqual(["league_day"]);
+    expect(res.blocked).toBe(false);
+    expect(res.factor).toBeGreaterThan(1);
+    expect(res.factor).toBeLessThan(1.05);
+    // Different days are independent
+    expect(pairCorrelation(leg({ fixtureId: 1 }), leg({ fixtureId: 2, day: "2026-05-11" }))).toBeNull();
+  });
+});
+
+describe("Ticket search with correlation penalty", () => {
+  it("prefers legs from different league-days and reports adjusted probability", () => {
+    const pool = [
+      { fixtureId: 1, market: "goals", odds: 1.5, _leagueId: 39, side: "over", line: 2.5, modelProb: 0.7, start: "2026-05-10" },
+      { fixtureId: 2, market: "goals", odds: 1.5, _leagueId: 39, side: "over", line: 2.5, modelProb: 0.7, start: "2026-05-10" },
+      { fixtureId: 3, market: "goals", odds: 1.5, _leagueId: 140, side: "over", line: 2.5, modelProb: 0.7, start: "2026-05-10" },
+    ];
+    const ticket = generateOptimizedTicket(pool, 2.0, 2.5, 2, 2, ["goals"], undefined, {
+      seed: 7,
+      attemptTimeoutMs: Infinity,
+      totalTimeoutMs: Infinity,
+      quiet: true,
+    })!;
+    expect(ticket.within_band).toBe(true);
+    const leagues = ticket.legs.map((l) => l._leagueId!).sort((a, b) => a - b);
+    expect(leagues).toEqual([39, 140]);
+    expect(ticket.correlation?.pairs).toEqual([]);
+    expect(ticket.correlation?.adjusted_prob).toBeCloseTo(0.49, 10);
+  });
+});
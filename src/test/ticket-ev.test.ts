@@ -0,0 +1,80 @@
+/**
+ * Ticket EV Tests
+ *
+ * Verifies the shared EV / fractional-Kelly calculator used by ticket-ev and
+ * analyze-ticket:
+ * - Kelly share for decimal odds
+ * - Model vs. implied-probability fallback
+ * - Bankroll cap and correlation-adjusted win probability
+ */
+import { describe, it, expect } from "vitest";
+import {
+  computeTicketEV,
+  kellyShare,
+  DEFAULT_MAX_BANKROLL_SHARE,
+  type EvLeg,
+} from "../../supabase/functions/_shared/ticket_ev.ts";
+
+const leg = (over: Partial<EvLeg> = {}): EvLeg => ({
+  fixtureId: 1,
+  market: "goals",
+  side: "over",
+  line: 2.5,
+  odds: 2,
+  ...over,
+});
+
+describe("kellyShare", () => {
+  it("matches the closed form and never goes negative", () => {
+    // b = 1, p = 0.6 → (0.6 - 0.4) / 1
+    expect(kellyShare(0.6, 2)).toBeCloseTo(0.2, 10);
+    expect(kellyShare(0.4, 2)).toBe(0);
+    expect(kellyShare(0.9, 1)).toBe(0);
+  });
+});
+
+describe("computeTicketEV", () => {
+  it("uses model probabilities for EV and suggests a fractional Kelly stake", () => {
+    const ev = computeTicketEV(
+      [leg({ fixtureId: 1, modelProb: 0.7 }), leg({ fixtureId: 2, modelProb: 0.8 })],
+      { stake: 10, bankroll: 1000, kellyFraction: 0.25, maxBankrollShare: 1 }
+    );
+    expect(ev.total_odds).toBe(4);
+    expect(ev.win_prob).toBeCloseTo(0.56, 4);
+    expect(ev.prob_source).toBe("model");
+    expect(ev.ev_per_unit).toBeCloseTo(1.24, 4);
+    expect(ev.expected_profit).toBeCloseTo(12.4, 2);
+    // Full Kelly: (3·0.56 − 0.44) / 3
+    expect(ev.kelly_full).toBeCloseTo(0.4133, 4);
+    expect(ev.suggested_stake).toBeCloseTo(1000 * 0.25 * 0.41333, 1);
+    expect(ev.has_edge).toBe(true);
+  });
+
+  it("falls back to implied probability when no leg has a model price", () => {
+    const ev = computeTicketEV([leg({ fixtureId: 1 }), leg({ fixtureId: 2, odds: 1.5 })], { stake: 10, bankroll: 500 });
+    expect(ev.prob_source).toBe("implied");
+    expect(ev.win_prob).toBeCloseTo(ev.implied_prob, 4);
+    expect(ev.ev_per_unit).toBeCloseTo(0, 4);
+    expect(ev.suggested_stake).toBe(0);
+    expect(ev.has_edge).toBe(false);
+  });
+
+  it("caps the stake at the bankroll share limit and needs a bankroll to size it", () => {
+    const legs = [leg({ modelProb: 0.9 })];
+    const capped = computeTicketEV(legs, { bankroll: 1000, kellyFraction: 1 });
+    expect(capped.kelly_full).toBeCloseTo(0.8, 6);
+    expect(capped.kelly_share).toBe(DEFAULT_MAX_BANKROLL_SHARE);
+    expect(capped.suggested_stake).toBe(1000 * DEFAULT_MAX_BANKROLL_SHARE);
+    expect(computeTicketEV(legs).suggested_stake).toBeNull();
+  });
+
+  it("prices same-fixture legs with the correlation-adjusted probability", () => {
+    const ev = computeTicketEV([
+      leg({ fixtureId: 7, market: "goals", modelProb: 0.55 }),
+      leg({ fixtureId: 7, market: "btts", side: "yes", line: null, modelProb: 0.5 }),
+    ]);
+    expect(ev.naive_win_prob).toBeCloseTo(0.275, 4);
+    expect(ev.win_prob).toBeGreaterThan(ev.naive_win_prob);
+    expect(ev.ev_per_unit).toBeCloseTo(ev.win_prob * 4 - 1, 3);
+  });
+});
@@ -1,5 +1,7 @@
 // Shared API client for API-Football Direct API
 // Uses the direct API-Football endpoint (https://v3.football.api-sports.io)
+// Calling fetch with these bypasses the DataProvider and so cannot be
+// recorded or replayed; prefer fetchAPIFootball (api_football.ts).
 
 export function apiHeaders(): Record<string, string> {
   const key = Deno.env.get("API_FOOTBALL_KEY") ?? "";
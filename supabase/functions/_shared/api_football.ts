@@ -6,9 +6,14 @@
 // - Token bucket algorithm for request tracking
 // - Exponential backoff on 429 errors
 // - Structured logging for debugging
+// Requests go through the DataProvider (live, record or replay — see
+// data_provider.ts), so callers run unchanged against recorded fixtures.
+// The bucket below only paces this isolate; the daily budget and RPM across
+// functions are enforced by the quota ledger (api_quota.ts).
 // ============================================================================
 
-import { API_BASE, apiHeaders } from "./api.ts";
+import { API_BASE } from "./api.ts";
+import { getDataProvider } from "./provider_registry.ts";
 
 // Configuration via environment (tunable per plan)
 const DEFAULT_MAX_RPM = 50;  // Safe default for most plans
@@ -79,9 +84,9 @@ async function waitForRateLimit(): Promise<void> {
 }
 
 // Structured logging for API requests
-function logRequest(url: string, status: number, retryCount: number, durationMs: number): void {
+function logRequest(path: string, status: number, retryCount: number, durationMs: number): void {
   const level = status === 200 ? "info" : status === 429 ? "warn" : "error";
-  const endpoint = url.replace(API_BASE, "").split("?")[0];
+  const endpoint = path.split("?")[0];
   console.log(`[api-football] ${level.toUpperCase()}: ${endpoint} status=${status} retry=${retryCount} duration=${durationMs}ms rpm=${state.requests}`);
 }
 
@@ -97,7 +102,8 @@ export async function fetchAPIFootball(
   const maxRetries = options.maxRetries ?? MAX_RETRIES;
   const prefix = options.logPrefix ?? "[api-football]";
   
-  const url = endpoint.startsWith("http") ? endpoint : `${API_BASE}${endpoint}`;
+  const path = endpoint.startsWith(API_BASE) ? endpoint.slice(API_BASE.length) : endpoint;
+  const provider = getDataProvider();
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
@@ -107,14 +113,24 @@ export async function fetchAPIFootball(
       }
       
       const startTime = Date.now();
-      const response = await fetch(url, { headers: apiHeaders() });
+      const response = await provider.get("football", path);
       const durationMs = Date.now() - startTime;
       
-      logRequest(url, response.status, attempt, durationMs);
+      logRequest(path, response.status, attempt, durationMs);
+      
+      // Refused by the quota ledger: retrying cannot help until the budget resets
+      if (response.deferred) {
+        return {
+          ok: false,
+          status: response.status,
+          data: null,
+          error: `Quota deferred (${response.deferred})`,
+        };
+      }
       
       // Handle rate limiting (429)
       if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get("Retry-After") || "60", 10);
+        const retryAfter = response.retryAfter ?? 60;
         const delay = Math.min(
           Math.max(retryAfter * 1000, BASE_DELAY_MS * Math.pow(2, attempt)),
           60000
@@ -132,8 +148,8 @@ export async function fetchAPIFootball(
         continue;
       }
       
-      // Success or client error - parse response
-      const data = await response.json().catch(() => null);
+      // Success or client error
+      const data = response.body;
       
       return {
         ok: response.ok,
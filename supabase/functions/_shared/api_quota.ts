@@ -0,0 +1,322 @@
+/**
+ * API QUOTA
+ *
+ * The api-sports daily budget and per-minute limit are shared by every edge
+ * function using the same key, so they are enforced in the database
+ * (api_quota_usage, reserve_api_quota) rather than per isolate. A job calls
+ * meterApiQuota(supabase, job) from provider_registry.ts once per run; from
+ * then on every provider request reserves one call first.
+ *
+ * Jobs have a priority, and each priority may only spend up to its share of
+ * the account's daily budget:
+ *
+ *   critical  100%   results-refresh, live-fixtures-poll
+ *   high       95%   odds, fixtures, stats
+ *   normal     85%   hockey / basketball syncs, predictions, team totals,
+ *                     winner odds, admin remediation
+ *   low        70%   backfills (some also capped by their own daily budget)
+ *
+ * so as the budget runs low, backfills are deferred first and results-refresh
+ * keeps running. A refused request answers 429 with `deferred` set, without
+ * reaching the API; a full minute waits for the next one.
+ *
+ * The policy and summary functions are pure — tested in
+ * src/test/api-quota.test.ts.
+ */
+
+import { DAILY_CALL_BUDGET, RPM_LIMIT } from "./config.ts";
+import type { DataProvider, ProviderResponse, SportsApi } from "./data_provider.ts";
+
+export type QuotaPriority = "critical" | "high" | "normal" | "low";
+
+/** api-sports key account: basketball and NBA share the football key */
+export type QuotaAccount = "api-football" | "api-hockey";
+
+export type QuotaDenialReason = "daily" | "job" | "rpm";
+
+/** Share of the account's daily budget a priority may spend */
+export const PRIORITY_CEILING: Record<QuotaPriority, number> = {
+  critical: 1,
+  high: 0.95,
+  normal: 0.85,
+  low: 0.7,
+};
+
+interface QuotaJobConfig {
+  priority: QuotaPriority;
+  /** Calls per UTC day for this job alone, on top of the priority ceiling */
+  dailyBudget?: number;
+}
+
+export const QUOTA_JOBS = {
+  "results-refresh": { priority: "critical" },
+  "live-fixtures-poll": { priority: "critical" },
+  "fetch-odds": { priority: "high" },
+  "fetch-fixtures": { priority: "high" },
+  "cron-fetch-fixtures": { priority: "high" },
+  "stats-refresh": { priority: "high" },
+  "hockey-sync-fixtures": { priority: "normal" },
+  "hockey-sync-odds": { priority: "normal" },
+  "hockey-sync-results": { priority: "normal" },
+  "hockey-sync-game-stats": { priority: "normal" },
+  "basketball-sync-fixtures": { priority: "normal" },
+  "basketball-sync-odds": { priority: "normal" },
+  "basketball-sync-results": { priority: "normal" },
+  "fetch-predictions": { priority: "normal" },
+  "fetch-odds-bets": { priority: "normal" },
+  "team-totals-refresh": { priority: "normal" },
+  "populate-team-totals-candidates": { priority: "normal" },
+  "populate-winner-outcomes": { priority: "normal" },
+  "admin-remediate-stats-gaps": { priority: "normal" },
+  "results-refresh-backfill": { priority: "low" },
+  "auto-backfill-results": { priority: "low" },
+  "fixtures-history-backfill": { priority: "low", dailyBudget: 10000 },
+  "stats-turbo-backfill": { priority: "low", dailyBudget: 15000 },
+  "backfill-odds": { priority: "low", dailyBudget: 5000 },
+} satisfies Record<string, QuotaJobConfig>;
+
+export type QuotaJob = keyof typeof QUOTA_JOBS;
+
+/** Daily budget and per-minute limit per account; null is metered but uncapped */
+export const ACCOUNT_LIMITS: Record<QuotaAccount, { daily: number | null; rpm: number | null }> = {
+  "api-football": { daily: DAILY_CALL_BUDGET, rpm: RPM_LIMIT },
+  "api-hockey": { daily: null, rpm: null },
+};
+
+export function quotaAccount(api: SportsApi): QuotaAccount {
+  return api === "hockey" ? "api-hockey" : "api-football";
+}
+
+export function jobConfig(job: string): QuotaJobConfig | null {
+  return (QUOTA_JOBS as Record<string, QuotaJobConfig>)[job] ?? null;
+}
+
+export interface QuotaLimits {
+  /** Account calls today after which this job is deferred */
+  daily_ceiling: number | null;
+  job_budget: number | null;
+  rpm: number | null;
+}
+
+export function quotaLimits(job: QuotaJob, account: QuotaAccount): QuotaLimits {
+  const config: QuotaJobConfig = QUOTA_JOBS[job];
+  const { daily, rpm } = ACCOUNT_LIMITS[account];
+  return {
+    daily_ceiling: daily == null ? null : Math.floor(daily * PRIORITY_CEILING[config.priority]),
+    job_budget: config.dailyBudget ?? null,
+    rpm,
+  };
+}
+
+/** reserve_api_quota's answer */
+export interface QuotaReservation {
+  allowed: boolean;
+  reason?: QuotaDenialReason;
+  used: number;
+  job_used: number;
+  minute_used: number;
+  retry_after_ms?: number;
+}
+
+/** The subset of a Supabase client the ledger needs */
+export interface QuotaRpcClient {
+  rpc(
+    fn: string,
+    args: Record<string, unknown>
+  ): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+const MAX_RPM_WAITS = 5;
+
+export class ApiQuotaLedger {
+  /** Set once a daily or job ceiling refuses a call; later calls fail fast */
+  private exhausted = new Map<QuotaAccount, QuotaReservation>();
+
+  constructor(
+    private readonly supabase: QuotaRpcClient,
+    readonly job: QuotaJob
+  ) {}
+
+  /**
+   * Reserve calls before making them. Returns null when allowed (or when the
+   * ledger is unreachable — quota accounting never takes a job down), else
+   * the refusal.
+   */
+  async reserve(api: SportsApi, calls = 1): Promise<QuotaReservation | null> {
+    const account = quotaAccount(api);
+    const exhausted = this.exhausted.get(account);
+    if (exhausted) return exhausted;
+
+    for (let wait = 0; ; wait++) {
+      const res = await this.call(account, calls);
+      if (!res || res.allowed) return null;
+      if (res.reason !== "rpm") {
+        console.warn(`[api-quota] ${this.job} deferred on ${account}: ${res.reason} ceiling (used=${res.used}, job=${res.job_used})`);
+        if (calls > 0) this.exhausted.set(account, res);
+        return res;
+      }
+      if (wait >= MAX_RPM_WAITS) return res;
+      const delay = res.retry_after_ms ?? 1000;
+      console.log(`[api-quota] ${account} minute full (${res.minute_used}), ${this.job} waiting ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /** Today's usage as this job sees it, without spending; null when the ledger is unreachable */
+  async check(api: SportsApi = "football"): Promise<QuotaReservation | null> {
+    return this.call(quotaAccount(api), 0);
+  }
+
+  /** Pre-flight check for a run: the refusal if the job would be deferred now, else null */
+  async deferral(api: SportsApi = "football"): Promise<QuotaReservation | null> {
+    return this.reserve(api, 0);
+  }
+
+  private async call(account: QuotaAccount, calls: number): Promise<QuotaReservation | null> {
+    const limits = quotaLimits(this.job, account);
+    const { data, error } = await this.supabase.rpc("reserve_api_quota", {
+      p_account: account,
+      p_job: this.job,
+      p_calls: calls,
+      p_daily_ceiling: limits.daily_ceiling,
+      p_job_budget: limits.job_budget,
+      p_rpm: limits.rpm,
+    });
+    if (error) {
+      console.error(`[api-quota] reserve failed for ${this.job}, allowing: ${error.message}`);
+      return null;
+    }
+    return data as QuotaReservation;
+  }
+}
+
+/** Reserves quota through the current ledger (if any) before each request */
+export class QuotaProvider implements DataProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: DataProvider,
+    private readonly ledger: () => ApiQuotaLedger | null
+  ) {
+    this.name = inner.name;
+  }
+
+  configError(api: SportsApi): string | null {
+    return this.inner.configError(api);
+  }
+
+  async get<T = unknown>(api: SportsApi, path: string): Promise<ProviderResponse<T>> {
+    const denied = await this.ledger()?.reserve(api);
+    if (denied?.reason) {
+      return {
+        ok: false,
+        status: 429,
+        body: { errors: { quota: `Deferred: ${denied.reason} quota reached` } },
+        deferred: denied.reason,
+      };
+    }
+    return this.inner.get<T>(api, path);
+  }
+}
+
+// ============================================================================
+// Telemetry (admin-health)
+// ============================================================================
+
+export interface QuotaUsageRow {
+  account: string;
+  job: string;
+  calls: number;
+  deferred: number;
+  last_call_at: string | null;
+  last_deferred_at: string | null;
+}
+
+export interface QuotaMinuteRow {
+  account: string;
+  minute: string;
+  calls: number;
+}
+
+export interface QuotaAccountSummary {
+  account: string;
+  used: number;
+  budget: number | null;
+  used_pct: number | null;
+  /** Calls by the end of the UTC day at today's average rate */
+  projected: number;
+  deferred: number;
+  rpm_limit: number | null;
+  calls_this_minute: number;
+  /** Priorities already past their ceiling */
+  deferring: QuotaPriority[];
+}
+
+export interface QuotaJobSummary {
+  job: string;
+  account: string;
+  priority: QuotaPriority | null;
+  calls: number;
+  deferred: number;
+  budget: number | null;
+  last_call_at: string | null;
+  last_deferred_at: string | null;
+}
+
+export interface ApiQuotaSummary {
+  day: string;
+  accounts: QuotaAccountSummary[];
+  jobs: QuotaJobSummary[];
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/** Today's usage (rows for the current UTC day) rolled up per account and job */
+export function summarizeApiQuota(
+  usage: QuotaUsageRow[],
+  minutes: QuotaMinuteRow[],
+  now: Date = new Date()
+): ApiQuotaSummary {
+  const day = now.toISOString().slice(0, 10);
+  // At least 15 minutes in, so the first calls after midnight do not project wildly
+  const dayFraction = Math.max((now.getTime() - Date.parse(`${day}T00:00:00Z`)) / DAY_MS, 1 / 96);
+  const currentMinute = new Date(Math.floor(now.getTime() / 60000) * 60000).getTime();
+  const priorities = Object.keys(PRIORITY_CEILING) as QuotaPriority[];
+
+  const accounts = (Object.keys(ACCOUNT_LIMITS) as QuotaAccount[]).map((account): QuotaAccountSummary => {
+    const rows = usage.filter((r) => r.account === account);
+    const used = rows.reduce((sum, r) => sum + r.calls, 0);
+    const { daily, rpm } = ACCOUNT_LIMITS[account];
+    return {
+      account,
+      used,
+      budget: daily,
+      used_pct: daily ? Math.round((used / daily) * 1000) / 10 : null,
+      projected: Math.round(used / dayFraction),
+      deferred: rows.reduce((sum, r) => sum + r.deferred, 0),
+      rpm_limit: rpm,
+      calls_this_minute: minutes
+        .filter((m) => m.account === account && Date.parse(m.minute) === currentMinute)
+        .reduce((sum, m) => sum + m.calls, 0),
+      deferring: daily == null ? [] : priorities.filter((p) => used >= Math.floor(daily * PRIORITY_CEILING[p])),
+    };
+  });
+
+  const jobs = usage
+    .map((r): QuotaJobSummary => {
+      const config = jobConfig(r.job);
+      return {
+        job: r.job,
+        account: r.account,
+        priority: config?.priority ?? null,
+        calls: r.calls,
+        deferred: r.deferred,
+        budget: config?.dailyBudget ?? null,
+        last_call_at: r.last_call_at,
+        last_deferred_at: r.last_deferred_at,
+      };
+    })
+    .sort((a, b) => b.calls - a.calls);
+
+  return { day, accounts, jobs };
+}
@@ -0,0 +1,376 @@
+/**
+ * OFFLINE TICKET BACKTEST ENGINE
+ *
+ * Replays the ticket generator (generateOptimizedTicket) against settled
+ * historical selections, one ticket per (mode, rules_version, kickoff day).
+ *
+ * Inputs are normalized samples from two sources:
+ * - backtest_samples (optimized_selections ⨝ fixture_results, carries rules_version)
+ * - ticket_leg_outcomes (legs settled by score-ticket-legs)
+ *
+ * Determinism: every day gets its own PRNG seed derived from the base seed and
+ * the day key, and the search runs without wall-clock timeouts. The same input
+ * and seed always produce the same report, regardless of the date range asked for.
+ *
+ * Pure module (no Deno / DB access) so it can run in edge functions and tests.
+ */
+
+import { ODDS_MIN, ODDS_MAX } from "./config.ts";
+import { generateOptimizedTicket } from "./ticket_search.ts";
+
+export type BacktestSource = "selection" | "ticket_leg";
+export type LegResult = "WIN" | "LOSS" | "PUSH" | "VOID";
+
+/** One settled, normalized candidate leg */
+export interface BacktestSample {
+  fixtureId: number;
+  leagueId: number | null;
+  market: string;
+  side: string;
+  line: number;
+  odds: number;
+  modelProb: number | null;
+  kickoffAt: string;
+  rulesVersion: string;
+  result: LegResult;
+  source: BacktestSource;
+}
+
+/** Structural subset of TicketModeConfig (win_rate_config.ts) used by the replay */
+export interface BacktestModeConfig {
+  minLegs: number;
+  maxLegs: number;
+  minOdds: number;
+  maxOdds: number;
+  allowedMarkets: string[];
+  allowedSides: string[];
+  preferredLines: Record<string, number[]> | null;
+  avoidLines: Record<string, number[]> | null;
+  useLeagueWeights: boolean;
+  minLeagueWeight: number;
+}
+
+export interface BacktestOptions {
+  seed: number;
+  /** Flat stake per ticket (units) */
+  stake?: number;
+  /** Optional minimum edge (model_prob - 1/odds) a leg needs to enter the pool */
+  minEdge?: number | null;
+  /** League weight lookup for modes with useLeagueWeights */
+  leagueWeight?: (leagueId: number) => number;
+  /** Number of calibration buckets over [0, 1] */
+  calibrationBuckets?: number;
+}
+
+export interface CalibrationBucket {
+  range: [number, number];
+  n: number;
+  predicted: number;
+  observed: number;
+}
+
+export interface BacktestTicket {
+  day: string;
+  legs: number;
+  totalOdds: number;
+  status: "WON" | "LOST" | "VOID";
+  payout: number;
+  bankroll: number;
+}
+
+export interface BacktestResult {
+  mode: string;
+  rules_version: string;
+  days: number;
+  tickets: number;
+  won: number;
+  lost: number;
+  void: number;
+  hit_rate: number | null;
+  staked: number;
+  returned: number;
+  profit: number;
+  roi_pct: number | null;
+  max_drawdown: number;
+  avg_legs: number | null;
+  avg_odds: number | null;
+  legs_settled: number;
+  leg_hit_rate: number | null;
+  brier_score: number | null;
+  calibration: CalibrationBucket[];
+  history: BacktestTicket[];
+}
+
+export interface BacktestReport {
+  seed: number;
+  stake: number;
+  sample_count: number;
+  from: string | null;
+  to: string | null;
+  results: BacktestResult[];
+}
+
+type PoolLeg = BacktestSample & { _leagueId?: number; start?: string };
+
+const round = (n: number, dp = 4) => Math.round(n * 10 ** dp) / 10 ** dp;
+
+/** Stable 32-bit hash (FNV-1a) used to derive per-day seeds */
+export function hashSeed(base: number, key: string): number {
+  let h = (2166136261 ^ base) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h;
+}
+
+/** Map backtest_samples.result_win (null = unscorable) to a leg result */
+export function resultFromWinFlag(win: boolean | null | undefined): LegResult {
+  if (win === true) return "WIN";
+  if (win === false) return "LOSS";
+  return "VOID";
+}
+
+function legAllowedForMode(leg: BacktestSample, mode: BacktestModeConfig, options: BacktestOptions): boolean {
+  if (leg.odds < ODDS_MIN || leg.odds > ODDS_MAX) return false;
+  if (!mode.allowedMarkets.includes(leg.market)) return false;
+  if (!mode.allowedSides.includes(leg.side)) return false;
+
+  const avoid = mode.avoidLines?.[leg.market];
+  if (avoid && avoid.includes(leg.line)) return false;
+
+  const preferred = mode.preferredLines?.[leg.market];
+  if (mode.preferredLines && (!preferred || !preferred.includes(leg.line))) return false;
+
+  if (mode.useLeagueWeights && options.leagueWeight && leg.leagueId !== null) {
+    if (options.leagueWeight(leg.leagueId) < mode.minLeagueWeight) return false;
+  }
+
+  if (options.minEdge !== undefined && options.minEdge !== null) {
+    if (leg.modelProb === null) return false;
+    if (leg.modelProb - 1 / leg.odds < options.minEdge) return false;
+  }
+  return true;
+}
+
+/** One leg per fixture: keep the most confident candidate (ties → lower odds) */
+function dedupeByFixture(legs: BacktestSample[]): BacktestSample[] {
+  const best = new Map<number, BacktestSample>();
+  for (const leg of legs) {
+    const prev = best.get(leg.fixtureId);
+    if (!prev) {
+      best.set(leg.fixtureId, leg);
+      continue;
+    }
+    const a = leg.modelProb ?? 0;
+    const b = prev.modelProb ?? 0;
+    if (a > b || (a === b && leg.odds < prev.odds)) best.set(leg.fixtureId, leg);
+  }
+  return [...best.values()].sort((x, y) => x.fixtureId - y.fixtureId || x.market.localeCompare(y.market));
+}
+
+function settleTicket(legs: BacktestSample[]): { status: "WON" | "LOST" | "VOID"; odds: number } {
+  if (legs.some((l) => l.result === "LOSS")) return { status: "LOST", odds: 0 };
+  const live = legs.filter((l) => l.result === "WIN");
+  if (live.length === 0) return { status: "VOID", odds: 1 };
+  // PUSH / VOID legs are settled at odds 1.0, as bookmakers do
+  return { status: "WON", odds: live.reduce((acc, l) => acc * l.odds, 1) };
+}
+
+export function computeCalibration(
+  legs: BacktestSample[],
+  bucketCount = 10
+): { brier: number | null; buckets: CalibrationBucket[] } {
+  const scored = legs.filter((l) => l.modelProb !== null && (l.result === "WIN" || l.result === "LOSS"));
+  if (scored.length === 0) return { brier: null, buckets: [] };
+
+  const acc = Array.from({ length: bucketCount }, () => ({ n: 0, sumP: 0, wins: 0 }));
+  let brierSum = 0;
+  for (const leg of scored) {
+    const p = Math.min(1, Math.max(0, leg.modelProb as number));
+    const y = leg.result === "WIN" ? 1 : 0;
+    brierSum += (p - y) ** 2;
+    const idx = Math.min(bucketCount - 1, Math.floor(p * bucketCount));
+    acc[idx].n++;
+    acc[idx].sumP += p;
+    acc[idx].wins += y;
+  }
+
+  const buckets: CalibrationBucket[] = [];
+  acc.forEach((b, i) => {
+    if (b.n === 0) return;
+    buckets.push({
+      range: [round(i / bucketCount, 2), round((i + 1) / bucketCount, 2)],
+      n: b.n,
+      predicted: round(b.sumP / b.n),
+      observed: round(b.wins / b.n),
+    });
+  });
+  return { brier: round(brierSum / scored.length), buckets };
+}
+
+function runModeForVersion(
+  modeKey: string,
+  mode: BacktestModeConfig,
+  rulesVersion: string,
+  samples: BacktestSample[],
+  options: BacktestOptions
+): BacktestResult {
+  const stake = options.stake ?? 1;
+  const byDay = new Map<string, BacktestSample[]>();
+  for (const s of samples) {
+    if (!legAllowedForMode(s, mode, options)) continue;
+    const day = s.kickoffAt.slice(0, 10);
+    if (!byDay.has(day)) byDay.set(day, []);
+    byDay.get(day)!.push(s);
+  }
+
+  const history: BacktestTicket[] = [];
+  const settledLegs: BacktestSample[] = [];
+  let bankroll = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let won = 0, lost = 0, voided = 0, staked = 0, returned = 0, legCount = 0, oddsSum = 0;
+
+  for (const day of [...byDay.keys()].sort()) {
+    const pool: PoolLeg[] = dedupeByFixture(byDay.get(day)!).map((l) => ({
+      ...l,
+      _leagueId: l.leagueId ?? undefined,
+      start: l.kickoffAt,
+    }));
+    if (pool.length < mode.minLegs) continue;
+
+    const ticket = generateOptimizedTicket(
+      pool,
+      mode.minOdds,
+      mode.maxOdds,
+      mode.minLegs,
+      Math.min(mode.maxLegs, pool.length),
+      mode.allowedMarkets,
+      undefined,
+      {
+        seed: hashSeed(options.seed, `${modeKey}|${rulesVersion}|${day}`),
+        attemptTimeoutMs: Infinity,
+        totalTimeoutMs: Infinity,
+        quiet: true,
+      }
+    );
+    if (!ticket || !ticket.within_band) continue;
+
+    const settlement = settleTicket(ticket.legs);
+    const payout = settlement.status === "VOID" ? stake : stake * settlement.odds;
+    staked += stake;
+    returned += payout;
+    bankroll += payout - stake;
+    peak = Math.max(peak, bankroll);
+    maxDrawdown = Math.max(maxDrawdown, peak - bankroll);
+
+    if (settlement.status === "WON") won++;
+    else if (settlement.status === "LOST") lost++;
+    else voided++;
+
+    legCount += ticket.legs.length;
+    oddsSum += ticket.total_odds;
+    settledLegs.push(...ticket.legs);
+    history.push({
+      day,
+      legs: ticket.legs.length,
+      totalOdds: ticket.total_odds,
+      status: settlement.status,
+      payout: round(payout),
+      bankroll: round(bankroll),
+    });
+  }
+
+  const tickets = history.length;
+  const decided = won + lost;
+  const legWins = settledLegs.filter((l) => l.result === "WIN").length;
+  const legLosses = settledLegs.filter((l) => l.result === "LOSS").length;
+  const calibration = computeCalibration(settledLegs, options.calibrationBuckets ?? 10);
+
+  return {
+    mode: modeKey,
+    rules_version: rulesVersion,
+    days: byDay.size,
+    tickets,
+    won,
+    lost,
+    void: voided,
+    hit_rate: decided > 0 ? round(won / decided) : null,
+    staked: round(staked),
+    returned: round(returned),
+    profit: round(returned - staked),
+    roi_pct: staked > 0 ? round(((returned - staked) / staked) * 100, 2) : null,
+    max_drawdown: round(maxDrawdown),
+    avg_legs: tickets > 0 ? round(legCount / tickets, 2) : null,
+    avg_odds: tickets > 0 ? round(oddsSum / tickets, 2) : null,
+    legs_settled: legWins + legLosses,
+    leg_hit_rate: legWins + legLosses > 0 ? round(legWins / (legWins + legLosses)) : null,
+    brier_score: calibration.brier,
+    calibration: calibration.buckets,
+    history,
+  };
+}
+
+/**
+ * Run the backtest for every (mode × rules_version) pair found in the samples.
+ * Results are sorted by mode then rules_version for stable output.
+ */
+export function runBacktest(
+  samples: BacktestSample[],
+  modes: Record<string, BacktestModeConfig>,
+  options: BacktestOptions
+): BacktestReport {
+  const byVersion = new Map<string, BacktestSample[]>();
+  for (const s of samples) {
+    if (!byVersion.has(s.rulesVersion)) byVersion.set(s.rulesVersion, []);
+    byVersion.get(s.rulesVersion)!.push(s);
+  }
+
+  const results: BacktestResult[] = [];
+  for (const modeKey of Object.keys(modes).sort()) {
+    for (const version of [...byVersion.keys()].sort()) {
+      results.push(runModeForVersion(modeKey, modes[modeKey], version, byVersion.get(version)!, options));
+    }
+  }
+
+  const kickoffs = samples.map((s) => s.kickoffAt).sort();
+  return {
+    seed: options.seed,
+    stake: options.stake ?? 1,
+    sample_count: samples.length,
+    from: kickoffs[0] ?? null,
+    to: kickoffs[kickoffs.length - 1] ?? null,
+    results,
+  };
+}
+
+const SUMMARY_COLUMNS: (keyof BacktestResult)[] = [
+  "mode", "rules_version", "days", "tickets", "won", "lost", "void", "hit_rate",
+  "staked", "returned", "profit", "roi_pct", "max_drawdown", "avg_legs", "avg_odds",
+  "legs_settled", "leg_hit_rate", "brier_score",
+];
+
+function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Render a report as CSV: one row per mode/version, or one row per calibration bucket */
+export function backtestReportToCsv(report: BacktestReport, section: "summary" | "calibration" = "summary"): string {
+  if (section === "calibration") {
+    const lines = ["mode,rules_version,bucket_lo,bucket_hi,n,predicted,observed"];
+    for (const r of report.results) {
+      for (const b of r.calibration) {
+        lines.push([r.mode, r.rules_version, b.range[0], b.range[1], b.n, b.predicted, b.observed].map(csvCell).join(","));
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+  const lines = [SUMMARY_COLUMNS.join(",")];
+  for (const r of report.results) {
+    lines.push(SUMMARY_COLUMNS.map((c) => csvCell(r[c])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,114 @@
+/**
+ * BASKETBALL TICKET LEGS
+ *
+ * Pricing and settlement for basketball legs on My Ticket / the bet journal.
+ * Prices come from basketball_odds_cache (get-latest-odds); results come from
+ * basketball_games once basketball-sync-fixtures has written a terminal
+ * status and both scores. basketball-sync-results settles the journal.
+ *
+ * Settlement rules (overtime always included):
+ *   total / home_total / away_total  final score
+ *   moneyline                        final margin, a level score is not final
+ *   spread                           final margin + per-selection line, whole lines push
+ *   cancelled / abandoned game       void, whatever the market
+ *
+ * Half and quarter totals are not offered: basketball_games has no period scores.
+ *
+ * Pure module — no Supabase imports. Tested in src/test/basketball-ticket-legs.test.ts.
+ */
+
+import { scoreOverUnder } from "./leg_scoring.ts";
+import type { BookPrice } from "./odds_normalization.ts";
+import type { BasketballOddsRow } from "./basketball_odds.ts";
+
+/** Statuses basketball-sync-results treats as finished */
+export const BASKETBALL_FINAL_STATUSES = new Set(["FT", "AOT", "AP"]);
+
+/** Games that will not be played to a result; their legs settle VOID */
+export const BASKETBALL_VOID_STATUSES = new Set(["CANC", "ABD"]);
+
+export interface BasketballLegSelection {
+  market: string;
+  side: string;
+  line: number | string;
+}
+
+export interface BasketballGameResult {
+  status_short: string | null;
+  home_score: number | null;
+  away_score: number | null;
+}
+
+export interface BasketballLegScore {
+  result_status: "WIN" | "LOSS" | "PUSH" | "VOID";
+  actual_value: number | null;
+}
+
+const OVER_UNDER_MARKETS = new Set(["total", "home_total", "away_total"]);
+
+/** Every bookmaker's price for one selection, best first */
+export function basketballPriceBoard(rows: BasketballOddsRow[], leg: BasketballLegSelection): BookPrice[] {
+  const line = Number(leg.line);
+  const best = new Map<string, number>();
+  for (const r of rows) {
+    if (r.market !== leg.market || r.selection !== leg.side || Number(r.line) !== line) continue;
+    const odds = Number(r.odds);
+    if (!(odds > 1)) continue;
+    best.set(r.bookmaker, Math.max(best.get(r.bookmaker) ?? 0, odds));
+  }
+  return [...best.entries()]
+    .map(([bookmaker, odds]) => ({ bookmaker, odds }))
+    .sort((a, b) => b.odds - a.odds);
+}
+
+/**
+ * The number a leg is settled on: a total for over/under markets, the
+ * home-minus-away margin for moneyline and spread. Null when the game is
+ * not final or a score is missing.
+ */
+export function basketballLegActualValue(market: string, game: BasketballGameResult): number | null {
+  if (!game.status_short || !BASKETBALL_FINAL_STATUSES.has(game.status_short)) return null;
+  if (game.home_score == null || game.away_score == null) return null;
+  const home = Number(game.home_score);
+  const away = Number(game.away_score);
+
+  switch (market) {
+    case "total":
+      return home + away;
+    case "home_total":
+      return home;
+    case "away_total":
+      return away;
+    case "moneyline":
+    case "spread":
+      return home - away;
+    default:
+      return null;
+  }
+}
+
+/** WIN/LOSS/PUSH/VOID for a basketball leg, or null when it cannot be settled yet */
+export function scoreBasketballLeg(leg: BasketballLegSelection, game: BasketballGameResult): BasketballLegScore | null {
+  if (game.status_short && BASKETBALL_VOID_STATUSES.has(game.status_short)) {
+    return { result_status: "VOID", actual_value: null };
+  }
+  const actual = basketballLegActualValue(leg.market, game);
+  if (actual === null) return null;
+  const side = leg.side.toLowerCase();
+  const line = Number(leg.line);
+
+  let result: BasketballLegScore["result_status"] | null = null;
+  if (OVER_UNDER_MARKETS.has(leg.market)) {
+    result = scoreOverUnder(side, line, actual);
+  } else if (leg.market === "spread") {
+    // Lines are stored per selection: away +4.5 covers when it loses by 4 or less
+    const adjusted = side === "home" ? actual + line : side === "away" ? line - actual : NaN;
+    if (!Number.isNaN(adjusted)) result = adjusted > 0 ? "WIN" : adjusted < 0 ? "LOSS" : "PUSH";
+  } else if (leg.market === "moneyline" && (side === "home" || side === "away")) {
+    // Games cannot end level; a tie means the overtime score has not arrived
+    if (actual === 0) return null;
+    result = (side === "home" ? actual > 0 : actual < 0) ? "WIN" : "LOSS";
+  }
+
+  return result ? { result_status: result, actual_value: actual } : null;
+}
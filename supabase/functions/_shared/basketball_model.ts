@@ -0,0 +1,346 @@
+/**
+ * BASKETBALL PACE MODEL (v1)
+ *
+ * Projects a game from possessions and per-100 efficiency instead of raw
+ * points per game, so a fast team against a slow one is not double counted:
+ *
+ *   possessions     FGA − OREB + TOV + 0.44 × FTA (team box score)
+ *   pace            home pace × away pace / league pace
+ *   home rating     home ORtg × away DRtg / league rating (per 100)
+ *   home points     pace × home rating / 100 (away likewise)
+ *
+ * Team pace and ratings are regressed to the league with a 5-game prior.
+ * Venue splits replace the season ratings once a team has ≥ 5 box-score
+ * games at that venue; before that a flat home-court edge is applied.
+ * A back-to-back costs the tired team 1.5 points per 100 on offence, gives
+ * its opponent 1.0 per 100, and slows the game by 0.5 possessions.
+ *
+ * Totals, team totals and the margin are treated as normal: total sd is 8%
+ * of the projected total, margin sd 5.5%, team sd from the two (independent).
+ * Halves and quarters take a fixed share of the regulation total — quarter
+ * scores are not stored — with sd scaled by √share.
+ *
+ * Pure module — tested in src/test/basketball-model.test.ts.
+ */
+
+export const BASKETBALL_MODEL_VERSION = "basketball-pace-v1";
+
+export const PRIOR_GAMES = 5;
+export const MIN_VENUE_GAMES = 5;
+export const HOME_COURT_RATING = 1.2; // per 100, added to home and taken from away without splits
+export const B2B_OFFENCE_PENALTY = 1.5;
+export const B2B_DEFENCE_PENALTY = 1.0;
+export const B2B_PACE_PENALTY = 0.5;
+export const SD_TOTAL_RATIO = 0.08;
+export const SD_MARGIN_RATIO = 0.055;
+
+export const PERIOD_SHARES = {
+  h1_total: 0.505,
+  q1_total: 0.255,
+  q2_total: 0.25,
+  q3_total: 0.25,
+  q4_total: 0.245,
+} as const;
+
+export type PeriodMarket = keyof typeof PERIOD_SHARES;
+const PERIOD_MARKETS = Object.keys(PERIOD_SHARES) as PeriodMarket[];
+export type BasketballModelMarket = "total" | "home_total" | "away_total" | "spread" | "moneyline" | PeriodMarket;
+
+export interface LeagueBaseline {
+  avg_total: number;
+  pace: number;
+}
+
+/** One team box score, as stored in basketball_game_team_stats */
+export interface TeamBoxScore {
+  is_home: boolean;
+  points: number;
+  points_against: number | null;
+  fga: number | null;
+  fta: number | null;
+  rebounds_off: number | null;
+  turnovers: number | null;
+}
+
+export interface BasketballTeamProfile {
+  pace_gp: number;
+  pace: number | null;
+  ortg: number | null;
+  drtg: number | null;
+  home_gp: number;
+  home_ortg: number | null;
+  home_drtg: number | null;
+  away_gp: number;
+  away_ortg: number | null;
+  away_drtg: number | null;
+}
+
+export interface RestContext {
+  /** Full days off before the game; 0 = back-to-back, null = unknown */
+  home_rest_days: number | null;
+  away_rest_days: number | null;
+}
+
+export interface MarketQuote {
+  market: BasketballModelMarket;
+  /** Book line when one was supplied, otherwise the model's fair line */
+  line: number;
+  projection: number;
+  /** P(over) for totals, P(home covers) for spread, P(home wins) for moneyline */
+  prob: number;
+}
+
+export interface BasketballProjection {
+  pace: number;
+  home_points: number;
+  away_points: number;
+  total: number;
+  /** Projected home margin (home − away) */
+  margin: number;
+  sd_total: number;
+  sd_margin: number;
+  home_win_prob: number;
+  venue_splits: boolean;
+  home_b2b: boolean;
+  away_b2b: boolean;
+  rest: RestContext;
+}
+
+const round1 = (x: number) => Math.round(x * 10) / 10;
+const round3 = (x: number) => Math.round(x * 1000) / 1000;
+
+export function possessions(box: Pick<TeamBoxScore, "fga" | "fta" | "rebounds_off" | "turnovers">): number | null {
+  if (box.fga == null || box.fta == null || box.rebounds_off == null || box.turnovers == null) return null;
+  return box.fga - box.rebounds_off + box.turnovers + 0.44 * box.fta;
+}
+
+function ratings(games: TeamBoxScore[]): { gp: number; pace: number | null; ortg: number | null; drtg: number | null } {
+  let poss = 0;
+  let pts = 0;
+  let ptsAgainst = 0;
+  let gp = 0;
+  for (const g of games) {
+    const p = possessions(g);
+    if (p == null || p <= 0 || g.points_against == null) continue;
+    poss += p;
+    pts += g.points;
+    ptsAgainst += g.points_against;
+    gp++;
+  }
+  if (gp === 0) return { gp, pace: null, ortg: null, drtg: null };
+  return {
+    gp,
+    pace: round1(poss / gp),
+    ortg: round1((100 * pts) / poss),
+    drtg: round1((100 * ptsAgainst) / poss),
+  };
+}
+
+/** Pace and ratings over games with a full box score, overall and by venue */
+export function aggregatePace(games: TeamBoxScore[]): BasketballTeamProfile {
+  const all = ratings(games);
+  const home = ratings(games.filter((g) => g.is_home));
+  const away = ratings(games.filter((g) => !g.is_home));
+  return {
+    pace_gp: all.gp,
+    pace: all.pace,
+    ortg: all.ortg,
+    drtg: all.drtg,
+    home_gp: home.gp,
+    home_ortg: home.ortg,
+    home_drtg: home.drtg,
+    away_gp: away.gp,
+    away_ortg: away.ortg,
+    away_drtg: away.drtg,
+  };
+}
+
+/** Full calendar days between the previous game and this one (0 = back-to-back) */
+export function restDays(previousGame: string | null | undefined, tipoff: string): number | null {
+  if (!previousGame) return null;
+  const day = (iso: string) => Math.floor(new Date(iso).getTime() / 86_400_000);
+  const gap = day(tipoff) - day(previousGame);
+  return gap >= 1 ? gap - 1 : null;
+}
+
+export function leagueRating(league: LeagueBaseline): number {
+  return (100 * league.avg_total) / 2 / league.pace;
+}
+
+const shrink = (value: number | null, gp: number, prior: number) =>
+  value == null ? prior : (gp * value + PRIOR_GAMES * prior) / (gp + PRIOR_GAMES);
+
+export function projectGame(
+  home: BasketballTeamProfile | null,
+  away: BasketballTeamProfile | null,
+  league: LeagueBaseline,
+  rest: RestContext = { home_rest_days: null, away_rest_days: null }
+): BasketballProjection {
+  const lgRating = leagueRating(league);
+  const h = home ?? aggregatePace([]);
+  const a = away ?? aggregatePace([]);
+
+  // ── pace ───────────────────────────────────────────────────────────
+  const homePace = shrink(h.pace, h.pace_gp, league.pace);
+  const awayPace = shrink(a.pace, a.pace_gp, league.pace);
+  const homeB2b = rest.home_rest_days === 0;
+  const awayB2b = rest.away_rest_days === 0;
+  const pace = (homePace * awayPace) / league.pace - B2B_PACE_PENALTY * (Number(homeB2b) + Number(awayB2b));
+
+  // ── ratings (venue splits once both teams have enough games) ──────
+  const venueSplits = h.home_gp >= MIN_VENUE_GAMES && a.away_gp >= MIN_VENUE_GAMES;
+  const homeOrtgSeason = shrink(h.ortg, h.pace_gp, lgRating);
+  const homeDrtgSeason = shrink(h.drtg, h.pace_gp, lgRating);
+  const awayOrtgSeason = shrink(a.ortg, a.pace_gp, lgRating);
+  const awayDrtgSeason = shrink(a.drtg, a.pace_gp, lgRating);
+
+  let homeOrtg: number;
+  let homeDrtg: number;
+  let awayOrtg: number;
+  let awayDrtg: number;
+  if (venueSplits) {
+    homeOrtg = shrink(h.home_ortg, h.home_gp, homeOrtgSeason);
+    homeDrtg = shrink(h.home_drtg, h.home_gp, homeDrtgSeason);
+    awayOrtg = shrink(a.away_ortg, a.away_gp, awayOrtgSeason);
+    awayDrtg = shrink(a.away_drtg, a.away_gp, awayDrtgSeason);
+  } else {
+    homeOrtg = homeOrtgSeason + HOME_COURT_RATING;
+    homeDrtg = homeDrtgSeason - HOME_COURT_RATING;
+    awayOrtg = awayOrtgSeason - HOME_COURT_RATING;
+    awayDrtg = awayDrtgSeason + HOME_COURT_RATING;
+  }
+
+  let homeRating = (homeOrtg * awayDrtg) / lgRating;
+  let awayRating = (awayOrtg * homeDrtg) / lgRating;
+  if (homeB2b) {
+    homeRating -= B2B_OFFENCE_PENALTY;
+    awayRating += B2B_DEFENCE_PENALTY;
+  }
+  if (awayB2b) {
+    awayRating -= B2B_OFFENCE_PENALTY;
+    homeRating += B2B_DEFENCE_PENALTY;
+  }
+
+  const homePoints = (pace * homeRating) / 100;
+  const awayPoints = (pace * awayRating) / 100;
+  const total = homePoints + awayPoints;
+  const margin = homePoints - awayPoints;
+  const sdTotal = SD_TOTAL_RATIO * total;
+  const sdMargin = SD_MARGIN_RATIO * total;
+
+  return {
+    pace: round1(pace),
+    home_points: round1(homePoints),
+    away_points: round1(awayPoints),
+    total: round1(total),
+    margin: round1(margin),
+    sd_total: round1(sdTotal),
+    sd_margin: round1(sdMargin),
+    home_win_prob: round3(normalCdf(margin / sdMargin)),
+    venue_splits: venueSplits,
+    home_b2b: homeB2b,
+    away_b2b: awayB2b,
+    rest,
+  };
+}
+
+// ─── probabilities ──────────────────────────────────────────────────
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7) */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * P(over) for an integer score with a normal approximation. Whole lines
+ * push, so over needs line + 1 (continuity-corrected at line + 0.5).
+ */
+export function normalOverProb(mean: number, sd: number, line: number): number {
+  const threshold = Number.isInteger(line) ? line + 0.5 : line;
+  return round3(1 - normalCdf((threshold - mean) / sd));
+}
+
+/** Nearest half line, so a fair line never pushes */
+export function fairLine(projection: number): number {
+  return Math.floor(projection) + 0.5;
+}
+
+/** Normal approximation the model uses for a market's settlement number */
+export function marketDistribution(
+  p: BasketballProjection,
+  market: BasketballModelMarket
+): { mean: number; sd: number } | null {
+  const sdTeam = Math.sqrt(p.sd_total ** 2 + p.sd_margin ** 2) / 2;
+  switch (market) {
+    case "total":
+      return { mean: p.total, sd: p.sd_total };
+    case "home_total":
+      return { mean: p.home_points, sd: sdTeam };
+    case "away_total":
+      return { mean: p.away_points, sd: sdTeam };
+    case "spread":
+    case "moneyline":
+      return { mean: p.margin, sd: p.sd_margin };
+    default: {
+      const share = PERIOD_SHARES[market];
+      return share ? { mean: p.total * share, sd: p.sd_total * Math.sqrt(share) } : null;
+    }
+  }
+}
+
+/**
+ * Model probability that a selection wins. Totals take over/under, spread
+ * and moneyline take home/away; spread lines are the selected side's
+ * handicap (home −5.5 covers when the margin beats 5.5). Pushes count as
+ * not winning. Null for selections the model does not price.
+ */
+export function selectionProbability(
+  p: BasketballProjection,
+  market: BasketballModelMarket,
+  selection: string,
+  line: number
+): number | null {
+  const dist = marketDistribution(p, market);
+  if (!dist) return null;
+
+  if (market === "moneyline") {
+    if (selection === "home") return p.home_win_prob;
+    if (selection === "away") return round3(1 - p.home_win_prob);
+    return null;
+  }
+  if (market === "spread") {
+    // Home covers when margin > −line; away covers when −margin > −line
+    if (selection === "home") return normalOverProb(dist.mean, dist.sd, -line);
+    if (selection === "away") return normalOverProb(-dist.mean, dist.sd, -line);
+    return null;
+  }
+  if (selection === "over") return normalOverProb(dist.mean, dist.sd, line);
+  if (selection === "under") return normalOverProb(-dist.mean, dist.sd, -line);
+  return null;
+}
+
+/**
+ * Quotes for every market the model prices. Book lines are used where given;
+ * other markets are quoted at the model's fair line. Spread lines are the
+ * home handicap (−5.5 = home favoured by 5.5).
+ */
+export function marketQuotes(
+  p: BasketballProjection,
+  lines: Partial<Record<BasketballModelMarket, number>> = {}
+): MarketQuote[] {
+  const markets: BasketballModelMarket[] = ["total", "home_total", "away_total", "spread", "moneyline", ...PERIOD_MARKETS];
+  return markets.map((market) => {
+    const dist = marketDistribution(p, market)!;
+    if (market === "moneyline") return { market, line: 0, projection: dist.mean, prob: p.home_win_prob };
+    if (market === "spread") {
+      const line = lines.spread ?? -fairLine(dist.mean);
+      return { market, line, projection: dist.mean, prob: selectionProbability(p, market, "home", line)! };
+    }
+    const line = lines[market] ?? fairLine(dist.mean);
+    return { market, line, projection: round1(dist.mean), prob: selectionProbability(p, market, "over", line)! };
+  });
+}
@@ -0,0 +1,183 @@
+/**
+ * BASKETBALL ODDS
+ *
+ * Canonical market mapping for basketball-sync-odds, guards against bad
+ * prices, and model edges for basketball-safe-zone.
+ *
+ *   Provider bet name              → market       | selection        | line
+ *   ───────────────────────────────────────────────────────────────────────
+ *   "Home/Away"                    → "moneyline"  | "home"/"away"    | 0
+ *   "Over/Under"                   → "total"      | "over"/"under"   | X.5
+ *   "Asian Handicap"               → "spread"     | "home"/"away"    | ±X.5
+ *   "Over/Under 1st Half"          → "h1_total"   | "over"/"under"   | X.5
+ *   "Over/Under 1st Quarter"       → "q1_total"   | "over"/"under"   | X.5
+ *   "Home Total" / "Away Total"    → "home_total"/"away_total" | "over"/"under" | X.5
+ *
+ * Moneyline includes overtime, so "3Way Result" (regulation) is not mapped.
+ * Spread lines are stored per selection: "Away +4.5" is away / 4.5.
+ *
+ * Pure module — tested in src/test/basketball-odds.test.ts.
+ */
+
+import type { BasketballModelMarket, BasketballProjection } from "./basketball_model.ts";
+import { selectionProbability } from "./basketball_model.ts";
+
+/** Leagues synced from api-basketball; NBA API games have no odds endpoint */
+export const BASKETBALL_ODDS_LEAGUES = new Set([
+  "euroleague",
+  "eurocup",
+  "spain_acb",
+  "germany_bbl",
+  "italy_lba",
+  "france_prob",
+]);
+
+/** Minimum model edge (prob × odds − 1) shown as value */
+export const MIN_VALUE_EDGE = 0.03;
+
+// Two-way markets near their main line price well inside this band; anything
+// outside is a stale or mislabelled line
+const TWO_WAY_MIN_ODDS = 1.25;
+const TWO_WAY_MAX_ODDS = 4.0;
+const MONEYLINE_MAX_ODDS = 15;
+
+export interface BasketballOddsRow {
+  bookmaker: string;
+  market: string;
+  selection: string;
+  line: number;
+  odds: number;
+}
+
+export interface BasketballEdge {
+  market: BasketballModelMarket;
+  selection: string;
+  line: number;
+  odds: number;
+  bookmaker: string;
+  model_prob: number;
+  /** model_prob × odds − 1 */
+  edge: number;
+}
+
+const OVER_UNDER_MARKETS = new Set(["total", "home_total", "away_total", "h1_total", "q1_total"]);
+
+/** Canonical market for a provider bet name, or null when unsupported */
+export function normalizeBasketballMarket(betName: string): BasketballModelMarket | null {
+  const n = betName.toLowerCase().trim();
+  if (n === "home/away" || n === "moneyline" || n === "match winner") return "moneyline";
+  if (n === "over/under" || n === "total" || n === "total points") return "total";
+  if (n === "asian handicap" || n === "handicap" || n === "point spread") return "spread";
+  if (n.includes("1st half") || n.includes("first half")) {
+    return n.includes("over") || n.includes("under") || n.includes("total") ? "h1_total" : null;
+  }
+  if (n.includes("1st quarter") || n.includes("first quarter")) {
+    return n.includes("over") || n.includes("under") || n.includes("total") ? "q1_total" : null;
+  }
+  if (n.includes("quarter") || n.includes("half")) return null;
+  if (n.includes("home total") || n === "total - home") return "home_total";
+  if (n.includes("away total") || n === "total - away") return "away_total";
+  return null;
+}
+
+/**
+ * Selection and line from a provider value.
+ * Examples: "Home", "Away", "Over 165.5", "Home -4.5", "Away +4.5"
+ */
+export function normalizeBasketballSelection(
+  market: BasketballModelMarket,
+  rawValue: string
+): { selection: string; line: number } | null {
+  const v = rawValue.trim();
+
+  if (market === "moneyline") {
+    const vl = v.toLowerCase();
+    if (vl === "home" || vl === "1") return { selection: "home", line: 0 };
+    if (vl === "away" || vl === "2") return { selection: "away", line: 0 };
+    return null;
+  }
+
+  if (OVER_UNDER_MARKETS.has(market)) {
+    const match = v.match(/^(over|under)\s+([\d.]+)$/i);
+    return match ? { selection: match[1].toLowerCase(), line: parseFloat(match[2]) } : null;
+  }
+
+  if (market === "spread") {
+    const match = v.match(/^(home|away|1|2)\s*([+-]?[\d.]+)$/i);
+    if (!match) return null;
+    const side = match[1].toLowerCase();
+    return { selection: side === "1" ? "home" : side === "2" ? "away" : side, line: parseFloat(match[2]) };
+  }
+
+  return null;
+}
+
+/** Null when the price is plausible, otherwise the reason it is dropped */
+export function checkSuspiciousBasketballOdds(market: string, odds: number): string | null {
+  if (market === "moneyline") {
+    return odds > MONEYLINE_MAX_ODDS ? `moneyline @ ${odds.toFixed(2)} above ${MONEYLINE_MAX_ODDS}` : null;
+  }
+  if (odds < TWO_WAY_MIN_ODDS || odds > TWO_WAY_MAX_ODDS) {
+    return `${market} @ ${odds.toFixed(2)} outside ${TWO_WAY_MIN_ODDS}-${TWO_WAY_MAX_ODDS}`;
+  }
+  return null;
+}
+
+/** Best price per market / selection / line, with the bookmaker offering it */
+export function bestBasketballPrices(rows: BasketballOddsRow[]): BasketballOddsRow[] {
+  const best = new Map<string, BasketballOddsRow>();
+  for (const r of rows) {
+    const key = `${r.market}|${r.selection}|${Number(r.line)}`;
+    const current = best.get(key);
+    if (!current || Number(r.odds) > current.odds) {
+      best.set(key, { ...r, line: Number(r.line), odds: Number(r.odds) });
+    }
+  }
+  return [...best.values()];
+}
+
+/**
+ * The book's main line for a two-way market: of the lines priced on both
+ * sides, the one whose best prices are closest together.
+ */
+export function mainLine(rows: BasketballOddsRow[], market: BasketballModelMarket): number | null {
+  const sides = market === "spread" ? ["home", "away"] : ["over", "under"];
+  const prices = bestBasketballPrices(rows.filter((r) => r.market === market));
+  // Spread lines are per side: home −4.5 pairs with away +4.5
+  const keyLine = (r: BasketballOddsRow) => (r.selection === "away" ? -r.line : r.line);
+
+  let best: { line: number; gap: number } | null = null;
+  for (const a of prices.filter((r) => r.selection === sides[0])) {
+    const b = prices.find((r) => r.selection === sides[1] && keyLine(r) === keyLine(a));
+    if (!b) continue;
+    const gap = Math.abs(a.odds - b.odds);
+    if (!best || gap < best.gap) best = { line: a.line, gap };
+  }
+  return best?.line ?? null;
+}
+
+/** Every best price the model beats by at least minEdge, biggest edge first */
+export function basketballEdges(
+  projection: BasketballProjection,
+  rows: BasketballOddsRow[],
+  minEdge = MIN_VALUE_EDGE
+): BasketballEdge[] {
+  const edges: BasketballEdge[] = [];
+  for (const price of bestBasketballPrices(rows)) {
+    const market = price.market as BasketballModelMarket;
+    const prob = selectionProbability(projection, market, price.selection, price.line);
+    if (prob == null) continue;
+    const edge = prob * price.odds - 1;
+    if (edge < minEdge) continue;
+    edges.push({
+      market,
+      selection: price.selection,
+      line: price.line,
+      odds: price.odds,
+      bookmaker: price.bookmaker,
+      model_prob: prob,
+      edge: Math.round(edge * 1000) / 1000,
+    });
+  }
+  return edges.sort((a, b) => b.edge - a.edge);
+}
@@ -0,0 +1,509 @@
+/**
+ * SAFE ZONE CHAT QUERY PARSER
+ *
+ * Grammar-based interpretation of free-text Safe Zone Bot queries — no LLM.
+ * The query is normalized (lower case, accents stripped) and recognizers run
+ * in a fixed order, each consuming the span it matched:
+ *
+ *   limit        "top 5", "5 picks", "best 3"
+ *   line bounds  "line above 9", "line <= 10.5"
+ *   confidence   "confidence above 70"
+ *   odds         "odds 1.5-2", "odds between 1.5 and 2", "odds over 1.6", "@1.7"
+ *   side + line  "over 9.5", "u2.5", bare "over" / "under"
+ *   odds (bare)  "above 1.6", "below 2.2", ">= 1.5" — after side + line, so
+ *                "corners over 9.5 above 1.6" reads as line 9.5, odds ≥ 1.6
+ *   window       today, tonight, tomorrow, weekend, weekday names,
+ *                "next 6 hours", "48h", "before 18:00", "after 20:00"
+ *   entities     markets, countries, leagues and teams from the vocabulary,
+ *                longest phrase first; a preceding "exclude / without /
+ *                except / not / no" (or a list continuing one) excludes it
+ *
+ * Whatever is left, minus filler words, is returned as `unparsed` so the bot
+ * can show what it ignored. The interpretation is echoed to the client, which
+ * may send an edited copy back; sanitizeInterpretation re-validates it.
+ *
+ * Pure module — tested in src/test/chat-query.test.ts.
+ */
+
+export const DEFAULT_LIMIT = 10;
+export const MAX_LIMIT = 50;
+export const DEFAULT_WINDOW_HOURS = 48;
+export const MAX_WINDOW_HOURS = 7 * 24;
+
+export interface ChatLeague {
+  id: number;
+  name: string;
+  country: string | null;
+}
+
+export interface ChatVocabulary {
+  leagues: ChatLeague[];
+  teams: string[];
+}
+
+export interface ChatWindow {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ChatInterpretation {
+  limit: number;
+  markets: string[];
+  exclude_markets: string[];
+  side: "over" | "under" | null;
+  line: number | null;
+  line_min: number | null;
+  line_max: number | null;
+  odds_min: number | null;
+  odds_max: number | null;
+  /** Percent; picks store confidence_score as 0–1 */
+  min_confidence: number | null;
+  window: ChatWindow;
+  leagues: { id: number; name: string }[];
+  exclude_leagues: { id: number; name: string }[];
+  countries: string[];
+  exclude_countries: string[];
+  teams: string[];
+  exclude_teams: string[];
+  unparsed: string[];
+}
+
+/** The safe_zone_picks columns the interpretation filters on */
+export interface ChatPick {
+  fixture_id: number;
+  league_id: number;
+  home_team: string;
+  away_team: string;
+  utc_kickoff: string;
+  market: string;
+  side: string;
+  line: number;
+  odds: number;
+  confidence_score: number;
+}
+
+/** Structured filters sent by the quick chips; they override the text */
+export interface ChatFilters {
+  market?: string;
+  league_ids?: number[];
+  date?: "today" | "tomorrow" | "48h";
+  /** 0–1, the scale of safe_zone_picks.confidence_score */
+  min_confidence?: number;
+  limit?: number;
+}
+
+const MARKET_SYNONYMS: Record<string, string[]> = {
+  corners: ["corners", "corner"],
+  goals: ["goals", "goal"],
+  cards: ["cards", "card", "bookings", "booking"],
+  fouls: ["fouls", "foul"],
+  offsides: ["offsides", "offside"],
+};
+
+const LEAGUE_ALIASES: Record<string, string> = {
+  epl: "premier league",
+  ucl: "uefa champions league",
+  "champions league": "uefa champions league",
+  uel: "uefa europa league",
+  "europa league": "uefa europa league",
+  laliga: "la liga",
+};
+
+const TEAM_AFFIXES = new Set(["fc", "cf", "afc", "sc", "ac", "as", "ssc", "fk", "sk", "cd", "ud", "sv", "bk", "if"]);
+
+const NEGATION = /(?:^|\s)(?:exclude|excluding|without|except|not|no|skip|minus)\s+(?:(?:the|any|from|in)\s+)?$/;
+const LIST_JOIN = /^\s*(?:,|and|or|&|\/)?\s*$/;
+
+const FILLER = new Set([
+  "a", "an", "the", "me", "show", "give", "find", "get", "list", "want", "i", "what", "whats", "are", "is",
+  "picks", "pick", "tips", "tip", "bets", "bet", "selections", "games", "matches", "match", "fixtures",
+  "safe", "safest", "best", "good", "odds", "price", "prices", "line", "lines", "for", "in", "of", "on", "at",
+  "and", "or", "with", "from", "to", "only", "all", "any", "please", "some", "exclude", "excluding",
+  "without", "except", "not", "no", "skip", "minus", "but", "next", "this", "league", "leagues", "team",
+  "teams", "play", "playing", "plays", "total", "totals", "market", "markets", ",", "&", "/", "-", "vs",
+]);
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const NUM = String.raw`(\d+(?:\.\d+)?)`;
+
+export function normalizeChatText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9.:@<>=+,&/\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+const startOfUtcDay = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+const addHours = (d: Date, h: number) => new Date(d.getTime() + h * 3_600_000);
+
+export function defaultWindow(now: Date): ChatWindow {
+  return { label: "48h", from: now.toISOString(), to: addHours(now, DEFAULT_WINDOW_HOURS).toISOString() };
+}
+
+function dayWindow(now: Date, offsetDays: number, label: string): ChatWindow {
+  const start = addHours(startOfUtcDay(now), offsetDays * 24);
+  const from = start > now ? start : now;
+  return { label, from: from.toISOString(), to: addHours(start, 24).toISOString() };
+}
+
+/** Text with consumed spans blanked, so positions stay aligned with the original */
+class Cursor {
+  rest: string;
+  constructor(readonly text: string) {
+    this.rest = text;
+  }
+  /** Run a global regex over the unconsumed text, consuming each match the handler accepts */
+  take(re: RegExp, handle: (m: RegExpExecArray) => boolean | void) {
+    const global = new RegExp(re.source, re.flags.includes("g") ? re.flags : re.flags + "g");
+    let m: RegExpExecArray | null;
+    const spans: [number, number][] = [];
+    while ((m = global.exec(this.rest)) !== null) {
+      if (m[0].length === 0) {
+        global.lastIndex++;
+        continue;
+      }
+      if (handle(m) !== false) spans.push([m.index, m.index + m[0].length]);
+    }
+    for (const [s, e] of spans) this.consume(s, e);
+  }
+  consume(start: number, end: number) {
+    this.rest = this.rest.slice(0, start) + " ".repeat(end - start) + this.rest.slice(end);
+  }
+}
+
+interface EntityCandidate {
+  kind: "market" | "country" | "league" | "team";
+  value: string;
+  phrase: string;
+}
+
+function entityCandidates(vocab: ChatVocabulary): EntityCandidate[] {
+  const out: EntityCandidate[] = [];
+  for (const [market, words] of Object.entries(MARKET_SYNONYMS)) {
+    for (const w of words) out.push({ kind: "market", value: market, phrase: w });
+  }
+  const countries = new Set(vocab.leagues.map((l) => l.country).filter((c): c is string => !!c));
+  for (const c of countries) out.push({ kind: "country", value: c, phrase: normalizeChatText(c) });
+  const leagueNames = new Set(vocab.leagues.map((l) => normalizeChatText(l.name)));
+  for (const name of leagueNames) out.push({ kind: "league", value: name, phrase: name });
+  for (const [alias, name] of Object.entries(LEAGUE_ALIASES)) {
+    if (leagueNames.has(name)) out.push({ kind: "league", value: name, phrase: alias });
+  }
+  for (const team of new Set(vocab.teams)) {
+    const full = normalizeChatText(team);
+    out.push({ kind: "team", value: team, phrase: full });
+    const core = full.split(" ").filter((w) => !TEAM_AFFIXES.has(w)).join(" ");
+    if (core !== full && core.length >= 4) out.push({ kind: "team", value: team, phrase: core });
+  }
+  const priority = { market: 0, country: 1, league: 2, team: 3 };
+  return out
+    .filter((c) => c.phrase.length > 0)
+    .sort((a, b) => b.phrase.length - a.phrase.length || priority[a.kind] - priority[b.kind]);
+}
+
+function parseClock(h: string, m: string | undefined): number {
+  return clamp(parseInt(h, 10), 0, 23) + (m ? clamp(parseInt(m, 10), 0, 59) / 60 : 0);
+}
+
+export function parseChatQuery(query: string, vocab: ChatVocabulary, now: Date = new Date()): ChatInterpretation {
+  const cur = new Cursor(normalizeChatText(query));
+  const out: ChatInterpretation = {
+    limit: DEFAULT_LIMIT,
+    markets: [],
+    exclude_markets: [],
+    side: null,
+    line: null,
+    line_min: null,
+    line_max: null,
+    odds_min: null,
+    odds_max: null,
+    min_confidence: null,
+    window: defaultWindow(now),
+    leagues: [],
+    exclude_leagues: [],
+    countries: [],
+    exclude_countries: [],
+    teams: [],
+    exclude_teams: [],
+    unparsed: [],
+  };
+
+  // ── limit ──────────────────────────────────────────────────────────
+  cur.take(/\b(?:top|best|first)\s*(\d{1,3})\b|\b(\d{1,3})\s+(?:picks|tips|bets|selections)\b/, (m) => {
+    out.limit = clamp(parseInt(m[1] ?? m[2], 10), 1, MAX_LIMIT);
+  });
+
+  // ── line bounds ────────────────────────────────────────────────────
+  const lower = String.raw`(?:>=|>|above|over|at least|min(?:imum)?)`;
+  const upper = String.raw`(?:<=|<|below|under|at most|max(?:imum)?)`;
+  cur.take(new RegExp(String.raw`\blines?\s*(${lower}|${upper})\s*${NUM}`), (m) => {
+    const value = parseFloat(m[2]);
+    if (new RegExp(`^${lower}$`).test(m[1])) out.line_min = value;
+    else out.line_max = value;
+  });
+
+  // ── confidence ─────────────────────────────────────────────────────
+  cur.take(new RegExp(String.raw`\b(?:confidence|conf)\s*(?:${lower}\s*)?(\d{1,3})\s*%?`), (m) => {
+    out.min_confidence = clamp(parseInt(m[1], 10), 0, 100);
+  });
+
+  // ── odds (explicit) ────────────────────────────────────────────────
+  cur.take(new RegExp(String.raw`\bodds\s*(?:between\s*)?${NUM}\s*(?:-|to|and)\s*${NUM}`), (m) => {
+    out.odds_min = parseFloat(m[1]);
+    out.odds_max = parseFloat(m[2]);
+  });
+  cur.take(new RegExp(String.raw`\bodds\s*(${lower}|${upper})\s*${NUM}`), (m) => {
+    if (new RegExp(`^${lower}$`).test(m[1])) out.odds_min = parseFloat(m[2]);
+    else out.odds_max = parseFloat(m[2]);
+  });
+  cur.take(new RegExp(String.raw`@\s*${NUM}\s*(\+)?`), (m) => {
+    out.odds_min = parseFloat(m[1]);
+  });
+
+  // ── side and line ──────────────────────────────────────────────────
+  cur.take(new RegExp(String.raw`\b(over|under|o|u)\s*${NUM}\b`), (m) => {
+    if ((m[1] === "o" || m[1] === "u") && m[0].includes(" ")) return false;
+    out.side = m[1].startsWith("o") ? "over" : "under";
+    out.line = parseFloat(m[2]);
+  });
+  cur.take(/\b(overs?|unders?)\b/, (m) => {
+    out.side = m[1].startsWith("o") ? "over" : "under";
+  });
+
+  // ── odds (bare comparisons, between) ───────────────────────────────
+  cur.take(new RegExp(String.raw`\bbetween\s*${NUM}\s*(?:-|to|and)\s*${NUM}`), (m) => {
+    out.odds_min = parseFloat(m[1]);
+    out.odds_max = parseFloat(m[2]);
+  });
+  cur.take(new RegExp(String.raw`(?<![a-z])(${lower}|${upper})\s*${NUM}`), (m) => {
+    const value = parseFloat(m[2]);
+    if (value < 1 || value > 50) return false;
+    if (new RegExp(`^${lower}$`).test(m[1])) out.odds_min = value;
+    else out.odds_max = value;
+  });
+
+  // ── kickoff window ─────────────────────────────────────────────────
+  cur.take(/\b(?:next|in|within)\s*(\d{1,3})\s*(?:hours?|hrs?|h)\b|(?<!(?:before|after|from|until)\s*)\b(\d{1,3})\s*h\b/, (m) => {
+    const hours = clamp(parseInt(m[1] ?? m[2], 10), 1, MAX_WINDOW_HOURS);
+    out.window = { label: `${hours}h`, from: now.toISOString(), to: addHours(now, hours).toISOString() };
+  });
+  cur.take(/\b(today|tonight|tomorrow|(?:this\s+)?weekend)\b/, (m) => {
+    const word = m[1];
+    if (word === "today") out.window = dayWindow(now, 0, "today");
+    else if (word === "tomorrow") out.window = dayWindow(now, 1, "tomorrow");
+    else if (word === "tonight") {
+      const w = dayWindow(now, 0, "tonight");
+      const evening = addHours(startOfUtcDay(now), 17);
+      out.window = { ...w, from: (evening > now ? evening : now).toISOString() };
+    } else {
+      const day = now.getUTCDay();
+      const toSaturday = day === 0 ? -1 : 6 - day;
+      const start = addHours(startOfUtcDay(now), toSaturday * 24);
+      const from = start > now ? start : now;
+      out.window = { label: "weekend", from: from.toISOString(), to: addHours(start, 48).toISOString() };
+    }
+  });
+  cur.take(new RegExp(String.raw`\b(?:on\s+)?(${WEEKDAYS.join("|")})\b`), (m) => {
+    const offset = (WEEKDAYS.indexOf(m[1]) - now.getUTCDay() + 7) % 7;
+    out.window = dayWindow(now, offset, m[1]);
+  });
+  cur.take(/\b(before|after|from|until)\s*(\d{1,2})(?::(\d{2}))?(?![.\d])\s*(?:h|utc)?\b/, (m) => {
+    const dayStart = startOfUtcDay(new Date(out.window.from));
+    const at = addHours(dayStart, parseClock(m[2], m[3]));
+    const clock = `${m[2].padStart(2, "0")}:${m[3] ?? "00"}`;
+    if (m[1] === "before" || m[1] === "until") {
+      if (at <= new Date(out.window.from)) return false;
+      out.window = { ...out.window, label: `${out.window.label} before ${clock}`, to: at.toISOString() };
+    } else {
+      const from = at > new Date(out.window.from) ? at : new Date(out.window.from);
+      out.window = { ...out.window, label: `${out.window.label} after ${clock}`, from: from.toISOString() };
+    }
+  });
+
+  // ── entities ───────────────────────────────────────────────────────
+  let lastExcluded: { kind: EntityCandidate["kind"]; end: number } | null = null;
+  const found: { kind: EntityCandidate["kind"]; value: string; start: number; end: number; excluded: boolean }[] = [];
+  for (const c of entityCandidates(vocab)) {
+    cur.take(new RegExp(String.raw`(?<![a-z0-9])${escapeRegex(c.phrase)}(?![a-z0-9])`), (m) => {
+      found.push({ kind: c.kind, value: c.value, start: m.index, end: m.index + m[0].length, excluded: false });
+    });
+  }
+  found.sort((a, b) => a.start - b.start);
+  for (const f of found) {
+    const before = cur.text.slice(0, f.start);
+    // "exclude spain and italy": a same-kind list continues the exclusion
+    const continuesList =
+      lastExcluded?.kind === f.kind && LIST_JOIN.test(cur.text.slice(lastExcluded.end, f.start));
+    f.excluded = NEGATION.test(before) || continuesList;
+    lastExcluded = f.excluded ? { kind: f.kind, end: f.end } : null;
+  }
+
+  const push = <T>(list: T[], value: T) => {
+    if (!list.includes(value)) list.push(value);
+  };
+  const leagueMatches = (name: string) => vocab.leagues.filter((l) => normalizeChatText(l.name) === name);
+  for (const f of found) {
+    if (f.kind === "market") push(f.excluded ? out.exclude_markets : out.markets, f.value);
+    else if (f.kind === "country") push(f.excluded ? out.exclude_countries : out.countries, f.value);
+    else if (f.kind === "team") push(f.excluded ? out.exclude_teams : out.teams, f.value);
+    else {
+      const target = f.excluded ? out.exclude_leagues : out.leagues;
+      for (const l of leagueMatches(f.value)) {
+        if (!target.some((t) => t.id === l.id)) target.push({ id: l.id, name: l.name });
+      }
+    }
+  }
+
+  // A country next to an ambiguous league name picks that country's league
+  if (out.leagues.length > 0 && out.countries.length > 0) {
+    const inCountry = out.leagues.filter((l) => {
+      const country = vocab.leagues.find((v) => v.id === l.id)?.country;
+      return country != null && out.countries.includes(country);
+    });
+    if (inCountry.length > 0) {
+      out.leagues = inCountry;
+      out.countries = [];
+    }
+  }
+
+  out.unparsed = cur.rest
+    .split(/\s+/)
+    .filter((w) => w.length > 0 && !FILLER.has(w));
+  return out;
+}
+
+/** Chip filters win over anything parsed from the text */
+export function applyChatFilters(
+  interp: ChatInterpretation,
+  filters: ChatFilters,
+  vocab: ChatVocabulary,
+  now: Date = new Date()
+): ChatInterpretation {
+  const out = { ...interp };
+  if (filters.market) out.markets = filters.market === "all" ? [] : [filters.market];
+  if (filters.date === "today") out.window = dayWindow(now, 0, "today");
+  else if (filters.date === "tomorrow") out.window = dayWindow(now, 1, "tomorrow");
+  else if (filters.date === "48h") out.window = defaultWindow(now);
+  if (typeof filters.min_confidence === "number") out.min_confidence = clamp(Math.round(filters.min_confidence * 100), 0, 100);
+  if (typeof filters.limit === "number") out.limit = clamp(Math.round(filters.limit), 1, MAX_LIMIT);
+  if (Array.isArray(filters.league_ids) && filters.league_ids.length > 0) {
+    out.leagues = filters.league_ids.map((id) => ({
+      id,
+      name: vocab.leagues.find((l) => l.id === id)?.name ?? `#${id}`,
+    }));
+  }
+  return out;
+}
+
+const num = (v: unknown): number | null => (typeof v === "number" && Number.isFinite(v) ? v : null);
+const strings = (v: unknown): string[] =>
+  Array.isArray(v) ? v.filter((s): s is string => typeof s === "string").slice(0, 20) : [];
+const leagueRefs = (v: unknown): { id: number; name: string }[] =>
+  Array.isArray(v)
+    ? v
+        .filter((l): l is { id: number; name?: unknown } => !!l && typeof l === "object" && Number.isInteger(l.id))
+        .map((l) => ({ id: l.id, name: typeof l.name === "string" ? l.name : `#${l.id}` }))
+        .slice(0, 20)
+    : [];
+
+/**
+ * Validate an interpretation the client edited and sent back: unknown
+ * fields are dropped, numbers clamped, and the window kept within
+ * [now, now + 7 days].
+ */
+export function sanitizeInterpretation(raw: unknown, now: Date = new Date()): ChatInterpretation {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const w = (r.window && typeof r.window === "object" ? r.window : {}) as Record<string, unknown>;
+  const fromMs = Date.parse(String(w.from ?? ""));
+  const toMs = Date.parse(String(w.to ?? ""));
+  const maxTo = addHours(now, MAX_WINDOW_HOURS).getTime();
+  const window =
+    Number.isNaN(fromMs) || Number.isNaN(toMs)
+      ? defaultWindow(now)
+      : {
+          label: typeof w.label === "string" ? w.label.slice(0, 40) : "custom",
+          from: new Date(clamp(fromMs, now.getTime(), maxTo)).toISOString(),
+          to: new Date(clamp(toMs, now.getTime(), maxTo)).toISOString(),
+        };
+
+  return {
+    limit: clamp(Math.round(num(r.limit) ?? DEFAULT_LIMIT), 1, MAX_LIMIT),
+    markets: strings(r.markets).filter((m) => m in MARKET_SYNONYMS),
+    exclude_markets: strings(r.exclude_markets).filter((m) => m in MARKET_SYNONYMS),
+    side: r.side === "over" || r.side === "under" ? r.side : null,
+    line: num(r.line),
+    line_min: num(r.line_min),
+    line_max: num(r.line_max),
+    odds_min: num(r.odds_min),
+    odds_max: num(r.odds_max),
+    min_confidence: num(r.min_confidence) == null ? null : clamp(num(r.min_confidence)!, 0, 100),
+    window,
+    leagues: leagueRefs(r.leagues),
+    exclude_leagues: leagueRefs(r.exclude_leagues),
+    countries: strings(r.countries),
+    exclude_countries: strings(r.exclude_countries),
+    teams: strings(r.teams),
+    exclude_teams: strings(r.exclude_teams),
+    unparsed: [],
+  };
+}
+
+/**
+ * League ids to include (null = any) and exclude, with countries expanded
+ * to their leagues. An included country with no known league yields [].
+ */
+export function interpretationLeagueIds(
+  interp: ChatInterpretation,
+  vocab: ChatVocabulary
+): { include: number[] | null; exclude: number[] } {
+  const inCountries = (countries: string[]) =>
+    vocab.leagues.filter((l) => l.country != null && countries.includes(l.country)).map((l) => l.id);
+
+  const include =
+    interp.leagues.length > 0 || interp.countries.length > 0
+      ? [...new Set([...interp.leagues.map((l) => l.id), ...inCountries(interp.countries)])]
+      : null;
+  const exclude = [...new Set([...interp.exclude_leagues.map((l) => l.id), ...inCountries(interp.exclude_countries)])];
+  return { include, exclude };
+}
+
+/** Team include/exclude, applied after the database query */
+export function matchesTeams(pick: { home_team: string; away_team: string }, interp: ChatInterpretation): boolean {
+  const playing = (team: string) => pick.home_team === team || pick.away_team === team;
+  if (interp.exclude_teams.some(playing)) return false;
+  return interp.teams.length === 0 || interp.teams.some(playing);
+}
+
+/** Every constraint checked in memory, for narrowing a result set already fetched */
+export function matchesInterpretation(pick: ChatPick, interp: ChatInterpretation, vocab: ChatVocabulary): boolean {
+  const { include, exclude } = interpretationLeagueIds(interp, vocab);
+  const line = Number(pick.line);
+  const odds = Number(pick.odds);
+  const kickoff = Date.parse(pick.utc_kickoff);
+  return (
+    (interp.markets.length === 0 || interp.markets.includes(pick.market)) &&
+    !interp.exclude_markets.includes(pick.market) &&
+    (interp.side == null || pick.side === interp.side) &&
+    (interp.line == null || line === interp.line) &&
+    (interp.line_min == null || line >= interp.line_min) &&
+    (interp.line_max == null || line <= interp.line_max) &&
+    (interp.odds_min == null || odds >= interp.odds_min) &&
+    (interp.odds_max == null || odds <= interp.odds_max) &&
+    pick.confidence_score * 100 >= (interp.min_confidence ?? 0) &&
+    kickoff >= Date.parse(interp.window.from) &&
+    kickoff <= Date.parse(interp.window.to) &&
+    (include == null || include.includes(pick.league_id)) &&
+    !exclude.includes(pick.league_id) &&
+    matchesTeams(pick, interp)
+  );
+}
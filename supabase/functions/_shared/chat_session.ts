@@ -0,0 +1,141 @@
+/**
+ * SAFE ZONE CHAT FOLLOW-UPS
+ *
+ * safe-zone-chat keeps a session per conversation with the last
+ * interpretation and the last result set (safe_zone_chat_sessions). A
+ * message that starts like a follow-up acts on them instead of starting over:
+ *
+ *   swap     "swap the second pick", "replace #3"   next best pick not in the set
+ *   remove   "remove the last one", "drop pick 2"
+ *   more     "more", "3 more", "show me more"       next best picks appended
+ *   narrow   "now only Spain", "just corners",      the set filtered in memory
+ *            "of those, odds above 1.6"
+ *   modify   "same but tomorrow", "what about       merged into the last
+ *            cards", "and exclude La Liga"          interpretation and re-queried
+ *
+ * Anything else is a fresh query. Picks are matched by fixture / market /
+ * side / line, since populate-safe-zone-picks replaces rows (and ids) on
+ * every run.
+ *
+ * Pure module — tested in src/test/chat-session.test.ts.
+ */
+
+import {
+  MAX_LIMIT,
+  parseChatQuery,
+  type ChatInterpretation,
+  type ChatPick,
+} from "./chat_query.ts";
+
+export const DEFAULT_MORE_COUNT = 5;
+
+export type FollowUp =
+  | { kind: "swap" | "remove"; index: number }
+  | { kind: "more"; count: number }
+  | { kind: "narrow" | "modify"; text: string };
+
+/** What the bot did with a follow-up, echoed to the client */
+export interface FollowUpResult {
+  kind: FollowUp["kind"];
+  /** 0-based position acted on (swap / remove) */
+  index?: number;
+  /** false when it did not apply: no such pick, nothing left to swap in */
+  applied: boolean;
+}
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+  one: 1, two: 2, three: 3, four: 4, five: 5,
+  last: -1,
+};
+
+// "the second pick", "pick 2", "number 3", "#4" (normalized to "4"), "2nd one", "the last"
+const ORDINAL = String.raw`(?:the\s+)?(?:(?:pick|tip|bet|number|no\.?)\s+)?(\d{1,2}(?:st|nd|rd|th)?|${Object.keys(ORDINAL_WORDS).join("|")})(?:\s+(?:pick|tip|bet|one|selection))?`;
+
+const SWAP = new RegExp(String.raw`^(?:please\s+)?(?:swap|replace|change)\s+(?:out\s+)?${ORDINAL}\b`);
+const REMOVE = new RegExp(String.raw`^(?:please\s+)?(?:remove|drop|delete|skip|lose)\s+${ORDINAL}\b`);
+const MORE = /^(?:(?:show|give|get)\s+(?:me\s+)?)?(?:(\d{1,2})\s+)?more(?:\s+(?:picks|tips|bets|please))*$/;
+const NARROW = /^(?:(?:now|ok|okay)\s+)?(?:(?:of|from)\s+(?:those|these|them)\s*,?\s*)?(?:only|just|filter(?:\s+to)?)\s+(.+)$|^(?:of|from)\s+(?:those|these|them)\s*,?\s*(.+)$/;
+const MODIFY = /^(?:(?:same|again)\s+(?:but|with|for)|but|and|also|instead|now|what\s+about|how\s+about|make\s+it)\s+(.+)$/;
+
+function ordinal(raw: string): number {
+  return ORDINAL_WORDS[raw] ?? parseInt(raw, 10);
+}
+
+/** A follow-up command, or null when the text is a fresh query */
+export function parseFollowUp(normalizedText: string): FollowUp | null {
+  const text = normalizedText.replace(/[?!.]+$/, "").trim();
+  let m: RegExpMatchArray | null;
+  if ((m = text.match(SWAP))) return { kind: "swap", index: ordinal(m[1]) };
+  if ((m = text.match(REMOVE))) return { kind: "remove", index: ordinal(m[1]) };
+  if ((m = text.match(MORE))) {
+    return { kind: "more", count: Math.min(MAX_LIMIT, m[1] ? parseInt(m[1], 10) : DEFAULT_MORE_COUNT) };
+  }
+  if ((m = text.match(NARROW))) return { kind: "narrow", text: (m[1] ?? m[2]).trim() };
+  if ((m = text.match(MODIFY))) return { kind: "modify", text: m[1].trim() };
+  return null;
+}
+
+/** 0-based index for a 1-based ordinal (−1 = last), or null when out of range */
+export function resolvePickIndex(ordinalValue: number, length: number): number | null {
+  const index = ordinalValue === -1 ? length - 1 : ordinalValue - 1;
+  return index >= 0 && index < length ? index : null;
+}
+
+export function pickKey(p: Pick<ChatPick, "fixture_id" | "market" | "side" | "line">): string {
+  return `${p.fixture_id}|${p.market}|${p.side}|${Number(p.line)}`;
+}
+
+type ListKey = "markets" | "countries" | "teams";
+
+/**
+ * Fields the follow-up states explicitly replace the session's; the rest
+ * carry over. Including something drops it from the matching exclusion list
+ * and vice versa, so "same but no corners" after "corners" is not a
+ * contradiction.
+ */
+export function mergeInterpretation(
+  prev: ChatInterpretation,
+  next: ChatInterpretation,
+  now: Date = new Date()
+): ChatInterpretation {
+  const blank = parseChatQuery("", { leagues: [], teams: [] }, now);
+  const out: Record<string, unknown> = { ...prev, unparsed: next.unparsed };
+  for (const key of Object.keys(next) as (keyof ChatInterpretation)[]) {
+    if (key === "unparsed") continue;
+    const stated =
+      key === "window"
+        ? next.window.label !== blank.window.label
+        : JSON.stringify(next[key]) !== JSON.stringify(blank[key]);
+    if (stated) out[key] = next[key];
+  }
+  const merged = out as unknown as ChatInterpretation;
+
+  for (const key of ["markets", "countries", "teams"] as ListKey[]) {
+    const excludeKey = `exclude_${key}` as `exclude_${ListKey}`;
+    if (next[excludeKey].length > 0) merged[key] = merged[key].filter((v) => !next[excludeKey].includes(v));
+    if (next[key].length > 0) merged[excludeKey] = merged[excludeKey].filter((v) => !next[key].includes(v));
+  }
+  if (next.exclude_leagues.length > 0) {
+    merged.leagues = merged.leagues.filter((l) => !next.exclude_leagues.some((x) => x.id === l.id));
+  }
+  if (next.leagues.length > 0) {
+    merged.exclude_leagues = merged.exclude_leagues.filter((l) => !next.leagues.some((x) => x.id === l.id));
+  }
+  return merged;
+}
+
+/** Replace the pick at index with the first candidate not already in the set */
+export function swapPick<T extends ChatPick>(picks: T[], index: number, candidates: T[]): T[] | null {
+  const taken = new Set(picks.map(pickKey));
+  const replacement = candidates.find((c) => !taken.has(pickKey(c)));
+  if (!replacement) return null;
+  return picks.map((p, i) => (i === index ? replacement : p));
+}
+
+/** Append up to count candidates not already in the set */
+export function appendPicks<T extends ChatPick>(picks: T[], candidates: T[], count: number): T[] {
+  const taken = new Set(picks.map(pickKey));
+  return [...picks, ...candidates.filter((c) => !taken.has(pickKey(c))).slice(0, count)];
+}
@@ -0,0 +1,140 @@
+/**
+ * CLOSING LINE VALUE
+ *
+ * Compares the price we recommended (optimized_selections) or put on a ticket
+ * (ticket_leg_outcomes) with the last pre-kickoff price in odds_cache.
+ *
+ *   clv_pct      = taken_odds / closing_odds − 1        (price CLV)
+ *   fair_clv_pct = taken_odds × closing_fair_prob − 1   (EV against the de-vigged close)
+ *
+ * The closing price comes from the same bookmaker when it still quotes the
+ * line, otherwise from the median across bookmakers.
+ *
+ * Pure module — used by clv-snapshot and admin-health.
+ */
+
+import type { TotalsPrice } from "./odds_normalization.ts";
+
+export interface ClvPick {
+  market: string;
+  side: string;
+  line: number;
+  bookmaker?: string | null;
+}
+
+export interface ClosingLine {
+  odds: number;
+  bookmaker: string | null;
+  method: "same_book" | "median";
+  /** De-vigged probability of the pick at the close, when the other side is quoted */
+  fair_prob: number | null;
+}
+
+export interface ClvRow {
+  market: string;
+  line: number;
+  league_id: number | null;
+  rules_version: string | null;
+  source: string;
+  clv_pct: number;
+  fair_clv_pct: number | null;
+}
+
+export type ClvDimension = "market" | "line" | "league" | "rules_version" | "source";
+
+export const CLV_DIMENSIONS: ClvDimension[] = ["market", "line", "league", "rules_version", "source"];
+
+export interface ClvAggregate {
+  key: string;
+  n: number;
+  avg_clv_pct: number;
+  avg_fair_clv_pct: number | null;
+  /** Share of picks that beat the closing price */
+  beat_close_pct: number;
+}
+
+const round = (n: number, dp = 4) => Math.round(n * 10 ** dp) / 10 ** dp;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const sameLine = (p: TotalsPrice, pick: ClvPick) => p.market === pick.market && p.line === Number(pick.line);
+
+/** Closing price for a pick from the last pre-kickoff odds, or null if nobody quotes it */
+export function closingLine(prices: TotalsPrice[], pick: ClvPick): ClosingLine | null {
+  const side = pick.side.toLowerCase();
+  const opposite = side === "over" ? "under" : "over";
+  const onLine = prices.filter((p) => sameLine(p, pick));
+  const picks = onLine.filter((p) => p.side === side);
+  if (picks.length === 0) return null;
+
+  const book = pick.bookmaker?.toLowerCase();
+  const sameBook = book ? picks.find((p) => p.bookmaker.toLowerCase() === book) : undefined;
+
+  let odds: number;
+  let oppositeOdds: number | null;
+  if (sameBook) {
+    odds = sameBook.odds;
+    oppositeOdds = onLine.find((p) => p.side === opposite && p.bookmaker === sameBook.bookmaker)?.odds ?? null;
+  } else {
+    odds = median(picks.map((p) => p.odds));
+    const opp = onLine.filter((p) => p.side === opposite).map((p) => p.odds);
+    oppositeOdds = opp.length > 0 ? median(opp) : null;
+  }
+
+  const fairProb = oppositeOdds ? (1 / odds) / (1 / odds + 1 / oppositeOdds) : null;
+
+  return {
+    odds,
+    bookmaker: sameBook ? sameBook.bookmaker : null,
+    method: sameBook ? "same_book" : "median",
+    fair_prob: fairProb != null ? round(fairProb) : null,
+  };
+}
+
+export function computeClv(takenOdds: number, closing: ClosingLine): { clv_pct: number; fair_clv_pct: number | null } {
+  return {
+    clv_pct: round(takenOdds / closing.odds - 1),
+    fair_clv_pct: closing.fair_prob != null ? round(takenOdds * closing.fair_prob - 1) : null,
+  };
+}
+
+function dimensionKey(row: ClvRow, dimension: ClvDimension): string {
+  switch (dimension) {
+    case "market": return row.market;
+    case "line": return `${row.market} ${Number(row.line)}`;
+    case "league": return row.league_id != null ? String(row.league_id) : "unknown";
+    case "rules_version": return row.rules_version ?? "none";
+    case "source": return row.source;
+  }
+}
+
+/** Average CLV per market, line, league, rules version or source (largest groups first) */
+export function aggregateClv(rows: ClvRow[], dimension: ClvDimension): ClvAggregate[] {
+  const groups = new Map<string, { n: number; clv: number; fair: number; fairN: number; beat: number }>();
+  for (const row of rows) {
+    const key = dimensionKey(row, dimension);
+    const g = groups.get(key) ?? { n: 0, clv: 0, fair: 0, fairN: 0, beat: 0 };
+    g.n++;
+    g.clv += row.clv_pct;
+    if (row.clv_pct > 0) g.beat++;
+    if (row.fair_clv_pct != null) {
+      g.fair += row.fair_clv_pct;
+      g.fairN++;
+    }
+    groups.set(key, g);
+  }
+
+  return [...groups.entries()]
+    .map(([key, g]) => ({
+      key,
+      n: g.n,
+      avg_clv_pct: round(g.clv / g.n),
+      avg_fair_clv_pct: g.fairN > 0 ? round(g.fair / g.fairN) : null,
+      beat_close_pct: round(g.beat / g.n),
+    }))
+    .sort((a, b) => b.n - a.n || a.key.localeCompare(b.key));
+}
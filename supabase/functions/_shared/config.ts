@@ -13,7 +13,7 @@ export const UPCOMING_WINDOW_HOURS = 48;
 export const ODDS_MIN = 1.25;
 export const ODDS_MAX = 5.00;
 
-// API-Football budget management (ULTRA plan)
+// API-Football budget management (ULTRA plan), enforced across functions by api_quota.ts
 export const DAILY_CALL_BUDGET = 65000; // 86% of 75k for safety margin
 export const RPM_LIMIT = 50;
 
@@ -21,6 +21,9 @@ export const RPM_LIMIT = 50;
 export const PREMATCH_TTL_MINUTES = 45;
 export const LIVE_TTL_MINUTES = 3;
 
+// In-play pool: matches that kicked off within this many hours (regulation + stoppage + buffer)
+export const LIVE_LOOKBACK_HOURS = 2.5;
+
 // Top bookmakers to keep per (fixture, market, side, line) for variety
 export const KEEP_TOP_BOOKMAKERS = 3;
 
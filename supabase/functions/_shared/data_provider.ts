@@ -0,0 +1,188 @@
+/**
+ * SPORTS DATA PROVIDER
+ *
+ * Every request to the sports data API goes through a DataProvider. Callers
+ * name the API and pass a path; base URLs and keys live in the provider, so
+ * a function can run live, record what it fetched, or replay recordings
+ * without network:
+ *
+ *   DATA_PROVIDER=api-sports   live api-sports.io (default)
+ *   DATA_PROVIDER=record       live, and every response is written to
+ *                              DATA_PROVIDER_FIXTURES_DIR
+ *   DATA_PROVIDER=replay       responses read from DATA_PROVIDER_FIXTURES_DIR;
+ *                              a request without a recording answers 404
+ *
+ * A recording is one JSON file per request — { api, path, status, body } —
+ * matched on the API and the path with its query parameters sorted, so
+ * "?season=2025&league=39" replays "?league=39&season=2025". Filenames are
+ * only for people browsing the directory.
+ *
+ * A second data source implements DataProvider and returns api-sports shaped
+ * bodies; nothing else has to change. provider_registry.ts picks the active
+ * provider from the environment.
+ *
+ * Pure module — tested in src/test/data-provider.test.ts.
+ */
+
+export type SportsApi = "football" | "hockey" | "basketball" | "nba";
+
+/** The envelope every api-sports endpoint returns */
+export interface ApiSportsBody<T = unknown> {
+  response?: T;
+  results?: number;
+  errors?: unknown[] | Record<string, string>;
+  paging?: { current: number; total: number };
+  parameters?: Record<string, string>;
+}
+
+export interface ProviderResponse<T = unknown> {
+  ok: boolean;
+  status: number;
+  /** Parsed JSON, null when the body was not JSON */
+  body: ApiSportsBody<T> | null;
+  /** Seconds from a 429's Retry-After header */
+  retryAfter?: number;
+  /** Set when the quota ledger refused the request (api_quota.ts); nothing was sent */
+  deferred?: string;
+}
+
+export interface DataProvider {
+  readonly name: string;
+  /** Why requests to this API cannot be made (e.g. a missing key), or null */
+  configError(api: SportsApi): string | null;
+  /** GET a path such as "/games?league=57&season=2025" */
+  get<T = unknown>(api: SportsApi, path: string): Promise<ProviderResponse<T>>;
+}
+
+export interface Recording {
+  api: SportsApi;
+  path: string;
+  status: number;
+  body: unknown;
+}
+
+const API_SPORTS_BASES: Record<SportsApi, string> = {
+  football: "https://v3.football.api-sports.io",
+  hockey: "https://v1.hockey.api-sports.io",
+  basketball: "https://v1.basketball.api-sports.io",
+  nba: "https://v2.nba.api-sports.io",
+};
+
+// Basketball and NBA share the football subscription key
+const API_SPORTS_KEYS: Record<SportsApi, string> = {
+  football: "API_FOOTBALL_KEY",
+  hockey: "API_HOCKEY_KEY",
+  basketball: "API_FOOTBALL_KEY",
+  nba: "API_FOOTBALL_KEY",
+};
+
+/** Path with query parameters sorted; the key recordings are matched on */
+export function canonicalPath(path: string): string {
+  const [pathname, query = ""] = path.split("?", 2);
+  const params = new URLSearchParams(query);
+  params.sort();
+  const sorted = params.toString();
+  return sorted ? `${pathname}?${sorted}` : pathname;
+}
+
+export function recordingKey(api: SportsApi, path: string): string {
+  return `${api} ${canonicalPath(path)}`;
+}
+
+/** "football", "/fixtures?id=1" → "football_fixtures_id-1.json" */
+export function recordingFilename(api: SportsApi, path: string): string {
+  const slug = canonicalPath(path)
+    .replace(/^\//, "")
+    .replace(/=/g, "-")
+    .replace(/[^a-zA-Z0-9.-]+/g, "_")
+    .slice(0, 180);
+  return `${api}_${slug}.json`;
+}
+
+export class ApiSportsProvider implements DataProvider {
+  readonly name = "api-sports";
+
+  constructor(private readonly env: (name: string) => string | undefined) {}
+
+  configError(api: SportsApi): string | null {
+    return this.env(API_SPORTS_KEYS[api]) ? null : `${API_SPORTS_KEYS[api]} not configured`;
+  }
+
+  async get<T = unknown>(api: SportsApi, path: string): Promise<ProviderResponse<T>> {
+    const key = this.env(API_SPORTS_KEYS[api]);
+    if (!key) throw new Error(`[data-provider] ${API_SPORTS_KEYS[api]} not configured`);
+
+    const res = await fetch(`${API_SPORTS_BASES[api]}${path}`, { headers: { "x-apisports-key": key } });
+    const body = (await res.json().catch(() => null)) as ApiSportsBody<T> | null;
+    const retryAfter = res.headers.get("Retry-After");
+    return {
+      ok: res.ok,
+      status: res.status,
+      body,
+      retryAfter: retryAfter ? parseInt(retryAfter, 10) : undefined,
+    };
+  }
+}
+
+export class ReplayProvider implements DataProvider {
+  readonly name = "replay";
+  private readonly recordings = new Map<string, Recording>();
+  private loading: Promise<void> | null = null;
+
+  /** Recordings in memory, or a loader called on the first request */
+  constructor(private readonly source: Recording[] | (() => Promise<Recording[]>)) {
+    if (Array.isArray(source)) this.add(source);
+  }
+
+  configError(): string | null {
+    return null;
+  }
+
+  add(recordings: Recording[]): void {
+    for (const r of recordings) this.recordings.set(recordingKey(r.api, r.path), r);
+  }
+
+  async get<T = unknown>(api: SportsApi, path: string): Promise<ProviderResponse<T>> {
+    if (typeof this.source === "function") {
+      this.loading ??= this.source().then((r) => this.add(r));
+      await this.loading;
+    }
+    const hit = this.recordings.get(recordingKey(api, path));
+    if (!hit) {
+      console.warn(`[data-provider] replay miss: ${recordingKey(api, path)}`);
+      return { ok: false, status: 404, body: { errors: { replay: `No recording for ${api} ${path}` } } };
+    }
+    return {
+      ok: hit.status >= 200 && hit.status < 300,
+      status: hit.status,
+      body: hit.body as ApiSportsBody<T> | null,
+    };
+  }
+}
+
+/** Passes requests through and hands every response to `save` */
+export class RecordingProvider implements DataProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: DataProvider,
+    private readonly save: (recording: Recording) => Promise<void>
+  ) {
+    this.name = `record(${inner.name})`;
+  }
+
+  configError(api: SportsApi): string | null {
+    return this.inner.configError(api);
+  }
+
+  async get<T = unknown>(api: SportsApi, path: string): Promise<ProviderResponse<T>> {
+    const res = await this.inner.get<T>(api, path);
+    // Rate-limit answers are retried by callers; recording one would replay it forever
+    if (res.status !== 429) {
+      await this.save({ api, path: canonicalPath(path), status: res.status, body: res.body }).catch((err) =>
+        console.error(`[data-provider] could not record ${api} ${path}: ${err instanceof Error ? err.message : String(err)}`)
+      );
+    }
+    return res;
+  }
+}
@@ -1,7 +1,16 @@
 // Head-to-Head statistics helper for API-Football
 // Fetches and caches H2H averages between two teams
 
-import { API_BASE, apiHeaders } from "./api.ts";
+import { getDataProvider } from "./provider_registry.ts";
+
+interface H2HFixture {
+  fixture?: { id?: number };
+  goals?: { home: number | null; away: number | null };
+}
+
+interface TeamStatistics {
+  statistics?: { type: string; value: number | string | null }[];
+}
 
 /**
  * API USAGE SAFETY NOTE:
@@ -104,17 +113,16 @@ export async function fetchHeadToHeadStats(
 
   // Fetch from API-Football
   try {
-    const h2hUrl = `${API_BASE}/fixtures/headtohead?h2h=${normTeam1}-${normTeam2}&last=5`;
-    console.log(`[h2h] API call: ${h2hUrl}`);
+    const h2hPath = `/fixtures/headtohead?h2h=${normTeam1}-${normTeam2}&last=5`;
+    console.log(`[h2h] API call: ${h2hPath}`);
     
-    const h2hResponse = await fetch(h2hUrl, { headers: apiHeaders() });
+    const h2hResponse = await getDataProvider().get<H2HFixture[]>("football", h2hPath);
     if (!h2hResponse.ok) {
       console.error(`[h2h] API error: ${h2hResponse.status}`);
       return null;
     }
 
-    const h2hData = await h2hResponse.json();
-    const fixtures = h2hData?.response || [];
+    const fixtures = h2hResponse.body?.response || [];
     
     if (fixtures.length === 0) {
       console.log('[h2h] No H2H fixtures found');
@@ -137,12 +145,13 @@ export async function fetchHeadToHeadStats(
 
       // Fetch detailed statistics for this fixture
       try {
-        const statsUrl = `${API_BASE}/fixtures/statistics?fixture=${fixtureId}`;
-        const statsResponse = await fetch(statsUrl, { headers: apiHeaders() });
+        const statsResponse = await getDataProvider().get<TeamStatistics[]>(
+          "football",
+          `/fixtures/statistics?fixture=${fixtureId}`
+        );
         
         if (statsResponse.ok) {
-          const statsData = await statsResponse.json();
-          const teams = statsData?.response || [];
+          const teams = statsResponse.body?.response || [];
           
           let corners = 0;
           let cards = 0;
@@ -0,0 +1,150 @@
+/**
+ * HOCKEY TICKET LEGS
+ *
+ * Pricing and settlement for hockey legs on My Ticket / the bet journal.
+ * Prices come from hockey_odds_cache (get-latest-odds, hockey-iceedge-compute);
+ * results come from hockey_games once hockey-sync-results has written a
+ * terminal status and both scores.
+ *
+ * Settlement rules:
+ *   total / home_total / away_total  final score, overtime and shootout included
+ *   p1_total                         first period only (period_scores.first)
+ *   match_winner                     final score, no draw
+ *   reg_winner                       60 minutes: a game that went to OT is a draw
+ *   handicap                         final margin + line, whole lines push
+ *   cancelled / abandoned game       void, whatever the market
+ *
+ * Pure module — no Supabase imports. Tested in src/test/hockey-ticket-legs.test.ts.
+ */
+
+import { scoreOverUnder } from "./leg_scoring.ts";
+import type { BookPrice } from "./odds_normalization.ts";
+
+/** Statuses hockey-sync-results treats as finished */
+export const HOCKEY_FINAL_STATUSES = new Set(["FT", "AOT", "AP", "AET"]);
+
+/** Games that will not be played to a result; their legs settle VOID */
+export const HOCKEY_VOID_STATUSES = new Set(["CANC", "ABD"]);
+
+export interface HockeyOddsRow {
+  bookmaker: string;
+  market: string;
+  selection: string;
+  line: number;
+  odds: number;
+}
+
+export interface HockeyLegSelection {
+  market: string;
+  side: string;
+  line: number | string;
+}
+
+export interface HockeyGameResult {
+  status: string | null;
+  home_score: number | null;
+  away_score: number | null;
+  went_to_ot: boolean | null;
+  period_scores: unknown;
+}
+
+export interface HockeyLegScore {
+  result_status: "WIN" | "LOSS" | "PUSH" | "VOID";
+  actual_value: number | null;
+}
+
+const OVER_UNDER_MARKETS = new Set(["total", "p1_total", "home_total", "away_total"]);
+
+/** Every bookmaker's price for one selection, best first */
+export function hockeyPriceBoard(rows: HockeyOddsRow[], leg: HockeyLegSelection): BookPrice[] {
+  const line = Number(leg.line);
+  const best = new Map<string, number>();
+  for (const r of rows) {
+    if (r.market !== leg.market || r.selection !== leg.side || Number(r.line) !== line) continue;
+    const odds = Number(r.odds);
+    if (!(odds > 1)) continue;
+    best.set(r.bookmaker, Math.max(best.get(r.bookmaker) ?? 0, odds));
+  }
+  return [...best.entries()]
+    .map(([bookmaker, odds]) => ({ bookmaker, odds }))
+    .sort((a, b) => b.odds - a.odds);
+}
+
+/**
+ * First-period score. hockey-sync-results stores the provider's periods as-is:
+ * usually "H-A" strings, occasionally { home, away } objects.
+ */
+export function firstPeriodScore(periodScores: unknown): { home: number; away: number } | null {
+  if (!periodScores || typeof periodScores !== "object") return null;
+  const first = (periodScores as Record<string, unknown>).first;
+
+  if (typeof first === "string") {
+    const parts = first.split("-").map((p) => parseInt(p, 10));
+    if (parts.length !== 2 || parts.some((n) => Number.isNaN(n))) return null;
+    return { home: parts[0], away: parts[1] };
+  }
+  if (first && typeof first === "object") {
+    const { home, away } = first as { home?: unknown; away?: unknown };
+    if (typeof home === "number" && typeof away === "number") return { home, away };
+  }
+  return null;
+}
+
+/**
+ * The number a leg is settled on: a total for over/under markets, the
+ * home-minus-away margin for winner and handicap markets. Null when the
+ * game is not final or the needed score is missing.
+ */
+export function hockeyLegActualValue(market: string, game: HockeyGameResult): number | null {
+  if (!game.status || !HOCKEY_FINAL_STATUSES.has(game.status)) return null;
+  if (game.home_score == null || game.away_score == null) return null;
+  const home = Number(game.home_score);
+  const away = Number(game.away_score);
+
+  switch (market) {
+    case "total":
+      return home + away;
+    case "home_total":
+      return home;
+    case "away_total":
+      return away;
+    case "p1_total": {
+      const p1 = firstPeriodScore(game.period_scores);
+      return p1 ? p1.home + p1.away : null;
+    }
+    case "match_winner":
+    case "handicap":
+      return home - away;
+    case "reg_winner":
+      return game.went_to_ot ? 0 : home - away;
+    default:
+      return null;
+  }
+}
+
+/** WIN/LOSS/PUSH/VOID for a hockey leg, or null when it cannot be settled yet */
+export function scoreHockeyLeg(leg: HockeyLegSelection, game: HockeyGameResult): HockeyLegScore | null {
+  if (game.status && HOCKEY_VOID_STATUSES.has(game.status)) return { result_status: "VOID", actual_value: null };
+  const actual = hockeyLegActualValue(leg.market, game);
+  if (actual === null) return null;
+  const side = leg.side.toLowerCase();
+  const line = Number(leg.line);
+
+  let result: HockeyLegScore["result_status"] | null = null;
+  if (OVER_UNDER_MARKETS.has(leg.market)) {
+    result = scoreOverUnder(side, line, actual);
+  } else if (leg.market === "handicap") {
+    const adjusted = side === "home" ? actual + line : side === "away" ? line - actual : NaN;
+    if (!Number.isNaN(adjusted)) result = adjusted > 0 ? "WIN" : adjusted < 0 ? "LOSS" : "PUSH";
+  } else if (leg.market === "match_winner" || leg.market === "reg_winner") {
+    if (side === "draw") {
+      result = leg.market === "reg_winner" ? (actual === 0 ? "WIN" : "LOSS") : null;
+    } else if (side === "home" || side === "away") {
+      // A level final score means the shootout winner is missing from the feed
+      if (actual === 0 && leg.market === "match_winner") return null;
+      result = (side === "home" ? actual > 0 : actual < 0) ? "WIN" : "LOSS";
+    }
+  }
+
+  return result ? { result_status: result, actual_value: actual } : null;
+}
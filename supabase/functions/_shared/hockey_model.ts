@@ -0,0 +1,292 @@
+/**
+ * ICEEDGE TOTALS MODEL (v2)
+ *
+ * Projects a hockey game's total goals as a chain of additive factors, so the
+ * IceEdge drawer can show how much each input moved the number:
+ *
+ *   base           (home.gpg + away.ga_pg + away.gpg + home.ga_pg) / 2
+ *   recent_form    0.4 × (last-5 projection − base)
+ *   venue          0.5 × (home-at-home / away-on-road projection − base),
+ *                  once both teams have ≥ 5 games at that venue
+ *   h2h            0.3 × (H2H avg total − running total), H2H gp ≥ 2
+ *   special_teams  0.5 × Σ (expected PP goals − league-average PP goals),
+ *                  expected = 3 PP chances × pp% × (1 − opp pk%) / (1 − 80%)
+ *   shots          0.25 × (expected shots × teams' shooting% − base)
+ *   home_goalie /  shots faced × (team sv% − starter sv%), starter sv%
+ *   away_goalie    regressed to the team with a 300-shot prior; projected
+ *                  (not confirmed) starters count 60%
+ *
+ * Box-score factors need ≥ 5 games with box scores for both teams; a factor
+ * without data contributes 0 and is reported with applied = false.
+ *
+ * value_score compares a Poisson P(over) at the projected total with the
+ * de-vigged book price (edge × 5, clamped 0..1); without both sides priced
+ * it falls back to the v1 line distance min(|proj − line| / line × 10, 1).
+ *
+ * Pure module — tested in src/test/hockey-model.test.ts.
+ */
+
+import { overUnderProbability } from "./probability.ts";
+
+export const HOCKEY_MODEL_VERSION = "iceedge-v2";
+
+export const LEAGUE_PP_PCT = 0.2;
+export const LEAGUE_PK_PCT = 0.8;
+export const LEAGUE_SAVE_PCT = 0.905;
+export const PP_CHANCES_PER_TEAM = 3;
+export const DEFAULT_SHOTS_PER_TEAM = 30;
+export const MIN_BOX_SCORE_GAMES = 5;
+export const MIN_VENUE_GAMES = 5;
+export const GOALIE_PRIOR_SHOTS = 300;
+export const PROJECTED_STARTER_WEIGHT = 0.6;
+
+export type FactorKey =
+  | "base"
+  | "recent_form"
+  | "venue"
+  | "h2h"
+  | "special_teams"
+  | "shots"
+  | "home_goalie"
+  | "away_goalie";
+
+export interface FactorContribution {
+  factor: FactorKey;
+  /** Goals added to (or removed from) the projected total */
+  delta: number;
+  applied: boolean;
+  detail: string;
+}
+
+/** hockey_team_stats_cache row (box-score columns are 0 / null until synced) */
+export interface HockeyTeamProfile {
+  gp: number;
+  gpg: number;
+  ga_pg: number;
+  last5_gpg: number;
+  last5_gapg: number;
+  stats_gp?: number | null;
+  pp_pct?: number | null;
+  pk_pct?: number | null;
+  sog_pg?: number | null;
+  sa_pg?: number | null;
+  save_pct?: number | null;
+  home_gp?: number | null;
+  home_gpg?: number | null;
+  home_gapg?: number | null;
+  away_gp?: number | null;
+  away_gpg?: number | null;
+  away_gapg?: number | null;
+}
+
+export type StarterStatus = "confirmed" | "projected";
+
+/** Starting goalie (hockey_starting_goalies) joined with hockey_goalie_stats_cache */
+export interface StarterProfile {
+  player_id: number;
+  player_name: string;
+  status: StarterStatus;
+  shots_against: number;
+  saves: number;
+}
+
+export interface ProjectionInput {
+  home: HockeyTeamProfile;
+  away: HockeyTeamProfile;
+  h2h?: { gp: number; avg_total_goals: number } | null;
+  homeGoalie?: StarterProfile | null;
+  awayGoalie?: StarterProfile | null;
+}
+
+export interface TotalProjection {
+  total: number;
+  base: number;
+  factors: FactorContribution[];
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+const clamp = (value: number, lo: number, hi: number) => Math.min(Math.max(value, lo), hi);
+
+const hasBoxScores = (t: HockeyTeamProfile) => (t.stats_gp ?? 0) >= MIN_BOX_SCORE_GAMES;
+
+/** Expected shots on goal for a team against this opponent, or null without box scores */
+function expectedShots(team: HockeyTeamProfile, opp: HockeyTeamProfile): number | null {
+  if (!hasBoxScores(team) || !hasBoxScores(opp) || !team.sog_pg || !opp.sa_pg) return null;
+  return (team.sog_pg + opp.sa_pg) / 2;
+}
+
+function expectedPpGoals(team: HockeyTeamProfile, opp: HockeyTeamProfile): number {
+  const pp = (team.pp_pct ?? 0) / 100;
+  const oppPk = (opp.pk_pct ?? 0) / 100;
+  return PP_CHANCES_PER_TEAM * pp * ((1 - oppPk) / (1 - LEAGUE_PK_PCT));
+}
+
+/** Starter's save% shrunk toward the team's (GOALIE_PRIOR_SHOTS shots of team sv%) */
+export function regressedSavePct(goalie: Pick<StarterProfile, "shots_against" | "saves">, teamSavePct: number): number {
+  const shots = Math.max(goalie.shots_against, 0);
+  return (goalie.saves + GOALIE_PRIOR_SHOTS * teamSavePct) / (shots + GOALIE_PRIOR_SHOTS);
+}
+
+function goalieFactor(
+  factor: "home_goalie" | "away_goalie",
+  goalie: StarterProfile | null | undefined,
+  team: HockeyTeamProfile,
+  shotsFaced: number
+): FactorContribution {
+  if (!goalie) return { factor, delta: 0, applied: false, detail: "No starter known" };
+
+  const teamSv = team.save_pct ?? LEAGUE_SAVE_PCT;
+  const starterSv = regressedSavePct(goalie, teamSv);
+  const weight = goalie.status === "confirmed" ? 1 : PROJECTED_STARTER_WEIGHT;
+  const delta = weight * shotsFaced * (teamSv - starterSv);
+  const rawSv = goalie.shots_against > 0 ? (goalie.saves / goalie.shots_against).toFixed(3) : "n/a";
+
+  return {
+    factor,
+    delta: round(delta),
+    applied: true,
+    detail: `${goalie.player_name} (${goalie.status}) sv ${rawSv} over ${goalie.shots_against} shots vs team ${teamSv.toFixed(3)}`,
+  };
+}
+
+export function projectTotal(input: ProjectionInput): TotalProjection {
+  const { home, away, h2h } = input;
+  const factors: FactorContribution[] = [];
+
+  // ── base / recent form ─────────────────────────────────────────────
+  const base = (home.gpg + away.ga_pg + away.gpg + home.ga_pg) / 2;
+  factors.push({ factor: "base", delta: round(base), applied: true, detail: `Season ${base.toFixed(2)}` });
+
+  const last5 = (home.last5_gpg + away.last5_gapg + away.last5_gpg + home.last5_gapg) / 2;
+  factors.push({
+    factor: "recent_form",
+    delta: round(0.4 * (last5 - base)),
+    applied: true,
+    detail: `Last 5 ${last5.toFixed(2)}`,
+  });
+
+  // ── venue splits ───────────────────────────────────────────────────
+  const venueReady = (home.home_gp ?? 0) >= MIN_VENUE_GAMES && (away.away_gp ?? 0) >= MIN_VENUE_GAMES;
+  if (venueReady) {
+    const venue = ((home.home_gpg ?? 0) + (away.away_gapg ?? 0) + (away.away_gpg ?? 0) + (home.home_gapg ?? 0)) / 2;
+    factors.push({
+      factor: "venue",
+      delta: round(0.5 * (venue - base)),
+      applied: true,
+      detail: `Home at home / away on road ${venue.toFixed(2)}`,
+    });
+  } else {
+    factors.push({ factor: "venue", delta: 0, applied: false, detail: `Fewer than ${MIN_VENUE_GAMES} venue games` });
+  }
+
+  // ── head to head ───────────────────────────────────────────────────
+  const running = factors.reduce((sum, f) => sum + f.delta, 0);
+  if (h2h && h2h.gp >= 2) {
+    factors.push({
+      factor: "h2h",
+      delta: round(0.3 * (h2h.avg_total_goals - running)),
+      applied: true,
+      detail: `${h2h.gp} meetings, avg ${h2h.avg_total_goals}`,
+    });
+  } else {
+    factors.push({ factor: "h2h", delta: 0, applied: false, detail: "Fewer than 2 meetings" });
+  }
+
+  // ── special teams / shots ──────────────────────────────────────────
+  const boxReady = hasBoxScores(home) && hasBoxScores(away);
+  if (boxReady && home.pp_pct && away.pp_pct && home.pk_pct && away.pk_pct) {
+    const leaguePp = PP_CHANCES_PER_TEAM * LEAGUE_PP_PCT;
+    const homePp = expectedPpGoals(home, away);
+    const awayPp = expectedPpGoals(away, home);
+    factors.push({
+      factor: "special_teams",
+      delta: round(0.5 * (homePp - leaguePp + (awayPp - leaguePp))),
+      applied: true,
+      detail: `PP goals home ${homePp.toFixed(2)}, away ${awayPp.toFixed(2)} vs league ${leaguePp.toFixed(2)}`,
+    });
+  } else {
+    factors.push({ factor: "special_teams", delta: 0, applied: false, detail: "No power play data" });
+  }
+
+  const homeShots = expectedShots(home, away);
+  const awayShots = expectedShots(away, home);
+  if (homeShots != null && awayShots != null) {
+    const shootingPct = (home.gpg + away.gpg) / (home.sog_pg! + away.sog_pg!);
+    const shotsTotal = (homeShots + awayShots) * shootingPct;
+    factors.push({
+      factor: "shots",
+      delta: round(0.25 * (shotsTotal - base)),
+      applied: true,
+      detail: `Expected shots ${homeShots.toFixed(1)}–${awayShots.toFixed(1)} at ${(shootingPct * 100).toFixed(1)}%`,
+    });
+  } else {
+    factors.push({ factor: "shots", delta: 0, applied: false, detail: "No shot data" });
+  }
+
+  // ── goalies (each faces the other team's shots) ────────────────────
+  factors.push(goalieFactor("home_goalie", input.homeGoalie, home, awayShots ?? DEFAULT_SHOTS_PER_TEAM));
+  factors.push(goalieFactor("away_goalie", input.awayGoalie, away, homeShots ?? DEFAULT_SHOTS_PER_TEAM));
+
+  const total = factors.reduce((sum, f) => sum + f.delta, 0);
+  return { total: round(Math.max(total, 0)), base: round(base), factors };
+}
+
+/** Most quoted total line, with the best over/under odds at that line */
+export function consensusTotalLine(
+  odds: { selection: string; line: number | null; odds: number }[]
+): { line: number; over: number | null; under: number | null } | null {
+  const counts = new Map<number, number>();
+  for (const o of odds) {
+    if (o.line == null) continue;
+    counts.set(o.line, (counts.get(o.line) ?? 0) + 1);
+  }
+  if (counts.size === 0) return null;
+
+  const line = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+  const best = (side: string) => {
+    const prices = odds.filter((o) => o.line === line && o.selection === side).map((o) => o.odds);
+    return prices.length ? Math.max(...prices) : null;
+  };
+  return { line, over: best("over"), under: best("under") };
+}
+
+export interface TotalValue {
+  value_score: number;
+  side: "over" | "under";
+  model_prob: number | null;
+  book_prob: number | null;
+}
+
+export function totalValue(
+  projected: number,
+  price: { line: number; over: number | null; under: number | null }
+): TotalValue {
+  const side = projected >= price.line ? "over" : "under";
+
+  if (price.over && price.under && price.over > 1 && price.under > 1) {
+    const p = overUnderProbability({ mean: projected, size: null }, price.line);
+    const modelOver = p.over / Math.max(p.over + p.under, 1e-9);
+    const bookOver = 1 / price.over / (1 / price.over + 1 / price.under);
+    const edge = Math.abs(modelOver - bookOver);
+    return {
+      value_score: round(clamp(edge * 5, 0, 1), 3),
+      side: modelOver >= bookOver ? "over" : "under",
+      model_prob: round(modelOver, 3),
+      book_prob: round(bookOver, 3),
+    };
+  }
+
+  const edge = Math.abs(projected - price.line) / (price.line || 1);
+  return { value_score: round(Math.min(edge * 10, 1), 3), side, model_prob: null, book_prob: null };
+}
+
+/** Data-quality tier; "high" also needs both starters confirmed */
+export function confidenceTier(
+  minGp: number,
+  homeGoalie?: StarterProfile | null,
+  awayGoalie?: StarterProfile | null
+): "high" | "medium" | "low" {
+  if (minGp < 5) return "low";
+  const confirmed = homeGoalie?.status === "confirmed" && awayGoalie?.status === "confirmed";
+  return minGp >= 15 && confirmed ? "high" : "medium";
+}
@@ -0,0 +1,218 @@
+/**
+ * HOCKEY BOX SCORES
+ *
+ * Normalises api-sports hockey box scores into hockey_game_team_stats /
+ * hockey_goalie_games rows, and aggregates them for hockey-stats-refresh.
+ *
+ * Provider endpoints (v1.hockey.api-sports.io):
+ *   /games/statistics?game=ID  per-team list of { type, value } pairs
+ *   /games/players?game=ID     per-team player lines; goalies are
+ *                              position "G" (announced starters before
+ *                              puck drop, full lines once finished)
+ *
+ * Labels vary between competitions ("Shots on Goal" / "Shots", "Power Play
+ * Opportunities" / "Power Plays"), so stats are matched by normalised label.
+ * A stat the provider does not send stays null; aggregates skip nulls
+ * rather than counting them as zero. Pure module — tested in
+ * src/test/hockey-model.test.ts.
+ */
+
+export interface GameTeamStats {
+  team_id: number;
+  shots_on_goal: number | null;
+  pp_goals: number | null;
+  pp_opportunities: number | null;
+  penalty_minutes: number | null;
+  saves: number | null;
+}
+
+export interface GoalieLine {
+  team_id: number;
+  player_id: number;
+  player_name: string;
+  started: boolean;
+  shots_against: number | null;
+  saves: number | null;
+  goals_against: number | null;
+  toi_seconds: number | null;
+}
+
+/** One team's row in a finished game, joined with the opponent's */
+export interface TeamGameBox {
+  is_home: boolean;
+  goals_for: number;
+  goals_against: number;
+  own: GameTeamStats;
+  opp: GameTeamStats;
+}
+
+export interface SpecialTeamsAggregate {
+  stats_gp: number;
+  pp_pct: number;
+  pk_pct: number;
+  sog_pg: number;
+  sa_pg: number;
+  save_pct: number | null;
+}
+
+const STAT_LABELS: Record<keyof Omit<GameTeamStats, "team_id">, string[]> = {
+  shots_on_goal: ["shots on goal", "shots", "sog"],
+  pp_goals: ["power play goals", "powerplay goals", "ppg"],
+  pp_opportunities: ["power play opportunities", "power plays", "powerplay opportunities", "ppo"],
+  penalty_minutes: ["penalty minutes", "pim", "penalties in minutes"],
+  saves: ["saves", "goalie saves"],
+};
+
+const normaliseLabel = (label: unknown) =>
+  String(label ?? "").toLowerCase().replace(/[^a-z ]/g, " ").replace(/\s+/g, " ").trim();
+
+/** Integer from a provider value ("31", 31, "2/5" → 2), or null */
+export function statNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? Math.round(value) : null;
+  if (typeof value !== "string") return null;
+  const match = value.match(/-?\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+/** "mm:ss" (or seconds) → seconds */
+export function parseToi(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? Math.round(value) : null;
+  if (typeof value !== "string") return null;
+  const match = value.match(/^(\d+):(\d{1,2})$/);
+  if (match) return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return statNumber(value);
+}
+
+/** One team's /games/statistics entry */
+export function parseTeamStatistics(
+  teamId: number,
+  statistics: { type?: unknown; value?: unknown }[] | null | undefined
+): GameTeamStats {
+  const row: GameTeamStats = {
+    team_id: teamId,
+    shots_on_goal: null,
+    pp_goals: null,
+    pp_opportunities: null,
+    penalty_minutes: null,
+    saves: null,
+  };
+
+  for (const stat of statistics ?? []) {
+    const label = normaliseLabel(stat.type);
+    for (const [key, labels] of Object.entries(STAT_LABELS) as [keyof typeof STAT_LABELS, string[]][]) {
+      if (row[key] == null && labels.includes(label)) row[key] = statNumber(stat.value);
+    }
+  }
+  return row;
+}
+
+/** Goalie lines from one team's /games/players entry */
+export function parseGoalieLines(
+  teamId: number,
+  players: Record<string, unknown>[] | null | undefined
+): GoalieLine[] {
+  const lines: GoalieLine[] = [];
+
+  for (const p of players ?? []) {
+    const position = String(p.position ?? p.pos ?? "").toUpperCase();
+    if (position !== "G" && position !== "GOALIE" && position !== "GOALKEEPER") continue;
+
+    const player = (p.player ?? {}) as { id?: unknown; name?: unknown };
+    const playerId = statNumber(player.id ?? p.id);
+    if (playerId == null) continue;
+
+    const shots = statNumber(p.shots_against ?? p.shotsAgainst);
+    const saves = statNumber(p.saves);
+    const against = statNumber(p.goals_against ?? p.goalsAgainst);
+
+    lines.push({
+      team_id: teamId,
+      player_id: playerId,
+      player_name: String(player.name ?? p.name ?? `Goalie ${playerId}`),
+      started: p.starter === true || p.started === true || p.starting === true,
+      shots_against: shots ?? (saves != null && against != null ? saves + against : null),
+      saves: saves ?? (shots != null && against != null ? shots - against : null),
+      goals_against: against,
+      toi_seconds: parseToi(p.time_on_ice ?? p.toi),
+    });
+  }
+  return lines;
+}
+
+const ratio = (num: number, den: number) => (den > 0 ? num / den : null);
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Power play / penalty kill / shot rates over a team's games with box scores.
+ * PK% is 100 − opponents' PP conversion. Rates default to 0 when no game has
+ * the stat (stats_gp tells the model how much to trust them).
+ */
+export function aggregateSpecialTeams(games: TeamGameBox[]): SpecialTeamsAggregate {
+  let ppGoals = 0;
+  let ppOpps = 0;
+  let oppPpGoals = 0;
+  let oppPpOpps = 0;
+  let shotsFor = 0;
+  let shotsForGames = 0;
+  let shotsAgainst = 0;
+  let shotsAgainstGames = 0;
+  let statsGames = 0;
+
+  for (const g of games) {
+    const hasAny = g.own.shots_on_goal != null || g.own.pp_opportunities != null;
+    if (hasAny) statsGames++;
+
+    if (g.own.pp_goals != null && g.own.pp_opportunities != null) {
+      ppGoals += g.own.pp_goals;
+      ppOpps += g.own.pp_opportunities;
+    }
+    if (g.opp.pp_goals != null && g.opp.pp_opportunities != null) {
+      oppPpGoals += g.opp.pp_goals;
+      oppPpOpps += g.opp.pp_opportunities;
+    }
+    if (g.own.shots_on_goal != null) {
+      shotsFor += g.own.shots_on_goal;
+      shotsForGames++;
+    }
+    if (g.opp.shots_on_goal != null) {
+      shotsAgainst += g.opp.shots_on_goal;
+      shotsAgainstGames++;
+    }
+  }
+
+  const ppConv = ratio(ppGoals, ppOpps);
+  const pkConv = ratio(oppPpGoals, oppPpOpps);
+  const sogPg = ratio(shotsFor, shotsForGames);
+  const saPg = ratio(shotsAgainst, shotsAgainstGames);
+
+  // Team save% from shots faced and goals conceded in the same games
+  let faced = 0;
+  let conceded = 0;
+  for (const g of games) {
+    if (g.opp.shots_on_goal != null && g.opp.shots_on_goal > 0) {
+      faced += g.opp.shots_on_goal;
+      conceded += g.goals_against;
+    }
+  }
+
+  return {
+    stats_gp: statsGames,
+    pp_pct: ppConv != null ? round(ppConv * 100, 1) : 0,
+    pk_pct: pkConv != null ? round(100 - pkConv * 100, 1) : 0,
+    sog_pg: sogPg != null ? round(sogPg, 2) : 0,
+    sa_pg: saPg != null ? round(saPg, 2) : 0,
+    save_pct: faced > 0 ? round(1 - conceded / faced, 4) : null,
+  };
+}
+
+/** Save percentage over goalie lines (most recent last); null without shots */
+export function savePct(lines: Pick<GoalieLine, "shots_against" | "saves">[]): number | null {
+  let shots = 0;
+  let saves = 0;
+  for (const l of lines) {
+    if (l.shots_against == null || l.saves == null || l.shots_against <= 0) continue;
+    shots += l.shots_against;
+    saves += l.saves;
+  }
+  return shots > 0 ? round(saves / shots, 4) : null;
+}
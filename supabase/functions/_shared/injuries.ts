@@ -10,7 +10,7 @@
 // 6. Data synced automatically via cron job every 4 hours (sync-injuries-12h)
 // 7. Powers injury display in FixtureStatsDisplay, GeminiAnalysis, and RightRail components
 
-import { API_BASE, apiHeaders } from "./api.ts";
+import { getDataProvider } from "./provider_registry.ts";
 
 export interface PlayerInjury {
   player_id: number;
@@ -40,16 +40,14 @@ export async function fetchLeagueInjuries(
 ): Promise<PlayerInjury[]> {
   console.log(`[injuries] Fetching injuries for league ${leagueId}, season ${season}`);
   
-  const url = `${API_BASE}/injuries?league=${leagueId}&season=${season}`;
-  const res = await fetch(url, { headers: apiHeaders() });
+  const res = await getDataProvider().get<unknown[]>("football", `/injuries?league=${leagueId}&season=${season}`);
   
   if (!res.ok) {
     console.error(`[injuries] Failed to fetch injuries: HTTP ${res.status}`);
     return [];
   }
   
-  const json = await res.json();
-  const injuries = json?.response ?? [];
+  const injuries = res.body?.response ?? [];
   
   console.log(`[injuries] API-Football returned ${injuries.length} injuries for league ${leagueId}`);
   
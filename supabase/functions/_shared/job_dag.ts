@@ -0,0 +1,258 @@
+/**
+ * JOB DAG
+ *
+ * Declarative pipelines for pipeline-orchestrator. Each node is an existing
+ * edge function; a node starts only once every node it depends on has
+ * succeeded, so e.g. the optimizer never scores selections against stale odds
+ * or stats:
+ *
+ *   prematch    fixtures ─┬─ stats ─┬─ optimizer
+ *                         └─ odds  ─┘
+ *   settlement  results ── score-legs ── green-buckets
+ *
+ * A failed attempt is retried with exponential backoff up to maxAttempts;
+ * a node that exhausts its attempts (or fails with a non-retryable status) is
+ * dead-lettered and everything downstream of it is skipped.
+ *
+ * The orchestrator advances runs in ticks rather than sleeping through a whole
+ * pipeline, so the run state here is plain JSON (stored in pipeline_runs) and
+ * every function is pure — tested in src/test/job-dag.test.ts.
+ */
+
+export interface JobNode {
+  id: string;
+  /** Edge function invoked for this node */
+  fn: string;
+  body?: Record<string, unknown>;
+  dependsOn: string[];
+  maxAttempts: number;
+  /** Delay before the second attempt; doubles for each attempt after that */
+  backoffMs: number;
+  timeoutMs: number;
+}
+
+export interface PipelineDef {
+  name: string;
+  description: string;
+  nodes: JobNode[];
+}
+
+const MINUTE = 60_000;
+const MAX_BACKOFF_MS = 30 * MINUTE;
+
+function node(id: string, fn: string, dependsOn: string[], opts: Partial<JobNode> = {}): JobNode {
+  return { id, fn, dependsOn, maxAttempts: 3, backoffMs: MINUTE, timeoutMs: 5 * MINUTE, ...opts };
+}
+
+export const PIPELINES: Record<string, PipelineDef> = {
+  prematch: {
+    name: "prematch",
+    description: "Fixtures, then stats and odds, then the selection optimizer",
+    nodes: [
+      node("fixtures", "cron-fetch-fixtures", []),
+      node("stats", "stats-refresh", ["fixtures"], { timeoutMs: 6 * MINUTE }),
+      // The optimizer runs as its own node once stats are in too
+      node("odds", "cron-warmup-odds", ["fixtures"], { body: { skip_optimize: true } }),
+      node("optimizer", "optimize-selections-refresh", ["stats", "odds"]),
+    ],
+  },
+  settlement: {
+    name: "settlement",
+    description: "Results, then leg scoring, then the green buckets built from scored legs",
+    nodes: [
+      node("results", "results-refresh", []),
+      node("score-legs", "score-ticket-legs", ["results"], { backoffMs: 30_000 }),
+      node("green-buckets", "rebuild-green-buckets", ["score-legs"], { maxAttempts: 2 }),
+    ],
+  },
+};
+
+/** Problems that make a pipeline unrunnable: duplicate ids, unknown dependencies, cycles */
+export function validatePipeline(def: PipelineDef): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  for (const n of def.nodes) {
+    if (ids.has(n.id)) errors.push(`duplicate node "${n.id}"`);
+    ids.add(n.id);
+  }
+  for (const n of def.nodes) {
+    for (const dep of n.dependsOn) {
+      if (!ids.has(dep)) errors.push(`"${n.id}" depends on unknown node "${dep}"`);
+    }
+  }
+  if (errors.length === 0 && nodeLevels(def) === null) errors.push("dependency cycle");
+  return errors;
+}
+
+/** Depth of each node (0 = no dependencies), or null if the graph has a cycle */
+export function nodeLevels(def: PipelineDef): Record<string, number> | null {
+  const levels: Record<string, number> = {};
+  let remaining = def.nodes;
+  while (remaining.length > 0) {
+    const placed = remaining.filter((n) => n.dependsOn.every((dep) => dep in levels));
+    if (placed.length === 0) return null;
+    for (const n of placed) {
+      levels[n.id] = Math.max(-1, ...n.dependsOn.map((dep) => levels[dep])) + 1;
+    }
+    remaining = remaining.filter((n) => !placed.includes(n));
+  }
+  return levels;
+}
+
+// ============================================================================
+// Run state
+// ============================================================================
+
+export type NodeStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+export type RunStatus = "running" | "succeeded" | "failed";
+
+export interface NodeAttempt {
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  http_status: number | null;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface NodeState {
+  status: NodeStatus;
+  attempts: NodeAttempt[];
+  /** Earliest time a pending node may start (set by backoff) */
+  next_attempt_at: string | null;
+  /** Start of the latest attempt */
+  started_at: string | null;
+  finished_at: string | null;
+  /** True once the node has been recorded in pipeline_run_logs as a dead letter */
+  dead_lettered: boolean;
+}
+
+/** Graph snapshot stored with each run so the admin view can draw it */
+export interface GraphNode {
+  id: string;
+  fn: string;
+  depends_on: string[];
+  level: number;
+}
+
+export function runGraph(def: PipelineDef): GraphNode[] {
+  const levels = nodeLevels(def) ?? {};
+  return def.nodes.map((n) => ({ id: n.id, fn: n.fn, depends_on: n.dependsOn, level: levels[n.id] ?? 0 }));
+}
+
+export function initialState(def: PipelineDef): Record<string, NodeState> {
+  return Object.fromEntries(
+    def.nodes.map((n): [string, NodeState] => [
+      n.id,
+      { status: "pending", attempts: [], next_attempt_at: null, started_at: null, finished_at: null, dead_lettered: false },
+    ])
+  );
+}
+
+export interface TickPlan {
+  /** Pending nodes whose dependencies all succeeded and whose backoff has elapsed */
+  start: string[];
+  /** Pending nodes that can never run because a dependency failed or was skipped */
+  skip: string[];
+  /** Running nodes past their timeout (the tick that started them died) */
+  stale: string[];
+}
+
+export function planTick(def: PipelineDef, state: Record<string, NodeState>, now: Date): TickPlan {
+  const plan: TickPlan = { start: [], skip: [], stale: [] };
+  for (const n of def.nodes) {
+    const s = state[n.id];
+    if (s.status === "running") {
+      // Grace on top of the timeout so a tick still waiting on the node is not raced
+      if (s.started_at && now.getTime() - Date.parse(s.started_at) > n.timeoutMs + MINUTE) plan.stale.push(n.id);
+      continue;
+    }
+    if (s.status !== "pending") continue;
+    const deps = n.dependsOn.map((dep) => state[dep].status);
+    if (deps.some((d) => d === "failed" || d === "skipped")) {
+      plan.skip.push(n.id);
+    } else if (deps.every((d) => d === "succeeded")) {
+      if (!s.next_attempt_at || Date.parse(s.next_attempt_at) <= now.getTime()) plan.start.push(n.id);
+    }
+  }
+  return plan;
+}
+
+/** Delay before attempt number `attempt + 1`, after `attempt` failures */
+export function backoffDelay(n: JobNode, attempt: number): number {
+  return Math.min(n.backoffMs * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+export interface AttemptOutcome {
+  ok: boolean;
+  /** False for failures a retry cannot fix (auth, bad request, missing function) */
+  retryable: boolean;
+  error: string | null;
+}
+
+const NON_RETRYABLE_STATUSES = new Set([400, 401, 403, 404, 422]);
+const FAILED_BODY_STATUSES = new Set(["failed", "error", "skipped"]);
+
+/**
+ * Whether a job's response means it did its work. Several cron functions
+ * answer 200 on failure (or when their lock is held), so the body is checked
+ * for `ok: false`, `success: false`, a failed/skipped `status`, `skipped: true`
+ * or an `error`.
+ */
+export function jobOutcome(httpStatus: number, body: unknown): AttemptOutcome {
+  const b = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const bodyError = typeof b.error === "string" ? b.error : null;
+
+  if (httpStatus < 200 || httpStatus >= 300) {
+    return {
+      ok: false,
+      retryable: !NON_RETRYABLE_STATUSES.has(httpStatus),
+      error: `HTTP ${httpStatus}${bodyError ? `: ${bodyError}` : ""}`,
+    };
+  }
+  const reason = typeof b.reason === "string" ? b.reason : bodyError;
+  if (typeof b.status === "string" && FAILED_BODY_STATUSES.has(b.status)) {
+    return { ok: false, retryable: true, error: `${b.status}${reason ? `: ${reason}` : ""}` };
+  }
+  if (b.skipped === true) {
+    return { ok: false, retryable: true, error: `skipped${reason ? `: ${reason}` : ""}` };
+  }
+  if (b.ok === false || b.success === false || bodyError) {
+    return { ok: false, retryable: true, error: bodyError ?? "job reported failure" };
+  }
+  return { ok: true, retryable: false, error: null };
+}
+
+/**
+ * Record a finished attempt. Returns true when the node is now dead: it failed
+ * and either the failure is not retryable or it has no attempts left.
+ */
+export function recordAttempt(
+  n: JobNode,
+  s: NodeState,
+  attempt: NodeAttempt,
+  retryable: boolean
+): boolean {
+  s.attempts.push(attempt);
+  if (attempt.ok) {
+    s.status = "succeeded";
+    s.finished_at = attempt.finished_at;
+    s.next_attempt_at = null;
+    return false;
+  }
+  if (retryable && s.attempts.length < n.maxAttempts) {
+    s.status = "pending";
+    s.next_attempt_at = new Date(Date.parse(attempt.finished_at) + backoffDelay(n, s.attempts.length)).toISOString();
+    return false;
+  }
+  s.status = "failed";
+  s.finished_at = attempt.finished_at;
+  s.next_attempt_at = null;
+  return true;
+}
+
+export function runStatus(state: Record<string, NodeState>): RunStatus {
+  const statuses = Object.values(state).map((s) => s.status);
+  if (statuses.some((st) => st === "pending" || st === "running")) return "running";
+  return statuses.every((st) => st === "succeeded") ? "succeeded" : "failed";
+}
@@ -0,0 +1,53 @@
+/**
+ * BET JOURNAL SETTLEMENT
+ *
+ * Shared by score-ticket-legs (football), hockey-sync-results and
+ * basketball-sync-results: once a run has scored journal legs, each affected
+ * bet is re-settled from all of its legs with settleJournalBet
+ * (_shared/leg_scoring.ts). Bets with a leg still pending are left alone.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { settleJournalBet, type JournalLegResult } from "./leg_scoring.ts";
+
+/** Settle the given pending bets whose legs are all scored; returns how many were settled */
+export async function settleJournalBets(
+  supabase: SupabaseClient,
+  betIds: Iterable<string>,
+  errors: string[]
+): Promise<number> {
+  let settled = 0;
+  for (const betId of betIds) {
+    const { data: bet, error: betErr } = await supabase
+      .from("bet_journal")
+      .select("stake, odds_taken, status, bet_journal_legs(result_status, odds)")
+      .eq("id", betId)
+      .single();
+
+    if (betErr || !bet) {
+      errors.push(`Journal bet ${betId}: ${betErr?.message ?? "not found"}`);
+      continue;
+    }
+    if (bet.status !== "PENDING") continue;
+
+    const settlement = settleJournalBet(
+      Number(bet.stake),
+      Number(bet.odds_taken),
+      (bet.bet_journal_legs ?? []) as JournalLegResult[]
+    );
+    if (settlement.status === "PENDING") continue;
+
+    const { error: settleErr } = await supabase
+      .from("bet_journal")
+      .update({ ...settlement, settled_at: new Date().toISOString() })
+      .eq("id", betId)
+      .eq("status", "PENDING");
+
+    if (settleErr) {
+      errors.push(`Journal bet ${betId}: ${settleErr.message}`);
+      continue;
+    }
+    settled++;
+  }
+  return settled;
+}
@@ -0,0 +1,126 @@
+/**
+ * LEG SCORING
+ *
+ * Deterministic settlement of over/under legs from fixture_results, shared by
+ * score-ticket-legs for generated tickets (ticket_leg_outcomes) and the user
+ * bet journal (bet_journal_legs).
+ *
+ * Pure module — no Supabase imports.
+ */
+
+export type LegResult = "WIN" | "LOSS" | "PUSH" | "VOID" | "PENDING" | "UNKNOWN";
+export type TicketStatus = "PENDING" | "WON" | "LOST" | "VOID" | "PARTIAL";
+
+/** fixture_results totals as returned by the scorable-legs RPCs */
+export interface FixtureTotals {
+  goals_home: number;
+  goals_away: number;
+  corners_home: number | null;
+  corners_away: number | null;
+  cards_home: number | null;
+  cards_away: number | null;
+  fouls_home?: number | null;
+  fouls_away?: number | null;
+  offsides_home?: number | null;
+  offsides_away?: number | null;
+}
+
+const sum = (a: number | null | undefined, b: number | null | undefined) =>
+  a == null || b == null ? null : a + b;
+
+/** Match total for a market, or null when it cannot be scored (missing stats, team markets) */
+export function legActualValue(market: string, r: FixtureTotals): number | null {
+  switch (market.toLowerCase()) {
+    case "goals":
+    case "total_goals":
+    case "over_under":
+      return r.goals_home + r.goals_away;
+    case "corners":
+    case "total_corners":
+      return sum(r.corners_home, r.corners_away);
+    case "cards":
+    case "total_cards":
+      return sum(r.cards_home, r.cards_away);
+    case "fouls":
+      return sum(r.fouls_home, r.fouls_away);
+    case "offsides":
+      return sum(r.offsides_home, r.offsides_away);
+    default:
+      // team_goals / team_total need home/away context
+      return null;
+  }
+}
+
+/** WIN/LOSS/PUSH for an over/under leg, or null for an unknown side */
+export function scoreOverUnder(side: string, line: number, actual: number): "WIN" | "LOSS" | "PUSH" | null {
+  const s = side.toLowerCase();
+  if (s !== "over" && s !== "under") return null;
+  if (actual === line) return "PUSH";
+  return (s === "over") === (actual > line) ? "WIN" : "LOSS";
+}
+
+export interface LegTally {
+  total: number;
+  settled: number;
+  won: number;
+  lost: number;
+  pushed: number;
+  void: number;
+  pending: number;
+}
+
+export function tallyLegs(statuses: string[]): LegTally {
+  const t: LegTally = { total: statuses.length, settled: 0, won: 0, lost: 0, pushed: 0, void: 0, pending: 0 };
+  for (const s of statuses) {
+    switch (s) {
+      case "WIN": t.won++; break;
+      case "LOSS": t.lost++; break;
+      case "PUSH": t.pushed++; break;
+      case "VOID": t.void++; break;
+      default: t.pending++; break;
+    }
+  }
+  t.settled = t.won + t.lost + t.pushed + t.void;
+  return t;
+}
+
+/** Ticket status from its legs: any loss loses, all void is void, all settled otherwise wins */
+export function ticketStatusFromTally(t: LegTally): TicketStatus {
+  if (t.lost > 0) return "LOST";
+  if (t.settled === t.total && t.void === t.total) return "VOID";
+  if (t.settled === t.total) return "WON";
+  if (t.settled > 0) return "PARTIAL";
+  return "PENDING";
+}
+
+export interface JournalLegResult {
+  result_status: string;
+  odds: number | null;
+}
+
+export interface JournalSettlement {
+  status: "PENDING" | "WON" | "LOST" | "VOID";
+  payout: number | null;
+  profit: number | null;
+}
+
+/**
+ * Settle a placed accumulator. Pushed/void legs are removed from the price:
+ * the odds taken are divided by those legs' odds (when known), as bookmakers
+ * re-price an accumulator with a void leg at 1.00.
+ */
+export function settleJournalBet(stake: number, oddsTaken: number, legs: JournalLegResult[]): JournalSettlement {
+  const status = ticketStatusFromTally(tallyLegs(legs.map((l) => l.result_status)));
+  if (status === "LOST") return { status, payout: 0, profit: -stake };
+  if (status === "VOID") return { status, payout: stake, profit: 0 };
+  if (status !== "WON") return { status: "PENDING", payout: null, profit: null };
+
+  let effectiveOdds = oddsTaken;
+  for (const l of legs) {
+    if ((l.result_status === "PUSH" || l.result_status === "VOID") && l.odds && l.odds > 1) {
+      effectiveOdds /= l.odds;
+    }
+  }
+  const payout = Math.round(stake * Math.max(1, effectiveOdds) * 100) / 100;
+  return { status, payout, profit: Math.round((payout - stake) * 100) / 100 };
+}
@@ -0,0 +1,264 @@
+// =============================================================================
+// In-play adjustment of the stat models
+// =============================================================================
+// A totals market settles on the full-time count, so once a match is under way
+//
+//   final = count so far + count over the remaining minutes
+//
+// The remaining count keeps the pre-match shape, with each team's λ scaled by
+// the share of the match left and by red cards (a side down to ten men
+// produces less and concedes more). Negative binomial sums scale the size by
+// the same fraction, so the dispersion per minute is unchanged.
+//
+// Live state comes from live_fixture_states, written by live-fixtures-poll.
+
+import type { StatMarket } from "./rules.ts";
+import { type CountDistribution, probabilityOf } from "./probability.ts";
+import type { MarketModel, MatchModel } from "./stat_model.ts";
+
+// API-Football short statuses during regulation time. Totals settle at 90',
+// so extra time and penalties are not in-play for our markets.
+export const IN_PLAY_STATUSES = ["1H", "HT", "2H"];
+
+// Short statuses for a finished or abandoned match
+export const FINISHED_STATUSES = ["FT", "AET", "PEN", "ABD", "AWD", "WO", "CANC", "PST"];
+
+const HALF_MINUTES = 45;
+const HALF_STOPPAGE = 3; // typical added time per half
+const MATCH_MINUTES = 2 * (HALF_MINUTES + HALF_STOPPAGE);
+const MIN_REMAINING_MINUTES = 1;
+
+// Per red card: multiplier on the penalised side's λ and on its opponent's
+export const RED_CARD_EFFECT: Partial<Record<StatMarket, { for: number; against: number }>> = {
+  goals: { for: 0.75, against: 1.2 },
+  corners: { for: 0.8, against: 1.15 },
+};
+
+// Probabilities this close to 0 or 1 mean the selection is already decided
+export const LIVE_SETTLED_EPSILON = 0.001;
+
+export interface LiveFixtureState {
+  fixture_id: number;
+  league_id: number | null;
+  status: string;
+  elapsed: number;
+  goals_home: number;
+  goals_away: number;
+  red_cards_home: number;
+  red_cards_away: number;
+  /** Side that scored first; null before the first goal or when the feed cannot tell */
+  first_goal_team: "home" | "away" | null;
+  corners_home: number | null;
+  corners_away: number | null;
+  cards_home: number | null;
+  cards_away: number | null;
+  fouls_home: number | null;
+  fouls_away: number | null;
+  offsides_home: number | null;
+  offsides_away: number | null;
+  stats_fetched_at: string | null;
+  updated_at: string;
+}
+
+export interface LiveMarketModel {
+  market: StatMarket;
+  current: number;
+  remainingFraction: number;
+  remaining: CountDistribution;
+}
+
+export interface LivePickScore {
+  live_prob: number;
+  current: number;
+  settled: boolean;
+}
+
+/** The /fixtures item fields read here (live=all or ids=…) */
+export interface ApiLiveFixture {
+  fixture?: { id?: number; status?: { short?: string; elapsed?: number | null } };
+  league?: { id?: number };
+  teams?: { home?: { id?: number }; away?: { id?: number } };
+  goals?: { home?: number | null; away?: number | null };
+  events?: Array<{
+    type?: string;
+    detail?: string;
+    team?: { id?: number };
+    time?: { elapsed?: number | null; extra?: number | null };
+  }>;
+}
+
+type ApiStat = { type?: string; value?: number | string | null };
+
+/** One team's entry in a /fixtures/statistics response */
+export interface ApiTeamStatistics {
+  team?: { id?: number };
+  statistics?: ApiStat[];
+}
+
+type StatCounts = Pick<
+  LiveFixtureState,
+  | "corners_home" | "corners_away" | "cards_home" | "cards_away"
+  | "fouls_home" | "fouls_away" | "offsides_home" | "offsides_away"
+>;
+
+export const isInPlay = (status: string) => IN_PLAY_STATUSES.includes(status);
+
+/** Numeric value of a stat type, null when not reported */
+function statValue(statistics: ApiStat[], type: string): number | null {
+  const row = statistics.find((s) => (s?.type || "").toLowerCase() === type.toLowerCase());
+  const v = typeof row?.value === "number" ? row.value : parseFloat(String(row?.value ?? ""));
+  return Number.isFinite(v) ? v : null;
+}
+
+function teamCounts(statistics: ApiStat[] | undefined) {
+  if (!statistics) return { corners: null, cards: null, fouls: null, offsides: null };
+  const yellow = statValue(statistics, "Yellow Cards");
+  const red = statValue(statistics, "Red Cards");
+  return {
+    corners: statValue(statistics, "Corner Kicks") ?? statValue(statistics, "Corners"),
+    // Cards: yellow + red, as in the settled results
+    cards: yellow !== null || red !== null ? (yellow ?? 0) + (red ?? 0) : null,
+    fouls: statValue(statistics, "Fouls"),
+    offsides: statValue(statistics, "Offsides"),
+  };
+}
+
+/**
+ * Per-team stat counts from a /fixtures/statistics response.
+ * Teams missing from the response leave their counts null.
+ */
+export function parseLiveStatistics(
+  response: ApiTeamStatistics[],
+  homeTeamId: number,
+  awayTeamId: number
+): StatCounts {
+  const forTeam = (teamId: number) => response.find((r) => Number(r?.team?.id) === teamId)?.statistics;
+  const home = teamCounts(forTeam(homeTeamId));
+  const away = teamCounts(forTeam(awayTeamId));
+  return {
+    corners_home: home.corners,
+    corners_away: away.corners,
+    cards_home: home.cards,
+    cards_away: away.cards,
+    fouls_home: home.fouls,
+    fouls_away: away.fouls,
+    offsides_home: home.offsides,
+    offsides_away: away.offsides,
+  };
+}
+
+/**
+ * Side that scored first. A one-sided score settles it without events;
+ * otherwise the earliest goal event decides. Own goals are left undecided
+ * (null) because the feed's team on those events is not reliable.
+ */
+export function firstGoalTeam(item: ApiLiveFixture): "home" | "away" | null {
+  const home = Number(item?.goals?.home) || 0;
+  const away = Number(item?.goals?.away) || 0;
+  if (home + away === 0) return null;
+  if (away === 0) return "home";
+  if (home === 0) return "away";
+
+  const minute = (e: NonNullable<ApiLiveFixture["events"]>[number]) =>
+    (Number(e?.time?.elapsed) || 0) + (Number(e?.time?.extra) || 0) / 100;
+  const goals = (item?.events ?? [])
+    .filter((e) => e?.type === "Goal" && String(e?.detail ?? "").toLowerCase() !== "missed penalty")
+    .sort((a, b) => minute(a) - minute(b));
+  const first = goals[0];
+  if (!first || String(first.detail ?? "").toLowerCase() === "own goal") return null;
+  return Number(first.team?.id) === Number(item?.teams?.home?.id) ? "home" : "away";
+}
+
+/**
+ * Live state from a /fixtures item (live=all or ids=…). Red cards come from
+ * the event feed; stat counts are merged in separately by the poller.
+ */
+export function parseLiveFixture(
+  item: ApiLiveFixture,
+  leagueId: number | null,
+  updatedAt: string
+): Omit<LiveFixtureState, keyof StatCounts | "stats_fetched_at"> {
+  const homeId = Number(item?.teams?.home?.id);
+  const reds = { home: 0, away: 0 };
+  for (const e of item?.events ?? []) {
+    if (e?.type !== "Card") continue;
+    const detail = String(e?.detail ?? "").toLowerCase();
+    if (detail !== "red card" && detail !== "second yellow card") continue;
+    if (Number(e?.team?.id) === homeId) reds.home++;
+    else reds.away++;
+  }
+  return {
+    fixture_id: Number(item?.fixture?.id),
+    league_id: leagueId,
+    status: String(item?.fixture?.status?.short ?? ""),
+    elapsed: Number(item?.fixture?.status?.elapsed) || 0,
+    goals_home: Number(item?.goals?.home) || 0,
+    goals_away: Number(item?.goals?.away) || 0,
+    red_cards_home: reds.home,
+    red_cards_away: reds.away,
+    first_goal_team: firstGoalTeam(item),
+    updated_at: updatedAt,
+  };
+}
+
+/** Count so far for a market, null when the stat is not reported */
+export function liveCount(state: LiveFixtureState, market: StatMarket): number | null {
+  if (market === "goals") return state.goals_home + state.goals_away;
+  const home = state[`${market}_home`];
+  const away = state[`${market}_away`];
+  return home == null || away == null ? null : home + away;
+}
+
+/** Share of the match still to play, stoppage time included */
+export function remainingFraction(state: Pick<LiveFixtureState, "status" | "elapsed">): number {
+  let played: number;
+  if (state.status === "HT") played = HALF_MINUTES + HALF_STOPPAGE;
+  else if (state.status === "2H") played = Math.max(state.elapsed, HALF_MINUTES) + HALF_STOPPAGE;
+  else played = state.elapsed;
+  return Math.max(MIN_REMAINING_MINUTES, MATCH_MINUTES - played) / MATCH_MINUTES;
+}
+
+/** Remaining-time distribution for one market, or null when the count so far is unknown */
+export function inPlayMarketModel(model: MarketModel, state: LiveFixtureState): LiveMarketModel | null {
+  const current = liveCount(state, model.market);
+  if (current == null) return null;
+
+  const fraction = remainingFraction(state);
+  const effect = RED_CARD_EFFECT[model.market];
+  const homeFactor = effect ? effect.for ** state.red_cards_home * effect.against ** state.red_cards_away : 1;
+  const awayFactor = effect ? effect.for ** state.red_cards_away * effect.against ** state.red_cards_home : 1;
+  const size = model.distribution.size;
+
+  return {
+    market: model.market,
+    current,
+    remainingFraction: fraction,
+    remaining: {
+      mean: (model.lambdaHome * homeFactor + model.lambdaAway * awayFactor) * fraction,
+      size: size == null ? null : size * fraction,
+    },
+  };
+}
+
+/** P(side line) on the full-time total given the count so far */
+export function liveProbability(live: LiveMarketModel, side: "over" | "under", line: number): number {
+  return probabilityOf(live.remaining, side, line - live.current);
+}
+
+/** Score a selection against the live state, null when the market is not modelled live */
+export function scoreLivePick(
+  model: MatchModel,
+  state: LiveFixtureState,
+  pick: { market: string; side: string; line: number }
+): LivePickScore | null {
+  const marketModel = model[pick.market as StatMarket];
+  if (!marketModel || (pick.side !== "over" && pick.side !== "under")) return null;
+  const live = inPlayMarketModel(marketModel, state);
+  if (!live) return null;
+  const prob = liveProbability(live, pick.side, Number(pick.line));
+  return {
+    live_prob: prob,
+    current: live.current,
+    settled: prob <= LIVE_SETTLED_EPSILON || prob >= 1 - LIVE_SETTLED_EPSILON,
+  };
+}
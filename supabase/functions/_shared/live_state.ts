@@ -0,0 +1,91 @@
+// Loader for in-play contexts: the fresh live_fixture_states rows plus each
+// fixture's pre-match stat model, ready for scoreLivePick(). Load once per
+// request for all candidate fixtures.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { LIVE_TTL_MINUTES } from "./config.ts";
+import { IN_PLAY_STATUSES, type LiveFixtureState } from "./live_model.ts";
+import { loadMatchModelInputs, modelForFixture } from "./match_model.ts";
+import type { MatchModel } from "./stat_model.ts";
+
+export interface LiveContext {
+  state: LiveFixtureState;
+  model: MatchModel;
+}
+
+const toNumberOrNull = (v: unknown) => (v == null ? null : Number(v));
+
+/**
+ * In-play fixtures among `fixtureIds` whose live state was polled within
+ * `maxAgeMinutes`, keyed by fixture id. Fixtures with stale or no state are
+ * left out so callers never rank on an old score.
+ */
+export async function loadLiveContexts(
+  supabase: SupabaseClient,
+  fixtureIds: number[],
+  maxAgeMinutes = LIVE_TTL_MINUTES
+): Promise<Map<number, LiveContext>> {
+  const out = new Map<number, LiveContext>();
+  const ids = [...new Set(fixtureIds)];
+  if (ids.length === 0) return out;
+
+  const freshAfter = new Date(Date.now() - maxAgeMinutes * 60 * 1000).toISOString();
+  const { data: states, error } = await supabase
+    .from("live_fixture_states")
+    .select("*")
+    .in("fixture_id", ids)
+    .in("status", IN_PLAY_STATUSES)
+    .gte("updated_at", freshAfter);
+
+  if (error) {
+    console.error("[live_state] live_fixture_states load failed:", error.message);
+    return out;
+  }
+  if (!states || states.length === 0) return out;
+
+  const { data: fixtures, error: fixturesError } = await supabase
+    .from("fixtures")
+    .select("id, league_id, teams_home, teams_away")
+    .in("id", states.map((s) => s.fixture_id));
+
+  if (fixturesError) {
+    console.error("[live_state] fixtures load failed:", fixturesError.message);
+    return out;
+  }
+
+  const teams = (fixtures ?? []).map((f) => ({
+    id: f.id as number,
+    league_id: f.league_id as number | null,
+    home_team_id: Number((f.teams_home as { id?: number } | null)?.id),
+    away_team_id: Number((f.teams_away as { id?: number } | null)?.id),
+  }));
+  const inputs = await loadMatchModelInputs(
+    supabase,
+    teams.flatMap((t) => [t.home_team_id, t.away_team_id]),
+    teams.flatMap((t) => (t.league_id != null ? [t.league_id] : []))
+  );
+  const teamsById = new Map(teams.map((t) => [t.id, t]));
+
+  for (const s of states) {
+    const fixture = teamsById.get(s.fixture_id);
+    if (!fixture) continue;
+    out.set(s.fixture_id, {
+      state: {
+        ...s,
+        elapsed: Number(s.elapsed),
+        corners_home: toNumberOrNull(s.corners_home),
+        corners_away: toNumberOrNull(s.corners_away),
+        cards_home: toNumberOrNull(s.cards_home),
+        cards_away: toNumberOrNull(s.cards_away),
+        fouls_home: toNumberOrNull(s.fouls_home),
+        fouls_away: toNumberOrNull(s.fouls_away),
+        offsides_home: toNumberOrNull(s.offsides_home),
+        offsides_away: toNumberOrNull(s.offsides_away),
+      },
+      model: modelForFixture(inputs, fixture),
+    });
+  }
+
+  console.log(`[live_state] ${out.size}/${ids.length} fixtures in play with fresh state`);
+  return out;
+}
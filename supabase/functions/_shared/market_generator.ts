@@ -0,0 +1,165 @@
+/**
+ * MARKET GENERATOR PRICING
+ *
+ * Opening prices for the binary fixture markets that market-generator creates
+ * from market_generator_configs. The rules are the ones
+ * admin_create_market_for_fixture / generate_fixture_market accept.
+ *
+ * Price sources:
+ *   model        our stat model (match_model.ts). Goals and corners lines come
+ *                from the market's count distribution; 1X2 and BTTS from
+ *                independent Poisson goals with the model's team lambdas.
+ *   best_prices  best_outcome_prices (best home/away 1X2 odds across books).
+ *                Only covers home_win / away_win / draw (draw is what is left
+ *                after the two sides); every other rule falls back to the model.
+ *
+ * A rule with no probability from either source is skipped, never seeded at
+ * a placeholder price. Pure module — tested in src/test/market-generator.test.ts.
+ */
+
+import { poissonPMF } from "./probability.ts";
+import { marketProbability, type MatchModel } from "./stat_model.ts";
+
+export const GENERATOR_RULES = [
+  "over_0.5_goals",
+  "over_1.5_goals",
+  "over_2.5_goals",
+  "under_2.5_goals",
+  "btts",
+  "over_8.5_corners",
+  "under_9.5_corners",
+  "home_win",
+  "away_win",
+  "draw",
+] as const;
+
+export type GeneratorRule = typeof GENERATOR_RULES[number];
+
+export type PriceSource = "model" | "best_prices";
+
+/** One row of best_outcome_prices (market_type '1x2') */
+export interface BestPrice {
+  outcome: string;
+  odds: number;
+}
+
+export interface SeededPrice {
+  rule: GeneratorRule;
+  probability: number;
+  source: PriceSource;
+  odds_yes: number;
+  odds_no: number;
+}
+
+// Overround on the seeded odds (split over YES and NO)
+export const SEED_MARGIN = 1.05;
+// Seeded YES probability is kept inside this band so neither side opens at 1.01
+const MIN_PROBABILITY = 0.08;
+const MAX_PROBABILITY = 0.92;
+// Best-price draw remainders below this are treated as bad data
+const MIN_DRAW_REMAINDER = 0.05;
+const MAX_GOALS = 10;
+
+export const isGeneratorRule = (rule: string | null | undefined): rule is GeneratorRule =>
+  (GENERATOR_RULES as readonly string[]).includes(rule ?? "");
+
+/** P(home win), P(draw), P(away win) from independent Poisson goals */
+export function matchResultProbabilities(lambdaHome: number, lambdaAway: number) {
+  let home = 0;
+  let draw = 0;
+  for (let h = 0; h <= MAX_GOALS; h++) {
+    for (let a = 0; a <= MAX_GOALS; a++) {
+      const p = poissonPMF(lambdaHome, h) * poissonPMF(lambdaAway, a);
+      if (h > a) home += p;
+      else if (h === a) draw += p;
+    }
+  }
+  return { home, draw, away: Math.max(0, 1 - home - draw) };
+}
+
+/** Model probability that the rule settles YES, or null when the market is not modelled */
+export function modelProbability(rule: GeneratorRule, model: MatchModel): number | null {
+  const goals = model.goals;
+  const corners = model.corners;
+
+  switch (rule) {
+    case "over_0.5_goals":
+      return goals ? marketProbability(goals, "over", 0.5) : null;
+    case "over_1.5_goals":
+      return goals ? marketProbability(goals, "over", 1.5) : null;
+    case "over_2.5_goals":
+      return goals ? marketProbability(goals, "over", 2.5) : null;
+    case "under_2.5_goals":
+      return goals ? marketProbability(goals, "under", 2.5) : null;
+    case "btts":
+      return goals ? (1 - Math.exp(-goals.lambdaHome)) * (1 - Math.exp(-goals.lambdaAway)) : null;
+    case "over_8.5_corners":
+      return corners ? marketProbability(corners, "over", 8.5) : null;
+    case "under_9.5_corners":
+      return corners ? marketProbability(corners, "under", 9.5) : null;
+    case "home_win":
+    case "away_win":
+    case "draw": {
+      if (!goals) return null;
+      const result = matchResultProbabilities(goals.lambdaHome, goals.lambdaAway);
+      return rule === "home_win" ? result.home : rule === "away_win" ? result.away : result.draw;
+    }
+  }
+}
+
+/** Implied probability from the best 1X2 prices, or null when not covered */
+export function bestPriceProbability(rule: GeneratorRule, prices: BestPrice[]): number | null {
+  const implied = (outcome: string) => {
+    const odds = prices.find((p) => p.outcome === outcome)?.odds;
+    return odds && odds > 1 ? 1 / odds : null;
+  };
+  const home = implied("home");
+  const away = implied("away");
+
+  switch (rule) {
+    case "home_win":
+      return home;
+    case "away_win":
+      return away;
+    case "draw": {
+      if (home == null || away == null) return null;
+      const remainder = 1 - home - away;
+      return remainder >= MIN_DRAW_REMAINDER ? remainder : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** YES/NO decimal odds for a probability, with the margin, on the DECIMAL(5,2) grid */
+export function seedOdds(probability: number): { odds_yes: number; odds_no: number } {
+  const p = Math.min(MAX_PROBABILITY, Math.max(MIN_PROBABILITY, probability));
+  const odds = (q: number) => Math.min(999.99, Math.max(1.01, Math.round((1 / (q * SEED_MARGIN)) * 100) / 100));
+  return { odds_yes: odds(p), odds_no: odds(1 - p) };
+}
+
+/**
+ * Opening prices for a fixture's rules. Rules that cannot be priced are
+ * returned in `unpriced` so the run summary can report them.
+ */
+export function seedFixturePrices(
+  rules: GeneratorRule[],
+  source: PriceSource,
+  model: MatchModel,
+  bestPrices: BestPrice[] = []
+): { priced: SeededPrice[]; unpriced: GeneratorRule[] } {
+  const priced: SeededPrice[] = [];
+  const unpriced: GeneratorRule[] = [];
+
+  for (const rule of rules) {
+    const fromBest = source === "best_prices" ? bestPriceProbability(rule, bestPrices) : null;
+    const probability = fromBest ?? modelProbability(rule, model);
+    if (probability == null || !Number.isFinite(probability) || probability <= 0 || probability >= 1) {
+      unpriced.push(rule);
+      continue;
+    }
+    priced.push({ rule, probability, source: fromBest != null ? "best_prices" : "model", ...seedOdds(probability) });
+  }
+
+  return { priced, unpriced };
+}
@@ -0,0 +1,99 @@
+/**
+ * MULTI-OUTCOME MARKET RESOLUTION
+ *
+ * Settles N-way prediction markets (market_type = 'multi') from the full-time
+ * result. Each market has one resolution_rule and a set of market_outcomes:
+ *
+ *   match_result         home / draw / away
+ *   correct_score        "h-a" keys, plus an optional "other" catch-all
+ *   first_goal_team      home / away / none
+ *   total_goals_range    range buckets on goals (range_min..range_max, inclusive)
+ *   total_corners_range  range buckets on corners
+ *   total_cards_range    range buckets on cards
+ *
+ * A null result means the market cannot be settled automatically yet (stat
+ * not reported, no bucket covers the value) and is left for an admin.
+ *
+ * Pure module — used by market-auto-resolve. Outcome sets are built by
+ * src/lib/marketOutcomes.ts and validated by admin_create_multi_market_for_fixture.
+ */
+
+export const MULTI_RESOLUTION_RULES = [
+  "match_result",
+  "correct_score",
+  "first_goal_team",
+  "total_goals_range",
+  "total_corners_range",
+  "total_cards_range",
+] as const;
+
+export type MultiResolutionRule = typeof MULTI_RESOLUTION_RULES[number];
+
+export interface OutcomeBucket {
+  outcome: string;
+  range_min: number | null;
+  range_max: number | null;
+}
+
+export interface SettledFixture {
+  goals_home: number;
+  goals_away: number;
+  corners_home: number | null;
+  corners_away: number | null;
+  cards_home: number | null;
+  cards_away: number | null;
+  /** Side that scored first, from live_fixture_states; null when not recorded */
+  first_goal_team: "home" | "away" | null;
+}
+
+export const isMultiResolutionRule = (rule: string | null | undefined): rule is MultiResolutionRule =>
+  (MULTI_RESOLUTION_RULES as readonly string[]).includes(rule ?? "");
+
+const sum = (a: number | null, b: number | null) => (a == null || b == null ? null : a + b);
+
+/** Bucket whose inclusive range holds the value (null bounds are open) */
+function bucketFor(outcomes: OutcomeBucket[], value: number | null): string | null {
+  if (value == null) return null;
+  const hit = outcomes.find(
+    (o) => (o.range_min == null || value >= o.range_min) && (o.range_max == null || value <= o.range_max)
+  );
+  return hit?.outcome ?? null;
+}
+
+/**
+ * Winning outcome key for a finished fixture, or null when it cannot be
+ * decided from the data we have.
+ */
+export function resolveMultiOutcome(
+  rule: MultiResolutionRule,
+  outcomes: OutcomeBucket[],
+  result: SettledFixture
+): string | null {
+  const keys = new Set(outcomes.map((o) => o.outcome));
+  const pick = (key: string) => (keys.has(key) ? key : null);
+  const { goals_home: home, goals_away: away } = result;
+
+  switch (rule) {
+    case "match_result":
+      return pick(home > away ? "home" : home < away ? "away" : "draw");
+
+    case "correct_score":
+      return pick(`${home}-${away}`) ?? pick("other");
+
+    case "first_goal_team":
+      if (home + away === 0) return pick("none");
+      // Only one side scored: no event data needed
+      if (away === 0) return pick("home");
+      if (home === 0) return pick("away");
+      return result.first_goal_team ? pick(result.first_goal_team) : null;
+
+    case "total_goals_range":
+      return bucketFor(outcomes, home + away);
+
+    case "total_corners_range":
+      return bucketFor(outcomes, sum(result.corners_home, result.corners_away));
+
+    case "total_cards_range":
+      return bucketFor(outcomes, sum(result.cards_home, result.cards_away));
+  }
+}
@@ -0,0 +1,132 @@
+// Batch loader for the stat model inputs (team venue rates, league baselines,
+// last-5 fallbacks). Load once per request for all fixtures, then build each
+// fixture's model synchronously with modelForFixture().
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { StatMarket } from "./rules.ts";
+import {
+  buildMatchModel,
+  STAT_MARKETS,
+  type LastFiveAverages,
+  type LeagueBaseline,
+  type MatchModel,
+  type TeamVenueRates,
+} from "./stat_model.ts";
+
+const IN_CHUNK = 200;
+
+export interface MatchModelInputs {
+  teamRates: Map<string, TeamVenueRates>; // key: `${team_id}:${venue}`
+  baselines: Map<number, LeagueBaseline>;
+  last5: Map<number, LastFiveAverages>;
+}
+
+interface RateRow {
+  team_id: number;
+  venue: "home" | "away";
+  metric: string;
+  for_avg: number;
+  against_avg: number;
+  matches: number;
+}
+
+interface BaselineRow {
+  league_id: number;
+  metric: string;
+  home_avg: number;
+  away_avg: number;
+  matches: number;
+}
+
+interface Last5Row extends LastFiveAverages {
+  team_id: number;
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += IN_CHUNK) out.push(items.slice(i, i + IN_CHUNK));
+  return out;
+}
+
+const isStatMarket = (m: string): m is StatMarket => (STAT_MARKETS as string[]).includes(m);
+
+export async function loadMatchModelInputs(
+  supabase: SupabaseClient,
+  teamIds: number[],
+  leagueIds: number[]
+): Promise<MatchModelInputs> {
+  const inputs: MatchModelInputs = { teamRates: new Map(), baselines: new Map(), last5: new Map() };
+  const teams = [...new Set(teamIds.filter((id) => Number.isFinite(id) && id > 0))];
+  const leagues = [...new Set(leagueIds.filter((id) => Number.isFinite(id)))];
+
+  for (const ids of chunk(teams)) {
+    const [ratesRes, last5Res] = await Promise.all([
+      supabase
+        .from("team_stat_rates")
+        .select("team_id, venue, metric, for_avg, against_avg, matches")
+        .in("team_id", ids),
+      supabase
+        .from("stats_cache")
+        .select("team_id, goals, corners, cards, fouls, offsides, sample_size")
+        .in("team_id", ids),
+    ]);
+
+    if (ratesRes.error) {
+      console.error("[match_model] team_stat_rates load failed:", ratesRes.error.message);
+    }
+    for (const r of (ratesRes.data ?? []) as RateRow[]) {
+      if (!isStatMarket(r.metric)) continue;
+      const key = `${r.team_id}:${r.venue}`;
+      let entry = inputs.teamRates.get(key);
+      if (!entry) {
+        entry = { team_id: r.team_id, venue: r.venue, rates: {} };
+        inputs.teamRates.set(key, entry);
+      }
+      entry.rates[r.metric] = { for: Number(r.for_avg), against: Number(r.against_avg), n: r.matches };
+    }
+
+    for (const r of (last5Res.data ?? []) as Last5Row[]) {
+      inputs.last5.set(r.team_id, r);
+    }
+  }
+
+  if (leagues.length > 0) {
+    const { data, error } = await supabase
+      .from("league_stat_baselines")
+      .select("league_id, metric, home_avg, away_avg, matches")
+      .in("league_id", leagues);
+
+    if (error) {
+      console.error("[match_model] league_stat_baselines load failed:", error.message);
+    }
+    for (const r of (data ?? []) as BaselineRow[]) {
+      if (!isStatMarket(r.metric)) continue;
+      let entry = inputs.baselines.get(r.league_id);
+      if (!entry) {
+        entry = { league_id: r.league_id, rates: {} };
+        inputs.baselines.set(r.league_id, entry);
+      }
+      entry.rates[r.metric] = { home: Number(r.home_avg), away: Number(r.away_avg), n: r.matches };
+    }
+  }
+
+  console.log(`[match_model] Loaded rates for ${inputs.teamRates.size} team-venues, ${inputs.last5.size} last-5 rows, ${inputs.baselines.size} league baselines`);
+  return inputs;
+}
+
+export function modelForFixture(
+  inputs: MatchModelInputs,
+  fixture: { home_team_id: number; away_team_id: number; league_id: number | null },
+  markets?: StatMarket[]
+): MatchModel {
+  return buildMatchModel(
+    {
+      homeRates: inputs.teamRates.get(`${fixture.home_team_id}:home`),
+      awayRates: inputs.teamRates.get(`${fixture.away_team_id}:away`),
+      league: fixture.league_id != null ? inputs.baselines.get(fixture.league_id) : null,
+      homeLast5: inputs.last5.get(fixture.home_team_id),
+      awayLast5: inputs.last5.get(fixture.away_team_id),
+    },
+    markets
+  );
+}
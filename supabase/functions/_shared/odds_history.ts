@@ -0,0 +1,70 @@
+// Appends odds_cache payloads to the odds_history time series and records
+// steam moves. Called by the odds fetchers right after they upsert odds_cache;
+// failures are logged and never break the fetch itself.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { extractTotalsPrices, type OddsPayloadLike } from "./odds_normalization.ts";
+import { changedPrices, detectSteam, type OddsHistoryPoint } from "./odds_movement.ts";
+
+// Enough for every book/line of a fixture over its pre-match life
+const HISTORY_LOOKBACK_ROWS = 5000;
+
+export interface RecordOddsHistoryResult {
+  recorded: number;
+  steam: number;
+}
+
+export async function recordOddsHistory(
+  supabase: SupabaseClient,
+  fixtureId: number,
+  payload: OddsPayloadLike,
+  capturedAt: string
+): Promise<RecordOddsHistoryResult> {
+  try {
+    const prices = extractTotalsPrices(payload);
+    if (prices.length === 0) return { recorded: 0, steam: 0 };
+
+    const { data: previous, error: loadError } = await supabase
+      .from("odds_history")
+      .select("market, side, line, bookmaker, odds, captured_at")
+      .eq("fixture_id", fixtureId)
+      .order("captured_at", { ascending: false })
+      .limit(HISTORY_LOOKBACK_ROWS);
+
+    if (loadError) throw loadError;
+
+    const history: OddsHistoryPoint[] = (previous ?? []).map((p) => ({
+      ...p,
+      line: Number(p.line),
+      odds: Number(p.odds),
+      captured_at: new Date(p.captured_at).toISOString(),
+    }));
+
+    const changed = changedPrices(prices, history);
+    if (changed.length === 0) return { recorded: 0, steam: 0 };
+
+    const rows = changed.map((p) => ({ fixture_id: fixtureId, ...p, captured_at: capturedAt }));
+    const { error: insertError } = await supabase
+      .from("odds_history")
+      .upsert(rows, { onConflict: "fixture_id,market,side,line,bookmaker,captured_at", ignoreDuplicates: true });
+
+    if (insertError) throw insertError;
+
+    const steam = detectSteam([...history, ...rows]).filter((m) => m.detected_at === capturedAt);
+    if (steam.length > 0) {
+      const { error: steamError } = await supabase
+        .from("odds_steam_moves")
+        .upsert(
+          steam.map((m) => ({ fixture_id: fixtureId, ...m })),
+          { onConflict: "fixture_id,market,side,line,started_at", ignoreDuplicates: true }
+        );
+      if (steamError) throw steamError;
+      console.log(`[odds_history] Steam on fixture ${fixtureId}: ${steam.map((m) => `${m.market} ${m.side} ${m.line} (${m.books.length} books, ${(m.move_pct * 100).toFixed(1)}%)`).join(", ")}`);
+    }
+
+    return { recorded: rows.length, steam: steam.length };
+  } catch (error) {
+    console.error(`[odds_history] Failed to record history for fixture ${fixtureId}:`, error);
+    return { recorded: 0, steam: 0 };
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * ODDS MOVEMENT
+ *
+ * Works on odds_history points (one row per bookmaker price change) to answer:
+ * - How has the consensus price of a pick moved since open? (toward / against us)
+ * - Is a selection being steamed, i.e. shortened sharply by several of the
+ *   top bookmakers inside a short window?
+ *
+ * Pure module — used by odds_history.ts, odds-history and filterizer-query.
+ */
+
+import { KEEP_TOP_BOOKMAKERS } from "./config.ts";
+import type { TotalsPrice } from "./odds_normalization.ts";
+
+export interface OddsHistoryPoint {
+  market: string;
+  side: string;
+  line: number;
+  bookmaker: string;
+  odds: number;
+  captured_at: string;
+}
+
+export interface MovementPick {
+  market: string;
+  side: string;
+  line: number;
+}
+
+export type MovementDirection = "toward" | "against" | "flat";
+
+export interface LineMovement {
+  open_odds: number;
+  current_odds: number;
+  /** current / open − 1 (negative = price shortened) */
+  move_pct: number;
+  direction: MovementDirection;
+  books: number;
+  opened_at: string;
+  updated_at: string;
+}
+
+export interface SteamMove {
+  market: string;
+  side: string;
+  line: number;
+  books: string[];
+  from_odds: number;
+  to_odds: number;
+  move_pct: number;
+  started_at: string;
+  detected_at: string;
+}
+
+export interface SteamOptions {
+  windowMinutes?: number;
+  minMovePct?: number;
+  minBooks?: number;
+}
+
+// Consensus moves smaller than this are treated as noise
+export const MOVE_TOLERANCE = 0.02;
+
+export const STEAM_DEFAULTS: Required<SteamOptions> = {
+  windowMinutes: 30,
+  minMovePct: 0.05,
+  minBooks: KEEP_TOP_BOOKMAKERS,
+};
+
+const round = (n: number, dp = 4) => Math.round(n * 10 ** dp) / 10 ** dp;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export const selectionKey = (p: MovementPick) => `${p.market}|${p.side.toLowerCase()}|${Number(p.line)}`;
+const priceKey = (p: MovementPick & { bookmaker: string }) => `${selectionKey(p)}|${p.bookmaker}`;
+
+/** Prices that differ from the last recorded point for the same bookmaker (new books included) */
+export function changedPrices(prices: TotalsPrice[], last: OddsHistoryPoint[]): TotalsPrice[] {
+  const latest = new Map<string, OddsHistoryPoint>();
+  for (const p of last) {
+    const key = priceKey(p);
+    const prev = latest.get(key);
+    if (!prev || prev.captured_at < p.captured_at) latest.set(key, p);
+  }
+  return prices.filter((p) => latest.get(priceKey(p))?.odds !== p.odds);
+}
+
+/** Per-bookmaker history of one selection, oldest first */
+function seriesByBook(points: OddsHistoryPoint[], pick: MovementPick): Map<string, OddsHistoryPoint[]> {
+  const key = selectionKey(pick);
+  const byBook = new Map<string, OddsHistoryPoint[]>();
+  for (const p of points) {
+    if (selectionKey(p) !== key) continue;
+    const list = byBook.get(p.bookmaker) ?? [];
+    list.push(p);
+    byBook.set(p.bookmaker, list);
+  }
+  for (const list of byBook.values()) list.sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+  return byBook;
+}
+
+export function movementDirection(movePct: number, tolerance = MOVE_TOLERANCE): MovementDirection {
+  // A shortening price means the market has come round to our side
+  if (movePct <= -tolerance) return "toward";
+  if (movePct >= tolerance) return "against";
+  return "flat";
+}
+
+/** Consensus (median across bookmakers) opening vs current price of a pick */
+export function lineMovement(points: OddsHistoryPoint[], pick: MovementPick, tolerance = MOVE_TOLERANCE): LineMovement | null {
+  const byBook = seriesByBook(points, pick);
+  if (byBook.size === 0) return null;
+
+  const series = [...byBook.values()];
+  return toLineMovement(
+    {
+      open_odds: median(series.map((s) => s[0].odds)),
+      current_odds: median(series.map((s) => s[s.length - 1].odds)),
+      books: series.length,
+      opened_at: series.map((s) => s[0].captured_at).sort()[0],
+      updated_at: series.map((s) => s[s.length - 1].captured_at).sort().reverse()[0],
+    },
+    tolerance
+  );
+}
+
+/** Same shape from pre-aggregated consensus prices (get_line_movement RPC) */
+export function toLineMovement(
+  consensus: Omit<LineMovement, "move_pct" | "direction">,
+  tolerance = MOVE_TOLERANCE
+): LineMovement {
+  const movePct = round(consensus.current_odds / consensus.open_odds - 1);
+  return { ...consensus, move_pct: movePct, direction: movementDirection(movePct, tolerance) };
+}
+
+/**
+ * Steam moves: at least `minBooks` bookmakers shortened the same selection by
+ * `minMovePct` or more within `windowMinutes` of the latest capture.
+ */
+export function detectSteam(points: OddsHistoryPoint[], options: SteamOptions = {}): SteamMove[] {
+  const { windowMinutes, minMovePct, minBooks } = { ...STEAM_DEFAULTS, ...options };
+  const picks = new Map<string, MovementPick>();
+  for (const p of points) picks.set(selectionKey(p), { market: p.market, side: p.side.toLowerCase(), line: Number(p.line) });
+
+  const moves: SteamMove[] = [];
+  for (const pick of picks.values()) {
+    const byBook = seriesByBook(points, pick);
+    const latestAt = [...byBook.values()].map((s) => s[s.length - 1].captured_at).sort().reverse()[0];
+    const windowStart = new Date(new Date(latestAt).getTime() - windowMinutes * 60_000).toISOString();
+
+    const movers: { book: string; from: number; to: number; from_at: string }[] = [];
+    for (const [book, series] of byBook) {
+      const last = series[series.length - 1];
+      if (last.captured_at < windowStart) continue;
+      // Price in force when the window opened, else the first price inside it
+      const before = series.filter((p) => p.captured_at <= windowStart);
+      const start = before.length > 0 ? before[before.length - 1] : series[0];
+      if (start === last) continue;
+      if (last.odds / start.odds - 1 <= -minMovePct) {
+        movers.push({ book, from: start.odds, to: last.odds, from_at: start.captured_at });
+      }
+    }
+
+    if (movers.length < minBooks) continue;
+    const from = median(movers.map((m) => m.from));
+    const to = median(movers.map((m) => m.to));
+    moves.push({
+      ...pick,
+      books: movers.map((m) => m.book).sort(),
+      from_odds: from,
+      to_odds: to,
+      move_pct: round(to / from - 1),
+      started_at: movers.map((m) => m.from_at).sort()[0],
+      detected_at: latestAt,
+    });
+  }
+
+  return moves.sort((a, b) => a.move_pct - b.move_pct);
+}
@@ -49,3 +49,77 @@ export function matchesTarget(
   const target = buildTargetString(side, line);
   return normalizedValue === target;
 }
+
+/**
+ * API-Football bet IDs for full-match totals (same IDs the optimizer matches on)
+ */
+export const TOTALS_BET_IDS: Record<number, "goals" | "corners" | "cards"> = {
+  5: "goals",    // Goals Over/Under
+  45: "corners", // Corners Over/Under
+  80: "cards",   // Cards Over/Under
+};
+
+export interface TotalsPrice {
+  market: "goals" | "corners" | "cards";
+  side: "over" | "under";
+  line: number;
+  odds: number;
+  bookmaker: string;
+}
+
+export type OddsPayloadLike = {
+  bookmakers?: Array<{
+    name?: string;
+    bets?: Array<{ id?: number; values?: Array<{ value?: string; odd?: string | number }> }>;
+  }>;
+};
+
+/**
+ * Flatten an odds_cache payload into over/under prices for the totals markets.
+ * Only strict "{side} {line}" values are kept (no halves, team totals or Asian lines).
+ */
+export function extractTotalsPrices(payload: OddsPayloadLike | null | undefined): TotalsPrice[] {
+  const out: TotalsPrice[] = [];
+  for (const bookmaker of payload?.bookmakers ?? []) {
+    for (const bet of bookmaker.bets ?? []) {
+      const market = bet.id != null ? TOTALS_BET_IDS[bet.id] : undefined;
+      if (!market) continue;
+      for (const v of bet.values ?? []) {
+        const match = normalizeOddsValue(String(v.value ?? "")).match(/^(over|under) (\d+(?:\.\d+)?)$/);
+        const odds = Number(v.odd);
+        if (!match || !Number.isFinite(odds) || odds <= 1.01) continue;
+        out.push({
+          market,
+          side: match[1] as "over" | "under",
+          line: parseFloat(match[2]),
+          odds,
+          bookmaker: bookmaker.name || "Unknown",
+        });
+      }
+    }
+  }
+  return out;
+}
+
+export interface BookPrice {
+  bookmaker: string;
+  odds: number;
+}
+
+/**
+ * Every bookmaker's price for one selection, best first.
+ * A bookmaker quoting the selection twice keeps its higher price.
+ */
+export function priceBoard(
+  prices: TotalsPrice[],
+  pick: { market: string; side: string; line: number }
+): BookPrice[] {
+  const best = new Map<string, number>();
+  for (const p of prices) {
+    if (p.market !== pick.market || p.side !== pick.side || p.line !== Number(pick.line)) continue;
+    if (p.odds > (best.get(p.bookmaker) ?? 0)) best.set(p.bookmaker, p.odds);
+  }
+  return [...best.entries()]
+    .map(([bookmaker, odds]) => ({ bookmaker, odds }))
+    .sort((a, b) => b.odds - a.odds || a.bookmaker.localeCompare(b.bookmaker));
+}
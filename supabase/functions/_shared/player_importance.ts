@@ -7,7 +7,15 @@
 // - Final importance: 0.0 (bench player) to 1.0 (star player)
 // - Threshold for injury impact: importance >= 0.6 (key players only)
 
-import { API_BASE, apiHeaders } from "./api.ts";
+import { getDataProvider } from "./provider_registry.ts";
+
+interface ApiPlayerItem {
+  player?: { id?: number; name?: string };
+  statistics?: {
+    games?: { minutes?: number | null; appearences?: number | null; lineups?: number | null };
+    goals?: { total?: number | null; assists?: number | null };
+  }[];
+}
 
 export interface PlayerImportanceData {
   player_id: number;
@@ -34,16 +42,17 @@ export async function fetchTeamPlayerStats(
 ): Promise<PlayerImportanceData[]> {
   console.log(`[player-importance] Fetching players for team ${teamId}, league ${leagueId}, season ${season}`);
   
-  const url = `${API_BASE}/players?team=${teamId}&season=${season}&league=${leagueId}`;
-  const res = await fetch(url, { headers: apiHeaders() });
+  const res = await getDataProvider().get<ApiPlayerItem[]>(
+    "football",
+    `/players?team=${teamId}&season=${season}&league=${leagueId}`
+  );
   
   if (!res.ok) {
     console.error(`[player-importance] Failed to fetch players: HTTP ${res.status}`);
     return [];
   }
   
-  const json = await res.json();
-  const players = json?.response ?? [];
+  const players = res.body?.response ?? [];
   
   console.log(`[player-importance] API-Football returned ${players.length} players for team ${teamId}`);
   
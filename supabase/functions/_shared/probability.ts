@@ -0,0 +1,131 @@
+// =============================================================================
+// Shared count-distribution helpers (Poisson / negative binomial)
+// =============================================================================
+// Pure functions only — used by the stat model, calculate-value,
+// generate-ticket and safe-zone. Lines follow bookmaker convention:
+//   half lines (2.5)  → over = P(X ≥ 3), under = P(X ≤ 2), no push
+//   whole lines (3.0) → over = P(X ≥ 4), under = P(X ≤ 2), push = P(X = 3)
+
+export function logFactorial(n: number): number {
+  if (n <= 1) return 0;
+  let result = 0;
+  for (let i = 2; i <= n; i++) {
+    result += Math.log(i);
+  }
+  return result;
+}
+
+// Poisson probability mass function P(X = k)
+export function poissonPMF(lambda: number, k: number): number {
+  if (k < 0) return 0;
+  if (lambda <= 0) return k === 0 ? 1 : 0;
+  return Math.exp(-lambda + k * Math.log(lambda) - logFactorial(k));
+}
+
+// Poisson CDF P(X <= k)
+export function poissonCDF(lambda: number, k: number): number {
+  let sum = 0;
+  for (let i = 0; i <= k; i++) {
+    sum += poissonPMF(lambda, i);
+  }
+  return Math.min(1, sum);
+}
+
+/**
+ * Negative binomial PMF parameterised by mean and size r (dispersion):
+ * Var = mean + mean² / r. Converges to Poisson as r → ∞.
+ */
+export function negBinPMF(mean: number, size: number, k: number): number {
+  if (k < 0) return 0;
+  if (mean <= 0) return k === 0 ? 1 : 0;
+  if (!isFinite(size) || size <= 0) return poissonPMF(mean, k);
+  const p = size / (size + mean);
+  const logCoef = logGamma(k + size) - logGamma(size) - logFactorial(k);
+  return Math.exp(logCoef + size * Math.log(p) + k * Math.log(1 - p));
+}
+
+export function negBinCDF(mean: number, size: number, k: number): number {
+  let sum = 0;
+  for (let i = 0; i <= k; i++) {
+    sum += negBinPMF(mean, size, i);
+  }
+  return Math.min(1, sum);
+}
+
+// Lanczos approximation (g=7, n=9) — accurate to ~1e-13 for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  x -= 1;
+  let a = LANCZOS[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) {
+    a += LANCZOS[i] / (x + i);
+  }
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** A count distribution for one market total. size = null means Poisson. */
+export type CountDistribution = {
+  mean: number;
+  size: number | null;
+};
+
+export function distributionCDF(dist: CountDistribution, k: number): number {
+  if (k < 0) return 0;
+  return dist.size == null ? poissonCDF(dist.mean, k) : negBinCDF(dist.mean, dist.size, k);
+}
+
+export function distributionPMF(dist: CountDistribution, k: number): number {
+  return dist.size == null ? poissonPMF(dist.mean, k) : negBinPMF(dist.mean, dist.size, k);
+}
+
+export type OverUnderProbability = {
+  line: number;
+  over: number;
+  under: number;
+  push: number;
+};
+
+/** P(over / under / push) for a bookmaker total line */
+export function overUnderProbability(dist: CountDistribution, line: number): OverUnderProbability {
+  const isWhole = Math.abs(line - Math.round(line)) < 1e-9;
+  if (isWhole) {
+    const k = Math.round(line);
+    const under = distributionCDF(dist, k - 1);
+    const push = distributionPMF(dist, k);
+    return { line, over: Math.max(0, 1 - under - push), under, push };
+  }
+  const under = distributionCDF(dist, Math.floor(line));
+  return { line, over: Math.max(0, 1 - under), under, push: 0 };
+}
+
+export function probabilityOf(dist: CountDistribution, side: "over" | "under", line: number): number {
+  const p = overUnderProbability(dist, line);
+  return side === "over" ? p.over : p.under;
+}
+
+/** Over/under probabilities for every X.5 line from 0.5 up to maxLine */
+export function overUnderLadder(dist: CountDistribution, maxLine: number): OverUnderProbability[] {
+  const out: OverUnderProbability[] = [];
+  let cdf = 0;
+  for (let k = 0; k + 0.5 <= maxLine; k++) {
+    cdf = Math.min(1, cdf + distributionPMF(dist, k));
+    out.push({ line: k + 0.5, over: Math.max(0, 1 - cdf), under: cdf, push: 0 });
+  }
+  return out;
+}
+
+/** Edge of a model probability over the bookmaker's implied probability, as a fraction */
+export function edgeVsOdds(modelProb: number, odds: number): number {
+  if (!(odds > 1)) return 0;
+  return modelProb * odds - 1;
+}
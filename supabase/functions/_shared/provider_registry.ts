@@ -0,0 +1,68 @@
+/**
+ * ACTIVE DATA PROVIDER
+ *
+ * Picks the DataProvider for this isolate from DATA_PROVIDER and
+ * DATA_PROVIDER_FIXTURES_DIR (modes described in data_provider.ts). Only this
+ * module touches Deno env and fs, so data_provider.ts stays testable in vitest.
+ *
+ * Live providers are wrapped in a QuotaProvider; requests are metered once
+ * the job has called meterApiQuota (api_quota.ts). Replays are never metered.
+ */
+
+import { ApiQuotaLedger, QuotaProvider, type QuotaJob, type QuotaRpcClient } from "./api_quota.ts";
+import {
+  ApiSportsProvider,
+  RecordingProvider,
+  ReplayProvider,
+  recordingFilename,
+  type DataProvider,
+  type Recording,
+} from "./data_provider.ts";
+
+async function readRecordings(dir: string): Promise<Recording[]> {
+  const out: Recording[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    out.push(JSON.parse(await Deno.readTextFile(`${dir}/${entry.name}`)) as Recording);
+  }
+  console.log(`[data-provider] loaded ${out.length} recordings from ${dir}`);
+  return out;
+}
+
+function writeRecording(dir: string) {
+  return async (recording: Recording) => {
+    await Deno.mkdir(dir, { recursive: true });
+    await Deno.writeTextFile(
+      `${dir}/${recordingFilename(recording.api, recording.path)}`,
+      JSON.stringify(recording, null, 2)
+    );
+  };
+}
+
+let active: DataProvider | null = null;
+let ledger: ApiQuotaLedger | null = null;
+
+/** The provider chosen by DATA_PROVIDER, created once per isolate */
+export function getDataProvider(): DataProvider {
+  if (active) return active;
+  const mode = Deno.env.get("DATA_PROVIDER") ?? "api-sports";
+  const dir = Deno.env.get("DATA_PROVIDER_FIXTURES_DIR") ?? "./fixtures/api-sports";
+  const live = new ApiSportsProvider((name) => Deno.env.get(name));
+
+  if (mode === "replay") active = new ReplayProvider(() => readRecordings(dir));
+  else if (mode === "record") active = new QuotaProvider(new RecordingProvider(live, writeRecording(dir)), () => ledger);
+  else active = new QuotaProvider(live, () => ledger);
+  console.log(`[data-provider] using ${active.name}`);
+  return active;
+}
+
+/** Swap the provider for the rest of the isolate (local tooling); null restores env selection */
+export function setDataProvider(provider: DataProvider | null): void {
+  active = provider;
+}
+
+/** Meter every provider request for the rest of this run against the job's quota */
+export function meterApiQuota(supabase: QuotaRpcClient, job: QuotaJob): ApiQuotaLedger {
+  ledger = new ApiQuotaLedger(supabase, job);
+  return ledger;
+}
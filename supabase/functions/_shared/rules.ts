@@ -57,10 +57,61 @@ export const RULES: Ruleset = {
 
 // Current rules version identifier for data versioning
 // Updated to matrix-v3 to reflect new last-5 stats logic (partial data per metric, season=2025, status=FT)
+// This is the built-in fallback; the live version comes from rules_matrix_versions (see rules_registry.ts)
 export const RULES_VERSION = "matrix-v3";
 
-export function pickFromCombined(stat: StatMarket, combinedValue: number) {
-  const rules = RULES[stat];
+// ============================================
+// RULES REGISTRY (DB-backed, versioned)
+// ============================================
+// A matrix is a full Ruleset plus per-league overrides. An override replaces the
+// whole rule list for that market in that league; other markets fall through to
+// the default rules. The active matrix is loaded from rules_matrix_versions by
+// loadRulesRegistry() and defaults to the static RULES above.
+
+export type LeagueOverrides = Record<string, Partial<Ruleset>>;
+
+export interface RulesMatrix {
+  version: string;
+  rules: Ruleset;
+  leagueOverrides: LeagueOverrides;
+}
+
+export const STATIC_RULES_MATRIX: RulesMatrix = {
+  version: RULES_VERSION,
+  rules: RULES,
+  leagueOverrides: {},
+};
+
+let activeMatrix: RulesMatrix = STATIC_RULES_MATRIX;
+
+/** Swap the in-memory active matrix (null resets to the static fallback) */
+export function setActiveRulesMatrix(matrix: RulesMatrix | null): void {
+  activeMatrix = matrix ?? STATIC_RULES_MATRIX;
+}
+
+export function getActiveRulesMatrix(): RulesMatrix {
+  return activeMatrix;
+}
+
+/** Version string that must be persisted next to anything picked with the active matrix */
+export function getActiveRulesVersion(): string {
+  return activeMatrix.version;
+}
+
+/** Rules for one market, honouring the league override when present */
+export function resolveRules(
+  stat: StatMarket,
+  leagueId?: number | null,
+  matrix: RulesMatrix = activeMatrix
+): Rule[] {
+  if (leagueId != null) {
+    const override = matrix.leagueOverrides[String(leagueId)]?.[stat];
+    if (override) return override;
+  }
+  return matrix.rules[stat] ?? [];
+}
+
+export function pickFromRules(rules: Rule[], combinedValue: number) {
   // Determine threshold for the final "gte" rule (max upper bound among finite ranges)
   let gteThreshold = -Infinity;
   for (const r of rules) {
@@ -85,3 +136,124 @@ export function pickFromCombined(stat: StatMarket, combinedValue: number) {
   }
   return null; // No matching range found
 }
+
+export function pickFromCombined(
+  stat: StatMarket,
+  combinedValue: number,
+  leagueId?: number | null,
+  matrix: RulesMatrix = activeMatrix
+) {
+  return pickFromRules(resolveRules(stat, leagueId, matrix), combinedValue);
+}
+
+/** True if any rule (default or league override) in the matrix can produce this side/line */
+export function matrixHasPick(
+  stat: StatMarket,
+  side: string,
+  line: number,
+  matrix: RulesMatrix = activeMatrix
+): boolean {
+  const lists = [matrix.rules[stat] ?? []];
+  for (const override of Object.values(matrix.leagueOverrides)) {
+    if (override[stat]) lists.push(override[stat]!);
+  }
+  return lists.some((rules) =>
+    rules.some((r) => r.pick && r.pick.side === side && Math.abs(r.pick.line - line) < 0.01)
+  );
+}
+
+const STAT_MARKETS: StatMarket[] = ["goals", "corners", "offsides", "fouls", "cards"];
+
+/**
+ * Validate an untrusted JSON ruleset (from the DB or the admin UI).
+ * Returns a list of problems; empty means the ruleset is usable.
+ */
+export function validateRuleset(input: unknown, partial = false): string[] {
+  const errors: string[] = [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return ["ruleset must be an object keyed by market"];
+  }
+  const obj = input as Record<string, unknown>;
+  for (const key of Object.keys(obj)) {
+    if (!STAT_MARKETS.includes(key as StatMarket)) errors.push(`unknown market "${key}"`);
+  }
+  for (const market of STAT_MARKETS) {
+    const rules = obj[market];
+    if (rules === undefined) {
+      if (!partial) errors.push(`${market}: missing`);
+      continue;
+    }
+    if (!Array.isArray(rules)) {
+      errors.push(`${market}: must be an array of rules`);
+      continue;
+    }
+    rules.forEach((r, i) => {
+      const range = r?.range;
+      const validRange = range === "gte" ||
+        (Array.isArray(range) && range.length === 2 &&
+          typeof range[0] === "number" && typeof range[1] === "number" && range[0] <= range[1]);
+      if (!validRange) errors.push(`${market}[${i}]: range must be [lo, hi] with lo ≤ hi or "gte"`);
+      const pick = r?.pick;
+      if (pick !== null && (
+        typeof pick !== "object" ||
+        (pick.side !== "over" && pick.side !== "under") ||
+        typeof pick.line !== "number"
+      )) {
+        errors.push(`${market}[${i}]: pick must be null or { side: "over"|"under", line: number }`);
+      }
+    });
+  }
+  return errors;
+}
+
+export type RuleDiffChange = "added" | "removed" | "changed";
+
+export interface RuleDiffEntry {
+  scope: string; // "default" or "league:<id>"
+  market: StatMarket;
+  change: RuleDiffChange;
+  range: Rule["range"];
+  before: Rule["pick"] | undefined;
+  after: Rule["pick"] | undefined;
+}
+
+const rangeKey = (range: Rule["range"]) => (range === "gte" ? "gte" : `${range[0]}-${range[1]}`);
+const pickKey = (pick: Rule["pick"] | undefined) => (pick ? `${pick.side}:${pick.line}` : "none");
+
+function diffRuleLists(scope: string, market: StatMarket, a: Rule[], b: Rule[]): RuleDiffEntry[] {
+  const out: RuleDiffEntry[] = [];
+  const before = new Map(a.map((r) => [rangeKey(r.range), r]));
+  const after = new Map(b.map((r) => [rangeKey(r.range), r]));
+  for (const [key, r] of before) {
+    const next = after.get(key);
+    if (!next) {
+      out.push({ scope, market, change: "removed", range: r.range, before: r.pick, after: undefined });
+    } else if (pickKey(r.pick) !== pickKey(next.pick)) {
+      out.push({ scope, market, change: "changed", range: r.range, before: r.pick, after: next.pick });
+    }
+  }
+  for (const [key, r] of after) {
+    if (!before.has(key)) {
+      out.push({ scope, market, change: "added", range: r.range, before: undefined, after: r.pick });
+    }
+  }
+  return out;
+}
+
+/** Range-by-range differences between two matrices, default rules first then each league */
+export function diffRulesMatrices(from: RulesMatrix, to: RulesMatrix): RuleDiffEntry[] {
+  const out: RuleDiffEntry[] = [];
+  for (const market of STAT_MARKETS) {
+    out.push(...diffRuleLists("default", market, from.rules[market] ?? [], to.rules[market] ?? []));
+  }
+  const leagues = new Set([...Object.keys(from.leagueOverrides), ...Object.keys(to.leagueOverrides)]);
+  for (const league of [...leagues].sort((x, y) => Number(x) - Number(y))) {
+    for (const market of STAT_MARKETS) {
+      const a = from.leagueOverrides[league]?.[market];
+      const b = to.leagueOverrides[league]?.[market];
+      if (!a && !b) continue;
+      out.push(...diffRuleLists(`league:${league}`, market, a ?? [], b ?? []));
+    }
+  }
+  return out;
+}
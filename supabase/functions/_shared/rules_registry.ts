@@ -0,0 +1,158 @@
+// Loads the active rules matrix from rules_matrix_versions into rules.ts.
+// Call loadRulesRegistry() once per request before using pickFromCombined /
+// pickLine; they stay synchronous and fall back to the static matrix if the
+// DB is unreachable or the stored matrix is invalid.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  setActiveRulesMatrix,
+  getActiveRulesMatrix,
+  validateRuleset,
+  STATIC_RULES_MATRIX,
+  type RulesMatrix,
+  type Ruleset,
+  type LeagueOverrides,
+} from "./rules.ts";
+
+export interface RulesMatrixVersionRow {
+  version: string;
+  rules: unknown;
+  league_overrides: unknown;
+  is_active: boolean;
+}
+
+// Short TTL so a promotion reaches warm edge instances within a few minutes
+let registryLoadedAt = 0;
+const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Convert a DB row into a RulesMatrix, or null if its JSON doesn't validate
+ */
+export function rowToRulesMatrix(row: RulesMatrixVersionRow): RulesMatrix | null {
+  const errors = validateRuleset(row.rules);
+  const overrides = (row.league_overrides ?? {}) as Record<string, unknown>;
+  for (const [league, partial] of Object.entries(overrides)) {
+    for (const e of validateRuleset(partial, true)) errors.push(`league ${league}: ${e}`);
+  }
+  if (errors.length > 0) {
+    console.error(`[rules_registry] Version ${row.version} is invalid: ${errors.join("; ")}`);
+    return null;
+  }
+  return {
+    version: row.version,
+    rules: row.rules as Ruleset,
+    leagueOverrides: overrides as LeagueOverrides,
+  };
+}
+
+/**
+ * Load the active matrix into the rules.ts cache and return its version
+ */
+export async function loadRulesRegistry(
+  supabase: SupabaseClient,
+  options: { force?: boolean } = {}
+): Promise<string> {
+  const now = Date.now();
+  if (!options.force && registryLoadedAt && (now - registryLoadedAt) < CACHE_TTL_MS) {
+    return getActiveRulesMatrix().version;
+  }
+
+  const { data, error } = await supabase
+    .from("rules_matrix_versions")
+    .select("version, rules, league_overrides, is_active")
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[rules_registry] Failed to load active rules version:", error.message);
+    return getActiveRulesMatrix().version; // Keep whatever we had (static on cold start)
+  }
+
+  const matrix = data ? rowToRulesMatrix(data as RulesMatrixVersionRow) : null;
+  if (!data) {
+    console.warn(`[rules_registry] No active rules version, using static ${STATIC_RULES_MATRIX.version}`);
+  }
+  setActiveRulesMatrix(matrix ?? STATIC_RULES_MATRIX);
+  registryLoadedAt = now;
+
+  const active = getActiveRulesMatrix();
+  console.log(`[rules_registry] Active rules ${active.version} (${Object.keys(active.leagueOverrides).length} league overrides)`);
+  return active.version;
+}
+
+/**
+ * Fetch a specific version (active or not) without touching the cache
+ */
+export async function fetchRulesMatrix(
+  supabase: SupabaseClient,
+  version: string
+): Promise<RulesMatrix | null> {
+  const { data, error } = await supabase
+    .from("rules_matrix_versions")
+    .select("version, rules, league_overrides, is_active")
+    .eq("version", version)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return rowToRulesMatrix(data as RulesMatrixVersionRow);
+}
+
+/**
+ * Version whose pre-match optimized_selections should be served for a kickoff
+ * window. Right after a promotion the active version has no rows until
+ * optimize-selections-refresh has run, so fall back to the newest version
+ * that does instead of returning nothing.
+ */
+export async function resolveServedRulesVersion(
+  supabase: SupabaseClient,
+  activeVersion: string,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<string> {
+  const { count, error } = await supabase
+    .from("optimized_selections")
+    .select("id", { count: "exact", head: true })
+    .eq("rules_version", activeVersion)
+    .eq("is_live", false)
+    .gte("utc_kickoff", windowStart.toISOString())
+    .lte("utc_kickoff", windowEnd.toISOString());
+
+  if (error || (count ?? 0) > 0) return activeVersion;
+
+  const { data } = await supabase
+    .from("optimized_selections")
+    .select("rules_version")
+    .eq("is_live", false)
+    .not("rules_version", "is", null)
+    .gte("utc_kickoff", windowStart.toISOString())
+    .lte("utc_kickoff", windowEnd.toISOString())
+    .order("computed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const fallback = (data as { rules_version: string } | null)?.rules_version;
+  if (!fallback || fallback === activeVersion) return activeVersion;
+
+  console.warn(`[rules_registry] No selections for active ${activeVersion} yet, serving ${fallback}`);
+  return fallback;
+}
+
+/**
+ * Matrix to re-check served rows against. Rows from a fallback version were
+ * qualified by that version's rules, so checking them against the active
+ * matrix would drop them all.
+ */
+export async function servedRulesMatrix(
+  supabase: SupabaseClient,
+  servedVersion: string
+): Promise<RulesMatrix> {
+  const active = getActiveRulesMatrix();
+  if (servedVersion === active.version) return active;
+  if (servedVersion === STATIC_RULES_MATRIX.version) return STATIC_RULES_MATRIX;
+
+  const matrix = await fetchRulesMatrix(supabase, servedVersion);
+  if (!matrix) {
+    console.warn(`[rules_registry] Served version ${servedVersion} could not be loaded, checking against ${active.version}`);
+  }
+  return matrix ?? active;
+}
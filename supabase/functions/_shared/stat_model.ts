@@ -0,0 +1,243 @@
+// =============================================================================
+// Distributional model for the five stat markets
+// =============================================================================
+// Each market total is modelled as home count + away count where
+//
+//   λ_home = home_for(at home) × away_against(on the road) / league_home_avg
+//   λ_away = away_for(on the road) × home_against(at home) / league_away_avg
+//
+// i.e. attack × defence strength relative to the league, with each team rate
+// shrunk toward the league average by sample size. Goals use Poisson; the
+// other markets are over-dispersed and use a negative binomial.
+//
+// Inputs come from team_stat_rates / league_stat_baselines (refreshed daily by
+// refresh_team_stat_rates()). When a team has no venue rates we fall back to
+// the last-5 "for" averages in stats_cache so every fixture with stats still
+// gets a distribution.
+
+import type { StatMarket } from "./rules.ts";
+import {
+  type CountDistribution,
+  type OverUnderProbability,
+  overUnderLadder,
+  probabilityOf,
+} from "./probability.ts";
+import type { TotalsPrice } from "./odds_normalization.ts";
+
+export const MODEL_VERSION = "count-model-v1";
+
+export const STAT_MARKETS: StatMarket[] = ["goals", "corners", "cards", "fouls", "offsides"];
+
+// Per-team, per-match league averages used when a league has no baseline yet
+export const DEFAULT_BASELINES: Record<StatMarket, { home: number; away: number }> = {
+  goals: { home: 1.5, away: 1.2 },
+  corners: { home: 5.4, away: 4.5 },
+  cards: { home: 2.0, away: 2.3 },
+  fouls: { home: 11.5, away: 12.0 },
+  offsides: { home: 2.0, away: 1.9 },
+};
+
+// Negative binomial size r (Var = μ + μ²/r); null = Poisson
+export const MARKET_DISPERSION: Record<StatMarket, number | null> = {
+  goals: null,
+  corners: 30,
+  cards: 12,
+  fouls: 60,
+  offsides: 15,
+};
+
+// Highest X.5 line included in probability ladders per market
+export const MAX_LADDER_LINE: Record<StatMarket, number> = {
+  goals: 6.5,
+  corners: 14.5,
+  cards: 8.5,
+  fouls: 32.5,
+  offsides: 8.5,
+};
+
+// Matches of league-average data blended into each team rate
+const SHRINKAGE_MATCHES = 5;
+
+export type VenueRate = { for: number; against: number; n: number };
+
+export interface TeamVenueRates {
+  team_id: number;
+  venue: "home" | "away";
+  rates: Partial<Record<StatMarket, VenueRate>>;
+}
+
+export interface LeagueBaseline {
+  league_id: number;
+  rates: Partial<Record<StatMarket, { home: number; away: number; n: number }>>;
+}
+
+/** Last-5 "for" averages as stored in stats_cache */
+export interface LastFiveAverages {
+  goals: number;
+  corners: number;
+  cards: number;
+  fouls: number;
+  offsides: number;
+  sample_size: number;
+}
+
+export interface MarketModel {
+  market: StatMarket;
+  lambdaHome: number;
+  lambdaAway: number;
+  distribution: CountDistribution;
+  sampleSize: number;
+  source: "venue_rates" | "last5";
+}
+
+export type MatchModel = Partial<Record<StatMarket, MarketModel>>;
+
+export interface MatchModelInput {
+  homeRates?: TeamVenueRates | null;
+  awayRates?: TeamVenueRates | null;
+  league?: LeagueBaseline | null;
+  homeLast5?: LastFiveAverages | null;
+  awayLast5?: LastFiveAverages | null;
+}
+
+function shrink(value: number, n: number, prior: number): number {
+  return (value * n + prior * SHRINKAGE_MATCHES) / (n + SHRINKAGE_MATCHES);
+}
+
+function baselineFor(market: StatMarket, league?: LeagueBaseline | null) {
+  const b = league?.rates[market];
+  // Ignore thin or degenerate league baselines
+  if (b && b.n >= 20 && b.home > 0 && b.away > 0) return b;
+  return DEFAULT_BASELINES[market];
+}
+
+function withDistribution(
+  market: StatMarket,
+  lambdaHome: number,
+  lambdaAway: number,
+  sampleSize: number,
+  source: MarketModel["source"]
+): MarketModel {
+  return {
+    market,
+    lambdaHome,
+    lambdaAway,
+    distribution: { mean: lambdaHome + lambdaAway, size: MARKET_DISPERSION[market] },
+    sampleSize,
+    source,
+  };
+}
+
+/** Model one market, or null if neither venue rates nor last-5 data are usable */
+export function buildMarketModel(market: StatMarket, input: MatchModelInput): MarketModel | null {
+  const base = baselineFor(market, input.league);
+  const home = input.homeRates?.rates[market];
+  const away = input.awayRates?.rates[market];
+
+  if (home && away && home.n > 0 && away.n > 0) {
+    const homeFor = shrink(home.for, home.n, base.home);
+    const homeAgainst = shrink(home.against, home.n, base.away);
+    const awayFor = shrink(away.for, away.n, base.away);
+    const awayAgainst = shrink(away.against, away.n, base.home);
+
+    const lambdaHome = (homeFor * awayAgainst) / base.home;
+    const lambdaAway = (awayFor * homeAgainst) / base.away;
+    return withDistribution(market, lambdaHome, lambdaAway, Math.min(home.n, away.n), "venue_rates");
+  }
+
+  const h5 = input.homeLast5;
+  const a5 = input.awayLast5;
+  if (h5 && a5 && h5.sample_size >= 3 && a5.sample_size >= 3) {
+    const lambdaHome = shrink(Number(h5[market]) || 0, h5.sample_size, base.home);
+    const lambdaAway = shrink(Number(a5[market]) || 0, a5.sample_size, base.away);
+    return withDistribution(market, lambdaHome, lambdaAway, Math.min(h5.sample_size, a5.sample_size), "last5");
+  }
+
+  return null;
+}
+
+export function buildMatchModel(input: MatchModelInput, markets: StatMarket[] = STAT_MARKETS): MatchModel {
+  const model: MatchModel = {};
+  for (const market of markets) {
+    const m = buildMarketModel(market, input);
+    if (m) model[market] = m;
+  }
+  return model;
+}
+
+/** P(side line) for a modelled market */
+export function marketProbability(model: MarketModel, side: "over" | "under", line: number): number {
+  return probabilityOf(model.distribution, side, line);
+}
+
+/** P(over/under X.5) for every line in the market's ladder */
+export function marketLadder(model: MarketModel, maxLine = MAX_LADDER_LINE[model.market]): OverUnderProbability[] {
+  return overUnderLadder(model.distribution, maxLine);
+}
+
+/** Compact, JSON-safe summary of a match model for API responses / snapshots */
+export function summarizeMatchModel(model: MatchModel) {
+  const round = (v: number, dp = 4) => Math.round(v * 10 ** dp) / 10 ** dp;
+  const out: Record<string, unknown> = { version: MODEL_VERSION };
+  for (const market of STAT_MARKETS) {
+    const m = model[market];
+    if (!m) continue;
+    out[market] = {
+      mean: round(m.distribution.mean, 2),
+      lambda_home: round(m.lambdaHome, 2),
+      lambda_away: round(m.lambdaAway, 2),
+      source: m.source,
+      sample_size: m.sampleSize,
+      ladder: marketLadder(m).map((p) => ({ line: p.line, over: round(p.over), under: round(p.under) })),
+    };
+  }
+  return out;
+}
+
+export interface PriceEdge {
+  market: StatMarket;
+  side: "over" | "under";
+  line: number;
+  odds: number;
+  bookmaker: string;
+  model_prob: number;
+  book_prob: number; // de-vigged when the bookmaker prices both sides
+  edge: number; // model_prob - book_prob
+  ev: number; // model_prob × odds - 1
+}
+
+/**
+ * Score bookmaker prices against the model. Returns every priced selection the
+ * model covers, best edge first; callers filter on edge / probability.
+ */
+export function scorePrices(model: MatchModel, prices: TotalsPrice[]): PriceEdge[] {
+  const pairKey = (p: TotalsPrice) => `${p.bookmaker}|${p.market}|${p.line}`;
+  const byPair = new Map<string, Partial<Record<"over" | "under", number>>>();
+  for (const p of prices) {
+    const entry = byPair.get(pairKey(p)) ?? {};
+    entry[p.side] = p.odds;
+    byPair.set(pairKey(p), entry);
+  }
+
+  const out: PriceEdge[] = [];
+  for (const p of prices) {
+    const m = model[p.market];
+    if (!m) continue;
+    const pair = byPair.get(pairKey(p))!;
+    const raw = 1 / p.odds;
+    const bookProb = pair.over && pair.under ? raw / (1 / pair.over + 1 / pair.under) : raw;
+    const modelProb = marketProbability(m, p.side, p.line);
+    out.push({
+      market: p.market,
+      side: p.side,
+      line: p.line,
+      odds: p.odds,
+      bookmaker: p.bookmaker,
+      model_prob: modelProb,
+      book_prob: bookProb,
+      edge: modelProb - bookProb,
+      ev: modelProb * p.odds - 1,
+    });
+  }
+  return out.sort((a, b) => b.edge - a.edge);
+}
@@ -38,7 +38,6 @@
 //    - NOTE: Some competitions (e.g., youth cups, EFL Trophy) have NO statistics
 //      We use league_stats_coverage table to skip broken competitions per metric
 
-import { API_BASE, apiHeaders } from "./api.ts";
 import { fetchAPIFootball } from "./api_football.ts";
 import { loadLeagueCoverage, shouldSkipFixtureForMetric } from "./league_coverage.ts";
 
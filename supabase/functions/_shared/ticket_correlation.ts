@@ -0,0 +1,160 @@
+/**
+ * TICKET CORRELATION
+ *
+ * Joint win probability for accumulator legs that are not independent.
+ *
+ * Two sources of dependence are modelled:
+ * - Same fixture: legs on one match move together (goals over + BTTS yes,
+ *   cards + fouls). Same-market legs on one fixture are resolved exactly
+ *   (nested lines, bands, contradictions).
+ * - Same league-day: a weak shared effect (round, weather, referee trends)
+ *   between same-market legs in one league on one date.
+ *
+ * Pairwise joint probabilities use the Bernoulli correlation identity
+ *   P(A∩B) = pq + ρ·√(p(1-p)q(1-q))
+ * clamped to the Fréchet bounds. Tickets combine the pairwise lifts
+ * P(A∩B)/(pq), which is exact for one pair and a first-order approximation
+ * beyond that.
+ *
+ * Pure module — shared by generate-ticket, the ticket search and analyze-ticket.
+ */
+
+export type LegSide = "over" | "under" | "yes" | "no";
+
+export interface CorrelationLeg {
+  fixtureId: number;
+  leagueId?: number | null;
+  /** Kickoff date (YYYY-MM-DD or any ISO timestamp) for league-day grouping */
+  day?: string | null;
+  market: string;
+  side: LegSide;
+  line?: number | null;
+  /** Probability the leg wins on its own */
+  prob: number;
+}
+
+export interface LegPairCorrelation {
+  i: number;
+  j: number;
+  rho: number;
+  joint: number;
+  reason: "same_fixture" | "same_market_fixture" | "league_day";
+  blocked: boolean;
+}
+
+export interface TicketCorrelation {
+  naive_prob: number;
+  adjusted_prob: number;
+  /** adjusted / naive (1 = independent) */
+  factor: number;
+  pairs: LegPairCorrelation[];
+  blocked: boolean;
+}
+
+// Correlation of two "over"/"yes" legs on the same fixture
+const SAME_FIXTURE_RHO: Record<string, number> = {
+  "btts|goals": 0.45,
+  "corners|goals": 0.1,
+  "cards|goals": -0.05,
+  "fouls|goals": -0.1,
+  "goals|offsides": 0.05,
+  "btts|corners": 0.05,
+  "cards|corners": 0.05,
+  "corners|offsides": 0.1,
+  "cards|fouls": 0.35,
+};
+
+export const LEAGUE_DAY_RHO = 0.05;
+
+// Pairs at or above this |ρ| are too dependent to combine in one ticket
+export const BLOCK_RHO = 0.4;
+
+const direction = (side: LegSide) => (side === "over" || side === "yes" ? 1 : -1);
+const dayOf = (d?: string | null) => (d ? d.slice(0, 10) : null);
+
+export function sameFixtureRho(marketA: string, marketB: string): number {
+  const key = [marketA, marketB].sort().join("|");
+  return SAME_FIXTURE_RHO[key] ?? 0;
+}
+
+function jointFromRho(p: number, q: number, rho: number): number {
+  const raw = p * q + rho * Math.sqrt(p * (1 - p) * q * (1 - q));
+  return Math.min(Math.min(p, q), Math.max(Math.max(0, p + q - 1), raw));
+}
+
+function impliedRho(p: number, q: number, joint: number): number {
+  const denom = Math.sqrt(p * (1 - p) * q * (1 - q));
+  return denom > 0 ? (joint - p * q) / denom : 0;
+}
+
+/**
+ * Same fixture, same market: outcomes are nested or disjoint, so the joint is
+ * exact. Over 1.5 + Over 2.5 → P(over 2.5); Over 1.5 + Under 3.5 → the band;
+ * Over 2.5 + Under 2.5 → 0.
+ */
+function sameMarketJoint(a: CorrelationLeg, b: CorrelationLeg): number {
+  if (a.side === b.side) return Math.min(a.prob, b.prob);
+  const over = direction(a.side) > 0 ? a : b;
+  const under = over === a ? b : a;
+  if (over.line == null || under.line == null || over.line >= under.line) return 0;
+  return Math.max(0, over.prob + under.prob - 1);
+}
+
+/** Correlation and joint probability for one pair, or null if independent */
+export function pairCorrelation(a: CorrelationLeg, b: CorrelationLeg): Omit<LegPairCorrelation, "i" | "j"> | null {
+  if (a.fixtureId === b.fixtureId) {
+    if (a.market === b.market) {
+      const joint = sameMarketJoint(a, b);
+      // Redundant (nested) or contradictory legs never belong on one ticket
+      return { rho: impliedRho(a.prob, b.prob, joint), joint, reason: "same_market_fixture", blocked: true };
+    }
+    const rho = sameFixtureRho(a.market, b.market) * direction(a.side) * direction(b.side);
+    if (rho === 0) return null;
+    return { rho, joint: jointFromRho(a.prob, b.prob, rho), reason: "same_fixture", blocked: Math.abs(rho) >= BLOCK_RHO };
+  }
+
+  const dayA = dayOf(a.day);
+  if (a.leagueId && a.leagueId === b.leagueId && dayA && dayA === dayOf(b.day) && a.market === b.market) {
+    const rho = LEAGUE_DAY_RHO * direction(a.side) * direction(b.side);
+    return { rho, joint: jointFromRho(a.prob, b.prob, rho), reason: "league_day", blocked: false };
+  }
+
+  return null;
+}
+
+/** Naive and correlation-adjusted win probability for a set of legs */
+export function assessTicketCorrelation(legs: CorrelationLeg[]): TicketCorrelation {
+  const naive = legs.reduce((acc, l) => acc * l.prob, 1);
+  const pairs: LegPairCorrelation[] = [];
+  let lift = 1;
+
+  for (let i = 0; i < legs.length; i++) {
+    for (let j = i + 1; j < legs.length; j++) {
+      const pc = pairCorrelation(legs[i], legs[j]);
+      if (!pc) continue;
+      pairs.push({ i, j, ...pc });
+      const independent = legs[i].prob * legs[j].prob;
+      lift *= independent > 0 ? pc.joint / independent : 1;
+    }
+  }
+
+  const minLeg = legs.length > 0 ? Math.min(...legs.map((l) => l.prob)) : 1;
+  const adjusted = Math.min(minLeg, Math.max(0, naive * lift));
+
+  return {
+    naive_prob: naive,
+    adjusted_prob: adjusted,
+    factor: naive > 0 ? adjusted / naive : 1,
+    pairs,
+    blocked: pairs.some((p) => p.blocked),
+  };
+}
+
+/** Parse a leg side from explicit fields or a "Over 2.5" / "BTTS Yes" pick label */
+export function parseLegSide(side?: string | null, pick?: string | null): LegSide {
+  const s = (side || pick || "").toLowerCase();
+  if (s.includes("under")) return "under";
+  if (/\bno\b/.test(s)) return "no";
+  if (/\byes\b/.test(s)) return "yes";
+  return "over";
+}
@@ -0,0 +1,112 @@
+/**
+ * TICKET EV
+ *
+ * Expected value and fractional-Kelly stake for an accumulator ticket.
+ * Pure module — ticket-ev (drawers) and analyze-ticket both call
+ * computeTicketEV so users see the same numbers everywhere.
+ *
+ * Win probability is the correlation-adjusted joint probability from
+ * ticket_correlation.ts. Legs without a model probability fall back to the
+ * bookmaker's implied probability, i.e. they add no edge of their own.
+ */
+
+import { assessTicketCorrelation, parseLegSide } from "./ticket_correlation.ts";
+
+export interface EvLeg {
+  fixtureId: number;
+  leagueId?: number | null;
+  kickoff?: string | null;
+  market: string;
+  side: string;
+  line?: number | string | null;
+  odds: number;
+  modelProb?: number | null;
+}
+
+export interface TicketEvOptions {
+  stake?: number;
+  bankroll?: number | null;
+  /** Share of full Kelly to suggest (default 0.25) */
+  kellyFraction?: number;
+  /** Hard cap on the suggested stake as a share of bankroll (default 0.05) */
+  maxBankrollShare?: number;
+}
+
+export interface TicketEv {
+  total_odds: number;
+  win_prob: number;
+  naive_win_prob: number;
+  implied_prob: number;
+  prob_source: "model" | "mixed" | "implied";
+  legs_with_model: number;
+  /** Expected profit per unit staked (model_prob × odds − 1) */
+  ev_per_unit: number;
+  stake: number;
+  expected_return: number;
+  expected_profit: number;
+  kelly_full: number;
+  kelly_fraction: number;
+  /** Suggested share of bankroll (fractional Kelly, capped) */
+  kelly_share: number;
+  suggested_stake: number | null;
+  has_edge: boolean;
+}
+
+export const DEFAULT_KELLY_FRACTION = 0.25;
+export const DEFAULT_MAX_BANKROLL_SHARE = 0.05;
+
+const round = (n: number, dp = 4) => Math.round(n * 10 ** dp) / 10 ** dp;
+
+/** Full-Kelly share of bankroll for decimal odds; 0 when there is no edge */
+export function kellyShare(prob: number, odds: number): number {
+  const b = odds - 1;
+  if (!(b > 0) || !(prob > 0)) return 0;
+  return Math.max(0, (b * prob - (1 - prob)) / b);
+}
+
+export function computeTicketEV(legs: EvLeg[], options: TicketEvOptions = {}): TicketEv {
+  const stake = options.stake && options.stake > 0 ? options.stake : 0;
+  const fraction = Math.min(1, Math.max(0, options.kellyFraction ?? DEFAULT_KELLY_FRACTION));
+  const maxShare = options.maxBankrollShare ?? DEFAULT_MAX_BANKROLL_SHARE;
+
+  const priced = legs.filter((l) => Number.isFinite(l.odds) && l.odds > 1);
+  const totalOdds = priced.reduce((acc, l) => acc * l.odds, 1);
+  const impliedProb = priced.reduce((acc, l) => acc * (1 / l.odds), 1);
+  const withModel = priced.filter((l) => l.modelProb != null && l.modelProb > 0 && l.modelProb < 1).length;
+
+  const correlation = assessTicketCorrelation(
+    priced.map((l) => ({
+      fixtureId: l.fixtureId,
+      leagueId: l.leagueId ?? null,
+      day: l.kickoff ?? null,
+      market: l.market,
+      side: parseLegSide(l.side),
+      line: l.line == null || l.line === "" ? null : Number(l.line),
+      prob: l.modelProb != null && l.modelProb > 0 && l.modelProb < 1 ? l.modelProb : 1 / l.odds,
+    }))
+  );
+
+  const winProb = priced.length > 0 ? correlation.adjusted_prob : 0;
+  const evPerUnit = priced.length > 0 ? winProb * totalOdds - 1 : 0;
+  const kellyFull = priced.length > 0 ? kellyShare(winProb, totalOdds) : 0;
+  const kellyShareOut = Math.min(maxShare, kellyFull * fraction);
+  const bankroll = options.bankroll && options.bankroll > 0 ? options.bankroll : null;
+
+  return {
+    total_odds: round(totalOdds, 2),
+    win_prob: round(winProb),
+    naive_win_prob: round(correlation.naive_prob),
+    implied_prob: round(impliedProb),
+    prob_source: withModel === 0 ? "implied" : withModel === priced.length ? "model" : "mixed",
+    legs_with_model: withModel,
+    ev_per_unit: round(evPerUnit),
+    stake,
+    expected_return: round(stake * winProb * totalOdds, 2),
+    expected_profit: round(stake * evPerUnit, 2),
+    kelly_full: round(kellyFull),
+    kelly_fraction: fraction,
+    kelly_share: round(kellyShareOut),
+    suggested_stake: bankroll != null ? round(bankroll * kellyShareOut, 2) : null,
+    has_edge: evPerUnit > 0,
+  };
+}
@@ -0,0 +1,349 @@
+/**
+ * TICKET SEARCH
+ *
+ * Stochastic beam search that composes a ticket from a candidate pool so the
+ * product of leg odds lands inside [targetMin, targetMax]. Strongly correlated
+ * leg pairs (see ticket_correlation.ts) are blocked; weaker ones are penalised
+ * in the beam score and the chosen ticket carries its correlation report.
+ *
+ * Shared by generate-ticket (live requests) and backtest-tickets (offline
+ * replay). Pass `options.seed` and unbounded timeouts to make a run fully
+ * deterministic — wall-clock timeouts otherwise decide how far the search gets.
+ */
+
+import { ODDS_MIN, ODDS_MAX } from "./config.ts";
+import {
+  assessTicketCorrelation,
+  pairCorrelation,
+  parseLegSide,
+  type CorrelationLeg,
+  type TicketCorrelation,
+} from "./ticket_correlation.ts";
+
+/** Minimum shape a candidate leg needs for the search */
+export interface SearchLeg {
+  fixtureId: number;
+  market: string;
+  odds: number;
+  combinedAvg?: number;
+  _leagueId?: number;
+  side?: string;
+  line?: number | null;
+  modelProb?: number | null;
+  /** Kickoff (ISO) — used for same league-day correlation */
+  start?: string;
+}
+
+export interface TicketSearchOptions {
+  /** Fixed PRNG seed (defaults to userId + Date.now() + target range) */
+  seed?: number;
+  /** Per leg-count attempt budget in ms (default 600) */
+  attemptTimeoutMs?: number;
+  /** Total search budget in ms (default 6000) */
+  totalTimeoutMs?: number;
+  /** Suppress per-attempt logging (backtests run thousands of searches) */
+  quiet?: boolean;
+}
+
+export interface TicketSearchResult<T extends SearchLeg> {
+  total_odds: number;
+  legs: T[];
+  attempts: number;
+  within_band: boolean;
+  best_nearby?: { total_odds: number; legs: T[] };
+  sampled_legs_attempts?: number[];
+  time_ms?: number;
+  correlation?: TicketCorrelation;
+}
+
+// Beam score cost per unit of |ρ| between legs already on the ticket
+const CORRELATION_PENALTY = 2;
+
+export function toCorrelationLeg(leg: SearchLeg): CorrelationLeg {
+  return {
+    fixtureId: leg.fixtureId,
+    leagueId: leg._leagueId ?? null,
+    day: leg.start ?? null,
+    market: leg.market,
+    side: parseLegSide(leg.side),
+    line: leg.line ?? null,
+    prob: leg.modelProb && leg.modelProb > 0 ? leg.modelProb : 1 / leg.odds,
+  };
+}
+
+// Simple PRNG for deterministic but varied results
+export function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+export function generateOptimizedTicket<T extends SearchLeg>(
+  pool: T[],
+  targetMin: number,
+  targetMax: number,
+  minLegs: number,
+  maxLegs: number,
+  markets: string[],
+  userId?: string,
+  options: TicketSearchOptions = {}
+): TicketSearchResult<T> | null {
+  const startTime = Date.now();
+  const ATTEMPT_TIMEOUT = options.attemptTimeoutMs ?? 600; // ms per leg-count attempt (temporarily elevated)
+  const TOTAL_TIMEOUT = options.totalTimeoutMs ?? 6000; // ms total (temporarily elevated)
+  const MAX_EVALUATIONS = 100000;
+  const log = options.quiet ? () => {} : (msg: string) => console.log(msg);
+  
+  // Seed PRNG with userId + date + target range for session-stable but varied results.
+  // An explicit seed (backtests) makes the search fully reproducible.
+  const seed = options.seed ?? (
+    (userId ? userId.split('').reduce((acc, c) => acc + c.charCodeAt(0), 0) : 12345) + 
+    Date.now() + Math.floor(targetMin * 1000) + Math.floor(targetMax * 1000)
+  );
+  const rand = seededRandom(seed);
+  
+  const logMin = Math.log(targetMin);
+  const logMax = Math.log(targetMax);
+  const logMid = (logMin + logMax) / 2;
+
+  // Sort pool by odds for deterministic beam search
+  const sortedPool = [...pool].sort((a, b) => {
+    if (a.odds !== b.odds) return a.odds - b.odds;
+    if (a.fixtureId !== b.fixtureId) return a.fixtureId - b.fixtureId;
+    return a.market.localeCompare(b.market);
+  });
+
+  // ONE LEG PER FIXTURE: State now tracks used fixtures (not fixture+market)
+  type State = { 
+    legs: T[]; 
+    product: number; 
+    usedFixtures: Set<number>; // Changed from Map<number, Set<string>>
+    avgEdge: number;
+    corrPenalty: number; // Σ|ρ| over correlated leg pairs
+  };
+  
+  let bestInBand: { legs: T[]; product: number; avgEdge: number; corrPenalty: number } | null = null;
+  let bestNearMiss: { legs: T[]; product: number } | null = null;
+  let totalExpansions = 0;
+  const sampledLegsAttempts: number[] = [];
+  
+  const maxOddsInPool = Math.max(...sortedPool.map(l => l.odds), 1.0);
+
+  const corrLegs = new Map<T, CorrelationLeg>(sortedPool.map((l) => [l, toCorrelationLeg(l)]));
+
+  const score = (prod: number, len: number, avgEdge: number, targetN: number, corrPenalty: number) => {
+    const lp = Math.log(prod);
+    const distanceToMid = Math.abs(lp - logMid);
+    // Strongly prefer hitting the target N (sampled leg count)
+    const legPenalty = Math.abs(len - targetN) * 0.5;
+    // IMPORTANT: Do NOT include avgEdge in scoring to avoid hidden market bias
+    return distanceToMid + legPenalty + corrPenalty * CORRELATION_PENALTY;
+  };
+  // Stochastic search: try multiple leg counts
+  const MAX_ATTEMPTS = 10;
+  for (let attemptIdx = 0; attemptIdx < MAX_ATTEMPTS && Date.now() - startTime < TOTAL_TIMEOUT; attemptIdx++) {
+    const attemptStart = Date.now();
+    
+    // Sample a target leg count N from [minLegs, maxLegs]
+    const targetN = minLegs + Math.floor(rand() * (maxLegs - minLegs + 1));
+    sampledLegsAttempts.push(targetN);
+    
+    log(`[stochastic-search] Attempt ${attemptIdx + 1}: trying N=${targetN} legs`);
+    
+    // Beam search for this specific N
+    const WIDTH = 50;
+    const NUM_SEEDS = 50; // Multiple diverse starting points
+    
+    // Group pool by market for balanced seed generation
+    const poolByMarket: Map<string, T[]> = new Map();
+    for (const leg of sortedPool) {
+      if (!poolByMarket.has(leg.market)) poolByMarket.set(leg.market, []);
+      poolByMarket.get(leg.market)!.push(leg);
+    }
+    const availableMarkets = Array.from(poolByMarket.keys()).filter(m => markets.includes(m));
+    
+    // Generate market-balanced seed states
+    const seedStates: State[] = [];
+    const seedsPerMarket = Math.max(1, Math.floor(NUM_SEEDS / availableMarkets.length));
+    
+    for (const market of availableMarkets) {
+      const marketLegs = poolByMarket.get(market) || [];
+      const numSeeds = Math.min(seedsPerMarket, marketLegs.length);
+      
+      for (let s = 0; s < numSeeds; s++) {
+        const startIdx = Math.floor(rand() * marketLegs.length);
+        const startLeg = marketLegs[startIdx];
+        
+        if (startLeg.odds < ODDS_MIN || startLeg.odds > ODDS_MAX) continue;
+        
+        // ONE LEG PER FIXTURE: Track used fixture IDs (not fixture+market)
+        const usedFixtures = new Set<number>();
+        usedFixtures.add(startLeg.fixtureId);
+        
+        seedStates.push({
+          legs: [startLeg],
+          product: startLeg.odds,
+          usedFixtures,
+          avgEdge: 0,
+          corrPenalty: 0,
+        });
+      }
+    }
+    
+    log(`[stochastic-search] Generated ${seedStates.length} market-balanced seeds from ${availableMarkets.length} markets: ${availableMarkets.join(', ')}`);
+    
+    // Also add empty state
+    seedStates.push({ legs: [], product: 1, usedFixtures: new Set<number>(), avgEdge: 0, corrPenalty: 0 });
+    
+    let beam: State[] = seedStates;
+    let expansions = 0;
+
+    // === CORRELATION GUARDS CONFIG ===
+    const MAX_PER_MARKET = 2;  // Market-type diversity: max 2 legs of same market
+    const MAX_PER_LEAGUE = 2;  // Same-league soft cap: max 2 legs from same league
+    
+    for (let depth = 0; depth < targetN && Date.now() - attemptStart < ATTEMPT_TIMEOUT; depth++) {
+      const next: State[] = [];
+
+      for (const state of beam) {
+        if (expansions > MAX_EVALUATIONS) break;
+        
+        for (const cand of sortedPool) {
+          if (expansions > MAX_EVALUATIONS) break;
+          
+          if (cand.odds < ODDS_MIN || cand.odds > ODDS_MAX) continue;
+          
+          // ONE LEG PER FIXTURE: Skip if this fixture is already used
+          if (state.usedFixtures.has(cand.fixtureId)) continue;
+
+          // CORRELATION GUARD: Market-type diversity (max MAX_PER_MARKET legs of same market)
+          const marketCountInState = state.legs.filter(l => l.market === cand.market).length;
+          if (marketCountInState >= MAX_PER_MARKET) continue;
+
+          // CORRELATION GUARD: Same-league soft cap (max MAX_PER_LEAGUE legs from same league)
+          const candLeagueId = cand._leagueId || 0;
+          if (candLeagueId > 0) {
+            const leagueCountInState = state.legs.filter(l => l._leagueId === candLeagueId).length;
+            if (leagueCountInState >= MAX_PER_LEAGUE) continue;
+          }
+
+          // CORRELATION GUARD: block strongly dependent pairs, penalise the rest
+          const candCorr = corrLegs.get(cand)!;
+          let addedPenalty = 0;
+          let blocked = false;
+          for (const leg of state.legs) {
+            const pc = pairCorrelation(corrLegs.get(leg)!, candCorr);
+            if (!pc) continue;
+            if (pc.blocked) { blocked = true; break; }
+            addedPenalty += Math.abs(pc.rho);
+          }
+          if (blocked) continue;
+          const corrPenalty = state.corrPenalty + addedPenalty;
+
+          const newProduct = state.product * cand.odds;
+          
+          if (newProduct > targetMax * 1.5) continue; // Aggressive pruning
+          
+          const remainingSlots = targetN - state.legs.length - 1;
+          const maxPossibleProduct = newProduct * Math.pow(maxOddsInPool, remainingSlots);
+          if (state.legs.length + 1 >= minLegs && maxPossibleProduct < targetMin * 0.5) continue;
+
+          const newLegs = [...state.legs, cand];
+          
+          // ONE LEG PER FIXTURE: Simple Set copy
+          const newUsedFixtures = new Set(state.usedFixtures);
+          newUsedFixtures.add(cand.fixtureId);
+          
+          const totalEdge = newLegs.reduce((sum, leg) => {
+            const edgePct = leg.combinedAvg && leg.odds > 1 
+              ? ((1 / leg.odds) / leg.combinedAvg - 1) * 100 
+              : 0;
+            return sum + edgePct;
+          }, 0);
+          const avgEdge = newLegs.length > 0 ? totalEdge / newLegs.length : 0;
+
+          expansions++;
+          totalExpansions++;
+
+          const withinBand = newLegs.length >= minLegs && newProduct >= targetMin && newProduct <= targetMax;
+          
+          if (withinBand) {
+            if (!bestInBand || corrPenalty < bestInBand.corrPenalty ||
+                (corrPenalty === bestInBand.corrPenalty && avgEdge > bestInBand.avgEdge) ||
+                (corrPenalty === bestInBand.corrPenalty && avgEdge === bestInBand.avgEdge && Math.abs(newLegs.length - targetN) < Math.abs(bestInBand.legs.length - targetN))) {
+              bestInBand = { legs: newLegs, product: newProduct, avgEdge, corrPenalty };
+              log(`[stochastic-search] Found in-band solution: ${newLegs.length} legs, ${newProduct.toFixed(2)}x, avgEdge=${avgEdge.toFixed(2)}%`);
+            }
+          }
+          
+          if (newLegs.length >= minLegs) {
+            if (!bestNearMiss || Math.abs(Math.log(newProduct) - logMid) < Math.abs(Math.log(bestNearMiss.product) - logMid)) {
+              bestNearMiss = { legs: newLegs, product: newProduct };
+            }
+          }
+
+          next.push({ legs: newLegs, product: newProduct, usedFixtures: newUsedFixtures, avgEdge, corrPenalty });
+        }
+        
+        if (expansions > MAX_EVALUATIONS) break;
+      }
+
+      next.sort((a, b) =>
+        score(a.product, a.legs.length, a.avgEdge, targetN, a.corrPenalty) -
+        score(b.product, b.legs.length, b.avgEdge, targetN, b.corrPenalty)
+      );
+      beam = next.slice(0, WIDTH);
+      if (beam.length === 0) break;
+    }
+    
+    log(`[stochastic-search] Attempt ${attemptIdx + 1} complete: ${expansions} expansions in ${Date.now() - attemptStart}ms`);
+    
+    // If we found an in-band solution, we can return early (but keep searching if time allows for better solutions)
+    if (bestInBand && Date.now() - startTime > TOTAL_TIMEOUT * 0.5) {
+      log(`[stochastic-search] Found good solution, stopping early`);
+      break;
+    }
+  }
+
+  const totalTime = Date.now() - startTime;
+  
+  log(`[stochastic-search] Complete: sampled_legs=${sampledLegsAttempts.join(',')}, pool=${pool.length}, evaluated=${totalExpansions}, time=${totalTime}ms, found_in_range=${!!bestInBand}`);
+
+  if (bestInBand) {
+    const marketDist: Record<string, number> = {};
+    for (const leg of bestInBand.legs) {
+      marketDist[leg.market] = (marketDist[leg.market] || 0) + 1;
+    }
+    log(`[stochastic-search] Best ticket market distribution: ${JSON.stringify(marketDist)}`);
+    
+    return {
+      total_odds: Math.round(bestInBand.product * 100) / 100, 
+      legs: bestInBand.legs, 
+      attempts: totalExpansions,
+      within_band: true,
+      sampled_legs_attempts: sampledLegsAttempts,
+      time_ms: totalTime,
+      correlation: assessTicketCorrelation(bestInBand.legs.map((l) => corrLegs.get(l)!)),
+    };
+  }
+  
+  if (bestNearMiss) {
+    return {
+      total_odds: Math.round(bestNearMiss.product * 100) / 100,
+      legs: bestNearMiss.legs,
+      attempts: totalExpansions,
+      within_band: false,
+      best_nearby: {
+        total_odds: Math.round(bestNearMiss.product * 100) / 100,
+        legs: bestNearMiss.legs,
+      },
+      sampled_legs_attempts: sampledLegsAttempts,
+      time_ms: totalTime,
+      correlation: assessTicketCorrelation(bestNearMiss.legs.map((l) => corrLegs.get(l)!)),
+    };
+  }
+  
+  return null;
+}
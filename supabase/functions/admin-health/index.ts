@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { UPCOMING_WINDOW_HOURS } from "../_shared/config.ts";
+import { aggregateClv, type ClvRow } from "../_shared/clv.ts";
+import { summarizeApiQuota, type QuotaMinuteRow, type QuotaUsageRow } from "../_shared/api_quota.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -313,6 +315,76 @@ serve(async (req) => {
       complete_stats_pct: Math.round(completeStatsPct * 100) / 100,
     };
 
+    // 9. Closing Line Value (last 30 days)
+    const CLV_WINDOW_DAYS = 30;
+    const { data: clvData } = await supabaseService
+      .from("clv_snapshots")
+      .select("source, market, line, league_id, rules_version, clv_pct, fair_clv_pct")
+      .gte("kickoff_at", new Date(Date.now() - CLV_WINDOW_DAYS * 24 * 3600 * 1000).toISOString())
+      .order("kickoff_at", { ascending: false })
+      .limit(10000);
+
+    const clvRows: ClvRow[] = (clvData || []).map(r => ({
+      ...r,
+      line: Number(r.line),
+      clv_pct: Number(r.clv_pct),
+      fair_clv_pct: r.fair_clv_pct != null ? Number(r.fair_clv_pct) : null,
+    }));
+
+    const clvLeagueIds = [...new Set(clvRows.map(r => r.league_id).filter((id): id is number => id != null))];
+    const { data: clvLeagues } = clvLeagueIds.length > 0
+      ? await supabaseService.from("leagues").select("id, name").in("id", clvLeagueIds)
+      : { data: [] };
+    const leagueNames = new Map((clvLeagues || []).map(l => [String(l.id), l.name]));
+
+    const [clvOverall] = aggregateClv(clvRows.map(r => ({ ...r, source: "all" })), "source");
+    const clv = {
+      window_days: CLV_WINDOW_DAYS,
+      total: clvRows.length,
+      overall: clvOverall ?? null,
+      by_market: aggregateClv(clvRows, "market"),
+      by_line: aggregateClv(clvRows, "line"),
+      by_league: aggregateClv(clvRows, "league").map(a => ({ ...a, name: leagueNames.get(a.key) ?? null })),
+      by_rules_version: aggregateClv(clvRows, "rules_version"),
+      by_source: aggregateClv(clvRows, "source"),
+    };
+
+    // 10. API quota ledger (today, UTC)
+    const quotaDay = new Date().toISOString().slice(0, 10);
+    const [{ data: quotaUsage }, { data: quotaMinutes }] = await Promise.all([
+      supabaseService
+        .from("api_quota_usage")
+        .select("account, job, calls, deferred, last_call_at, last_deferred_at")
+        .eq("day", quotaDay),
+      supabaseService
+        .from("api_quota_minute")
+        .select("account, minute, calls")
+        .gte("minute", new Date(Date.now() - 2 * 60 * 1000).toISOString()),
+    ]);
+    const apiQuota = summarizeApiQuota(
+      (quotaUsage || []) as QuotaUsageRow[],
+      (quotaMinutes || []) as QuotaMinuteRow[]
+    );
+
+    // 11. Pipeline orchestrator: recent DAG runs and dead-lettered nodes
+    const [{ data: pipelineRunRows }, { data: deadLetterRows }] = await Promise.all([
+      supabaseService
+        .from("pipeline_runs")
+        .select("id, pipeline, status, trigger, graph, nodes, started_at, finished_at")
+        .order("started_at", { ascending: false })
+        .limit(20),
+      supabaseService
+        .from("pipeline_run_logs")
+        .select("id, job_name, run_started, run_finished, error_message, details")
+        .eq("mode", "dead_letter")
+        .order("run_finished", { ascending: false })
+        .limit(20),
+    ]);
+    const pipelines = {
+      runs: pipelineRunRows || [],
+      dead_letters: deadLetterRows || [],
+    };
+
     const response = {
       fixturesCoverage,
       statsUpcomingTeams,
@@ -327,6 +399,9 @@ serve(async (req) => {
       recentRuns,
       cronJobs,
       sampleTeams,
+      clv,
+      apiQuota,
+      pipelines,
       timestamp: new Date().toISOString(),
     };
 
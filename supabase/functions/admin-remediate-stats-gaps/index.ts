@@ -14,6 +14,7 @@ import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "..
 import { computeLastFiveAverages } from "../_shared/stats.ts";
 import { LEAGUE_NAMES, ALLOWED_LEAGUE_IDS } from "../_shared/leagues.ts";
 import { fetchAPIFootball, fetchFixtureStatistics, getRateLimiterStats } from "../_shared/api_football.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
 
 // ============================================================================
 // CONFIGURATION: Derived from QA Reports
@@ -455,6 +456,7 @@ Deno.serve(async (req: Request) => {
       console.error("[remediate] Authorization failed - no valid credentials");
       return errorResponse("Unauthorized", origin, 401, req);
     }
+    meterApiQuota(supabase, "admin-remediate-stats-gaps");
 
     // ========================================================================
     // PARSE REQUEST
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { fetchHeadToHeadStats } from "../_shared/h2h.ts";
+import { assessTicketCorrelation, parseLegSide } from "../_shared/ticket_correlation.ts";
+import { computeTicketEV, DEFAULT_KELLY_FRACTION } from "../_shared/ticket_ev.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -86,7 +88,7 @@ serve(async (req) => {
 
     console.log(`[analyze-ticket] Access granted: ${accessResult.reason}, remaining: ${accessResult.remaining_uses ?? 'unlimited'}`);
 
-    const { ticket, language = 'en' } = await req.json();
+    const { ticket, language = 'en', stake, bankroll, kellyFraction } = await req.json();
     
     if (!ticket || !ticket.legs) {
       return new Response(
@@ -262,6 +264,49 @@ serve(async (req) => {
       };
     }));
 
+    // Joint win probability: legs on the same fixture / league-day are not independent
+    const correlation = assessTicketCorrelation(matchesData.map((m) => ({
+      fixtureId: m.fixture_id,
+      leagueId: m.league_id,
+      day: m.kickoff !== 'TBD' ? m.kickoff : null,
+      market: m.market,
+      side: parseLegSide(m.side),
+      line: m.line,
+      prob: m.model_prob || (m.odds > 1 ? 1 / m.odds : 0.5),
+    })));
+    const pct = (p: number) => Math.round(p * 10000) / 100;
+    const correlationSummary = {
+      naive_win_prob_pct: pct(correlation.naive_prob),
+      correlation_adjusted_win_prob_pct: pct(correlation.adjusted_prob),
+      factor: Math.round(correlation.factor * 1000) / 1000,
+      blocked: correlation.blocked,
+      correlated_pairs: correlation.pairs.map((p) => ({
+        matches: [p.i + 1, p.j + 1],
+        reason: p.reason,
+        rho: Math.round(p.rho * 100) / 100,
+        blocked: p.blocked,
+      })),
+    };
+
+    // Same calculator as the ticket drawers (ticket-ev); fraction clamped to (0, 1]
+    const requestedKelly = Number(kellyFraction);
+    const safeKellyFraction = Number.isFinite(requestedKelly) && requestedKelly > 0
+      ? Math.min(requestedKelly, 1)
+      : DEFAULT_KELLY_FRACTION;
+    const ev = computeTicketEV(
+      matchesData.map((m) => ({
+        fixtureId: m.fixture_id,
+        leagueId: m.league_id,
+        kickoff: m.kickoff !== 'TBD' ? m.kickoff : null,
+        market: m.market,
+        side: m.side,
+        line: m.line,
+        odds: m.odds,
+        modelProb: m.model_prob,
+      })),
+      { stake: Number(stake ?? ticket.stake) || undefined, bankroll: Number(bankroll) || null, kellyFraction: safeKellyFraction }
+    );
+
     const ticketSummary = {
       rules_version: 'v2_combined_matrix_v1',
       mode: ticket.mode || 'balanced',
@@ -272,7 +317,14 @@ serve(async (req) => {
       combined_total_odds: ticket.total_odds,
       estimated_win_prob: ticket.estimated_win_prob || null,
       number_of_legs: ticket.legs.length,
-      search: ticket.search || null
+      search: ticket.search || null,
+      correlation: correlationSummary,
+      expected_value: {
+        win_prob_pct: pct(ev.win_prob),
+        ev_per_unit: ev.ev_per_unit,
+        has_edge: ev.has_edge,
+        prob_source: ev.prob_source,
+      },
     };
 
     console.log(`[analyze-ticket] Payload: ${ticket.legs.length} legs, total odds ${ticket.total_odds.toFixed(2)}x, first leg: ${matchesData[0]?.teams || 'N/A'}`);
@@ -317,6 +369,7 @@ For each match, explain **why the bet makes sense**, referring to the provided d
 - Use factual, professional language — like a sports analyst report.
 - Focus on key factors such as team form, tactical matchups, and statistical trends.
 - If possible, identify *supporting factors* (why the bet is strong) and *risk factors* (what could affect it).
+- If TICKET SUMMARY.correlation lists correlated_pairs, mention in overall_summary that those legs depend on each other and quote the correlation-adjusted win probability next to the naive one.
 
 ---
 
@@ -471,7 +524,7 @@ Generate the JSON response only — no extra commentary. Ensure it's valid JSON.
     }
 
     return new Response(
-      JSON.stringify({ analysis }),
+      JSON.stringify({ analysis, correlation: correlationSummary, ev }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -11,6 +11,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { fetchAPIFootball, fetchFixtureStatistics as fetchStats, getRateLimiterStats } from "../_shared/api_football.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
 
 const SUPPORTED_LEAGUES = [39, 40, 78, 140, 135, 61, 2, 3, 848, 45, 48, 66, 81, 137, 143];
 const DEFAULT_BATCH_SIZE = 50; // Process 50 fixtures per run (drain mode)
@@ -147,6 +148,13 @@ Deno.serve(async (req: Request) => {
       return errorResponse("Unauthorized", origin, 401, req);
     }
 
+    // Backfills run on low-priority quota and wait out a tight day
+    const deferral = await meterApiQuota(supabase, "auto-backfill-results").deferral();
+    if (deferral) {
+      console.warn(`[auto-backfill] Deferred: ${deferral.reason} quota reached (${deferral.used} calls today)`);
+      return jsonResponse({ success: true, deferred: true, quota: deferral }, origin, 200, req);
+    }
+
     // Insert initial pipeline log entry
     const { data: logData } = await supabase
       .from("pipeline_run_logs")
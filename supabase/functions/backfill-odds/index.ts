@@ -19,8 +19,9 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 import { DAILY_CALL_BUDGET, RPM_LIMIT, PREMATCH_TTL_MINUTES, UPCOMING_WINDOW_HOURS } from "../_shared/config.ts";
+import { recordOddsHistory } from "../_shared/odds_history.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -66,20 +67,17 @@ serve(async (req) => {
 
     console.log(`[backfill-odds] Window: ${now.toISOString()} to ${endDate.toISOString()} (${window_hours}h)`);
 
-    // Daily budget guard: count today's API calls
-    const todayStart = new Date();
-    todayStart.setUTCHours(0, 0, 0, 0); // P0 FIX: Use UTC midnight for consistent daily budget tracking
-    const { count: todayCallCount } = await supabaseClient
-      .from("optimizer_run_logs")
-      .select("*", { count: "exact", head: true })
-      .gte("started_at", todayStart.toISOString())
-      .like("run_type", "backfill-odds-batch%");
+    // Daily budget guard: the quota ledger counts every API-Football call made
+    // today by any function; this job is low priority, so it halts first
+    const quota = meterApiQuota(supabaseClient, "backfill-odds");
+    const usage = await quota.check();
+    const todayCallCount = usage?.used ?? 0;
 
     const DAILY_BUDGET_LIMIT = DAILY_CALL_BUDGET;
     const MAX_RPM = RPM_LIMIT;
 
-    if (todayCallCount && todayCallCount >= DAILY_BUDGET_LIMIT) {
-      console.warn(`[backfill-odds] DAILY BUDGET EXCEEDED: ${todayCallCount}/${DAILY_BUDGET_LIMIT} calls today. Halting to protect quota.`);
+    if (usage && !usage.allowed) {
+      console.warn(`[backfill-odds] QUOTA DEFERRED (${usage.reason}): ${todayCallCount}/${DAILY_BUDGET_LIMIT} calls today. Halting to protect quota.`);
       
       await supabaseClient.from("optimizer_run_logs").insert({
         id: crypto.randomUUID(),
@@ -269,6 +267,7 @@ serve(async (req) => {
     let fetched = 0;
     let failed = 0;
     let skipped = 0;
+    let steamMoves = 0;
 
     const BASE_DELAY = Math.ceil(60000 / MAX_RPM); // e.g., 1200ms for 50 RPM
     let currentDelay = BASE_DELAY;
@@ -280,12 +279,16 @@ serve(async (req) => {
       
       try {
         // Fetch odds from API
-        const url = `${API_BASE}/odds?fixture=${fixtureId}`;
         console.log(`[backfill-odds] [${scanned}/${batchFixtures.length}] Fetching odds for fixture ${fixtureId}`);
 
-        const response = await fetch(url, {
-          headers: apiHeaders(),
-        });
+        const response = await getDataProvider().get("football", `/odds?fixture=${fixtureId}`);
+
+        // Quota ledger refused: the rest of the batch would be refused too
+        if (response.deferred) {
+          console.warn(`[backfill-odds] Quota deferred (${response.deferred}) at fixture ${fixtureId}, stopping batch`);
+          failed++;
+          break;
+        }
 
         // Handle 429 rate limit with exponential backoff
         if (response.status === 429) {
@@ -305,9 +308,9 @@ serve(async (req) => {
         // Reset delay on success
         currentDelay = BASE_DELAY;
 
-        const data = await response.json();
+        const data = response.body ?? {};
 
-        if (!data.response || data.response.length === 0) {
+        if (!Array.isArray(data.response) || data.response.length === 0) {
           console.log(`[backfill-odds] No odds available for fixture ${fixtureId}`);
           skipped++;
           continue;
@@ -323,12 +326,13 @@ serve(async (req) => {
         }
 
         // Upsert into odds_cache
+        const capturedAt = new Date().toISOString();
         const { error: upsertError } = await supabaseClient
           .from("odds_cache")
           .upsert({
             fixture_id: fixtureId,
             payload: { bookmakers, available: bookmakers.length > 0 },
-            captured_at: new Date().toISOString(),
+            captured_at: capturedAt,
             bookmakers: bookmakers.map((b: any) => b.name),
             markets: [...new Set(bookmakers.flatMap((b: any) => 
               (b.markets || []).map((m: any) => m.name)
@@ -341,8 +345,10 @@ serve(async (req) => {
           console.error(`[backfill-odds] Failed to upsert odds for fixture ${fixtureId}:`, upsertError);
           failed++;
         } else {
-          console.log(`[backfill-odds] ✓ Cached odds for fixture ${fixtureId} (${bookmakers.length} bookmakers)`);
+          const history = await recordOddsHistory(supabaseClient, fixtureId, { bookmakers }, capturedAt);
+          console.log(`[backfill-odds] ✓ Cached odds for fixture ${fixtureId} (${bookmakers.length} bookmakers, ${history.recorded} price changes)`);
           fetched++;
+          steamMoves += history.steam;
         }
 
         // Adaptive rate limit delay
@@ -359,7 +365,7 @@ serve(async (req) => {
     const finishedAt = new Date();
     const durationMs = finishedAt.getTime() - startedAt.getTime();
 
-    console.log(`[backfill-odds] Batch complete in ${durationMs}ms: scanned=${scanned}, fetched=${fetched}, skipped=${skipped}, failed=${failed}`);
+    console.log(`[backfill-odds] Batch complete in ${durationMs}ms: scanned=${scanned}, fetched=${fetched}, skipped=${skipped}, failed=${failed}, steam_moves=${steamMoves}`);
 
     // Log run to optimizer_run_logs
     await supabaseClient.from("optimizer_run_logs").insert({
@@ -371,7 +377,8 @@ serve(async (req) => {
         window_hours, 
         batch_size: BATCH_SIZE,
         stale_minutes: ODDS_STALE_MINUTES,
-        daily_calls_used: (todayCallCount || 0) + scanned
+        daily_calls_used: (todayCallCount || 0) + scanned,
+        steam_moves: steamMoves,
       },
       scanned,
       with_odds: fetched,
@@ -390,6 +397,7 @@ serve(async (req) => {
         fetched,
         skipped,
         failed,
+        steam_moves: steamMoves,
         batch_size: BATCH_SIZE,
         window_hours,
         duration_ms: durationMs,
@@ -0,0 +1,245 @@
+/**
+ * backtest-tickets — Offline replay of the ticket generator over settled history
+ *
+ * Replays generateOptimizedTicket with every TICKET_MODES config against
+ * backtest_samples (+ optionally settled ticket_leg_outcomes) for a date range,
+ * and reports hit rate, ROI, max drawdown and leg calibration per
+ * (mode × rules_version). See _shared/backtest.ts for the engine.
+ *
+ * Body (all optional):
+ *   from / to      ISO dates on kickoff_at (default: last 30 days)
+ *   modes          subset of TICKET_MODES keys (default: all)
+ *   seed           PRNG seed (default 42) — same seed + data = same report
+ *   stake          flat stake per ticket (default 1)
+ *   min_edge       optional edge gate, e.g. 0.03
+ *   sources        ["selections", "ticket_legs"] (default: ["selections"])
+ *   format         "json" | "csv" (default json)
+ *   csv_section    "summary" | "calibration" (default summary)
+ *   include_history  include per-ticket bankroll history in JSON (default false)
+ *
+ * Running locally against a SQL dump:
+ *   supabase start && psql "$LOCAL_DB_URL" < dump.sql
+ *   supabase functions serve backtest-tickets
+ *   curl -X POST localhost:54321/functions/v1/backtest-tickets \
+ *     -H "Authorization: Bearer $SERVICE_ROLE_KEY" \
+ *     -d '{"from":"2026-01-01","to":"2026-03-01","format":"csv"}'
+ */
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import { TICKET_MODES, getLeagueWeight } from "../_shared/win_rate_config.ts";
+import {
+  runBacktest,
+  backtestReportToCsv,
+  resultFromWinFlag,
+  type BacktestSample,
+  type LegResult,
+} from "../_shared/backtest.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-key",
+};
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 200000;
+
+type PageQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>;
+
+interface SampleRow {
+  selection_id: string;
+  fixture_id: number | null;
+  league_id: number | null;
+  market: string;
+  side: string;
+  line: number | null;
+  book_odds: number;
+  model_prob: number | null;
+  kickoff_at: string | null;
+  result_win: boolean | null;
+  rules_version: string | null;
+}
+
+interface LegRow {
+  id: string;
+  fixture_id: number;
+  league_id: number | null;
+  market: string;
+  side: string;
+  line: number;
+  odds: number;
+  model_prob: number | null;
+  kickoff_at: string;
+  result_status: string;
+  rules_version: string | null;
+}
+
+async function fetchAllPages<T>(buildQuery: PageQuery<T>, label: string): Promise<T[]> {
+  const rows: T[] = [];
+  let from = 0;
+  while (rows.length < MAX_ROWS) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error(`[backtest-tickets] ${label} query error:`, error);
+      throw error;
+    }
+    if (!data || data.length === 0) break;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) break;
+    from += PAGE_SIZE;
+  }
+  return rows;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const auth = await checkCronOrAdminAuth(req, supabase, serviceRoleKey, "[backtest-tickets]");
+  if (!auth.authorized) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const startTime = Date.now();
+    const body = await req.json().catch(() => ({}));
+
+    const to = body.to ? new Date(body.to) : new Date();
+    const from = body.from ? new Date(body.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return new Response(JSON.stringify({ error: "Invalid date range" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const requestedModes: string[] = Array.isArray(body.modes) && body.modes.length > 0
+      ? body.modes.filter((m: string) => m in TICKET_MODES)
+      : Object.keys(TICKET_MODES);
+    const modes = Object.fromEntries(requestedModes.map((m) => [m, TICKET_MODES[m]]));
+    const sources: string[] = Array.isArray(body.sources) && body.sources.length > 0 ? body.sources : ["selections"];
+    const seed = Number.isFinite(Number(body.seed)) ? Number(body.seed) : 42;
+    const stake = Number(body.stake) > 0 ? Number(body.stake) : 1;
+    const minEdge = body.min_edge !== undefined ? Number(body.min_edge) : null;
+
+    console.log(`[backtest-tickets] Window ${from.toISOString()} → ${to.toISOString()} | modes=${requestedModes.join(",")} | sources=${sources.join(",")} | seed=${seed}`);
+
+    const samples: BacktestSample[] = [];
+    const seen = new Set<string>();
+    const push = (s: BacktestSample) => {
+      const key = `${s.rulesVersion}|${s.fixtureId}|${s.market}|${s.side}|${s.line}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      samples.push(s);
+    };
+
+    if (sources.includes("selections")) {
+      const rows = await fetchAllPages<SampleRow>(
+        (a, b) => supabase
+          .from("backtest_samples")
+          .select("selection_id, fixture_id, league_id, market, side, line, book_odds, model_prob, kickoff_at, result_win, rules_version")
+          .gte("kickoff_at", from.toISOString())
+          .lt("kickoff_at", to.toISOString())
+          .not("book_odds", "is", null)
+          .order("kickoff_at", { ascending: true })
+          .order("selection_id", { ascending: true })
+          .range(a, b),
+        "backtest_samples"
+      );
+      for (const r of rows) {
+        if (r.fixture_id == null || r.line == null || !r.kickoff_at) continue;
+        push({
+          fixtureId: Number(r.fixture_id),
+          leagueId: r.league_id ?? null,
+          market: r.market,
+          side: r.side,
+          line: Number(r.line),
+          odds: Number(r.book_odds),
+          modelProb: r.model_prob != null ? Number(r.model_prob) : null,
+          kickoffAt: r.kickoff_at,
+          rulesVersion: r.rules_version || "unversioned",
+          result: resultFromWinFlag(r.result_win),
+          source: "selection",
+        });
+      }
+      console.log(`[backtest-tickets] Loaded ${rows.length} backtest_samples rows`);
+    }
+
+    if (sources.includes("ticket_legs")) {
+      const rows = await fetchAllPages<LegRow>(
+        (a, b) => supabase
+          .from("ticket_leg_outcomes")
+          .select("id, fixture_id, league_id, market, side, line, odds, model_prob, kickoff_at, result_status, rules_version")
+          .in("result_status", ["WIN", "LOSS", "PUSH", "VOID"])
+          .gte("kickoff_at", from.toISOString())
+          .lt("kickoff_at", to.toISOString())
+          .order("kickoff_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(a, b),
+        "ticket_leg_outcomes"
+      );
+      for (const r of rows) {
+        push({
+          fixtureId: Number(r.fixture_id),
+          leagueId: r.league_id ?? null,
+          market: r.market,
+          side: r.side,
+          line: Number(r.line),
+          odds: Number(r.odds),
+          modelProb: r.model_prob != null ? Number(r.model_prob) : null,
+          kickoffAt: r.kickoff_at,
+          // Legs persisted before the rules registry have no version
+          rulesVersion: r.rules_version || "ticket_legs",
+          result: r.result_status as LegResult,
+          source: "ticket_leg",
+        });
+      }
+      console.log(`[backtest-tickets] Loaded ${rows.length} settled ticket_leg_outcomes rows`);
+    }
+
+    const report = runBacktest(samples, modes, {
+      seed,
+      stake,
+      minEdge,
+      leagueWeight: getLeagueWeight,
+    });
+
+    console.log(`[backtest-tickets] ${report.results.length} result rows from ${samples.length} samples in ${Date.now() - startTime}ms`);
+
+    if (body.format === "csv") {
+      const section = body.csv_section === "calibration" ? "calibration" : "summary";
+      return new Response(backtestReportToCsv(report, section), {
+        headers: { ...corsHeaders, "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+
+    if (!body.include_history) {
+      for (const r of report.results) r.history = [];
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        window: { from: from.toISOString(), to: to.toISOString() },
+        modes: requestedModes,
+        sources,
+        duration_ms: Date.now() - startTime,
+        ...report,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[backtest-tickets] Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,10 +1,32 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  BASKETBALL_MODEL_VERSION,
+  marketQuotes,
+  projectGame,
+  restDays,
+  type BasketballModelMarket,
+  type BasketballTeamProfile,
+  type MarketQuote,
+} from "../_shared/basketball_model.ts";
+import {
+  basketballEdges,
+  mainLine,
+  type BasketballEdge,
+  type BasketballOddsRow,
+} from "../_shared/basketball_odds.ts";
 
 /**
- * Basketball Safe Zone Edge Function v2.0
+ * Basketball Safe Zone Edge Function v3.0
  * 
- * Returns upcoming basketball games ranked by probability of high total points
+ * Returns upcoming basketball games ranked by probability of going over the
+ * league's average total, projected by the pace model (_shared/basketball_model.ts)
+ * from basketball_stats_cache ratings and each team's rest before tipoff.
+ * Every game carries totals, team totals, spread, moneyline and half/quarter
+ * quotes. Book main lines from basketball_odds_cache replace the league
+ * average / fair lines when synced, and every best price the model beats is
+ * returned as an edge. Pass game_id to project a single game
+ * (BasketballFixtureAnalyzer).
  * Uses LOCAL DATABASE (basketball_games + basketball_stats_cache) for reliability
  */
 
@@ -13,22 +35,50 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Supported leagues with their average totals
-const SUPPORTED_LEAGUES: Record<string, { name: string; avg_total: number }> = {
-  nba: { name: "NBA", avg_total: 225 },
-  nba_gleague: { name: "G-League", avg_total: 220 },
-  euroleague: { name: "EuroLeague", avg_total: 160 },
-  eurocup: { name: "EuroCup", avg_total: 158 },
-  spain_acb: { name: "Spain ACB", avg_total: 165 },
-  germany_bbl: { name: "Germany BBL", avg_total: 165 },
-  italy_lba: { name: "Italy Lega A", avg_total: 162 },
-  france_prob: { name: "France Pro B", avg_total: 160 },
+// Supported leagues with their average totals and possessions per game
+const SUPPORTED_LEAGUES: Record<string, { name: string; avg_total: number; pace: number }> = {
+  nba: { name: "NBA", avg_total: 225, pace: 99 },
+  nba_gleague: { name: "G-League", avg_total: 220, pace: 101 },
+  euroleague: { name: "EuroLeague", avg_total: 160, pace: 72 },
+  eurocup: { name: "EuroCup", avg_total: 158, pace: 72 },
+  spain_acb: { name: "Spain ACB", avg_total: 165, pace: 73 },
+  germany_bbl: { name: "Germany BBL", avg_total: 165, pace: 75 },
+  italy_lba: { name: "Italy Lega A", avg_total: 162, pace: 73 },
+  france_prob: { name: "France Pro B", avg_total: 160, pace: 72 },
 };
 
+// Previous games this far back are looked up for rest days
+const REST_LOOKBACK_DAYS = 7;
+
 interface BasketballSafeZoneRequest {
   league_key: string;
   days_ahead?: number;
   limit?: number;
+  game_id?: number;
+}
+
+interface StatsCacheRow extends BasketballTeamProfile {
+  team_id: number;
+  season: string;
+  sample_size: number;
+  ppg_for: number;
+  ppg_against: number;
+  last5_ppg_for: number;
+  last5_ppg_against: number;
+}
+
+interface OddsCacheRow extends BasketballOddsRow {
+  game_id: number;
+}
+
+// Markets whose main book line is used for the model quotes
+const BOOK_LINE_MARKETS: BasketballModelMarket[] = ["total", "spread", "home_total", "away_total", "h1_total", "q1_total"];
+
+interface ScheduleRow {
+  id: number;
+  date: string;
+  home_team_id: number;
+  away_team_id: number;
 }
 
 interface GameResult {
@@ -49,10 +99,31 @@ interface GameResult {
   book_line: number | null;
   safe_zone_prob: number;
   data_quality: "high" | "medium" | "low";
+  pace: number;
+  home_points: number;
+  away_points: number;
+  /** Projected home margin */
+  spread: number;
+  home_win_prob: number;
+  home_rest_days: number | null;
+  away_rest_days: number | null;
+  home_b2b: boolean;
+  away_b2b: boolean;
+  venue_splits: boolean;
+  markets: MarketQuote[];
+  book_line_source: "book" | "league_avg";
+  edges: BasketballEdge[];
+  best_edge: BasketballEdge | null;
 }
 
-function clamp(v: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, v));
+/** Date of the team's last game before tipoff, from a schedule sorted by date */
+function previousGameDate(schedule: ScheduleRow[], teamId: number, gameId: number, tipoff: string): string | null {
+  let previous: string | null = null;
+  for (const g of schedule) {
+    if (g.date >= tipoff) break;
+    if (g.id !== gameId && (g.home_team_id === teamId || g.away_team_id === teamId)) previous = g.date;
+  }
+  return previous;
 }
 
 serve(async (req) => {
@@ -65,7 +136,7 @@ serve(async (req) => {
 
   try {
     const body: BasketballSafeZoneRequest = await req.json();
-    const { league_key, days_ahead = 3, limit = 20 } = body;
+    const { league_key, days_ahead = 3, limit = 20, game_id } = body;
 
     // Validate league
     const leagueConfig = SUPPORTED_LEAGUES[league_key];
@@ -90,8 +161,8 @@ serve(async (req) => {
     const endDate = new Date(now);
     endDate.setDate(endDate.getDate() + days_ahead);
 
-    // Fetch upcoming games from local database
-    const { data: games, error: gamesError } = await supabase
+    // Fetch upcoming games (or the requested game) from local database
+    let gamesQuery = supabase
       .from("basketball_games")
       .select(`
         id,
@@ -102,11 +173,14 @@ serve(async (req) => {
         home_team:basketball_teams!basketball_games_home_team_id_fkey(id, name),
         away_team:basketball_teams!basketball_games_away_team_id_fkey(id, name)
       `)
-      .eq("league_key", league_key)
-      .eq("status_short", "NS")
-      .gte("date", now.toISOString())
-      .lte("date", endDate.toISOString())
-      .order("date", { ascending: true });
+      .eq("league_key", league_key);
+    gamesQuery = game_id
+      ? gamesQuery.eq("id", game_id)
+      : gamesQuery
+          .eq("status_short", "NS")
+          .gte("date", now.toISOString())
+          .lte("date", endDate.toISOString());
+    const { data: games, error: gamesError } = await gamesQuery.order("date", { ascending: true });
 
     if (gamesError) {
       console.error(`[basketball-safe-zone] Error fetching games:`, gamesError);
@@ -150,9 +224,9 @@ serve(async (req) => {
     }
 
     // Build stats map (use latest season per team)
-    const teamStatsMap = new Map<number, any>();
+    const teamStatsMap = new Map<number, StatsCacheRow>();
     if (teamStats) {
-      for (const stat of teamStats) {
+      for (const stat of teamStats as StatsCacheRow[]) {
         if (!teamStatsMap.has(stat.team_id)) {
           teamStatsMap.set(stat.team_id, stat);
         }
@@ -161,6 +235,37 @@ serve(async (req) => {
 
     console.log(`[basketball-safe-zone] Fetched stats for ${teamStatsMap.size} teams`);
 
+    // League schedule around the window, for each team's rest before tipoff
+    const scheduleStart = new Date(new Date(games[0].date).getTime() - REST_LOOKBACK_DAYS * 86_400_000);
+    const { data: scheduleData, error: scheduleError } = await supabase
+      .from("basketball_games")
+      .select("id, date, home_team_id, away_team_id")
+      .eq("league_key", league_key)
+      .gte("date", scheduleStart.toISOString())
+      .lte("date", games[games.length - 1].date)
+      .order("date", { ascending: true });
+
+    if (scheduleError) {
+      console.error(`[basketball-safe-zone] Error fetching schedule:`, scheduleError);
+    }
+    const schedule = (scheduleData ?? []) as ScheduleRow[];
+
+    // Synced prices (basketball-sync-odds), grouped per game
+    const { data: oddsData, error: oddsError } = await supabase
+      .from("basketball_odds_cache")
+      .select("game_id, bookmaker, market, selection, line, odds")
+      .in("game_id", games.map((g) => g.id));
+
+    if (oddsError) {
+      console.error(`[basketball-safe-zone] Error fetching odds:`, oddsError);
+    }
+    const oddsByGame = new Map<number, OddsCacheRow[]>();
+    for (const row of (oddsData ?? []) as OddsCacheRow[]) {
+      const list = oddsByGame.get(row.game_id) ?? [];
+      list.push(row);
+      oddsByGame.set(row.game_id, list);
+    }
+
     // Calculate probabilities for each game
     const results: GameResult[] = [];
     
@@ -180,28 +285,31 @@ serve(async (req) => {
       const awayPPG = awayStats?.last5_ppg_for || awayStats?.ppg_for || defaultPPG;
       const awayPAPG = awayStats?.last5_ppg_against || awayStats?.ppg_against || defaultPPG;
       
-      // Calculate expected total points using offensive/defensive matchup
-      // Home team expected score = (home offense + away defense) / 2
-      // Away team expected score = (away offense + home defense) / 2
-      const homeExpected = (homePPG + awayPAPG) / 2;
-      const awayExpected = (awayPPG + homePAPG) / 2;
-      let muPoints = homeExpected + awayExpected;
-      
-      // Home court advantage (small boost)
-      muPoints = muPoints + 3;
-      
-      // Book line (use league default)
-      const bookLine = leagueConfig.avg_total;
-      
-      // Calculate safe zone probability
-      // Higher mu_points vs book_line = higher probability of high scoring game
-      const rawScore = (muPoints - bookLine) / 20; // Normalize difference
-      const safeZoneProb = clamp(0.5 + rawScore, 0.20, 0.90);
+      // Pace model projection with rest before tipoff
+      const rest = {
+        home_rest_days: restDays(previousGameDate(schedule, game.home_team_id, game.id, game.date), game.date),
+        away_rest_days: restDays(previousGameDate(schedule, game.away_team_id, game.id, game.date), game.date),
+      };
+      const projection = projectGame(homeStats ?? null, awayStats ?? null, leagueConfig, rest);
+
+      // Book main lines where synced; total falls back to the league average.
+      // Safe zone = P(total over the book line)
+      const odds = oddsByGame.get(game.id) ?? [];
+      const lines: Partial<Record<BasketballModelMarket, number>> = {};
+      for (const market of BOOK_LINE_MARKETS) {
+        const line = mainLine(odds, market);
+        if (line != null) lines[market] = line;
+      }
+      const bookLineSource = lines.total != null ? "book" : "league_avg";
+      const bookLine = lines.total ?? leagueConfig.avg_total;
+      const markets = marketQuotes(projection, { ...lines, total: bookLine });
+      const safeZoneProb = markets.find((m) => m.market === "total")!.prob;
+      const edges = basketballEdges(projection, odds);
       
-      // Data quality based on sample size
+      // Data quality based on games with a full box score
       const minSample = Math.min(
-        homeStats?.sample_size || 0,
-        awayStats?.sample_size || 0
+        homeStats?.pace_gp || 0,
+        awayStats?.pace_gp || 0
       );
       let dataQuality: "high" | "medium" | "low";
       if (minSample >= 10) dataQuality = "high";
@@ -225,10 +333,24 @@ serve(async (req) => {
         away_ppg: Math.round(awayPPG * 10) / 10,
         home_papg: Math.round(homePAPG * 10) / 10,
         away_papg: Math.round(awayPAPG * 10) / 10,
-        mu_points: Math.round(muPoints * 10) / 10,
+        mu_points: projection.total,
         book_line: bookLine,
-        safe_zone_prob: Math.round(safeZoneProb * 1000) / 1000,
+        safe_zone_prob: safeZoneProb,
         data_quality: dataQuality,
+        pace: projection.pace,
+        home_points: projection.home_points,
+        away_points: projection.away_points,
+        spread: projection.margin,
+        home_win_prob: projection.home_win_prob,
+        home_rest_days: rest.home_rest_days,
+        away_rest_days: rest.away_rest_days,
+        home_b2b: projection.home_b2b,
+        away_b2b: projection.away_b2b,
+        venue_splits: projection.venue_splits,
+        markets,
+        book_line_source: bookLineSource,
+        edges,
+        best_edge: edges[0] ?? null,
       });
     }
     
@@ -249,8 +371,9 @@ serve(async (req) => {
           days_ahead,
           total_games_found: games.length,
           teams_with_stats: teamStatsMap.size,
+          games_with_odds: oddsByGame.size,
           processing_ms: elapsed,
-          model_version: "basketball-safe-zone-v2-db",
+          model_version: BASKETBALL_MODEL_VERSION,
         }
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
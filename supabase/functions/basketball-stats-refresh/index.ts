@@ -2,11 +2,14 @@
  * Basketball Stats Cache Refresh Edge Function
  * 
  * Recomputes season averages and last 5 form for all basketball teams
- * from basketball_game_team_stats into basketball_stats_cache.
+ * from basketball_game_team_stats into basketball_stats_cache, plus the
+ * pace / offensive / defensive ratings (overall and by venue) read by the
+ * pace model in basketball-safe-zone.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { aggregatePace, type TeamBoxScore } from "../_shared/basketball_model.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -111,8 +114,8 @@ serve(async (req) => {
         const { data: gameStats, error: statsError } = await supabase
           .from("basketball_game_team_stats")
           .select(`
-            id, game_id, points, fgm, fga, fgp, tpm, tpa, rebounds_total, assists,
-            is_home,
+            id, game_id, points, fgm, fga, fgp, tpm, tpa, fta, rebounds_total, rebounds_off,
+            assists, turnovers, is_home,
             game:basketball_games!inner(id, home_score, away_score, date)
           `)
           .eq("team_id", teamId)
@@ -196,6 +199,21 @@ serve(async (req) => {
         const last5TPMAvg = last5Count > 0 ? last5TPM / last5Count : 0;
         const last5RPGAvg = last5Count > 0 ? last5RPG / last5Count : 0;
 
+        // Possession-based profile (games missing box-score fields are skipped)
+        const boxScores: TeamBoxScore[] = gameStats.map((stat) => {
+          const game = stat.game as { home_score: number | null; away_score: number | null } | null;
+          return {
+            is_home: stat.is_home,
+            points: stat.points || 0,
+            points_against: game ? (stat.is_home ? game.away_score : game.home_score) : null,
+            fga: stat.fga,
+            fta: stat.fta,
+            rebounds_off: stat.rebounds_off,
+            turnovers: stat.turnovers,
+          };
+        });
+        const profile = aggregatePace(boxScores);
+
         // Upsert to stats cache
         const { error: upsertError } = await supabase
           .from("basketball_stats_cache")
@@ -219,6 +237,7 @@ serve(async (req) => {
             last5_wins: last5Wins,
             last5_losses: last5Losses,
             last5_game_ids: last5GameIds,
+            ...profile,
           }, { onConflict: "team_id,league_key,season" });
 
         if (upsertError) {
@@ -3,20 +3,18 @@
  * 
  * Syncs upcoming basketball games (48h window) into basketball_games table.
  * Also upserts teams into basketball_teams.
- * Uses NBA API and Basketball API.
+ * Uses NBA API and Basketball API, via _shared/data_provider.ts.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-key',
 };
 
-const NBA_BASE = "https://v2.nba.api-sports.io";
-const BASKETBALL_BASE = "https://v1.basketball.api-sports.io";
-
 // Supported leagues configuration
 const SUPPORTED_LEAGUES = {
   nba: { id: 12, api: "nba", season: "2024" },
@@ -46,11 +44,12 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const apiKey = Deno.env.get("API_FOOTBALL_KEY");
+    const provider = getDataProvider();
+    const providerError = provider.configError("basketball");
     
-    if (!apiKey) {
+    if (providerError) {
       return new Response(
-        JSON.stringify({ error: "API_FOOTBALL_KEY not configured" }),
+        JSON.stringify({ error: providerError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -85,6 +84,7 @@ serve(async (req) => {
         status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" }
       });
     }
+    meterApiQuota(supabase, "basketball-sync-fixtures");
 
     // Parse request body - PRO PLAN: Can process all leagues frequently
     const body = await req.json().catch(() => ({}));
@@ -160,16 +160,9 @@ serve(async (req) => {
 
       for (const dateStr of dates) {
         try {
-          let url: string;
-          if (config.api === "nba") {
-            url = `${NBA_BASE}/games?date=${dateStr}`;
-          } else {
-            url = `${BASKETBALL_BASE}/games?league=${config.id}&date=${dateStr}`;
-          }
-
-          const response = await fetch(url, {
-            headers: { "x-apisports-key": apiKey }
-          });
+          const response = config.api === "nba"
+            ? await provider.get("nba", `/games?date=${dateStr}`)
+            : await provider.get("basketball", `/games?league=${config.id}&date=${dateStr}`);
           apiCalls++;
 
           if (!response.ok) {
@@ -177,8 +170,8 @@ serve(async (req) => {
             continue;
           }
 
-          const data = await response.json();
-          const games = data.response || [];
+          const data = response.body ?? {};
+          const games = Array.isArray(data.response) ? data.response : [];
           
           console.log(`[basketball-sync-fixtures] ${leagueKey} ${dateStr}: ${games.length} games`);
 
@@ -0,0 +1,284 @@
+/**
+ * basketball-sync-odds
+ *
+ * Fetches odds for upcoming basketball games and normalizes into
+ * basketball_odds_cache (canonical markets: _shared/basketball_odds.ts).
+ *
+ * Unique constraint: (game_id, bookmaker, market, selection, line)
+ *
+ * Only leagues synced from api-basketball are queried — games from the NBA
+ * API (nba, nba_gleague) have no odds endpoint. Prices outside the guard
+ * band are dropped and counted, never stored.
+ *
+ * Provider: api-sports.io basketball /odds endpoint (by api_game_id), via
+ *           _shared/data_provider.ts
+ * Auth key: API_FOOTBALL_KEY env secret (shared api-sports key)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
+import {
+  BASKETBALL_ODDS_LEAGUES,
+  checkSuspiciousBasketballOdds,
+  normalizeBasketballMarket,
+  normalizeBasketballSelection,
+} from "../_shared/basketball_odds.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-key",
+};
+
+// Trusted bookmakers (normalized to lowercase for matching)
+const TRUSTED_BOOKMAKERS = new Set([
+  "bet365", "1xbet", "pinnacle", "unibet", "williamhill",
+  "betway", "bwin", "888sport", "marathonbet", "betfair",
+  "dafabet", "betcris", "bovada", "fanduel", "draftkings",
+]);
+
+function normalizeBookmaker(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+interface UpcomingGame {
+  id: number;
+  api_game_id: number;
+}
+
+interface ProviderBookmaker {
+  name?: string;
+  bets?: { name?: string; values?: { value?: string; odd?: string }[] }[];
+}
+
+interface OddsCacheInsert {
+  game_id: number;
+  bookmaker: string;
+  market: string;
+  selection: string;
+  line: number;
+  odds: number;
+  captured_at: string;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  console.log("[basketball-sync-odds] ===== START =====");
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const provider = getDataProvider();
+    const providerError = provider.configError("basketball");
+
+    if (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // ── Auth ────────────────────────────────────────────────────────────────
+    const cronKeyHeader = req.headers.get("x-cron-key");
+    const authHeader = req.headers.get("authorization");
+    let isAuthorized = authHeader === `Bearer ${serviceRoleKey}`;
+    if (!isAuthorized && cronKeyHeader) {
+      const { data: dbKey } = await supabase.rpc("get_cron_internal_key");
+      if (cronKeyHeader === dbKey) isAuthorized = true;
+    }
+    if (!isAuthorized && authHeader) {
+      const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+      if (anonKey) {
+        const userClient = createClient(supabaseUrl, anonKey, {
+          global: { headers: { Authorization: authHeader } },
+        });
+        const { data: isWhitelisted } = await userClient.rpc("is_user_whitelisted");
+        if (isWhitelisted) isAuthorized = true;
+      }
+    }
+    if (!isAuthorized) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    meterApiQuota(supabase, "basketball-sync-odds");
+
+    // ── Params ──────────────────────────────────────────────────────────────
+    const body = await req.json().catch(() => ({}));
+    const batchLimit: number = body.limit ?? 30;
+    const windowHours: number = body.window_hours ?? 48;
+    const overrideGameIds: number[] | null = body.game_ids ?? null;
+
+    // ── Find upcoming games needing odds ─────────────────────────────────────
+    const now = new Date();
+    const cutoff = new Date(now.getTime() + windowHours * 60 * 60 * 1000);
+
+    let gamesQuery = supabase
+      .from("basketball_games")
+      .select("id, api_game_id")
+      .in("league_key", [...BASKETBALL_ODDS_LEAGUES]);
+    gamesQuery = overrideGameIds && overrideGameIds.length > 0
+      ? gamesQuery.in("id", overrideGameIds)
+      : gamesQuery
+          .eq("status_short", "NS")
+          .gte("date", now.toISOString())
+          .lte("date", cutoff.toISOString());
+
+    const { data: upcoming, error: upErr } = await gamesQuery
+      .order("date", { ascending: true })
+      .limit(batchLimit);
+
+    if (upErr) {
+      return new Response(
+        JSON.stringify({ error: upErr.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const games = (upcoming ?? []) as UpcomingGame[];
+    console.log(`[basketball-sync-odds] Found ${games.length} games in ${windowHours}h window`);
+
+    if (games.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, odds_upserted: 0, api_calls: 0, message: "No upcoming games" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ── Fetch odds per game ─────────────────────────────────────────────────
+    let oddsUpserted = 0;
+    let oddsSkipped = 0;
+    let oddsSuspicious = 0;
+    let apiCalls = 0;
+    const errors: string[] = [];
+
+    for (const game of games) {
+      try {
+        const response = await provider.get<{ bookmakers?: ProviderBookmaker[] }[]>(
+          "basketball",
+          `/odds?game=${game.api_game_id}`
+        );
+        apiCalls++;
+
+        if (!response.ok) {
+          errors.push(`API ${response.status} for game ${game.id}`);
+          continue;
+        }
+
+        const json = response.body ?? {};
+        if (json.errors && Object.keys(json.errors).length > 0) {
+          errors.push(`API errors game ${game.id}: ${JSON.stringify(json.errors)}`);
+          continue;
+        }
+
+        const bookmakers: ProviderBookmaker[] = json.response?.[0]?.bookmakers ?? [];
+        const capturedAt = new Date().toISOString();
+        // One row per unique key: a bookmaker listing the same selection twice keeps the last
+        const rows = new Map<string, OddsCacheInsert>();
+
+        for (const bm of bookmakers) {
+          const bookmaker = normalizeBookmaker(bm.name ?? "");
+          if (!TRUSTED_BOOKMAKERS.has(bookmaker)) continue;
+
+          for (const bet of bm.bets ?? []) {
+            const market = normalizeBasketballMarket(bet.name ?? "");
+            if (!market) continue;
+
+            for (const val of bet.values ?? []) {
+              const odds = parseFloat(val.odd ?? "");
+              if (isNaN(odds) || odds <= 1) continue;
+
+              const parsed = normalizeBasketballSelection(market, val.value ?? "");
+              if (!parsed) {
+                oddsSkipped++;
+                continue;
+              }
+              const warning = checkSuspiciousBasketballOdds(market, odds);
+              if (warning) {
+                console.warn(`[basketball-sync-odds] game ${game.id} ${bookmaker}: ${warning} - DROPPED`);
+                oddsSuspicious++;
+                continue;
+              }
+
+              rows.set(`${bookmaker}|${market}|${parsed.selection}|${parsed.line}`, {
+                game_id: game.id,
+                bookmaker,
+                market,
+                selection: parsed.selection,
+                line: parsed.line,
+                odds,
+                captured_at: capturedAt,
+              });
+            }
+          }
+        }
+
+        if (rows.size === 0) continue;
+
+        const { error: upsertErr } = await supabase
+          .from("basketball_odds_cache")
+          .upsert([...rows.values()], { onConflict: "game_id,bookmaker,market,selection,line" });
+
+        if (upsertErr) {
+          errors.push(`Odds upsert game=${game.id}: ${upsertErr.message}`);
+        } else {
+          oddsUpserted += rows.size;
+        }
+      } catch (gameErr) {
+        errors.push(`Exception game ${game.id}: ${gameErr instanceof Error ? gameErr.message : String(gameErr)}`);
+      }
+    }
+
+    const elapsed = Date.now() - startTime;
+    console.log(
+      `[basketball-sync-odds] ═══════ COMPLETE ═══════ upserted=${oddsUpserted} skipped=${oddsSkipped} suspicious=${oddsSuspicious} api_calls=${apiCalls} errors=${errors.length} elapsed=${elapsed}ms`
+    );
+
+    await supabase.from("pipeline_run_logs").insert({
+      job_name: "basketball-sync-odds",
+      run_started: new Date(startTime).toISOString(),
+      run_finished: new Date().toISOString(),
+      success: errors.length === 0,
+      mode: "cron",
+      processed: oddsUpserted,
+      failed: errors.length,
+      details: {
+        games_queried: games.length,
+        odds_upserted: oddsUpserted,
+        odds_skipped: oddsSkipped,
+        odds_suspicious: oddsSuspicious,
+        api_calls: apiCalls,
+        errors: errors.slice(0, 20),
+        elapsed_ms: elapsed,
+      },
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        odds_upserted: oddsUpserted,
+        odds_skipped: oddsSkipped,
+        odds_suspicious: oddsSuspicious,
+        api_calls: apiCalls,
+        games_queried: games.length,
+        elapsed_ms: elapsed,
+        errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error("[basketball-sync-odds] FATAL:", message);
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -2,20 +2,28 @@
  * Basketball Sync Results Edge Function
  * 
  * Fetches detailed game statistics for finished games and stores in basketball_game_team_stats.
- * Similar to football's results-refresh.
+ * Similar to football's results-refresh. Provider calls go through
+ * _shared/data_provider.ts.
+ *
+ * Bet journal settlement: after the stats pass, pending basketball
+ * bet_journal_legs whose game basketball-sync-fixtures has marked final are
+ * scored (_shared/basketball_legs.ts), legs on cancelled or abandoned games
+ * are voided, and their bets settled (_shared/journal_settlement.ts). Games
+ * finished in earlier runs are picked up too, so a failed settlement retries
+ * next run.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
+import { scoreBasketballLeg, type BasketballGameResult } from "../_shared/basketball_legs.ts";
+import { settleJournalBets } from "../_shared/journal_settlement.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-key',
 };
 
-const NBA_BASE = "https://v2.nba.api-sports.io";
-const BASKETBALL_BASE = "https://v1.basketball.api-sports.io";
-
 const LEAGUE_API_MAP: Record<string, { api: string; leagueId?: number }> = {
   nba: { api: "nba" },
   nba_gleague: { api: "nba" },
@@ -27,6 +35,61 @@ const LEAGUE_API_MAP: Record<string, { api: string; leagueId?: number }> = {
   france_prob: { api: "basketball", leagueId: 40 },
 };
 
+const JOURNAL_BATCH = 500;
+
+interface SettleableJournalLeg extends BasketballGameResult {
+  leg_id: string;
+  bet_id: string;
+  fixture_id: number;
+  market: string;
+  side: string;
+  line: number;
+}
+
+/**
+ * Score pending basketball journal legs against basketball_games and settle
+ * their bets. The RPC only returns legs on final or cancelled / abandoned games, so legs
+ * whose game is not final stay PENDING without holding up the batch.
+ */
+async function settleBasketballJournal(
+  supabase: SupabaseClient,
+  errors: string[]
+): Promise<{ scored_legs: number; settled_bets: number }> {
+  const { data: legs, error: legsErr } = await supabase
+    .rpc("get_settleable_basketball_journal_legs", { batch_limit: JOURNAL_BATCH });
+
+  if (legsErr) {
+    errors.push(`Journal legs query: ${legsErr.message}`);
+    return { scored_legs: 0, settled_bets: 0 };
+  }
+
+  let scored = 0;
+  const betsToUpdate = new Set<string>();
+
+  for (const leg of (legs ?? []) as SettleableJournalLeg[]) {
+    const score = scoreBasketballLeg(leg, leg);
+    if (!score) continue;
+
+    const { error: updateErr } = await supabase
+      .from("bet_journal_legs")
+      .update({ ...score, settled_at: new Date().toISOString() })
+      .eq("id", leg.leg_id)
+      .eq("result_status", "PENDING");
+
+    if (updateErr) {
+      errors.push(`Journal leg ${leg.leg_id}: ${updateErr.message}`);
+      continue;
+    }
+    scored++;
+    betsToUpdate.add(leg.bet_id);
+  }
+
+  const settled = await settleJournalBets(supabase, betsToUpdate, errors);
+
+  console.log(`[basketball-sync-results] Journal: scored ${scored} legs, settled ${settled} bets`);
+  return { scored_legs: scored, settled_bets: settled };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -38,11 +101,12 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const apiKey = Deno.env.get("API_FOOTBALL_KEY");
+    const provider = getDataProvider();
+    const providerError = provider.configError("basketball");
     
-    if (!apiKey) {
+    if (providerError) {
       return new Response(
-        JSON.stringify({ error: "API_FOOTBALL_KEY not configured" }),
+        JSON.stringify({ error: providerError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -75,6 +139,7 @@ serve(async (req) => {
         status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" }
       });
     }
+    meterApiQuota(supabase, "basketball-sync-results");
 
     const body = await req.json().catch(() => ({}));
     // PRO PLAN: 7500/day = ~300/hour - process up to 100 games per run
@@ -129,16 +194,10 @@ serve(async (req) => {
         }
 
         // Fetch game statistics
-        let url: string;
-        if (config.api === "nba") {
-          url = `${NBA_BASE}/games/statistics?id=${game.api_game_id}`;
-        } else {
-          url = `${BASKETBALL_BASE}/games/statistics?id=${game.api_game_id}`;
-        }
-
-        const response = await fetch(url, {
-          headers: { "x-apisports-key": apiKey }
-        });
+        const response = await provider.get(
+          config.api === "nba" ? "nba" : "basketball",
+          `/games/statistics?id=${game.api_game_id}`
+        );
         apiCalls++;
 
         if (!response.ok) {
@@ -147,8 +206,8 @@ serve(async (req) => {
           continue;
         }
 
-        const data = await response.json();
-        const statsResponse = data.response || [];
+        const data = response.body ?? {};
+        const statsResponse = Array.isArray(data.response) ? data.response : [];
 
         if (statsResponse.length === 0) {
           errors.push(`No stats for game ${game.api_game_id}`);
@@ -246,6 +305,8 @@ serve(async (req) => {
       }
     }
 
+    const journal = await settleBasketballJournal(supabase, errors);
+
     const elapsed = Date.now() - startTime;
     console.log(`[basketball-sync-results] Completed in ${elapsed}ms: ${processed} processed, ${failed} failed`);
 
@@ -260,6 +321,7 @@ serve(async (req) => {
       failed,
       details: {
         api_calls: apiCalls,
+        journal,
         elapsed_ms: elapsed,
         errors: errors.slice(0, 10),
       }
@@ -271,6 +333,7 @@ serve(async (req) => {
         processed,
         failed,
         api_calls: apiCalls,
+        journal,
         elapsed_ms: elapsed,
         errors: errors.length > 0 ? errors.slice(0, 5) : undefined,
       }),
@@ -2,6 +2,10 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { checkUserRateLimit, buildRateLimitResponse } from "../_shared/rate_limit.ts";
+import { poissonPMF, poissonCDF } from "../_shared/probability.ts";
+import { scorePrices, summarizeMatchModel, MODEL_VERSION } from "../_shared/stat_model.ts";
+import { loadMatchModelInputs, modelForFixture } from "../_shared/match_model.ts";
+import { extractTotalsPrices } from "../_shared/odds_normalization.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,30 +17,6 @@ const RequestSchema = z.object({
   fixtureId: z.number().int().positive(),
 });
 
-// Poisson probability mass function
-function poissonPMF(lambda: number, k: number): number {
-  if (lambda <= 0) return k === 0 ? 1 : 0;
-  return Math.exp(-lambda + k * Math.log(lambda) - logFactorial(k));
-}
-
-function logFactorial(n: number): number {
-  if (n <= 1) return 0;
-  let result = 0;
-  for (let i = 2; i <= n; i++) {
-    result += Math.log(i);
-  }
-  return result;
-}
-
-// Poisson CDF P(X <= k)
-function poissonCDF(lambda: number, k: number): number {
-  let sum = 0;
-  for (let i = 0; i <= k; i++) {
-    sum += poissonPMF(lambda, i);
-  }
-  return Math.min(1, sum);
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204, headers: corsHeaders });
@@ -153,31 +133,35 @@ serve(async (req) => {
       );
     }
 
-    const homeTeamId = fixture.teams_home.id;
-    const awayTeamId = fixture.teams_away.id;
+    const homeTeamId = Number(fixture.teams_home?.id);
+    const awayTeamId = Number(fixture.teams_away?.id);
 
-    const [homeStatsRes, awayStatsRes] = await Promise.all([
-      supabaseClient.from("stats_cache").select("*").eq("team_id", homeTeamId).maybeSingle(),
-      supabaseClient.from("stats_cache").select("*").eq("team_id", awayTeamId).maybeSingle(),
+    const [inputs, oddsRes] = await Promise.all([
+      loadMatchModelInputs(supabaseClient, [homeTeamId, awayTeamId], [fixture.league_id]),
+      supabaseClient.from("odds_cache").select("payload").eq("fixture_id", fixtureId).maybeSingle(),
     ]);
 
-    if (!homeStatsRes.data || !awayStatsRes.data) {
+    const model = modelForFixture(inputs, {
+      home_team_id: homeTeamId,
+      away_team_id: awayTeamId,
+      league_id: fixture.league_id,
+    });
+
+    if (!model.goals) {
       return new Response(
         JSON.stringify({ error: "Team stats not found" }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 404 }
       );
     }
 
-    const HOME_ADVANTAGE = 1.06;
-    const SHRINKAGE_TAU = 10;
-    const LEAGUE_MEAN_GOALS = 1.4;
-
-    const homeWeight = homeStatsRes.data.sample_size / (homeStatsRes.data.sample_size + SHRINKAGE_TAU);
-    const awayWeight = awayStatsRes.data.sample_size / (awayStatsRes.data.sample_size + SHRINKAGE_TAU);
+    const lambdaHome = model.goals.lambdaHome;
+    const lambdaAway = model.goals.lambdaAway;
+    const lambdaTotal = model.goals.distribution.mean;
 
-    const lambdaHome = (homeStatsRes.data.goals * homeWeight + LEAGUE_MEAN_GOALS * (1 - homeWeight)) * HOME_ADVANTAGE;
-    const lambdaAway = awayStatsRes.data.goals * awayWeight + LEAGUE_MEAN_GOALS * (1 - awayWeight);
-    const lambdaTotal = lambdaHome + lambdaAway;
+    // Positive-edge priced selections across every modelled market
+    const edges = scorePrices(model, extractTotalsPrices(oddsRes.data?.payload))
+      .filter((e) => e.edge > 0)
+      .map((e) => ({ ...e, confidence: e.model_prob >= 0.65 ? "high" : e.model_prob >= 0.55 ? "medium" : "low" }));
 
     const prob0Goals = poissonPMF(lambdaTotal, 0);
     const prob1Goals = poissonPMF(lambdaTotal, 1);
@@ -205,6 +189,9 @@ serve(async (req) => {
         cdf_1: cdf1,
         cdf_2: cdf2,
         cdf_3: cdf3,
+        model_version: MODEL_VERSION,
+        markets: summarizeMatchModel(model),
+        edges,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
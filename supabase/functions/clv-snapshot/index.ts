@@ -0,0 +1,257 @@
+/*
+ * CLV SNAPSHOT - Closing Line Value for optimized selections and ticket legs
+ *
+ * Runs every 5 minutes via cron.
+ * For fixtures kicking off between -2h and +15min, compares the recommended /
+ * ticket price with the latest odds_cache payload captured BEFORE kickoff and
+ * upserts one clv_snapshots row per optimized_selections / ticket_leg_outcomes row.
+ *
+ * Later runs overwrite a snapshot only with a later pre-kickoff capture, so the
+ * stored price converges on the true closing line.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import { extractTotalsPrices, type TotalsPrice } from "../_shared/odds_normalization.ts";
+import { closingLine, computeClv } from "../_shared/clv.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-key",
+};
+
+const LOOKBACK_MS = 2 * 60 * 60 * 1000;
+const LOOKAHEAD_MS = 15 * 60 * 1000;
+
+interface PickRow {
+  source: "optimized_selection" | "ticket_leg";
+  source_id: string;
+  fixture_id: number;
+  league_id: number | null;
+  market: string;
+  side: string;
+  line: number;
+  rules_version: string | null;
+  bookmaker: string | null;
+  taken_odds: number;
+  taken_at: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  const logs: string[] = [];
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const auth = await checkCronOrAdminAuth(req, supabase, serviceRoleKey, "[clv-snapshot]");
+  if (!auth.authorized) {
+    console.error("[clv-snapshot] Unauthorized request");
+    return new Response(
+      JSON.stringify({ error: "Unauthorized", method: auth.method }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const now = Date.now();
+    const windowStart = new Date(now - LOOKBACK_MS);
+    const windowEnd = new Date(now + LOOKAHEAD_MS);
+
+    // Step 1: Fixtures around kickoff
+    const { data: fixtures, error: fixturesError } = await supabase
+      .from("fixtures")
+      .select("id, league_id, timestamp")
+      .gte("timestamp", Math.floor(windowStart.getTime() / 1000))
+      .lte("timestamp", Math.floor(windowEnd.getTime() / 1000));
+
+    if (fixturesError) throw fixturesError;
+
+    const kickoffById = new Map<number, { kickoff: string; league_id: number | null }>();
+    for (const f of fixtures ?? []) {
+      if (f.timestamp) {
+        kickoffById.set(f.id, { kickoff: new Date(f.timestamp * 1000).toISOString(), league_id: f.league_id });
+      }
+    }
+    const fixtureIds = [...kickoffById.keys()];
+    logs.push(`[clv] ${fixtureIds.length} fixtures in window ${windowStart.toISOString()} → ${windowEnd.toISOString()}`);
+
+    if (fixtureIds.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, fixtures: 0, upserted: 0, duration_ms: Date.now() - startTime, logs }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 2: Picks to price (pre-match selections + ticket legs)
+    const [selectionsRes, legsRes, oddsRes, existingRes] = await Promise.all([
+      supabase
+        .from("optimized_selections")
+        .select("id, fixture_id, league_id, market, side, line, rules_version, bookmaker, odds, computed_at")
+        .in("fixture_id", fixtureIds)
+        .eq("is_live", false)
+        .not("odds", "is", null),
+      supabase
+        .from("ticket_leg_outcomes")
+        .select("id, fixture_id, league_id, market, side, line, rules_version, odds, picked_at")
+        .in("fixture_id", fixtureIds),
+      supabase
+        .from("odds_cache")
+        .select("fixture_id, payload, captured_at")
+        .in("fixture_id", fixtureIds),
+      supabase
+        .from("clv_snapshots")
+        .select("source, source_id, closing_captured_at")
+        .in("fixture_id", fixtureIds),
+    ]);
+
+    for (const res of [selectionsRes, legsRes, oddsRes, existingRes]) {
+      if (res.error) throw res.error;
+    }
+
+    const picks: PickRow[] = [
+      ...(selectionsRes.data ?? []).map((s) => ({
+        source: "optimized_selection" as const,
+        source_id: s.id,
+        fixture_id: s.fixture_id,
+        league_id: s.league_id,
+        market: s.market,
+        side: s.side,
+        line: Number(s.line),
+        rules_version: s.rules_version,
+        bookmaker: s.bookmaker,
+        taken_odds: Number(s.odds),
+        taken_at: s.computed_at,
+      })),
+      ...(legsRes.data ?? []).map((l) => ({
+        source: "ticket_leg" as const,
+        source_id: l.id,
+        fixture_id: l.fixture_id,
+        league_id: l.league_id,
+        market: l.market,
+        side: l.side,
+        line: Number(l.line),
+        rules_version: l.rules_version,
+        bookmaker: null,
+        taken_odds: Number(l.odds),
+        taken_at: l.picked_at,
+      })),
+    ];
+
+    // Step 3: Pre-kickoff prices only
+    const pricesByFixture = new Map<number, { prices: TotalsPrice[]; captured_at: string }>();
+    let staleOrLive = 0;
+    for (const o of oddsRes.data ?? []) {
+      const kickoff = kickoffById.get(o.fixture_id)?.kickoff;
+      if (!kickoff || !o.captured_at || o.captured_at > kickoff) {
+        staleOrLive++;
+        continue;
+      }
+      pricesByFixture.set(o.fixture_id, { prices: extractTotalsPrices(o.payload), captured_at: o.captured_at });
+    }
+
+    const existingCapture = new Map<string, string>();
+    for (const e of existingRes.data ?? []) {
+      existingCapture.set(`${e.source}|${e.source_id}`, e.closing_captured_at);
+    }
+
+    // Step 4: Build snapshots
+    let unpriced = 0;
+    let unchanged = 0;
+    const rows = [];
+    for (const p of picks) {
+      const odds = pricesByFixture.get(p.fixture_id);
+      const fixture = kickoffById.get(p.fixture_id);
+      if (!odds || !fixture || !(p.taken_odds > 1)) {
+        unpriced++;
+        continue;
+      }
+
+      const previous = existingCapture.get(`${p.source}|${p.source_id}`);
+      if (previous && previous >= odds.captured_at) {
+        unchanged++;
+        continue;
+      }
+
+      const closing = closingLine(odds.prices, p);
+      if (!closing) {
+        unpriced++;
+        continue;
+      }
+
+      rows.push({
+        ...p,
+        league_id: p.league_id ?? fixture.league_id,
+        kickoff_at: fixture.kickoff,
+        closing_odds: closing.odds,
+        closing_bookmaker: closing.bookmaker,
+        closing_method: closing.method,
+        closing_fair_prob: closing.fair_prob,
+        closing_captured_at: odds.captured_at,
+        ...computeClv(p.taken_odds, closing),
+      });
+    }
+
+    let upserted = 0;
+    let failed = 0;
+    for (let i = 0; i < rows.length; i += 500) {
+      const batch = rows.slice(i, i + 500);
+      const { error } = await supabase.from("clv_snapshots").upsert(batch, { onConflict: "source,source_id" });
+      if (error) {
+        failed += batch.length;
+        logs.push(`[clv] Upsert error: ${error.message}`);
+      } else {
+        upserted += batch.length;
+      }
+    }
+
+    logs.push(`[clv] picks=${picks.length} upserted=${upserted} unchanged=${unchanged} unpriced=${unpriced} live_or_missing_odds=${staleOrLive}`);
+
+    await supabase.from("optimizer_run_logs").insert({
+      run_type: "clv-snapshot",
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      scope: { fixtures: fixtureIds.length },
+      scanned: picks.length,
+      upserted,
+      skipped: unpriced,
+      failed,
+      started_at: new Date(startTime).toISOString(),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
+      notes: null,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        fixtures: fixtureIds.length,
+        picks: picks.length,
+        upserted,
+        unchanged,
+        unpriced,
+        failed,
+        duration_ms: Date.now() - startTime,
+        logs,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[clv-snapshot] Error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        logs,
+        duration_ms: Date.now() - startTime,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
@@ -1,7 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { ALLOWED_LEAGUE_IDS, getCountryIdForLeague } from '../_shared/leagues.ts';
-import { apiHeaders, API_BASE } from '../_shared/api.ts';
+import { getDataProvider, meterApiQuota } from '../_shared/provider_registry.ts';
 import { UPCOMING_WINDOW_HOURS } from '../_shared/config.ts';
 
 const corsHeaders = {
@@ -59,6 +59,7 @@ serve(async (req) => {
     }
 
     console.log('[cron-fetch-fixtures] Lock acquired, starting job');
+    meterApiQuota(supabase, 'cron-fetch-fixtures');
 
     // 4. ALWAYS use UPCOMING_WINDOW_HOURS from config (ignores any body override)
     // This ensures 48h is the single source of truth even if cron passes 120
@@ -93,13 +94,22 @@ serve(async (req) => {
       dates.push(d.toISOString().split('T')[0]);
     }
 
+    let quotaDeferred = false;
+
     for (const leagueId of ALLOWED_LEAGUE_IDS) {
+      if (quotaDeferred) break;
       leaguesProcessed++;
 
       for (const dateStr of dates) {
         try {
-          const url = `${API_BASE}/fixtures?league=${leagueId}&season=2025&date=${dateStr}`;
-          const response = await fetch(url, { headers: apiHeaders() });
+          const response = await getDataProvider().get('football', `/fixtures?league=${leagueId}&season=2025&date=${dateStr}`);
+
+          // Quota ledger refused: every later request would be refused too
+          if (response.deferred) {
+            console.warn(`[cron-fetch-fixtures] Quota deferred (${response.deferred}) at league ${leagueId}, stopping`);
+            quotaDeferred = true;
+            break;
+          }
           totalApiCalls++;
 
           if (!response.ok) {
@@ -108,7 +118,7 @@ serve(async (req) => {
             continue;
           }
 
-          const apiResponse = await response.json();
+          const apiResponse: any = response.body;
 
           if (!apiResponse?.response || apiResponse.response.length === 0) {
             continue;
@@ -207,6 +217,7 @@ serve(async (req) => {
         inserted: fixturesInserted,
         updated: fixturesUpdated,
         failure_reasons: failureReasons,
+        quota_deferred: quotaDeferred,
       }),
     });
 
@@ -223,6 +234,7 @@ serve(async (req) => {
         updated: fixturesUpdated,
         skipped: fixturesSkipped,
         failed: fixturesFailed,
+        quota_deferred: quotaDeferred,
         duration_ms: durationMs,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -17,8 +17,10 @@ serve(async (req) => {
   // ============================================================================
   // cron-warmup-odds: Production cron job for automated odds & selections refresh
   // ============================================================================
-  // Called by pg_cron every 30 minutes
-  // Runs batched backfill-odds → optimize-selections-refresh pipeline
+  // Run by pipeline-orchestrator's prematch pipeline with skip_optimize: backfill
+  // only, the orchestrator runs the optimizer once stats-refresh has also
+  // succeeded. Its standalone pg_cron schedule is retired (pipeline_runs migration).
+  // Without skip_optimize (manual calls) it runs backfill-odds → optimize-selections-refresh
   // Always returns HTTP 200 for pg_cron stability
   // ============================================================================
   
@@ -74,8 +76,8 @@ serve(async (req) => {
     console.log('[cron-warmup-odds] Lock acquired, starting job');
 
     // 4. Parse window_hours (default 48h for cron)
-    const { window_hours = UPCOMING_WINDOW_HOURS } = await req.json().catch(() => ({ window_hours: UPCOMING_WINDOW_HOURS }));
-    console.log(`[cron-warmup-odds] Processing ${window_hours}h window`);
+    const { window_hours = UPCOMING_WINDOW_HOURS, skip_optimize = false } = await req.json().catch(() => ({ window_hours: UPCOMING_WINDOW_HOURS }));
+    console.log(`[cron-warmup-odds] Processing ${window_hours}h window${skip_optimize ? ' (backfill only)' : ''}`);
 
     // 5. Call batched backfill-odds once (processes up to 30 fixtures)
     console.log(`[cron-warmup-odds] Step 1: Calling backfill-odds (batch mode, window=${window_hours}h)...`);
@@ -114,44 +116,49 @@ serve(async (req) => {
 
     // CRITICAL FIX: Wait 15 seconds after backfill completes for odds_cache writes to propagate
     // This ensures optimize-selections-refresh sees the newly fetched odds
-    if (backfillOk && backfillFetched > 0) {
+    if (backfillOk && backfillFetched > 0 && !skip_optimize) {
       console.log(`[cron-warmup-odds] Waiting 15s for odds_cache writes to propagate...`);
       await new Promise(resolve => setTimeout(resolve, 15000));
     }
 
     // 6. Call optimize-selections-refresh once (uses latest stats + odds)
-    console.log(`[cron-warmup-odds] Step 2: Calling optimize-selections-refresh (window=${window_hours}h)...`);
     let optimizeOk = false;
     let optimizeError = null;
     let optimizeData: any = null;
     let optimizeScanned = 0;
     let optimizeUpserted = 0;
     
-    try {
-      const optimizeUrl = `${supabaseUrl}/functions/v1/optimize-selections-refresh`;
-      const optimizeResponse = await fetch(optimizeUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseServiceKey}`,
-        },
-        body: JSON.stringify({ window_hours })
-      });
+    if (skip_optimize) {
+      console.log('[cron-warmup-odds] Step 2 skipped (skip_optimize)');
+      optimizeOk = true;
+    } else {
+      console.log(`[cron-warmup-odds] Step 2: Calling optimize-selections-refresh (window=${window_hours}h)...`);
+      try {
+        const optimizeUrl = `${supabaseUrl}/functions/v1/optimize-selections-refresh`;
+        const optimizeResponse = await fetch(optimizeUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+          },
+          body: JSON.stringify({ window_hours })
+        });
       
-      if (!optimizeResponse.ok) {
-        const errorText = await optimizeResponse.text().catch(() => 'No response body');
-        optimizeError = `optimize-selections-refresh failed with status ${optimizeResponse.status}: ${errorText.substring(0, 200)}`;
+        if (!optimizeResponse.ok) {
+          const errorText = await optimizeResponse.text().catch(() => 'No response body');
+          optimizeError = `optimize-selections-refresh failed with status ${optimizeResponse.status}: ${errorText.substring(0, 200)}`;
+          console.error('[cron-warmup-odds]', optimizeError);
+        } else {
+          optimizeData = await optimizeResponse.json();
+          optimizeOk = true;
+          optimizeScanned = optimizeData.scanned || 0;
+          optimizeUpserted = optimizeData.upserted || 0;
+          console.log(`[cron-warmup-odds] optimize-selections-refresh success: scanned=${optimizeScanned}, upserted=${optimizeUpserted}`);
+        }
+      } catch (err: any) {
+        optimizeError = `optimize-selections-refresh exception: ${err.message}`;
         console.error('[cron-warmup-odds]', optimizeError);
-      } else {
-        optimizeData = await optimizeResponse.json();
-        optimizeOk = true;
-        optimizeScanned = optimizeData.scanned || 0;
-        optimizeUpserted = optimizeData.upserted || 0;
-        console.log(`[cron-warmup-odds] optimize-selections-refresh success: scanned=${optimizeScanned}, upserted=${optimizeUpserted}`);
       }
-    } catch (err: any) {
-      optimizeError = `optimize-selections-refresh exception: ${err.message}`;
-      console.error('[cron-warmup-odds]', optimizeError);
     }
 
     // 7. Log comprehensive run details with metrics from both steps
@@ -250,6 +257,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         ok: true,
+        success: overallSuccess,
         job: 'cron-warmup-odds',
         window_hours,
         backfill: {
@@ -259,7 +267,7 @@ serve(async (req) => {
           error: backfillError
         },
         optimize: {
-          status: optimizeOk ? 'success' : 'failed',
+          status: skip_optimize ? 'skipped' : optimizeOk ? 'success' : 'failed',
           scanned: optimizeScanned,
           upserted: optimizeUpserted,
           error: optimizeError
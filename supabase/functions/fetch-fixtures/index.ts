@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 import { ALLOWED_LEAGUE_IDS, LEAGUE_NAMES, getCountryIdForLeague } from "../_shared/leagues.ts";
 import { RPM_LIMIT, UPCOMING_WINDOW_HOURS } from "../_shared/config.ts";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
@@ -78,6 +78,7 @@ serve(async (req) => {
       console.error("[fetch-fixtures] Authorization failed - no valid credentials");
       return errorResponse("Unauthorized: missing/invalid X-CRON-KEY or user not whitelisted", origin, 401, req);
     }
+    meterApiQuota(supabase, "fetch-fixtures");
 
     const { window_hours = UPCOMING_WINDOW_HOURS } = await req.json();
     
@@ -161,10 +162,8 @@ serve(async (req) => {
     }
     
     for (const dateStr of dateSet) {
-      const url = `${API_BASE}/fixtures?date=${dateStr}&timezone=UTC`;
-      
       try {
-        const response = await fetch(url, { headers: apiHeaders() });
+        const response = await getDataProvider().get("football", `/fixtures?date=${dateStr}&timezone=UTC`);
         apiCalls++;
 
         if (!response.ok) {
@@ -173,9 +172,9 @@ serve(async (req) => {
           continue;
         }
 
-        const data = await response.json();
+        const data = response.body ?? {};
         
-        if (data.response && data.response.length > 0) {
+        if (Array.isArray(data.response) && data.response.length > 0) {
           fixturesScannedTotal += data.response.length;
 
           const validFixtures = data.response.filter((item: any) => {
@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,16 +37,16 @@ serve(async (req) => {
       );
     }
 
-    const API_KEY = Deno.env.get("API_FOOTBALL_KEY");
-    if (!API_KEY) {
-      throw new Error("API_FOOTBALL_KEY not configured");
+    const provider = getDataProvider();
+    const providerError = provider.configError("football");
+    if (providerError) {
+      throw new Error(providerError);
     }
+    meterApiQuota(supabaseClient, "fetch-odds-bets");
 
     console.log(`[fetch-odds-bets] User ${user.id} fetching available bet markets`);
 
-    const url = `${API_BASE}/odds/bets`;
-    
-    const response = await fetch(url, { headers: apiHeaders() });
+    const response = await provider.get<unknown[]>("football", "/odds/bets");
 
     if (!response.ok) {
       console.error(`[fetch-odds-bets] API error: ${response.status}`);
@@ -56,7 +56,7 @@ serve(async (req) => {
       );
     }
 
-    const data = await response.json();
+    const data = response.body ?? {};
     
     console.log(`[fetch-odds-bets] Found ${data.response?.length || 0} bet types`);
 
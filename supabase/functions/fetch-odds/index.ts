@@ -1,7 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
+import { recordOddsHistory } from "../_shared/odds_history.ts";
+import type { OddsPayloadLike } from "../_shared/odds_normalization.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -66,10 +68,12 @@ serve(async (req) => {
 
     const { fixtureId, markets, bookmakers, live = false, forceRefresh = false } = validation.data;
     
-    const API_KEY = Deno.env.get("API_FOOTBALL_KEY");
-    if (!API_KEY) {
-      throw new Error("API_FOOTBALL_KEY not configured");
+    const provider = getDataProvider();
+    const configError = provider.configError("football");
+    if (configError) {
+      throw new Error(configError);
     }
+    meterApiQuota(supabaseClient, "fetch-odds");
 
     const cacheKey = `odds:${fixtureId}:${live ? "live" : "prematch"}:${markets?.join(",") || "all"}:${bookmakers?.join(",") || "all"}`;
 
@@ -125,13 +129,10 @@ serve(async (req) => {
       searchParams.append("live", "true");
     }
 
-    const res = await fetch(`${API_BASE}/odds?${searchParams}`, {
-      method: "GET",
-      headers: apiHeaders(),
-    });
+    const res = await provider.get<(OddsPayloadLike & { fixture?: unknown })[]>("football", `/odds?${searchParams}`);
 
     if (!res.ok) {
-      console.error(`[fetch-odds] API error: ${res.status} ${res.statusText}`);
+      console.error(`[fetch-odds] API error: ${res.status}`);
       // Fallback to any cached odds (even stale)
       const { data: cachedOdds } = await supabaseClient
         .from("odds_cache")
@@ -162,7 +163,7 @@ serve(async (req) => {
       });
     }
 
-    const json = await res.json();
+    const json = res.body ?? {};
     if (!json.response || json.response.length === 0) {
       console.warn(`[fetch-odds] No odds found for fixture ${fixtureId} from API, attempting cache fallback`);
       const { data: cachedOdds } = await supabaseClient
@@ -200,14 +201,18 @@ serve(async (req) => {
 
     // Persist to cache
     console.log(`[fetch-odds] Persisting ${selections.length} selections to cache for fixture ${fixtureId}`);
+    const capturedAt = new Date().toISOString();
     await supabaseClient.from("odds_cache").upsert({
       fixture_id: fixtureId,
-      captured_at: new Date().toISOString(),
+      captured_at: capturedAt,
       payload: {
         fixture: fixtureOdds.fixture,
         bookmakers: fixtureOdds.bookmakers,
       },
     });
+    if (!live) {
+      await recordOddsHistory(supabaseClient, fixtureId, fixtureOdds, capturedAt);
+    }
 
     return new Response(
       JSON.stringify({
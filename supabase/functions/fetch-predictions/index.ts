@@ -7,7 +7,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 import { checkCronOrAdminAuth } from "../_shared/auth.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
@@ -37,6 +37,7 @@ serve(async (req) => {
     if (!authResult.authorized) {
       return errorResponse("Unauthorized", origin, 401, req);
     }
+    meterApiQuota(supabase, "fetch-predictions");
 
     let body: RequestBody = {};
     try {
@@ -73,7 +74,7 @@ serve(async (req) => {
     let skipped = 0;
     let failed = 0;
 
-    const headers = apiHeaders();
+    const provider = getDataProvider();
     const cacheTTL = 12 * 3600 * 1000; // 12 hours in ms
 
     for (const fixture of fixtures) {
@@ -94,10 +95,17 @@ serve(async (req) => {
       }
 
       // Fetch from API-Football /predictions
-      const url = `${API_BASE}/predictions?fixture=${fixture.id}`;
       try {
-        const response = await fetch(url, { headers });
-        const json = await response.json();
+        const response = await provider.get("football", `/predictions?fixture=${fixture.id}`);
+
+        // Quota ledger refused: the remaining fixtures would be refused too
+        if (response.deferred) {
+          console.warn(`[fetch-predictions] Quota deferred (${response.deferred}) at fixture ${fixture.id}, stopping`);
+          failed++;
+          break;
+        }
+
+        const json: any = response.body ?? {};
 
         if (!response.ok || json.errors?.length > 0) {
           console.warn(`[fetch-predictions] API error for fixture ${fixture.id}:`, json.errors);
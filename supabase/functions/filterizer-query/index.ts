@@ -2,10 +2,14 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { checkSuspiciousOdds } from "../_shared/suspicious_odds_guards.ts";
-import { ODDS_MIN, ODDS_MAX, UPCOMING_WINDOW_HOURS } from "../_shared/config.ts";
-import { RULES, RULES_VERSION, pickFromCombined, type StatMarket } from "../_shared/rules.ts";
+import { ODDS_MIN, ODDS_MAX, UPCOMING_WINDOW_HOURS, LIVE_LOOKBACK_HOURS } from "../_shared/config.ts";
+import { matrixHasPick, pickFromCombined, type StatMarket } from "../_shared/rules.ts";
+import { loadRulesRegistry, resolveServedRulesVersion, servedRulesMatrix } from "../_shared/rules_registry.ts";
 import { validateFixturesBatch, MIN_SAMPLE_SIZE } from "../_shared/stats_integrity.ts";
 import { checkUserRateLimit, buildRateLimitResponse } from "../_shared/rate_limit.ts";
+import { toLineMovement, type LineMovement } from "../_shared/odds_movement.ts";
+import { loadLiveContexts } from "../_shared/live_state.ts";
+import { scoreLivePick } from "../_shared/live_model.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,6 +17,14 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
 };
 
+interface LiveRowState {
+  status: string;
+  elapsed: number;
+  score: string;
+  current: number;
+  prematch_prob: number | null;
+}
+
 const RequestSchema = z.object({
   date: z.string(),
   market: z.enum(["goals", "cards", "corners", "fouls", "offsides"]),
@@ -21,13 +33,15 @@ const RequestSchema = z.object({
   minOdds: z.number().min(1.0).optional(),
   countryCode: z.string().optional(),
   leagueIds: z.array(z.number().int().positive()).optional(),
-  live: z.boolean().optional(),
+  live: z.boolean().optional(), // in-play view: re-rank on live match state
   showAllOdds: z.boolean().optional(), // NEW: show all bookmaker odds instead of best per fixture
   includeModelOnly: z.boolean().optional(), // NEW: include model-only selections (no odds)
   allLeagues: z.boolean().optional(), // NEW: all leagues mode (next 48h)
   dayRange: z.enum(["all", "today", "tomorrow"]).optional(), // Date filter (48h horizon)
   limit: z.number().int().positive().max(200).optional(), // pagination
   offset: z.number().int().min(0).optional(), // pagination
+  sortBy: z.enum(["odds", "probability", "edge"]).optional(), // ranking for priced rows
+  lineMovement: z.enum(["any", "toward", "against"]).optional(), // consensus odds move since open
 });
 
 serve(async (req) => {
@@ -136,16 +150,18 @@ serve(async (req) => {
       allLeagues = false,
       dayRange = "all", // Default to all (no date restriction)
       limit = 50,
-      offset = 0
+      offset = 0,
+      sortBy = "odds",
+      lineMovement = "any"
     } = validation.data;
 
     // Cap limit at 100 for all-leagues mode to prevent huge responses
     const effectiveLimit = allLeagues ? Math.min(limit, 100) : limit;
 
-    // Get the qualification range for this market/line combination
-    const rules = RULES[market as StatMarket];
-    // Validate that the requested (market, side, line) has a qualification rule
-    const hasValidRule = rules?.some(r => r.pick && r.pick.side === side && r.pick.line === line);
+    // Resolve the active rules matrix (default rules + per-league overrides)
+    const activeRulesVersion = await loadRulesRegistry(supabaseClient);
+    // Validate that the requested (market, side, line) has a qualification rule in any league
+    const hasValidRule = matrixHasPick(market as StatMarket, side, line);
     
     if (!hasValidRule) {
       console.warn(`[filterizer-query] No qualification rule found for ${market} ${side} ${line}`);
@@ -161,7 +177,7 @@ serve(async (req) => {
       );
     }
     
-    console.log(`[filterizer-query] market=${market} side=${side} line=${line} minOdds=${minOdds} allLeagues=${allLeagues} dayRange=${dayRange} rules=${RULES_VERSION}`);
+    console.log(`[filterizer-query] market=${market} side=${side} line=${line} minOdds=${minOdds} allLeagues=${allLeagues} dayRange=${dayRange} rules=${activeRulesVersion}`);
     
     if (allLeagues) {
       console.log(`[filterizer-query] allLeagues mode enabled`);
@@ -214,10 +230,21 @@ serve(async (req) => {
       endDate.setTime(endDate.getTime() + (UPCOMING_WINDOW_HOURS * 60 * 60 * 1000));
     }
     
+    if (live) {
+      // In-play view ignores the day range: every match currently under way
+      startDate = new Date(Date.now() - LIVE_LOOKBACK_HOURS * 60 * 60 * 1000);
+      endDate = new Date();
+    }
+
     const queryStart = startDate;
 
     console.log(`[filterizer-query] window=[${queryStart.toISOString()} → ${endDate.toISOString()}]`);
 
+    // Rows tagged with the matrix that qualified them; keep serving the previous
+    // version until optimize-selections-refresh has produced the active one
+    const rulesVersion = await resolveServedRulesVersion(supabaseClient, activeRulesVersion, queryStart, endDate);
+    const rulesMatrix = await servedRulesMatrix(supabaseClient, rulesVersion);
+
     // Build query for selections - READ ONLY PRE-QUALIFIED ROWS
     // Enforce global odds band [1.25, 5.00] regardless of user input
     const effectiveMinOdds = Math.max(minOdds, ODDS_MIN);
@@ -256,9 +283,9 @@ serve(async (req) => {
     }
     
     // Stage counters (computed via lightweight count queries)
-    // NOTE: is_live is reserved for future live markets feature.
-    // For now, we only serve pre-match rows (is_live = false) in the UI.
-    // Backend: optimized_selections table contains is_live column.
+    // NOTE: the optimizer only writes pre-match rows (is_live = false). The live
+    // view re-scores those same qualified rows on the match state instead of
+    // reading separate live rows.
     // Frontend: All user-facing queries use pre-match views (v_selections_prematch, etc.)
     const scopeType = allLeagues 
       ? "all_leagues"
@@ -271,8 +298,8 @@ serve(async (req) => {
     const baseGlobal = supabaseClient
       .from("optimized_selections")
       .select("id", { count: "exact", head: true })
-      .eq("rules_version", RULES_VERSION)
-      .eq("is_live", live)
+      .eq("rules_version", rulesVersion)
+      .eq("is_live", false)
       .gte("utc_kickoff", queryStart.toISOString())
       .lte("utc_kickoff", endDate.toISOString());
     const { count: inWindow } = await baseGlobal;
@@ -281,8 +308,8 @@ serve(async (req) => {
     let baseScoped = supabaseClient
       .from("optimized_selections")
       .select("id", { count: "exact", head: true })
-      .eq("rules_version", RULES_VERSION)
-      .eq("is_live", live)
+      .eq("rules_version", rulesVersion)
+      .eq("is_live", false)
       .gte("utc_kickoff", queryStart.toISOString())
       .lte("utc_kickoff", endDate.toISOString());
     if (!allLeagues) {
@@ -300,8 +327,8 @@ serve(async (req) => {
     let marketScope = supabaseClient
       .from("optimized_selections")
       .select("id", { count: "exact", head: true })
-      .eq("rules_version", RULES_VERSION)
-      .eq("is_live", live)
+      .eq("rules_version", rulesVersion)
+      .eq("is_live", false)
       .gte("utc_kickoff", queryStart.toISOString())
       .lte("utc_kickoff", endDate.toISOString())
       .eq("market", market)
@@ -323,8 +350,8 @@ serve(async (req) => {
     let oddsScope = supabaseClient
       .from("optimized_selections")
       .select("id", { count: "exact", head: true })
-      .eq("rules_version", RULES_VERSION)
-      .eq("is_live", live)
+      .eq("rules_version", rulesVersion)
+      .eq("is_live", false)
       .gte("utc_kickoff", queryStart.toISOString())
       .lte("utc_kickoff", endDate.toISOString())
       .eq("market", market)
@@ -345,13 +372,14 @@ serve(async (req) => {
     const { count: minOddsKept } = await oddsScope;
 
     // Final data query applying all filters - USE PRE-MATCH VIEW for automatic status filtering
+    // (live view reads the table: its fixtures have already kicked off)
     let query = supabaseClient
-      .from("v_selections_prematch")
+      .from(live ? "optimized_selections" : "v_selections_prematch")
       .select("*")
       .eq("market", market)
       .eq("side", side)
-      .eq("rules_version", RULES_VERSION) // Only qualified selections from current matrix
-      .eq("is_live", live)
+      .eq("rules_version", rulesVersion) // Only qualified selections from current matrix
+      .eq("is_live", false)
       .gte("utc_kickoff", queryStart.toISOString())
       .lte("utc_kickoff", endDate.toISOString());
 
@@ -431,7 +459,7 @@ serve(async (req) => {
       // Defensive: Check combined value qualification using pickFromCombined (inclusive bounds)
       if (row.combined_snapshot && row.combined_snapshot[market] !== undefined) {
         const combinedValue = Number(row.combined_snapshot[market]);
-        const expectedPick = pickFromCombined(market as StatMarket, combinedValue);
+        const expectedPick = pickFromCombined(market as StatMarket, combinedValue, row.league_id, rulesMatrix);
         
         // Verify the selection matches what the combined value should qualify for
         if (!expectedPick || expectedPick.side !== side || expectedPick.line !== line) {
@@ -462,8 +490,69 @@ serve(async (req) => {
       return true;
     });
 
-    // Sort: priced first (by odds DESC), then model-only (by model_prob DESC, then combined value DESC)
-    const sorted = rows.sort((a: any, b: any) => {
+    // Live view: re-score each selection on its match state (remaining-time model),
+    // dropping fixtures without fresh state and selections already decided
+    let liveDropped = 0;
+    const liveByRow = new Map<string, LiveRowState>();
+    let liveKept = rows;
+    if (live) {
+      const contexts = await loadLiveContexts(supabaseClient, rows.map((row) => row.fixture_id));
+      liveKept = rows.filter((row) => {
+        const ctx = contexts.get(row.fixture_id);
+        const score = ctx ? scoreLivePick(ctx.model, ctx.state, row) : null;
+        if (!ctx || !score || score.settled) {
+          liveDropped++;
+          return false;
+        }
+        liveByRow.set(row.id, {
+          status: ctx.state.status,
+          elapsed: ctx.state.elapsed,
+          score: `${ctx.state.goals_home}-${ctx.state.goals_away}`,
+          current: score.current,
+          prematch_prob: row.model_prob ?? null,
+        });
+        row.model_prob = score.live_prob;
+        row.edge_pct = row.odds ? ((score.live_prob * row.odds - 1) * 100) : null;
+        return true;
+      });
+    }
+
+    // Line movement since open: consensus (median across bookmakers) from odds_history.
+    // "toward" = our price has shortened, "against" = it has drifted.
+    const movementByFixture = new Map<number, LineMovement>();
+    const movementFixtureIds = [...new Set(liveKept.map((row) => row.fixture_id))];
+    if (movementFixtureIds.length > 0) {
+      const { data: movementRows, error: movementError } = await supabaseClient.rpc("get_line_movement", {
+        p_fixture_ids: movementFixtureIds,
+        p_market: market,
+        p_side: side,
+        p_line: line,
+      });
+      if (movementError) {
+        console.warn(`[filterizer-query] Line movement lookup failed:`, movementError.message);
+      }
+      for (const m of movementRows || []) {
+        movementByFixture.set(Number(m.fixture_id), toLineMovement({
+          open_odds: Number(m.open_odds),
+          current_odds: Number(m.current_odds),
+          books: m.books,
+          opened_at: m.opened_at,
+          updated_at: m.updated_at,
+        }));
+      }
+    }
+
+    let movementDropped = 0;
+    const movementKept = lineMovement === "any" ? liveKept : liveKept.filter((row) => {
+      if (movementByFixture.get(row.fixture_id)?.direction === lineMovement) return true;
+      movementDropped++;
+      return false;
+    });
+
+    // Sort: priced first (by sortBy: odds / model_prob / edge_pct DESC), then model-only
+    // (by model_prob DESC, then combined value DESC). Live view ranks on live probability.
+    const effectiveSortBy = live ? "probability" : sortBy;
+    const sorted = movementKept.sort((a: any, b: any) => {
       const aHasOdds = a.odds !== null && a.odds !== undefined;
       const bHasOdds = b.odds !== null && b.odds !== undefined;
       
@@ -471,8 +560,14 @@ serve(async (req) => {
       if (aHasOdds && !bHasOdds) return -1;
       if (!aHasOdds && bHasOdds) return 1;
       
-      // Both priced: sort by odds DESC (highest first)
+      // Both priced: sort by the requested key DESC, odds as tie-breaker
       if (aHasOdds && bHasOdds) {
+        if (effectiveSortBy === "probability" && (b.model_prob || 0) !== (a.model_prob || 0)) {
+          return (b.model_prob || 0) - (a.model_prob || 0);
+        }
+        if (effectiveSortBy === "edge" && (b.edge_pct ?? -Infinity) !== (a.edge_pct ?? -Infinity)) {
+          return (b.edge_pct ?? -Infinity) - (a.edge_pct ?? -Infinity);
+        }
         return (b.odds || 0) - (a.odds || 0);
       }
       
@@ -490,7 +585,7 @@ serve(async (req) => {
     });
 
     const qualifiedCount = sorted.length;
-    console.log(`[filterizer-query] Stage 2: qualified=${qualifiedCount} (dropped: not_qualified=${qualifiedDropped}, suspicious=${suspiciousDropped}, odds_filtered=${oddsFiltered})`);
+    console.log(`[filterizer-query] Stage 2: qualified=${qualifiedCount} (dropped: not_qualified=${qualifiedDropped}, suspicious=${suspiciousDropped}, odds_filtered=${oddsFiltered}, live=${liveDropped}, line_movement=${movementDropped})`);
 
     // Dedupe or keep all based on showAllOdds
     let deduped: any[];
@@ -567,11 +662,13 @@ serve(async (req) => {
           line: row.line,
           bookmaker: row.bookmaker,
           odds: row.odds,
-          is_live: row.is_live,
+          is_live: live || row.is_live,
           edge_pct: row.edge_pct,
           model_prob: row.model_prob,
           sample_size: row.sample_size,
           combined_snapshot: row.combined_snapshot,
+          line_movement: movementByFixture.get(row.fixture_id) ?? null,
+          live_state: liveByRow.get(row.id) ?? null,
           // Fixture metadata
           home_team: fixture?.teams_home?.name || 'Unknown',
           away_team: fixture?.teams_away?.name || 'Unknown',
@@ -584,7 +681,7 @@ serve(async (req) => {
     console.log(`[filterizer-query] Final: ${enriched.length} selections returned (stats_integrity_dropped=${statsIntegrityDropped})`);
 
     // Acceptance-style logging
-    console.log(`[filterizer] market=${market} side=${side} line=${line} minOdds=${minOdds.toFixed(2)} rules=${RULES_VERSION}`);
+    console.log(`[filterizer] market=${market} side=${side} line=${line} minOdds=${minOdds.toFixed(2)} rules=${rulesVersion}`);
     console.log(`[filterizer] window=[${queryStart.toISOString()} → ${endDate.toISOString()}] scope=${scopeType}`);
     console.log(`[filterizer] counts: in_window=${inWindow || 0} → scope_count=${scopeCount || 0} → market_matched=${marketMatched || 0} → min_odds_kept=${minOddsKept || 0} → qualified_kept=${qualifiedCount} → final=${enriched.length}`);
 
@@ -605,7 +702,7 @@ serve(async (req) => {
         scope: scopeType,
         scope_count: scopeCount || 0,
         window: { start: queryStart.toISOString(), end: endDate.toISOString() },
-        filters: { market, side, line, minOdds, showAllOdds, rulesVersion: RULES_VERSION },
+        filters: { market, side, line, minOdds, showAllOdds, sortBy: effectiveSortBy, lineMovement, live, rulesVersion },
         pagination: { limit: effectiveLimit, offset, has_more: showAllOdds && (offset + effectiveLimit < qualifiedCount) },
         debug: {
           counters: {
@@ -621,6 +718,8 @@ serve(async (req) => {
             qualified: qualifiedCount,
             dropped_not_qualified: qualifiedDropped,
             dropped_suspicious: suspiciousDropped,
+            dropped_live: liveDropped,
+            dropped_line_movement: movementDropped,
             deduped: deduped.length,
             final: enriched.length,
           }
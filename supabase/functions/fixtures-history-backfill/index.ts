@@ -10,6 +10,7 @@ import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { ALLOWED_LEAGUE_IDS } from "../_shared/leagues.ts";
 import { fetchAPIFootball, fetchFixtureStatistics as fetchStats, getRateLimiterStats } from "../_shared/api_football.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
 
 interface RequestBody {
   seasonsBack?: number;
@@ -122,6 +123,12 @@ Deno.serve(async (req: Request) => {
       return errorResponse("Unauthorized", origin, 401, req);
     }
 
+    const deferral = await meterApiQuota(supabase, "fixtures-history-backfill").deferral();
+    if (deferral) {
+      console.warn(`[history-backfill] Deferred: ${deferral.reason} quota reached (${deferral.used} calls today)`);
+      return jsonResponse({ success: true, deferred: true, quota: deferral }, origin, 200, req);
+    }
+
     // Parse request body
     let body: RequestBody = {};
     try {
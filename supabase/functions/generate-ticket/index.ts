@@ -30,10 +30,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { pickLine, Market } from "../_shared/ticket_rules.ts";
-import { pickFromCombined, RULES, RULES_VERSION, type StatMarket } from "../_shared/rules.ts";
+import { pickFromCombined, getActiveRulesVersion, type StatMarket } from "../_shared/rules.ts";
+import { loadRulesRegistry, resolveServedRulesVersion, servedRulesMatrix } from "../_shared/rules_registry.ts";
+import { scorePrices, type MatchModel, type PriceEdge } from "../_shared/stat_model.ts";
+import { loadMatchModelInputs, modelForFixture } from "../_shared/match_model.ts";
+import { extractTotalsPrices } from "../_shared/odds_normalization.ts";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
-import { ODDS_MIN, ODDS_MAX } from "../_shared/config.ts";
+import { ODDS_MIN, ODDS_MAX, LIVE_LOOKBACK_HOURS } from "../_shared/config.ts";
+import { loadLiveContexts } from "../_shared/live_state.ts";
+import { scoreLivePick } from "../_shared/live_model.ts";
 import { checkSuspiciousOdds } from "../_shared/suspicious_odds_guards.ts";
+import { generateOptimizedTicket } from "../_shared/ticket_search.ts";
+import { assessTicketCorrelation, parseLegSide } from "../_shared/ticket_correlation.ts";
 import { validateFixturesBatch, MIN_SAMPLE_SIZE } from "../_shared/stats_integrity.ts";
 import { checkUserRateLimit, buildRateLimitResponse } from "../_shared/rate_limit.ts";
 import { 
@@ -95,6 +103,7 @@ interface TicketLeg {
   line?: number; // Actual line from odds (for consistency checking)
   side?: "over" | "under"; // Actual side from odds (for consistency checking)
   modelProb?: number; // Model confidence for this leg (0-1)
+  rulesVersion?: string; // Rules matrix version that qualified this leg
 }
 
 // Validation schemas
@@ -389,7 +398,7 @@ async function processFixtureToPool(
     const avgValue = combined[market];
     if (avgValue === undefined || avgValue === null) continue;
 
-    const rulePick = pickFromCombined(market as any, avgValue);
+    const rulePick = pickFromCombined(market as StatMarket, avgValue, fixture.league_id);
     if (!rulePick) {
       logs.push(`[${fixtureId}] ${market}=${avgValue.toFixed(2)} → no qualifying range (not eligible) - SKIPPED`);
       continue;
@@ -429,6 +438,7 @@ async function processFixtureToPool(
         source: oddsData.source,
         line: exactMatch.line,
         side: exactMatch.kind,
+        rulesVersion: getActiveRulesVersion(),
       });
       logs.push(`[fixture:${fixtureId}] ${market}: EXACT ${exactMatch.kind} ${exactMatch.line} @ ${exactMatch.odds}`);
     } else {
@@ -504,6 +514,9 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
     kept_with_edge: 0,
     avg_edge_kept: 0,
   };
+  const rulesVersion = await loadRulesRegistry(supabase);
+  console.log(`[AI-ticket] Rules matrix: ${rulesVersion}`);
+
   if (isMaxWinRateMode) {
     useDynamicWeights = await loadPerformanceWeights(supabase);
     console.log(`[AI-ticket] Dynamic weights loaded: ${useDynamicWeights}, areWeightsLoaded: ${areWeightsLoaded()}`);
@@ -610,6 +623,14 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
     const effectiveMarkets = markets.filter(m => gbMarkets.includes(m) && !BANNED_MARKETS.includes(m));
     logs.push(`[GREEN_BUCKETS] Effective markets: [${effectiveMarkets.join(',')}] | Leagues: [${gbLeagueIds.join(',')}]`);
     
+    // LIVE: also consider matches already under way (re-scored on their live state below)
+    const poolStart = useLiveOdds ? new Date(now.getTime() - LIVE_LOOKBACK_HOURS * 60 * 60 * 1000) : now;
+    
+    // Same served version as filterizer-query: the previous matrix until the
+    // optimizer has produced rows for the active one
+    const servedVersion = await resolveServedRulesVersion(supabase, rulesVersion, poolStart, endDate);
+    const servedMatrix = await servedRulesMatrix(supabase, servedVersion);
+    
     // Primary query: strict date range
     // FRESHNESS GATE: only consume selections computed within last 6 hours
     const SELECTION_MAX_AGE_HOURS = 6;
@@ -618,7 +639,8 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
     let query = supabase
       .from("optimized_selections")
       .select(`id, fixture_id, league_id, country_code, utc_kickoff, market, side, line, odds, bookmaker, is_live, combined_snapshot, sample_size, rules_version, model_prob, computed_at`)
-      .gte("utc_kickoff", now.toISOString())
+      .eq("rules_version", servedVersion)
+      .gte("utc_kickoff", poolStart.toISOString())
       .lt("utc_kickoff", endDate.toISOString())
       .gte("computed_at", selectionFreshnessFloor)
       .in("market", effectiveMarkets)
@@ -643,7 +665,8 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
       let extQuery = supabase
         .from("optimized_selections")
         .select(`id, fixture_id, league_id, country_code, utc_kickoff, market, side, line, odds, bookmaker, is_live, combined_snapshot, sample_size, rules_version, model_prob, computed_at`)
-        .gte("utc_kickoff", now.toISOString())
+        .eq("rules_version", servedVersion)
+        .gte("utc_kickoff", poolStart.toISOString())
         .lt("utc_kickoff", extendedEnd.toISOString())
         .gte("computed_at", selectionFreshnessFloor)
         .in("market", effectiveMarkets)
@@ -658,6 +681,27 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
       }
     }
     
+    // LIVE: re-score started matches on score / minute / red cards; drop those
+    // without fresh live state and selections the match has already decided
+    if (useLiveOdds && selections && selections.some((s) => new Date(s.utc_kickoff) <= now)) {
+      const started = selections.filter((s) => new Date(s.utc_kickoff) <= now);
+      const contexts = await loadLiveContexts(supabase, started.map((s) => s.fixture_id));
+      let liveDropped = 0;
+      selections = selections.filter((sel) => {
+        if (new Date(sel.utc_kickoff) > now) return true;
+        const ctx = contexts.get(sel.fixture_id);
+        const score = ctx ? scoreLivePick(ctx.model, ctx.state, sel) : null;
+        if (!ctx || !score || score.settled) {
+          liveDropped++;
+          return false;
+        }
+        sel.model_prob = score.live_prob;
+        sel.is_live = true;
+        return true;
+      });
+      logs.push(`[LIVE] In-play candidates: ${started.length - liveDropped} re-scored, ${liveDropped} dropped (no fresh state or already decided)`);
+    }
+    
     if (selectionsError) {
       console.error("[Global Mode] Error fetching selections:", selectionsError);
       logs.push(`[Global Mode] Error: ${selectionsError.message}`);
@@ -768,7 +812,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
         
         if (combinedSnapshot && combinedSnapshot[market] !== undefined) {
           const combinedValue = Number(combinedSnapshot[market]);
-          const expectedPick = pickFromCombined(market as StatMarket, combinedValue);
+          const expectedPick = pickFromCombined(market as StatMarket, combinedValue, leagueId, servedMatrix);
           if (!expectedPick || expectedPick.side !== side || expectedPick.line !== line) {
             droppedNotQualified++;
             logs.push(`[NOT_QUALIFIED] ${market}=${combinedValue.toFixed(2)} does not qualify for ${side} ${line} (fixture ${(sel as any).fixture_id}) - DROPPED`);
@@ -909,6 +953,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
           side: side as "over" | "under",
           // NEW: Store model_prob and league_id for edge-based selection & bucket scoring
           modelProb: candidateModelProb,
+          rulesVersion: (sel as any).rules_version ?? getActiveRulesVersion(),
           _leagueId: leagueId, // stash for bucket score computation
         } as TicketLeg & { modelProb: number; _leagueId: number });
       }
@@ -1296,7 +1341,16 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
   const winProb = ticket.legs.reduce((acc, leg) => acc * (1 / leg.odds), 1);
   const winProbPct = Math.round(winProb * 10000) / 100;
 
+  // Model win probability: naive (independent legs) vs correlation-adjusted
+  const correlation = ticket.correlation;
+  const modelWinProbPct = correlation ? Math.round(correlation.naive_prob * 10000) / 100 : null;
+  const adjustedWinProbPct = correlation ? Math.round(correlation.adjusted_prob * 10000) / 100 : null;
+  if (correlation && correlation.pairs.length > 0) {
+    logs.push(`[CORRELATION] ${correlation.pairs.length} correlated pairs, factor=${correlation.factor.toFixed(3)} (naive=${modelWinProbPct}% adjusted=${adjustedWinProbPct}%)`);
+  }
+
   // 5. PERSIST TO DB
+  let persistedTicketId: string | null = null;
   try {
     // Write optimizer_cache rows (one per leg)
     for (const leg of ticket.legs) {
@@ -1317,6 +1371,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
       const legModelProb = leg.modelProb ?? (1 / leg.odds); // Fallback to implied prob if model_prob missing
       return acc * legModelProb;
     }, 1);
+    const ticketModelProbAdjusted = correlation?.adjusted_prob ?? ticketModelProb;
 
     // Write generated_tickets row and get the ID
     const { data: insertedTicket, error: ticketError } = await supabase
@@ -1330,6 +1385,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
         legs: ticket.legs,
         ticket_mode: ticketMode,
         ticket_model_prob: ticketModelProb,
+        ticket_model_prob_adjusted: ticketModelProbAdjusted,
       })
       .select("id")
       .single();
@@ -1339,6 +1395,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
     }
 
     const ticketId = insertedTicket.id;
+    persistedTicketId = ticketId;
     logs.push(`[AI-ticket] Created ticket ${ticketId}`);
 
     // === PHASE 2: Populate ticket_leg_outcomes + ticket_outcomes ===
@@ -1376,6 +1433,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
       result_status: string;
       derived_from_selection: boolean;
       model_prob: number | null; // NEW: leg-level model confidence
+      rules_version: string | null;
     }> = [];
     
     let skippedLegs = 0;
@@ -1430,6 +1488,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
         result_status: "PENDING",
         derived_from_selection: !leg.side || leg.line === undefined || leg.line <= 0,
         model_prob: leg.modelProb ?? null, // NEW: store model confidence for calibration
+        rules_version: leg.rulesVersion ?? null,
       });
     }
 
@@ -1470,6 +1529,7 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
         total_odds: ticket.total_odds,
         ticket_mode: ticketMode, // NEW: store for performance analysis
         ticket_model_prob: ticketModelProb, // NEW: product of leg model_probs
+        ticket_model_prob_adjusted: ticketModelProbAdjusted,
       }, {
         onConflict: "ticket_id",
         ignoreDuplicates: true
@@ -1492,7 +1552,10 @@ async function handleAITicketCreator(body: z.infer<typeof AITicketSchema>, supab
     JSON.stringify({
       ticket: {
         ...ticket,
+        ticket_id: persistedTicketId,
         estimated_win_prob: winProbPct,
+        model_win_prob: modelWinProbPct,
+        correlation_adjusted_win_prob: adjustedWinProbPct,
         within_band: ticket.within_band,
       },
       pool_size: candidatePool.length,
@@ -1573,6 +1636,12 @@ async function handleBetOptimizer(body: z.infer<typeof BetOptimizerSchema>, supa
   const thresholds = { minProb: 0.58, minEdge: 0.03 };
   const candidates: any[] = [];
 
+  const modelInputs = await loadMatchModelInputs(
+    supabase,
+    fixtures.flatMap((f: any) => [Number(f.teams_home?.id), Number(f.teams_away?.id)]),
+    fixtures.map((f: any) => f.league_id)
+  );
+
   for (const fixture of fixtures) {
     // BLACKLISTED LEAGUES: Skip entirely (Feb 2026 audit)
     if (BLACKLISTED_LEAGUE_IDS.includes(fixture.league_id)) {
@@ -1588,22 +1657,14 @@ async function handleBetOptimizer(body: z.infer<typeof BetOptimizerSchema>, supa
 
     if (!oddsCache) continue;
 
-    const homeTeamId = fixture.teams_home.id;
-    const awayTeamId = fixture.teams_away.id;
-
-    const [homeStatsRes, awayStatsRes] = await Promise.all([
-      supabase.from("stats_cache").select("*").eq("team_id", homeTeamId).maybeSingle(),
-      supabase.from("stats_cache").select("*").eq("team_id", awayTeamId).maybeSingle(),
-    ]);
-
-    if (!homeStatsRes.data || !awayStatsRes.data) continue;
+    const model = modelForFixture(modelInputs, {
+      home_team_id: Number(fixture.teams_home?.id),
+      away_team_id: Number(fixture.teams_away?.id),
+      league_id: fixture.league_id,
+    });
+    if (Object.keys(model).length === 0) continue;
 
-    const edges = await calculateFixtureEdges(
-      fixture,
-      homeStatsRes.data,
-      awayStatsRes.data,
-      oddsCache.payload
-    );
+    const edges = calculateFixtureEdges(model, oddsCache.payload);
 
     const validEdges = edges.filter((e: any) => 
       e.model_prob >= thresholds.minProb &&
@@ -1662,6 +1723,15 @@ async function handleBetOptimizer(body: z.infer<typeof BetOptimizerSchema>, supa
   }
 
   const estimatedWinProb = selectedLegs.reduce((acc, leg) => acc * leg.model_prob, 1);
+  const correlation = assessTicketCorrelation(selectedLegs.map((leg) => ({
+    fixtureId: leg.fixture_id,
+    leagueId: leg.league_id,
+    day: leg.kickoff,
+    market: leg.market,
+    side: parseLegSide(leg.side),
+    line: leg.line,
+    prob: leg.model_prob,
+  })));
 
   return new Response(
     JSON.stringify({
@@ -1669,6 +1739,7 @@ async function handleBetOptimizer(body: z.infer<typeof BetOptimizerSchema>, supa
       legs: selectedLegs,
       total_odds: totalOdds,
       estimated_win_prob: estimatedWinProb,
+      correlation_adjusted_win_prob: correlation.adjusted_prob,
       notes: `${mode.charAt(0).toUpperCase() + mode.slice(1)} mode: ${selectedLegs.length} legs selected.`,
       generated_at: new Date().toISOString(),
     }),
@@ -1689,408 +1760,9 @@ function getModeThresholds(mode: string) {
   }
 }
 
-async function calculateFixtureEdges(fixture: any, homeStats: any, awayStats: any, oddsPayload: any) {
-  const edges: any[] = [];
-  const HOME_ADVANTAGE = 1.06;
-  const SHRINKAGE_TAU = 10;
-  const LEAGUE_MEAN_GOALS = 1.4;
-
-  const homeWeight = homeStats.sample_size / (homeStats.sample_size + SHRINKAGE_TAU);
-  const awayWeight = awayStats.sample_size / (awayStats.sample_size + SHRINKAGE_TAU);
-
-  const lambdaHome = (homeStats.goals * homeWeight + LEAGUE_MEAN_GOALS * (1 - homeWeight)) * HOME_ADVANTAGE;
-  const lambdaAway = awayStats.goals * awayWeight + LEAGUE_MEAN_GOALS * (1 - awayWeight);
-  const lambdaTotal = lambdaHome + lambdaAway;
-
-  try {
-    const bookmakers = oddsPayload.bookmakers || [];
-
-    for (const bookmaker of bookmakers.slice(0, 10)) {
-      const bookmakerName = bookmaker.name;
-
-      for (const market of bookmaker.markets || []) {
-        const marketName = normalizeMarketNameOld(market.name);
-        if (marketName !== "goals") continue;
-
-        const linePairs: Record<string, { over?: any; under?: any }> = {};
-
-        for (const value of market.values || []) {
-          const parsed = parseValueString(value.value);
-          if (!parsed) continue;
-
-          const { side, line } = parsed;
-          if (![0.5, 1.5, 2.5, 3.5, 4.5].includes(line)) continue;
-
-          const lineKey = line.toFixed(2);
-
-          if (!linePairs[lineKey]) {
-            linePairs[lineKey] = {};
-          }
-
-          if (side === "over") {
-            linePairs[lineKey].over = { odd: value.odd };
-          } else if (side === "under") {
-            linePairs[lineKey].under = { odd: value.odd };
-          }
-        }
-
-        for (const [lineKey, pair] of Object.entries(linePairs)) {
-          if (!pair.over?.odd || !pair.under?.odd) continue;
-
-          const line = parseFloat(lineKey);
-          const overOdds = Number(pair.over.odd);
-          const underOdds = Number(pair.under.odd);
-
-          if (!isFinite(overOdds) || !isFinite(underOdds) || overOdds <= 1 || underOdds <= 1) continue;
-
-          const probUnder = poissonCDF(lambdaTotal, Math.floor(line));
-          const probOver = 1 - probUnder;
-
-          const rawOverProb = 1 / overOdds;
-          const rawUnderProb = 1 / underOdds;
-          const totalRaw = rawOverProb + rawUnderProb;
-
-          const bookOverProb = rawOverProb / totalRaw;
-          const bookUnderProb = rawUnderProb / totalRaw;
-
-          const edgeOver = probOver - bookOverProb;
-          const edgeUnder = probUnder - bookUnderProb;
-
-          if (edgeOver > 0) {
-            edges.push({
-              market: "goals",
-              line,
-              side: "over",
-              model_prob: probOver,
-              book_prob: bookOverProb,
-              edge: edgeOver,
-              odds: overOdds,
-              bookmaker: bookmakerName,
-            });
-          }
-
-          if (edgeUnder > 0) {
-            edges.push({
-              market: "goals",
-              line,
-              side: "under",
-              model_prob: probUnder,
-              book_prob: bookUnderProb,
-              edge: edgeUnder,
-              odds: underOdds,
-              bookmaker: bookmakerName,
-            });
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.error("[calculateFixtureEdges] Error:", error);
-  }
-
-  return edges;
-}
-
-function parseValueString(valueStr: string): { side: "over" | "under"; line: number } | null {
-  const lower = valueStr.toLowerCase().trim();
-
-  const overMatch = lower.match(/(?:over|o)\s*([\d.]+)/);
-  const underMatch = lower.match(/(?:under|u)\s*([\d.]+)/);
-
-  if (overMatch) {
-    return { side: "over", line: parseFloat(overMatch[1]) };
-  } else if (underMatch) {
-    return { side: "under", line: parseFloat(underMatch[1]) };
-  }
-
-  return null;
-}
-
-function normalizeMarketNameOld(marketName: string): string {
-  const lower = marketName.toLowerCase();
-  if (lower.includes("goals")) return "goals";
-  if (lower.includes("card")) return "cards";
-  if (lower.includes("corner")) return "corners";
-  return "unknown";
-}
-
-function poissonCDF(lambda: number, k: number): number {
-  let sum = 0;
-  for (let i = 0; i <= k; i++) {
-    sum += poissonPMF(lambda, i);
-  }
-  return Math.min(1, sum);
-}
-
-function poissonPMF(lambda: number, k: number): number {
-  if (lambda <= 0) return k === 0 ? 1 : 0;
-  return Math.exp(-lambda + k * Math.log(lambda) - logFactorial(k));
-}
-
-function logFactorial(n: number): number {
-  if (n <= 1) return 0;
-  let result = 0;
-  for (let i = 2; i <= n; i++) {
-    result += Math.log(i);
-  }
-  return result;
-}
-
-// Simple PRNG for deterministic but varied results
-function seededRandom(seed: number): () => number {
-  let state = seed;
-  return () => {
-    state = (state * 1664525 + 1013904223) % 4294967296;
-    return state / 4294967296;
-  };
-}
-
-function generateOptimizedTicket(
-  pool: TicketLeg[],
-  targetMin: number,
-  targetMax: number,
-  minLegs: number,
-  maxLegs: number,
-  markets: string[],
-  userId?: string
-): {
-  total_odds: number; 
-  legs: TicketLeg[]; 
-  attempts: number; 
-  within_band: boolean;
-  best_nearby?: { total_odds: number; legs: TicketLeg[] };
-  sampled_legs_attempts?: number[];
-  time_ms?: number;
-} | null {
-  const startTime = Date.now();
-  const ATTEMPT_TIMEOUT = 600; // ms per leg-count attempt (temporarily elevated)
-  const TOTAL_TIMEOUT = 6000; // ms total (temporarily elevated)
-  const MAX_EVALUATIONS = 100000;
-  
-  // Seed PRNG with userId + date + target range for session-stable but varied results
-  const seed = (userId ? userId.split('').reduce((acc, c) => acc + c.charCodeAt(0), 0) : 12345) + 
-                Date.now() + Math.floor(targetMin * 1000) + Math.floor(targetMax * 1000);
-  const rand = seededRandom(seed);
-  
-  const logMin = Math.log(targetMin);
-  const logMax = Math.log(targetMax);
-  const logMid = (logMin + logMax) / 2;
-
-  // Sort pool by odds for deterministic beam search
-  const sortedPool = [...pool].sort((a, b) => {
-    if (a.odds !== b.odds) return a.odds - b.odds;
-    if (a.fixtureId !== b.fixtureId) return a.fixtureId - b.fixtureId;
-    return a.market.localeCompare(b.market);
-  });
-
-  // ONE LEG PER FIXTURE: State now tracks used fixtures (not fixture+market)
-  type State = { 
-    legs: TicketLeg[]; 
-    product: number; 
-    usedFixtures: Set<number>; // Changed from Map<number, Set<string>>
-    avgEdge: number;
-  };
-  
-  let bestInBand: { legs: TicketLeg[]; product: number; avgEdge: number } | null = null;
-  let bestNearMiss: { legs: TicketLeg[]; product: number } | null = null;
-  let totalExpansions = 0;
-  const sampledLegsAttempts: number[] = [];
-  
-  const maxOddsInPool = Math.max(...sortedPool.map(l => l.odds), 1.0);
-
-  const score = (prod: number, len: number, avgEdge: number, targetN: number) => {
-    const lp = Math.log(prod);
-    const distanceToMid = Math.abs(lp - logMid);
-    // Strongly prefer hitting the target N (sampled leg count)
-    const legPenalty = Math.abs(len - targetN) * 0.5;
-    // IMPORTANT: Do NOT include avgEdge in scoring to avoid hidden market bias
-    return distanceToMid + legPenalty;
-  };
-  // Stochastic search: try multiple leg counts
-  const MAX_ATTEMPTS = 10;
-  for (let attemptIdx = 0; attemptIdx < MAX_ATTEMPTS && Date.now() - startTime < TOTAL_TIMEOUT; attemptIdx++) {
-    const attemptStart = Date.now();
-    
-    // Sample a target leg count N from [minLegs, maxLegs]
-    const targetN = minLegs + Math.floor(rand() * (maxLegs - minLegs + 1));
-    sampledLegsAttempts.push(targetN);
-    
-    console.log(`[stochastic-search] Attempt ${attemptIdx + 1}: trying N=${targetN} legs`);
-    
-    // Beam search for this specific N
-    const WIDTH = 50;
-    const NUM_SEEDS = 50; // Multiple diverse starting points
-    
-    // Group pool by market for balanced seed generation
-    const poolByMarket: Map<string, TicketLeg[]> = new Map();
-    for (const leg of sortedPool) {
-      if (!poolByMarket.has(leg.market)) poolByMarket.set(leg.market, []);
-      poolByMarket.get(leg.market)!.push(leg);
-    }
-    const availableMarkets = Array.from(poolByMarket.keys()).filter(m => markets.includes(m));
-    
-    // Generate market-balanced seed states
-    const seedStates: State[] = [];
-    const seedsPerMarket = Math.max(1, Math.floor(NUM_SEEDS / availableMarkets.length));
-    
-    for (const market of availableMarkets) {
-      const marketLegs = poolByMarket.get(market) || [];
-      const numSeeds = Math.min(seedsPerMarket, marketLegs.length);
-      
-      for (let s = 0; s < numSeeds; s++) {
-        const startIdx = Math.floor(rand() * marketLegs.length);
-        const startLeg = marketLegs[startIdx];
-        
-        if (startLeg.odds < ODDS_MIN || startLeg.odds > ODDS_MAX) continue;
-        
-        // ONE LEG PER FIXTURE: Track used fixture IDs (not fixture+market)
-        const usedFixtures = new Set<number>();
-        usedFixtures.add(startLeg.fixtureId);
-        
-        seedStates.push({
-          legs: [startLeg],
-          product: startLeg.odds,
-          usedFixtures,
-          avgEdge: 0,
-        });
-      }
-    }
-    
-    console.log(`[stochastic-search] Generated ${seedStates.length} market-balanced seeds from ${availableMarkets.length} markets: ${availableMarkets.join(', ')}`);
-    
-    // Also add empty state
-    seedStates.push({ legs: [], product: 1, usedFixtures: new Set<number>(), avgEdge: 0 });
-    
-    let beam: State[] = seedStates;
-    let expansions = 0;
-
-    // === CORRELATION GUARDS CONFIG ===
-    const MAX_PER_MARKET = 2;  // Market-type diversity: max 2 legs of same market
-    const MAX_PER_LEAGUE = 2;  // Same-league soft cap: max 2 legs from same league
-    
-    for (let depth = 0; depth < targetN && Date.now() - attemptStart < ATTEMPT_TIMEOUT; depth++) {
-      const next: State[] = [];
-
-      for (const state of beam) {
-        if (expansions > MAX_EVALUATIONS) break;
-        
-        for (const cand of sortedPool) {
-          if (expansions > MAX_EVALUATIONS) break;
-          
-          if (cand.odds < ODDS_MIN || cand.odds > ODDS_MAX) continue;
-          
-          // ONE LEG PER FIXTURE: Skip if this fixture is already used
-          if (state.usedFixtures.has(cand.fixtureId)) continue;
-
-          // CORRELATION GUARD: Market-type diversity (max MAX_PER_MARKET legs of same market)
-          const marketCountInState = state.legs.filter(l => l.market === cand.market).length;
-          if (marketCountInState >= MAX_PER_MARKET) continue;
-
-          // CORRELATION GUARD: Same-league soft cap (max MAX_PER_LEAGUE legs from same league)
-          const candLeagueId = (cand as any)._leagueId || 0;
-          if (candLeagueId > 0) {
-            const leagueCountInState = state.legs.filter(l => (l as any)._leagueId === candLeagueId).length;
-            if (leagueCountInState >= MAX_PER_LEAGUE) continue;
-          }
-
-          const newProduct = state.product * cand.odds;
-          
-          if (newProduct > targetMax * 1.5) continue; // Aggressive pruning
-          
-          const remainingSlots = targetN - state.legs.length - 1;
-          const maxPossibleProduct = newProduct * Math.pow(maxOddsInPool, remainingSlots);
-          if (state.legs.length + 1 >= minLegs && maxPossibleProduct < targetMin * 0.5) continue;
-
-          const newLegs = [...state.legs, cand];
-          
-          // ONE LEG PER FIXTURE: Simple Set copy
-          const newUsedFixtures = new Set(state.usedFixtures);
-          newUsedFixtures.add(cand.fixtureId);
-          
-          const totalEdge = newLegs.reduce((sum, leg) => {
-            const edgePct = leg.combinedAvg && leg.odds > 1 
-              ? ((1 / leg.odds) / leg.combinedAvg - 1) * 100 
-              : 0;
-            return sum + edgePct;
-          }, 0);
-          const avgEdge = newLegs.length > 0 ? totalEdge / newLegs.length : 0;
-
-          expansions++;
-          totalExpansions++;
-
-          const withinBand = newLegs.length >= minLegs && newProduct >= targetMin && newProduct <= targetMax;
-          
-          if (withinBand) {
-            if (!bestInBand || avgEdge > bestInBand.avgEdge || 
-                (avgEdge === bestInBand.avgEdge && Math.abs(newLegs.length - targetN) < Math.abs(bestInBand.legs.length - targetN))) {
-              bestInBand = { legs: newLegs, product: newProduct, avgEdge };
-              console.log(`[stochastic-search] Found in-band solution: ${newLegs.length} legs, ${newProduct.toFixed(2)}x, avgEdge=${avgEdge.toFixed(2)}%`);
-            }
-          }
-          
-          if (newLegs.length >= minLegs) {
-            if (!bestNearMiss || Math.abs(Math.log(newProduct) - logMid) < Math.abs(Math.log(bestNearMiss.product) - logMid)) {
-              bestNearMiss = { legs: newLegs, product: newProduct };
-            }
-          }
-
-          next.push({ legs: newLegs, product: newProduct, usedFixtures: newUsedFixtures, avgEdge });
-        }
-        
-        if (expansions > MAX_EVALUATIONS) break;
-      }
-
-      next.sort((a, b) => score(a.product, a.legs.length, a.avgEdge, targetN) - score(b.product, b.legs.length, b.avgEdge, targetN));
-      beam = next.slice(0, WIDTH);
-      if (beam.length === 0) break;
-    }
-    
-    console.log(`[stochastic-search] Attempt ${attemptIdx + 1} complete: ${expansions} expansions in ${Date.now() - attemptStart}ms`);
-    
-    // If we found an in-band solution, we can return early (but keep searching if time allows for better solutions)
-    if (bestInBand && Date.now() - startTime > TOTAL_TIMEOUT * 0.5) {
-      console.log(`[stochastic-search] Found good solution, stopping early`);
-      break;
-    }
-  }
-
-  const totalTime = Date.now() - startTime;
-  
-  console.log(`[stochastic-search] Complete: sampled_legs=${sampledLegsAttempts.join(',')}, pool=${pool.length}, evaluated=${totalExpansions}, time=${totalTime}ms, found_in_range=${!!bestInBand}`);
-
-  if (bestInBand) {
-    const marketDist: Record<string, number> = {};
-    for (const leg of bestInBand.legs) {
-      marketDist[leg.market] = (marketDist[leg.market] || 0) + 1;
-    }
-    console.log(`[stochastic-search] Best ticket market distribution: ${JSON.stringify(marketDist)}`);
-    
-    return {
-      total_odds: Math.round(bestInBand.product * 100) / 100, 
-      legs: bestInBand.legs, 
-      attempts: totalExpansions,
-      within_band: true,
-      sampled_legs_attempts: sampledLegsAttempts,
-      time_ms: totalTime,
-    };
-  }
-  
-  if (bestNearMiss) {
-    return {
-      total_odds: Math.round(bestNearMiss.product * 100) / 100,
-      legs: bestNearMiss.legs,
-      attempts: totalExpansions,
-      within_band: false,
-      best_nearby: {
-        total_odds: Math.round(bestNearMiss.product * 100) / 100,
-        legs: bestNearMiss.legs,
-      },
-      sampled_legs_attempts: sampledLegsAttempts,
-      time_ms: totalTime,
-    };
-  }
-  
-  return null;
+// Positive-edge selections for one fixture: count model vs de-vigged book prices
+function calculateFixtureEdges(model: MatchModel, oddsPayload: any): PriceEdge[] {
+  return scorePrices(model, extractTotalsPrices(oddsPayload)).filter((e) => e.edge > 0);
 }
 
 function getMarketName(market: Market): string {
@@ -1,4 +1,8 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { extractTotalsPrices, priceBoard, type BookPrice, type OddsPayloadLike } from "../_shared/odds_normalization.ts";
+import { hockeyPriceBoard, type HockeyOddsRow } from "../_shared/hockey_legs.ts";
+import { basketballPriceBoard } from "../_shared/basketball_legs.ts";
+import type { BasketballOddsRow } from "../_shared/basketball_odds.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,7 +11,10 @@ const corsHeaders = {
 
 const RULES_VERSION = 'v2_combined_matrix_v1';
 
+type Sport = 'football' | 'hockey' | 'basketball';
+
 interface LegRequest {
+  sport?: Sport; // football when absent (clients before multi-sport tickets)
   fixtureId: number;
   market: string;
   side: string;
@@ -15,6 +22,7 @@ interface LegRequest {
 }
 
 interface OddsUpdate {
+  sport: Sport;
   fixtureId: number;
   market: string;
   side: string;
@@ -23,6 +31,7 @@ interface OddsUpdate {
   bookmaker: string | null;
   rules_version: string | null;
   combined_snapshot?: any;
+  prices: BookPrice[]; // every bookmaker's current price, best first
 }
 
 Deno.serve(async (req) => {
@@ -52,10 +61,88 @@ Deno.serve(async (req) => {
 
     console.log(`[get-latest-odds] Refreshing odds for ${legs.length} legs`);
 
+    // odds_cache is admin-only under RLS; read the per-bookmaker boards with the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const footballLegs = legs.filter((leg) => (leg.sport ?? 'football') === 'football');
+    const hockeyLegs = legs.filter((leg) => leg.sport === 'hockey');
+    const basketballLegs = legs.filter((leg) => leg.sport === 'basketball');
+
+    const fixtureIds = [...new Set(footballLegs.map((leg) => leg.fixtureId))];
+    const { data: oddsRows, error: oddsError } = fixtureIds.length > 0
+      ? await serviceClient
+        .from('odds_cache')
+        .select('fixture_id, payload')
+        .in('fixture_id', fixtureIds)
+      : { data: [], error: null };
+    if (oddsError) {
+      console.warn('[get-latest-odds] Could not load bookmaker prices:', oddsError.message);
+    }
+    const pricesByFixture = new Map(
+      (oddsRows ?? []).map((row) => [row.fixture_id, extractTotalsPrices(row.payload as OddsPayloadLike)])
+    );
+
+    // hockey_odds_cache is service-role only as well; one row per bookmaker/selection/line
+    const hockeyGameIds = [...new Set(hockeyLegs.map((leg) => leg.fixtureId))];
+    const { data: hockeyRows, error: hockeyError } = hockeyGameIds.length > 0
+      ? await serviceClient
+        .from('hockey_odds_cache')
+        .select('game_id, bookmaker, market, selection, line, odds')
+        .in('game_id', hockeyGameIds)
+      : { data: [], error: null };
+    if (hockeyError) {
+      console.warn('[get-latest-odds] Could not load hockey prices:', hockeyError.message);
+    }
+    const hockeyOddsByGame = new Map<number, HockeyOddsRow[]>();
+    for (const row of (hockeyRows ?? []) as (HockeyOddsRow & { game_id: number })[]) {
+      if (!hockeyOddsByGame.has(row.game_id)) hockeyOddsByGame.set(row.game_id, []);
+      hockeyOddsByGame.get(row.game_id)!.push(row);
+    }
+
+    // basketball_odds_cache has the same shape and is service-role only too
+    const basketballGameIds = [...new Set(basketballLegs.map((leg) => leg.fixtureId))];
+    const { data: basketballRows, error: basketballError } = basketballGameIds.length > 0
+      ? await serviceClient
+        .from('basketball_odds_cache')
+        .select('game_id, bookmaker, market, selection, line, odds')
+        .in('game_id', basketballGameIds)
+      : { data: [], error: null };
+    if (basketballError) {
+      console.warn('[get-latest-odds] Could not load basketball prices:', basketballError.message);
+    }
+    const basketballOddsByGame = new Map<number, BasketballOddsRow[]>();
+    for (const row of (basketballRows ?? []) as (BasketballOddsRow & { game_id: number })[]) {
+      if (!basketballOddsByGame.has(row.game_id)) basketballOddsByGame.set(row.game_id, []);
+      basketballOddsByGame.get(row.game_id)!.push(row);
+    }
+
     const updates: OddsUpdate[] = [];
 
-    // Query optimized_selections for each leg
     for (const leg of legs) {
+      const sport = leg.sport ?? 'football';
+      if (sport === 'football') continue;
+
+      const prices = sport === 'hockey'
+        ? hockeyPriceBoard(hockeyOddsByGame.get(leg.fixtureId) ?? [], leg)
+        : basketballPriceBoard(basketballOddsByGame.get(leg.fixtureId) ?? [], leg);
+      updates.push({
+        sport,
+        fixtureId: leg.fixtureId,
+        market: leg.market,
+        side: leg.side,
+        line: leg.line,
+        odds: prices[0]?.odds ?? null,
+        bookmaker: prices[0]?.bookmaker ?? null,
+        rules_version: null,
+        prices,
+      });
+    }
+
+    // Query optimized_selections for each football leg
+    for (const leg of footballLegs) {
+      const prices = priceBoard(pricesByFixture.get(leg.fixtureId) ?? [], leg);
       const { data, error } = await supabaseClient
         .from('optimized_selections')
         .select('odds, bookmaker, rules_version, combined_snapshot')
@@ -72,6 +159,7 @@ Deno.serve(async (req) => {
       if (error) {
         console.warn(`[get-latest-odds] No data for fixture ${leg.fixtureId} ${leg.market} ${leg.side} ${leg.line}:`, error.message);
         updates.push({
+          sport: 'football',
           fixtureId: leg.fixtureId,
           market: leg.market,
           side: leg.side,
@@ -79,11 +167,13 @@ Deno.serve(async (req) => {
           odds: null,
           bookmaker: null,
           rules_version: null,
+          prices,
         });
         continue;
       }
 
       updates.push({
+        sport: 'football',
         fixtureId: leg.fixtureId,
         market: leg.market,
         side: leg.side,
@@ -92,6 +182,7 @@ Deno.serve(async (req) => {
         bookmaker: data.bookmaker,
         rules_version: data.rules_version,
         combined_snapshot: data.combined_snapshot,
+        prices,
       });
     }
 
@@ -6,25 +6,27 @@
  * Cleans stale rows (games already started or outside window).
  *
  * ═══════════════════════════════════════════════════════════════════
- * FORMULA DOCUMENTATION (v1 — limited data)
+ * FORMULA DOCUMENTATION (v2 — box scores + goalies)
  * ═══════════════════════════════════════════════════════════════════
  *
  * AVAILABLE inputs from hockey_team_stats_cache:
- *   gp, gpg, ga_pg, p1_gpg, p1_gapg, ot_pct, last5_gpg, last5_gapg
+ *   gp, gpg, ga_pg, p1_gpg, p1_gapg, ot_pct, last5_gpg, last5_gapg,
+ *   home/away splits, and (from hockey-sync-game-stats box scores)
+ *   stats_gp, pp_pct, pk_pct, sog_pg, sa_pg, save_pct
+ * Starters from hockey_starting_goalies joined with
+ * hockey_goalie_stats_cache (season shots against / saves).
  *
- * NOT AVAILABLE (v1 simplifications):
- *   - pp_pct, pk_pct → excluded from formulas (would need game-detail API)
- *   - sog_pg, sa_pg  → excluded
+ * NOT AVAILABLE:
  *   - wins/losses/otw/otl → no win-streak factor
- *   - home/away splits → not in schema; use overall averages
  *
  * ─── projected_total ───────────────────────────────────────────────
- *   Base: (home.gpg + away.ga_pg + away.gpg + home.ga_pg) / 2
- *   H2H adjustment: if H2H exists with gp >= 2,
- *     projected = 0.7 * base + 0.3 * h2h.avg_total_goals
- *   Recency: blend = 0.6 * season_proj + 0.4 * last5_proj
- *     where last5_proj = (home.last5_gpg + away.last5_gapg +
- *                         away.last5_gpg + home.last5_gapg) / 2
+ *   Sum of factor contributions (_shared/hockey_model.ts):
+ *     base, recent_form, venue, h2h, special_teams, shots,
+ *     home_goalie, away_goalie
+ *   With no box scores or starters those factors contribute 0 and the
+ *   total equals the v1 formula:
+ *     0.7 * (0.6 * season_proj + 0.4 * last5_proj) + 0.3 * h2h.avg_total_goals
+ *   Every factor is stored in factor_breakdown for the detail drawer.
  *
  * ─── ot_risk ───────────────────────────────────────────────────────
  *   avg of: home.ot_pct, away.ot_pct, h2h.ot_pct (if available)
@@ -45,10 +47,13 @@
  *     chaos = 0.4 * closeness + 0.3 * ot_risk + 0.3 * formShift
  *
  * ─── value_score ───────────────────────────────────────────────────
- *   Compares projected_total to best available total line from odds.
- *   If odds exist for "total" market:
- *     edge = |projected_total - best_line| / best_line
- *     value_score = min(edge * 10, 1.0)
+ *   Uses the most quoted "total" line and the best over/under odds on it.
+ *   If both sides are priced:
+ *     model_over = Poisson(projected_total) P(over line)
+ *     book_over  = de-vigged implied probability of over
+ *     value_score = min(|model_over - book_over| * 5, 1.0)
+ *   If only the line is known (v1 fallback):
+ *     value_score = min(|projected_total - line| / line * 10, 1.0)
  *   If no odds: value_score = 0
  *
  * ─── regulation_lean ───────────────────────────────────────────────
@@ -61,7 +66,7 @@
  * ─── confidence_tier ───────────────────────────────────────────────
  *   Based on data quality:
  *   minGP = min(home.gp, away.gp)
- *   if minGP >= 15: "high"
+ *   if minGP >= 15 and both starters confirmed: "high"
  *   if minGP >= 5:  "medium"
  *   else:           "low"
  *
@@ -73,13 +78,35 @@
  *   Only includes markets that exist in hockey_odds_cache for this game.
  *   Logic:
  *   - If projected_total differs from line by >0.3: add total over/under
+ *     (side from the model vs de-vigged price when both sides are priced)
  *   - If p1_heat > 0.5: add p1_total if available
  *   - If ot_risk < 0.15 and lean != "toss-up": add reg_winner
  *   - Always add match_winner if available
+ *   Each entry carries the best bookmaker price for its selection (odds,
+ *   bookmaker) so the frontend can add it to My Ticket; p1_total uses the
+ *   most quoted first-period line. The total entry also carries model_prob.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  HOCKEY_MODEL_VERSION,
+  type FactorContribution,
+  type StarterProfile,
+  confidenceTier as tierFor,
+  consensusTotalLine,
+  projectTotal,
+  totalValue,
+} from "../_shared/hockey_model.ts";
+import { hockeyPriceBoard } from "../_shared/hockey_legs.ts";
+
+interface StarterRow {
+  game_id: number;
+  team_id: number;
+  player_id: number;
+  player_name: string;
+  status: StarterProfile["status"];
+}
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -175,7 +202,7 @@ serve(async (req) => {
     const teamIds = [...new Set(games.flatMap((g: any) => [g.home_team_id, g.away_team_id]))];
     const { data: allStats } = await supabase
       .from("hockey_team_stats_cache")
-      .select("team_id, league_id, season, gp, gpg, ga_pg, p1_gpg, p1_gapg, ot_pct, last5_gpg, last5_gapg")
+      .select("team_id, league_id, season, gp, gpg, ga_pg, p1_gpg, p1_gapg, ot_pct, last5_gpg, last5_gapg, stats_gp, pp_pct, pk_pct, sog_pg, sa_pg, save_pct, home_gp, home_gpg, home_gapg, away_gp, away_gpg, away_gapg")
       .in("team_id", teamIds)
       .order("season", { ascending: false });
 
@@ -210,7 +237,7 @@ serve(async (req) => {
     const gameIds = games.map((g: any) => g.id);
     const { data: allOdds } = await supabase
       .from("hockey_odds_cache")
-      .select("game_id, market, selection, line, odds")
+      .select("game_id, bookmaker, market, selection, line, odds")
       .in("game_id", gameIds);
 
     // Index odds by game_id
@@ -220,6 +247,45 @@ serve(async (req) => {
       oddsMap.get(o.game_id)!.push(o);
     }
 
+    // ── Load starting goalies + their season lines ───────────────────────
+    const { data: starters } = await supabase
+      .from("hockey_starting_goalies")
+      .select("game_id, team_id, player_id, player_name, status")
+      .in("game_id", gameIds);
+
+    const starterRows = (starters ?? []) as StarterRow[];
+    const starterIds = [...new Set(starterRows.map((s) => s.player_id))];
+    const { data: goalieStats } = starterIds.length
+      ? await supabase
+          .from("hockey_goalie_stats_cache")
+          .select("player_id, team_id, league_id, season, shots_against, saves")
+          .in("player_id", starterIds)
+      : { data: [] };
+
+    const goalieStatsMap = new Map<string, { shots_against: number; saves: number }>();
+    for (const gs of (goalieStats ?? [])) {
+      goalieStatsMap.set(`${gs.player_id}:${gs.team_id}:${gs.league_id}:${gs.season}`, gs);
+    }
+
+    const starterMap = new Map<string, StarterRow>();
+    for (const st of starterRows) {
+      starterMap.set(`${st.game_id}:${st.team_id}`, st);
+    }
+
+    // Starter with their season shots/saves (0/0 → fully regressed to team)
+    function starterFor(g: { id: number; league_id: number; season: number }, teamId: number): StarterProfile | null {
+      const st = starterMap.get(`${g.id}:${teamId}`);
+      if (!st) return null;
+      const gs = goalieStatsMap.get(`${st.player_id}:${teamId}:${g.league_id}:${g.season}`);
+      return {
+        player_id: st.player_id,
+        player_name: st.player_name,
+        status: st.status,
+        shots_against: gs?.shots_against ?? 0,
+        saves: gs?.saves ?? 0,
+      };
+    }
+
     // ── Compute IceEdge for each game ─────────────────────────────────────
     interface IceEdgeRow {
       game_id: number;
@@ -237,6 +303,9 @@ serve(async (req) => {
       confidence_tier: string;
       recommended_markets: any[];
       reasoning: string;
+      factor_breakdown: FactorContribution[];
+      goalies: { home: StarterProfile | null; away: StarterProfile | null } | null;
+      model_version: string;
       composite: number; // for ranking
     }
 
@@ -257,18 +326,14 @@ serve(async (req) => {
       }
 
       // ── projected_total ──────────────────────────────────────────────
-      const seasonProj = (home.gpg + away.ga_pg + away.gpg + home.ga_pg) / 2;
-      const last5Proj = (home.last5_gpg + away.last5_gapg + away.last5_gpg + home.last5_gapg) / 2;
-      let projectedTotal = 0.6 * seasonProj + 0.4 * last5Proj;
-
-      // H2H blend
       const lo = Math.min(g.home_team_id, g.away_team_id);
       const hi = Math.max(g.home_team_id, g.away_team_id);
       const h2h = h2hMap.get(`${lo}:${hi}`);
-      if (h2h && h2h.gp >= 2) {
-        projectedTotal = 0.7 * projectedTotal + 0.3 * h2h.avg_total_goals;
-      }
-      projectedTotal = Number(projectedTotal.toFixed(2));
+      const homeGoalie = starterFor(g, g.home_team_id);
+      const awayGoalie = starterFor(g, g.away_team_id);
+
+      const projection = projectTotal({ home, away, h2h, homeGoalie, awayGoalie });
+      const projectedTotal = projection.total;
 
       // ── ot_risk ──────────────────────────────────────────────────────
       const otInputs = [home.ot_pct / 100, away.ot_pct / 100];
@@ -289,20 +354,10 @@ serve(async (req) => {
 
       // ── value_score ──────────────────────────────────────────────────
       const gameOdds = oddsMap.get(g.id) ?? [];
-      const totalOdds = gameOdds.filter((o: any) => o.market === "total");
-      let valueScore = 0;
-      let bestLine: number | null = null;
-
-      if (totalOdds.length > 0) {
-        // Find the most common line
-        const lineCounts = new Map<number, number>();
-        for (const o of totalOdds) {
-          lineCounts.set(o.line, (lineCounts.get(o.line) ?? 0) + 1);
-        }
-        bestLine = [...lineCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
-        const edge = Math.abs(projectedTotal - bestLine) / (bestLine || 1);
-        valueScore = Number(Math.min(edge * 10, 1.0).toFixed(3));
-      }
+      const totalPrice = consensusTotalLine(gameOdds.filter((o: any) => o.market === "total"));
+      const bestLine = totalPrice?.line ?? null;
+      const value = totalPrice ? totalValue(projectedTotal, totalPrice) : null;
+      const valueScore = value?.value_score ?? 0;
 
       // ── regulation_lean ──────────────────────────────────────────────
       const gpgDiff = home.gpg - away.gpg;
@@ -311,23 +366,26 @@ serve(async (req) => {
       else if (gpgDiff < -0.4) regulationLean = "away";
 
       // ── confidence_tier ──────────────────────────────────────────────
-      const minGP = Math.min(home.gp, away.gp);
-      let confidenceTier = "low";
-      if (minGP >= 15) confidenceTier = "high";
-      else if (minGP >= 5) confidenceTier = "medium";
+      const confidenceTier = tierFor(Math.min(home.gp, away.gp), homeGoalie, awayGoalie);
 
       // ── recommended_markets ──────────────────────────────────────────
       const availableMarkets = new Set(gameOdds.map((o: any) => o.market));
       const recommended: any[] = [];
 
-      if (bestLine !== null && Math.abs(projectedTotal - bestLine) > 0.3) {
-        const side = projectedTotal > bestLine ? "over" : "under";
+      if (bestLine !== null && value && Math.abs(projectedTotal - bestLine) > 0.3) {
         if (availableMarkets.has("total")) {
-          recommended.push({ market: "total", side, line: bestLine, reason: `Projected ${projectedTotal} vs line ${bestLine}` });
+          const priced = value.model_prob != null
+            ? ` (model ${(value.model_prob * 100).toFixed(0)}% over vs book ${(value.book_prob! * 100).toFixed(0)}%)`
+            : "";
+          const sideProb = value.model_prob != null
+            ? Number((value.side === "over" ? value.model_prob : 1 - value.model_prob).toFixed(3))
+            : undefined;
+          recommended.push({ market: "total", side: value.side, line: bestLine, model_prob: sideProb, reason: `Projected ${projectedTotal} vs line ${bestLine}${priced}` });
         }
       }
       if (p1Heat > 0.5 && availableMarkets.has("p1_total")) {
-        recommended.push({ market: "p1_total", side: "over", reason: `P1 heat ${p1Heat}` });
+        const p1Line = consensusTotalLine(gameOdds.filter((o) => o.market === "p1_total"))?.line;
+        recommended.push({ market: "p1_total", side: "over", line: p1Line, reason: `P1 heat ${p1Heat}` });
       }
       if (otRisk < 0.15 && regulationLean !== "toss-up" && availableMarkets.has("reg_winner")) {
         recommended.push({ market: "reg_winner", side: regulationLean, reason: `Low OT risk, lean ${regulationLean}` });
@@ -335,14 +393,25 @@ serve(async (req) => {
       if (availableMarkets.has("match_winner")) {
         recommended.push({ market: "match_winner", side: regulationLean !== "toss-up" ? regulationLean : "home", reason: "Match winner available" });
       }
+      for (const m of recommended) {
+        const [best] = hockeyPriceBoard(gameOdds, { market: m.market, side: m.side, line: m.line ?? 0 });
+        if (best) {
+          m.odds = best.odds;
+          m.bookmaker = best.bookmaker;
+        }
+      }
 
       // ── composite (for ranking) ──────────────────────────────────────
       const composite = Number((0.35 * valueScore + 0.25 * chaosScore + 0.20 * p1Heat + 0.20 * otRisk).toFixed(4));
 
       // ── reasoning ────────────────────────────────────────────────────
       const reasons: string[] = [];
-      reasons.push(`Proj total ${projectedTotal} (season ${seasonProj.toFixed(1)}, L5 ${last5Proj.toFixed(1)}${h2h ? `, H2H ${h2h.avg_total_goals}` : ""})`);
+      const applied = projection.factors.filter((f) => f.factor !== "base" && f.applied && f.delta !== 0);
+      reasons.push(`Proj total ${projectedTotal} (base ${projection.base}${applied.map((f) => `, ${f.factor} ${f.delta > 0 ? "+" : ""}${f.delta}`).join("")})`);
       reasons.push(`GP: home ${home.gp}, away ${away.gp}`);
+      if (homeGoalie || awayGoalie) {
+        reasons.push(`Goalies: ${homeGoalie ? `${homeGoalie.player_name} (${homeGoalie.status})` : "unknown"} vs ${awayGoalie ? `${awayGoalie.player_name} (${awayGoalie.status})` : "unknown"}`);
+      }
       if (bestLine !== null) reasons.push(`Best total line: ${bestLine}`);
       reasons.push(`OT risk: ${(otRisk * 100).toFixed(0)}%`);
 
@@ -362,6 +431,9 @@ serve(async (req) => {
         confidence_tier: confidenceTier,
         recommended_markets: recommended,
         reasoning: reasons.join("; "),
+        factor_breakdown: projection.factors,
+        goalies: homeGoalie || awayGoalie ? { home: homeGoalie, away: awayGoalie } : null,
+        model_version: HOCKEY_MODEL_VERSION,
         composite,
       });
     }
@@ -408,10 +480,10 @@ serve(async (req) => {
         stale_deleted: staleDeleted,
         errors: errors.slice(0, 20),
         elapsed_ms: elapsed,
-        formula_version: "v1-limited",
+        formula_version: HOCKEY_MODEL_VERSION,
+        with_box_scores: rows.filter((r) => r.factor_breakdown.some((f) => f.factor === "shots" && f.applied)).length,
+        with_starters: rows.filter((r) => r.goalies).length,
         simplifications: [
-          "No home/away splits (not in schema)",
-          "No pp_pct/pk_pct/sog_pg/sa_pg (set to 0 in stats)",
           "No wins/losses/streak factors (not in schema)",
           "regulation_lean uses overall gpg diff only (no venue adjustment)",
         ],
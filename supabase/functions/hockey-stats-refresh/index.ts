@@ -3,26 +3,38 @@
  *
  * Computes aggregated team stats and H2H from finished hockey_games.
  * Populates:
- *   - hockey_team_stats_cache (PK: team_id, league_id, season)
- *   - hockey_h2h_cache        (PK: team_lo, team_hi — canonical ordering)
+ *   - hockey_team_stats_cache   (PK: team_id, league_id, season)
+ *   - hockey_h2h_cache          (PK: team_lo, team_hi — canonical ordering)
+ *   - hockey_goalie_stats_cache (PK: player_id, team_id, league_id, season)
  *
  * Canonical H2H ordering: team_lo = LEAST(a,b), team_hi = GREATEST(a,b)
  *
  * Schema-available columns for hockey_team_stats_cache:
- *   gp, gpg, ga_pg, pp_pct, pk_pct, sog_pg, sa_pg,
- *   p1_gpg, p1_gapg, ot_pct, last5_gpg, last5_gapg, last5_game_ids
+ *   gp, gpg, ga_pg, p1_gpg, p1_gapg, ot_pct, last5_gpg, last5_gapg, last5_game_ids
+ *   home_gp, home_gpg, home_gapg, away_gp, away_gpg, away_gapg  (venue splits)
+ *   stats_gp, pp_pct, pk_pct, sog_pg, sa_pg, save_pct           (box scores)
+ *
+ * Box-score columns only cover games hockey-sync-game-stats has fetched;
+ * stats_gp counts them so the model can ignore thin samples. Without any
+ * box score they stay 0 (save_pct null).
  *
  * KNOWN GAPS (not in current schema — would need migration):
  *   - wins, losses, otw, otl
- *   - home_gpg_for, home_gpg_against, away_gpg_for, away_gpg_against
  *   - last5_record
  *   These are noted but NOT faked. If needed, add columns via migration first.
  *
- * Provider: computed from local hockey_games data (no external API calls)
+ * Provider: computed from local hockey_games / hockey_game_team_stats /
+ * hockey_goalie_games data (no external API calls)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  type GameTeamStats,
+  type TeamGameBox,
+  aggregateSpecialTeams,
+  savePct,
+} from "../_shared/hockey_stats.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -32,6 +44,16 @@ const corsHeaders = {
 
 const FINISHED_STATUSES = ["FT", "AOT", "AP", "AET"];
 
+interface GoalieGameRow {
+  game_id: number;
+  player_id: number;
+  team_id: number;
+  player_name: string;
+  started: boolean;
+  shots_against: number | null;
+  saves: number | null;
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -113,6 +135,12 @@ serve(async (req) => {
       p1GoalsFor: number;
       p1GoalsAgainst: number;
       p1Games: number; // games where we could parse P1
+      homeGp: number;
+      homeGF: number;
+      homeGA: number;
+      awayGp: number;
+      awayGF: number;
+      awayGA: number;
       gameIds: number[]; // ordered by puck_drop ascending
     }
 
@@ -125,6 +153,7 @@ serve(async (req) => {
           teamId, leagueId, season,
           gp: 0, goalsFor: 0, goalsAgainst: 0, otGames: 0,
           p1GoalsFor: 0, p1GoalsAgainst: 0, p1Games: 0,
+          homeGp: 0, homeGF: 0, homeGA: 0, awayGp: 0, awayGF: 0, awayGA: 0,
           gameIds: [],
         });
       }
@@ -175,6 +204,9 @@ serve(async (req) => {
       homeAgg.goalsFor += homeScore;
       homeAgg.goalsAgainst += awayScore;
       if (isOT) homeAgg.otGames++;
+      homeAgg.homeGp++;
+      homeAgg.homeGF += homeScore;
+      homeAgg.homeGA += awayScore;
       homeAgg.gameIds.push(g.id);
 
       const awayAgg = getTeamAgg(awayId, g.league_id, g.season);
@@ -182,6 +214,9 @@ serve(async (req) => {
       awayAgg.goalsFor += awayScore;
       awayAgg.goalsAgainst += homeScore;
       if (isOT) awayAgg.otGames++;
+      awayAgg.awayGp++;
+      awayAgg.awayGF += awayScore;
+      awayAgg.awayGA += homeScore;
       awayAgg.gameIds.push(g.id);
 
       // P1 parsing
@@ -217,6 +252,50 @@ serve(async (req) => {
       gameById.set(g.id, g);
     }
 
+    // ── Load box scores and goalie lines (chunked .in() to keep URLs short) ──
+    const allGameIds = games.map((g) => g.id as number);
+    const boxRows: (GameTeamStats & { game_id: number })[] = [];
+    const goalieRows: GoalieGameRow[] = [];
+    for (let i = 0; i < allGameIds.length; i += 200) {
+      const chunk = allGameIds.slice(i, i + 200);
+      const [{ data: box }, { data: goalies }] = await Promise.all([
+        supabase
+          .from("hockey_game_team_stats")
+          .select("game_id, team_id, shots_on_goal, pp_goals, pp_opportunities, penalty_minutes, saves")
+          .in("game_id", chunk),
+        supabase
+          .from("hockey_goalie_games")
+          .select("game_id, player_id, team_id, player_name, started, shots_against, saves")
+          .in("game_id", chunk),
+      ]);
+      boxRows.push(...(box ?? []));
+      goalieRows.push(...(goalies ?? []));
+    }
+
+    const boxByGameTeam = new Map<string, GameTeamStats>();
+    for (const b of boxRows) boxByGameTeam.set(`${b.game_id}:${b.team_id}`, b);
+
+    /** Box scores of a team's games, joined with the opponent's row */
+    function teamBoxes(agg: TeamAgg): TeamGameBox[] {
+      const boxes: TeamGameBox[] = [];
+      for (const gid of agg.gameIds) {
+        const g = gameById.get(gid);
+        const isHome = g.home_team_id === agg.teamId;
+        const oppId = isHome ? g.away_team_id : g.home_team_id;
+        const own = boxByGameTeam.get(`${gid}:${agg.teamId}`);
+        const opp = boxByGameTeam.get(`${gid}:${oppId}`);
+        if (!own || !opp) continue;
+        boxes.push({
+          is_home: isHome,
+          goals_for: isHome ? g.home_score : g.away_score,
+          goals_against: isHome ? g.away_score : g.home_score,
+          own,
+          opp,
+        });
+      }
+      return boxes;
+    }
+
     // ── Upsert team stats ────────────────────────────────────────────────────
     let teamStatsUpserted = 0;
     const teamErrors: string[] = [];
@@ -239,6 +318,7 @@ serve(async (req) => {
       }
 
       const last5Count = last5Ids.length || 1;
+      const box = aggregateSpecialTeams(teamBoxes(agg));
 
       const row = {
         team_id: agg.teamId,
@@ -253,12 +333,13 @@ serve(async (req) => {
         last5_gpg: Number((last5GF / last5Count).toFixed(2)),
         last5_gapg: Number((last5GA / last5Count).toFixed(2)),
         last5_game_ids: last5Ids,
-        // pp_pct, pk_pct, sog_pg, sa_pg: not available from box scores alone
-        // Set to 0 — would need detailed game stats API for these
-        pp_pct: 0,
-        pk_pct: 0,
-        sog_pg: 0,
-        sa_pg: 0,
+        home_gp: agg.homeGp,
+        home_gpg: agg.homeGp > 0 ? Number((agg.homeGF / agg.homeGp).toFixed(2)) : 0,
+        home_gapg: agg.homeGp > 0 ? Number((agg.homeGA / agg.homeGp).toFixed(2)) : 0,
+        away_gp: agg.awayGp,
+        away_gpg: agg.awayGp > 0 ? Number((agg.awayGF / agg.awayGp).toFixed(2)) : 0,
+        away_gapg: agg.awayGp > 0 ? Number((agg.awayGA / agg.awayGp).toFixed(2)) : 0,
+        ...box,
       };
 
       const { error } = await supabase
@@ -301,9 +382,57 @@ serve(async (req) => {
 
     console.log(`[hockey-stats-refresh] H2H upserted: ${h2hUpserted}, errors: ${h2hErrors.length}`);
 
+    // ── Goalie season stats ──────────────────────────────────────────────────
+    // Key: "playerId:teamId:leagueId:season", lines ordered by puck_drop ascending
+    const goalieMap = new Map<string, { leagueId: number; season: number; lines: GoalieGameRow[] }>();
+    const sortedGoalieRows = goalieRows
+      .filter((l) => gameById.has(l.game_id))
+      .sort((a, b) => gameById.get(a.game_id).puck_drop.localeCompare(gameById.get(b.game_id).puck_drop));
+
+    for (const line of sortedGoalieRows) {
+      const g = gameById.get(line.game_id);
+      const key = `${line.player_id}:${line.team_id}:${g.league_id}:${g.season}`;
+      if (!goalieMap.has(key)) goalieMap.set(key, { leagueId: g.league_id, season: g.season, lines: [] });
+      goalieMap.get(key)!.lines.push(line);
+    }
+
+    let goaliesUpserted = 0;
+    const goalieErrors: string[] = [];
+
+    for (const { leagueId, season, lines } of goalieMap.values()) {
+      const last = lines[lines.length - 1];
+      const starts = lines.filter((l) => l.started);
+      const row = {
+        player_id: last.player_id,
+        team_id: last.team_id,
+        league_id: leagueId,
+        season,
+        player_name: last.player_name,
+        gp: lines.length,
+        starts: starts.length,
+        shots_against: lines.reduce((sum, l) => sum + (l.shots_against ?? 0), 0),
+        saves: lines.reduce((sum, l) => sum + (l.saves ?? 0), 0),
+        save_pct: savePct(lines),
+        last5_save_pct: savePct(lines.slice(-5)),
+        last_start_at: starts.length ? gameById.get(starts[starts.length - 1].game_id).puck_drop : null,
+      };
+
+      const { error } = await supabase
+        .from("hockey_goalie_stats_cache")
+        .upsert(row, { onConflict: "player_id,team_id,league_id,season" });
+
+      if (error) {
+        goalieErrors.push(`Goalie ${row.player_id}: ${error.message}`);
+      } else {
+        goaliesUpserted++;
+      }
+    }
+
+    console.log(`[hockey-stats-refresh] Goalie stats upserted: ${goaliesUpserted}, errors: ${goalieErrors.length}`);
+
     // ── Summary ──────────────────────────────────────────────────────────────
     const elapsed = Date.now() - startTime;
-    const allErrors = [...teamErrors, ...h2hErrors];
+    const allErrors = [...teamErrors, ...h2hErrors, ...goalieErrors];
 
     await supabase.from("pipeline_run_logs").insert({
       job_name: "hockey-stats-refresh",
@@ -311,15 +440,17 @@ serve(async (req) => {
       run_finished: new Date().toISOString(),
       success: allErrors.length === 0,
       mode: "cron",
-      processed: teamStatsUpserted + h2hUpserted,
+      processed: teamStatsUpserted + h2hUpserted + goaliesUpserted,
       failed: allErrors.length,
       details: {
         finished_games: games.length,
         team_stats_upserted: teamStatsUpserted,
         h2h_upserted: h2hUpserted,
+        goalies_upserted: goaliesUpserted,
+        box_score_rows: boxRows.length,
         errors: allErrors.slice(0, 20),
         elapsed_ms: elapsed,
-        note: "pp_pct, pk_pct, sog_pg, sa_pg require detailed game stats API — set to 0. wins/losses/otw/otl not in schema — would need migration.",
+        note: "Box-score columns cover games synced by hockey-sync-game-stats (see stats_gp). wins/losses/otw/otl not in schema — would need migration.",
       },
     });
 
@@ -329,13 +460,12 @@ serve(async (req) => {
         finished_games: games.length,
         team_stats_upserted: teamStatsUpserted,
         h2h_upserted: h2hUpserted,
+        goalies_upserted: goaliesUpserted,
         elapsed_ms: elapsed,
         errors: allErrors.length > 0 ? allErrors.slice(0, 10) : undefined,
         schema_gaps: [
           "wins/losses/otw/otl: not in hockey_team_stats_cache schema",
-          "home_gpg_for/against, away_gpg_for/against: not in schema",
           "last5_record: not in schema",
-          "pp_pct, pk_pct, sog_pg, sa_pg: need detailed game stats API (set to 0)",
         ],
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
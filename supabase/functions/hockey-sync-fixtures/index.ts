@@ -6,8 +6,8 @@
  *   - hockey_teams    (PK: provider id)
  *   - hockey_games    (PK: provider id)
  *
- * Provider: api-sports.io  /hockey endpoint  (https://v1.hockey.api-sports.io)
- * Auth key: API_HOCKEY_KEY env secret
+ * Provider: api-sports.io  /hockey endpoint, via _shared/data_provider.ts
+ * Auth key: API_HOCKEY_KEY env secret (not needed when replaying recordings)
  *
  * IMPORTANT: The hockey API requires a `season` query parameter.
  * Season derivation: if the target month >= August, season = year; else season = year - 1.
@@ -29,6 +29,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -36,8 +37,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-cron-key",
 };
 
-const HOCKEY_BASE = "https://v1.hockey.api-sports.io";
-
 const LEAGUE_PRIORITY: Array<{ id: number; name: string }> = [
   { id: 57,  name: "NHL" },
   { id: 58,  name: "AHL" },
@@ -73,11 +72,12 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const apiKey = Deno.env.get("API_HOCKEY_KEY");
+    const provider = getDataProvider();
+    const providerError = provider.configError("hockey");
 
-    if (!apiKey) {
+    if (providerError) {
       return new Response(
-        JSON.stringify({ error: "API_HOCKEY_KEY not configured" }),
+        JSON.stringify({ error: providerError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -111,6 +111,7 @@ serve(async (req) => {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    meterApiQuota(supabase, "hockey-sync-fixtures");
 
     // ── Request params ────────────────────────────────────────────────────────
     const body        = await req.json().catch(() => ({}));
@@ -143,13 +144,11 @@ serve(async (req) => {
     if (debugProbe) {
       const probeLeague = leagueIds[0] ?? 57;
       const probeDate = dates[0];
-      const probeUrl = `${HOCKEY_BASE}/games?league=${probeLeague}&season=${season}&date=${probeDate}`;
-      console.log(`[hockey-sync-fixtures] DEBUG PROBE: ${probeUrl}`);
+      const probeUrl = `/games?league=${probeLeague}&season=${season}&date=${probeDate}`;
+      console.log(`[hockey-sync-fixtures] DEBUG PROBE: ${provider.name} ${probeUrl}`);
       
-      const probeRes = await fetch(probeUrl, {
-        headers: { "x-apisports-key": apiKey },
-      });
-      const probeJson = await probeRes.json();
+      const probeRes = await provider.get("hockey", probeUrl);
+      const probeJson = probeRes.body ?? {};
       
       return new Response(
         JSON.stringify({
@@ -218,11 +217,9 @@ serve(async (req) => {
 
       for (const dateStr of dates) {
         // CRITICAL: include &season= — API returns 0 games without it
-        const url = `${HOCKEY_BASE}/games?league=${leagueId}&season=${season}&date=${dateStr}`;
+        const path = `/games?league=${leagueId}&season=${season}&date=${dateStr}`;
         try {
-          const response = await fetch(url, {
-            headers: { "x-apisports-key": apiKey },
-          });
+          const response = await provider.get("hockey", path);
           apiCalls++;
 
           if (!response.ok) {
@@ -230,7 +227,7 @@ serve(async (req) => {
             continue;
           }
 
-          const json = await response.json();
+          const json = response.body ?? {};
           
           if (json.errors && Object.keys(json.errors).length > 0) {
             console.warn(`[hockey-sync-fixtures] API errors league=${leagueId} date=${dateStr}:`, JSON.stringify(json.errors));
@@ -0,0 +1,407 @@
+/**
+ * hockey-sync-game-stats
+ *
+ * Per-game detail sync for the IceEdge v2 model.
+ * Populates:
+ *   - hockey_game_team_stats   (shots, power play, PIM, saves per team)
+ *   - hockey_goalie_games      (goalie lines: shots against, saves, TOI)
+ *   - hockey_starting_goalies  (starters for games in the next window_hours)
+ *
+ * Finished games
+ * ──────────────
+ * Games in a terminal status (FT, AOT, AP, AET) from the last `days_back`
+ * days that have no hockey_game_team_stats rows yet. Two provider calls per
+ * game (statistics + players). A game whose statistics come back empty is
+ * skipped and retried on the next run; nothing is written as zero.
+ *
+ * Starting goalies
+ * ────────────────
+ * For upcoming games (status NS) we ask /games/players for announced starters:
+ *   - provider marks a goalie as starter → status "confirmed", source "provider"
+ *   - otherwise the team's most frequent starter over its last 5 goalie lines
+ *     → status "projected", source "model"
+ * A confirmed starter is never downgraded back to a projection.
+ *
+ * Box-score parsing lives in _shared/hockey_stats.ts.
+ *
+ * Provider: api-sports.io  /hockey endpoint, via _shared/data_provider.ts
+ * Auth key: API_HOCKEY_KEY (not needed when replaying recordings)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
+import {
+  type GoalieLine,
+  parseGoalieLines,
+  parseTeamStatistics,
+} from "../_shared/hockey_stats.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-key",
+};
+
+const FINISHED_STATUSES = ["FT", "AOT", "AP", "AET"];
+
+/** One team's entry in /games/statistics or /games/players */
+interface ProviderTeamEntry {
+  team?: { id?: number };
+  statistics?: { type?: unknown; value?: unknown }[];
+  players?: Record<string, unknown>[];
+}
+
+interface GameRow {
+  id: number;
+  home_team_id: number;
+  away_team_id: number;
+}
+
+interface StartRow {
+  team_id: number;
+  player_id: number;
+  player_name: string;
+  fetched_at: string;
+  hockey_games: { puck_drop: string } | null;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  console.log("[hockey-sync-game-stats] ===== START =====");
+
+  try {
+    const supabaseUrl    = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const provider       = getDataProvider();
+    const providerError  = provider.configError("hockey");
+
+    if (providerError) {
+      console.error(`[hockey-sync-game-stats] FATAL: ${providerError}`);
+      return new Response(
+        JSON.stringify({ error: providerError }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // ── Auth ─────────────────────────────────────────────────────────────────
+    const cronKeyHeader = req.headers.get("x-cron-key");
+    const authHeader    = req.headers.get("authorization");
+    let isAuthorized    = authHeader === `Bearer ${serviceRoleKey}`;
+
+    if (!isAuthorized && cronKeyHeader) {
+      const { data: dbKey } = await supabase.rpc("get_cron_internal_key");
+      if (cronKeyHeader === dbKey) isAuthorized = true;
+    }
+
+    if (!isAuthorized && authHeader) {
+      const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+      if (anonKey) {
+        const userClient = createClient(supabaseUrl, anonKey, {
+          global: { headers: { Authorization: authHeader } },
+        });
+        const { data: isWhitelisted } = await userClient.rpc("is_user_whitelisted");
+        if (isWhitelisted) isAuthorized = true;
+      }
+    }
+
+    if (!isAuthorized) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    meterApiQuota(supabase, "hockey-sync-game-stats");
+
+    // ── Request params ────────────────────────────────────────────────────────
+    const body        = await req.json().catch(() => ({}));
+    const batchLimit  = body.limit ?? 25;
+    const daysBack    = body.days_back ?? 30;
+    const windowHours = body.window_hours ?? 48;
+
+    let apiCalls = 0;
+    const errors: string[] = [];
+
+    async function fetchProvider(path: string): Promise<ProviderTeamEntry[] | null> {
+      const response = await provider.get<ProviderTeamEntry[]>("hockey", path);
+      apiCalls++;
+      if (!response.ok) {
+        errors.push(`API ${response.status} for ${path}`);
+        return null;
+      }
+      const entries = response.body?.response;
+      return Array.isArray(entries) ? entries : [];
+    }
+
+    /** Goalie lines for every team in a game's /games/players response */
+    function goalieLinesFrom(entries: ProviderTeamEntry[]): GoalieLine[] {
+      return entries.flatMap((entry) => {
+        const teamId = entry.team?.id;
+        if (!teamId) return [];
+        return parseGoalieLines(teamId, entry.players ?? (entry.statistics as Record<string, unknown>[]) ?? []);
+      });
+    }
+
+    // ══════════════════════════════════════════════════════════════════════════
+    // 1. Box scores for finished games
+    // ══════════════════════════════════════════════════════════════════════════
+    const since = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: finished, error: finishedErr } = await supabase
+      .from("hockey_games")
+      .select("id, home_team_id, away_team_id")
+      .in("status", FINISHED_STATUSES)
+      .gte("puck_drop", since)
+      .order("puck_drop", { ascending: false })
+      .limit(500);
+
+    if (finishedErr) {
+      console.error("[hockey-sync-game-stats] DB query error:", finishedErr.message);
+      return new Response(
+        JSON.stringify({ error: finishedErr.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const finishedGames = (finished ?? []) as GameRow[];
+    const finishedIds = finishedGames.map((g) => g.id);
+    const { data: synced } = finishedIds.length
+      ? await supabase.from("hockey_game_team_stats").select("game_id").in("game_id", finishedIds)
+      : { data: [] };
+    const syncedIds = new Set(((synced ?? []) as { game_id: number }[]).map((s) => s.game_id));
+    const pending = finishedGames.filter((g) => !syncedIds.has(g.id)).slice(0, batchLimit);
+
+    console.log(`[hockey-sync-game-stats] ${pending.length} finished games need box scores`);
+
+    let boxScores = 0;
+    let goalieLines = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const game of pending) {
+      try {
+        const statistics = await fetchProvider(`/games/statistics?game=${game.id}`);
+        if (statistics === null) {
+          failed++;
+          continue;
+        }
+
+        const teamRows = statistics
+          .filter((entry) => entry.team?.id === game.home_team_id || entry.team?.id === game.away_team_id)
+          .map((entry) => ({
+            ...parseTeamStatistics(entry.team!.id!, entry.statistics),
+            game_id: game.id,
+            is_home: entry.team!.id === game.home_team_id,
+            fetched_at: new Date().toISOString(),
+          }));
+
+        if (teamRows.length !== 2) {
+          console.log(`[hockey-sync-game-stats] Game ${game.id}: statistics not ready, skipping`);
+          skipped++;
+          continue;
+        }
+
+        const { error: statsErr } = await supabase
+          .from("hockey_game_team_stats")
+          .upsert(teamRows, { onConflict: "game_id,team_id" });
+
+        if (statsErr) {
+          errors.push(`Box score game ${game.id}: ${statsErr.message}`);
+          failed++;
+          continue;
+        }
+        boxScores++;
+
+        const players = await fetchProvider(`/games/players?game=${game.id}`);
+        const lines = goalieLinesFrom(players ?? []);
+
+        // A goalie who played most of the game counts as the starter when the
+        // provider does not flag one
+        for (const teamId of [game.home_team_id, game.away_team_id]) {
+          const teamLines = lines.filter((l) => l.team_id === teamId);
+          if (teamLines.length > 0 && !teamLines.some((l) => l.started)) {
+            const longest = [...teamLines].sort((a, b) => (b.toi_seconds ?? 0) - (a.toi_seconds ?? 0))[0];
+            longest.started = true;
+          }
+        }
+
+        if (lines.length > 0) {
+          const { error: goalieErr } = await supabase
+            .from("hockey_goalie_games")
+            .upsert(
+              lines.map((l) => ({ ...l, game_id: game.id, fetched_at: new Date().toISOString() })),
+              { onConflict: "game_id,player_id" }
+            );
+
+          if (goalieErr) {
+            errors.push(`Goalie lines game ${game.id}: ${goalieErr.message}`);
+          } else {
+            goalieLines += lines.length;
+          }
+        }
+      } catch (gameErr) {
+        errors.push(`Exception game ${game.id}: ${errorMessage(gameErr)}`);
+        console.error(`[hockey-sync-game-stats] Exception on game ${game.id}:`, errorMessage(gameErr));
+        failed++;
+      }
+    }
+
+    // ══════════════════════════════════════════════════════════════════════════
+    // 2. Starting goalies for upcoming games
+    // ══════════════════════════════════════════════════════════════════════════
+    const now = new Date();
+    const cutoff = new Date(now.getTime() + windowHours * 60 * 60 * 1000);
+
+    const { data: upcoming } = await supabase
+      .from("hockey_games")
+      .select("id, home_team_id, away_team_id")
+      .eq("status", "NS")
+      .gte("puck_drop", now.toISOString())
+      .lte("puck_drop", cutoff.toISOString())
+      .order("puck_drop", { ascending: true })
+      .limit(100);
+
+    const upcomingGames = (upcoming ?? []) as GameRow[];
+    const upcomingIds = upcomingGames.map((g) => g.id);
+    const { data: existingStarters } = upcomingIds.length
+      ? await supabase.from("hockey_starting_goalies").select("game_id, team_id, status").in("game_id", upcomingIds)
+      : { data: [] };
+    const confirmedKeys = new Set(
+      ((existingStarters ?? []) as { game_id: number; team_id: number; status: string }[])
+        .filter((s) => s.status === "confirmed")
+        .map((s) => `${s.game_id}:${s.team_id}`)
+    );
+
+    // Recent starts per team (newest first) for projections
+    const upcomingTeams = [...new Set(upcomingGames.flatMap((g) => [g.home_team_id, g.away_team_id]))];
+    const { data: recentStarts } = upcomingTeams.length
+      ? await supabase
+          .from("hockey_goalie_games")
+          .select("team_id, player_id, player_name, fetched_at, hockey_games!inner(puck_drop)")
+          .in("team_id", upcomingTeams)
+          .eq("started", true)
+          .order("fetched_at", { ascending: false })
+          .limit(2000)
+      : { data: [] };
+
+    const startsByTeam = new Map<number, { player_id: number; player_name: string; puck_drop: string }[]>();
+    for (const s of (recentStarts ?? []) as StartRow[]) {
+      if (!startsByTeam.has(s.team_id)) startsByTeam.set(s.team_id, []);
+      startsByTeam.get(s.team_id)!.push({
+        player_id: s.player_id,
+        player_name: s.player_name,
+        puck_drop: s.hockey_games?.puck_drop ?? s.fetched_at,
+      });
+    }
+
+    /** Most frequent starter over the team's last 5 starts (ties → most recent) */
+    function projectedStarter(teamId: number) {
+      const last5 = (startsByTeam.get(teamId) ?? [])
+        .sort((a, b) => b.puck_drop.localeCompare(a.puck_drop))
+        .slice(0, 5);
+      if (last5.length === 0) return null;
+
+      const counts = new Map<number, number>();
+      for (const s of last5) counts.set(s.player_id, (counts.get(s.player_id) ?? 0) + 1);
+      const top = Math.max(...counts.values());
+      return last5.find((s) => counts.get(s.player_id) === top) ?? null;
+    }
+
+    let confirmed = 0;
+    let projected = 0;
+
+    for (const game of upcomingGames) {
+      const teams = [game.home_team_id, game.away_team_id];
+      if (teams.every((t) => confirmedKeys.has(`${game.id}:${t}`))) continue;
+
+      try {
+        const players = await fetchProvider(`/games/players?game=${game.id}`);
+        const announced = goalieLinesFrom(players ?? []).filter((l) => l.started);
+
+        for (const teamId of teams) {
+          if (confirmedKeys.has(`${game.id}:${teamId}`)) continue;
+
+          const starter = announced.find((l) => l.team_id === teamId);
+          const guess = starter ? null : projectedStarter(teamId);
+          if (!starter && !guess) continue;
+
+          const row = starter
+            ? { player_id: starter.player_id, player_name: starter.player_name, status: "confirmed", source: "provider" }
+            : { player_id: guess!.player_id, player_name: guess!.player_name, status: "projected", source: "model" };
+
+          const { error: starterErr } = await supabase
+            .from("hockey_starting_goalies")
+            .upsert({ game_id: game.id, team_id: teamId, ...row }, { onConflict: "game_id,team_id" });
+
+          if (starterErr) {
+            errors.push(`Starter game ${game.id} team ${teamId}: ${starterErr.message}`);
+          } else if (starter) {
+            confirmed++;
+          } else {
+            projected++;
+          }
+        }
+      } catch (gameErr) {
+        errors.push(`Exception starters game ${game.id}: ${errorMessage(gameErr)}`);
+        console.error(`[hockey-sync-game-stats] Exception on starters ${game.id}:`, errorMessage(gameErr));
+      }
+    }
+
+    // ── Summary ───────────────────────────────────────────────────────────────
+    const elapsed = Date.now() - startTime;
+    console.log(
+      `[hockey-sync-game-stats] ═══ COMPLETE ═══ box_scores=${boxScores} goalie_lines=${goalieLines} confirmed=${confirmed} projected=${projected} skipped=${skipped} failed=${failed} api_calls=${apiCalls} elapsed=${elapsed}ms`
+    );
+
+    await supabase.from("pipeline_run_logs").insert({
+      job_name:     "hockey-sync-game-stats",
+      run_started:  new Date(startTime).toISOString(),
+      run_finished: new Date().toISOString(),
+      success:      failed === 0,
+      mode:         "cron",
+      processed:    boxScores + confirmed + projected,
+      failed,
+      details: {
+        pending_box_scores: pending.length,
+        box_scores:         boxScores,
+        goalie_lines:       goalieLines,
+        starters_confirmed: confirmed,
+        starters_projected: projected,
+        skipped,
+        api_calls:          apiCalls,
+        elapsed_ms:         elapsed,
+        errors:             errors.slice(0, 20),
+      },
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        box_scores: boxScores,
+        goalie_lines: goalieLines,
+        starters_confirmed: confirmed,
+        starters_projected: projected,
+        skipped,
+        failed,
+        api_calls: apiCalls,
+        elapsed_ms: elapsed,
+        errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    console.error("[hockey-sync-game-stats] FATAL:", errorMessage(err));
+    return new Response(
+      JSON.stringify({ error: errorMessage(err) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -15,14 +15,15 @@
  *   "Handicap"                 → "handicap"     | "home"/"away"  | ±X.5
  *   "Home Total" / "Away Total"→ "home_total"/"away_total" | "over"/"under" | X.5
  *
- * Provider: api-sports.io  /odds endpoint
- * Auth key: API_HOCKEY_KEY env secret
+ * Provider: api-sports.io  /odds endpoint, via _shared/data_provider.ts
+ * Auth key: API_HOCKEY_KEY env secret (not needed when replaying recordings)
  *
  * IMPORTANT: The hockey odds API requires &season= parameter.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -30,8 +31,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-cron-key",
 };
 
-const HOCKEY_BASE = "https://v1.hockey.api-sports.io";
-
 /**
  * Normalize a bet name from the API into our canonical market string.
  * Returns null if we don't support this market.
@@ -128,11 +127,12 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const apiKey = Deno.env.get("API_HOCKEY_KEY");
+    const provider = getDataProvider();
+    const providerError = provider.configError("hockey");
 
-    if (!apiKey) {
+    if (providerError) {
       return new Response(
-        JSON.stringify({ error: "API_HOCKEY_KEY not configured" }),
+        JSON.stringify({ error: providerError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -162,6 +162,7 @@ serve(async (req) => {
         status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    meterApiQuota(supabase, "hockey-sync-odds");
 
     // ── Params ──────────────────────────────────────────────────────────────
     const body = await req.json().catch(() => ({}));
@@ -171,12 +172,10 @@ serve(async (req) => {
 
     // ── Debug probe: raw API inspection ─────────────────────────────────────
     if (debugProbe && probeGameId) {
-      const probeUrl = `${HOCKEY_BASE}/odds?game=${probeGameId}`;
-      console.log(`[hockey-sync-odds] DEBUG PROBE: ${probeUrl}`);
-      const probeRes = await fetch(probeUrl, {
-        headers: { "x-apisports-key": apiKey },
-      });
-      const probeJson = await probeRes.json();
+      const probeUrl = `/odds?game=${probeGameId}`;
+      console.log(`[hockey-sync-odds] DEBUG PROBE: ${provider.name} ${probeUrl}`);
+      const probeRes = await provider.get("hockey", probeUrl);
+      const probeJson = probeRes.body ?? {};
 
       return new Response(
         JSON.stringify({
@@ -243,10 +242,7 @@ serve(async (req) => {
 
     for (const gameId of gameIds) {
       try {
-        const url = `${HOCKEY_BASE}/odds?game=${gameId}`;
-        const response = await fetch(url, {
-          headers: { "x-apisports-key": apiKey },
-        });
+        const response = await provider.get("hockey", `/odds?game=${gameId}`);
         apiCalls++;
 
         if (!response.ok) {
@@ -254,7 +250,7 @@ serve(async (req) => {
           continue;
         }
 
-        const json = await response.json();
+        const json = response.body ?? {};
 
         if (json.errors && Object.keys(json.errors).length > 0) {
           errors.push(`API errors game ${gameId}: ${JSON.stringify(json.errors)}`);
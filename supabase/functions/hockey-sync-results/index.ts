@@ -27,12 +27,24 @@
  *   supposedly finished game (treat as suspicious / data not ready).
  * - All writes are per-game upserts on PK=id, never bulk deletes.
  *
- * Provider: api-sports.io  /hockey endpoint
- * Auth key: API_HOCKEY_KEY
+ * Bet journal settlement
+ * ──────────────────────
+ * After the game updates, pending hockey bet_journal_legs whose game is final
+ * in hockey_games are scored (_shared/hockey_legs.ts), legs on cancelled or
+ * abandoned games are voided, and their bets settled with the same void/push
+ * re-pricing as score-ticket-legs (_shared/journal_settlement.ts). This also
+ * picks up games finished in earlier runs, so a failed settlement retries
+ * next run.
+ *
+ * Provider: api-sports.io  /hockey endpoint, via _shared/data_provider.ts
+ * Auth key: API_HOCKEY_KEY (not needed when replaying recordings)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
+import { scoreHockeyLeg, type HockeyGameResult } from "../_shared/hockey_legs.ts";
+import { settleJournalBets } from "../_shared/journal_settlement.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -40,14 +52,68 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-cron-key",
 };
 
-const HOCKEY_BASE = "https://v1.hockey.api-sports.io";
-
 // Statuses we consider "terminal finished" in the provider API
 const PROVIDER_FINISHED = new Set(["FT", "AOT", "AP", "AET"]);
 
 // Terminal statuses we already trust in our DB (won't re-fetch those)
 const DB_SETTLED = new Set(["FT", "AOT", "AP", "AET"]);
 
+const JOURNAL_BATCH = 500;
+
+interface SettleableJournalLeg extends HockeyGameResult {
+  leg_id: string;
+  bet_id: string;
+  fixture_id: number;
+  market: string;
+  side: string;
+  line: number;
+}
+
+/**
+ * Score pending hockey journal legs against hockey_games and settle their bets.
+ * The RPC only returns legs on final or cancelled / abandoned games, so legs
+ * whose game is not final (or lacks the period score a p1_total leg needs)
+ * stay PENDING without holding up the batch.
+ */
+async function settleHockeyJournal(
+  supabase: SupabaseClient,
+  errors: string[]
+): Promise<{ scored_legs: number; settled_bets: number }> {
+  const { data: legs, error: legsErr } = await supabase
+    .rpc("get_settleable_hockey_journal_legs", { batch_limit: JOURNAL_BATCH });
+
+  if (legsErr) {
+    errors.push(`Journal legs query: ${legsErr.message}`);
+    return { scored_legs: 0, settled_bets: 0 };
+  }
+
+  let scored = 0;
+  const betsToUpdate = new Set<string>();
+
+  for (const leg of (legs ?? []) as SettleableJournalLeg[]) {
+    const score = scoreHockeyLeg(leg, leg);
+    if (!score) continue;
+
+    const { error: updateErr } = await supabase
+      .from("bet_journal_legs")
+      .update({ ...score, settled_at: new Date().toISOString() })
+      .eq("id", leg.leg_id)
+      .eq("result_status", "PENDING");
+
+    if (updateErr) {
+      errors.push(`Journal leg ${leg.leg_id}: ${updateErr.message}`);
+      continue;
+    }
+    scored++;
+    betsToUpdate.add(leg.bet_id);
+  }
+
+  const settled = await settleJournalBets(supabase, betsToUpdate, errors);
+
+  console.log(`[hockey-sync-results] Journal: scored ${scored} legs, settled ${settled} bets`);
+  return { scored_legs: scored, settled_bets: settled };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -59,12 +125,13 @@ serve(async (req) => {
   try {
     const supabaseUrl    = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const apiKey         = Deno.env.get("API_HOCKEY_KEY");
+    const provider       = getDataProvider();
+    const providerError  = provider.configError("hockey");
 
-    if (!apiKey) {
-      console.error("[hockey-sync-results] FATAL: API_HOCKEY_KEY not configured");
+    if (providerError) {
+      console.error(`[hockey-sync-results] FATAL: ${providerError}`);
       return new Response(
-        JSON.stringify({ error: "API_HOCKEY_KEY not configured" }),
+        JSON.stringify({ error: providerError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -98,6 +165,7 @@ serve(async (req) => {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    meterApiQuota(supabase, "hockey-sync-results");
 
     // ── Request params ────────────────────────────────────────────────────────
     const body       = await req.json().catch(() => ({}));
@@ -140,10 +208,7 @@ serve(async (req) => {
     for (const dbGame of (candidates ?? [])) {
       try {
         // ── Fetch single game from API ────────────────────────────────────────
-        const url = `${HOCKEY_BASE}/games?id=${dbGame.id}`;
-        const response = await fetch(url, {
-          headers: { "x-apisports-key": apiKey },
-        });
+        const response = await provider.get("hockey", `/games?id=${dbGame.id}`);
         apiCalls++;
 
         if (!response.ok) {
@@ -155,7 +220,7 @@ serve(async (req) => {
           continue;
         }
 
-        const json    = await response.json();
+        const json    = response.body ?? {};
         const results = json.response ?? [];
 
         if (!Array.isArray(results) || results.length === 0) {
@@ -267,6 +332,9 @@ serve(async (req) => {
       }
     }
 
+    // ── Settle hockey bet journal legs ────────────────────────────────────────
+    const journal = await settleHockeyJournal(supabase, errors);
+
     // ── Summary ───────────────────────────────────────────────────────────────
     const elapsed = Date.now() - startTime;
     console.log(
@@ -292,6 +360,7 @@ serve(async (req) => {
         skipped,
         failed,
         api_calls:   apiCalls,
+        journal,
         elapsed_ms:  elapsed,
         errors:      errors.slice(0, 20),
       },
@@ -304,6 +373,7 @@ serve(async (req) => {
         skipped,
         failed,
         api_calls: apiCalls,
+        journal,
         elapsed_ms: elapsed,
         errors:    errors.length > 0 ? errors.slice(0, 10) : undefined,
       }),
@@ -0,0 +1,194 @@
+/*
+ * LIVE FIXTURES POLL - in-play match state cache
+ *
+ * Runs every minute via cron.
+ * One /fixtures?live=all call gives score, minute and card events for every
+ * live match; fixtures we track are upserted into live_fixture_states.
+ * Corners, cards, fouls and offsides need a /fixtures/statistics call each, so
+ * they are refreshed at most every LIVE_TTL_MINUTES and MAX_STATS_PER_RUN per run.
+ * Matches that dropped out of the live feed get a final status via /fixtures?ids=.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import { fetchAPIFootball, fetchFixtureStatistics } from "../_shared/api_football.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
+import { LIVE_TTL_MINUTES } from "../_shared/config.ts";
+import {
+  IN_PLAY_STATUSES,
+  isInPlay,
+  parseLiveFixture,
+  parseLiveStatistics,
+  type ApiLiveFixture,
+} from "../_shared/live_model.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-key",
+};
+
+const MAX_STATS_PER_RUN = 25;
+const IDS_PER_CALL = 20; // API-Football limit for /fixtures?ids=
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  const logs: string[] = [];
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const auth = await checkCronOrAdminAuth(req, supabase, serviceRoleKey, "[live-fixtures-poll]");
+  if (!auth.authorized) {
+    console.error("[live-fixtures-poll] Unauthorized request");
+    return new Response(
+      JSON.stringify({ error: "Unauthorized", method: auth.method }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  meterApiQuota(supabase, "live-fixtures-poll");
+
+  try {
+    const nowIso = new Date().toISOString();
+
+    // Step 1: Everything live right now (one API call)
+    const liveRes = await fetchAPIFootball("/fixtures?live=all", { logPrefix: "[live-fixtures-poll]" });
+    if (!liveRes.ok) throw new Error(`Live feed failed: ${liveRes.error}`);
+    const liveItems: ApiLiveFixture[] = liveRes.data ?? [];
+    const liveIds = liveItems.map((item) => Number(item?.fixture?.id)).filter((id) => id > 0);
+
+    // Step 2: Only fixtures we track
+    const tracked = new Map<number, { league_id: number | null; home: number; away: number }>();
+    for (let i = 0; i < liveIds.length; i += 200) {
+      const { data, error } = await supabase
+        .from("fixtures")
+        .select("id, league_id, teams_home, teams_away")
+        .in("id", liveIds.slice(i, i + 200));
+      if (error) throw error;
+      for (const f of data ?? []) {
+        tracked.set(f.id, {
+          league_id: f.league_id,
+          home: Number((f.teams_home as { id?: number } | null)?.id),
+          away: Number((f.teams_away as { id?: number } | null)?.id),
+        });
+      }
+    }
+    logs.push(`[live] feed=${liveItems.length} tracked=${tracked.size}`);
+
+    const { data: openStates, error: openError } = await supabase
+      .from("live_fixture_states")
+      .select("fixture_id, stats_fetched_at, first_goal_team")
+      .in("status", IN_PLAY_STATUSES);
+    if (openError) throw openError;
+    const statsFetchedAt = new Map((openStates ?? []).map((s) => [s.fixture_id, s.stats_fetched_at]));
+    // A poll whose events miss the opener must not clear a known first scorer
+    const firstScorer = new Map((openStates ?? []).map((s) => [s.fixture_id, s.first_goal_team]));
+    const withFirstScorer = (row: ReturnType<typeof parseLiveFixture>) => ({
+      ...row,
+      first_goal_team: row.first_goal_team ?? firstScorer.get(row.fixture_id) ?? null,
+    });
+
+    // Step 3: Score + minute for every tracked match, stat counts when due
+    const statsCutoff = Date.now() - LIVE_TTL_MINUTES * 60 * 1000;
+    const withStats: Record<string, unknown>[] = [];
+    const withoutStats: Record<string, unknown>[] = [];
+    let statsFailed = 0;
+
+    for (const item of liveItems) {
+      const fixtureId = Number(item?.fixture?.id);
+      const fixture = tracked.get(fixtureId);
+      if (!fixture) continue;
+
+      const row = withFirstScorer(parseLiveFixture(item, fixture.league_id, nowIso));
+      const lastStats = statsFetchedAt.get(fixtureId);
+      const statsDue = isInPlay(row.status) && (!lastStats || new Date(lastStats).getTime() < statsCutoff);
+
+      if (statsDue && withStats.length < MAX_STATS_PER_RUN) {
+        const statistics = await fetchFixtureStatistics(fixtureId);
+        if (statistics.length > 0) {
+          withStats.push({ ...row, ...parseLiveStatistics(statistics, fixture.home, fixture.away), stats_fetched_at: nowIso });
+          continue;
+        }
+        statsFailed++;
+      }
+      withoutStats.push(row);
+    }
+
+    // Step 4: Matches that left the live feed (full time, abandoned…)
+    const liveSet = new Set(liveIds);
+    const closedIds = [...statsFetchedAt.keys()].filter((id) => !liveSet.has(id));
+    for (let i = 0; i < closedIds.length; i += IDS_PER_CALL) {
+      const ids = closedIds.slice(i, i + IDS_PER_CALL);
+      const res = await fetchAPIFootball(`/fixtures?ids=${ids.join("-")}`, { logPrefix: "[live-fixtures-poll]" });
+      if (!res.ok) {
+        logs.push(`[live] Closing lookup failed for ${ids.length} fixtures: ${res.error}`);
+        continue;
+      }
+      for (const item of (res.data ?? []) as ApiLiveFixture[]) {
+        withoutStats.push(withFirstScorer(parseLiveFixture(item, Number(item?.league?.id) || null, nowIso)));
+      }
+    }
+
+    // Separate upserts: a row without stat columns must not null out the last counts
+    let upserted = 0;
+    let failed = 0;
+    for (const batch of [withStats, withoutStats]) {
+      if (batch.length === 0) continue;
+      const { error } = await supabase.from("live_fixture_states").upsert(batch, { onConflict: "fixture_id" });
+      if (error) {
+        failed += batch.length;
+        logs.push(`[live] Upsert error: ${error.message}`);
+      } else {
+        upserted += batch.length;
+      }
+    }
+
+    logs.push(`[live] upserted=${upserted} stats_refreshed=${withStats.length} stats_failed=${statsFailed} closed=${closedIds.length} failed=${failed}`);
+
+    await supabase.from("optimizer_run_logs").insert({
+      run_type: "live-fixtures-poll",
+      window_start: nowIso,
+      window_end: nowIso,
+      scope: { live_feed: liveItems.length, tracked: tracked.size, closed: closedIds.length },
+      scanned: liveItems.length,
+      upserted,
+      skipped: liveItems.length - tracked.size,
+      failed,
+      started_at: new Date(startTime).toISOString(),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
+      notes: null,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        live: liveItems.length,
+        tracked: tracked.size,
+        upserted,
+        stats_refreshed: withStats.length,
+        closed: closedIds.length,
+        failed,
+        duration_ms: Date.now() - startTime,
+        logs,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[live-fixtures-poll] Error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        logs,
+        duration_ms: Date.now() - startTime,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
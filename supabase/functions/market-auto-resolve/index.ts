@@ -3,13 +3,22 @@
 // ============================================================================
 // - Finds closed markets with fixture_id where fixture has finished
 // - Determines outcome based on market_type and fixture result
-// - Calls atomic resolve_market RPC for settlement
+// - Files a resolution proposal (propose_market_resolution RPC); the market
+//   settles once the challenge window passes undisputed
+//   (finalize_due_market_resolutions cron)
 // - Supports: over_goals, under_goals, btts, home_win, away_win, draw
+// - Multi-outcome markets (market_type = 'multi') settle by resolution_rule:
+//   1X2, correct score, first team to score, goals/corners/cards ranges
+//   (rules in _shared/market_outcomes.ts). Undecidable ones are left for
+//   an admin.
+// - Body { "scope": "multi" } limits the run to multi markets (the cron;
+//   binary markets are settled by auto_resolve_markets() in SQL)
 // ============================================================================
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { checkCronOrAdminAuth } from "../_shared/auth.ts";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isMultiResolutionRule, resolveMultiOutcome, type OutcomeBucket } from "../_shared/market_outcomes.ts";
 
 Deno.serve(async (req) => {
   const origin = req.headers.get("origin");
@@ -31,29 +40,66 @@ Deno.serve(async (req) => {
   }
 
   try {
-    console.log(`${logPrefix} Starting auto-resolve scan...`);
+    const body = await req.json().catch(() => ({}));
+    const multiOnly = body?.scope === "multi";
+
+    console.log(`${logPrefix} Starting auto-resolve scan${multiOnly ? " (multi-outcome only)" : ""}...`);
 
     // Find closed (or open) markets with fixture_id that should auto-resolve
-    const { data: markets, error: marketsError } = await adminClient
+    let marketsQuery = adminClient
       .from("prediction_markets")
-      .select("id, title, market_type, fixture_id")
+      .select("id, title, market_type, resolution_rule, fixture_id")
       .in("status", ["open", "closed"])
       .not("fixture_id", "is", null);
+    if (multiOnly) marketsQuery = marketsQuery.eq("market_type", "multi");
+
+    const { data: markets, error: marketsError } = await marketsQuery;
 
     if (marketsError) {
       console.error(`${logPrefix} Failed to fetch markets:`, marketsError);
       return errorResponse("Failed to fetch markets", origin, 500, req);
     }
 
-    let resolved = 0;
+    let proposed = 0;
     let skipped = 0;
     const results: { market_id: string; title: string; outcome: string | null }[] = [];
 
+    // Winning key for a multi-outcome market (null when it cannot be decided
+    // yet) and any evidence beyond the fixture_results row
+    const resolveMulti = async (
+      market: { id: string; resolution_rule: string | null; fixture_id: number },
+      result: { goals_home: number; goals_away: number; corners_home: number | null; corners_away: number | null; cards_home: number | null; cards_away: number | null }
+    ): Promise<{ outcome: string | null; evidence: Record<string, unknown> }> => {
+      const rule = (market.resolution_rule || "").toLowerCase();
+      if (!isMultiResolutionRule(rule)) return { outcome: null, evidence: {} };
+
+      const { data: outcomes, error: outcomesError } = await adminClient
+        .from("market_outcomes")
+        .select("outcome, range_min, range_max")
+        .eq("market_id", market.id);
+      if (outcomesError || !outcomes?.length) return { outcome: null, evidence: {} };
+
+      let firstGoalTeam: "home" | "away" | null = null;
+      if (rule === "first_goal_team") {
+        const { data: live } = await adminClient
+          .from("live_fixture_states")
+          .select("first_goal_team")
+          .eq("fixture_id", market.fixture_id)
+          .maybeSingle();
+        firstGoalTeam = (live?.first_goal_team as "home" | "away" | null) ?? null;
+      }
+
+      return {
+        outcome: resolveMultiOutcome(rule, outcomes as OutcomeBucket[], { ...result, first_goal_team: firstGoalTeam }),
+        evidence: rule === "first_goal_team" ? { first_goal_team: firstGoalTeam } : {},
+      };
+    };
+
     for (const market of markets || []) {
       // Check if fixture has a result
       const { data: result } = await adminClient
         .from("fixture_results")
-        .select("goals_home, goals_away, status")
+        .select("goals_home, goals_away, corners_home, corners_away, cards_home, cards_away, status")
         .eq("fixture_id", market.fixture_id)
         .eq("status", "FT")
         .single();
@@ -64,7 +110,8 @@ Deno.serve(async (req) => {
       }
 
       // Determine winning outcome based on market_type
-      let winningOutcome: "yes" | "no" | null = null;
+      let winningOutcome: string | null = null;
+      let evidence: Record<string, unknown> = {};
       const goalsHome = result.goals_home;
       const goalsAway = result.goals_away;
       const totalGoals = goalsHome + goalsAway;
@@ -72,7 +119,14 @@ Deno.serve(async (req) => {
       const marketType = (market.market_type || "").toLowerCase();
       const title = (market.title || "").toLowerCase();
 
-      if (marketType.includes("over_2.5") || title.includes("over 2.5")) {
+      if (marketType === "multi") {
+        ({ outcome: winningOutcome, evidence } = await resolveMulti(market, result));
+        if (!winningOutcome) {
+          console.warn(`${logPrefix} Cannot settle multi market ${market.id} (${market.resolution_rule}) from the data yet`);
+          skipped++;
+          continue;
+        }
+      } else if (marketType.includes("over_2.5") || title.includes("over 2.5")) {
         winningOutcome = totalGoals > 2.5 ? "yes" : "no";
       } else if (marketType.includes("under_2.5") || title.includes("under 2.5")) {
         winningOutcome = totalGoals < 2.5 ? "yes" : "no";
@@ -92,12 +146,13 @@ Deno.serve(async (req) => {
         continue;
       }
 
-      console.log(`${logPrefix} Auto-resolving market ${market.id}: ${market.title} → ${winningOutcome} (Score: ${goalsHome}-${goalsAway})`);
+      console.log(`${logPrefix} Proposing ${winningOutcome} for market ${market.id}: ${market.title} (Score: ${goalsHome}-${goalsAway})`);
 
-      // Call atomic resolve_market RPC
-      const { data: rpcResult, error: rpcError } = await adminClient.rpc("resolve_market", {
+      // The RPC snapshots fixture_results into the proposal's evidence
+      const { data: rpcResult, error: rpcError } = await adminClient.rpc("propose_market_resolution", {
         _market_id: market.id,
         _winning_outcome: winningOutcome,
+        _evidence: { ...evidence, resolved_by: "market-auto-resolve" },
         _admin_user_id: null,
         _is_system: true,
       });
@@ -109,7 +164,13 @@ Deno.serve(async (req) => {
       }
 
       if (!rpcResult.ok) {
-        console.warn(`${logPrefix} Resolution failed for market ${market.id}:`, rpcResult.error);
+        console.warn(`${logPrefix} Proposal failed for market ${market.id}:`, rpcResult.error);
+        skipped++;
+        continue;
+      }
+
+      // A live proposal, or an admin rejected the feed's call
+      if (rpcResult.skipped) {
         skipped++;
         continue;
       }
@@ -119,14 +180,14 @@ Deno.serve(async (req) => {
         title: market.title,
         outcome: winningOutcome,
       });
-      resolved++;
+      proposed++;
     }
 
-    console.log(`${logPrefix} Complete. Resolved: ${resolved}, Skipped: ${skipped}`);
+    console.log(`${logPrefix} Complete. Proposed: ${proposed}, Skipped: ${skipped}`);
 
     return jsonResponse({
       ok: true,
-      resolved,
+      proposed,
       skipped,
       results,
     }, origin, 200, req);
@@ -0,0 +1,85 @@
+// ============================================================================
+// market-cashout-quote: Value an open prediction market position
+// ============================================================================
+// - Calls quote_market_cashout RPC (read-only) for the caller's position
+// - Values the claim at the current market price, minus the 2% fee
+// - The sell itself goes through market-cashout; the price there is
+//   recomputed under the market row lock, so it can differ from this quote
+// ============================================================================
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+
+Deno.serve(async (req) => {
+  const origin = req.headers.get("origin");
+
+  if (req.method === "OPTIONS") {
+    return handlePreflight(origin, req);
+  }
+
+  const logPrefix = "[market-cashout-quote]";
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return errorResponse("Authorization required", origin, 401, req);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    // User client (RPC uses auth.uid() internally)
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("Invalid authentication", origin, 401, req);
+    }
+
+    const body = await req.json();
+    const { position_id, fraction = 1 } = body;
+
+    if (!position_id) {
+      return errorResponse("Missing required field: position_id", origin, 400, req);
+    }
+
+    const fractionValue = Number(fraction);
+    if (!(fractionValue > 0 && fractionValue <= 1)) {
+      return errorResponse("fraction must be greater than 0 and at most 1", origin, 400, req);
+    }
+
+    const { data: result, error: rpcError } = await supabase.rpc("quote_market_cashout", {
+      _position_id: position_id,
+      _fraction: fractionValue,
+    });
+
+    if (rpcError) {
+      console.error(`${logPrefix} RPC error:`, rpcError);
+      return errorResponse(rpcError.message || "Failed to quote cash-out", origin, 500, req);
+    }
+
+    if (!result.ok) {
+      return errorResponse(result.error, origin, 400, req);
+    }
+
+    return jsonResponse({
+      ok: true,
+      quote: {
+        position_id: result.position_id,
+        fraction: result.fraction,
+        claim: result.claim,
+        net_stake: result.net_stake,
+        value: result.value,
+        fee: result.fee,
+        proceeds: result.proceeds,
+        pricing_mode: result.pricing_mode,
+      },
+    }, origin, 200, req);
+
+  } catch (err) {
+    console.error(`${logPrefix} Unhandled error:`, err);
+    return errorResponse("Internal server error", origin, 500, req);
+  }
+});
@@ -0,0 +1,93 @@
+// ============================================================================
+// market-cashout: Sell back all or part of an open prediction market position
+// ============================================================================
+// - Calls atomic Postgres RPC (cash_out_market_position) which handles:
+//   - Ownership, open position and open market checks
+//   - Valuation at the current price under the market row lock, 2% fee
+//   - Position, market_coins, market totals/price and sale log updates
+// ============================================================================
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+
+Deno.serve(async (req) => {
+  const origin = req.headers.get("origin");
+
+  if (req.method === "OPTIONS") {
+    return handlePreflight(origin, req);
+  }
+
+  const logPrefix = "[market-cashout]";
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return errorResponse("Authorization required", origin, 401, req);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    // User client (RPC uses auth.uid() internally)
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error(`${logPrefix} User auth failed:`, userError);
+      return errorResponse("Invalid authentication", origin, 401, req);
+    }
+
+    const body = await req.json();
+    const { position_id, fraction = 1 } = body;
+
+    if (!position_id) {
+      return errorResponse("Missing required field: position_id", origin, 400, req);
+    }
+
+    const fractionValue = Number(fraction);
+    if (!(fractionValue > 0 && fractionValue <= 1)) {
+      return errorResponse("fraction must be greater than 0 and at most 1", origin, 400, req);
+    }
+
+    console.log(`${logPrefix} User ${user.id} cashing out ${Math.round(fractionValue * 100)}% of position ${position_id}`);
+
+    const { data: result, error: rpcError } = await supabase.rpc("cash_out_market_position", {
+      _position_id: position_id,
+      _fraction: fractionValue,
+    });
+
+    if (rpcError) {
+      console.error(`${logPrefix} RPC error:`, rpcError);
+      return errorResponse(rpcError.message || "Failed to cash out", origin, 500, req);
+    }
+
+    if (!result.ok) {
+      console.log(`${logPrefix} Cash-out rejected: ${result.error}`);
+      return errorResponse(result.error, origin, 400, req);
+    }
+
+    console.log(`${logPrefix} Position ${position_id} sold claim ${result.claim} for ${result.proceeds} (fee ${result.fee})`);
+
+    return jsonResponse({
+      ok: true,
+      sale: {
+        position_id: result.position_id,
+        claim: result.claim,
+        net_stake: result.net_stake,
+        value: result.value,
+        fee: result.fee,
+        proceeds: result.proceeds,
+        remaining_payout: result.remaining_payout,
+        status: result.status,
+      },
+      price_yes: result.price_yes,
+      new_balance: result.new_balance,
+    }, origin, 200, req);
+
+  } catch (err) {
+    console.error(`${logPrefix} Unhandled error:`, err);
+    return errorResponse("Internal server error", origin, 500, req);
+  }
+});
@@ -2,13 +2,19 @@
 // market-create: Admin-only endpoint to create prediction markets
 // ============================================================================
 // - Validates admin role
-// - Creates market with initial odds
+// - Creates market with initial odds and pricing mode (fixed / lmsr / parimutuel)
+// - Records the opening price in market_price_history
 // - Logs to admin_market_audit_log
 // ============================================================================
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
 
+// Keep in sync with src/lib/marketPricing.ts
+const PRICING_MODES = ["fixed", "lmsr", "parimutuel"];
+const MIN_LIQUIDITY = 50;
+const MAX_LIQUIDITY = 100000;
+
 Deno.serve(async (req) => {
   const origin = req.headers.get("origin");
 
@@ -68,12 +74,36 @@ Deno.serve(async (req) => {
       closes_at,
       initial_odds_yes = 2.0,
       initial_odds_no = 2.0,
+      pricing_mode = "fixed",
+      liquidity_b = null,
     } = body;
 
     if (!title || !closes_at) {
       return errorResponse("Missing required fields: title, closes_at", origin, 400, req);
     }
 
+    // Multi-outcome markets need their outcome set: admin_create_multi_market_for_fixture
+    if (market_type !== "binary") {
+      return errorResponse("Only binary markets can be created here", origin, 400, req);
+    }
+
+    if (!PRICING_MODES.includes(pricing_mode)) {
+      return errorResponse(`pricing_mode must be one of: ${PRICING_MODES.join(", ")}`, origin, 400, req);
+    }
+
+    const liquidity = liquidity_b == null ? null : Number(liquidity_b);
+    if (pricing_mode !== "fixed" && (liquidity == null || !(liquidity >= MIN_LIQUIDITY && liquidity <= MAX_LIQUIDITY))) {
+      return errorResponse(`liquidity_b must be between ${MIN_LIQUIDITY} and ${MAX_LIQUIDITY}`, origin, 400, req);
+    }
+
+    // Opening YES price without the overround; market-maker modes quote fair odds from it
+    const rawYes = 1 / initial_odds_yes;
+    const rawNo = 1 / initial_odds_no;
+    const initialPriceYes = Math.min(0.99, Math.max(0.01, rawYes / (rawYes + rawNo)));
+    const toOdds = (p: number) => Math.min(999.99, Math.max(1.01, Math.round((1 / p) * 100) / 100));
+    const oddsYes = pricing_mode === "fixed" ? initial_odds_yes : toOdds(initialPriceYes);
+    const oddsNo = pricing_mode === "fixed" ? initial_odds_no : toOdds(1 - initialPriceYes);
+
     const closesAtDate = new Date(closes_at);
     if (closesAtDate <= new Date()) {
       return errorResponse("closes_at must be in the future", origin, 400, req);
@@ -93,8 +123,11 @@ Deno.serve(async (req) => {
         fixture_id: fixture_id || null,
         closes_at: closesAtDate.toISOString(),
         created_by: user.id,
-        odds_yes: initial_odds_yes,
-        odds_no: initial_odds_no,
+        odds_yes: oddsYes,
+        odds_no: oddsNo,
+        pricing_mode,
+        liquidity_b: pricing_mode === "fixed" ? null : liquidity,
+        initial_price_yes: initialPriceYes,
         total_staked_yes: 0,
         total_staked_no: 0,
         status: "open",
@@ -107,6 +140,13 @@ Deno.serve(async (req) => {
       return errorResponse("Failed to create market", origin, 500, req);
     }
 
+    await adminClient.from("market_price_history").insert({
+      market_id: market.id,
+      price_yes: initialPriceYes,
+      odds_yes: market.odds_yes,
+      odds_no: market.odds_no,
+    });
+
     // Audit log
     await adminClient.from("admin_market_audit_log").insert({
       admin_user_id: user.id,
@@ -118,6 +158,8 @@ Deno.serve(async (req) => {
         fixture_id,
         closes_at: closesAtDate.toISOString(),
         initial_odds: { yes: initial_odds_yes, no: initial_odds_no },
+        pricing_mode,
+        liquidity_b: liquidity,
       },
     });
 
@@ -132,6 +174,8 @@ Deno.serve(async (req) => {
         closes_at: market.closes_at,
         odds_yes: market.odds_yes,
         odds_no: market.odds_no,
+        pricing_mode: market.pricing_mode,
+        liquidity_b: market.liquidity_b,
       },
     }, origin, 201, req);
 
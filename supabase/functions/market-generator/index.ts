@@ -0,0 +1,238 @@
+// ============================================================================
+// market-generator: Cron job to create fixture markets from generator configs
+// ============================================================================
+// - Runs every enabled market_generator_configs row (or one, via config_id)
+// - Loads not-started fixtures in the config's leagues within horizon_hours
+// - Prices each rule from the stat model or best_outcome_prices
+//   (_shared/market_generator.ts); unpriced rules are skipped
+// - Creates markets through generate_fixture_market (duplicate check +
+//   system audit entry) and stores the run counts on the config
+// ============================================================================
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import { handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { loadMatchModelInputs, modelForFixture } from "../_shared/match_model.ts";
+import {
+  isGeneratorRule,
+  seedFixturePrices,
+  type BestPrice,
+  type PriceSource,
+} from "../_shared/market_generator.ts";
+
+const NOT_STARTED = ["NS", "TBD"];
+const IN_CHUNK = 200;
+
+interface GeneratorConfig {
+  id: string;
+  name: string;
+  league_ids: number[];
+  horizon_hours: number;
+  resolution_rules: string[];
+  price_source: PriceSource;
+}
+
+interface FixtureRow {
+  id: number;
+  league_id: number | null;
+  teams_home: { id?: number } | null;
+  teams_away: { id?: number } | null;
+}
+
+interface RunSummary {
+  fixtures: number;
+  created: number;
+  duplicates: number;
+  unpriced: number;
+  closed: number;
+  failed: number;
+  errors: string[];
+}
+
+Deno.serve(async (req) => {
+  const origin = req.headers.get("origin");
+
+  if (req.method === "OPTIONS") {
+    return handlePreflight(origin, req);
+  }
+
+  const logPrefix = "[market-generator]";
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const adminClient = createClient(supabaseUrl, serviceRoleKey);
+
+  const auth = await checkCronOrAdminAuth(req, adminClient, serviceRoleKey, logPrefix);
+  if (!auth.authorized) {
+    return errorResponse("Unauthorized", origin, 401, req);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const configId = typeof body?.config_id === "string" ? body.config_id : null;
+
+    // A manual run of one config ignores the enabled flag
+    let query = adminClient
+      .from("market_generator_configs")
+      .select("id, name, league_ids, horizon_hours, resolution_rules, price_source");
+    query = configId ? query.eq("id", configId) : query.eq("enabled", true);
+
+    const { data: configs, error: configError } = await query;
+    if (configError) {
+      console.error(`${logPrefix} Config load error:`, configError);
+      return errorResponse(configError.message || "Failed to load generator configs", origin, 500, req);
+    }
+
+    const results: Record<string, RunSummary> = {};
+
+    for (const config of (configs ?? []) as GeneratorConfig[]) {
+      const summary = await runConfig(adminClient, config, logPrefix);
+      results[config.id] = summary;
+
+      const { error: updateError } = await adminClient
+        .from("market_generator_configs")
+        .update({ last_run_at: new Date().toISOString(), last_run_summary: summary })
+        .eq("id", config.id);
+      if (updateError) {
+        console.error(`${logPrefix} Failed to store run summary for ${config.id}:`, updateError);
+      }
+
+      console.log(
+        `${logPrefix} ${config.name}: fixtures=${summary.fixtures} created=${summary.created} ` +
+          `duplicates=${summary.duplicates} unpriced=${summary.unpriced} closed=${summary.closed} failed=${summary.failed}`
+      );
+    }
+
+    const total = (key: "created" | "duplicates" | "failed") =>
+      Object.values(results).reduce((sum, r) => sum + r[key], 0);
+
+    return jsonResponse({
+      ok: true,
+      configs: Object.keys(results).length,
+      created: total("created"),
+      duplicates: total("duplicates"),
+      failed: total("failed"),
+      results,
+    }, origin, 200, req);
+
+  } catch (err) {
+    console.error(`${logPrefix} Unhandled error:`, err);
+    return errorResponse("Internal server error", origin, 500, req);
+  }
+});
+
+async function runConfig(
+  adminClient: SupabaseClient,
+  config: GeneratorConfig,
+  logPrefix: string
+): Promise<RunSummary> {
+  const summary: RunSummary = { fixtures: 0, created: 0, duplicates: 0, unpriced: 0, closed: 0, failed: 0, errors: [] };
+  const rules = config.resolution_rules.filter(isGeneratorRule);
+
+  if (rules.length === 0 || config.league_ids.length === 0) {
+    return summary;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { data: fixtureData, error: fixtureError } = await adminClient
+    .from("fixtures")
+    .select("id, league_id, teams_home, teams_away")
+    .in("league_id", config.league_ids)
+    .in("status", NOT_STARTED)
+    .gt("timestamp", now)
+    .lte("timestamp", now + config.horizon_hours * 3600);
+
+  if (fixtureError) {
+    summary.errors.push(`fixtures: ${fixtureError.message}`);
+    return summary;
+  }
+
+  const fixtures = (fixtureData ?? []) as FixtureRow[];
+  summary.fixtures = fixtures.length;
+  if (fixtures.length === 0) return summary;
+
+  const fixtureIds = fixtures.map((f) => f.id);
+
+  // Skip known duplicates before pricing; the RPC re-checks under a lock
+  const existing = new Set<string>();
+  const bestPrices = new Map<number, BestPrice[]>();
+  for (let i = 0; i < fixtureIds.length; i += IN_CHUNK) {
+    const ids = fixtureIds.slice(i, i + IN_CHUNK);
+    const { data: markets, error: marketsError } = await adminClient
+      .from("prediction_markets")
+      .select("fixture_id, resolution_rule")
+      .in("fixture_id", ids);
+    if (marketsError) {
+      summary.errors.push(`markets: ${marketsError.message}`);
+      return summary;
+    }
+    for (const m of markets ?? []) {
+      existing.add(`${m.fixture_id}:${String(m.resolution_rule ?? "").toLowerCase()}`);
+    }
+
+    if (config.price_source === "best_prices") {
+      const { data: prices, error: pricesError } = await adminClient
+        .from("best_outcome_prices")
+        .select("fixture_id, outcome, odds")
+        .eq("market_type", "1x2")
+        .in("fixture_id", ids);
+      if (pricesError) {
+        // The model still prices every rule
+        summary.errors.push(`best_outcome_prices: ${pricesError.message}`);
+      }
+      for (const p of prices ?? []) {
+        const list = bestPrices.get(p.fixture_id) ?? [];
+        list.push({ outcome: p.outcome, odds: Number(p.odds) });
+        bestPrices.set(p.fixture_id, list);
+      }
+    }
+  }
+
+  const homeId = (f: FixtureRow) => Number(f.teams_home?.id) || 0;
+  const awayId = (f: FixtureRow) => Number(f.teams_away?.id) || 0;
+  const inputs = await loadMatchModelInputs(
+    adminClient,
+    fixtures.flatMap((f) => [homeId(f), awayId(f)]),
+    fixtures.map((f) => f.league_id).filter((id): id is number => id != null)
+  );
+
+  for (const fixture of fixtures) {
+    const pending = rules.filter((rule) => !existing.has(`${fixture.id}:${rule}`));
+    summary.duplicates += rules.length - pending.length;
+    if (pending.length === 0) continue;
+
+    const model = modelForFixture(
+      inputs,
+      { home_team_id: homeId(fixture), away_team_id: awayId(fixture), league_id: fixture.league_id },
+      ["goals", "corners"]
+    );
+    const { priced, unpriced } = seedFixturePrices(pending, config.price_source, model, bestPrices.get(fixture.id));
+    summary.unpriced += unpriced.length;
+
+    for (const seed of priced) {
+      const { data: result, error: rpcError } = await adminClient.rpc("generate_fixture_market", {
+        _config_id: config.id,
+        _fixture_id: fixture.id,
+        _resolution_rule: seed.rule,
+        _odds_yes: seed.odds_yes,
+        _odds_no: seed.odds_no,
+        _price_source: seed.source,
+        _probability: Math.round(seed.probability * 10000) / 10000,
+      });
+
+      if (rpcError || !result?.ok) {
+        summary.failed++;
+        const message = rpcError?.message ?? result?.error ?? "unknown error";
+        console.error(`${logPrefix} Fixture ${fixture.id} ${seed.rule} failed:`, message);
+        if (summary.errors.length < 10) summary.errors.push(`${fixture.id} ${seed.rule}: ${message}`);
+      } else if (result.skipped) {
+        if (result.reason === "closed") summary.closed++;
+        else summary.duplicates++;
+      } else {
+        summary.created++;
+      }
+    }
+  }
+
+  return summary;
+}
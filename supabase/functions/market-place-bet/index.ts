@@ -5,7 +5,10 @@
 //   - Market validation (open, not closed)
 //   - Balance check + 2% fee calculation
 //   - Position insertion with duplicate handling
-//   - Market totals update (display only, fixed odds)
+//   - Pricing under the market row lock (fixed odds, LMSR or parimutuel)
+//   - Market totals/price update + market_price_history row
+//   - Multi-outcome markets: outcome key validated against market_outcomes,
+//     whose odds/pools are updated instead (no price history)
 // ============================================================================
 
 import { createClient } from "npm:@supabase/supabase-js@2";
@@ -75,7 +78,7 @@ Deno.serve(async (req) => {
       return errorResponse(result.error, origin, 400, req);
     }
 
-    console.log(`${logPrefix} Success! Position ${result.position_id} created. Stake: ${result.stake}, Fee: ${result.fee}, Odds: ${result.odds}`);
+    console.log(`${logPrefix} Success! Position ${result.position_id} created. Stake: ${result.stake}, Fee: ${result.fee}, Odds: ${result.odds} (${result.pricing_mode})`);
 
     return jsonResponse({
       ok: true,
@@ -88,6 +91,9 @@ Deno.serve(async (req) => {
         odds: result.odds,
         potential_payout: result.potential_payout,
       },
+      pricing_mode: result.pricing_mode,
+      price_yes: result.price_yes,
+      outcome_price: result.outcome_price,
       new_balance: result.new_balance,
     }, origin, 200, req);
 
@@ -2,8 +2,14 @@
 // market-resolve: Admin-only endpoint to resolve prediction markets
 // ============================================================================
 // - Validates admin role
-// - Calls atomic resolve_market RPC (service_role only)
-// - Supports: yes, no, or null (void/refund)
+// - Resolution RPCs are service_role only; body.action picks one:
+//   propose   (default) propose_market_resolution: opens the challenge
+//             window (challenge_minutes, 0 = settle on the next cron sweep)
+//   finalize  finalize_market_resolution with force: settles a proposal now,
+//             dismissing its disputes
+//   reject    reject_market_resolution: upholds the disputes
+//   reverse   reverse_market_resolution: re-settles a resolved market
+// - Outcomes: yes, no, an outcome key, or null (void/refund)
 // ============================================================================
 
 import { createClient } from "npm:@supabase/supabase-js@2";
@@ -58,29 +64,78 @@ Deno.serve(async (req) => {
     console.log(`${logPrefix} Admin authorized: ${user.email} (bootstrap=${isBootstrapAdmin})`)
 
     const body = await req.json();
-    const { market_id, winning_outcome } = body;
+    const { market_id, proposal_id, winning_outcome, challenge_minutes, note } = body;
+    const action = body.action ?? "propose";
 
-    if (!market_id) {
+    if (!["propose", "finalize", "reject", "reverse"].includes(action)) {
+      return errorResponse("action must be propose, finalize, reject or reverse", origin, 400, req);
+    }
+
+    if ((action === "propose" || action === "reverse") && !market_id) {
       return errorResponse("Missing required field: market_id", origin, 400, req);
     }
 
-    // winning_outcome can be 'yes', 'no', or null (void)
-    if (winning_outcome !== null && winning_outcome !== undefined && 
-        !["yes", "no"].includes(winning_outcome)) {
-      return errorResponse("winning_outcome must be 'yes', 'no', or null (void)", origin, 400, req);
+    if ((action === "finalize" || action === "reject") && !proposal_id) {
+      return errorResponse("Missing required field: proposal_id", origin, 400, req);
+    }
+
+    // winning_outcome is 'yes'/'no', an outcome key for multi-outcome markets,
+    // or null (void); the RPCs check it against the market
+    if (winning_outcome !== null && winning_outcome !== undefined &&
+        (typeof winning_outcome !== "string" || winning_outcome.length === 0)) {
+      return errorResponse("winning_outcome must be an outcome key or null (void)", origin, 400, req);
     }
 
-    console.log(`${logPrefix} Admin ${user.id} resolving market ${market_id} with outcome: ${winning_outcome ?? 'VOID'}`);
+    if (challenge_minutes !== undefined &&
+        (!Number.isInteger(challenge_minutes) || challenge_minutes < 0 || challenge_minutes > 10080)) {
+      return errorResponse("challenge_minutes must be an integer between 0 and 10080", origin, 400, req);
+    }
+
+    if (action === "reverse" && (typeof note !== "string" || note.trim().length < 5)) {
+      return errorResponse("A reason (note) is required to reverse a resolution", origin, 400, req);
+    }
+
+    console.log(`${logPrefix} Admin ${user.id} ${action} on ${market_id ?? proposal_id} with outcome: ${winning_outcome ?? 'VOID'}`);
 
     // Use service role client to call RPC (only service_role has execute permission)
     const adminClient = createClient(supabaseUrl, serviceRoleKey);
 
-    const { data: result, error: rpcError } = await adminClient.rpc("resolve_market", {
-      _market_id: market_id,
-      _winning_outcome: winning_outcome ?? null,
-      _admin_user_id: user.id,
-      _is_system: false,
-    });
+    let rpc;
+    switch (action) {
+      case "finalize":
+        rpc = adminClient.rpc("finalize_market_resolution", {
+          _proposal_id: proposal_id,
+          _admin_user_id: user.id,
+          _force: true,
+        });
+        break;
+      case "reject":
+        rpc = adminClient.rpc("reject_market_resolution", {
+          _proposal_id: proposal_id,
+          _admin_user_id: user.id,
+          _note: typeof note === "string" ? note : null,
+        });
+        break;
+      case "reverse":
+        rpc = adminClient.rpc("reverse_market_resolution", {
+          _market_id: market_id,
+          _winning_outcome: winning_outcome ?? null,
+          _admin_user_id: user.id,
+          _reason: note,
+        });
+        break;
+      default:
+        rpc = adminClient.rpc("propose_market_resolution", {
+          _market_id: market_id,
+          _winning_outcome: winning_outcome ?? null,
+          _evidence: typeof note === "string" && note.trim() ? { admin_note: note.trim() } : null,
+          _admin_user_id: user.id,
+          _is_system: false,
+          ...(challenge_minutes !== undefined ? { _challenge_minutes: challenge_minutes } : {}),
+        });
+    }
+
+    const { data: result, error: rpcError } = await rpc;
 
     if (rpcError) {
       console.error(`${logPrefix} RPC error:`, rpcError);
@@ -92,7 +147,7 @@ Deno.serve(async (req) => {
       return errorResponse(result.error, origin, 400, req);
     }
 
-    console.log(`${logPrefix} Market ${market_id} resolved successfully:`, result);
+    console.log(`${logPrefix} ${action} succeeded for ${market_id ?? proposal_id}:`, result);
 
     return jsonResponse(result, origin, 200, req);
 
@@ -0,0 +1,64 @@
+// ============================================================================
+// market-season-rollover: Cron job to close the market coin season
+// ============================================================================
+// - Calls atomic rollover_market_season RPC (no-op while the season runs)
+// - Snapshots balances, applies promotion/relegation, opens the next season
+//   and resets every balance to 1000
+// - Admins can pass { "force": true } to end the active season early
+// ============================================================================
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import { handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+
+Deno.serve(async (req) => {
+  const origin = req.headers.get("origin");
+
+  if (req.method === "OPTIONS") {
+    return handlePreflight(origin, req);
+  }
+
+  const logPrefix = "[market-season-rollover]";
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const adminClient = createClient(supabaseUrl, serviceRoleKey);
+
+  // Auth check
+  const auth = await checkCronOrAdminAuth(req, adminClient, serviceRoleKey, logPrefix);
+  if (!auth.authorized) {
+    return errorResponse("Unauthorized", origin, 401, req);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const force = body?.force === true;
+
+    const { data: result, error: rpcError } = await adminClient.rpc("rollover_market_season", { _force: force });
+
+    if (rpcError) {
+      console.error(`${logPrefix} RPC error:`, rpcError);
+      return errorResponse(rpcError.message || "Failed to roll over season", origin, 500, req);
+    }
+
+    if (!result?.ok) {
+      console.error(`${logPrefix} Rollover failed:`, result?.error);
+      return errorResponse(result?.error || "Failed to roll over season", origin, 400, req);
+    }
+
+    if (result.skipped) {
+      console.log(`${logPrefix} Season ${result.season} runs until ${result.ends_at}; nothing to do`);
+    } else {
+      console.log(
+        `${logPrefix} Archived ${result.archived_season} (${result.archived_players} players, ` +
+          `${result.promoted} promoted, ${result.relegated} relegated); ${result.next_season} started`
+      );
+    }
+
+    return jsonResponse(result, origin, 200, req);
+
+  } catch (err) {
+    console.error(`${logPrefix} Unhandled error:`, err);
+    return errorResponse("Internal server error", origin, 500, req);
+  }
+});
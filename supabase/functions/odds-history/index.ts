@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { checkUserRateLimit, buildRateLimitResponse } from "../_shared/rate_limit.ts";
+import { lineMovement, selectionKey, type OddsHistoryPoint } from "../_shared/odds_movement.ts";
+
+/**
+ * Odds time series for one fixture (totals markets, per bookmaker), with the
+ * consensus move since open per selection and any detected steam moves.
+ * Feeds the odds chart on the fixture analysis card.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const RequestSchema = z.object({
+  fixtureId: z.number().int().positive(),
+  market: z.enum(["goals", "corners", "cards"]).optional(),
+});
+
+const MAX_POINTS = 5000;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: claimsError } = await userClient.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: "Invalid authentication token" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const userId = claimsData.claims.sub;
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey);
+
+    const rateLimitResult = await checkUserRateLimit({
+      supabase: supabaseClient,
+      userId,
+      feature: "odds_history",
+      maxPerMinute: 30,
+    });
+
+    if (!rateLimitResult.allowed) {
+      return buildRateLimitResponse("odds_history", rateLimitResult.retryAfterSeconds || 60, corsHeaders);
+    }
+
+    const bodyRaw = await req.json().catch(() => null);
+    const validation = RequestSchema.safeParse(bodyRaw);
+    if (!validation.success) {
+      console.error("[odds-history] Validation error:", validation.error.format());
+      return new Response(
+        JSON.stringify({ error: "Invalid request parameters" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 422 }
+      );
+    }
+
+    const { fixtureId, market } = validation.data;
+
+    let historyQuery = supabaseClient
+      .from("odds_history")
+      .select("market, side, line, bookmaker, odds, captured_at")
+      .eq("fixture_id", fixtureId)
+      .order("captured_at", { ascending: false })
+      .limit(MAX_POINTS);
+    let steamQuery = supabaseClient
+      .from("odds_steam_moves")
+      .select("market, side, line, books, from_odds, to_odds, move_pct, started_at, detected_at")
+      .eq("fixture_id", fixtureId)
+      .order("detected_at", { ascending: false });
+    if (market) {
+      historyQuery = historyQuery.eq("market", market);
+      steamQuery = steamQuery.eq("market", market);
+    }
+
+    const [historyRes, steamRes] = await Promise.all([historyQuery, steamQuery]);
+    if (historyRes.error) throw historyRes.error;
+    if (steamRes.error) throw steamRes.error;
+
+    // Newest MAX_POINTS, returned oldest first for charting
+    const points: OddsHistoryPoint[] = (historyRes.data ?? []).map((p) => ({
+      ...p,
+      line: Number(p.line),
+      odds: Number(p.odds),
+      captured_at: new Date(p.captured_at).toISOString(),
+    })).reverse();
+
+    const picks = new Map<string, { market: string; side: string; line: number }>();
+    for (const p of points) picks.set(selectionKey(p), { market: p.market, side: p.side, line: p.line });
+
+    const movements = [...picks.values()]
+      .map((pick) => ({ ...pick, ...lineMovement(points, pick) }))
+      .filter((m) => m.open_odds != null);
+
+    return new Response(
+      JSON.stringify({
+        fixture_id: fixtureId,
+        points,
+        movements,
+        steam: (steamRes.data ?? []).map((s) => ({
+          ...s,
+          line: Number(s.line),
+          from_odds: Number(s.from_odds),
+          to_odds: Number(s.to_odds),
+          move_pct: Number(s.move_pct),
+        })),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[odds-history] Internal error:", {
+      message: error instanceof Error ? error.message : "Unknown",
+      timestamp: new Date().toISOString(),
+    });
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
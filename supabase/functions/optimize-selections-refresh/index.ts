@@ -1,7 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { pickFromCombined, RULES, RULES_VERSION, StatMarket } from "../_shared/rules.ts";
+import { pickFromCombined, StatMarket } from "../_shared/rules.ts";
+import { loadRulesRegistry } from "../_shared/rules_registry.ts";
 import { normalizeOddsValue, matchesTarget } from "../_shared/odds_normalization.ts";
+import { marketProbability, type MatchModel } from "../_shared/stat_model.ts";
+import { loadMatchModelInputs, modelForFixture } from "../_shared/match_model.ts";
 import { checkSuspiciousOdds } from "../_shared/suspicious_odds_guards.ts";
 import { computeCombinedMetrics } from "../_shared/stats.ts";
 import { ODDS_MIN, ODDS_MAX, KEEP_TOP_BOOKMAKERS, UPCOMING_WINDOW_HOURS } from "../_shared/config.ts";
@@ -236,6 +239,19 @@ serve(async (req) => {
     const bufferMinutes = 5;
     const minKickoffTime = new Date(Date.now() + bufferMinutes * 60 * 1000);
 
+    // Resolve the rules matrix once so every row from this run carries the same version
+    const rulesVersion = await loadRulesRegistry(supabaseClient, { force: true });
+    console.log(`[optimize-selections-refresh] Using rules matrix ${rulesVersion}`);
+
+    const modelInputs = await loadMatchModelInputs(supabaseClient, uniqueTeamIds2 as number[], leagueIds as number[]);
+
+    // P(pick) from the count model; the old ratio heuristic only covers fixtures the model can't
+    const pickProbability = (model: MatchModel, market: StatMarket, side: "over" | "under", line: number, combinedValue: number) => {
+      const m = model[market];
+      if (m) return Math.min(0.99, Math.max(0.01, marketProbability(m, side, line)));
+      return Math.min(0.95, Math.max(0.05, combinedValue / (line * 2)));
+    };
+
     for (const fixture of fixtures) {
       scanned++;
       
@@ -276,6 +292,12 @@ serve(async (req) => {
         continue;
       }
 
+      const matchModel = modelForFixture(modelInputs, {
+        home_team_id: homeTeamId,
+        away_team_id: awayTeamId,
+        league_id: fixture.league_id,
+      });
+
       // Fetch key player injuries with importance scores
       const fixtureDate = new Date(fixture.timestamp * 1000);
       const month = fixtureDate.getUTCMonth();
@@ -319,7 +341,7 @@ serve(async (req) => {
           continue;
         }
         
-        const pick = pickFromCombined(market, combinedValue);
+        const pick = pickFromCombined(market, combinedValue, fixture.league_id);
 
         if (!pick) continue;
 
@@ -405,7 +427,7 @@ serve(async (req) => {
           const countryId = leagueToCountryMap.get(fixture.league_id);
           const countryCode = countryId ? countryCodeMap.get(countryId) : null;
           
-          const modelProb = Math.min(0.95, Math.max(0.05, combinedValue / (pick.line * 2)));
+          const modelProb = pickProbability(matchModel, market, pick.side, pick.line, combinedValue);
           
           console.log(
             `[optimize] MODEL_ONLY fixture=${fixture.id} market=${market} side=${pick.side} line=${pick.line ?? 'null'} prob=${(modelProb ?? NaN).toFixed?.(2) ?? modelProb}`
@@ -426,7 +448,7 @@ serve(async (req) => {
             model_prob: modelProb,
             sample_size: sampleSize,
             combined_snapshot: combined,
-            rules_version: RULES_VERSION,
+            rules_version: rulesVersion,
             source: "api-football",
             computed_at: new Date().toISOString(),
           });
@@ -462,7 +484,7 @@ serve(async (req) => {
 
           // Calculate edge
           const impliedProb = 1 / odds;
-          const modelProb = Math.min(0.95, Math.max(0.05, combinedValue / (pick.line * 2)));
+          const modelProb = pickProbability(matchModel, market, pick.side, pick.line, combinedValue);
           const edgePct = ((modelProb - impliedProb) / impliedProb) * 100;
 
           selections.push({
@@ -480,7 +502,7 @@ serve(async (req) => {
             model_prob: modelProb,
             sample_size: sampleSize,
             combined_snapshot: combined,
-            rules_version: RULES_VERSION,
+            rules_version: rulesVersion,
             source: "api-football",
             computed_at: new Date().toISOString(),
           });
@@ -601,7 +623,7 @@ serve(async (req) => {
         skipped,
         failed: 0,
         window: { start: now.toISOString(), end: endDate.toISOString() },
-        rules_version: RULES_VERSION,
+        rules_version: rulesVersion,
         duration_ms,
         status_filter: {
           kept_nstd: fixtures.length,
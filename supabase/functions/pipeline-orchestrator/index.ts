@@ -0,0 +1,352 @@
+/**
+ * PIPELINE ORCHESTRATOR
+ *
+ * Runs the pipeline DAGs in _shared/job_dag.ts: each node invokes an existing
+ * edge function once its dependencies have succeeded, retries failures with
+ * backoff and dead-letters nodes that run out of attempts (pipeline_run_logs,
+ * mode 'dead_letter'). Run state lives in pipeline_runs.
+ *
+ * POST { action: "start", pipeline: "prematch" }  start a run, then tick
+ * POST { action: "tick" } (default)              advance every running run
+ *
+ * A tick starts every ready node in parallel, waits for them, and repeats
+ * until nothing is ready or its time budget is spent; nodes waiting out a
+ * backoff are picked up by a later tick. pg_cron sends "start" per pipeline
+ * and "tick" every minute (see the pipeline_runs migration). A "start" for a
+ * pipeline that is already running answers 409 but still ticks it. The
+ * standalone warmup-odds → optimizer chain is unscheduled; other standalone
+ * cron entries are left in place for now: a node that finds its job's lock
+ * held answers "skipped" and is retried.
+ *
+ * Auth: service role, X-CRON-KEY or admin user.
+ */
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import {
+  PIPELINES,
+  initialState,
+  jobOutcome,
+  planTick,
+  recordAttempt,
+  runGraph,
+  runStatus,
+  validatePipeline,
+  type AttemptOutcome,
+  type JobNode,
+  type NodeAttempt,
+  type NodeState,
+  type PipelineDef,
+} from "../_shared/job_dag.ts";
+
+const JOB_NAME = "pipeline-orchestrator";
+/** No new wave of nodes is started after this, so a tick ends well inside the wall-clock limit */
+const TICK_BUDGET_MS = 60_000;
+
+interface PipelineRun {
+  id: string;
+  pipeline: string;
+  status: string;
+  trigger: string;
+  started_at: string;
+  nodes: Record<string, NodeState>;
+}
+
+interface InvokeContext {
+  supabaseUrl: string;
+  serviceRoleKey: string;
+  cronKey: string;
+}
+
+async function invokeNode(ctx: InvokeContext, node: JobNode): Promise<{ attempt: NodeAttempt; retryable: boolean }> {
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), node.timeoutMs);
+  let httpStatus: number | null = null;
+  let outcome: AttemptOutcome;
+
+  try {
+    // Older cron functions only accept X-CRON-KEY, the rest the service role
+    const res = await fetch(`${ctx.supabaseUrl}/functions/v1/${node.fn}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${ctx.serviceRoleKey}`,
+        "X-CRON-KEY": ctx.cronKey,
+      },
+      body: JSON.stringify(node.body ?? {}),
+      signal: controller.signal,
+    });
+    httpStatus = res.status;
+    outcome = jobOutcome(res.status, await res.json().catch(() => null));
+  } catch (err) {
+    const message = controller.signal.aborted
+      ? `timed out after ${node.timeoutMs}ms`
+      : err instanceof Error ? err.message : String(err);
+    outcome = { ok: false, retryable: true, error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const finished = Date.now();
+  console.log(`[${JOB_NAME}] ${node.id} (${node.fn}): ${outcome.ok ? "ok" : `failed — ${outcome.error}`} in ${finished - started}ms`);
+  return {
+    attempt: {
+      started_at: new Date(started).toISOString(),
+      finished_at: new Date(finished).toISOString(),
+      duration_ms: finished - started,
+      http_status: httpStatus,
+      ok: outcome.ok,
+      error: outcome.error,
+    },
+    retryable: outcome.retryable,
+  };
+}
+
+async function saveRun(supabase: SupabaseClient, run: PipelineRun): Promise<void> {
+  run.status = runStatus(run.nodes);
+  const { error } = await supabase
+    .from("pipeline_runs")
+    .update({
+      status: run.status,
+      nodes: run.nodes,
+      finished_at: run.status === "running" ? null : new Date().toISOString(),
+    })
+    .eq("id", run.id);
+  if (error) console.error(`[${JOB_NAME}] Failed to save run ${run.id}:`, error.message);
+}
+
+async function deadLetter(supabase: SupabaseClient, run: PipelineRun, node: JobNode): Promise<void> {
+  const state = run.nodes[node.id];
+  const last = state.attempts[state.attempts.length - 1];
+  console.error(`[${JOB_NAME}] ${run.pipeline}/${node.id} dead-lettered after ${state.attempts.length} attempt(s)`);
+
+  const { error } = await supabase.from("pipeline_run_logs").insert({
+    job_name: node.fn,
+    run_started: state.attempts[0]?.started_at ?? new Date().toISOString(),
+    run_finished: last?.finished_at ?? new Date().toISOString(),
+    success: false,
+    mode: "dead_letter",
+    processed: 0,
+    failed: 1,
+    leagues_covered: [],
+    details: {
+      pipeline: run.pipeline,
+      pipeline_run_id: run.id,
+      node: node.id,
+      body: node.body ?? {},
+      attempts: state.attempts,
+    },
+    error_message: last?.error ?? "failed",
+  });
+  if (error) {
+    console.error(`[${JOB_NAME}] Failed to record dead letter for ${node.id}:`, error.message);
+    return;
+  }
+  state.dead_lettered = true;
+}
+
+async function logFinishedRun(supabase: SupabaseClient, run: PipelineRun): Promise<void> {
+  const states = Object.entries(run.nodes);
+  const failed = states.filter(([, s]) => s.status === "failed").map(([id]) => id);
+  const skipped = states.filter(([, s]) => s.status === "skipped").map(([id]) => id);
+
+  const { error } = await supabase.from("pipeline_run_logs").insert({
+    job_name: JOB_NAME,
+    run_started: run.started_at,
+    run_finished: new Date().toISOString(),
+    success: run.status === "succeeded",
+    mode: run.pipeline,
+    processed: states.filter(([, s]) => s.status === "succeeded").length,
+    failed: failed.length,
+    leagues_covered: [],
+    details: {
+      pipeline_run_id: run.id,
+      trigger: run.trigger,
+      nodes: Object.fromEntries(states.map(([id, s]) => [id, { status: s.status, attempts: s.attempts.length }])),
+    },
+    error_message: failed.length || skipped.length
+      ? `failed: ${failed.join(", ") || "none"}; skipped: ${skipped.join(", ") || "none"}`
+      : null,
+  });
+  if (error) console.error(`[${JOB_NAME}] Failed to log run ${run.id}:`, error.message);
+}
+
+/** Advance one run until nothing is ready or the tick's budget is spent */
+async function tickRun(
+  supabase: SupabaseClient,
+  ctx: InvokeContext,
+  def: PipelineDef,
+  run: PipelineRun,
+  deadline: number
+): Promise<void> {
+  const byId = new Map(def.nodes.map((n) => [n.id, n]));
+
+  for (;;) {
+    const now = new Date();
+    const plan = planTick(def, run.nodes, now);
+
+    for (const id of plan.stale) {
+      const node = byId.get(id)!;
+      const startedAt = run.nodes[id].started_at ?? now.toISOString();
+      const lost: NodeAttempt = {
+        started_at: startedAt,
+        finished_at: now.toISOString(),
+        duration_ms: now.getTime() - Date.parse(startedAt),
+        http_status: null,
+        ok: false,
+        error: "no answer recorded (orchestrator tick ended while the job was running)",
+      };
+      if (recordAttempt(node, run.nodes[id], lost, true)) await deadLetter(supabase, run, node);
+    }
+    for (const id of plan.skip) {
+      run.nodes[id].status = "skipped";
+      run.nodes[id].finished_at = now.toISOString();
+    }
+    if (plan.stale.length > 0 || plan.skip.length > 0) {
+      // Skips can cascade and recovered nodes may be ready again
+      await saveRun(supabase, run);
+      continue;
+    }
+
+    if (plan.start.length === 0 || Date.now() > deadline) break;
+
+    for (const id of plan.start) {
+      run.nodes[id].status = "running";
+      run.nodes[id].started_at = now.toISOString();
+    }
+    await saveRun(supabase, run);
+
+    const results = await Promise.all(plan.start.map((id) => invokeNode(ctx, byId.get(id)!)));
+    for (const [i, id] of plan.start.entries()) {
+      const node = byId.get(id)!;
+      if (recordAttempt(node, run.nodes[id], results[i].attempt, results[i].retryable)) {
+        await deadLetter(supabase, run, node);
+      }
+    }
+    await saveRun(supabase, run);
+  }
+
+  await saveRun(supabase, run);
+  if (run.status !== "running") {
+    console.log(`[${JOB_NAME}] Run ${run.id} (${run.pipeline}) ${run.status}`);
+    await logFinishedRun(supabase, run);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  const origin = req.headers.get("origin");
+
+  if (req.method === "OPTIONS") {
+    return handlePreflight(origin, req);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    return errorResponse("Missing environment variables", origin, 500, req);
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const auth = await checkCronOrAdminAuth(req, supabase, serviceRoleKey, `[${JOB_NAME}]`);
+  if (!auth.authorized) {
+    return errorResponse("Unauthorized", origin, 401, req);
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "tick";
+  let startedRunId: string | null = null;
+  let startSkipped: string | null = null;
+
+  if (action === "start") {
+    const def = PIPELINES[body.pipeline];
+    if (!def) {
+      return errorResponse(`Unknown pipeline: ${body.pipeline}`, origin, 400, req);
+    }
+    const problems = validatePipeline(def);
+    if (problems.length > 0) {
+      return errorResponse(`Invalid pipeline ${def.name}: ${problems.join("; ")}`, origin, 500, req);
+    }
+
+    const { data: created, error: createError } = await supabase
+      .from("pipeline_runs")
+      .insert({
+        pipeline: def.name,
+        trigger: auth.method === "admin_user" ? "admin" : "cron",
+        graph: runGraph(def),
+        nodes: initialState(def),
+      })
+      .select("id")
+      .single();
+
+    if (createError) {
+      if (createError.code !== "23505") {
+        return errorResponse(`Failed to start ${def.name}: ${createError.message}`, origin, 500, req);
+      }
+      // idx_pipeline_runs_one_running: a run of this pipeline is still in progress.
+      // It is ticked below like any other, so its retries and backoffs still run
+      startSkipped = `${def.name} is already running`;
+      console.log(`[${JOB_NAME}] ${startSkipped}, ticking it instead`);
+    } else {
+      startedRunId = created.id;
+      console.log(`[${JOB_NAME}] Started ${def.name} run ${startedRunId} (${auth.method})`);
+    }
+  } else if (action !== "tick") {
+    return errorResponse(`Unknown action: ${action}`, origin, 400, req);
+  }
+
+  const { data: gotLock, error: lockError } = await supabase.rpc("acquire_cron_lock", {
+    p_job_name: JOB_NAME,
+    p_duration_minutes: 10,
+  });
+  if (lockError) {
+    return errorResponse(`Failed to acquire lock: ${lockError.message}`, origin, 500, req);
+  }
+  if (!gotLock) {
+    // A started run is picked up by the tick holding the lock, or the next one
+    console.log(`[${JOB_NAME}] Tick already in progress`);
+    if (startSkipped) {
+      return jsonResponse({ success: false, status: "skipped", reason: startSkipped }, origin, 409, req);
+    }
+    return jsonResponse({ success: true, status: "skipped", reason: "Tick already in progress", started: startedRunId }, origin, 200, req);
+  }
+
+  try {
+    const { data: cronKey } = await supabase.rpc("get_cron_internal_key");
+    const ctx: InvokeContext = { supabaseUrl, serviceRoleKey, cronKey: String(cronKey ?? "").trim() };
+    const deadline = Date.now() + TICK_BUDGET_MS;
+
+    const { data: runs, error: runsError } = await supabase
+      .from("pipeline_runs")
+      .select("id, pipeline, status, trigger, started_at, nodes")
+      .eq("status", "running")
+      .order("started_at", { ascending: true });
+    if (runsError) throw runsError;
+
+    // Pipelines are independent, so their runs advance side by side
+    const active = ((runs ?? []) as PipelineRun[]).filter((run) => {
+      if (PIPELINES[run.pipeline]) return true;
+      console.warn(`[${JOB_NAME}] Run ${run.id} has unknown pipeline ${run.pipeline}, leaving it`);
+      return false;
+    });
+    await Promise.all(active.map((run) => tickRun(supabase, ctx, PIPELINES[run.pipeline], run, deadline)));
+
+    const runSummaries = active.map((run) => ({
+      id: run.id,
+      pipeline: run.pipeline,
+      status: run.status,
+      nodes: Object.fromEntries(Object.entries(run.nodes).map(([id, s]) => [id, s.status])),
+    }));
+    if (startSkipped) {
+      return jsonResponse({ success: false, status: "skipped", reason: startSkipped, runs: runSummaries }, origin, 409, req);
+    }
+    return jsonResponse({ success: true, started: startedRunId, runs: runSummaries }, origin, 200, req);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${JOB_NAME}] Tick failed:`, message);
+    return errorResponse(`Tick failed: ${message}`, origin, 500, req);
+  } finally {
+    await supabase.rpc("release_cron_lock", { p_job_name: JOB_NAME });
+  }
+});
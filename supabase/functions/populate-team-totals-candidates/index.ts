@@ -8,7 +8,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 import { checkCronOrAdminAuth } from "../_shared/auth.ts";
 
 // Validation schema for admin request parameters
@@ -48,12 +48,9 @@ async function fetchSeasonStats(
   leagueId: number,
   season: number
 ): Promise<SeasonStats | null> {
-  const url = `${API_BASE}/teams/statistics?team=${teamId}&league=${leagueId}&season=${season}`;
-  const headers = apiHeaders();
-
   try {
-    const response = await fetch(url, { headers });
-    const json = await response.json();
+    const response = await getDataProvider().get("football", `/teams/statistics?team=${teamId}&league=${leagueId}&season=${season}`);
+    const json: any = response.body ?? {};
 
     if (!response.ok || json.errors?.length > 0) {
       console.warn(`[team-totals] Stats API error for team ${teamId}:`, json.errors);
@@ -84,12 +81,9 @@ async function fetchLast5LeagueFixtures(
   leagueId: number,
   season: number
 ): Promise<Last5Result> {
-  const url = `${API_BASE}/fixtures?team=${teamId}&league=${leagueId}&season=${season}&last=5&status=FT`;
-  const headers = apiHeaders();
-
   try {
-    const response = await fetch(url, { headers });
-    const json = await response.json();
+    const response = await getDataProvider().get("football", `/fixtures?team=${teamId}&league=${leagueId}&season=${season}&last=5&status=FT`);
+    const json: any = response.body ?? {};
 
     if (!response.ok || json.errors?.length > 0) {
       console.warn(`[team-totals] Last 5 API error for team ${teamId}:`, json.errors);
@@ -138,6 +132,7 @@ serve(async (req) => {
     if (!authResult.authorized) {
       return errorResponse("Unauthorized", origin, 401, req);
     }
+    meterApiQuota(supabase, "populate-team-totals-candidates");
 
     // Parse and validate request body (default 48h per UPCOMING_WINDOW_HOURS)
     let windowHours = 48;
@@ -7,7 +7,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 import { checkCronOrAdminAuth } from "../_shared/auth.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
@@ -38,6 +38,7 @@ serve(async (req) => {
     if (!authResult.authorized) {
       return errorResponse("Unauthorized", origin, 401, req);
     }
+    meterApiQuota(supabase, "populate-winner-outcomes");
 
     let body: RequestBody = {};
     try {
@@ -91,16 +92,23 @@ serve(async (req) => {
     let skipped = 0;
     let failed = 0;
 
-    const headers = apiHeaders();
+    const provider = getDataProvider();
 
     for (const fixture of fixtures) {
       scanned++;
 
       // Fetch 1X2 odds (Bet ID 1)
-      const url = `${API_BASE}/odds?fixture=${fixture.id}&bet=1`;
       try {
-        const response = await fetch(url, { headers });
-        const json = await response.json();
+        const response = await provider.get("football", `/odds?fixture=${fixture.id}&bet=1`);
+
+        // Quota ledger refused: the rest of the batch would be refused too
+        if (response.deferred) {
+          console.warn(`[populate-winner-outcomes] Quota deferred (${response.deferred}) at fixture ${fixture.id}, stopping batch`);
+          failed++;
+          break;
+        }
+
+        const json: any = response.body ?? {};
 
         if (!response.ok || json.errors?.length > 0) {
           console.warn(`[populate-winner-outcomes] API error for fixture ${fixture.id}:`, json.errors);
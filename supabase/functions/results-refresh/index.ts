@@ -5,6 +5,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { fetchAPIFootball, fetchFixtureStatistics as fetchStats, getRateLimiterStats } from "../_shared/api_football.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
 
 interface RequestBody {
   window_hours?: number;
@@ -246,6 +247,17 @@ Deno.serve(async (req: Request) => {
     // Insert initial pipeline log entry
     const pipelineLogId = await insertPipelineLog(supabase, runMode, []);
 
+    // Backfills spend low-priority quota, so they give way to the cron run when the budget runs low
+    const isBackfillRun = runMode !== 'cron' && runMode !== 'cleanup';
+    const quota = meterApiQuota(supabase, isBackfillRun ? "results-refresh-backfill" : "results-refresh");
+    if (isBackfillRun) {
+      const deferral = await quota.deferral();
+      if (deferral) {
+        await updatePipelineLog(supabase, pipelineLogId, true, 0, 0, [], { deferred: deferral });
+        return jsonResponse({ success: true, mode: runMode, deferred: true, quota: deferral }, origin, 200, req);
+      }
+    }
+
     // Handle cleanup mode
     if (isCleanup && retentionMonths) {
       console.log(`[results-refresh] Running cleanup: retention_months=${retentionMonths}`);
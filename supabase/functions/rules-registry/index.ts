@@ -0,0 +1,191 @@
+/**
+ * rules-registry — Admin API for the versioned rules matrix
+ *
+ * Actions (POST body { action, ... }):
+ *   list                                   all versions, newest first
+ *   diff    { from, to }                   range-by-range differences between two versions
+ *   create  { version, based_on?, rules?, league_overrides?, notes? }
+ *                                          new inactive version (copies based_on when rules omitted)
+ *   promote { version }                    make version the active matrix and
+ *                                          re-qualify upcoming selections under it
+ *
+ * Consumers pick up a promotion on their next registry load (≤5 min cache);
+ * filterizer-query keeps serving the previous version's selections until the
+ * triggered optimize-selections-refresh has written rows for the new one.
+ */
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { diffRulesMatrices, validateRuleset } from "../_shared/rules.ts";
+import { fetchRulesMatrix } from "../_shared/rules_registry.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const VERSION_PATTERN = /^[a-z0-9][a-z0-9._-]{1,63}$/i;
+
+/**
+ * Fire-and-forget optimize-selections-refresh; false if env is missing
+ */
+function triggerSelectionsRefresh(): boolean {
+  const baseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!baseUrl || !serviceRoleKey) return false;
+
+  fetch(`${baseUrl}/functions/v1/optimize-selections-refresh`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({}),
+  }).catch((err) => console.error("[rules-registry] optimize-selections-refresh trigger failed:", err));
+  return true;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return json({ error: "unauthorized" }, 401);
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: "unauthorized" }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await userClient.rpc("has_role", {
+      _user_id: user.id,
+      _role: "admin",
+    });
+
+    if (roleError || !isAdmin) {
+      console.log(`[rules-registry] Access denied for user ${user.id}`);
+      return json({ error: "forbidden", message: "Admin access required" }, 403);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const body = await req.json().catch(() => ({}));
+    const action = body.action ?? "list";
+
+    if (action === "list") {
+      const { data, error } = await supabase
+        .from("rules_matrix_versions")
+        .select("version, rules, league_overrides, based_on, notes, is_active, created_at, created_by, promoted_at")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return json({ success: true, versions: data ?? [] });
+    }
+
+    if (action === "diff") {
+      if (typeof body.from !== "string" || typeof body.to !== "string") {
+        return json({ error: "from and to versions are required" }, 400);
+      }
+      const [from, to] = await Promise.all([
+        fetchRulesMatrix(supabase, body.from),
+        fetchRulesMatrix(supabase, body.to),
+      ]);
+      if (!from || !to) {
+        return json({ error: `Unknown or invalid version: ${!from ? body.from : body.to}` }, 404);
+      }
+      const changes = diffRulesMatrices(from, to);
+      return json({ success: true, from: from.version, to: to.version, changes });
+    }
+
+    if (action === "create") {
+      const version = String(body.version ?? "").trim();
+      if (!VERSION_PATTERN.test(version)) {
+        return json({ error: "version must be 2-64 chars of letters, digits, '.', '_' or '-'" }, 400);
+      }
+
+      let rules = body.rules;
+      let leagueOverrides = body.league_overrides;
+      if (body.based_on && (rules === undefined || leagueOverrides === undefined)) {
+        const base = await fetchRulesMatrix(supabase, String(body.based_on));
+        if (!base) return json({ error: `Unknown base version: ${body.based_on}` }, 404);
+        rules = rules ?? base.rules;
+        leagueOverrides = leagueOverrides ?? base.leagueOverrides;
+      }
+      leagueOverrides = leagueOverrides ?? {};
+
+      const errors = validateRuleset(rules);
+      if (leagueOverrides && typeof leagueOverrides === "object" && !Array.isArray(leagueOverrides)) {
+        for (const [league, partial] of Object.entries(leagueOverrides)) {
+          if (!/^\d+$/.test(league)) errors.push(`league override key "${league}" must be a league id`);
+          for (const e of validateRuleset(partial, true)) errors.push(`league ${league}: ${e}`);
+        }
+      } else {
+        errors.push("league_overrides must be an object keyed by league id");
+      }
+      if (errors.length > 0) {
+        return json({ error: "Invalid ruleset", details: errors }, 422);
+      }
+
+      const { error } = await supabase.from("rules_matrix_versions").insert({
+        version,
+        rules,
+        league_overrides: leagueOverrides,
+        based_on: body.based_on ?? null,
+        notes: body.notes ?? null,
+        created_by: user.id,
+      });
+      if (error) {
+        if (error.code === "23505") return json({ error: `Version ${version} already exists` }, 409);
+        throw error;
+      }
+
+      console.log(`[rules-registry] ${user.id} created ${version} (based on ${body.based_on ?? "nothing"})`);
+      return json({ success: true, version });
+    }
+
+    if (action === "promote") {
+      if (typeof body.version !== "string") {
+        return json({ error: "version is required" }, 400);
+      }
+      // Refuse to activate a matrix that consumers would reject and fall back from
+      const matrix = await fetchRulesMatrix(supabase, body.version);
+      if (!matrix) return json({ error: `Unknown or invalid version: ${body.version}` }, 404);
+
+      const { data, error } = await supabase.rpc("promote_rules_version", {
+        p_version: body.version,
+        p_promoted_by: user.id,
+      });
+      if (error) throw error;
+
+      console.log(`[rules-registry] ${user.id} promoted ${body.version}: ${JSON.stringify(data)}`);
+
+      // Re-qualify upcoming fixtures under the new matrix. Not awaited: the
+      // refresh takes minutes and force-reloads the registry itself.
+      const refreshTriggered = triggerSelectionsRefresh();
+      return json({ success: true, ...data, refresh_triggered: refreshTriggered });
+    }
+
+    return json({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error("[rules-registry] Error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,7 +1,39 @@
 // ============================================================================
 // Safe Zone Chat — Query endpoint for Safe Zone Ticket Bot
+//
+// Free text is parsed by _shared/chat_query.ts against a vocabulary of the
+// leagues, countries and teams with upcoming picks. The structured
+// interpretation is returned with the picks; the client may send an edited
+// interpretation back instead of a query to correct what was understood.
+//
+// Each conversation is a safe_zone_chat_sessions row holding the last
+// interpretation and result set; follow-ups ("swap the second pick", "now
+// only Spain") act on them (_shared/chat_session.ts). Messages are stored so
+// the client can restore the history.
 // ============================================================================
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  applyChatFilters,
+  interpretationLeagueIds,
+  matchesInterpretation,
+  matchesTeams,
+  normalizeChatText,
+  parseChatQuery,
+  sanitizeInterpretation,
+  type ChatFilters,
+  type ChatInterpretation,
+  type ChatPick,
+  type ChatVocabulary,
+} from "../_shared/chat_query.ts";
+import {
+  appendPicks,
+  mergeInterpretation,
+  parseFollowUp,
+  pickKey,
+  resolvePickIndex,
+  swapPick,
+  type FollowUpResult,
+} from "../_shared/chat_session.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,6 +42,133 @@ const corsHeaders = {
 
 const BLACKLISTED_LEAGUES = [172, 71, 143, 235, 271, 129, 136, 48];
 
+// Rows fetched before team filters run in memory
+const TEAM_FILTER_POOL = 200;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ChatRequestBody {
+  query?: string;
+  filters?: ChatFilters;
+  interpretation?: unknown;
+  session_id?: string;
+}
+
+interface SessionRow {
+  id: string;
+  interpretation: unknown;
+  picks: ChatPick[];
+}
+
+interface VocabularyPickRow {
+  league_id: number;
+  league_name: string;
+  home_team: string;
+  away_team: string;
+}
+
+interface LeagueRow {
+  id: number;
+  name: string;
+  country: { name: string } | null;
+}
+
+/** Leagues (with countries) and teams that have upcoming picks */
+async function loadVocabulary(
+  serviceClient: ReturnType<typeof createClient>,
+  now: Date
+): Promise<ChatVocabulary> {
+  const { data: pickRows } = await serviceClient
+    .from("safe_zone_picks")
+    .select("league_id, league_name, home_team, away_team")
+    .gte("utc_kickoff", now.toISOString())
+    .limit(1000);
+  const picks = (pickRows ?? []) as VocabularyPickRow[];
+
+  const pickLeagues = new Map<number, string>();
+  for (const p of picks) pickLeagues.set(p.league_id, p.league_name);
+
+  const { data: leagueRows } = pickLeagues.size > 0
+    ? await serviceClient
+        .from("leagues")
+        .select("id, name, country:countries(name)")
+        .in("id", [...pickLeagues.keys()])
+    : { data: [] };
+  const countries = new Map<number, string | null>();
+  for (const l of (leagueRows ?? []) as LeagueRow[]) countries.set(l.id, l.country?.name ?? null);
+
+  return {
+    leagues: [...pickLeagues.entries()].map(([id, name]) => ({ id, name, country: countries.get(id) ?? null })),
+    teams: [...new Set(picks.flatMap((p) => [p.home_team, p.away_team]))],
+  };
+}
+
+/**
+ * Picks matching an interpretation, best confidence first. Keys in `skip`
+ * (the current result set) are left out, for swapping and "more".
+ */
+async function fetchPicks(
+  serviceClient: ReturnType<typeof createClient>,
+  interpretation: ChatInterpretation,
+  vocab: ChatVocabulary,
+  limit: number,
+  skip: Set<string> = new Set()
+): Promise<{ picks: ChatPick[]; error: unknown }> {
+  const { include: leagueIds, exclude: excludedLeagueIds } = interpretationLeagueIds(interpretation, vocab);
+  const hasTeamFilter = interpretation.teams.length > 0 || interpretation.exclude_teams.length > 0;
+
+  let qb = serviceClient
+    .from("safe_zone_picks")
+    .select("*")
+    .gte("utc_kickoff", interpretation.window.from)
+    .lte("utc_kickoff", interpretation.window.to)
+    .gte("confidence_score", (interpretation.min_confidence ?? 0) / 100)
+    .order("confidence_score", { ascending: false })
+    .limit(hasTeamFilter ? TEAM_FILTER_POOL : limit + skip.size);
+
+  if (interpretation.markets.length > 0) qb = qb.in("market", interpretation.markets);
+  if (interpretation.exclude_markets.length > 0) {
+    qb = qb.not("market", "in", `(${interpretation.exclude_markets.join(",")})`);
+  }
+  if (interpretation.side) qb = qb.eq("side", interpretation.side);
+  if (interpretation.line != null) qb = qb.eq("line", interpretation.line);
+  if (interpretation.line_min != null) qb = qb.gte("line", interpretation.line_min);
+  if (interpretation.line_max != null) qb = qb.lte("line", interpretation.line_max);
+  if (interpretation.odds_min != null) qb = qb.gte("odds", interpretation.odds_min);
+  if (interpretation.odds_max != null) qb = qb.lte("odds", interpretation.odds_max);
+  if (leagueIds) qb = qb.in("league_id", leagueIds);
+  if (excludedLeagueIds.length > 0) qb = qb.not("league_id", "in", `(${excludedLeagueIds.join(",")})`);
+
+  const { data, error } = await qb;
+  const picks = ((data ?? []) as ChatPick[])
+    .filter((p) => !skip.has(pickKey(p)) && matchesTeams(p, interpretation))
+    .slice(0, limit);
+  return { picks, error };
+}
+
+/** The caller's session by id, or a new one when absent or not theirs */
+async function openSession(
+  serviceClient: ReturnType<typeof createClient>,
+  userId: string,
+  sessionId: string | undefined
+): Promise<{ session: SessionRow | null; isNew: boolean }> {
+  if (sessionId && UUID_RE.test(sessionId)) {
+    const { data } = await serviceClient
+      .from("safe_zone_chat_sessions")
+      .select("id, interpretation, picks")
+      .eq("id", sessionId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (data) return { session: data as SessionRow, isNew: false };
+  }
+  const { data } = await serviceClient
+    .from("safe_zone_chat_sessions")
+    .insert({ user_id: userId })
+    .select("id, interpretation, picks")
+    .single();
+  return { session: (data as SessionRow | null) ?? null, isNew: true };
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -90,69 +249,72 @@ Deno.serve(async (req) => {
   }
 
   // 4) Parse request
-  let body: any = {};
+  let body: ChatRequestBody = {};
   try {
     body = await req.json();
   } catch {
     // empty body is fine
   }
 
-  const query = (body.query || "").toLowerCase().trim();
-  const filters = body.filters || {};
-
-  // Parse "top N" from query
-  const topMatch = query.match(/top\s*(\d+)/);
-  let limit = topMatch ? parseInt(topMatch[1]) : (filters.limit || 10);
-  limit = Math.max(1, Math.min(50, limit));
-
-  // Parse market from query or filters
-  let marketFilter: string | null = filters.market || null;
-  if (!marketFilter) {
-    if (query.includes("corner")) marketFilter = "corners";
-    else if (query.includes("goal")) marketFilter = "goals";
-  }
-  if (marketFilter === "all") marketFilter = null;
-
-  // Parse date from query or filters
-  const dateFilter = filters.date || 
-    (query.includes("today") ? "today" : 
-     query.includes("tomorrow") ? "tomorrow" : "48h");
-
   const now = new Date();
-  let dateEnd: Date;
-  if (dateFilter === "today") {
-    dateEnd = new Date(now);
-    dateEnd.setHours(23, 59, 59, 999);
-  } else if (dateFilter === "tomorrow") {
-    dateEnd = new Date(now);
-    dateEnd.setDate(dateEnd.getDate() + 1);
-    dateEnd.setHours(23, 59, 59, 999);
-  } else {
-    dateEnd = new Date(now.getTime() + 48 * 60 * 60 * 1000);
-  }
+  const query = (body.query || "").slice(0, 500);
+  const vocab = await loadVocabulary(serviceClient, now);
+  const { session, isNew } = await openSession(serviceClient, userId, body.session_id);
 
-  const minConfidence = filters.min_confidence ?? 0;
+  // 5) Resolve the message against the session: a follow-up acts on the last
+  //    interpretation / result set, anything else is a fresh query
+  const prevInterpretation = session?.interpretation && !isNew
+    ? sanitizeInterpretation(session.interpretation, now)
+    : null;
+  const prevPicks = !isNew ? (session?.picks ?? []).filter((p) => Date.parse(p.utc_kickoff) > now.getTime()) : [];
+  const followUp = prevInterpretation && !body.interpretation ? parseFollowUp(normalizeChatText(query)) : null;
 
-  // 5) Query safe_zone_picks
-  let qb = serviceClient
-    .from("safe_zone_picks")
-    .select("*")
-    .gte("utc_kickoff", now.toISOString())
-    .lte("utc_kickoff", dateEnd.toISOString())
-    .gte("confidence_score", minConfidence)
-    .order("confidence_score", { ascending: false })
-    .limit(limit);
+  let interpretation: ChatInterpretation;
+  let picks: ChatPick[] = [];
+  let pickErr: unknown = null;
+  let followUpResult: FollowUpResult | null = null;
 
-  if (marketFilter) {
-    qb = qb.eq("market", marketFilter);
-  }
+  if (followUp && prevInterpretation) {
+    followUpResult = { kind: followUp.kind, applied: true };
+    interpretation = prevInterpretation;
+    const current = new Set(prevPicks.map(pickKey));
 
-  if (filters.league_ids && Array.isArray(filters.league_ids) && filters.league_ids.length > 0) {
-    qb = qb.in("league_id", filters.league_ids);
+    if (followUp.kind === "swap" || followUp.kind === "remove") {
+      const index = resolvePickIndex(followUp.index, prevPicks.length);
+      followUpResult.index = index ?? undefined;
+      picks = prevPicks;
+      if (index == null) {
+        followUpResult.applied = false;
+      } else if (followUp.kind === "remove") {
+        picks = prevPicks.filter((_, i) => i !== index);
+      } else {
+        const candidates = await fetchPicks(serviceClient, interpretation, vocab, 1, current);
+        pickErr = candidates.error;
+        const swapped = swapPick(prevPicks, index, candidates.picks);
+        if (swapped) picks = swapped;
+        else followUpResult.applied = false;
+      }
+    } else if (followUp.kind === "more") {
+      const candidates = await fetchPicks(serviceClient, interpretation, vocab, followUp.count, current);
+      pickErr = candidates.error;
+      picks = appendPicks(prevPicks, candidates.picks, followUp.count);
+      followUpResult.applied = picks.length > prevPicks.length;
+    } else {
+      interpretation = mergeInterpretation(prevInterpretation, parseChatQuery(followUp.text, vocab, now), now);
+      // Nothing left to narrow (picks kicked off): re-query instead
+      if (followUp.kind === "narrow" && prevPicks.length > 0) {
+        picks = prevPicks.filter((p) => matchesInterpretation(p, interpretation, vocab));
+      } else {
+        ({ picks, error: pickErr } = await fetchPicks(serviceClient, interpretation, vocab, interpretation.limit));
+      }
+    }
+  } else {
+    interpretation = body.interpretation
+      ? sanitizeInterpretation(body.interpretation, now)
+      : applyChatFilters(parseChatQuery(query, vocab, now), body.filters || {}, vocab, now);
+    ({ picks, error: pickErr } = await fetchPicks(serviceClient, interpretation, vocab, interpretation.limit));
   }
 
-  const { data: picks, error: pickErr } = await qb;
-
   if (pickErr) {
     console.error("[safe-zone-chat] Query error:", pickErr);
     return new Response(
@@ -161,7 +323,26 @@ Deno.serve(async (req) => {
     );
   }
 
-  // 6) Get data freshness
+  // 6) Remember the result set and the exchange
+  if (session) {
+    await serviceClient
+      .from("safe_zone_chat_sessions")
+      .update({ interpretation, picks })
+      .eq("id", session.id);
+    await serviceClient.from("safe_zone_chat_messages").insert([
+      { session_id: session.id, user_id: userId, role: "user", text: query || null },
+      {
+        session_id: session.id,
+        user_id: userId,
+        role: "bot",
+        interpretation,
+        picks,
+        follow_up: followUpResult,
+      },
+    ]);
+  }
+
+  // 7) Get data freshness
   const { data: freshnessRow } = await serviceClient
     .from("safe_zone_picks")
     .select("computed_at")
@@ -169,13 +350,16 @@ Deno.serve(async (req) => {
     .limit(1)
     .maybeSingle();
 
-  // 7) Build response
+  // 8) Build response
   const response: any = {
     status: "ok",
-    count: picks?.length || 0,
+    count: picks.length,
     generated_at: now.toISOString(),
     data_freshness: freshnessRow?.computed_at || null,
-    picks: picks || [],
+    picks,
+    interpretation,
+    session_id: session?.id ?? null,
+    follow_up: followUpResult,
     meta: {
       markets_included: ["corners", "goals"],
       markets_excluded: ["cards"],
@@ -186,7 +370,7 @@ Deno.serve(async (req) => {
   };
 
   // If no picks, add breakdown
-  if (!picks || picks.length === 0) {
+  if (picks.length === 0) {
     response.status = "empty";
     response.code = "NO_PICKS";
   }
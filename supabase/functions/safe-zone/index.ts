@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { probabilityOf } from "../_shared/probability.ts";
+import { MARKET_DISPERSION } from "../_shared/stat_model.ts";
 
 /**
  * Safe Zone Edge Function v2.0
@@ -11,7 +13,7 @@ import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "..
  * - High Corners Over 9.5 (mode: CORNERS)
  * - High Fouls Over 25.5 (mode: FOULS)
  * 
- * Uses Poisson/linear models + empirical data blending with clamped probabilities
+ * Uses Poisson / negative binomial models + empirical data blending with clamped probabilities
  */
 
 // Supported leagues (top 5 + 2nd divisions + more)
@@ -140,27 +142,6 @@ function clamp(v: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, v));
 }
 
-function factorial(n: number): number {
-  if (n <= 1) return 1;
-  let result = 1;
-  for (let i = 2; i <= n; i++) result *= i;
-  return result;
-}
-
-function poissonPMF(k: number, lambda: number): number {
-  if (lambda <= 0) return k === 0 ? 1 : 0;
-  return (Math.pow(lambda, k) * Math.exp(-lambda)) / factorial(k);
-}
-
-// Compute P(X >= threshold) for Poisson distribution
-function poissonCDFComplement(threshold: number, lambda: number): number {
-  let cdf = 0;
-  for (let k = 0; k < threshold; k++) {
-    cdf += poissonPMF(k, lambda);
-  }
-  return 1 - cdf;
-}
-
 serve(async (req) => {
   const origin = req.headers.get("origin") || "*";
 
@@ -327,10 +308,7 @@ serve(async (req) => {
 
       if (mode === "O25") {
         // Poisson model for O2.5
-        const P0 = poissonPMF(0, mu_total);
-        const P1 = poissonPMF(1, mu_total);
-        const P2 = poissonPMF(2, mu_total);
-        const P_O25_model = 1 - (P0 + P1 + P2);
+        const P_O25_model = probabilityOf({ mean: mu_total, size: MARKET_DISPERSION.goals }, "over", 2.5);
 
         // Empirical O2.5
         const o25_home_10 = homeStats?.o25_rate ?? leagueStats?.o25_rate ?? 0.5;
@@ -391,8 +369,12 @@ serve(async (req) => {
         const mu_corners_away = LCF * (0.5 * c_att_A + 0.5 * c_def_H) * AWAY_ADJ;
         const mu_corners_total = mu_corners_home + mu_corners_away;
 
-        // Poisson model for Over X.5 corners
-        const P_over_corners_model = poissonCDFComplement(Math.ceil(thresholds.corners_line), mu_corners_total);
+        // Negative binomial model for Over X.5 corners (corners are mildly over-dispersed)
+        const P_over_corners_model = probabilityOf(
+          { mean: mu_corners_total, size: MARKET_DISPERSION.corners },
+          "over",
+          thresholds.corners_line
+        );
 
         // Empirical corners rates
         const corners_rate_home = homeStats?.over_corners_rate ?? leagueStats?.over_corners_rate ?? 0.5;
@@ -428,15 +410,17 @@ serve(async (req) => {
         const ff_away = blendWithLeague(awayStats?.fouls_committed, LFF, awayStats?.fouls_sample || 0);
         const fs_away = blendWithLeague(awayStats?.fouls_suffered, LFF, awayStats?.fouls_sample || 0);
 
-        // Expected fouls (simpler linear model - fouls are less Poisson-distributed)
+        // Expected fouls (average of committed vs opponent's suffered)
         const mu_fouls_home = (ff_home + fs_away) / 2 * HOME_ADJ;
         const mu_fouls_away = (ff_away + fs_home) / 2 * AWAY_ADJ;
         const mu_fouls_total = mu_fouls_home + mu_fouls_away;
 
-        // Linear probability estimate for over threshold
-        // Higher mu_fouls → higher probability, scaled against league average
-        const fouls_ratio = mu_fouls_total / avgFouls;
-        const P_over_fouls_model = clamp(0.5 + (fouls_ratio - 1) * 0.4, 0.2, 0.9);
+        // Negative binomial model for Over X.5 fouls
+        const P_over_fouls_model = probabilityOf(
+          { mean: mu_fouls_total, size: MARKET_DISPERSION.fouls },
+          "over",
+          thresholds.fouls_line
+        );
 
         // Empirical fouls rates
         const fouls_rate_home = homeStats?.over_fouls_rate ?? leagueStats?.over_fouls_rate ?? 0.5;
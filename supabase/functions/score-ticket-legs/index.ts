@@ -4,6 +4,9 @@
  * Runs every 5 minutes via cron.
  * Scores legs based on fixture_results after match is finished (FT).
  * 
+ * Also settles the user bet journal (bet_journal_legs → bet_journal) via
+ * get_scorable_journal_legs, with the same rules from _shared/leg_scoring.ts.
+ *
  * Uses RPC get_scorable_pending_legs which:
  * - INNER JOINs with fixture_results (FT) so we only get scorable legs
  * - Uses FOR UPDATE SKIP LOCKED to prevent double-processing
@@ -12,21 +15,30 @@
  * - goals: goals_home + goals_away
  * - corners: corners_home + corners_away  
  * - cards: cards_home + cards_away
+ * - fouls / offsides (journal legs only; the ticket RPC does not return them)
  * 
  * over: actual > line = WIN, actual = line = PUSH, actual < line = LOSS
  * under: actual < line = WIN, actual = line = PUSH, actual > line = LOSS
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
 import { checkCronOrAdminAuth } from "../_shared/auth.ts";
+import {
+  legActualValue,
+  scoreOverUnder,
+  tallyLegs,
+  ticketStatusFromTally,
+  type FixtureTotals,
+} from "../_shared/leg_scoring.ts";
+import { settleJournalBets } from "../_shared/journal_settlement.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-key",
 };
 
-interface ScorableLeg {
+interface ScorableLeg extends FixtureTotals {
   leg_id: string;
   ticket_id: string;
   user_id: string;
@@ -34,12 +46,57 @@ interface ScorableLeg {
   market: string;
   side: string;
   line: number;
-  goals_home: number;
-  goals_away: number;
-  corners_home: number | null;
-  corners_away: number | null;
-  cards_home: number | null;
-  cards_away: number | null;
+}
+
+interface ScorableJournalLeg extends FixtureTotals {
+  leg_id: string;
+  bet_id: string;
+  fixture_id: number;
+  market: string;
+  side: string;
+  line: number;
+}
+
+/**
+ * Score pending bet_journal_legs and settle their bets (status, payout, profit).
+ * Legs with missing stats stay PENDING for a later run.
+ */
+async function settleJournal(supabase: SupabaseClient, batchSize: number, logs: string[]) {
+  const { data: journalLegs, error } = await supabase
+    .rpc("get_scorable_journal_legs", { batch_limit: batchSize });
+
+  if (error) {
+    logs.push(`[score] Journal RPC error: ${error.message}`);
+    return { scored_legs: 0, settled_bets: 0, error: error.message };
+  }
+
+  let scored = 0;
+  const betsToUpdate = new Set<string>();
+
+  for (const leg of (journalLegs ?? []) as ScorableJournalLeg[]) {
+    const actualValue = legActualValue(leg.market, leg);
+    const resultStatus = actualValue === null ? null : scoreOverUnder(leg.side, Number(leg.line), actualValue);
+    if (!resultStatus) continue;
+
+    const { error: updateError } = await supabase
+      .from("bet_journal_legs")
+      .update({ result_status: resultStatus, actual_value: actualValue, settled_at: new Date().toISOString() })
+      .eq("id", leg.leg_id);
+
+    if (updateError) {
+      logs.push(`[score] Error updating journal leg ${leg.leg_id}: ${updateError.message}`);
+      continue;
+    }
+    scored++;
+    betsToUpdate.add(leg.bet_id);
+  }
+
+  const settleErrors: string[] = [];
+  const settled = await settleJournalBets(supabase, betsToUpdate, settleErrors);
+  for (const e of settleErrors) logs.push(`[score] ${e}`);
+
+  logs.push(`[score] Journal: scored ${scored} legs, settled ${settled} bets`);
+  return { scored_legs: scored, settled_bets: settled };
 }
 
 serve(async (req) => {
@@ -85,76 +142,25 @@ serve(async (req) => {
 
     if (!scorableLegs || scorableLegs.length === 0) {
       logs.push("[score] No scorable legs found (all pending legs either have no FT results or are locked)");
-      return new Response(
-        JSON.stringify({
-          success: true,
-          scanned_legs: 0,
-          scored_legs: 0,
-          updated_tickets: 0,
-          duration_ms: Date.now() - startTime,
-          logs,
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    } else {
+      logs.push(`[score] Found ${scorableLegs.length} scorable legs with FT results`);
     }
 
-    logs.push(`[score] Found ${scorableLegs.length} scorable legs with FT results`);
-
     // Step 2: Score each leg (results are already in the row from RPC)
     let scoredLegs = 0;
     let skippedLegs = 0;
     const ticketsToUpdate = new Set<string>();
 
-    for (const leg of scorableLegs as ScorableLeg[]) {
-      // Calculate actual value based on market
-      let actualValue: number | null = null;
-      const market = leg.market.toLowerCase();
-      
-      if (market === "goals" || market === "total_goals" || market === "over_under") {
-        actualValue = leg.goals_home + leg.goals_away;
-      } else if (market === "corners" || market === "total_corners") {
-        if (leg.corners_home !== null && leg.corners_away !== null) {
-          actualValue = leg.corners_home + leg.corners_away;
-        }
-      } else if (market === "cards" || market === "total_cards") {
-        if (leg.cards_home !== null && leg.cards_away !== null) {
-          actualValue = leg.cards_home + leg.cards_away;
-        }
-      } else if (market === "team_goals" || market === "team_total") {
-        // For team-specific markets, we'd need side info like "home" or "away"
-        // For now, skip these as they need more context
-        skippedLegs++;
-        continue;
-      }
-
+    for (const leg of (scorableLegs ?? []) as ScorableLeg[]) {
+      // Can't score without actual value (e.g., corners/cards not available, team markets)
+      const actualValue = legActualValue(leg.market, leg);
       if (actualValue === null) {
-        // Can't score without actual value (e.g., corners/cards not available)
         skippedLegs++;
         continue;
       }
 
-      // Determine result status
-      let resultStatus: string;
-      const side = leg.side.toLowerCase();
-      
-      if (side === "over") {
-        if (actualValue > leg.line) {
-          resultStatus = "WIN";
-        } else if (actualValue === leg.line) {
-          resultStatus = "PUSH";
-        } else {
-          resultStatus = "LOSS";
-        }
-      } else if (side === "under") {
-        if (actualValue < leg.line) {
-          resultStatus = "WIN";
-        } else if (actualValue === leg.line) {
-          resultStatus = "PUSH";
-        } else {
-          resultStatus = "LOSS";
-        }
-      } else {
-        // Unknown side, skip
+      const resultStatus = scoreOverUnder(leg.side, leg.line, actualValue);
+      if (!resultStatus) {
         logs.push(`[score] Unknown side "${leg.side}" for leg ${leg.leg_id}`);
         skippedLegs++;
         continue;
@@ -197,51 +203,19 @@ serve(async (req) => {
         continue;
       }
 
-      // Count by status
-      let legsWon = 0;
-      let legsLost = 0;
-      let legsPushed = 0;
-      let legsVoid = 0;
-      let legsPending = 0;
-
-      for (const tl of ticketLegs) {
-        switch (tl.result_status) {
-          case "WIN": legsWon++; break;
-          case "LOSS": legsLost++; break;
-          case "PUSH": legsPushed++; break;
-          case "VOID": legsVoid++; break;
-          default: legsPending++; break;
-        }
-      }
-
-      const legsTotal = ticketLegs.length;
-      const legsSettled = legsWon + legsLost + legsPushed + legsVoid;
-
-      // Determine ticket status
-      let ticketStatus: string;
-      if (legsLost > 0) {
-        ticketStatus = "LOST";
-      } else if (legsSettled === legsTotal && legsVoid === legsTotal) {
-        ticketStatus = "VOID";
-      } else if (legsSettled === legsTotal && legsLost === 0) {
-        ticketStatus = "WON";
-      } else if (legsSettled > 0 && legsSettled < legsTotal) {
-        ticketStatus = "PARTIAL";
-      } else {
-        ticketStatus = "PENDING";
-      }
+      const tally = tallyLegs(ticketLegs.map((tl) => tl.result_status));
 
       // Update ticket_outcomes
       const { error: ticketUpdateError } = await supabase
         .from("ticket_outcomes")
         .update({
-          legs_settled: legsSettled,
-          legs_won: legsWon,
-          legs_lost: legsLost,
-          legs_pushed: legsPushed,
-          legs_void: legsVoid,
-          ticket_status: ticketStatus,
-          settled_at: legsSettled === legsTotal ? new Date().toISOString() : null,
+          legs_settled: tally.settled,
+          legs_won: tally.won,
+          legs_lost: tally.lost,
+          legs_pushed: tally.pushed,
+          legs_void: tally.void,
+          ticket_status: ticketStatusFromTally(tally),
+          settled_at: tally.settled === tally.total ? new Date().toISOString() : null,
         })
         .eq("ticket_id", ticketId);
 
@@ -255,13 +229,17 @@ serve(async (req) => {
 
     logs.push(`[score] Updated ${updatedTickets} tickets`);
 
+    // Step 4: Settle the user bet journal with the same rules
+    const journal = await settleJournal(supabase, batchSize, logs);
+
     return new Response(
       JSON.stringify({
         success: true,
-        scanned_legs: scorableLegs.length,
+        scanned_legs: scorableLegs?.length ?? 0,
         scored_legs: scoredLegs,
         skipped_legs: skippedLegs,
         updated_tickets: updatedTickets,
+        journal,
         duration_ms: Date.now() - startTime,
         logs,
       }),
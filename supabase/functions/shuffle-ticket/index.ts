@@ -2,7 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { ODDS_MIN, ODDS_MAX } from "../_shared/config.ts";
-import { RULES_VERSION } from "../_shared/rules.ts";
+import { loadRulesRegistry, resolveServedRulesVersion } from "../_shared/rules_registry.ts";
 import { checkUserRateLimit, buildRateLimitResponse } from "../_shared/rate_limit.ts";
 
 const corsHeaders = {
@@ -151,6 +151,10 @@ serve(async (req) => {
     
     console.log(`[shuffle-ticket] DATE FILTER: ${dayRange} → [${now.toISOString().split('T')[0]} 00:00, ${endDate.toISOString().split('T')[0]} 00:00) UTC`);
     
+    // Serve the previous matrix's rows until the optimizer has produced the active one
+    const activeRulesVersion = await loadRulesRegistry(supabase);
+    const rulesVersion = await resolveServedRulesVersion(supabase, activeRulesVersion, now, endDate);
+
     let query = supabase
       .from("optimized_selections")
       .select(`
@@ -158,7 +162,7 @@ serve(async (req) => {
         market, side, line, odds, bookmaker, is_live, 
         edge_pct, model_prob, combined_snapshot, sample_size
       `)
-      .eq("rules_version", RULES_VERSION)
+      .eq("rules_version", rulesVersion)
       .gte("utc_kickoff", now.toISOString())
       .lt("utc_kickoff", endDate.toISOString())
       .in("market", includeMarkets)
@@ -15,6 +15,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { computeLastFiveAverages } from "../_shared/stats.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
 import { UPCOMING_WINDOW_HOURS } from "../_shared/config.ts";
 
@@ -221,6 +222,7 @@ Deno.serve(async (req) => {
       console.error("[stats-refresh] Authorization failed - no valid credentials");
       return errorResponse("Unauthorized", origin, 401, req);
     }
+    meterApiQuota(supabase, "stats-refresh");
 
     // Acquire lock
     const { data: gotLock, error: lockError } = await supabase.rpc("acquire_cron_lock", {
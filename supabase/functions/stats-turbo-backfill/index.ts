@@ -11,6 +11,7 @@ import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "..
 import { ALLOWED_LEAGUE_IDS, LEAGUE_NAMES } from "../_shared/leagues.ts";
 import { fetchAPIFootball, fetchFixtureStatistics, getRateLimiterStats } from "../_shared/api_football.ts";
 import { computeLastFiveAverages } from "../_shared/stats.ts";
+import { meterApiQuota } from "../_shared/provider_registry.ts";
 
 // Priority league tiers for Turbo Backfill
 const TIER_0_LEAGUES = [39, 140, 135, 78, 61]; // EPL, La Liga, Serie A, Bundesliga, Ligue 1
@@ -697,6 +698,12 @@ Deno.serve(async (req: Request) => {
       return errorResponse("Unauthorized", origin, 401, req);
     }
 
+    const deferral = await meterApiQuota(supabase, "stats-turbo-backfill").deferral();
+    if (deferral) {
+      console.warn(`[turbo] Deferred: ${deferral.reason} quota reached (${deferral.used} calls today)`);
+      return jsonResponse({ success: true, deferred: true, quota: deferral }, origin, 200, req);
+    }
+
     // Parse request body
     let body: TurboRequest = {};
     try {
@@ -1,7 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, handlePreflight, jsonResponse, errorResponse } from "../_shared/cors.ts";
-import { apiHeaders, API_BASE } from "../_shared/api.ts";
+import { getDataProvider, meterApiQuota } from "../_shared/provider_registry.ts";
 
 /**
  * team-totals-refresh
@@ -44,12 +44,9 @@ async function fetchSeasonStats(
   leagueId: number,
   season: number
 ): Promise<SeasonStats | null> {
-  const url = `${API_BASE}/teams/statistics?team=${teamId}&league=${leagueId}&season=${season}`;
-  const headers = apiHeaders();
-
   try {
-    const response = await fetch(url, { headers });
-    const json = await response.json();
+    const response = await getDataProvider().get("football", `/teams/statistics?team=${teamId}&league=${leagueId}&season=${season}`);
+    const json: any = response.body ?? {};
 
     if (!response.ok || json.errors?.length > 0) {
       console.warn(`[team-totals-refresh] Stats API error for team ${teamId}:`, json.errors);
@@ -80,12 +77,9 @@ async function fetchLast5LeagueFixtures(
   leagueId: number,
   season: number
 ): Promise<Last5Result> {
-  const url = `${API_BASE}/fixtures?team=${teamId}&league=${leagueId}&season=${season}&last=5&status=FT`;
-  const headers = apiHeaders();
-
   try {
-    const response = await fetch(url, { headers });
-    const json = await response.json();
+    const response = await getDataProvider().get("football", `/fixtures?team=${teamId}&league=${leagueId}&season=${season}&last=5&status=FT`);
+    const json: any = response.body ?? {};
 
     if (!response.ok || json.errors?.length > 0) {
       console.warn(`[team-totals-refresh] Last 5 API error for team ${teamId}:`, json.errors);
@@ -164,6 +158,7 @@ serve(async (req) => {
     if (!isAuthorized) {
       return errorResponse("Unauthorized", origin, 401, req);
     }
+    meterApiQuota(supabase, "team-totals-refresh");
 
     // Parse optional window_hours from body (default to TEAM_TOTALS_WINDOW_HOURS)
     let windowHours = TEAM_TOTALS_WINDOW_HOURS;
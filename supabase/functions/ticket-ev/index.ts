@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { checkUserRateLimit, buildRateLimitResponse } from "../_shared/rate_limit.ts";
+import { computeTicketEV, type EvLeg } from "../_shared/ticket_ev.ts";
+
+/**
+ * Ticket EV + fractional-Kelly stake for the ticket drawers.
+ *
+ * Legs without a model probability are enriched from optimized_selections
+ * (same fixture/market/side/line) before the shared calculator runs.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const LegSchema = z.object({
+  sport: z.enum(["football", "hockey", "basketball"]).optional(),
+  fixtureId: z.number().int().positive(),
+  leagueId: z.number().int().nullable().optional(),
+  kickoff: z.string().nullable().optional(),
+  market: z.string(),
+  side: z.string(),
+  line: z.union([z.number(), z.string()]).nullable().optional(),
+  odds: z.number().positive(),
+  modelProb: z.number().min(0).max(1).nullable().optional(),
+});
+
+const RequestSchema = z.object({
+  legs: z.array(LegSchema).min(1).max(30),
+  stake: z.number().min(0).max(1_000_000).optional(),
+  bankroll: z.number().min(0).max(100_000_000).nullable().optional(),
+  kellyFraction: z.number().min(0).max(1).optional(),
+});
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: claimsError } = await userClient.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: "Invalid authentication token" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const userId = claimsData.claims.sub;
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey);
+
+    const rateLimitResult = await checkUserRateLimit({
+      supabase: supabaseClient,
+      userId,
+      feature: "ticket_ev",
+      maxPerMinute: 30,
+    });
+
+    if (!rateLimitResult.allowed) {
+      return buildRateLimitResponse("ticket_ev", rateLimitResult.retryAfterSeconds || 60, corsHeaders);
+    }
+
+    const bodyRaw = await req.json().catch(() => null);
+    const validation = RequestSchema.safeParse(bodyRaw);
+    if (!validation.success) {
+      console.error("[ticket-ev] Validation error:", validation.error.format());
+      return new Response(
+        JSON.stringify({ error: "Invalid request parameters" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 422 }
+      );
+    }
+
+    const { legs, stake, bankroll, kellyFraction } = validation.data;
+
+    // Fill missing model probabilities from the optimizer's selections (football only)
+    const missing = legs.filter((l) => l.modelProb == null && (l.sport ?? "football") === "football");
+    const probByKey = new Map<string, number>();
+    if (missing.length > 0) {
+      const { data: selections, error } = await supabaseClient
+        .from("optimized_selections")
+        .select("fixture_id, market, side, line, model_prob")
+        .in("fixture_id", [...new Set(missing.map((l) => l.fixtureId))])
+        .not("model_prob", "is", null);
+
+      if (error) {
+        console.warn("[ticket-ev] optimized_selections lookup failed:", error.message);
+      }
+      for (const s of selections ?? []) {
+        probByKey.set(`${s.fixture_id}|${s.market}|${s.side}|${Number(s.line)}`, Number(s.model_prob));
+      }
+    }
+
+    const evLegs: EvLeg[] = legs.map((l) => ({
+      ...l,
+      modelProb: l.modelProb ?? probByKey.get(`${l.fixtureId}|${l.market}|${l.side}|${Number(l.line)}`) ?? null,
+    }));
+
+    const ev = computeTicketEV(evLegs, { stake, bankroll, kellyFraction });
+    console.log(`[ticket-ev] user=${userId} legs=${legs.length} model_legs=${ev.legs_with_model} ev=${ev.ev_per_unit} kelly=${ev.kelly_share}`);
+
+    return new Response(
+      JSON.stringify(ev),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[ticket-ev] Internal error:", {
+      message: error instanceof Error ? error.message : "Unknown",
+      timestamp: new Date().toISOString(),
+    });
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
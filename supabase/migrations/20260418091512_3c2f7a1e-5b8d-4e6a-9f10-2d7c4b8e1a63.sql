@@ -0,0 +1,59 @@
+-- Expose rules_version on backtest_samples so backtests can split results
+-- per qualification matrix version. New column is appended (CREATE OR REPLACE
+-- VIEW only allows adding columns at the end).
+BEGIN;
+
+CREATE OR REPLACE VIEW public.backtest_samples AS
+SELECT 
+  os.id AS selection_id,
+  os.fixture_id,
+  os.league_id,
+  os.market,
+  os.side,
+  os.line,
+  os.bookmaker,
+  os.odds AS book_odds,
+  os.model_prob,
+  os.edge_pct,
+  os.sample_size,
+  os.combined_snapshot,
+  os.computed_at AS created_at,
+  os.utc_kickoff AS kickoff_at,
+
+  fr.goals_home,
+  fr.goals_away,
+  fr.corners_home,
+  fr.corners_away,
+  fr.cards_home,
+  fr.cards_away,
+  fr.finished_at,
+
+  CASE 
+    WHEN os.market='goals'   AND os.side='over'  THEN (fr.goals_home + fr.goals_away) >  os.line
+    WHEN os.market='goals'   AND os.side='under' THEN (fr.goals_home + fr.goals_away) <  os.line
+    WHEN os.market='corners' AND os.side='over'  THEN COALESCE(fr.corners_home + fr.corners_away, 0) >  os.line
+    WHEN os.market='corners' AND os.side='under' THEN COALESCE(fr.corners_home + fr.corners_away, 0) <  os.line
+    WHEN os.market='cards'   AND os.side='over'  THEN COALESCE(fr.cards_home + fr.cards_away, 0) >  os.line
+    WHEN os.market='cards'   AND os.side='under' THEN COALESCE(fr.cards_home + fr.cards_away, 0) <  os.line
+    ELSE NULL
+  END AS result_win,
+
+  EXTRACT(EPOCH FROM (os.utc_kickoff - os.computed_at))/3600.0 AS hours_to_kickoff,
+  os.rules_version
+FROM public.optimized_selections os
+JOIN public.fixture_results fr ON fr.fixture_id = os.fixture_id
+WHERE fr.status = 'FT';
+
+ALTER VIEW public.backtest_samples
+  SET (security_invoker = true);
+
+COMMENT ON VIEW public.backtest_samples
+  IS 'Historical backtest data (incl. rules_version); SECURITY INVOKER so RLS on base tables is enforced';
+
+REVOKE ALL ON public.backtest_samples FROM PUBLIC;
+GRANT SELECT ON public.backtest_samples TO authenticated, service_role;
+
+CREATE INDEX IF NOT EXISTS idx_optimized_selections_kickoff_rules
+  ON public.optimized_selections (utc_kickoff, rules_version);
+
+COMMIT;
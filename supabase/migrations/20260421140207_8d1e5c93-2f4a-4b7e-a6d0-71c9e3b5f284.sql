@@ -0,0 +1,142 @@
+-- ============================================================================
+-- Versioned rules matrix registry
+-- Replaces the hard-coded RULES tables in _shared/rules.ts / ticket_rules.ts.
+-- rules:            { "<market>": [{ "range": [lo, hi] | "gte", "pick": { "side", "line" } | null }] }
+-- league_overrides: { "<league_id>": { "<market>": [rules...] } } — replaces the
+--                   market's rule list for that league only
+-- Exactly one row may be active; promote_rules_version() flips it atomically.
+-- ============================================================================
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.rules_matrix_versions (
+  version text PRIMARY KEY,
+  rules jsonb NOT NULL,
+  league_overrides jsonb NOT NULL DEFAULT '{}'::jsonb,
+  based_on text REFERENCES public.rules_matrix_versions(version) ON DELETE SET NULL,
+  notes text,
+  is_active boolean NOT NULL DEFAULT false,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  promoted_by uuid,
+  promoted_at timestamptz,
+  CONSTRAINT rules_matrix_versions_rules_object CHECK (jsonb_typeof(rules) = 'object'),
+  CONSTRAINT rules_matrix_versions_overrides_object CHECK (jsonb_typeof(league_overrides) = 'object')
+);
+
+-- The "active" pointer: at most one active version
+CREATE UNIQUE INDEX IF NOT EXISTS uq_rules_matrix_versions_active
+  ON public.rules_matrix_versions (is_active) WHERE is_active;
+
+ALTER TABLE public.rules_matrix_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'rules_matrix_versions' AND policyname = 'Authenticated can read rules matrix versions') THEN
+    CREATE POLICY "Authenticated can read rules matrix versions"
+      ON public.rules_matrix_versions FOR SELECT TO authenticated
+      USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'rules_matrix_versions' AND policyname = 'Service role full access rules matrix versions') THEN
+    CREATE POLICY "Service role full access rules matrix versions"
+      ON public.rules_matrix_versions FOR ALL TO service_role
+      USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+-- Seed the matrix that was previously hard-coded (matrix-v3) as the active version
+INSERT INTO public.rules_matrix_versions (version, rules, notes, is_active, promoted_at)
+VALUES (
+  'matrix-v3',
+  '{
+    "goals": [
+      {"range": [2.3, 3.2], "pick": {"side": "over", "line": 1.5}},
+      {"range": [3.3, 4.2], "pick": {"side": "over", "line": 2.5}},
+      {"range": [4.3, 5.2], "pick": {"side": "over", "line": 3.5}},
+      {"range": [5.3, 6.3], "pick": {"side": "over", "line": 4.5}}
+    ],
+    "corners": [
+      {"range": [10.0, 12.0], "pick": {"side": "over", "line": 8.5}},
+      {"range": [13.0, 15.0], "pick": {"side": "over", "line": 9.5}},
+      {"range": [16.0, 18.0], "pick": {"side": "over", "line": 10.5}}
+    ],
+    "offsides": [
+      {"range": [1.0, 2.0], "pick": null},
+      {"range": [2.0, 3.0], "pick": {"side": "over", "line": 1.5}},
+      {"range": [3.0, 4.0], "pick": {"side": "over", "line": 2.5}},
+      {"range": [4.0, 5.0], "pick": {"side": "over", "line": 3.5}},
+      {"range": [5.0, 6.0], "pick": {"side": "over", "line": 4.5}},
+      {"range": [6.0, 7.0], "pick": {"side": "over", "line": 5.5}},
+      {"range": [7.0, 8.0], "pick": {"side": "over", "line": 5.5}},
+      {"range": "gte", "pick": {"side": "over", "line": 5.5}}
+    ],
+    "fouls": [
+      {"range": [19.0, 20.0], "pick": {"side": "over", "line": 16.5}},
+      {"range": [20.0, 21.0], "pick": {"side": "over", "line": 17.5}},
+      {"range": [21.0, 22.0], "pick": {"side": "over", "line": 18.5}},
+      {"range": [22.0, 23.0], "pick": {"side": "over", "line": 19.5}},
+      {"range": [23.0, 24.0], "pick": {"side": "over", "line": 20.5}},
+      {"range": [24.0, 25.0], "pick": {"side": "over", "line": 21.5}},
+      {"range": [25.0, 26.0], "pick": {"side": "over", "line": 22.5}},
+      {"range": [26.0, 27.0], "pick": {"side": "over", "line": 23.5}},
+      {"range": [27.0, 28.0], "pick": {"side": "over", "line": 24.5}},
+      {"range": [28.0, 29.0], "pick": {"side": "over", "line": 24.5}},
+      {"range": [29.0, 30.0], "pick": {"side": "over", "line": 24.5}},
+      {"range": "gte", "pick": {"side": "over", "line": 24.5}}
+    ],
+    "cards": [
+      {"range": [1.0, 2.0], "pick": null},
+      {"range": [2.0, 3.0], "pick": {"side": "over", "line": 1.5}},
+      {"range": [3.0, 4.0], "pick": {"side": "over", "line": 2.5}},
+      {"range": [4.0, 5.0], "pick": {"side": "over", "line": 3.5}},
+      {"range": [5.0, 6.0], "pick": {"side": "over", "line": 4.5}},
+      {"range": [6.0, 7.0], "pick": {"side": "over", "line": 5.5}},
+      {"range": [7.0, 8.0], "pick": {"side": "over", "line": 5.5}},
+      {"range": "gte", "pick": {"side": "over", "line": 5.5}}
+    ]
+  }'::jsonb,
+  'Seeded from _shared/rules.ts static RULES',
+  true,
+  now()
+)
+ON CONFLICT (version) DO NOTHING;
+
+-- Atomically move the active pointer to p_version
+CREATE OR REPLACE FUNCTION public.promote_rules_version(p_version text, p_promoted_by uuid DEFAULT NULL)
+  RETURNS jsonb
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path TO 'public'
+AS $$
+DECLARE
+  v_previous text;
+BEGIN
+  PERFORM 1 FROM public.rules_matrix_versions WHERE version = p_version FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown rules version: %', p_version;
+  END IF;
+
+  SELECT version INTO v_previous
+  FROM public.rules_matrix_versions
+  WHERE is_active
+  FOR UPDATE;
+
+  IF v_previous = p_version THEN
+    RETURN jsonb_build_object('previous', v_previous, 'active', p_version, 'changed', false);
+  END IF;
+
+  UPDATE public.rules_matrix_versions SET is_active = false WHERE is_active;
+  UPDATE public.rules_matrix_versions
+  SET is_active = true, promoted_at = now(), promoted_by = p_promoted_by
+  WHERE version = p_version;
+
+  RETURN jsonb_build_object('previous', v_previous, 'active', p_version, 'changed', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.promote_rules_version(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_rules_version(text, uuid) TO service_role;
+
+-- Ticket legs keep the rules version that qualified them
+ALTER TABLE public.ticket_leg_outcomes ADD COLUMN IF NOT EXISTS rules_version text;
+
+COMMIT;
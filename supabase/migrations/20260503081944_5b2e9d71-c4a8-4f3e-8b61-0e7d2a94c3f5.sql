@@ -0,0 +1,171 @@
+-- ============================================================================
+-- Team venue rates + league baselines for the stat count model
+-- (_shared/stat_model.ts). Per team and venue we keep the last-N for/against
+-- averages for goals, corners, cards, fouls and offsides; per league the
+-- home/away per-team averages used to normalise attack/defence strength.
+-- Refreshed daily from fixture_results by refresh_team_stat_rates().
+-- ============================================================================
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.team_stat_rates (
+  team_id integer NOT NULL,
+  venue text NOT NULL CHECK (venue IN ('home', 'away')),
+  metric text NOT NULL CHECK (metric IN ('goals', 'corners', 'cards', 'fouls', 'offsides')),
+  for_avg numeric NOT NULL,
+  against_avg numeric NOT NULL,
+  matches integer NOT NULL,
+  last_kickoff_at timestamptz,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, venue, metric)
+);
+
+CREATE TABLE IF NOT EXISTS public.league_stat_baselines (
+  league_id integer NOT NULL,
+  metric text NOT NULL CHECK (metric IN ('goals', 'corners', 'cards', 'fouls', 'offsides')),
+  home_avg numeric NOT NULL,
+  away_avg numeric NOT NULL,
+  matches integer NOT NULL,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (league_id, metric)
+);
+
+ALTER TABLE public.team_stat_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.league_stat_baselines ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'team_stat_rates' AND policyname = 'Authenticated can read team stat rates') THEN
+    CREATE POLICY "Authenticated can read team stat rates"
+      ON public.team_stat_rates FOR SELECT TO authenticated
+      USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'team_stat_rates' AND policyname = 'Service role full access team stat rates') THEN
+    CREATE POLICY "Service role full access team stat rates"
+      ON public.team_stat_rates FOR ALL TO service_role
+      USING (true) WITH CHECK (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'league_stat_baselines' AND policyname = 'Authenticated can read league stat baselines') THEN
+    CREATE POLICY "Authenticated can read league stat baselines"
+      ON public.league_stat_baselines FOR SELECT TO authenticated
+      USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'league_stat_baselines' AND policyname = 'Service role full access league stat baselines') THEN
+    CREATE POLICY "Service role full access league stat baselines"
+      ON public.league_stat_baselines FOR ALL TO service_role
+      USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.refresh_team_stat_rates(p_last_n integer DEFAULT 10, p_lookback_days integer DEFAULT 365)
+  RETURNS jsonb
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path TO 'public'
+AS $$
+DECLARE
+  v_team_rows   integer := 0;
+  v_league_rows integer := 0;
+BEGIN
+  -- One row per (team, venue, metric, match) with the team's for/against count
+  CREATE TEMP TABLE _team_metric_rows ON COMMIT DROP AS
+  WITH results AS (
+    SELECT
+      fr.league_id,
+      fr.kickoff_at,
+      NULLIF(f.teams_home->>'id', '')::integer AS home_id,
+      NULLIF(f.teams_away->>'id', '')::integer AS away_id,
+      fr.goals_home, fr.goals_away,
+      fr.corners_home, fr.corners_away,
+      fr.cards_home, fr.cards_away,
+      fr.fouls_home, fr.fouls_away,
+      fr.offsides_home, fr.offsides_away
+    FROM public.fixture_results fr
+    JOIN public.fixtures f ON f.id = fr.fixture_id
+    WHERE fr.status IN ('FT', 'AET', 'PEN')
+      AND fr.kickoff_at >= now() - make_interval(days => p_lookback_days)
+  )
+  SELECT r.league_id, r.kickoff_at, r.home_id AS team_id, 'home'::text AS venue, m.metric, m.v_for, m.v_against
+  FROM results r
+  CROSS JOIN LATERAL (VALUES
+    ('goals',    r.goals_home::numeric,    r.goals_away::numeric),
+    ('corners',  r.corners_home::numeric,  r.corners_away::numeric),
+    ('cards',    r.cards_home::numeric,    r.cards_away::numeric),
+    ('fouls',    r.fouls_home::numeric,    r.fouls_away::numeric),
+    ('offsides', r.offsides_home::numeric, r.offsides_away::numeric)
+  ) AS m(metric, v_for, v_against)
+  WHERE r.home_id IS NOT NULL AND m.v_for IS NOT NULL AND m.v_against IS NOT NULL
+  UNION ALL
+  SELECT r.league_id, r.kickoff_at, r.away_id, 'away'::text, m.metric, m.v_for, m.v_against
+  FROM results r
+  CROSS JOIN LATERAL (VALUES
+    ('goals',    r.goals_away::numeric,    r.goals_home::numeric),
+    ('corners',  r.corners_away::numeric,  r.corners_home::numeric),
+    ('cards',    r.cards_away::numeric,    r.cards_home::numeric),
+    ('fouls',    r.fouls_away::numeric,    r.fouls_home::numeric),
+    ('offsides', r.offsides_away::numeric, r.offsides_home::numeric)
+  ) AS m(metric, v_for, v_against)
+  WHERE r.away_id IS NOT NULL AND m.v_for IS NOT NULL AND m.v_against IS NOT NULL;
+
+  INSERT INTO public.team_stat_rates (team_id, venue, metric, for_avg, against_avg, matches, last_kickoff_at, computed_at)
+  SELECT team_id, venue, metric, avg(v_for), avg(v_against), count(*), max(kickoff_at), now()
+  FROM (
+    SELECT *, row_number() OVER (PARTITION BY team_id, venue, metric ORDER BY kickoff_at DESC) AS rn
+    FROM _team_metric_rows
+  ) ranked
+  WHERE rn <= p_last_n
+  GROUP BY team_id, venue, metric
+  ON CONFLICT (team_id, venue, metric) DO UPDATE SET
+    for_avg = EXCLUDED.for_avg,
+    against_avg = EXCLUDED.against_avg,
+    matches = EXCLUDED.matches,
+    last_kickoff_at = EXCLUDED.last_kickoff_at,
+    computed_at = EXCLUDED.computed_at;
+  GET DIAGNOSTICS v_team_rows = ROW_COUNT;
+
+  -- League baselines from home rows only, so each match is counted once
+  INSERT INTO public.league_stat_baselines (league_id, metric, home_avg, away_avg, matches, computed_at)
+  SELECT league_id, metric, avg(v_for), avg(v_against), count(*), now()
+  FROM _team_metric_rows
+  WHERE venue = 'home' AND league_id IS NOT NULL
+  GROUP BY league_id, metric
+  ON CONFLICT (league_id, metric) DO UPDATE SET
+    home_avg = EXCLUDED.home_avg,
+    away_avg = EXCLUDED.away_avg,
+    matches = EXCLUDED.matches,
+    computed_at = EXCLUDED.computed_at;
+  GET DIAGNOSTICS v_league_rows = ROW_COUNT;
+
+  RETURN jsonb_build_object('team_rates', v_team_rows, 'league_baselines', v_league_rows);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_team_stat_rates(integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_team_stat_rates(integer, integer) TO service_role;
+
+-- Daily refresh after results backfill
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'refresh-team-stat-rates'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'refresh-team-stat-rates',
+    '30 4 * * *',
+    'SELECT public.refresh_team_stat_rates();'
+  );
+END
+$do$;
+
+COMMIT;
+
+-- Populate immediately so the model has data before the first cron run
+SELECT public.refresh_team_stat_rates();
@@ -0,0 +1,23 @@
+-- Correlation-adjusted model win probability (_shared/ticket_correlation.ts)
+-- alongside the naive product of leg model_probs
+ALTER TABLE public.generated_tickets
+ADD COLUMN IF NOT EXISTS ticket_model_prob_adjusted NUMERIC(5,4);
+
+ALTER TABLE public.generated_tickets
+DROP CONSTRAINT IF EXISTS generated_tickets_ticket_model_prob_adjusted_check;
+ALTER TABLE public.generated_tickets
+ADD CONSTRAINT generated_tickets_ticket_model_prob_adjusted_check
+CHECK (ticket_model_prob_adjusted IS NULL OR (ticket_model_prob_adjusted >= 0 AND ticket_model_prob_adjusted <= 1));
+
+COMMENT ON COLUMN public.generated_tickets.ticket_model_prob_adjusted IS 'Ticket win probability from model with same-fixture / same league-day leg correlation applied';
+
+ALTER TABLE public.ticket_outcomes
+ADD COLUMN IF NOT EXISTS ticket_model_prob_adjusted NUMERIC(5,4);
+
+ALTER TABLE public.ticket_outcomes
+DROP CONSTRAINT IF EXISTS ticket_outcomes_ticket_model_prob_adjusted_check;
+ALTER TABLE public.ticket_outcomes
+ADD CONSTRAINT ticket_outcomes_ticket_model_prob_adjusted_check
+CHECK (ticket_model_prob_adjusted IS NULL OR (ticket_model_prob_adjusted >= 0 AND ticket_model_prob_adjusted <= 1));
+
+COMMENT ON COLUMN public.ticket_outcomes.ticket_model_prob_adjusted IS 'Ticket win probability from model with same-fixture / same league-day leg correlation applied';
@@ -0,0 +1,207 @@
+-- =============================================
+-- Bet journal: tickets the user actually placed
+-- Settled automatically by score-ticket-legs from fixture_results (FT)
+-- =============================================
+
+BEGIN;
+
+-- ---------- Table 1: user_bankrolls ----------
+CREATE TABLE IF NOT EXISTS public.user_bankrolls (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  starting_bankroll NUMERIC NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT user_bankrolls_positive CHECK (starting_bankroll > 0)
+);
+
+DROP TRIGGER IF EXISTS trg_user_bankrolls_updated_at ON public.user_bankrolls;
+CREATE TRIGGER trg_user_bankrolls_updated_at
+BEFORE UPDATE ON public.user_bankrolls
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.user_bankrolls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bankroll"
+  ON public.user_bankrolls FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bankroll"
+  ON public.user_bankrolls FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bankroll"
+  ON public.user_bankrolls FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ---------- Table 2: bet_journal ----------
+CREATE TABLE IF NOT EXISTS public.bet_journal (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Optional link to the AI ticket this bet came from
+  generated_ticket_id UUID REFERENCES public.generated_tickets(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'my_ticket',
+  mode TEXT,
+
+  stake NUMERIC NOT NULL,
+  bookmaker TEXT,
+  odds_taken NUMERIC NOT NULL,
+  quoted_odds NUMERIC,
+  notes TEXT,
+
+  status TEXT NOT NULL DEFAULT 'PENDING',
+  payout NUMERIC,
+  profit NUMERIC,
+
+  placed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT bet_journal_positive_stake CHECK (stake > 0),
+  CONSTRAINT bet_journal_valid_odds CHECK (odds_taken > 1),
+  CONSTRAINT bet_journal_valid_source
+    CHECK (source IN ('my_ticket', 'ticket_creator', 'manual')),
+  CONSTRAINT bet_journal_valid_status
+    CHECK (status IN ('PENDING', 'WON', 'LOST', 'VOID'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_bet_journal_user_placed ON public.bet_journal (user_id, placed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bet_journal_pending ON public.bet_journal (status) WHERE status = 'PENDING';
+
+ALTER TABLE public.bet_journal ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bets"
+  ON public.bet_journal FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bets"
+  ON public.bet_journal FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND status = 'PENDING');
+
+-- Notes / bookmaker edits only; settlement columns are written by the service role
+CREATE POLICY "Users can update their own pending bets"
+  ON public.bet_journal FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id AND status = 'PENDING')
+  WITH CHECK (auth.uid() = user_id AND status = 'PENDING');
+
+CREATE POLICY "Users can delete their own bets"
+  ON public.bet_journal FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access (bet_journal)"
+  ON public.bet_journal FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ---------- Table 3: bet_journal_legs ----------
+CREATE TABLE IF NOT EXISTS public.bet_journal_legs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bet_id UUID NOT NULL REFERENCES public.bet_journal(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  fixture_id BIGINT NOT NULL,
+  league_id INTEGER,
+  home_team TEXT,
+  away_team TEXT,
+  kickoff_at TIMESTAMPTZ,
+
+  market TEXT NOT NULL,
+  side TEXT NOT NULL,
+  line NUMERIC NOT NULL,
+  odds NUMERIC,
+
+  result_status TEXT NOT NULL DEFAULT 'PENDING',
+  actual_value NUMERIC,
+  settled_at TIMESTAMPTZ,
+
+  CONSTRAINT bet_journal_legs_valid_result_status
+    CHECK (result_status IN ('PENDING', 'WIN', 'LOSS', 'PUSH', 'VOID', 'UNKNOWN')),
+  CONSTRAINT bet_journal_legs_valid_side
+    CHECK (side IN ('over', 'under'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_bet_journal_legs_bet ON public.bet_journal_legs (bet_id);
+CREATE INDEX IF NOT EXISTS idx_bet_journal_legs_pending
+  ON public.bet_journal_legs (kickoff_at) WHERE result_status = 'PENDING';
+
+ALTER TABLE public.bet_journal_legs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bet legs"
+  ON public.bet_journal_legs FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bet legs"
+  ON public.bet_journal_legs FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND result_status = 'PENDING'
+    AND EXISTS (SELECT 1 FROM public.bet_journal b WHERE b.id = bet_id AND b.user_id = auth.uid())
+  );
+
+CREATE POLICY "Service role full access (bet_journal_legs)"
+  ON public.bet_journal_legs FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ---------- RPC: scorable journal legs ----------
+-- Same contract as get_scorable_pending_legs, plus fouls/offsides
+CREATE OR REPLACE FUNCTION public.get_scorable_journal_legs(batch_limit INT DEFAULT 500)
+RETURNS TABLE (
+  leg_id UUID,
+  bet_id UUID,
+  fixture_id BIGINT,
+  market TEXT,
+  side TEXT,
+  line NUMERIC,
+  goals_home SMALLINT,
+  goals_away SMALLINT,
+  corners_home SMALLINT,
+  corners_away SMALLINT,
+  cards_home SMALLINT,
+  cards_away SMALLINT,
+  fouls_home SMALLINT,
+  fouls_away SMALLINT,
+  offsides_home SMALLINT,
+  offsides_away SMALLINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    bjl.id AS leg_id,
+    bjl.bet_id,
+    bjl.fixture_id::BIGINT,
+    bjl.market,
+    bjl.side,
+    bjl.line,
+    fr.goals_home::SMALLINT,
+    fr.goals_away::SMALLINT,
+    fr.corners_home::SMALLINT,
+    fr.corners_away::SMALLINT,
+    fr.cards_home::SMALLINT,
+    fr.cards_away::SMALLINT,
+    fr.fouls_home::SMALLINT,
+    fr.fouls_away::SMALLINT,
+    fr.offsides_home::SMALLINT,
+    fr.offsides_away::SMALLINT
+  FROM bet_journal_legs bjl
+  INNER JOIN fixture_results fr
+    ON bjl.fixture_id = fr.fixture_id
+    AND fr.status = 'FT'
+  WHERE bjl.result_status = 'PENDING'
+  ORDER BY bjl.kickoff_at ASC NULLS LAST
+  LIMIT batch_limit
+  FOR UPDATE OF bjl SKIP LOCKED;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_scorable_journal_legs(INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_scorable_journal_legs(INT) FROM anon;
+REVOKE ALL ON FUNCTION public.get_scorable_journal_legs(INT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_scorable_journal_legs(INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_scorable_journal_legs(INT) TO postgres;
+
+COMMIT;
@@ -0,0 +1,103 @@
+-- =============================================
+-- Closing Line Value (CLV) snapshots
+-- One row per optimized selection / ticket leg, written by clv-snapshot
+-- with the last odds_cache price seen before kickoff
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.clv_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  source TEXT NOT NULL,
+  source_id UUID NOT NULL,
+
+  fixture_id BIGINT NOT NULL,
+  league_id INTEGER,
+  kickoff_at TIMESTAMPTZ NOT NULL,
+  market TEXT NOT NULL,
+  side TEXT NOT NULL,
+  line NUMERIC NOT NULL,
+  rules_version TEXT,
+
+  -- Price at recommendation / ticket time
+  bookmaker TEXT,
+  taken_odds NUMERIC NOT NULL,
+  taken_at TIMESTAMPTZ,
+
+  -- Last pre-kickoff price
+  closing_odds NUMERIC NOT NULL,
+  closing_bookmaker TEXT,
+  closing_method TEXT NOT NULL,
+  closing_fair_prob NUMERIC(5,4),
+  closing_captured_at TIMESTAMPTZ NOT NULL,
+
+  clv_pct NUMERIC NOT NULL,
+  fair_clv_pct NUMERIC,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT clv_snapshots_valid_source
+    CHECK (source IN ('optimized_selection', 'ticket_leg')),
+  CONSTRAINT clv_snapshots_valid_method
+    CHECK (closing_method IN ('same_book', 'median')),
+  CONSTRAINT clv_snapshots_closing_before_kickoff
+    CHECK (closing_captured_at <= kickoff_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clv_snapshots_source ON public.clv_snapshots (source, source_id);
+CREATE INDEX IF NOT EXISTS idx_clv_snapshots_kickoff ON public.clv_snapshots (kickoff_at DESC);
+CREATE INDEX IF NOT EXISTS idx_clv_snapshots_fixture ON public.clv_snapshots (fixture_id);
+
+DROP TRIGGER IF EXISTS trg_clv_snapshots_updated_at ON public.clv_snapshots;
+CREATE TRIGGER trg_clv_snapshots_updated_at
+BEFORE UPDATE ON public.clv_snapshots
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+COMMENT ON COLUMN public.clv_snapshots.clv_pct IS 'taken_odds / closing_odds - 1';
+COMMENT ON COLUMN public.clv_snapshots.fair_clv_pct IS 'taken_odds * de-vigged closing probability - 1';
+
+ALTER TABLE public.clv_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view CLV snapshots"
+  ON public.clv_snapshots FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access (clv_snapshots)"
+  ON public.clv_snapshots FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Snapshot every 5 minutes so the last pre-kickoff price is caught
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'clv-snapshot-5m'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'clv-snapshot-5m',
+    '*/5 * * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/clv-snapshot',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
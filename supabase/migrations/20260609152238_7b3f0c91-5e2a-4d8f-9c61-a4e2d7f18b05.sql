@@ -0,0 +1,146 @@
+-- =============================================
+-- Odds history + steam moves
+-- odds_cache keeps only the latest payload per fixture; the odds fetchers now
+-- also append every changed totals price (per bookmaker) to odds_history
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.odds_history (
+  id BIGSERIAL PRIMARY KEY,
+  fixture_id BIGINT NOT NULL,
+  market TEXT NOT NULL,
+  side TEXT NOT NULL,
+  line NUMERIC NOT NULL,
+  bookmaker TEXT NOT NULL,
+  odds NUMERIC NOT NULL,
+  captured_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT odds_history_valid_side CHECK (side IN ('over', 'under'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_odds_history_point
+  ON public.odds_history (fixture_id, market, side, line, bookmaker, captured_at);
+CREATE INDEX IF NOT EXISTS idx_odds_history_fixture_time
+  ON public.odds_history (fixture_id, captured_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.odds_steam_moves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fixture_id BIGINT NOT NULL,
+  market TEXT NOT NULL,
+  side TEXT NOT NULL,
+  line NUMERIC NOT NULL,
+  books TEXT[] NOT NULL,
+  from_odds NUMERIC NOT NULL,
+  to_odds NUMERIC NOT NULL,
+  move_pct NUMERIC NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_odds_steam_moves_window
+  ON public.odds_steam_moves (fixture_id, market, side, line, started_at);
+CREATE INDEX IF NOT EXISTS idx_odds_steam_moves_detected
+  ON public.odds_steam_moves (detected_at DESC);
+
+COMMENT ON COLUMN public.odds_steam_moves.move_pct IS 'Median to_odds / from_odds - 1 across the moving bookmakers';
+
+-- Premium data: served through the odds-history edge function, like odds_cache
+ALTER TABLE public.odds_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.odds_steam_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can view odds history"
+  ON public.odds_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access (odds_history)"
+  ON public.odds_history FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Only admins can view steam moves"
+  ON public.odds_steam_moves FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access (odds_steam_moves)"
+  ON public.odds_steam_moves FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ---------- RPC: consensus line movement ----------
+-- Median (across bookmakers) opening and latest price of one selection per
+-- fixture; used by filterizer-query for the "moved toward / against us" filter
+CREATE OR REPLACE FUNCTION public.get_line_movement(
+  p_fixture_ids BIGINT[],
+  p_market TEXT,
+  p_side TEXT,
+  p_line NUMERIC
+)
+RETURNS TABLE (
+  fixture_id BIGINT,
+  open_odds DOUBLE PRECISION,
+  current_odds DOUBLE PRECISION,
+  books INT,
+  opened_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH per_book AS (
+    SELECT
+      oh.fixture_id,
+      oh.bookmaker,
+      (array_agg(oh.odds ORDER BY oh.captured_at ASC))[1] AS open_odds,
+      (array_agg(oh.odds ORDER BY oh.captured_at DESC))[1] AS current_odds,
+      MIN(oh.captured_at) AS opened_at,
+      MAX(oh.captured_at) AS updated_at
+    FROM public.odds_history oh
+    WHERE oh.fixture_id = ANY(p_fixture_ids)
+      AND oh.market = p_market
+      AND oh.side = p_side
+      AND oh.line = p_line
+    GROUP BY oh.fixture_id, oh.bookmaker
+  )
+  SELECT
+    pb.fixture_id,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY pb.open_odds) AS open_odds,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY pb.current_odds) AS current_odds,
+    COUNT(*)::INT AS books,
+    MIN(pb.opened_at) AS opened_at,
+    MAX(pb.updated_at) AS updated_at
+  FROM per_book pb
+  GROUP BY pb.fixture_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_line_movement(BIGINT[], TEXT, TEXT, NUMERIC) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_line_movement(BIGINT[], TEXT, TEXT, NUMERIC) FROM anon;
+REVOKE ALL ON FUNCTION public.get_line_movement(BIGINT[], TEXT, TEXT, NUMERIC) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_line_movement(BIGINT[], TEXT, TEXT, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_line_movement(BIGINT[], TEXT, TEXT, NUMERIC) TO postgres;
+
+COMMIT;
+
+-- Retention: keep 60 days of history (daily)
+DO $$
+BEGIN
+  PERFORM cron.unschedule('cleanup-old-odds-history');
+EXCEPTION WHEN OTHERS THEN
+  NULL;
+END $$;
+
+SELECT cron.schedule(
+  'cleanup-old-odds-history',
+  '30 4 * * *',  -- 04:30 UTC daily
+  $$
+  DELETE FROM public.odds_history
+  WHERE captured_at < NOW() - INTERVAL '60 days';
+  DELETE FROM public.odds_steam_moves
+  WHERE detected_at < NOW() - INTERVAL '60 days';
+  $$
+);
@@ -0,0 +1,91 @@
+-- =============================================
+-- Live fixture state cache
+-- Score, minute, red cards and stat counts so far for in-play matches,
+-- written by live-fixtures-poll and read by the live filterizer / ticket creator
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.live_fixture_states (
+  fixture_id BIGINT PRIMARY KEY,
+  league_id INTEGER,
+
+  status TEXT NOT NULL,
+  elapsed INTEGER NOT NULL DEFAULT 0,
+
+  goals_home INTEGER NOT NULL DEFAULT 0,
+  goals_away INTEGER NOT NULL DEFAULT 0,
+  red_cards_home INTEGER NOT NULL DEFAULT 0,
+  red_cards_away INTEGER NOT NULL DEFAULT 0,
+
+  -- From /fixtures/statistics; NULL until the first stats refresh
+  corners_home INTEGER,
+  corners_away INTEGER,
+  cards_home INTEGER,
+  cards_away INTEGER,
+  fouls_home INTEGER,
+  fouls_away INTEGER,
+  offsides_home INTEGER,
+  offsides_away INTEGER,
+  stats_fetched_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_fixture_states_status ON public.live_fixture_states (status, updated_at DESC);
+
+COMMENT ON COLUMN public.live_fixture_states.status IS 'API-Football short status (1H, HT, 2H, FT, ...)';
+COMMENT ON COLUMN public.live_fixture_states.cards_home IS 'Yellow + red cards so far';
+
+ALTER TABLE public.live_fixture_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Live fixture states are viewable by everyone"
+  ON public.live_fixture_states FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (live_fixture_states)"
+  ON public.live_fixture_states FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Poll every minute while matches are in play
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'live-fixtures-poll-1m'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'live-fixtures-poll-1m',
+    '* * * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/live-fixtures-poll',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
+
+-- Finished matches are only needed until results are settled
+DO $$ BEGIN PERFORM cron.unschedule('cleanup-old-live-fixture-states'); EXCEPTION WHEN OTHERS THEN NULL; END $$;
+SELECT cron.schedule(
+  'cleanup-old-live-fixture-states',
+  '30 4 * * *',
+  $$ DELETE FROM public.live_fixture_states WHERE updated_at < now() - interval '2 days' $$
+);
@@ -0,0 +1,412 @@
+-- =============================================
+-- Automated market maker for prediction markets
+-- Per-market pricing mode:
+--   fixed       admin-set odds (previous behaviour, still the default)
+--   lmsr        logarithmic market scoring rule with liquidity b
+--   parimutuel  winners split the pool; b coins of maker seed
+-- Prices are computed inside place_market_bet under the market row lock and
+-- every fill is recorded in market_price_history for the detail chart.
+-- Pricing math is mirrored in src/lib/marketPricing.ts.
+-- =============================================
+
+BEGIN;
+
+ALTER TABLE public.prediction_markets
+  ADD COLUMN IF NOT EXISTS pricing_mode TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (pricing_mode IN ('fixed', 'lmsr', 'parimutuel')),
+  ADD COLUMN IF NOT EXISTS liquidity_b NUMERIC
+    CHECK (liquidity_b IS NULL OR liquidity_b > 0),
+  ADD COLUMN IF NOT EXISTS initial_price_yes NUMERIC NOT NULL DEFAULT 0.5
+    CHECK (initial_price_yes > 0 AND initial_price_yes < 1),
+  ADD COLUMN IF NOT EXISTS shares_yes NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS shares_no NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.prediction_markets
+  DROP CONSTRAINT IF EXISTS prediction_markets_liquidity_required;
+
+ALTER TABLE public.prediction_markets
+  ADD CONSTRAINT prediction_markets_liquidity_required
+  CHECK (pricing_mode = 'fixed' OR liquidity_b IS NOT NULL);
+
+-- Existing markets keep their fixed odds; record where they opened
+UPDATE public.prediction_markets
+SET initial_price_yes = LEAST(0.99, GREATEST(0.01, (1 / odds_yes) / (1 / odds_yes + 1 / odds_no)));
+
+COMMENT ON COLUMN public.prediction_markets.liquidity_b IS 'LMSR liquidity b, or parimutuel maker seed in coins';
+COMMENT ON COLUMN public.prediction_markets.initial_price_yes IS 'Opening YES price (0..1) from the admin odds';
+COMMENT ON COLUMN public.prediction_markets.shares_yes IS 'LMSR shares sold on YES (each pays 1 coin if YES wins)';
+COMMENT ON COLUMN public.prediction_markets.total_staked_yes IS 'Net stake on YES; the parimutuel pool with the maker seed';
+
+CREATE TABLE IF NOT EXISTS public.market_price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES public.prediction_markets(id) ON DELETE CASCADE,
+  price_yes NUMERIC NOT NULL,
+  odds_yes DECIMAL(5,2) NOT NULL,
+  odds_no DECIMAL(5,2) NOT NULL,
+  -- The fill that moved the price; NULL for the opening price
+  outcome TEXT CHECK (outcome IN ('yes', 'no')),
+  net_stake INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_price_history_market ON public.market_price_history (market_id, created_at);
+
+ALTER TABLE public.market_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Market price history is viewable by everyone"
+  ON public.market_price_history FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (market_price_history)"
+  ON public.market_price_history FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Opening point for markets that are still trading
+INSERT INTO public.market_price_history (market_id, price_yes, odds_yes, odds_no, created_at)
+SELECT id, initial_price_yes, odds_yes, odds_no, created_at
+FROM public.prediction_markets
+WHERE status IN ('open', 'closed');
+
+COMMIT;
+
+-- =============================================
+-- place_market_bet: price the fill atomically
+-- =============================================
+DROP FUNCTION IF EXISTS place_market_bet(uuid, text, integer);
+
+CREATE FUNCTION place_market_bet(
+  _market_id uuid,
+  _outcome text,
+  _stake integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_market record;
+  v_balance integer;
+  v_fee integer;
+  v_net_stake integer;
+  v_odds numeric;
+  v_potential_payout integer;
+  v_position_id uuid;
+  v_new_balance integer;
+  -- Market maker state
+  v_b double precision;
+  v_q_yes double precision;
+  v_q_no double precision;
+  v_price double precision;
+  v_shares double precision := 0;
+  v_pool_yes double precision;
+  v_pool_no double precision;
+  v_price_yes double precision;
+  v_odds_yes numeric;
+  v_odds_no numeric;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Lock market row and validate; the price below is computed under this lock
+  SELECT id, status, odds_yes, odds_no, closes_at, winning_outcome,
+         pricing_mode, liquidity_b, initial_price_yes, shares_yes, shares_no,
+         total_staked_yes, total_staked_no
+  INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF v_market IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.status != 'open' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market is not open for betting');
+  END IF;
+
+  IF v_market.winning_outcome IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market has already been resolved');
+  END IF;
+
+  IF v_market.closes_at < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market has closed');
+  END IF;
+
+  IF _outcome NOT IN ('yes', 'no') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Invalid outcome');
+  END IF;
+
+  IF _stake < 10 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Minimum stake is 10 coins');
+  END IF;
+
+  INSERT INTO market_coins (user_id, balance, total_wagered, total_fees_paid)
+  VALUES (v_user_id, 1000, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO v_balance
+  FROM market_coins
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_balance < _stake THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Insufficient balance');
+  END IF;
+
+  -- Calculate fee (2%, min 1 coin)
+  v_fee := GREATEST(1, FLOOR(_stake * 0.02));
+  v_net_stake := _stake - v_fee;
+
+  v_b := v_market.liquidity_b;
+
+  IF v_market.pricing_mode = 'lmsr' THEN
+    -- q includes the opening offset b·ln(p0); price p_yes = 1 / (1 + e^((q_no - q_yes) / b))
+    v_q_yes := v_b * ln(v_market.initial_price_yes) + v_market.shares_yes;
+    v_q_no := v_b * ln(1 - v_market.initial_price_yes) + v_market.shares_no;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+    v_price := CASE WHEN _outcome = 'yes' THEN v_price_yes ELSE 1 - v_price_yes END;
+
+    -- Shares for the net stake: x = c - b·ln p + b·ln(1 - (1 - p)·e^(-c/b))
+    v_shares := v_net_stake - v_b * ln(v_price)
+      + v_b * ln(1 - (1 - v_price) * exp(-LEAST(700, v_net_stake / v_b)));
+
+    IF _outcome = 'yes' THEN
+      v_q_yes := v_q_yes + v_shares;
+    ELSE
+      v_q_no := v_q_no + v_shares;
+    END IF;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+
+    v_potential_payout := FLOOR(v_shares);
+    v_odds := LEAST(999.99, ROUND((v_shares / v_net_stake)::numeric, 2));
+
+  ELSIF v_market.pricing_mode = 'parimutuel' THEN
+    -- Pools include the maker seed split at the opening price
+    v_pool_yes := v_b * v_market.initial_price_yes + v_market.total_staked_yes
+      + CASE WHEN _outcome = 'yes' THEN v_net_stake ELSE 0 END;
+    v_pool_no := v_b * (1 - v_market.initial_price_yes) + v_market.total_staked_no
+      + CASE WHEN _outcome = 'no' THEN v_net_stake ELSE 0 END;
+    v_price_yes := v_pool_yes / (v_pool_yes + v_pool_no);
+
+    -- Estimate at the pool after this bet; resolve_market pays the final share
+    v_odds := LEAST(999.99, GREATEST(1.01, ROUND(
+      ((v_pool_yes + v_pool_no) / CASE WHEN _outcome = 'yes' THEN v_pool_yes ELSE v_pool_no END)::numeric, 2)));
+    v_potential_payout := FLOOR(v_net_stake * v_odds);
+
+  ELSE
+    v_odds := CASE WHEN _outcome = 'yes' THEN v_market.odds_yes ELSE v_market.odds_no END;
+    v_potential_payout := FLOOR(v_net_stake * v_odds);
+  END IF;
+
+  UPDATE market_coins
+  SET
+    balance = balance - _stake,
+    total_wagered = total_wagered + v_net_stake,
+    total_fees_paid = total_fees_paid + v_fee
+  WHERE user_id = v_user_id
+  RETURNING balance INTO v_new_balance;
+
+  INSERT INTO market_positions (
+    user_id, market_id, outcome, stake, fee_amount, net_stake,
+    odds_at_placement, potential_payout, status
+  )
+  VALUES (
+    v_user_id, _market_id, _outcome, _stake, v_fee, v_net_stake,
+    v_odds, v_potential_payout, 'pending'
+  )
+  RETURNING id INTO v_position_id;
+
+  IF v_market.pricing_mode = 'fixed' THEN
+    v_odds_yes := v_market.odds_yes;
+    v_odds_no := v_market.odds_no;
+    v_price_yes := (1 / v_odds_yes) / (1 / v_odds_yes + 1 / v_odds_no);
+  ELSE
+    -- Quoted odds follow the new price
+    v_odds_yes := LEAST(999.99, GREATEST(1.01, ROUND((1 / v_price_yes)::numeric, 2)));
+    v_odds_no := LEAST(999.99, GREATEST(1.01, ROUND((1 / (1 - v_price_yes))::numeric, 2)));
+  END IF;
+
+  UPDATE prediction_markets
+  SET
+    total_staked_yes = total_staked_yes + CASE WHEN _outcome = 'yes' THEN v_net_stake ELSE 0 END,
+    total_staked_no = total_staked_no + CASE WHEN _outcome = 'no' THEN v_net_stake ELSE 0 END,
+    shares_yes = shares_yes + CASE WHEN _outcome = 'yes' THEN v_shares ELSE 0 END,
+    shares_no = shares_no + CASE WHEN _outcome = 'no' THEN v_shares ELSE 0 END,
+    odds_yes = v_odds_yes,
+    odds_no = v_odds_no,
+    updated_at = now()
+  WHERE id = _market_id;
+
+  INSERT INTO market_price_history (market_id, price_yes, odds_yes, odds_no, outcome, net_stake)
+  VALUES (_market_id, v_price_yes, v_odds_yes, v_odds_no, _outcome, v_net_stake);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'position_id', v_position_id,
+    'stake', _stake,
+    'fee', v_fee,
+    'net_stake', v_net_stake,
+    'odds', v_odds,
+    'potential_payout', v_potential_payout,
+    'new_balance', v_new_balance,
+    'pricing_mode', v_market.pricing_mode,
+    'price_yes', v_price_yes
+  );
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN jsonb_build_object('ok', false, 'error', 'You already have a position on this market');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_market_bet(uuid, text, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION place_market_bet(uuid, text, integer) FROM anon, public;
+
+-- =============================================
+-- resolve_market: parimutuel winners split the final pool
+-- =============================================
+CREATE OR REPLACE FUNCTION public.resolve_market(
+  _market_id UUID,
+  _winning_outcome TEXT,  -- 'yes', 'no', or NULL for void/refund
+  _admin_user_id UUID DEFAULT NULL,
+  _is_system BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_market RECORD;
+  v_position RECORD;
+  v_new_status TEXT;
+  v_payout NUMERIC;
+  v_won_count INT := 0;
+  v_lost_count INT := 0;
+  v_refunded_count INT := 0;
+  v_total_payout NUMERIC := 0;
+  v_action TEXT;
+  v_pool_total NUMERIC;
+  v_pool_winning NUMERIC;
+BEGIN
+  IF _winning_outcome IS NOT NULL AND _winning_outcome NOT IN ('yes', 'no') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'winning_outcome must be yes, no, or null (void)');
+  END IF;
+
+  SELECT * INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.status = 'resolved' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market already resolved');
+  END IF;
+
+  IF _winning_outcome IS NULL THEN
+    v_action := 'void';
+  ELSIF _is_system THEN
+    v_action := 'auto_resolve';
+  ELSE
+    v_action := 'manual_resolve';
+  END IF;
+
+  -- Parimutuel pools (maker seed included, as priced in place_market_bet)
+  IF v_market.pricing_mode = 'parimutuel' AND _winning_outcome IS NOT NULL THEN
+    v_pool_total := v_market.liquidity_b + v_market.total_staked_yes + v_market.total_staked_no;
+    v_pool_winning := CASE
+      WHEN _winning_outcome = 'yes' THEN v_market.liquidity_b * v_market.initial_price_yes + v_market.total_staked_yes
+      ELSE v_market.liquidity_b * (1 - v_market.initial_price_yes) + v_market.total_staked_no
+    END;
+  END IF;
+
+  FOR v_position IN
+    SELECT mp.*, mc.balance AS current_balance, mc.total_won AS current_total_won
+    FROM market_positions mp
+    JOIN market_coins mc ON mc.user_id = mp.user_id
+    WHERE mp.market_id = _market_id AND mp.status = 'pending'
+    FOR UPDATE OF mp, mc
+  LOOP
+    IF _winning_outcome IS NULL THEN
+      v_new_status := 'refunded';
+      v_payout := v_position.stake;
+      v_refunded_count := v_refunded_count + 1;
+    ELSIF v_position.outcome = _winning_outcome THEN
+      v_new_status := 'won';
+      IF v_pool_winning > 0 THEN
+        v_payout := FLOOR(v_position.net_stake * v_pool_total / v_pool_winning);
+      ELSE
+        v_payout := v_position.potential_payout;
+      END IF;
+      v_won_count := v_won_count + 1;
+    ELSE
+      v_new_status := 'lost';
+      v_payout := 0;
+      v_lost_count := v_lost_count + 1;
+    END IF;
+
+    v_total_payout := v_total_payout + v_payout;
+
+    UPDATE market_positions
+    SET status = v_new_status,
+        payout_amount = v_payout,
+        settled_at = NOW()
+    WHERE id = v_position.id;
+
+    IF v_payout > 0 THEN
+      UPDATE market_coins
+      SET balance = balance + v_payout,
+          total_won = total_won + CASE WHEN v_new_status = 'won' THEN v_payout ELSE 0 END
+      WHERE user_id = v_position.user_id;
+    END IF;
+  END LOOP;
+
+  UPDATE prediction_markets
+  SET status = 'resolved',
+      winning_outcome = _winning_outcome,
+      resolved_at = NOW()
+  WHERE id = _market_id;
+
+  INSERT INTO admin_market_audit_log (
+    admin_user_id,
+    market_id,
+    action,
+    details,
+    is_system
+  ) VALUES (
+    _admin_user_id,
+    _market_id,
+    v_action,
+    jsonb_build_object(
+      'winning_outcome', _winning_outcome,
+      'pricing_mode', v_market.pricing_mode,
+      'positions_won', v_won_count,
+      'positions_lost', v_lost_count,
+      'positions_refunded', v_refunded_count,
+      'total_payout', v_total_payout
+    ),
+    _is_system
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'market_id', _market_id,
+    'winning_outcome', _winning_outcome,
+    'positions_won', v_won_count,
+    'positions_lost', v_lost_count,
+    'positions_refunded', v_refunded_count,
+    'total_payout', v_total_payout
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM anon;
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) TO service_role;
@@ -0,0 +1,486 @@
+-- =============================================
+-- Cash-out for open prediction market positions
+-- A pending position can be sold back, in full or in part, while the market
+-- is open. The sold claim is valued at the current market price:
+--   fixed       claim × normalised implied probability of the side
+--   lmsr        C(q) − C(q − claim), the maker's exact buy-back
+--   parimutuel  the net stake leaves the pool at par
+-- less the usual 2% fee (min 1 coin).
+--
+-- Coin accounting: the part of the proceeds that hands back the sold net
+-- stake comes off total_wagered and only proceeds above it count as
+-- total_won, so a loss-cutting cash-out never shows up as winnings while
+-- total_won − total_wagered stays the realised P/L used by the leaderboard.
+-- The fee goes to total_fees_paid.
+-- Valuation math is mirrored in src/lib/marketPricing.ts.
+-- =============================================
+
+BEGIN;
+
+ALTER TABLE public.market_positions
+  ADD COLUMN IF NOT EXISTS sold_net_stake INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cashout_amount INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.market_positions.sold_net_stake IS 'Part of net_stake already cashed out';
+COMMENT ON COLUMN public.market_positions.cashout_amount IS 'Coins received from cash-outs, after fees';
+COMMENT ON COLUMN public.market_positions.potential_payout IS 'Payout if the side wins, for the part not cashed out';
+
+ALTER TABLE public.market_positions
+  DROP CONSTRAINT IF EXISTS market_positions_status_check;
+
+ALTER TABLE public.market_positions
+  ADD CONSTRAINT market_positions_status_check
+  CHECK (status IN ('pending', 'won', 'lost', 'refunded', 'cashed_out'));
+
+CREATE TABLE IF NOT EXISTS public.market_position_sales (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  position_id UUID NOT NULL REFERENCES public.market_positions(id) ON DELETE CASCADE,
+  market_id UUID NOT NULL REFERENCES public.prediction_markets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('yes', 'no')),
+  claim_sold INTEGER NOT NULL,
+  net_stake_sold INTEGER NOT NULL,
+  value INTEGER NOT NULL,
+  fee_amount INTEGER NOT NULL,
+  proceeds INTEGER NOT NULL,
+  price_yes_after NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_position_sales_market ON public.market_position_sales (market_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_market_position_sales_user ON public.market_position_sales (user_id);
+
+ALTER TABLE public.market_position_sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own position sales"
+  ON public.market_position_sales FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access (market_position_sales)"
+  ON public.market_position_sales FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+GRANT SELECT ON public.market_position_sales TO authenticated;
+
+COMMENT ON COLUMN public.market_price_history.net_stake IS 'Net stake of the fill; negative for a cash-out';
+
+COMMIT;
+
+-- =============================================
+-- market_cashout_value: gross value of a claim at the current price
+-- Internal helper for the quote and sell RPCs (no grants)
+-- =============================================
+CREATE OR REPLACE FUNCTION public.market_cashout_value(
+  _market public.prediction_markets,
+  _outcome TEXT,
+  _claim INTEGER,
+  _net_stake_sold INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_b double precision := _market.liquidity_b;
+  v_q_yes double precision;
+  v_q_no double precision;
+  v_price_yes double precision;
+  v_price double precision;
+BEGIN
+  IF _market.pricing_mode = 'parimutuel' THEN
+    RETURN _net_stake_sold;
+  END IF;
+
+  IF _market.pricing_mode = 'lmsr' THEN
+    v_q_yes := v_b * ln(_market.initial_price_yes) + _market.shares_yes;
+    v_q_no := v_b * ln(1 - _market.initial_price_yes) + _market.shares_no;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+    v_price := CASE WHEN _outcome = 'yes' THEN v_price_yes ELSE 1 - v_price_yes END;
+    -- C(q) − C(q − claim) = −b·ln(1 − p·(1 − e^(−claim/b)))
+    RETURN (-v_b * ln(1 - v_price * (1 - exp(-LEAST(700, _claim / v_b)))))::numeric;
+  END IF;
+
+  v_price_yes := (1 / _market.odds_yes) / (1 / _market.odds_yes + 1 / _market.odds_no);
+  RETURN _claim * CASE WHEN _outcome = 'yes' THEN v_price_yes ELSE 1 - v_price_yes END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.market_cashout_value(public.prediction_markets, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.market_cashout_value(public.prediction_markets, TEXT, INTEGER, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.market_cashout_value(public.prediction_markets, TEXT, INTEGER, INTEGER) FROM authenticated;
+
+-- =============================================
+-- quote_market_cashout: value a fraction of the caller's open position
+-- =============================================
+CREATE OR REPLACE FUNCTION public.quote_market_cashout(
+  _position_id UUID,
+  _fraction NUMERIC DEFAULT 1
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_position RECORD;
+  v_market public.prediction_markets;
+  v_claim INTEGER;
+  v_net_sold INTEGER;
+  v_value NUMERIC;
+  v_fee INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF _fraction IS NULL OR _fraction <= 0 OR _fraction > 1 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'fraction must be in (0, 1]');
+  END IF;
+
+  SELECT * INTO v_position FROM market_positions WHERE id = _position_id AND user_id = v_user_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Position not found');
+  END IF;
+
+  IF v_position.status != 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Position is not open');
+  END IF;
+
+  SELECT * INTO v_market FROM prediction_markets WHERE id = v_position.market_id;
+  IF v_market.status != 'open' OR v_market.closes_at < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market is not open for trading');
+  END IF;
+
+  v_claim := CASE WHEN _fraction = 1 THEN v_position.potential_payout ELSE FLOOR(v_position.potential_payout * _fraction) END;
+  v_net_sold := CASE
+    WHEN _fraction = 1 THEN v_position.net_stake - v_position.sold_net_stake
+    ELSE FLOOR((v_position.net_stake - v_position.sold_net_stake) * _fraction)
+  END;
+
+  v_value := FLOOR(public.market_cashout_value(v_market, v_position.outcome, v_claim, v_net_sold));
+  v_fee := GREATEST(1, FLOOR(v_value * 0.02));
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'position_id', _position_id,
+    'fraction', _fraction,
+    'claim', v_claim,
+    'net_stake', v_net_sold,
+    'value', v_value,
+    'fee', v_fee,
+    'proceeds', GREATEST(0, v_value - v_fee),
+    'pricing_mode', v_market.pricing_mode
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_market_cashout(UUID, NUMERIC) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.quote_market_cashout(UUID, NUMERIC) FROM anon, public;
+
+-- =============================================
+-- cash_out_market_position: atomic partial or full sell
+-- Lock order matches place_market_bet / resolve_market: market, position, coins
+-- =============================================
+CREATE OR REPLACE FUNCTION public.cash_out_market_position(
+  _position_id UUID,
+  _fraction NUMERIC DEFAULT 1
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_market_id UUID;
+  v_market public.prediction_markets;
+  v_position RECORD;
+  v_full BOOLEAN := _fraction = 1;
+  v_claim INTEGER;
+  v_net_sold INTEGER;
+  v_value INTEGER;
+  v_fee INTEGER;
+  v_proceeds INTEGER;
+  v_new_balance INTEGER;
+  v_b double precision;
+  v_q_yes double precision;
+  v_q_no double precision;
+  v_pool_yes double precision;
+  v_pool_no double precision;
+  v_price_yes double precision;
+  v_odds_yes NUMERIC;
+  v_odds_no NUMERIC;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF _fraction IS NULL OR _fraction <= 0 OR _fraction > 1 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'fraction must be in (0, 1]');
+  END IF;
+
+  SELECT market_id INTO v_market_id FROM market_positions WHERE id = _position_id AND user_id = v_user_id;
+  IF v_market_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Position not found');
+  END IF;
+
+  SELECT * INTO v_market FROM prediction_markets WHERE id = v_market_id FOR UPDATE;
+  IF v_market.status != 'open' OR v_market.winning_outcome IS NOT NULL OR v_market.closes_at < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market is not open for trading');
+  END IF;
+
+  SELECT * INTO v_position FROM market_positions WHERE id = _position_id FOR UPDATE;
+  IF v_position.status != 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Position is not open');
+  END IF;
+
+  v_claim := CASE WHEN v_full THEN v_position.potential_payout ELSE FLOOR(v_position.potential_payout * _fraction) END;
+  v_net_sold := CASE
+    WHEN v_full THEN v_position.net_stake - v_position.sold_net_stake
+    ELSE FLOOR((v_position.net_stake - v_position.sold_net_stake) * _fraction)
+  END;
+
+  v_value := FLOOR(public.market_cashout_value(v_market, v_position.outcome, v_claim, v_net_sold));
+  v_fee := GREATEST(1, FLOOR(v_value * 0.02));
+  v_proceeds := v_value - v_fee;
+
+  IF v_proceeds <= 0 OR v_claim <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Amount too small to cash out');
+  END IF;
+
+  -- Position: remaining claim and stake; fully sold positions are settled
+  UPDATE market_positions
+  SET potential_payout = potential_payout - v_claim,
+      sold_net_stake = sold_net_stake + v_net_sold,
+      cashout_amount = cashout_amount + v_proceeds,
+      status = CASE WHEN v_full THEN 'cashed_out' ELSE status END,
+      payout_amount = CASE WHEN v_full THEN cashout_amount + v_proceeds ELSE payout_amount END,
+      settled_at = CASE WHEN v_full THEN now() ELSE settled_at END
+  WHERE id = _position_id;
+
+  UPDATE market_coins
+  SET balance = balance + v_proceeds,
+      total_won = total_won + GREATEST(0, v_proceeds - v_net_sold),
+      total_wagered = total_wagered - LEAST(v_proceeds, v_net_sold),
+      total_fees_paid = total_fees_paid + v_fee,
+      updated_at = now()
+  WHERE user_id = v_user_id
+  RETURNING balance INTO v_new_balance;
+
+  -- Market: the maker buys the claim back and the price moves the other way
+  v_b := v_market.liquidity_b;
+  IF v_market.pricing_mode = 'lmsr' THEN
+    v_q_yes := v_b * ln(v_market.initial_price_yes) + v_market.shares_yes
+      - CASE WHEN v_position.outcome = 'yes' THEN v_claim ELSE 0 END;
+    v_q_no := v_b * ln(1 - v_market.initial_price_yes) + v_market.shares_no
+      - CASE WHEN v_position.outcome = 'no' THEN v_claim ELSE 0 END;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+  ELSIF v_market.pricing_mode = 'parimutuel' THEN
+    v_pool_yes := v_b * v_market.initial_price_yes + v_market.total_staked_yes
+      - CASE WHEN v_position.outcome = 'yes' THEN v_net_sold ELSE 0 END;
+    v_pool_no := v_b * (1 - v_market.initial_price_yes) + v_market.total_staked_no
+      - CASE WHEN v_position.outcome = 'no' THEN v_net_sold ELSE 0 END;
+    v_price_yes := v_pool_yes / (v_pool_yes + v_pool_no);
+  ELSE
+    v_price_yes := (1 / v_market.odds_yes) / (1 / v_market.odds_yes + 1 / v_market.odds_no);
+  END IF;
+
+  IF v_market.pricing_mode = 'fixed' THEN
+    v_odds_yes := v_market.odds_yes;
+    v_odds_no := v_market.odds_no;
+  ELSE
+    v_odds_yes := LEAST(999.99, GREATEST(1.01, ROUND((1 / v_price_yes)::numeric, 2)));
+    v_odds_no := LEAST(999.99, GREATEST(1.01, ROUND((1 / (1 - v_price_yes))::numeric, 2)));
+  END IF;
+
+  UPDATE prediction_markets
+  SET total_staked_yes = total_staked_yes - CASE WHEN v_position.outcome = 'yes' THEN v_net_sold ELSE 0 END,
+      total_staked_no = total_staked_no - CASE WHEN v_position.outcome = 'no' THEN v_net_sold ELSE 0 END,
+      shares_yes = shares_yes - CASE WHEN v_market.pricing_mode = 'lmsr' AND v_position.outcome = 'yes' THEN v_claim ELSE 0 END,
+      shares_no = shares_no - CASE WHEN v_market.pricing_mode = 'lmsr' AND v_position.outcome = 'no' THEN v_claim ELSE 0 END,
+      odds_yes = v_odds_yes,
+      odds_no = v_odds_no,
+      updated_at = now()
+  WHERE id = v_market_id;
+
+  INSERT INTO market_price_history (market_id, price_yes, odds_yes, odds_no, outcome, net_stake)
+  VALUES (v_market_id, v_price_yes, v_odds_yes, v_odds_no, v_position.outcome, -v_net_sold);
+
+  INSERT INTO market_position_sales (
+    position_id, market_id, user_id, outcome, claim_sold, net_stake_sold,
+    value, fee_amount, proceeds, price_yes_after
+  ) VALUES (
+    _position_id, v_market_id, v_user_id, v_position.outcome, v_claim, v_net_sold,
+    v_value, v_fee, v_proceeds, v_price_yes
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'position_id', _position_id,
+    'fraction', _fraction,
+    'claim', v_claim,
+    'net_stake', v_net_sold,
+    'value', v_value,
+    'fee', v_fee,
+    'proceeds', v_proceeds,
+    'remaining_payout', v_position.potential_payout - v_claim,
+    'status', CASE WHEN v_full THEN 'cashed_out' ELSE 'pending' END,
+    'new_balance', v_new_balance,
+    'price_yes', v_price_yes
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cash_out_market_position(UUID, NUMERIC) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.cash_out_market_position(UUID, NUMERIC) FROM anon, public;
+
+-- =============================================
+-- resolve_market: settle only what was not cashed out
+-- =============================================
+CREATE OR REPLACE FUNCTION public.resolve_market(
+  _market_id UUID,
+  _winning_outcome TEXT,  -- 'yes', 'no', or NULL for void/refund
+  _admin_user_id UUID DEFAULT NULL,
+  _is_system BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_market RECORD;
+  v_position RECORD;
+  v_new_status TEXT;
+  v_payout NUMERIC;
+  v_won_count INT := 0;
+  v_lost_count INT := 0;
+  v_refunded_count INT := 0;
+  v_total_payout NUMERIC := 0;
+  v_action TEXT;
+  v_pool_total NUMERIC;
+  v_pool_winning NUMERIC;
+BEGIN
+  IF _winning_outcome IS NOT NULL AND _winning_outcome NOT IN ('yes', 'no') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'winning_outcome must be yes, no, or null (void)');
+  END IF;
+
+  SELECT * INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.status = 'resolved' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market already resolved');
+  END IF;
+
+  IF _winning_outcome IS NULL THEN
+    v_action := 'void';
+  ELSIF _is_system THEN
+    v_action := 'auto_resolve';
+  ELSE
+    v_action := 'manual_resolve';
+  END IF;
+
+  -- Parimutuel pools (maker seed included; cash-outs already left the pool)
+  IF v_market.pricing_mode = 'parimutuel' AND _winning_outcome IS NOT NULL THEN
+    v_pool_total := v_market.liquidity_b + v_market.total_staked_yes + v_market.total_staked_no;
+    v_pool_winning := CASE
+      WHEN _winning_outcome = 'yes' THEN v_market.liquidity_b * v_market.initial_price_yes + v_market.total_staked_yes
+      ELSE v_market.liquidity_b * (1 - v_market.initial_price_yes) + v_market.total_staked_no
+    END;
+  END IF;
+
+  FOR v_position IN
+    SELECT mp.*, mc.balance AS current_balance, mc.total_won AS current_total_won
+    FROM market_positions mp
+    JOIN market_coins mc ON mc.user_id = mp.user_id
+    WHERE mp.market_id = _market_id AND mp.status = 'pending'
+    FOR UPDATE OF mp, mc
+  LOOP
+    IF _winning_outcome IS NULL THEN
+      -- Void: refund the stake still in play
+      v_new_status := 'refunded';
+      v_payout := FLOOR(v_position.stake::numeric * (v_position.net_stake - v_position.sold_net_stake) / v_position.net_stake);
+      v_refunded_count := v_refunded_count + 1;
+    ELSIF v_position.outcome = _winning_outcome THEN
+      v_new_status := 'won';
+      IF v_pool_winning > 0 THEN
+        v_payout := FLOOR((v_position.net_stake - v_position.sold_net_stake) * v_pool_total / v_pool_winning);
+      ELSE
+        v_payout := v_position.potential_payout;
+      END IF;
+      v_won_count := v_won_count + 1;
+    ELSE
+      v_new_status := 'lost';
+      v_payout := 0;
+      v_lost_count := v_lost_count + 1;
+    END IF;
+
+    v_total_payout := v_total_payout + v_payout;
+
+    UPDATE market_positions
+    SET status = v_new_status,
+        payout_amount = v_payout,
+        settled_at = NOW()
+    WHERE id = v_position.id;
+
+    IF v_payout > 0 THEN
+      UPDATE market_coins
+      SET balance = balance + v_payout,
+          total_won = total_won + CASE WHEN v_new_status = 'won' THEN v_payout ELSE 0 END
+      WHERE user_id = v_position.user_id;
+    END IF;
+  END LOOP;
+
+  UPDATE prediction_markets
+  SET status = 'resolved',
+      winning_outcome = _winning_outcome,
+      resolved_at = NOW()
+  WHERE id = _market_id;
+
+  INSERT INTO admin_market_audit_log (
+    admin_user_id,
+    market_id,
+    action,
+    details,
+    is_system
+  ) VALUES (
+    _admin_user_id,
+    _market_id,
+    v_action,
+    jsonb_build_object(
+      'winning_outcome', _winning_outcome,
+      'pricing_mode', v_market.pricing_mode,
+      'positions_won', v_won_count,
+      'positions_lost', v_lost_count,
+      'positions_refunded', v_refunded_count,
+      'total_payout', v_total_payout
+    ),
+    _is_system
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'market_id', _market_id,
+    'winning_outcome', _winning_outcome,
+    'positions_won', v_won_count,
+    'positions_lost', v_lost_count,
+    'positions_refunded', v_refunded_count,
+    'total_payout', v_total_payout
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM anon;
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) TO service_role;
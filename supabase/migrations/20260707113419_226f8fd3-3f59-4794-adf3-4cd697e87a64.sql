@@ -0,0 +1,890 @@
+-- =============================================
+-- Multi-outcome prediction markets
+-- market_type = 'multi' markets have N outcomes in market_outcomes instead of
+-- YES/NO: 1X2, correct score buckets, first team to score, and total
+-- goals / corners / cards in a range. Each outcome carries its own odds,
+-- LMSR shares and parimutuel pool; the binary columns on prediction_markets
+-- (odds_yes/no, shares_yes/no, total_staked_yes/no) are unused for them.
+--
+-- Pricing is the binary math over N outcomes (src/lib/marketPricing.ts):
+--   lmsr        C(q) = b·ln Σ e^(q_i/b), q_i = b·ln(p0_i) + shares_i
+--   parimutuel  pool_i = b·p0_i + staked_i, odds_i = Σ pool / pool_i
+--
+-- Settlement: resolve_market takes the winning outcome key. Fixture-linked
+-- multi markets are settled by market-auto-resolve (rules in
+-- supabase/functions/_shared/market_outcomes.ts); auto_resolve_markets()
+-- only knows the binary rules and skips them.
+-- Cash-out stays binary-only for now.
+-- =============================================
+
+BEGIN;
+
+ALTER TABLE public.prediction_markets
+  DROP CONSTRAINT IF EXISTS prediction_markets_market_type_check;
+
+ALTER TABLE public.prediction_markets
+  ADD CONSTRAINT prediction_markets_market_type_check
+  CHECK (market_type IN ('binary', 'multi'));
+
+-- Outcome keys are validated by resolve_market / place_market_bet
+ALTER TABLE public.prediction_markets
+  DROP CONSTRAINT IF EXISTS prediction_markets_winning_outcome_check;
+
+ALTER TABLE public.market_positions
+  DROP CONSTRAINT IF EXISTS market_positions_outcome_check;
+
+COMMENT ON COLUMN public.prediction_markets.market_type IS 'binary (YES/NO) or multi (outcomes in market_outcomes)';
+COMMENT ON COLUMN public.market_positions.outcome IS 'yes/no, or a market_outcomes.outcome key for multi markets';
+
+-- First scorer for first_goal_team markets, from the live event feed
+ALTER TABLE public.live_fixture_states
+  ADD COLUMN IF NOT EXISTS first_goal_team TEXT CHECK (first_goal_team IN ('home', 'away'));
+
+CREATE TABLE IF NOT EXISTS public.market_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES public.prediction_markets(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome ~ '^[a-z0-9+-]{1,16}$'),
+  label TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Inclusive bucket bounds for *_range rules; NULL max is open-ended
+  range_min INTEGER,
+  range_max INTEGER,
+  odds DECIMAL(5,2) NOT NULL CHECK (odds >= 1.01),
+  initial_price NUMERIC NOT NULL CHECK (initial_price > 0 AND initial_price < 1),
+  shares NUMERIC NOT NULL DEFAULT 0,
+  total_staked INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (market_id, outcome),
+  CHECK (range_max IS NULL OR range_min IS NULL OR range_max >= range_min)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_outcomes_market ON public.market_outcomes (market_id, sort_order);
+
+COMMENT ON COLUMN public.market_outcomes.initial_price IS 'Opening price (0..1) from the admin odds, normalised over the outcomes';
+COMMENT ON COLUMN public.market_outcomes.shares IS 'LMSR shares sold on this outcome (each pays 1 coin if it wins)';
+COMMENT ON COLUMN public.market_outcomes.total_staked IS 'Net stake on this outcome; the parimutuel pool with the maker seed';
+
+ALTER TABLE public.market_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Market outcomes are viewable by everyone"
+  ON public.market_outcomes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (market_outcomes)"
+  ON public.market_outcomes FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMIT;
+
+-- =============================================
+-- market_outcome_prices: current price of every outcome (sums to 1)
+-- Internal helper for place_market_bet (no grants)
+-- =============================================
+CREATE OR REPLACE FUNCTION public.market_outcome_prices(
+  _market_id UUID,
+  _pricing_mode TEXT,
+  _b DOUBLE PRECISION
+)
+RETURNS TABLE (outcome TEXT, price DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT mo.outcome,
+      CASE
+        WHEN _pricing_mode = 'lmsr' THEN _b * ln(mo.initial_price) + mo.shares
+        WHEN _pricing_mode = 'parimutuel' THEN _b * mo.initial_price + mo.total_staked
+        ELSE 1 / mo.odds
+      END::double precision AS v
+    FROM market_outcomes mo
+    WHERE mo.market_id = _market_id
+  ), w AS (
+    -- LMSR: softmax of q/b, shifted by the max so exp() stays in range
+    SELECT q.outcome,
+      CASE WHEN _pricing_mode = 'lmsr' THEN exp(GREATEST(-700, (q.v - MAX(q.v) OVER ()) / _b)) ELSE q.v END AS weight
+    FROM q
+  )
+  SELECT w.outcome, w.weight / SUM(w.weight) OVER ()
+  FROM w;
+$$;
+
+REVOKE ALL ON FUNCTION public.market_outcome_prices(UUID, TEXT, DOUBLE PRECISION) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.market_outcome_prices(UUID, TEXT, DOUBLE PRECISION) FROM anon;
+REVOKE ALL ON FUNCTION public.market_outcome_prices(UUID, TEXT, DOUBLE PRECISION) FROM authenticated;
+
+-- =============================================
+-- place_market_bet: multi-outcome fills
+-- market_outcomes rows are only written under the market row lock
+-- =============================================
+DROP FUNCTION IF EXISTS place_market_bet(uuid, text, integer);
+
+CREATE FUNCTION place_market_bet(
+  _market_id uuid,
+  _outcome text,
+  _stake integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_market record;
+  v_is_multi boolean;
+  v_balance integer;
+  v_fee integer;
+  v_net_stake integer;
+  v_odds numeric;
+  v_potential_payout integer;
+  v_position_id uuid;
+  v_new_balance integer;
+  -- Market maker state
+  v_b double precision;
+  v_q_yes double precision;
+  v_q_no double precision;
+  v_price double precision;
+  v_shares double precision := 0;
+  v_pool_yes double precision;
+  v_pool_no double precision;
+  v_pool_total double precision;
+  v_pool_side double precision;
+  v_price_yes double precision;
+  v_odds_yes numeric;
+  v_odds_no numeric;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Lock market row and validate; the price below is computed under this lock
+  SELECT id, status, market_type, odds_yes, odds_no, closes_at, winning_outcome,
+         pricing_mode, liquidity_b, initial_price_yes, shares_yes, shares_no,
+         total_staked_yes, total_staked_no
+  INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF v_market IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.status != 'open' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market is not open for betting');
+  END IF;
+
+  IF v_market.winning_outcome IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market has already been resolved');
+  END IF;
+
+  IF v_market.closes_at < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market has closed');
+  END IF;
+
+  v_is_multi := v_market.market_type = 'multi';
+
+  IF v_is_multi THEN
+    IF NOT EXISTS (SELECT 1 FROM market_outcomes WHERE market_id = _market_id AND outcome = _outcome) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'Invalid outcome');
+    END IF;
+  ELSIF _outcome NOT IN ('yes', 'no') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Invalid outcome');
+  END IF;
+
+  IF _stake < 10 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Minimum stake is 10 coins');
+  END IF;
+
+  INSERT INTO market_coins (user_id, balance, total_wagered, total_fees_paid)
+  VALUES (v_user_id, 1000, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO v_balance
+  FROM market_coins
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_balance < _stake THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Insufficient balance');
+  END IF;
+
+  -- Calculate fee (2%, min 1 coin)
+  v_fee := GREATEST(1, FLOOR(_stake * 0.02));
+  v_net_stake := _stake - v_fee;
+
+  v_b := v_market.liquidity_b;
+
+  IF v_is_multi THEN
+    IF v_market.pricing_mode = 'lmsr' THEN
+      SELECT p.price INTO v_price
+      FROM market_outcome_prices(_market_id, 'lmsr', v_b) p
+      WHERE p.outcome = _outcome;
+
+      v_shares := v_net_stake - v_b * ln(v_price)
+        + v_b * ln(1 - (1 - v_price) * exp(-LEAST(700, v_net_stake / v_b)));
+      v_potential_payout := FLOOR(v_shares);
+      v_odds := LEAST(999.99, ROUND((v_shares / v_net_stake)::numeric, 2));
+
+    ELSIF v_market.pricing_mode = 'parimutuel' THEN
+      SELECT SUM(v_b * initial_price + total_staked) + v_net_stake,
+             SUM(CASE WHEN outcome = _outcome THEN v_b * initial_price + total_staked ELSE 0 END) + v_net_stake
+      INTO v_pool_total, v_pool_side
+      FROM market_outcomes
+      WHERE market_id = _market_id;
+
+      v_odds := LEAST(999.99, GREATEST(1.01, ROUND((v_pool_total / v_pool_side)::numeric, 2)));
+      v_potential_payout := FLOOR(v_net_stake * v_odds);
+
+    ELSE
+      SELECT odds INTO v_odds FROM market_outcomes WHERE market_id = _market_id AND outcome = _outcome;
+      v_potential_payout := FLOOR(v_net_stake * v_odds);
+    END IF;
+
+  ELSIF v_market.pricing_mode = 'lmsr' THEN
+    -- q includes the opening offset b·ln(p0); price p_yes = 1 / (1 + e^((q_no - q_yes) / b))
+    v_q_yes := v_b * ln(v_market.initial_price_yes) + v_market.shares_yes;
+    v_q_no := v_b * ln(1 - v_market.initial_price_yes) + v_market.shares_no;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+    v_price := CASE WHEN _outcome = 'yes' THEN v_price_yes ELSE 1 - v_price_yes END;
+
+    -- Shares for the net stake: x = c - b·ln p + b·ln(1 - (1 - p)·e^(-c/b))
+    v_shares := v_net_stake - v_b * ln(v_price)
+      + v_b * ln(1 - (1 - v_price) * exp(-LEAST(700, v_net_stake / v_b)));
+
+    IF _outcome = 'yes' THEN
+      v_q_yes := v_q_yes + v_shares;
+    ELSE
+      v_q_no := v_q_no + v_shares;
+    END IF;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+
+    v_potential_payout := FLOOR(v_shares);
+    v_odds := LEAST(999.99, ROUND((v_shares / v_net_stake)::numeric, 2));
+
+  ELSIF v_market.pricing_mode = 'parimutuel' THEN
+    -- Pools include the maker seed split at the opening price
+    v_pool_yes := v_b * v_market.initial_price_yes + v_market.total_staked_yes
+      + CASE WHEN _outcome = 'yes' THEN v_net_stake ELSE 0 END;
+    v_pool_no := v_b * (1 - v_market.initial_price_yes) + v_market.total_staked_no
+      + CASE WHEN _outcome = 'no' THEN v_net_stake ELSE 0 END;
+    v_price_yes := v_pool_yes / (v_pool_yes + v_pool_no);
+
+    -- Estimate at the pool after this bet; resolve_market pays the final share
+    v_odds := LEAST(999.99, GREATEST(1.01, ROUND(
+      ((v_pool_yes + v_pool_no) / CASE WHEN _outcome = 'yes' THEN v_pool_yes ELSE v_pool_no END)::numeric, 2)));
+    v_potential_payout := FLOOR(v_net_stake * v_odds);
+
+  ELSE
+    v_odds := CASE WHEN _outcome = 'yes' THEN v_market.odds_yes ELSE v_market.odds_no END;
+    v_potential_payout := FLOOR(v_net_stake * v_odds);
+  END IF;
+
+  UPDATE market_coins
+  SET
+    balance = balance - _stake,
+    total_wagered = total_wagered + v_net_stake,
+    total_fees_paid = total_fees_paid + v_fee
+  WHERE user_id = v_user_id
+  RETURNING balance INTO v_new_balance;
+
+  INSERT INTO market_positions (
+    user_id, market_id, outcome, stake, fee_amount, net_stake,
+    odds_at_placement, potential_payout, status
+  )
+  VALUES (
+    v_user_id, _market_id, _outcome, _stake, v_fee, v_net_stake,
+    v_odds, v_potential_payout, 'pending'
+  )
+  RETURNING id INTO v_position_id;
+
+  IF v_is_multi THEN
+    UPDATE market_outcomes
+    SET total_staked = total_staked + v_net_stake,
+        shares = shares + v_shares,
+        updated_at = now()
+    WHERE market_id = _market_id AND outcome = _outcome;
+
+    -- Quoted odds of every outcome follow the new prices
+    IF v_market.pricing_mode != 'fixed' THEN
+      UPDATE market_outcomes mo
+      SET odds = LEAST(999.99, GREATEST(1.01, ROUND((1 / p.price)::numeric, 2))),
+          updated_at = now()
+      FROM market_outcome_prices(_market_id, v_market.pricing_mode, v_b) p
+      WHERE mo.market_id = _market_id AND mo.outcome = p.outcome;
+    END IF;
+
+    SELECT p.price INTO v_price
+    FROM market_outcome_prices(_market_id, v_market.pricing_mode, v_b) p
+    WHERE p.outcome = _outcome;
+
+    UPDATE prediction_markets SET updated_at = now() WHERE id = _market_id;
+
+    RETURN jsonb_build_object(
+      'ok', true,
+      'position_id', v_position_id,
+      'stake', _stake,
+      'fee', v_fee,
+      'net_stake', v_net_stake,
+      'odds', v_odds,
+      'potential_payout', v_potential_payout,
+      'new_balance', v_new_balance,
+      'pricing_mode', v_market.pricing_mode,
+      'outcome_price', v_price
+    );
+  END IF;
+
+  IF v_market.pricing_mode = 'fixed' THEN
+    v_odds_yes := v_market.odds_yes;
+    v_odds_no := v_market.odds_no;
+    v_price_yes := (1 / v_odds_yes) / (1 / v_odds_yes + 1 / v_odds_no);
+  ELSE
+    -- Quoted odds follow the new price
+    v_odds_yes := LEAST(999.99, GREATEST(1.01, ROUND((1 / v_price_yes)::numeric, 2)));
+    v_odds_no := LEAST(999.99, GREATEST(1.01, ROUND((1 / (1 - v_price_yes))::numeric, 2)));
+  END IF;
+
+  UPDATE prediction_markets
+  SET
+    total_staked_yes = total_staked_yes + CASE WHEN _outcome = 'yes' THEN v_net_stake ELSE 0 END,
+    total_staked_no = total_staked_no + CASE WHEN _outcome = 'no' THEN v_net_stake ELSE 0 END,
+    shares_yes = shares_yes + CASE WHEN _outcome = 'yes' THEN v_shares ELSE 0 END,
+    shares_no = shares_no + CASE WHEN _outcome = 'no' THEN v_shares ELSE 0 END,
+    odds_yes = v_odds_yes,
+    odds_no = v_odds_no,
+    updated_at = now()
+  WHERE id = _market_id;
+
+  INSERT INTO market_price_history (market_id, price_yes, odds_yes, odds_no, outcome, net_stake)
+  VALUES (_market_id, v_price_yes, v_odds_yes, v_odds_no, _outcome, v_net_stake);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'position_id', v_position_id,
+    'stake', _stake,
+    'fee', v_fee,
+    'net_stake', v_net_stake,
+    'odds', v_odds,
+    'potential_payout', v_potential_payout,
+    'new_balance', v_new_balance,
+    'pricing_mode', v_market.pricing_mode,
+    'price_yes', v_price_yes
+  );
+
+EXCEPTION WHEN unique_violation THEN
+  RETURN jsonb_build_object('ok', false, 'error', 'You already have a position on this market');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_market_bet(uuid, text, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION place_market_bet(uuid, text, integer) FROM anon, public;
+
+-- =============================================
+-- resolve_market: winning outcome key for multi markets
+-- =============================================
+CREATE OR REPLACE FUNCTION public.resolve_market(
+  _market_id UUID,
+  _winning_outcome TEXT,  -- 'yes' / 'no' (binary), an outcome key (multi), or NULL for void/refund
+  _admin_user_id UUID DEFAULT NULL,
+  _is_system BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_market RECORD;
+  v_position RECORD;
+  v_new_status TEXT;
+  v_payout NUMERIC;
+  v_won_count INT := 0;
+  v_lost_count INT := 0;
+  v_refunded_count INT := 0;
+  v_total_payout NUMERIC := 0;
+  v_action TEXT;
+  v_pool_total NUMERIC;
+  v_pool_winning NUMERIC;
+BEGIN
+  SELECT * INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.market_type = 'multi' THEN
+    IF _winning_outcome IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM market_outcomes WHERE market_id = _market_id AND outcome = _winning_outcome
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'winning_outcome must be one of the market outcomes, or null (void)');
+    END IF;
+  ELSIF _winning_outcome IS NOT NULL AND _winning_outcome NOT IN ('yes', 'no') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'winning_outcome must be yes, no, or null (void)');
+  END IF;
+
+  IF v_market.status = 'resolved' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market already resolved');
+  END IF;
+
+  IF _winning_outcome IS NULL THEN
+    v_action := 'void';
+  ELSIF _is_system THEN
+    v_action := 'auto_resolve';
+  ELSE
+    v_action := 'manual_resolve';
+  END IF;
+
+  -- Parimutuel pools (maker seed included; cash-outs already left the pool)
+  IF v_market.pricing_mode = 'parimutuel' AND _winning_outcome IS NOT NULL THEN
+    IF v_market.market_type = 'multi' THEN
+      SELECT v_market.liquidity_b + SUM(total_staked),
+             SUM(CASE WHEN outcome = _winning_outcome THEN v_market.liquidity_b * initial_price + total_staked ELSE 0 END)
+      INTO v_pool_total, v_pool_winning
+      FROM market_outcomes
+      WHERE market_id = _market_id;
+    ELSE
+      v_pool_total := v_market.liquidity_b + v_market.total_staked_yes + v_market.total_staked_no;
+      v_pool_winning := CASE
+        WHEN _winning_outcome = 'yes' THEN v_market.liquidity_b * v_market.initial_price_yes + v_market.total_staked_yes
+        ELSE v_market.liquidity_b * (1 - v_market.initial_price_yes) + v_market.total_staked_no
+      END;
+    END IF;
+  END IF;
+
+  FOR v_position IN
+    SELECT mp.*, mc.balance AS current_balance, mc.total_won AS current_total_won
+    FROM market_positions mp
+    JOIN market_coins mc ON mc.user_id = mp.user_id
+    WHERE mp.market_id = _market_id AND mp.status = 'pending'
+    FOR UPDATE OF mp, mc
+  LOOP
+    IF _winning_outcome IS NULL THEN
+      -- Void: refund the stake still in play
+      v_new_status := 'refunded';
+      v_payout := FLOOR(v_position.stake::numeric * (v_position.net_stake - v_position.sold_net_stake) / v_position.net_stake);
+      v_refunded_count := v_refunded_count + 1;
+    ELSIF v_position.outcome = _winning_outcome THEN
+      v_new_status := 'won';
+      IF v_pool_winning > 0 THEN
+        v_payout := FLOOR((v_position.net_stake - v_position.sold_net_stake) * v_pool_total / v_pool_winning);
+      ELSE
+        v_payout := v_position.potential_payout;
+      END IF;
+      v_won_count := v_won_count + 1;
+    ELSE
+      v_new_status := 'lost';
+      v_payout := 0;
+      v_lost_count := v_lost_count + 1;
+    END IF;
+
+    v_total_payout := v_total_payout + v_payout;
+
+    UPDATE market_positions
+    SET status = v_new_status,
+        payout_amount = v_payout,
+        settled_at = NOW()
+    WHERE id = v_position.id;
+
+    IF v_payout > 0 THEN
+      UPDATE market_coins
+      SET balance = balance + v_payout,
+          total_won = total_won + CASE WHEN v_new_status = 'won' THEN v_payout ELSE 0 END
+      WHERE user_id = v_position.user_id;
+    END IF;
+  END LOOP;
+
+  UPDATE prediction_markets
+  SET status = 'resolved',
+      winning_outcome = _winning_outcome,
+      resolved_at = NOW()
+  WHERE id = _market_id;
+
+  INSERT INTO admin_market_audit_log (
+    admin_user_id,
+    market_id,
+    action,
+    details,
+    is_system
+  ) VALUES (
+    _admin_user_id,
+    _market_id,
+    v_action,
+    jsonb_build_object(
+      'winning_outcome', _winning_outcome,
+      'market_type', v_market.market_type,
+      'pricing_mode', v_market.pricing_mode,
+      'positions_won', v_won_count,
+      'positions_lost', v_lost_count,
+      'positions_refunded', v_refunded_count,
+      'total_payout', v_total_payout
+    ),
+    _is_system
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'market_id', _market_id,
+    'winning_outcome', _winning_outcome,
+    'positions_won', v_won_count,
+    'positions_lost', v_lost_count,
+    'positions_refunded', v_refunded_count,
+    'total_payout', v_total_payout
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM anon;
+REVOKE ALL ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_market(UUID, TEXT, UUID, BOOLEAN) TO service_role;
+
+-- =============================================
+-- market_cashout_value: binary markets only
+-- =============================================
+CREATE OR REPLACE FUNCTION public.market_cashout_value(
+  _market public.prediction_markets,
+  _outcome TEXT,
+  _claim INTEGER,
+  _net_stake_sold INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_b double precision := _market.liquidity_b;
+  v_q_yes double precision;
+  v_q_no double precision;
+  v_price_yes double precision;
+  v_price double precision;
+BEGIN
+  IF _market.market_type = 'multi' THEN
+    RAISE EXCEPTION 'Cash-out is not available for multi-outcome markets';
+  END IF;
+
+  IF _market.pricing_mode = 'parimutuel' THEN
+    RETURN _net_stake_sold;
+  END IF;
+
+  IF _market.pricing_mode = 'lmsr' THEN
+    v_q_yes := v_b * ln(_market.initial_price_yes) + _market.shares_yes;
+    v_q_no := v_b * ln(1 - _market.initial_price_yes) + _market.shares_no;
+    v_price_yes := 1 / (1 + exp(LEAST(700, GREATEST(-700, (v_q_no - v_q_yes) / v_b))));
+    v_price := CASE WHEN _outcome = 'yes' THEN v_price_yes ELSE 1 - v_price_yes END;
+    -- C(q) − C(q − claim) = −b·ln(1 − p·(1 − e^(−claim/b)))
+    RETURN (-v_b * ln(1 - v_price * (1 - exp(-LEAST(700, _claim / v_b)))))::numeric;
+  END IF;
+
+  v_price_yes := (1 / _market.odds_yes) / (1 / _market.odds_yes + 1 / _market.odds_no);
+  RETURN _claim * CASE WHEN _outcome = 'yes' THEN v_price_yes ELSE 1 - v_price_yes END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.market_cashout_value(public.prediction_markets, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.market_cashout_value(public.prediction_markets, TEXT, INTEGER, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.market_cashout_value(public.prediction_markets, TEXT, INTEGER, INTEGER) FROM authenticated;
+
+-- =============================================
+-- get_market_aggregates: per-outcome counts for the N-way distribution
+-- =============================================
+CREATE OR REPLACE FUNCTION public.get_market_aggregates(_market_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'total_positions', COUNT(*),
+    'yes_positions', COUNT(*) FILTER (WHERE outcome = 'yes'),
+    'no_positions', COUNT(*) FILTER (WHERE outcome = 'no'),
+    'yes_stake', COALESCE(SUM(net_stake) FILTER (WHERE outcome = 'yes'), 0),
+    'no_stake', COALESCE(SUM(net_stake) FILTER (WHERE outcome = 'no'), 0),
+    'total_pool', COALESCE(SUM(net_stake), 0),
+    'unique_traders', COUNT(DISTINCT user_id),
+    'by_outcome', COALESCE((
+      SELECT json_object_agg(o.outcome, json_build_object('positions', o.positions, 'stake', o.stake))
+      FROM (
+        SELECT outcome, COUNT(*) AS positions, SUM(net_stake) AS stake
+        FROM public.market_positions
+        WHERE market_id = _market_id
+        GROUP BY outcome
+      ) o
+    ), '{}'::json)
+  )
+  FROM public.market_positions
+  WHERE market_id = _market_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_market_aggregates(UUID) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_market_aggregates(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_market_aggregates(UUID) FROM public;
+
+-- =============================================
+-- admin_create_multi_market_for_fixture
+-- _outcomes: [{ outcome, label, odds, range_min?, range_max? }, ...]
+-- =============================================
+CREATE OR REPLACE FUNCTION public.admin_create_multi_market_for_fixture(
+  _fixture_id bigint,
+  _resolution_rule text,
+  _outcomes jsonb,
+  _pricing_mode text DEFAULT 'fixed',
+  _liquidity_b numeric DEFAULT NULL,
+  _close_minutes_before_kickoff int DEFAULT 5,
+  _title_override text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_rule text := lower(coalesce(_resolution_rule, ''));
+  v_home_name text;
+  v_away_name text;
+  v_kickoff_at timestamptz;
+  v_closes_at timestamptz;
+  v_title text;
+  v_description text;
+  v_status text;
+  v_market_id uuid;
+  v_is_admin boolean := false;
+  v_count int;
+  v_inverse_sum numeric;
+BEGIN
+  -- Admin check (DB role)
+  SELECT public.has_role(auth.uid(), 'admin'::app_role) INTO v_is_admin;
+  IF NOT coalesce(v_is_admin,false) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Admin access required');
+  END IF;
+
+  -- Validate
+  IF _fixture_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'fixture_id is required');
+  END IF;
+
+  IF _close_minutes_before_kickoff IS NULL OR _close_minutes_before_kickoff < 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'close_minutes_before_kickoff must be >= 0');
+  END IF;
+
+  IF v_rule NOT IN (
+    'match_result','correct_score','first_goal_team',
+    'total_goals_range','total_corners_range','total_cards_range'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Unsupported resolution_rule');
+  END IF;
+
+  IF coalesce(_pricing_mode, '') NOT IN ('fixed', 'lmsr', 'parimutuel') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'pricing_mode must be fixed, lmsr or parimutuel');
+  END IF;
+
+  IF _pricing_mode != 'fixed' AND (_liquidity_b IS NULL OR _liquidity_b < 50 OR _liquidity_b > 100000) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'liquidity_b must be between 50 and 100000');
+  END IF;
+
+  IF jsonb_typeof(_outcomes) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'outcomes must be an array');
+  END IF;
+
+  v_count := jsonb_array_length(_outcomes);
+  IF v_count < 2 OR v_count > 20 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'A market needs between 2 and 20 outcomes');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_outcomes) o
+    WHERE coalesce(o->>'outcome', '') !~ '^[a-z0-9+-]{1,16}$'
+       OR btrim(coalesce(o->>'label', '')) = ''
+       OR (o->>'odds') IS NULL
+       OR (o->>'odds')::numeric < 1.01
+       OR (o->>'odds')::numeric > 999.99
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Each outcome needs a key (a-z, 0-9, + or -), a label and odds between 1.01 and 999.99');
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT o->>'outcome') FROM jsonb_array_elements(_outcomes) o) != v_count THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Outcome keys must be unique');
+  END IF;
+
+  IF v_rule LIKE '%\_range' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_outcomes) o WHERE (o->>'range_min') IS NULL
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Range outcomes need range_min');
+  END IF;
+
+  -- Load fixture
+  SELECT f.id, f."timestamp", f.league_id, f.teams_home, f.teams_away
+    INTO v_fixture
+  FROM public.fixtures f
+  WHERE f.id = _fixture_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Fixture not found');
+  END IF;
+
+  v_home_name := coalesce(nullif(trim(coalesce(v_fixture.teams_home->>'name','')), ''), 'Home');
+  v_away_name := coalesce(nullif(trim(coalesce(v_fixture.teams_away->>'name','')), ''), 'Away');
+  v_kickoff_at := to_timestamp(v_fixture."timestamp"::double precision);
+
+  -- Prevent duplicates (fixture_id + resolution_rule)
+  IF EXISTS (
+    SELECT 1
+    FROM public.prediction_markets pm
+    WHERE pm.fixture_id = _fixture_id
+      AND lower(coalesce(pm.resolution_rule,'')) = v_rule
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market already exists for this fixture + rule');
+  END IF;
+
+  v_closes_at := v_kickoff_at - (_close_minutes_before_kickoff * INTERVAL '1 minute');
+  v_status := CASE WHEN v_closes_at > now() THEN 'open' ELSE 'closed' END;
+
+  IF _title_override IS NOT NULL AND btrim(_title_override) <> '' THEN
+    v_title := btrim(_title_override);
+  ELSE
+    v_title := v_home_name || ' vs ' || v_away_name;
+  END IF;
+
+  CASE v_rule
+    WHEN 'match_result'        THEN v_title := v_title || ' - 1X2';                 v_description := 'Full-time result: ' || v_home_name || ', draw or ' || v_away_name || '.';
+    WHEN 'correct_score'       THEN v_title := v_title || ' - Correct Score';       v_description := 'Exact full-time score.';
+    WHEN 'first_goal_team'     THEN v_title := v_title || ' - First Team to Score'; v_description := 'Which team scores the first goal, or no goal at all.';
+    WHEN 'total_goals_range'   THEN v_title := v_title || ' - Total Goals';         v_description := 'Total goals scored in the match.';
+    WHEN 'total_corners_range' THEN v_title := v_title || ' - Total Corners';       v_description := 'Total corners taken in the match.';
+    WHEN 'total_cards_range'   THEN v_title := v_title || ' - Total Cards';         v_description := 'Total cards shown in the match.';
+  END CASE;
+
+  -- Placeholder binary odds; outcome prices live in market_outcomes
+  INSERT INTO public.prediction_markets (
+    title,
+    description,
+    category,
+    market_type,
+    fixture_id,
+    resolution_rule,
+    closes_at,
+    created_by,
+    odds_yes,
+    odds_no,
+    pricing_mode,
+    liquidity_b,
+    total_staked_yes,
+    total_staked_no,
+    status
+  ) VALUES (
+    v_title,
+    v_description,
+    'football',
+    'multi',
+    _fixture_id,
+    v_rule,
+    v_closes_at,
+    auth.uid(),
+    2.00,
+    2.00,
+    _pricing_mode,
+    CASE WHEN _pricing_mode = 'fixed' THEN NULL ELSE _liquidity_b END,
+    0,
+    0,
+    v_status
+  )
+  RETURNING id INTO v_market_id;
+
+  -- Opening prices without the overround; market-maker modes quote fair odds from them
+  SELECT SUM(1 / (o->>'odds')::numeric) INTO v_inverse_sum FROM jsonb_array_elements(_outcomes) o;
+
+  INSERT INTO public.market_outcomes (market_id, outcome, label, sort_order, range_min, range_max, odds, initial_price)
+  SELECT
+    v_market_id,
+    o.value->>'outcome',
+    btrim(o.value->>'label'),
+    o.ordinality - 1,
+    (o.value->>'range_min')::int,
+    (o.value->>'range_max')::int,
+    CASE WHEN _pricing_mode = 'fixed' THEN (o.value->>'odds')::numeric
+         ELSE LEAST(999.99, GREATEST(1.01, ROUND(v_inverse_sum * (o.value->>'odds')::numeric, 2))) END,
+    LEAST(0.99, GREATEST(0.001, (1 / (o.value->>'odds')::numeric) / v_inverse_sum))
+  FROM jsonb_array_elements(_outcomes) WITH ORDINALITY AS o(value, ordinality);
+
+  INSERT INTO public.admin_market_audit_log (
+    admin_user_id,
+    market_id,
+    action,
+    is_system,
+    details
+  ) VALUES (
+    auth.uid(),
+    v_market_id,
+    'create',
+    false,
+    jsonb_build_object(
+      'source', 'fixture_dashboard',
+      'fixture_id', _fixture_id,
+      'resolution_rule', v_rule,
+      'market_type', 'multi',
+      'outcomes', _outcomes,
+      'pricing_mode', _pricing_mode,
+      'liquidity_b', _liquidity_b,
+      'closes_at', v_closes_at,
+      'home_team', v_home_name,
+      'away_team', v_away_name,
+      'kickoff_at', v_kickoff_at
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'market_id', v_market_id,
+    'title', v_title,
+    'status', v_status,
+    'closes_at', v_closes_at
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_create_multi_market_for_fixture(bigint,text,jsonb,text,numeric,int,text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.admin_create_multi_market_for_fixture(bigint,text,jsonb,text,numeric,int,text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_create_multi_market_for_fixture(bigint,text,jsonb,text,numeric,int,text) TO authenticated;
+
+-- =============================================
+-- Settle multi markets every 10 minutes via market-auto-resolve
+-- (auto_resolve_markets() keeps handling the binary rules)
+-- =============================================
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'market-auto-resolve-edge-10m'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'market-auto-resolve-edge-10m',
+    '*/10 * * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/market-auto-resolve',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{"scope": "multi"}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
@@ -0,0 +1,261 @@
+-- =============================================
+-- Scheduled market generator
+-- market_generator_configs describes a set of binary fixture markets
+-- (resolution rules) to create for every upcoming fixture in a list of
+-- leagues within the next N hours. The market-generator edge function runs
+-- every enabled config hourly:
+--   1. loads the fixtures in the window
+--   2. prices each rule from our stat model or best_outcome_prices
+--      (supabase/functions/_shared/market_generator.ts)
+--   3. calls generate_fixture_market once per fixture + rule
+--
+-- generate_fixture_market is the service-role twin of
+-- admin_create_market_for_fixture: same rules, titles and duplicate check
+-- (fixture + rule, any status), pricing taken from the config, and a
+-- system 'create' entry in admin_market_audit_log for every market.
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.market_generator_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  league_ids INTEGER[] NOT NULL DEFAULT '{}',
+  horizon_hours INTEGER NOT NULL DEFAULT 48
+    CHECK (horizon_hours BETWEEN 1 AND 168),
+  resolution_rules TEXT[] NOT NULL DEFAULT '{}',
+  price_source TEXT NOT NULL DEFAULT 'model'
+    CHECK (price_source IN ('model', 'best_prices')),
+  pricing_mode TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (pricing_mode IN ('fixed', 'lmsr', 'parimutuel')),
+  liquidity_b NUMERIC
+    CHECK (liquidity_b IS NULL OR liquidity_b > 0),
+  close_minutes_before_kickoff INTEGER NOT NULL DEFAULT 5
+    CHECK (close_minutes_before_kickoff >= 0),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  last_run_at TIMESTAMPTZ,
+  last_run_summary JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT market_generator_configs_liquidity_check
+    CHECK (pricing_mode = 'fixed' OR liquidity_b IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.market_generator_configs.created_by IS 'Admin who owns the config; generated markets are created in their name';
+COMMENT ON COLUMN public.market_generator_configs.last_run_summary IS 'Counts from the last market-generator run (created, duplicates, unpriced, failed)';
+
+DROP TRIGGER IF EXISTS update_market_generator_configs_updated_at ON public.market_generator_configs;
+CREATE TRIGGER update_market_generator_configs_updated_at
+  BEFORE UPDATE ON public.market_generator_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.market_generator_configs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage market generator configs"
+  ON public.market_generator_configs FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access (market_generator_configs)"
+  ON public.market_generator_configs FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Duplicate lookups by fixture + rule
+CREATE INDEX IF NOT EXISTS idx_prediction_markets_fixture_rule
+  ON public.prediction_markets (fixture_id, lower(resolution_rule))
+  WHERE fixture_id IS NOT NULL;
+
+COMMIT;
+
+-- =============================================
+-- generate_fixture_market (service role only)
+-- Returns {ok, market_id} on create, {ok, skipped, reason} when the market
+-- already exists or would already be closed, {ok: false, error} otherwise.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.generate_fixture_market(
+  _config_id uuid,
+  _fixture_id bigint,
+  _resolution_rule text,
+  _odds_yes numeric,
+  _odds_no numeric,
+  _price_source text,
+  _probability numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config RECORD;
+  v_fixture RECORD;
+  v_rule text := lower(coalesce(_resolution_rule, ''));
+  v_home_name text;
+  v_away_name text;
+  v_kickoff_at timestamptz;
+  v_closes_at timestamptz;
+  v_title text;
+  v_description text;
+  v_price_yes numeric;
+  v_market_id uuid;
+BEGIN
+  IF _odds_yes IS NULL OR _odds_no IS NULL OR _odds_yes <= 1 OR _odds_no <= 1 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'odds must be > 1.0');
+  END IF;
+
+  IF v_rule NOT IN (
+    'over_0.5_goals','over_1.5_goals','over_2.5_goals','under_2.5_goals',
+    'btts',
+    'over_8.5_corners','under_9.5_corners',
+    'home_win','away_win','draw'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Unsupported resolution_rule');
+  END IF;
+
+  SELECT * INTO v_config
+  FROM public.market_generator_configs
+  WHERE id = _config_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Generator config not found');
+  END IF;
+
+  SELECT f.id, f."timestamp", f.league_id, f.teams_home, f.teams_away
+    INTO v_fixture
+  FROM public.fixtures f
+  WHERE f.id = _fixture_id;
+
+  IF NOT FOUND OR v_fixture."timestamp" IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Fixture not found');
+  END IF;
+
+  -- Two overlapping runs must not both pass the duplicate check
+  PERFORM pg_advisory_xact_lock(hashtext('generate_fixture_market:' || _fixture_id || ':' || v_rule));
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.prediction_markets pm
+    WHERE pm.fixture_id = _fixture_id
+      AND lower(coalesce(pm.resolution_rule,'')) = v_rule
+  ) THEN
+    RETURN jsonb_build_object('ok', true, 'skipped', true, 'reason', 'duplicate');
+  END IF;
+
+  v_kickoff_at := to_timestamp(v_fixture."timestamp"::double precision);
+  v_closes_at := v_kickoff_at - (v_config.close_minutes_before_kickoff * interval '1 minute');
+
+  IF v_closes_at <= now() THEN
+    RETURN jsonb_build_object('ok', true, 'skipped', true, 'reason', 'closed');
+  END IF;
+
+  v_home_name := nullif(btrim(coalesce(v_fixture.teams_home->>'name','')), '');
+  v_away_name := nullif(btrim(coalesce(v_fixture.teams_away->>'name','')), '');
+  IF v_home_name IS NULL THEN v_home_name := 'Home'; END IF;
+  IF v_away_name IS NULL THEN v_away_name := 'Away'; END IF;
+
+  v_title := v_home_name || ' vs ' || v_away_name;
+
+  CASE v_rule
+    WHEN 'over_0.5_goals'     THEN v_title := v_title || ' - Over 0.5 Goals';   v_description := 'Over 0.5 goals will be scored in this match.';
+    WHEN 'over_1.5_goals'     THEN v_title := v_title || ' - Over 1.5 Goals';   v_description := 'Over 1.5 goals will be scored in this match.';
+    WHEN 'over_2.5_goals'     THEN v_title := v_title || ' - Over 2.5 Goals';   v_description := 'Over 2.5 goals will be scored in this match.';
+    WHEN 'under_2.5_goals'    THEN v_title := v_title || ' - Under 2.5 Goals';  v_description := 'Under 2.5 goals will be scored in this match.';
+    WHEN 'btts'               THEN v_title := v_title || ' - BTTS';             v_description := 'Both teams will score in this match.';
+    WHEN 'over_8.5_corners'   THEN v_title := v_title || ' - Over 8.5 Corners'; v_description := 'Over 8.5 corners will occur in this match.';
+    WHEN 'under_9.5_corners'  THEN v_title := v_title || ' - Under 9.5 Corners';v_description := 'Under 9.5 corners will occur in this match.';
+    WHEN 'home_win'           THEN v_title := v_title || ' - Home Win';         v_description := v_home_name || ' will win this match.';
+    WHEN 'away_win'           THEN v_title := v_title || ' - Away Win';         v_description := v_away_name || ' will win this match.';
+    WHEN 'draw'               THEN v_title := v_title || ' - Draw';             v_description := 'This match will end in a draw.';
+  END CASE;
+
+  -- Opening price without the overround (same as the admin odds backfill)
+  v_price_yes := LEAST(0.99, GREATEST(0.01, (1 / _odds_yes) / (1 / _odds_yes + 1 / _odds_no)));
+
+  INSERT INTO public.prediction_markets (
+    title, description, category, market_type,
+    fixture_id, resolution_rule, closes_at,
+    created_by, odds_yes, odds_no,
+    total_staked_yes, total_staked_no, status,
+    pricing_mode, liquidity_b, initial_price_yes
+  )
+  VALUES (
+    v_title, v_description, 'football', 'binary',
+    _fixture_id, v_rule, v_closes_at,
+    v_config.created_by, _odds_yes, _odds_no,
+    0, 0, 'open',
+    v_config.pricing_mode,
+    CASE WHEN v_config.pricing_mode = 'fixed' THEN NULL ELSE v_config.liquidity_b END,
+    v_price_yes
+  )
+  RETURNING id INTO v_market_id;
+
+  INSERT INTO public.admin_market_audit_log (
+    admin_user_id, market_id, action, is_system, details
+  )
+  VALUES (
+    NULL,
+    v_market_id,
+    'create',
+    true,
+    jsonb_build_object(
+      'source', 'market_generator',
+      'config_id', _config_id,
+      'fixture_id', _fixture_id,
+      'resolution_rule', v_rule,
+      'price_source', _price_source,
+      'probability', _probability,
+      'odds_yes', _odds_yes,
+      'odds_no', _odds_no,
+      'pricing_mode', v_config.pricing_mode,
+      'closes_at', v_closes_at,
+      'kickoff_at', v_kickoff_at
+    )
+  );
+
+  RETURN jsonb_build_object('ok', true, 'market_id', v_market_id, 'title', v_title);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_fixture_market(uuid,bigint,text,numeric,numeric,text,numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.generate_fixture_market(uuid,bigint,text,numeric,numeric,text,numeric) FROM anon;
+REVOKE ALL ON FUNCTION public.generate_fixture_market(uuid,bigint,text,numeric,numeric,text,numeric) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_fixture_market(uuid,bigint,text,numeric,numeric,text,numeric) TO service_role;
+
+-- =============================================
+-- Run the generator hourly
+-- =============================================
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'market-generator-hourly'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'market-generator-hourly',
+    '15 * * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/market-generator',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
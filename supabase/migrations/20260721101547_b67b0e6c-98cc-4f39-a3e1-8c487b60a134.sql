@@ -0,0 +1,761 @@
+-- =============================================
+-- Market coin seasons, divisions and private leagues
+--
+-- Seasons: one active market_seasons row at a time, a calendar month by
+-- default (the reset get_my_market_stats has always advertised). The
+-- market-season-rollover job calls rollover_market_season() once the active
+-- season has ended. It:
+--   1. snapshots every balance into market_leaderboard_snapshots
+--      (period = season name, with the division tier and rank)
+--   2. promotes / relegates by division standing (shares per division)
+--   3. opens the next season and resets market_coins to 1000
+-- Positions still pending at rollover settle into the new season's balance.
+--
+-- Divisions: tier 1 is the top. Every player is a member of one division
+-- per season (market_division_members); new players start in the bottom
+-- tier, existing players are placed by balance when this migration runs.
+-- Promotion/relegation math is mirrored in src/lib/marketSeasons.ts.
+--
+-- Private leagues: user-created groups joined with an invite code. Their
+-- leaderboard ranks members' current-season balances. All writes go
+-- through the RPCs below.
+-- =============================================
+
+BEGIN;
+
+-- =============================================
+-- Seasons and divisions
+-- =============================================
+CREATE TABLE IF NOT EXISTS public.market_seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_seasons_one_active
+  ON public.market_seasons ((true))
+  WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS public.market_divisions (
+  tier INTEGER PRIMARY KEY CHECK (tier >= 1),
+  name TEXT NOT NULL,
+  promote_share NUMERIC NOT NULL DEFAULT 0 CHECK (promote_share >= 0 AND promote_share < 1),
+  relegate_share NUMERIC NOT NULL DEFAULT 0 CHECK (relegate_share >= 0 AND relegate_share < 1)
+);
+
+COMMENT ON COLUMN public.market_divisions.promote_share IS 'Share of the division (rounded down) promoted at season end; 0 for tier 1';
+COMMENT ON COLUMN public.market_divisions.relegate_share IS 'Share of the division (rounded down) relegated at season end; 0 for the bottom tier';
+
+INSERT INTO public.market_divisions (tier, name, promote_share, relegate_share) VALUES
+  (1, 'Elite', 0, 0.2),
+  (2, 'Pro', 0.2, 0.2),
+  (3, 'Rookie', 0.2, 0)
+ON CONFLICT (tier) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.market_division_members (
+  season_id UUID NOT NULL REFERENCES public.market_seasons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tier INTEGER NOT NULL REFERENCES public.market_divisions(tier),
+  final_rank INTEGER,
+  final_balance INTEGER,
+  movement TEXT CHECK (movement IN ('promoted', 'relegated', 'stayed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (season_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_division_members_user ON public.market_division_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_market_division_members_season_tier ON public.market_division_members(season_id, tier);
+
+ALTER TABLE public.market_leaderboard_snapshots
+  ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES public.market_seasons(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS division_tier INTEGER,
+  ADD COLUMN IF NOT EXISTS division_rank INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_market_leaderboard_snapshots_season ON public.market_leaderboard_snapshots(season_id);
+
+-- =============================================
+-- Private leagues
+-- =============================================
+CREATE TABLE IF NOT EXISTS public.market_private_leagues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 3 AND 40),
+  invite_code TEXT NOT NULL UNIQUE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_members INTEGER NOT NULL DEFAULT 50 CHECK (max_members BETWEEN 2 AND 200),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.market_private_league_members (
+  league_id UUID NOT NULL REFERENCES public.market_private_leagues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (league_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_private_league_members_user ON public.market_private_league_members(user_id);
+
+-- Membership check for RLS (security definer: avoids recursion on the members table)
+CREATE OR REPLACE FUNCTION public.is_private_league_member(_league_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.market_private_league_members
+    WHERE league_id = _league_id
+      AND user_id = auth.uid()
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.is_private_league_member(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_private_league_member(UUID) TO authenticated, service_role;
+
+-- =============================================
+-- RLS
+-- =============================================
+ALTER TABLE public.market_seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_divisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_division_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_private_leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_private_league_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Market seasons are viewable by everyone"
+  ON public.market_seasons FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (market_seasons)"
+  ON public.market_seasons FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Market divisions are viewable by everyone"
+  ON public.market_divisions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (market_divisions)"
+  ON public.market_divisions FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Same audience as v_market_leaderboard
+CREATE POLICY "Authenticated can view division members"
+  ON public.market_division_members FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role full access (market_division_members)"
+  ON public.market_division_members FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Members can view their private leagues"
+  ON public.market_private_leagues FOR SELECT
+  TO authenticated
+  USING (public.is_private_league_member(id));
+
+CREATE POLICY "Service role full access (market_private_leagues)"
+  ON public.market_private_leagues FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Members can view private league members"
+  ON public.market_private_league_members FOR SELECT
+  TO authenticated
+  USING (public.is_private_league_member(league_id));
+
+CREATE POLICY "Service role full access (market_private_league_members)"
+  ON public.market_private_league_members FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+REVOKE INSERT, UPDATE, DELETE ON public.market_seasons FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.market_divisions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.market_division_members FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.market_private_leagues FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.market_private_league_members FROM anon, authenticated;
+
+GRANT SELECT ON public.market_seasons TO authenticated, anon;
+GRANT SELECT ON public.market_divisions TO authenticated, anon;
+GRANT SELECT ON public.market_division_members TO authenticated;
+GRANT SELECT ON public.market_private_leagues TO authenticated;
+GRANT SELECT ON public.market_private_league_members TO authenticated;
+
+-- =============================================
+-- First season: the current month, players placed by balance
+-- =============================================
+INSERT INTO public.market_seasons (name, starts_at, ends_at, status)
+SELECT
+  to_char(date_trunc('month', now()), 'YYYY-MM'),
+  date_trunc('month', now()),
+  date_trunc('month', now()) + interval '1 month',
+  'active'
+WHERE NOT EXISTS (SELECT 1 FROM public.market_seasons WHERE status = 'active');
+
+INSERT INTO public.market_division_members (season_id, user_id, tier)
+SELECT s.id, mc.user_id, ntile(3) OVER (ORDER BY mc.balance DESC, mc.user_id)
+FROM public.market_coins mc
+CROSS JOIN public.market_seasons s
+WHERE s.status = 'active'
+ON CONFLICT (season_id, user_id) DO NOTHING;
+
+COMMIT;
+
+-- =============================================
+-- ensure_market_coins: also joins the active season's bottom division
+-- =============================================
+CREATE OR REPLACE FUNCTION public.ensure_market_coins()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.market_coins (user_id, balance, total_wagered, total_won, total_fees_paid, last_reset_at)
+  VALUES (auth.uid(), 1000, 0, 0, 0, NOW())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  INSERT INTO public.market_division_members (season_id, user_id, tier)
+  SELECT s.id, auth.uid(), (SELECT max(tier) FROM public.market_divisions)
+  FROM public.market_seasons s
+  WHERE s.status = 'active'
+  ON CONFLICT (season_id, user_id) DO NOTHING;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ensure_market_coins() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.ensure_market_coins() FROM anon;
+GRANT EXECUTE ON FUNCTION public.ensure_market_coins() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.ensure_market_coins() TO service_role;
+
+-- =============================================
+-- get_my_market_stats: next_reset_at is the active season's end
+-- =============================================
+CREATE OR REPLACE FUNCTION public.get_my_market_stats()
+RETURNS TABLE (
+  balance INTEGER,
+  total_wagered INTEGER,
+  total_won INTEGER,
+  total_fees_paid INTEGER,
+  positions_count BIGINT,
+  wins_count BIGINT,
+  losses_count BIGINT,
+  pending_count BIGINT,
+  win_rate DECIMAL,
+  roi DECIMAL,
+  next_reset_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  -- Ensure user has a market_coins record
+  PERFORM public.ensure_market_coins();
+
+  RETURN QUERY
+  WITH stats AS (
+    SELECT
+      mc.balance,
+      mc.total_wagered,
+      mc.total_won,
+      mc.total_fees_paid,
+      COUNT(mp.id) AS positions_count,
+      COUNT(mp.id) FILTER (WHERE mp.status = 'won') AS wins_count,
+      COUNT(mp.id) FILTER (WHERE mp.status = 'lost') AS losses_count,
+      COUNT(mp.id) FILTER (WHERE mp.status = 'pending') AS pending_count
+    FROM public.market_coins mc
+    LEFT JOIN public.market_positions mp ON mp.user_id = mc.user_id
+    WHERE mc.user_id = v_user_id
+    GROUP BY mc.user_id, mc.balance, mc.total_wagered, mc.total_won, mc.total_fees_paid
+  )
+  SELECT
+    s.balance,
+    s.total_wagered,
+    s.total_won,
+    s.total_fees_paid,
+    s.positions_count,
+    s.wins_count,
+    s.losses_count,
+    s.pending_count,
+    CASE
+      WHEN (s.wins_count + s.losses_count) > 0
+      THEN ROUND((s.wins_count::DECIMAL / (s.wins_count + s.losses_count)) * 100, 2)
+      ELSE 0
+    END AS win_rate,
+    CASE
+      WHEN s.total_wagered > 0
+      THEN ROUND(((s.total_won - s.total_wagered)::DECIMAL / s.total_wagered) * 100, 2)
+      ELSE 0
+    END AS roi,
+    COALESCE(
+      (SELECT ms.ends_at FROM public.market_seasons ms WHERE ms.status = 'active'),
+      date_trunc('month', NOW()) + INTERVAL '1 month'
+    ) AS next_reset_at
+  FROM stats s;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_market_stats() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_market_stats() TO authenticated, service_role;
+
+-- =============================================
+-- get_division_leaderboard: standings in one division of the active season
+-- (_tier NULL = the caller's division). Promotion/relegation zones are
+-- drawn client-side from market_divisions (src/lib/marketSeasons.ts).
+-- =============================================
+CREATE OR REPLACE FUNCTION public.get_division_leaderboard(_tier integer DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  balance INTEGER,
+  total_wagered INTEGER,
+  total_won INTEGER,
+  total_fees_paid INTEGER,
+  positions_count BIGINT,
+  wins_count BIGINT,
+  losses_count BIGINT,
+  win_rate NUMERIC,
+  roi NUMERIC,
+  rank BIGINT,
+  tier INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season_id uuid;
+  v_tier integer := _tier;
+BEGIN
+  SELECT id INTO v_season_id FROM public.market_seasons WHERE status = 'active';
+  IF v_season_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_tier IS NULL THEN
+    SELECT m.tier INTO v_tier
+    FROM public.market_division_members m
+    WHERE m.season_id = v_season_id AND m.user_id = auth.uid();
+  END IF;
+
+  -- Same order as the rollover standings
+  RETURN QUERY
+  SELECT
+    lb.user_id, lb.display_name, lb.balance, lb.total_wagered, lb.total_won, lb.total_fees_paid,
+    lb.positions_count, lb.wins_count, lb.losses_count, lb.win_rate, lb.roi,
+    row_number() OVER (ORDER BY lb.balance DESC, lb.total_won DESC, lb.user_id) AS rank,
+    m.tier
+  FROM public.market_division_members m
+  JOIN public.v_market_leaderboard lb ON lb.user_id = m.user_id
+  WHERE m.season_id = v_season_id AND m.tier = v_tier
+  ORDER BY lb.balance DESC, lb.total_won DESC, lb.user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_division_leaderboard(integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_division_leaderboard(integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_division_leaderboard(integer) TO authenticated;
+
+-- =============================================
+-- Private league RPCs
+-- =============================================
+CREATE OR REPLACE FUNCTION public.create_private_league(_name text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_name text := btrim(coalesce(_name, ''));
+  v_code text;
+  v_league_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF char_length(v_name) NOT BETWEEN 3 AND 40 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Name must be 3-40 characters');
+  END IF;
+
+  IF (SELECT count(*) FROM public.market_private_leagues WHERE owner_id = v_user_id) >= 5 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'You can own at most 5 leagues');
+  END IF;
+
+  -- 8-character code without look-alike characters
+  LOOP
+    SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::int, 1), '')
+      INTO v_code
+    FROM generate_series(1, 8);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.market_private_leagues WHERE invite_code = v_code);
+  END LOOP;
+
+  INSERT INTO public.market_private_leagues (name, invite_code, owner_id)
+  VALUES (v_name, v_code, v_user_id)
+  RETURNING id INTO v_league_id;
+
+  INSERT INTO public.market_private_league_members (league_id, user_id)
+  VALUES (v_league_id, v_user_id);
+
+  PERFORM public.ensure_market_coins();
+
+  RETURN jsonb_build_object('ok', true, 'league_id', v_league_id, 'invite_code', v_code, 'name', v_name);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_private_league(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.create_private_league(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_private_league(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.join_private_league(_invite_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_league RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_league
+  FROM public.market_private_leagues
+  WHERE invite_code = upper(btrim(coalesce(_invite_code, '')))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Invalid invite code');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.market_private_league_members
+    WHERE league_id = v_league.id AND user_id = v_user_id
+  ) THEN
+    RETURN jsonb_build_object('ok', true, 'league_id', v_league.id, 'name', v_league.name, 'already_member', true);
+  END IF;
+
+  IF (SELECT count(*) FROM public.market_private_league_members WHERE league_id = v_league.id) >= v_league.max_members THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'League is full');
+  END IF;
+
+  IF (SELECT count(*) FROM public.market_private_league_members WHERE user_id = v_user_id) >= 20 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'You can be in at most 20 leagues');
+  END IF;
+
+  INSERT INTO public.market_private_league_members (league_id, user_id)
+  VALUES (v_league.id, v_user_id);
+
+  PERFORM public.ensure_market_coins();
+
+  RETURN jsonb_build_object('ok', true, 'league_id', v_league.id, 'name', v_league.name);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.join_private_league(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.join_private_league(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.join_private_league(text) TO authenticated;
+
+-- Leaving hands ownership to the longest-standing member; the last member
+-- leaving deletes the league
+CREATE OR REPLACE FUNCTION public.leave_private_league(_league_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_league RECORD;
+  v_next_owner uuid;
+BEGIN
+  SELECT * INTO v_league
+  FROM public.market_private_leagues
+  WHERE id = _league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_private_league_member(_league_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not a member of this league');
+  END IF;
+
+  DELETE FROM public.market_private_league_members
+  WHERE league_id = _league_id AND user_id = v_user_id;
+
+  IF v_league.owner_id = v_user_id THEN
+    SELECT user_id INTO v_next_owner
+    FROM public.market_private_league_members
+    WHERE league_id = _league_id
+    ORDER BY joined_at, user_id
+    LIMIT 1;
+
+    IF v_next_owner IS NULL THEN
+      DELETE FROM public.market_private_leagues WHERE id = _league_id;
+      RETURN jsonb_build_object('ok', true, 'deleted', true);
+    END IF;
+
+    UPDATE public.market_private_leagues SET owner_id = v_next_owner WHERE id = _league_id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.leave_private_league(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.leave_private_league(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.leave_private_league(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_private_league_leaderboard(_league_id uuid)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  balance INTEGER,
+  total_wagered INTEGER,
+  total_won INTEGER,
+  total_fees_paid INTEGER,
+  positions_count BIGINT,
+  wins_count BIGINT,
+  losses_count BIGINT,
+  win_rate NUMERIC,
+  roi NUMERIC,
+  rank BIGINT,
+  tier INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_private_league_member(_league_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lb.user_id, lb.display_name, lb.balance, lb.total_wagered, lb.total_won, lb.total_fees_paid,
+    lb.positions_count, lb.wins_count, lb.losses_count, lb.win_rate, lb.roi,
+    rank() OVER (ORDER BY lb.balance DESC) AS rank,
+    m.tier
+  FROM public.market_private_league_members plm
+  JOIN public.v_market_leaderboard lb ON lb.user_id = plm.user_id
+  LEFT JOIN public.market_division_members m
+    ON m.user_id = plm.user_id
+   AND m.season_id = (SELECT id FROM public.market_seasons WHERE status = 'active')
+  WHERE plm.league_id = _league_id
+  ORDER BY lb.balance DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_private_league_leaderboard(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_private_league_leaderboard(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_private_league_leaderboard(uuid) TO authenticated;
+
+-- =============================================
+-- rollover_market_season (service role only)
+-- Archives the active season once it has ended (or now, with _force),
+-- moves players between divisions, opens the next season and resets
+-- balances. Returns {ok, skipped} while the season is still running.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.rollover_market_season(_force boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season RECORD;
+  v_bottom_tier integer;
+  v_end timestamptz;
+  v_next_id uuid;
+  v_next_name text;
+  v_archived integer := 0;
+  v_promoted integer := 0;
+  v_relegated integer := 0;
+BEGIN
+  SELECT * INTO v_season
+  FROM public.market_seasons
+  WHERE status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'No active season');
+  END IF;
+
+  IF v_season.ends_at > now() AND NOT coalesce(_force, false) THEN
+    RETURN jsonb_build_object('ok', true, 'skipped', true, 'season', v_season.name, 'ends_at', v_season.ends_at);
+  END IF;
+
+  v_end := LEAST(v_season.ends_at, now());
+  SELECT max(tier) INTO v_bottom_tier FROM public.market_divisions;
+
+  -- Players who bet without ever loading their balance
+  INSERT INTO public.market_division_members (season_id, user_id, tier)
+  SELECT v_season.id, mc.user_id, v_bottom_tier
+  FROM public.market_coins mc
+  ON CONFLICT (season_id, user_id) DO NOTHING;
+
+  -- Final standings
+  CREATE TEMP TABLE tmp_season_standings ON COMMIT DROP AS
+  WITH season_positions AS (
+    SELECT
+      mp.user_id,
+      count(*) AS positions_count,
+      count(*) FILTER (WHERE mp.status = 'won') AS wins_count,
+      count(*) FILTER (WHERE mp.status = 'lost') AS losses_count
+    FROM public.market_positions mp
+    WHERE mp.created_at >= v_season.starts_at
+      AND mp.created_at < v_end
+    GROUP BY mp.user_id
+  ),
+  ranked AS (
+    SELECT
+      m.user_id,
+      m.tier,
+      mc.balance,
+      mc.total_wagered,
+      mc.total_won,
+      mc.total_fees_paid,
+      coalesce(sp.positions_count, 0) AS positions_count,
+      coalesce(sp.wins_count, 0) AS wins_count,
+      coalesce(sp.losses_count, 0) AS losses_count,
+      rank() OVER (ORDER BY mc.balance DESC) AS global_rank,
+      row_number() OVER (PARTITION BY m.tier ORDER BY mc.balance DESC, mc.total_won DESC, m.user_id) AS div_rank,
+      count(*) OVER (PARTITION BY m.tier) AS div_size
+    FROM public.market_division_members m
+    JOIN public.market_coins mc ON mc.user_id = m.user_id
+    LEFT JOIN season_positions sp ON sp.user_id = m.user_id
+    WHERE m.season_id = v_season.id
+  )
+  SELECT
+    r.*,
+    CASE
+      WHEN r.div_rank <= floor(r.div_size * d.promote_share) THEN 'promoted'
+      WHEN r.div_rank > r.div_size - floor(r.div_size * d.relegate_share) THEN 'relegated'
+      ELSE 'stayed'
+    END AS movement
+  FROM ranked r
+  JOIN public.market_divisions d ON d.tier = r.tier;
+
+  INSERT INTO public.market_leaderboard_snapshots (
+    user_id, period, season_id, final_balance, total_wagered, total_won, total_fees_paid,
+    positions_count, wins_count, losses_count, win_rate, roi, rank, division_tier, division_rank
+  )
+  SELECT
+    s.user_id, v_season.name, v_season.id, s.balance, s.total_wagered, s.total_won, s.total_fees_paid,
+    s.positions_count, s.wins_count, s.losses_count,
+    CASE WHEN s.wins_count + s.losses_count > 0
+      THEN ROUND(s.wins_count::numeric * 100 / (s.wins_count + s.losses_count), 2)
+      ELSE 0 END,
+    CASE WHEN s.total_wagered > 0
+      THEN ROUND((s.total_won - s.total_wagered)::numeric * 100 / s.total_wagered, 2)
+      ELSE 0 END,
+    s.global_rank, s.tier, s.div_rank
+  FROM tmp_season_standings s;
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  UPDATE public.market_division_members m
+  SET final_rank = s.div_rank,
+      final_balance = s.balance,
+      movement = s.movement
+  FROM tmp_season_standings s
+  WHERE m.season_id = v_season.id AND m.user_id = s.user_id;
+
+  SELECT count(*) FILTER (WHERE movement = 'promoted'), count(*) FILTER (WHERE movement = 'relegated')
+    INTO v_promoted, v_relegated
+  FROM tmp_season_standings;
+
+  UPDATE public.market_seasons
+  SET status = 'archived', archived_at = now(), ends_at = v_end
+  WHERE id = v_season.id;
+
+  -- Next season runs to the end of the calendar month it starts in
+  v_next_name := to_char(v_end, 'YYYY-MM');
+  INSERT INTO public.market_seasons (name, starts_at, ends_at, status)
+  VALUES (v_next_name, v_end, date_trunc('month', v_end) + interval '1 month', 'active')
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO public.market_division_members (season_id, user_id, tier)
+  SELECT
+    v_next_id,
+    s.user_id,
+    CASE s.movement
+      WHEN 'promoted' THEN GREATEST(1, s.tier - 1)
+      WHEN 'relegated' THEN LEAST(v_bottom_tier, s.tier + 1)
+      ELSE s.tier
+    END
+  FROM tmp_season_standings s;
+
+  UPDATE public.market_coins
+  SET balance = 1000,
+      total_wagered = 0,
+      total_won = 0,
+      total_fees_paid = 0,
+      last_reset_at = now();
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'archived_season', v_season.name,
+    'next_season', v_next_name,
+    'archived_players', v_archived,
+    'promoted', v_promoted,
+    'relegated', v_relegated
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.rollover_market_season(boolean) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rollover_market_season(boolean) FROM anon;
+REVOKE ALL ON FUNCTION public.rollover_market_season(boolean) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.rollover_market_season(boolean) TO service_role;
+
+-- =============================================
+-- Roll the season over shortly after midnight UTC on the 1st
+-- =============================================
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'market-season-rollover-monthly'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'market-season-rollover-monthly',
+    '5 0 1 * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/market-season-rollover',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
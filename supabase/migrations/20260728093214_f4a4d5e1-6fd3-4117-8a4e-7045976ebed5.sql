@@ -0,0 +1,849 @@
+-- =============================================
+-- Disputable market resolutions
+--
+-- Settlement used to be a single resolve_market() call. It is now a
+-- lifecycle:
+--   1. propose    auto_resolve_markets() / market-auto-resolve (source
+--                 'auto') or an admin via market-resolve (source 'admin')
+--                 files a market_resolution_proposals row with the evidence
+--                 used (fixture_results snapshot + rule). The market closes.
+--   2. challenge  until challenge_ends_at any user holding a position can
+--                 dispute it (dispute_market_resolution). A disputed proposal
+--                 waits for an admin.
+--   3. settle     finalize_due_market_resolutions() (cron, every 5 minutes)
+--                 settles undisputed proposals through resolve_market() once
+--                 the window is over. Admins can finalize early (dismissing
+--                 disputes) or reject a proposal (upholding them); auto
+--                 proposals are not refiled for a market an admin rejected.
+--
+-- reverse_market_resolution() re-settles an already resolved market with a
+-- different outcome in one transaction: payouts are clawed back from
+-- market_coins (never below 0; the rest is reported as shortfall), positions
+-- go back to pending and resolve_market() runs again. Markets settled before
+-- the active season started cannot be reversed; those balances were reset.
+--
+-- Every step is appended to market_resolution_log, which is public.
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.market_resolution_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES public.prediction_markets(id) ON DELETE CASCADE,
+  proposed_outcome TEXT,
+  source TEXT NOT NULL CHECK (source IN ('auto', 'admin')),
+  proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  evidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+  challenge_ends_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'disputed', 'finalized', 'rejected', 'superseded', 'reversed')),
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.market_resolution_proposals.proposed_outcome IS 'Winning outcome key, or NULL for a void';
+COMMENT ON COLUMN public.market_resolution_proposals.evidence IS 'fixture_results snapshot and rule the outcome was derived from';
+
+-- At most one live proposal per market
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_resolution_proposals_live
+  ON public.market_resolution_proposals (market_id)
+  WHERE status IN ('open', 'disputed');
+
+CREATE INDEX IF NOT EXISTS idx_market_resolution_proposals_due
+  ON public.market_resolution_proposals (challenge_ends_at)
+  WHERE status = 'open';
+
+CREATE TRIGGER update_market_resolution_proposals_updated_at
+  BEFORE UPDATE ON public.market_resolution_proposals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.market_resolution_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL REFERENCES public.market_resolution_proposals(id) ON DELETE CASCADE,
+  market_id UUID NOT NULL REFERENCES public.prediction_markets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 10 AND 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'upheld', 'dismissed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (proposal_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_resolution_disputes_market ON public.market_resolution_disputes (market_id);
+
+CREATE TABLE IF NOT EXISTS public.market_resolution_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id UUID NOT NULL REFERENCES public.prediction_markets(id) ON DELETE CASCADE,
+  proposal_id UUID REFERENCES public.market_resolution_proposals(id) ON DELETE SET NULL,
+  event TEXT NOT NULL CHECK (event IN ('proposed', 'disputed', 'finalized', 'rejected', 'superseded', 'reversed')),
+  outcome TEXT,
+  previous_outcome TEXT,
+  evidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  note TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_resolution_log_market ON public.market_resolution_log (market_id, created_at);
+
+ALTER TABLE public.admin_market_audit_log
+  DROP CONSTRAINT IF EXISTS admin_market_audit_log_action_check;
+
+ALTER TABLE public.admin_market_audit_log
+  ADD CONSTRAINT admin_market_audit_log_action_check
+  CHECK (action IN (
+    'create','update','publish','close','resolve','cancel','delete',
+    'auto_resolve','close_expired','manual_resolve','refund','void',
+    'propose_resolution','reject_resolution','reverse'
+  ));
+
+-- =============================================
+-- RLS
+-- =============================================
+ALTER TABLE public.market_resolution_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_resolution_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_resolution_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Resolution proposals are viewable by everyone"
+  ON public.market_resolution_proposals FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (market_resolution_proposals)"
+  ON public.market_resolution_proposals FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own disputes"
+  ON public.market_resolution_disputes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all disputes"
+  ON public.market_resolution_disputes FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access (market_resolution_disputes)"
+  ON public.market_resolution_disputes FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Resolution log is viewable by everyone"
+  ON public.market_resolution_log FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access (market_resolution_log)"
+  ON public.market_resolution_log FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+REVOKE INSERT, UPDATE, DELETE ON public.market_resolution_proposals FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.market_resolution_disputes FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.market_resolution_log FROM anon, authenticated;
+
+GRANT SELECT ON public.market_resolution_proposals TO authenticated, anon;
+GRANT SELECT ON public.market_resolution_disputes TO authenticated;
+GRANT SELECT ON public.market_resolution_log TO authenticated, anon;
+
+COMMIT;
+
+-- =============================================
+-- propose_market_resolution: file a proposal and close the market
+-- The fixture_results row (if any) is snapshotted into the evidence;
+-- _evidence adds to / overrides it (rule, first_goal_team, admin notes).
+-- =============================================
+CREATE OR REPLACE FUNCTION public.propose_market_resolution(
+  _market_id UUID,
+  _winning_outcome TEXT,
+  _evidence JSONB DEFAULT NULL,
+  _admin_user_id UUID DEFAULT NULL,
+  _is_system BOOLEAN DEFAULT false,
+  _challenge_minutes INTEGER DEFAULT 120
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_market RECORD;
+  v_live_id UUID;
+  v_live_outcome TEXT;
+  v_evidence JSONB;
+  v_proposal_id UUID;
+  v_ends_at TIMESTAMPTZ;
+BEGIN
+  IF _challenge_minutes IS NULL OR _challenge_minutes NOT BETWEEN 0 AND 10080 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Challenge window must be 0-10080 minutes');
+  END IF;
+
+  SELECT * INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.status NOT IN ('open', 'closed') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market is ' || v_market.status);
+  END IF;
+
+  IF v_market.market_type = 'multi' THEN
+    IF _winning_outcome IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM market_outcomes WHERE market_id = _market_id AND outcome = _winning_outcome
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'winning_outcome must be one of the market outcomes, or null (void)');
+    END IF;
+  ELSIF _winning_outcome IS NOT NULL AND _winning_outcome NOT IN ('yes', 'no') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'winning_outcome must be yes, no, or null (void)');
+  END IF;
+
+  SELECT id, proposed_outcome INTO v_live_id, v_live_outcome
+  FROM market_resolution_proposals
+  WHERE market_id = _market_id AND status IN ('open', 'disputed')
+  FOR UPDATE;
+
+  IF _is_system THEN
+    -- The data feed never overrides a live proposal or an admin's rejection
+    IF v_live_id IS NOT NULL THEN
+      RETURN jsonb_build_object('ok', true, 'skipped', true, 'reason', 'pending', 'proposal_id', v_live_id);
+    END IF;
+    IF EXISTS (SELECT 1 FROM market_resolution_proposals WHERE market_id = _market_id AND status = 'rejected') THEN
+      RETURN jsonb_build_object('ok', true, 'skipped', true, 'reason', 'rejected');
+    END IF;
+  ELSIF v_live_id IS NOT NULL THEN
+    -- An admin proposal replaces the live one; disputes against a different
+    -- outcome were right, the rest are moot
+    UPDATE market_resolution_proposals
+    SET status = 'superseded', decided_by = _admin_user_id, decided_at = NOW()
+    WHERE id = v_live_id;
+
+    UPDATE market_resolution_disputes
+    SET status = CASE WHEN v_live_outcome IS DISTINCT FROM _winning_outcome THEN 'upheld' ELSE 'dismissed' END
+    WHERE proposal_id = v_live_id AND status = 'open';
+
+    INSERT INTO market_resolution_log (market_id, proposal_id, event, outcome, actor_id, is_system)
+    VALUES (_market_id, v_live_id, 'superseded', v_live_outcome, _admin_user_id, false);
+  END IF;
+
+  SELECT jsonb_build_object(
+           'fixture_id', fr.fixture_id,
+           'status', fr.status,
+           'goals_home', fr.goals_home,
+           'goals_away', fr.goals_away,
+           'corners_home', fr.corners_home,
+           'corners_away', fr.corners_away,
+           'cards_home', fr.cards_home,
+           'cards_away', fr.cards_away,
+           'finished_at', fr.finished_at,
+           'source', fr.source
+         )
+    INTO v_evidence
+  FROM fixture_results fr
+  WHERE fr.fixture_id = v_market.fixture_id;
+
+  v_evidence := coalesce(v_evidence, '{}'::jsonb)
+    || jsonb_build_object('resolution_rule', coalesce(v_market.resolution_rule, v_market.market_type))
+    || coalesce(_evidence, '{}'::jsonb);
+  v_ends_at := NOW() + make_interval(mins => _challenge_minutes);
+
+  INSERT INTO market_resolution_proposals (
+    market_id, proposed_outcome, source, proposed_by, evidence, challenge_ends_at
+  ) VALUES (
+    _market_id,
+    _winning_outcome,
+    CASE WHEN _is_system THEN 'auto' ELSE 'admin' END,
+    _admin_user_id,
+    v_evidence,
+    v_ends_at
+  )
+  RETURNING id INTO v_proposal_id;
+
+  IF v_market.status = 'open' THEN
+    UPDATE prediction_markets SET status = 'closed' WHERE id = _market_id;
+  END IF;
+
+  INSERT INTO market_resolution_log (market_id, proposal_id, event, outcome, evidence, details, actor_id, is_system)
+  VALUES (
+    _market_id,
+    v_proposal_id,
+    'proposed',
+    _winning_outcome,
+    v_evidence,
+    jsonb_build_object('challenge_ends_at', v_ends_at),
+    _admin_user_id,
+    _is_system
+  );
+
+  INSERT INTO admin_market_audit_log (admin_user_id, market_id, action, details, is_system)
+  VALUES (
+    _admin_user_id,
+    _market_id,
+    'propose_resolution',
+    jsonb_build_object('proposal_id', v_proposal_id, 'winning_outcome', _winning_outcome, 'challenge_ends_at', v_ends_at),
+    _is_system
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'proposal_id', v_proposal_id,
+    'market_id', _market_id,
+    'winning_outcome', _winning_outcome,
+    'challenge_ends_at', v_ends_at
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.propose_market_resolution(UUID, TEXT, JSONB, UUID, BOOLEAN, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.propose_market_resolution(UUID, TEXT, JSONB, UUID, BOOLEAN, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.propose_market_resolution(UUID, TEXT, JSONB, UUID, BOOLEAN, INTEGER) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.propose_market_resolution(UUID, TEXT, JSONB, UUID, BOOLEAN, INTEGER) TO service_role;
+
+-- =============================================
+-- dispute_market_resolution: position holders challenge a live proposal
+-- =============================================
+CREATE OR REPLACE FUNCTION public.dispute_market_resolution(_proposal_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reason TEXT := btrim(coalesce(_reason, ''));
+  v_proposal RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF char_length(v_reason) NOT BETWEEN 10 AND 500 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Reason must be 10-500 characters');
+  END IF;
+
+  SELECT * INTO v_proposal
+  FROM market_resolution_proposals
+  WHERE id = _proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status NOT IN ('open', 'disputed') OR v_proposal.challenge_ends_at <= NOW() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Challenge window is closed');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM market_positions WHERE market_id = v_proposal.market_id AND user_id = v_user_id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Only players with a position in this market can dispute');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM market_resolution_disputes WHERE proposal_id = _proposal_id AND user_id = v_user_id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'You already disputed this resolution');
+  END IF;
+
+  INSERT INTO market_resolution_disputes (proposal_id, market_id, user_id, reason)
+  VALUES (_proposal_id, v_proposal.market_id, v_user_id, v_reason);
+
+  UPDATE market_resolution_proposals SET status = 'disputed' WHERE id = _proposal_id;
+
+  INSERT INTO market_resolution_log (market_id, proposal_id, event, outcome, note, actor_id)
+  VALUES (v_proposal.market_id, _proposal_id, 'disputed', v_proposal.proposed_outcome, v_reason, v_user_id);
+
+  RETURN jsonb_build_object('ok', true, 'proposal_id', _proposal_id);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.dispute_market_resolution(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.dispute_market_resolution(UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.dispute_market_resolution(UUID, TEXT) TO authenticated;
+
+-- =============================================
+-- finalize_market_resolution: settle a proposal through resolve_market()
+-- Without _force the window must be over and the proposal undisputed.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.finalize_market_resolution(
+  _proposal_id UUID,
+  _admin_user_id UUID DEFAULT NULL,
+  _force BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_result JSONB;
+  v_dismissed INT;
+BEGIN
+  -- Market first, same lock order as propose_market_resolution
+  PERFORM 1
+  FROM prediction_markets
+  WHERE id = (SELECT market_id FROM market_resolution_proposals WHERE id = _proposal_id)
+  FOR UPDATE;
+
+  SELECT * INTO v_proposal
+  FROM market_resolution_proposals
+  WHERE id = _proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status NOT IN ('open', 'disputed') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Proposal is ' || v_proposal.status);
+  END IF;
+
+  IF NOT _force THEN
+    IF v_proposal.status = 'disputed' THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'Proposal is disputed; an admin must decide');
+    END IF;
+    IF v_proposal.challenge_ends_at > NOW() THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'Challenge window is still open');
+    END IF;
+  END IF;
+
+  v_result := public.resolve_market(
+    v_proposal.market_id,
+    v_proposal.proposed_outcome,
+    coalesce(_admin_user_id, v_proposal.proposed_by),
+    _admin_user_id IS NULL AND v_proposal.source = 'auto'
+  );
+
+  IF NOT coalesce((v_result->>'ok')::boolean, false) THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE market_resolution_proposals
+  SET status = 'finalized', decided_by = _admin_user_id, decided_at = NOW()
+  WHERE id = _proposal_id;
+
+  UPDATE market_resolution_disputes
+  SET status = 'dismissed'
+  WHERE proposal_id = _proposal_id AND status = 'open';
+  GET DIAGNOSTICS v_dismissed = ROW_COUNT;
+
+  INSERT INTO market_resolution_log (market_id, proposal_id, event, outcome, evidence, details, actor_id, is_system)
+  VALUES (
+    v_proposal.market_id,
+    _proposal_id,
+    'finalized',
+    v_proposal.proposed_outcome,
+    v_proposal.evidence,
+    (v_result - 'ok' - 'market_id') || jsonb_build_object('disputes_dismissed', v_dismissed),
+    _admin_user_id,
+    _admin_user_id IS NULL
+  );
+
+  RETURN v_result || jsonb_build_object('proposal_id', _proposal_id, 'disputes_dismissed', v_dismissed);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.finalize_market_resolution(UUID, UUID, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.finalize_market_resolution(UUID, UUID, BOOLEAN) FROM anon;
+REVOKE ALL ON FUNCTION public.finalize_market_resolution(UUID, UUID, BOOLEAN) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.finalize_market_resolution(UUID, UUID, BOOLEAN) TO service_role;
+
+-- =============================================
+-- reject_market_resolution: admin throws a proposal out (disputes upheld)
+-- The market stays closed for a new admin proposal.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.reject_market_resolution(
+  _proposal_id UUID,
+  _admin_user_id UUID,
+  _note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_upheld INT;
+BEGIN
+  SELECT * INTO v_proposal
+  FROM market_resolution_proposals
+  WHERE id = _proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status NOT IN ('open', 'disputed') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Proposal is ' || v_proposal.status);
+  END IF;
+
+  UPDATE market_resolution_proposals
+  SET status = 'rejected', decided_by = _admin_user_id, decided_at = NOW()
+  WHERE id = _proposal_id;
+
+  UPDATE market_resolution_disputes
+  SET status = 'upheld'
+  WHERE proposal_id = _proposal_id AND status = 'open';
+  GET DIAGNOSTICS v_upheld = ROW_COUNT;
+
+  INSERT INTO market_resolution_log (market_id, proposal_id, event, outcome, details, note, actor_id)
+  VALUES (
+    v_proposal.market_id,
+    _proposal_id,
+    'rejected',
+    v_proposal.proposed_outcome,
+    jsonb_build_object('disputes_upheld', v_upheld),
+    nullif(btrim(_note), ''),
+    _admin_user_id
+  );
+
+  INSERT INTO admin_market_audit_log (admin_user_id, market_id, action, details, is_system)
+  VALUES (
+    _admin_user_id,
+    v_proposal.market_id,
+    'reject_resolution',
+    jsonb_build_object('proposal_id', _proposal_id, 'winning_outcome', v_proposal.proposed_outcome, 'disputes_upheld', v_upheld),
+    false
+  );
+
+  RETURN jsonb_build_object('ok', true, 'proposal_id', _proposal_id, 'disputes_upheld', v_upheld);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reject_market_resolution(UUID, UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reject_market_resolution(UUID, UUID, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.reject_market_resolution(UUID, UUID, TEXT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_market_resolution(UUID, UUID, TEXT) TO service_role;
+
+-- =============================================
+-- reverse_market_resolution: re-settle a resolved market atomically
+-- Any failure (including the new resolve_market) rolls the clawback back.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.reverse_market_resolution(
+  _market_id UUID,
+  _winning_outcome TEXT,
+  _admin_user_id UUID,
+  _reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_market RECORD;
+  v_position RECORD;
+  v_reason TEXT := btrim(coalesce(_reason, ''));
+  v_season_start TIMESTAMPTZ;
+  v_clawback INT;
+  v_clawed_back BIGINT := 0;
+  v_shortfall BIGINT := 0;
+  v_reset INT := 0;
+  v_result JSONB;
+  v_proposal_id UUID;
+BEGIN
+  IF char_length(v_reason) < 5 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'A reason is required to reverse a resolution');
+  END IF;
+
+  SELECT * INTO v_market
+  FROM prediction_markets
+  WHERE id = _market_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market not found');
+  END IF;
+
+  IF v_market.status <> 'resolved' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Only resolved markets can be reversed');
+  END IF;
+
+  IF v_market.winning_outcome IS NOT DISTINCT FROM _winning_outcome THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market is already settled with that outcome');
+  END IF;
+
+  SELECT starts_at INTO v_season_start FROM market_seasons WHERE status = 'active';
+  IF v_season_start IS NOT NULL AND v_market.resolved_at < v_season_start THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market was settled in a previous season');
+  END IF;
+
+  -- Claw back what the old settlement paid (cash-outs are untouched)
+  FOR v_position IN
+    SELECT mp.id, mp.user_id, mp.status, coalesce(mp.payout_amount, 0) AS payout, mc.balance
+    FROM market_positions mp
+    JOIN market_coins mc ON mc.user_id = mp.user_id
+    WHERE mp.market_id = _market_id AND mp.status IN ('won', 'lost', 'refunded')
+    ORDER BY mp.user_id
+    FOR UPDATE OF mp, mc
+  LOOP
+    IF v_position.payout > 0 THEN
+      -- Re-read: one user can hold several positions
+      SELECT LEAST(v_position.payout, balance) INTO v_clawback
+      FROM market_coins WHERE user_id = v_position.user_id;
+
+      UPDATE market_coins
+      SET balance = balance - v_clawback,
+          total_won = GREATEST(0, total_won - CASE WHEN v_position.status = 'won' THEN v_position.payout ELSE 0 END)
+      WHERE user_id = v_position.user_id;
+
+      v_clawed_back := v_clawed_back + v_clawback;
+      v_shortfall := v_shortfall + (v_position.payout - v_clawback);
+    END IF;
+
+    UPDATE market_positions
+    SET status = 'pending', payout_amount = NULL, settled_at = NULL
+    WHERE id = v_position.id;
+
+    v_reset := v_reset + 1;
+  END LOOP;
+
+  UPDATE prediction_markets
+  SET status = 'closed', winning_outcome = NULL, resolved_at = NULL
+  WHERE id = _market_id;
+
+  UPDATE market_resolution_proposals
+  SET status = 'reversed', decided_by = _admin_user_id, decided_at = NOW()
+  WHERE market_id = _market_id AND status = 'finalized';
+
+  v_result := public.resolve_market(_market_id, _winning_outcome, _admin_user_id, false);
+  IF NOT coalesce((v_result->>'ok')::boolean, false) THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  -- The corrected outcome is on record as an (already settled) admin proposal
+  INSERT INTO market_resolution_proposals (
+    market_id, proposed_outcome, source, proposed_by, evidence, challenge_ends_at, status, decided_by, decided_at
+  ) VALUES (
+    _market_id, _winning_outcome, 'admin', _admin_user_id,
+    jsonb_build_object('reason', v_reason), NOW(), 'finalized', _admin_user_id, NOW()
+  )
+  RETURNING id INTO v_proposal_id;
+
+  INSERT INTO market_resolution_log (
+    market_id, proposal_id, event, outcome, previous_outcome, details, note, actor_id
+  ) VALUES (
+    _market_id,
+    v_proposal_id,
+    'reversed',
+    _winning_outcome,
+    v_market.winning_outcome,
+    (v_result - 'ok' - 'market_id') || jsonb_build_object(
+      'positions_reset', v_reset,
+      'clawed_back', v_clawed_back,
+      'shortfall', v_shortfall
+    ),
+    v_reason,
+    _admin_user_id
+  );
+
+  INSERT INTO admin_market_audit_log (admin_user_id, market_id, action, details, is_system)
+  VALUES (
+    _admin_user_id,
+    _market_id,
+    'reverse',
+    jsonb_build_object(
+      'previous_outcome', v_market.winning_outcome,
+      'winning_outcome', _winning_outcome,
+      'reason', v_reason,
+      'positions_reset', v_reset,
+      'clawed_back', v_clawed_back,
+      'shortfall', v_shortfall
+    ),
+    false
+  );
+
+  RETURN v_result || jsonb_build_object(
+    'previous_outcome', v_market.winning_outcome,
+    'positions_reset', v_reset,
+    'clawed_back', v_clawed_back,
+    'shortfall', v_shortfall
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object('ok', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reverse_market_resolution(UUID, TEXT, UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reverse_market_resolution(UUID, TEXT, UUID, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.reverse_market_resolution(UUID, TEXT, UUID, TEXT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_market_resolution(UUID, TEXT, UUID, TEXT) TO service_role;
+
+-- =============================================
+-- finalize_due_market_resolutions: cron sweep of undisputed proposals
+-- =============================================
+CREATE OR REPLACE FUNCTION public.finalize_due_market_resolutions()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal_id UUID;
+  v_result JSONB;
+  v_finalized INT := 0;
+  v_failed INT := 0;
+BEGIN
+  FOR v_proposal_id IN
+    SELECT id
+    FROM market_resolution_proposals
+    WHERE status = 'open' AND challenge_ends_at <= NOW()
+    ORDER BY challenge_ends_at
+  LOOP
+    v_result := public.finalize_market_resolution(v_proposal_id, NULL, false);
+
+    IF coalesce((v_result->>'ok')::boolean, false) THEN
+      v_finalized := v_finalized + 1;
+    ELSE
+      v_failed := v_failed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'finalized', v_finalized, 'failed', v_failed);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.finalize_due_market_resolutions() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.finalize_due_market_resolutions() FROM anon;
+REVOKE ALL ON FUNCTION public.finalize_due_market_resolutions() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.finalize_due_market_resolutions() TO service_role;
+
+-- =============================================
+-- auto_resolve_markets: binary rules now propose instead of settling
+-- =============================================
+CREATE OR REPLACE FUNCTION public.auto_resolve_markets()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_market RECORD;
+  v_rule text;
+  v_total_goals int;
+  v_line numeric;
+  v_winning_outcome text;
+  v_proposed int := 0;
+  v_skipped int := 0;
+  v_rpc_result jsonb;
+BEGIN
+  FOR v_market IN
+    SELECT DISTINCT ON (pm.id)
+      pm.id,
+      pm.market_type,
+      pm.resolution_rule,
+      fr.goals_home,
+      fr.goals_away
+    FROM prediction_markets pm
+    INNER JOIN fixture_results fr
+      ON fr.fixture_id = pm.fixture_id
+     AND fr.status = 'FT'
+    WHERE pm.status IN ('open', 'closed')
+      AND pm.fixture_id IS NOT NULL
+      AND pm.market_type <> 'multi'
+      AND pm.winning_outcome IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM market_resolution_proposals p
+        WHERE p.market_id = pm.id AND p.status IN ('open', 'disputed', 'rejected')
+      )
+    ORDER BY pm.id
+  LOOP
+    v_rule := lower(coalesce(v_market.resolution_rule, v_market.market_type));
+    v_total_goals := v_market.goals_home + v_market.goals_away;
+    v_winning_outcome := NULL;
+
+    IF v_rule ~ 'over_?[0-9]+\.?[0-9]*' THEN
+      v_line := (regexp_match(v_rule, '([0-9]+\.?[0-9]*)'))[1]::numeric;
+      v_winning_outcome := CASE WHEN v_total_goals > v_line THEN 'yes' ELSE 'no' END;
+    ELSIF v_rule ~ 'under_?[0-9]+\.?[0-9]*' THEN
+      v_line := (regexp_match(v_rule, '([0-9]+\.?[0-9]*)'))[1]::numeric;
+      v_winning_outcome := CASE WHEN v_total_goals < v_line THEN 'yes' ELSE 'no' END;
+    ELSIF v_rule ~ 'btts' OR v_rule ~ 'both.?teams' THEN
+      v_winning_outcome := CASE
+        WHEN v_market.goals_home > 0 AND v_market.goals_away > 0 THEN 'yes'
+        ELSE 'no'
+      END;
+    ELSIF v_rule ~ 'home.?win' THEN
+      v_winning_outcome := CASE WHEN v_market.goals_home > v_market.goals_away THEN 'yes' ELSE 'no' END;
+    ELSIF v_rule ~ 'away.?win' THEN
+      v_winning_outcome := CASE WHEN v_market.goals_away > v_market.goals_home THEN 'yes' ELSE 'no' END;
+    ELSIF v_rule ~ 'draw' THEN
+      v_winning_outcome := CASE WHEN v_market.goals_home = v_market.goals_away THEN 'yes' ELSE 'no' END;
+    END IF;
+
+    IF v_winning_outcome IS NULL THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    v_rpc_result := public.propose_market_resolution(
+      v_market.id,
+      v_winning_outcome,
+      jsonb_build_object('resolved_by', 'auto_resolve_markets'),
+      NULL,
+      true
+    );
+
+    IF coalesce((v_rpc_result->>'ok')::boolean, false) AND NOT coalesce((v_rpc_result->>'skipped')::boolean, false) THEN
+      v_proposed := v_proposed + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'proposed', v_proposed,
+    'skipped', v_skipped
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.auto_resolve_markets() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.auto_resolve_markets() FROM anon;
+REVOKE ALL ON FUNCTION public.auto_resolve_markets() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.auto_resolve_markets() TO service_role;
+
+-- =============================================
+-- Settle undisputed proposals every 5 minutes (DB-native)
+-- =============================================
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'market-resolution-finalize-cron'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'market-resolution-finalize-cron',
+    '*/5 * * * *',
+    $cron$ SELECT public.finalize_due_market_resolutions(); $cron$
+  );
+END
+$do$;
@@ -0,0 +1,118 @@
+-- ============================================================
+-- IceEdge v2: box scores, goalies and factor breakdown
+-- ============================================================
+
+-- 1. Box-score aggregates and venue splits on the team cache
+ALTER TABLE public.hockey_team_stats_cache
+  ADD COLUMN stats_gp   integer NOT NULL DEFAULT 0,
+  ADD COLUMN save_pct   numeric,
+  ADD COLUMN home_gp    integer NOT NULL DEFAULT 0,
+  ADD COLUMN home_gpg   numeric NOT NULL DEFAULT 0,
+  ADD COLUMN home_gapg  numeric NOT NULL DEFAULT 0,
+  ADD COLUMN away_gp    integer NOT NULL DEFAULT 0,
+  ADD COLUMN away_gpg   numeric NOT NULL DEFAULT 0,
+  ADD COLUMN away_gapg  numeric NOT NULL DEFAULT 0;
+
+-- 2. hockey_game_team_stats  (one row per team per finished game)
+CREATE TABLE public.hockey_game_team_stats (
+  game_id           integer     NOT NULL REFERENCES public.hockey_games(id),
+  team_id           integer     NOT NULL REFERENCES public.hockey_teams(id),
+  is_home           boolean     NOT NULL,
+  shots_on_goal     integer,
+  pp_goals          integer,
+  pp_opportunities  integer,
+  penalty_minutes   integer,
+  saves             integer,
+  fetched_at        timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (game_id, team_id)
+);
+
+ALTER TABLE public.hockey_game_team_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manage hockey_game_team_stats"
+  ON public.hockey_game_team_stats FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_hockey_game_team_stats_team ON public.hockey_game_team_stats(team_id);
+
+-- 3. hockey_goalie_games  (goalie lines per finished game)
+CREATE TABLE public.hockey_goalie_games (
+  game_id        integer     NOT NULL REFERENCES public.hockey_games(id),
+  player_id      integer     NOT NULL,
+  team_id        integer     NOT NULL REFERENCES public.hockey_teams(id),
+  player_name    text        NOT NULL,
+  started        boolean     NOT NULL DEFAULT false,
+  shots_against  integer,
+  saves          integer,
+  goals_against  integer,
+  toi_seconds    integer,
+  fetched_at     timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (game_id, player_id)
+);
+
+ALTER TABLE public.hockey_goalie_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manage hockey_goalie_games"
+  ON public.hockey_goalie_games FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_hockey_goalie_games_team ON public.hockey_goalie_games(team_id);
+CREATE INDEX idx_hockey_goalie_games_player ON public.hockey_goalie_games(player_id);
+
+-- 4. hockey_goalie_stats_cache  (season save% per goalie)
+CREATE TABLE public.hockey_goalie_stats_cache (
+  player_id       integer     NOT NULL,
+  team_id         integer     NOT NULL REFERENCES public.hockey_teams(id),
+  league_id       integer     NOT NULL,
+  season          integer     NOT NULL,
+  player_name     text        NOT NULL,
+  gp              integer     NOT NULL DEFAULT 0,
+  starts          integer     NOT NULL DEFAULT 0,
+  shots_against   integer     NOT NULL DEFAULT 0,
+  saves           integer     NOT NULL DEFAULT 0,
+  save_pct        numeric,
+  last5_save_pct  numeric,
+  last_start_at   timestamptz,
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (player_id, team_id, league_id, season),
+  FOREIGN KEY (league_id, season) REFERENCES public.hockey_leagues(id, season)
+);
+
+ALTER TABLE public.hockey_goalie_stats_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manage hockey_goalie_stats_cache"
+  ON public.hockey_goalie_stats_cache FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+CREATE TRIGGER set_hockey_goalie_stats_updated_at
+  BEFORE UPDATE ON public.hockey_goalie_stats_cache
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- 5. hockey_starting_goalies  (confirmed by the provider or projected)
+CREATE TABLE public.hockey_starting_goalies (
+  game_id      integer     NOT NULL REFERENCES public.hockey_games(id),
+  team_id      integer     NOT NULL REFERENCES public.hockey_teams(id),
+  player_id    integer     NOT NULL,
+  player_name  text        NOT NULL,
+  status       text        NOT NULL DEFAULT 'projected' CHECK (status IN ('projected','confirmed')),
+  source       text        NOT NULL DEFAULT 'model' CHECK (source IN ('provider','model')),
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (game_id, team_id)
+);
+
+ALTER TABLE public.hockey_starting_goalies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manage hockey_starting_goalies"
+  ON public.hockey_starting_goalies FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+CREATE TRIGGER set_hockey_starting_goalies_updated_at
+  BEFORE UPDATE ON public.hockey_starting_goalies
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- 6. Factor breakdown and starters on the client-facing cache
+ALTER TABLE public.hockey_iceedge_cache
+  ADD COLUMN factor_breakdown jsonb NOT NULL DEFAULT '[]',
+  ADD COLUMN goalies          jsonb,
+  ADD COLUMN model_version    text;
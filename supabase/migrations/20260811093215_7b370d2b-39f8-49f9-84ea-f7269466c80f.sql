@@ -0,0 +1,199 @@
+-- =============================================
+-- Multi-sport bet journal legs
+-- Hockey legs are settled by hockey-sync-results from hockey_games and
+-- basketball legs by basketball-sync-results from basketball_games;
+-- score-ticket-legs keeps settling football legs from fixture_results.
+-- =============================================
+
+BEGIN;
+
+ALTER TABLE public.bet_journal_legs
+  ADD COLUMN IF NOT EXISTS sport TEXT NOT NULL DEFAULT 'football';
+
+ALTER TABLE public.bet_journal_legs
+  DROP CONSTRAINT IF EXISTS bet_journal_legs_valid_sport;
+ALTER TABLE public.bet_journal_legs
+  ADD CONSTRAINT bet_journal_legs_valid_sport
+    CHECK (sport IN ('football', 'hockey', 'basketball'));
+
+-- Winner and handicap legs (hockey match_winner / reg_winner / handicap) use team sides
+ALTER TABLE public.bet_journal_legs
+  DROP CONSTRAINT IF EXISTS bet_journal_legs_valid_side;
+ALTER TABLE public.bet_journal_legs
+  ADD CONSTRAINT bet_journal_legs_valid_side
+    CHECK (
+      side IN ('over', 'under')
+      OR (sport <> 'football' AND side IN ('home', 'away', 'draw'))
+    );
+
+CREATE INDEX IF NOT EXISTS idx_bet_journal_legs_pending_sport
+  ON public.bet_journal_legs (sport, fixture_id) WHERE result_status = 'PENDING';
+
+-- ---------- RPC: scorable journal legs (football only) ----------
+-- Hockey game ids can collide with football fixture ids, so the join is sport-scoped
+CREATE OR REPLACE FUNCTION public.get_scorable_journal_legs(batch_limit INT DEFAULT 500)
+RETURNS TABLE (
+  leg_id UUID,
+  bet_id UUID,
+  fixture_id BIGINT,
+  market TEXT,
+  side TEXT,
+  line NUMERIC,
+  goals_home SMALLINT,
+  goals_away SMALLINT,
+  corners_home SMALLINT,
+  corners_away SMALLINT,
+  cards_home SMALLINT,
+  cards_away SMALLINT,
+  fouls_home SMALLINT,
+  fouls_away SMALLINT,
+  offsides_home SMALLINT,
+  offsides_away SMALLINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    bjl.id AS leg_id,
+    bjl.bet_id,
+    bjl.fixture_id::BIGINT,
+    bjl.market,
+    bjl.side,
+    bjl.line,
+    fr.goals_home::SMALLINT,
+    fr.goals_away::SMALLINT,
+    fr.corners_home::SMALLINT,
+    fr.corners_away::SMALLINT,
+    fr.cards_home::SMALLINT,
+    fr.cards_away::SMALLINT,
+    fr.fouls_home::SMALLINT,
+    fr.fouls_away::SMALLINT,
+    fr.offsides_home::SMALLINT,
+    fr.offsides_away::SMALLINT
+  FROM bet_journal_legs bjl
+  INNER JOIN fixture_results fr
+    ON bjl.fixture_id = fr.fixture_id
+    AND fr.status = 'FT'
+  WHERE bjl.result_status = 'PENDING'
+    AND bjl.sport = 'football'
+  ORDER BY bjl.kickoff_at ASC NULLS LAST
+  LIMIT batch_limit
+  FOR UPDATE OF bjl SKIP LOCKED;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_scorable_journal_legs(INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_scorable_journal_legs(INT) FROM anon;
+REVOKE ALL ON FUNCTION public.get_scorable_journal_legs(INT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_scorable_journal_legs(INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_scorable_journal_legs(INT) TO postgres;
+
+-- ---------- RPCs: settleable hockey / basketball journal legs ----------
+-- Only legs whose game is final (FINAL_STATUSES in _shared/hockey_legs.ts and
+-- _shared/basketball_legs.ts) or cancelled / abandoned (VOID_STATUSES, settled
+-- VOID) are returned, so legs on postponed or unfinished games never fill the
+-- batch ahead of settleable ones. Hockey p1_total legs wait for period_scores.
+CREATE OR REPLACE FUNCTION public.get_settleable_hockey_journal_legs(batch_limit INT DEFAULT 500)
+RETURNS TABLE (
+  leg_id UUID,
+  bet_id UUID,
+  fixture_id BIGINT,
+  market TEXT,
+  side TEXT,
+  line NUMERIC,
+  status TEXT,
+  home_score INT,
+  away_score INT,
+  went_to_ot BOOLEAN,
+  period_scores JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    bjl.id AS leg_id,
+    bjl.bet_id,
+    bjl.fixture_id::BIGINT,
+    bjl.market,
+    bjl.side,
+    bjl.line,
+    hg.status::TEXT,
+    hg.home_score::INT,
+    hg.away_score::INT,
+    hg.went_to_ot,
+    hg.period_scores::JSONB
+  FROM bet_journal_legs bjl
+  INNER JOIN hockey_games hg
+    ON hg.id = bjl.fixture_id
+  WHERE bjl.result_status = 'PENDING'
+    AND bjl.sport = 'hockey'
+    AND (
+      hg.status IN ('CANC', 'ABD')
+      OR (
+        hg.status IN ('FT', 'AOT', 'AP', 'AET')
+        AND (bjl.market <> 'p1_total' OR hg.period_scores -> 'first' IS NOT NULL)
+      )
+    )
+  ORDER BY bjl.kickoff_at ASC NULLS LAST
+  LIMIT batch_limit
+  FOR UPDATE OF bjl SKIP LOCKED;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_settleable_basketball_journal_legs(batch_limit INT DEFAULT 500)
+RETURNS TABLE (
+  leg_id UUID,
+  bet_id UUID,
+  fixture_id BIGINT,
+  market TEXT,
+  side TEXT,
+  line NUMERIC,
+  status_short TEXT,
+  home_score INT,
+  away_score INT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    bjl.id AS leg_id,
+    bjl.bet_id,
+    bjl.fixture_id::BIGINT,
+    bjl.market,
+    bjl.side,
+    bjl.line,
+    bg.status_short::TEXT,
+    bg.home_score::INT,
+    bg.away_score::INT
+  FROM bet_journal_legs bjl
+  INNER JOIN basketball_games bg
+    ON bg.id = bjl.fixture_id
+  WHERE bjl.result_status = 'PENDING'
+    AND bjl.sport = 'basketball'
+    AND bg.status_short IN ('FT', 'AOT', 'AP', 'CANC', 'ABD')
+  ORDER BY bjl.kickoff_at ASC NULLS LAST
+  LIMIT batch_limit
+  FOR UPDATE OF bjl SKIP LOCKED;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_settleable_hockey_journal_legs(INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_settleable_hockey_journal_legs(INT) FROM anon;
+REVOKE ALL ON FUNCTION public.get_settleable_hockey_journal_legs(INT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_settleable_hockey_journal_legs(INT) TO service_role;
+
+REVOKE ALL ON FUNCTION public.get_settleable_basketball_journal_legs(INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_settleable_basketball_journal_legs(INT) FROM anon;
+REVOKE ALL ON FUNCTION public.get_settleable_basketball_journal_legs(INT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_settleable_basketball_journal_legs(INT) TO service_role;
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- =============================================
+-- Basketball pace model inputs
+-- basketball-stats-refresh writes possessions-based pace and per-100
+-- offensive/defensive ratings (season and by venue) for basketball-safe-zone.
+-- =============================================
+
+BEGIN;
+
+ALTER TABLE public.basketball_stats_cache
+  ADD COLUMN IF NOT EXISTS pace_gp INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS pace NUMERIC,
+  ADD COLUMN IF NOT EXISTS ortg NUMERIC,
+  ADD COLUMN IF NOT EXISTS drtg NUMERIC,
+  ADD COLUMN IF NOT EXISTS home_gp INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS home_ortg NUMERIC,
+  ADD COLUMN IF NOT EXISTS home_drtg NUMERIC,
+  ADD COLUMN IF NOT EXISTS away_gp INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS away_ortg NUMERIC,
+  ADD COLUMN IF NOT EXISTS away_drtg NUMERIC;
+
+COMMENT ON COLUMN public.basketball_stats_cache.pace IS 'Possessions per game: FGA - OREB + TOV + 0.44 * FTA';
+COMMENT ON COLUMN public.basketball_stats_cache.pace_gp IS 'Games with a complete box score behind pace/ortg/drtg';
+
+COMMIT;
@@ -0,0 +1,51 @@
+-- =============================================
+-- Basketball odds cache
+-- Written by basketball-sync-odds with canonical markets (see
+-- _shared/basketball_odds.ts); read by basketball-safe-zone for book lines
+-- and model edges. Service-only, like hockey_odds_cache.
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.basketball_odds_cache (
+  id          BIGINT      GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  game_id     INTEGER     NOT NULL REFERENCES public.basketball_games(id) ON DELETE CASCADE,
+  bookmaker   TEXT        NOT NULL,
+  market      TEXT        NOT NULL
+    CHECK (market IN ('moneyline', 'total', 'spread', 'home_total', 'away_total', 'h1_total', 'q1_total')),
+  selection   TEXT        NOT NULL
+    CHECK (selection IN ('home', 'away', 'over', 'under')),
+  line        NUMERIC     NOT NULL DEFAULT 0,
+  odds        NUMERIC     NOT NULL CHECK (odds > 1),
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (game_id, bookmaker, market, selection, line)
+);
+
+ALTER TABLE public.basketball_odds_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manage basketball_odds_cache" ON public.basketball_odds_cache;
+CREATE POLICY "Service role manage basketball_odds_cache"
+  ON public.basketball_odds_cache FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_basketball_odds_game_market
+  ON public.basketball_odds_cache (game_id, market);
+
+-- Best price per selection, like best_outcome_prices for football
+CREATE OR REPLACE VIEW public.basketball_best_prices
+WITH (security_invoker = true) AS
+WITH ranked AS (
+  SELECT
+    boc.*,
+    ROW_NUMBER() OVER (
+      PARTITION BY boc.game_id, boc.market, boc.selection, boc.line
+      ORDER BY boc.odds DESC, boc.captured_at DESC
+    ) AS rk
+  FROM public.basketball_odds_cache boc
+)
+SELECT * FROM ranked WHERE rk = 1;
+
+REVOKE ALL ON public.basketball_best_prices FROM anon, authenticated;
+GRANT SELECT ON public.basketball_best_prices TO service_role;
+
+COMMIT;
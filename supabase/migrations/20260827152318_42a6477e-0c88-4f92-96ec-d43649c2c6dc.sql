@@ -0,0 +1,81 @@
+-- =============================================
+-- Safe Zone Bot chat sessions
+--
+-- safe-zone-chat keeps one session per conversation: the last
+-- interpretation and result set, which follow-ups ("swap the second pick",
+-- "now only Spain") act on, plus the message history the bot restores when
+-- the chat is reopened. Picks are stored as snapshots because
+-- populate-safe-zone-picks replaces safe_zone_picks rows on every run.
+--
+-- Only the edge function (service role) writes; users read their own rows.
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.safe_zone_chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  interpretation JSONB,
+  picks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.safe_zone_chat_sessions.interpretation IS 'Last ChatInterpretation (_shared/chat_query.ts)';
+COMMENT ON COLUMN public.safe_zone_chat_sessions.picks IS 'Last result set, as safe_zone_picks rows';
+
+CREATE INDEX IF NOT EXISTS idx_safe_zone_chat_sessions_user
+  ON public.safe_zone_chat_sessions (user_id, updated_at DESC);
+
+CREATE TRIGGER update_safe_zone_chat_sessions_updated_at
+  BEFORE UPDATE ON public.safe_zone_chat_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.safe_zone_chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.safe_zone_chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'bot')),
+  text TEXT CHECK (char_length(text) <= 500),
+  interpretation JSONB,
+  picks JSONB,
+  follow_up JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.safe_zone_chat_messages.follow_up IS 'FollowUpResult (_shared/chat_session.ts) when the message acted on the previous results';
+
+CREATE INDEX IF NOT EXISTS idx_safe_zone_chat_messages_session
+  ON public.safe_zone_chat_messages (session_id, created_at);
+
+-- =============================================
+-- RLS
+-- =============================================
+ALTER TABLE public.safe_zone_chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.safe_zone_chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chat sessions"
+  ON public.safe_zone_chat_sessions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access (safe_zone_chat_sessions)"
+  ON public.safe_zone_chat_sessions FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own chat messages"
+  ON public.safe_zone_chat_messages FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access (safe_zone_chat_messages)"
+  ON public.safe_zone_chat_messages FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+REVOKE INSERT, UPDATE, DELETE ON public.safe_zone_chat_sessions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.safe_zone_chat_messages FROM anon, authenticated;
+
+GRANT SELECT ON public.safe_zone_chat_sessions TO authenticated;
+GRANT SELECT ON public.safe_zone_chat_messages TO authenticated;
+
+COMMIT;
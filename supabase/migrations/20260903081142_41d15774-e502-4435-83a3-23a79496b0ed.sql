@@ -0,0 +1,151 @@
+-- =============================================
+-- API quota ledger
+--
+-- Every api-sports call made by a metered job reserves quota here first
+-- (_shared/api_quota.ts), so the daily budget and the per-minute limit hold
+-- across concurrent edge functions instead of per isolate. Usage is counted
+-- per UTC day (when api-sports resets), key account and job; a refused
+-- reservation counts as a deferral. Policy (which job may spend how much)
+-- lives in api_quota.ts and is passed in; this table only enforces it
+-- atomically.
+--
+-- Only edge functions (service role) read and write.
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.api_quota_usage (
+  day DATE NOT NULL,
+  account TEXT NOT NULL,
+  job TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  deferred INTEGER NOT NULL DEFAULT 0,
+  last_call_at TIMESTAMPTZ,
+  last_deferred_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (day, account, job)
+);
+
+COMMENT ON COLUMN public.api_quota_usage.account IS 'api-sports key account: api-football (football, basketball, nba) or api-hockey';
+COMMENT ON COLUMN public.api_quota_usage.deferred IS 'Reservations refused because the job or its priority reached its daily ceiling';
+
+CREATE TRIGGER update_api_quota_usage_updated_at
+  BEFORE UPDATE ON public.api_quota_usage
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rolling per-minute counters; rows older than a few minutes are pruned on write
+CREATE TABLE IF NOT EXISTS public.api_quota_minute (
+  account TEXT NOT NULL,
+  minute TIMESTAMPTZ NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (account, minute)
+);
+
+-- ---------- RPC: reserve quota ----------
+-- Returns { allowed, reason, used, job_used, minute_used, retry_after_ms }.
+-- reason is 'daily' (account ceiling for the job's priority), 'job' (the
+-- job's own budget) or 'rpm' (retry after retry_after_ms). p_calls = 0 checks
+-- without spending, for a pre-flight deferral check.
+CREATE OR REPLACE FUNCTION public.reserve_api_quota(
+  p_account TEXT,
+  p_job TEXT,
+  p_calls INT DEFAULT 1,
+  p_daily_ceiling INT DEFAULT NULL,
+  p_job_budget INT DEFAULT NULL,
+  p_rpm INT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day DATE := (now() AT TIME ZONE 'UTC')::date;
+  v_minute TIMESTAMPTZ := date_trunc('minute', now());
+  v_used INT;
+  v_job_used INT;
+  v_minute_used INT;
+  v_reason TEXT;
+BEGIN
+  -- Serialize reservations per account so concurrent jobs cannot overshoot
+  PERFORM pg_advisory_xact_lock(hashtext('api_quota:' || p_account));
+
+  SELECT COALESCE(SUM(calls), 0) INTO v_used
+  FROM api_quota_usage WHERE day = v_day AND account = p_account;
+
+  SELECT COALESCE(SUM(calls), 0) INTO v_job_used
+  FROM api_quota_usage WHERE day = v_day AND account = p_account AND job = p_job;
+
+  SELECT COALESCE(SUM(calls), 0) INTO v_minute_used
+  FROM api_quota_minute WHERE account = p_account AND minute = v_minute;
+
+  IF p_daily_ceiling IS NOT NULL AND (v_used >= p_daily_ceiling OR v_used + p_calls > p_daily_ceiling) THEN
+    v_reason := 'daily';
+  ELSIF p_job_budget IS NOT NULL AND (v_job_used >= p_job_budget OR v_job_used + p_calls > p_job_budget) THEN
+    v_reason := 'job';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO api_quota_usage (day, account, job, deferred, last_deferred_at)
+    VALUES (v_day, p_account, p_job, 1, now())
+    ON CONFLICT (day, account, job) DO UPDATE
+      SET deferred = api_quota_usage.deferred + 1, last_deferred_at = now();
+    RETURN jsonb_build_object(
+      'allowed', false, 'reason', v_reason,
+      'used', v_used, 'job_used', v_job_used, 'minute_used', v_minute_used
+    );
+  END IF;
+
+  IF p_rpm IS NOT NULL AND p_calls > 0 AND v_minute_used + p_calls > p_rpm THEN
+    RETURN jsonb_build_object(
+      'allowed', false, 'reason', 'rpm',
+      'used', v_used, 'job_used', v_job_used, 'minute_used', v_minute_used,
+      'retry_after_ms', GREATEST(100, CEIL(EXTRACT(EPOCH FROM (v_minute + interval '1 minute' - clock_timestamp())) * 1000)::INT)
+    );
+  END IF;
+
+  IF p_calls > 0 THEN
+    INSERT INTO api_quota_usage (day, account, job, calls, last_call_at)
+    VALUES (v_day, p_account, p_job, p_calls, now())
+    ON CONFLICT (day, account, job) DO UPDATE
+      SET calls = api_quota_usage.calls + p_calls, last_call_at = now();
+
+    INSERT INTO api_quota_minute (account, minute, calls)
+    VALUES (p_account, v_minute, p_calls)
+    ON CONFLICT (account, minute) DO UPDATE
+      SET calls = api_quota_minute.calls + p_calls;
+
+    DELETE FROM api_quota_minute WHERE account = p_account AND minute < v_minute - interval '5 minutes';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'used', v_used + p_calls, 'job_used', v_job_used + p_calls, 'minute_used', v_minute_used + p_calls
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_api_quota(TEXT, TEXT, INT, INT, INT, INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reserve_api_quota(TEXT, TEXT, INT, INT, INT, INT) FROM anon;
+REVOKE ALL ON FUNCTION public.reserve_api_quota(TEXT, TEXT, INT, INT, INT, INT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_api_quota(TEXT, TEXT, INT, INT, INT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_api_quota(TEXT, TEXT, INT, INT, INT, INT) TO postgres;
+
+-- =============================================
+-- RLS
+-- =============================================
+ALTER TABLE public.api_quota_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_quota_minute ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access (api_quota_usage)"
+  ON public.api_quota_usage FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access (api_quota_minute)"
+  ON public.api_quota_minute FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+REVOKE ALL ON public.api_quota_usage FROM anon, authenticated;
+REVOKE ALL ON public.api_quota_minute FROM anon, authenticated;
+
+COMMIT;
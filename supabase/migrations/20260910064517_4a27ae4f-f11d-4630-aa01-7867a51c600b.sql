@@ -0,0 +1,160 @@
+-- =============================================
+-- Pipeline runs
+--
+-- One row per run of a pipeline DAG (_shared/job_dag.ts) driven by
+-- pipeline-orchestrator. `graph` is the node/dependency snapshot the run was
+-- started with; `nodes` holds each node's status, attempts and timings and is
+-- rewritten by every orchestrator tick. Nodes that exhaust their retries are
+-- also written to pipeline_run_logs with mode 'dead_letter'. pg_cron starts
+-- and ticks the runs (schedules at the end of this file).
+--
+-- Only edge functions (service role) read and write; admins see runs through
+-- admin-health.
+-- =============================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  trigger TEXT NOT NULL DEFAULT 'cron',
+  graph JSONB NOT NULL DEFAULT '[]'::jsonb,
+  nodes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.pipeline_runs.trigger IS 'cron or admin';
+COMMENT ON COLUMN public.pipeline_runs.nodes IS 'Node id -> { status, attempts[], next_attempt_at, started_at, finished_at, dead_lettered }';
+
+-- At most one active run per pipeline
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_runs_one_running
+  ON public.pipeline_runs (pipeline) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_started_at
+  ON public.pipeline_runs (started_at DESC);
+
+CREATE TRIGGER update_pipeline_runs_updated_at
+  BEFORE UPDATE ON public.pipeline_runs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =============================================
+-- RLS
+-- =============================================
+ALTER TABLE public.pipeline_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access (pipeline_runs)"
+  ON public.pipeline_runs FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+REVOKE ALL ON public.pipeline_runs FROM anon, authenticated;
+
+COMMIT;
+
+-- =============================================
+-- Schedules
+--
+-- "tick" every minute advances running runs: retries after backoff, stale
+-- nodes, and runs started by an admin. "start" opens a run per pipeline; while
+-- one is still running the start answers 409 and ticks it instead.
+-- The standalone warmup-odds → optimizer chain is retired: the prematch
+-- pipeline runs cron-warmup-odds with skip_optimize and only then the
+-- optimizer, once stats-refresh has succeeded as well.
+-- =============================================
+DO $$ BEGIN PERFORM cron.unschedule('warmup-optimizer-cron'); EXCEPTION WHEN OTHERS THEN NULL; END $$;
+DO $$ BEGIN PERFORM cron.unschedule('warmup-odds-72h-every-12h'); EXCEPTION WHEN OTHERS THEN NULL; END $$;
+
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'pipeline-orchestrator-tick-1m'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'pipeline-orchestrator-tick-1m',
+    '* * * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/pipeline-orchestrator',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{"action": "tick"}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
+
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'pipeline-prematch-start-2h'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'pipeline-prematch-start-2h',
+    '0 */2 * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/pipeline-orchestrator',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{"action": "start", "pipeline": "prematch"}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;
+
+DO $do$
+DECLARE
+  v_jobid bigint;
+BEGIN
+  SELECT jobid
+    INTO v_jobid
+  FROM cron.job
+  WHERE jobname = 'pipeline-settlement-start-30m'
+  LIMIT 1;
+
+  IF v_jobid IS NOT NULL THEN
+    PERFORM cron.unschedule(v_jobid);
+  END IF;
+
+  PERFORM cron.schedule(
+    'pipeline-settlement-start-30m',
+    '15,45 * * * *',
+    $cron$
+    SELECT net.http_post(
+      url := current_setting('supabase.functions.url', true) || '/pipeline-orchestrator',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-CRON-KEY', public.get_cron_internal_key()
+      ),
+      body := '{"action": "start", "pipeline": "settlement"}'::jsonb
+    );
+    $cron$
+  );
+END
+$do$;